@@ -0,0 +1,65 @@
+/**
+ * Script to send the queued webhook deliveries
+ *
+ * Same as POST /api/jobs/webhook-deliveries, for running the job locally.
+ *
+ * Usage:
+ *   npm run webhooks:deliver                                   # send now
+ *   npm run webhooks:deliver -- --now 2026-11-02T08:00:00Z     # send as of a time
+ *   npm run webhooks:deliver -- --limit 10
+ */
+
+import { config } from 'dotenv';
+config({ path: './.env.local' });
+
+function getArgValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing required environment variables:');
+    console.error('   - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('   - SUPABASE_SERVICE_ROLE_KEY');
+    console.error('\n💡 Make sure .env.local is configured correctly.\n');
+    process.exit(1);
+  }
+
+  const nowArg = getArgValue('--now');
+  const limitArg = getArgValue('--limit');
+  const now = nowArg ? new Date(nowArg) : new Date();
+
+  if (isNaN(now.getTime())) {
+    console.error(`❌ Invalid --now value: ${nowArg}`);
+    process.exit(1);
+  }
+
+  console.log(`📝 Sending webhook deliveries due at ${now.toISOString()}...\n`);
+
+  // Loaded after dotenv: the Supabase client reads its configuration on import
+  const { runWebhookDeliveries } = await import('../src/lib/webhooks/delivery-runner');
+  const { result, error } = await runWebhookDeliveries({
+    now,
+    limit: limitArg ? parseInt(limitArg, 10) : undefined,
+  });
+
+  if (error) {
+    console.error('❌ Failed to claim webhook deliveries:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`✅ Succeeded: ${result.succeeded}`);
+  console.log(`🔁 Retrying: ${result.retrying}`);
+  console.log(`💀 Dead: ${result.dead}`);
+  console.log(`❌ Not recorded: ${result.failed}`);
+
+  if (result.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
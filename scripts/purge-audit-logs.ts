@@ -0,0 +1,39 @@
+/**
+ * Script to run the audit log retention job
+ *
+ * Same as POST /api/jobs/audit-retention, for running the job locally.
+ *
+ * Usage:
+ *   npm run audit-logs:purge
+ */
+
+import { config } from 'dotenv';
+config({ path: './.env.local' });
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing required environment variables:');
+    console.error('   - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('   - SUPABASE_SERVICE_ROLE_KEY');
+    console.error('\n💡 Make sure .env.local is configured correctly.\n');
+    process.exit(1);
+  }
+
+  console.log('📝 Purging audit log entries past their plan retention...\n');
+
+  // Loaded after dotenv: the Supabase client reads its configuration on import
+  const { purgeExpiredAuditLogs } = await import('../src/lib/audit/audit-log');
+  const { deleted, error } = await purgeExpiredAuditLogs();
+
+  if (error) {
+    console.error('❌ Failed to purge expired audit logs:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`🗑️  Deleted: ${deleted}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
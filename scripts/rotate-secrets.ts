@@ -0,0 +1,77 @@
+/**
+ * Script to rotate the master key protecting stored secrets
+ *
+ * Re-encrypts every OpenAI API key (analytics.boltx_configurations) and VTEX
+ * credential (dashboard.vtex_credentials) that is not yet encrypted under the
+ * active master key, including legacy base64 values.
+ *
+ * Usage:
+ *   npm run secrets:rotate                        # all accounts
+ *   npm run secrets:rotate -- --account <uuid>    # one account
+ *   npm run secrets:rotate -- --generate-key      # print a new master key
+ *
+ * Rotating the master key:
+ *   1. Generate a key and append it to SECRETS_MASTER_KEYS ("old:...,new:...")
+ *   2. Set SECRETS_ACTIVE_KEY_ID=new and deploy
+ *   3. Run this script
+ *   4. Remove the old key from SECRETS_MASTER_KEYS
+ */
+
+import { config } from 'dotenv';
+config({ path: './.env.local' });
+
+function getArgValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const { generateMasterKey, getKeyringFromEnv } = await import('../src/lib/secrets/envelope');
+
+  if (process.argv.includes('--generate-key')) {
+    console.log(generateMasterKey());
+    return;
+  }
+
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing required environment variables:');
+    console.error('   - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('   - SUPABASE_SERVICE_ROLE_KEY');
+    console.error('\n💡 Make sure .env.local is configured correctly.\n');
+    process.exit(1);
+  }
+
+  const keyring = getKeyringFromEnv();
+  const accountId = getArgValue('--account');
+
+  console.log(
+    `🔑 Active master key: ${keyring.activeKeyId} (keyring: ${keyring.keyIds.join(', ')})`
+  );
+  console.log(
+    accountId ? `📝 Rotating secrets of account ${accountId}...\n` : '📝 Rotating all secrets...\n'
+  );
+
+  // Loaded after dotenv: the Supabase client reads its configuration on import
+  const { rotateStoredSecrets } = await import('../src/lib/secrets/rotation');
+  const result = await rotateStoredSecrets({ accountId, keyring });
+
+  console.log(`✅ Rotated: ${result.rotated}`);
+  console.log(`⏭️  Skipped (changed while rotating): ${result.skipped}`);
+
+  if (result.failed.length > 0) {
+    console.error(`❌ Failed: ${result.failed.length}`);
+    result.failed.forEach((failure) => {
+      console.error(
+        `   - ${failure.source}.${failure.field} (${failure.accountId}): ${failure.error}`
+      );
+    });
+    process.exit(1);
+  }
+
+  console.log('\n🎉 All secrets are encrypted under the active master key.');
+}
+
+main().catch((error) => {
+  console.error('❌ Secret rotation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * Script to run the subscription dunning job
+ *
+ * Same as POST /api/jobs/subscription-dunning, for running the job locally.
+ *
+ * Usage:
+ *   npm run dunning:run                                   # run now
+ *   npm run dunning:run -- --now 2026-11-02T08:00:00Z     # run at a time
+ *   npm run dunning:run -- --limit 10
+ */
+
+import { config } from 'dotenv';
+config({ path: './.env.local' });
+
+function getArgValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing required environment variables:');
+    console.error('   - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('   - SUPABASE_SERVICE_ROLE_KEY');
+    console.error('\n💡 Make sure .env.local is configured correctly.\n');
+    process.exit(1);
+  }
+
+  const nowArg = getArgValue('--now');
+  const limitArg = getArgValue('--limit');
+  const now = nowArg ? new Date(nowArg) : new Date();
+
+  if (isNaN(now.getTime())) {
+    console.error(`❌ Invalid --now value: ${nowArg}`);
+    process.exit(1);
+  }
+
+  console.log(`📝 Running subscription dunning at ${now.toISOString()}...\n`);
+
+  // Loaded after dotenv: the Supabase client reads its configuration on import
+  const { runSubscriptionDunning } = await import('../src/lib/dunning/dunning-runner');
+  const { result, error } = await runSubscriptionDunning({
+    now,
+    limit: limitArg ? parseInt(limitArg, 10) : undefined,
+  });
+
+  if (error) {
+    console.error('❌ Failed to claim subscriptions in dunning:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`📋 Claimed: ${result.claimed}`);
+  console.log(`✅ Recovered: ${result.recovered}`);
+  console.log(`🔁 Retrying later: ${result.retrying}`);
+  console.log(`⏳ Entered grace period: ${result.grace}`);
+  console.log(`🔒 Suspended: ${result.suspended}`);
+  console.log(`❌ Failed: ${result.failed}`);
+
+  if (result.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+/**
+ * Script to send the report digests that are due
+ *
+ * Same as POST /api/jobs/report-digests, for running the job locally.
+ *
+ * Usage:
+ *   npm run digests:send                                   # digests due now
+ *   npm run digests:send -- --now 2026-11-02T08:00:00Z     # digests due at a time
+ *   npm run digests:send -- --limit 10
+ */
+
+import { config } from 'dotenv';
+config({ path: './.env.local' });
+
+function getArgValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing required environment variables:');
+    console.error('   - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('   - SUPABASE_SERVICE_ROLE_KEY');
+    console.error('\n💡 Make sure .env.local is configured correctly.\n');
+    process.exit(1);
+  }
+
+  const nowArg = getArgValue('--now');
+  const limitArg = getArgValue('--limit');
+  const now = nowArg ? new Date(nowArg) : new Date();
+
+  if (isNaN(now.getTime())) {
+    console.error(`❌ Invalid --now value: ${nowArg}`);
+    process.exit(1);
+  }
+
+  console.log(`📝 Sending report digests due at ${now.toISOString()}...\n`);
+
+  // Loaded after dotenv: the Supabase client reads its configuration on import
+  const { runDueReportDigests } = await import('../src/lib/reports/digest-runner');
+  const { result, error } = await runDueReportDigests({
+    now,
+    limit: limitArg ? parseInt(limitArg, 10) : undefined,
+  });
+
+  if (error) {
+    console.error('❌ Failed to claim report digests:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`✅ Sent: ${result.sent}`);
+  console.log(`⏭️  Skipped (demo accounts): ${result.skipped}`);
+  console.log(`❌ Failed: ${result.failed}`);
+
+  if (result.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
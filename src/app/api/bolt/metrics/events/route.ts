@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { AuthError } from '@/lib/api/auth';
+import { authenticateApiKey } from '@/lib/api/api-key-auth';
+import { BOLTGUARD_ASSESSMENT_EVENT } from '@/lib/boltguard/risk-events';
+import { evaluateIngestedAssessments } from '@/lib/boltguard/rule-runner';
+import { tagEventsWithExperiments } from '@/lib/experiments/experiment-store';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
 
 /**
  * Event payload interface matching TrackedEvent structure
@@ -15,119 +27,48 @@ interface EventPayload {
   metadata?: Record<string, any>;
 }
 
-
-/**
- * Get allowed origins for CORS
- */
-function getAllowedOrigins(): string[] {
-  const allowedOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',') || [];
-
-  // In development, allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...allowedOrigins];
-  }
-
-  return allowedOrigins;
-}
-
-/**
- * Get CORS headers
- */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern
-      if (allowed.includes('localhost') && origin.includes('localhost')) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  const corsOrigin = isAllowed ? origin : allowedOrigins[0] || '*';
-
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = { methods: ['POST'] };
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 /**
  * POST /api/bolt/metrics/events
  * Receives metrics/events from checkout and stores them in analytics.events table
+ * Authenticated with a per-account API key (X-API-Key) that has the 'ingest' scope;
+ * events are attributed to the account that owns the key
  */
 export async function POST(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   try {
-    // Validate API Key
-    const apiKey = request.headers.get('X-API-Key');
-    const expectedApiKey = process.env.METRICS_API_KEY;
-
-    // Debug logging in development
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('‼️ [DEBUG] Metrics API Key Check:', {
-        hasReceivedKey: !!apiKey,
-        receivedKeyLength: apiKey?.length || 0,
-        hasExpectedKey: !!expectedApiKey,
-        expectedKeyLength: expectedApiKey?.length || 0,
-        keysMatch: apiKey === expectedApiKey,
-        origin: request.headers.get('origin'),
-      });
-    }
-
-    if (!expectedApiKey) {
-      console.error('❌ [ERROR] METRICS_API_KEY not configured in server environment');
-      return NextResponse.json(
-        { error: 'Server configuration error' },
-        {
-          status: 500,
-          headers: corsHeaders,
-        }
-      );
-    }
-
-    if (!apiKey) {
-      console.warn('⚠️ [WARN] No X-API-Key header provided');
-      return NextResponse.json(
-        { error: 'Unauthorized: API key is required' },
-        {
-          status: 401,
-          headers: corsHeaders,
-        }
-      );
+    // Authenticate with the account's own API key (requires 'ingest' scope)
+    let accountId: string;
+    try {
+      ({ accountId } = await authenticateApiKey(request, 'ingest'));
+    } catch (authError) {
+      if (authError instanceof AuthError) {
+        console.warn('⚠️ [WARN] Metrics API key rejected:', authError.message);
+        return NextResponse.json(
+          { error: authError.message },
+          {
+            status: authError.status,
+            headers: corsHeaders,
+          }
+        );
+      }
+      throw authError;
     }
 
-    if (apiKey !== expectedApiKey) {
-      console.warn('⚠️ [WARN] API key mismatch');
-      return NextResponse.json(
-        { error: 'Unauthorized: Invalid API key' },
-        {
-          status: 401,
-          headers: corsHeaders,
-        }
-      );
+    // The request origin must be registered by the account that owns the key
+    const originCheck = await checkAccountOrigin(request, accountId, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
     }
 
     // Parse request body
@@ -182,61 +123,25 @@ export async function POST(request: NextRequest) {
 
     const supabaseAdmin = getSupabaseAdmin();
 
-    // Extract unique vtex_account_name values from events
-    const vtexAccountNames = new Set<string>();
-    events.forEach((event) => {
-      const vtexAccountName = event.metadata?.vtex_account_name as string | undefined;
-      if (vtexAccountName && typeof vtexAccountName === 'string') {
-        vtexAccountNames.add(vtexAccountName);
-      }
-    });
-
-    // Look up customer_id for each unique vtex_account_name
-    const customerIdMap = new Map<string, string | null>();
-
-    if (vtexAccountNames.size > 0) {
-      for (const vtexAccountName of Array.from(vtexAccountNames)) {
-        try {
-          const { data: accounts, error: lookupError } = await supabaseAdmin
-            .rpc('get_account_by_vtex_name', { p_vtex_account_name: vtexAccountName });
-
-          if (lookupError) {
-            console.warn('⚠️ [DEBUG] Failed to lookup customer_id for vtex_account_name:', vtexAccountName, lookupError);
-            customerIdMap.set(vtexAccountName, null);
-          } else if (accounts && accounts.length > 0 && accounts[0]?.id) {
-            customerIdMap.set(vtexAccountName, accounts[0].id);
-            console.info('✅ [DEBUG] Found customer_id for vtex_account_name:', vtexAccountName, 'customer_id:', accounts[0].id);
-          } else {
-            console.warn('⚠️ [DEBUG] No account found for vtex_account_name:', vtexAccountName);
-            customerIdMap.set(vtexAccountName, null);
-          }
-        } catch (error) {
-          console.error('❌ [DEBUG] Error looking up customer_id for vtex_account_name:', vtexAccountName, error);
-          customerIdMap.set(vtexAccountName, null);
-        }
-      }
-    }
-
     // Prepare events for insertion as JSONB
-    const eventsJson = events.map((event) => {
+    const untaggedEvents = events.map((event) => {
       // Extract step from top level or metadata (step may be in metadata from useEventTracker)
       const step = event.step || (event.metadata?.step as string) || null;
 
-      // Extract vtex_account_name and get customer_id
-      const vtexAccountName = event.metadata?.vtex_account_name as string | undefined;
-      const customerId = vtexAccountName ? customerIdMap.get(vtexAccountName) || null : null;
-
-      // Remove step from metadata to avoid duplication (it's now in the step column)
-      const { step: _, ...metadataWithoutStep } = event.metadata || {};
+      // Remove step from metadata to avoid duplication (it's now in the step column).
+      // Experiment variants are only set by the server (see tagging below)
+      const { step: _, experiments: _experiments, ...metadataWithoutStep } = event.metadata || {};
 
-      // Add customer_id to metadata so the RPC function can extract it
+      // customer_id always comes from the API key owner, never from the payload
+      // (the RPC function reads it from metadata first)
       const metadata = {
         ...metadataWithoutStep,
-        ...(customerId && { customer_id: customerId }),
+        customer_id: accountId,
       };
 
       return {
         session_id: event.sessionId,
+        customer_id: accountId,
         order_form_id: event.orderFormId || null,
         event_type: event.type,
         category: event.category,
@@ -246,6 +151,19 @@ export async function POST(request: NextRequest) {
       };
     });
 
+    // Tag events of sessions assigned to running experiments with their variants
+    // (metadata.experiments). Tagging failures never fail the ingestion.
+    let eventsJson = untaggedEvents;
+    try {
+      const tagged = await tagEventsWithExperiments(accountId, untaggedEvents);
+      if (tagged.error) {
+        console.warn('⚠️ [WARN] Experiment tagging failed:', tagged.error);
+      }
+      eventsJson = tagged.events;
+    } catch (tagError) {
+      console.warn('⚠️ [WARN] Experiment tagging failed:', tagError);
+    }
+
     // Insert events using RPC function (required for analytics schema)
     const { data, error } = await supabaseAdmin
       .rpc('insert_analytics_events', {
@@ -263,10 +181,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const eventIds: string[] = data?.map((e: { id: string }) => e.id) || [];
+
+    // Run the merchant's BoltGuard rules on new risk assessments
+    // (the risk events were captured from the inserted events by a trigger).
+    // Rule failures are logged and never fail the ingestion.
+    const assessedAt = eventsJson
+      .filter((event) => event.event_type === BOLTGUARD_ASSESSMENT_EVENT)
+      .map((event) => new Date(event.timestamp).getTime())
+      .filter((time) => !isNaN(time));
+
+    if (assessedAt.length > 0) {
+      try {
+        const { error: rulesError } = await evaluateIngestedAssessments(accountId, eventIds, {
+          start: new Date(Math.min(...assessedAt)),
+          end: new Date(Math.max(...assessedAt)),
+        });
+        if (rulesError) {
+          console.warn('⚠️ [WARN] BoltGuard rule evaluation failed:', rulesError);
+        }
+      } catch (rulesError) {
+        console.warn('⚠️ [WARN] BoltGuard rule evaluation failed:', rulesError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       inserted: data?.length || 0,
-      eventIds: data?.map((e: { id: string }) => e.id) || [],
+      eventIds,
     }, {
       headers: corsHeaders,
     });
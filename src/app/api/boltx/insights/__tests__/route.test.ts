@@ -56,7 +56,7 @@ describe('POST /api/boltx/insights', () => {
     const { getSupabaseAdmin } = await import('@/lib/supabase');
 
     (getAuthenticatedUser as any).mockResolvedValue({
-      user: { account_id: 'test-account-123' },
+      user: { account_id: 'test-account-123', role: 'admin' },
     });
 
     (getUserPlan as any).mockResolvedValue({
@@ -109,7 +109,7 @@ describe('POST /api/boltx/insights', () => {
     const { getUserPlan } = await import('@/lib/api/plan-check');
 
     (getAuthenticatedUser as any).mockResolvedValue({
-      user: { account_id: 'test-account-123' },
+      user: { account_id: 'test-account-123', role: 'admin' },
     });
 
     (getUserPlan as any).mockResolvedValue({
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
 import { createAIService } from '@/lib/ai/ai-service';
 import { InsightCategory } from '@/lib/ai/types';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
@@ -13,7 +14,7 @@ import { getUserPlan } from '@/lib/api/plan-check';
  */
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('boltx', 'write', async (request: NextRequest, { user }) => {
   try {
     // Check Enterprise plan access
     const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -24,7 +25,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { user } = await getAuthenticatedUser();
 
     if (!user.account_id) {
       return apiError('User account not found', 404);
@@ -56,7 +56,7 @@ export async function POST(request: NextRequest) {
     }
 
     const supabaseAdmin = getSupabaseAdmin();
-    const aiService = createAIService();
+    const aiService = createAIService(user.account_id);
 
     if (!aiService) {
       return apiError('BoltX AI service is not available', 503);
@@ -103,7 +103,7 @@ export async function POST(request: NextRequest) {
     console.error('❌ [DEBUG] Error in insights API:', error);
     return apiError('Internal server error', 500);
   }
-}
+});
 
 /**
  * GET /api/boltx/insights
@@ -1,9 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { getAuthenticatedUser } from '@/lib/api/auth';
+import { AuthError, getAuthenticatedUser } from '@/lib/api/auth';
+import { authenticateApiKey } from '@/lib/api/api-key-auth';
 import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
 import { getUserPlan } from '@/lib/api/plan-check';
 import { z } from 'zod';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  withCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
 
 /**
  * Intervention configuration schema
@@ -27,166 +38,54 @@ const InterventionsConfigSchema = z.object({
 /**
  * GET /api/boltx/interventions/config
  * Get current intervention configurations
+ * Authenticated with the session cookie, or with an account API key
+ * (X-API-Key, 'boltx' scope) for requests from the checkout
  */
 export const dynamic = 'force-dynamic';
 
-/**
- * Get allowed origins for CORS
- */
-function getAllowedOrigins(): string[] {
-  const envOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',').filter(Boolean) || [];
-
-  // In development, always allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...envOrigins];
-  }
-
-  // In production, require explicit configuration
-  return envOrigins.length > 0 ? envOrigins : [];
-}
-
-/**
- * Get CORS headers
- */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern - match any localhost with any port
-      if ((allowed.includes('localhost') || allowed.includes('127.0.0.1')) && 
-          (origin.includes('localhost') || origin.includes('127.0.0.1'))) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  // Use origin if allowed, otherwise use first allowed origin
-  // When using credentials, we cannot use '*' - must use specific origin
-  let corsOrigin: string;
-  if (isAllowed && origin) {
-    corsOrigin = origin;
-  } else if (allowedOrigins.length > 0) {
-    corsOrigin = allowedOrigins[0];
-  } else if (process.env.NODE_ENV === 'development') {
-    // In development, use the request origin if available, otherwise allow localhost
-    // Cannot use '*' when credentials are included
-    corsOrigin = origin || 'http://localhost:3000';
-  } else {
-    // In production, require explicit configuration
-    // Default to first allowed origin or request origin
-    corsOrigin = allowedOrigins[0] || origin || 'http://localhost:3000';
-  }
-
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, PATCH, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = {
+  methods: ['GET', 'PATCH'],
+  headers: ['Content-Type', 'X-API-Key', 'Authorization'],
+  credentials: true,
+};
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 export async function GET(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Interventions Config] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
   try {
-    // Support both API key (for cross-origin requests) and cookie-based auth
+    // Checkout requests authenticate with the account's own API key
+    // ('boltx' scope), dashboard requests with the session cookie
     const apiKey = request.headers.get('X-API-Key');
-    const expectedApiKey = process.env.METRICS_API_KEY;
-    
+
     let accountId: string | null = null;
 
-    // Try API key authentication first (for cross-origin requests from checkout)
-    if (apiKey && expectedApiKey && apiKey === expectedApiKey) {
-      console.info('[⚡️BoltX Interventions Config] Authenticated via API key');
-      
-      // For API key auth, get account_id from query parameter
-      const { searchParams } = new URL(request.url);
-      const vtexAccount = searchParams.get('vtexAccount');
-      
-      if (vtexAccount) {
-        const supabaseAdmin = getSupabaseAdmin();
-        // Use RPC function to query customer.accounts (PostgREST doesn't expose customer schema directly)
-        const { data: accounts, error: accountError } = await supabaseAdmin
-          .rpc('get_account_by_vtex_name', { p_vtex_account_name: vtexAccount });
-        
-        if (accountError) {
-          console.error('❌ [DEBUG] Error fetching account by vtex_account_name:', accountError);
-        } else if (accounts && accounts.length > 0) {
-          accountId = accounts[0].id;
-          console.info('✅ [DEBUG] Found account_id for vtex_account_name:', vtexAccount, 'account_id:', accountId);
-        } else {
-          console.warn('⚠️ [DEBUG] No account found for vtex_account_name:', vtexAccount);
+    if (apiKey) {
+      try {
+        ({ accountId } = await authenticateApiKey(request, 'boltx'));
+      } catch (authError) {
+        if (authError instanceof AuthError) {
+          console.warn('⚠️ [WARN] BoltX API key rejected:', authError.message);
+          return withCorsHeaders(apiError(authError.message, authError.status), corsHeaders);
         }
-      }
-      
-      // If no account found, return default configs (public endpoint behavior)
-      if (!accountId) {
-        const defaultConfigs = {
-          interventions: [
-            {
-              type: 'discount',
-              enabled: true,
-              threshold: 70,
-              message: 'Special offer: Get 10% off your order!',
-              discount: { percentage: 10 },
-            },
-            {
-              type: 'security',
-              enabled: true,
-              threshold: 50,
-              message: 'Your payment is secure and encrypted',
-            },
-            {
-              type: 'simplify',
-              enabled: true,
-              threshold: 40,
-              message: 'Need help? Contact our support team',
-            },
-            {
-              type: 'progress',
-              enabled: true,
-              threshold: 30,
-              message: "You're almost done! Complete your purchase",
-            },
-          ],
-        };
-        const response = apiSuccess(defaultConfigs);
-        Object.entries(corsHeaders).forEach(([key, value]) => {
-          response.headers.set(key, value);
-        });
-        return response;
+        throw authError;
       }
     } else {
-      // Fall back to cookie-based authentication
       try {
         // Check Enterprise plan access
         const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -211,17 +110,8 @@ export async function GET(request: NextRequest) {
           });
           return response;
         }
-      } catch (authError) {
-        // If cookie auth fails and no API key provided, return 401
-        if (!apiKey) {
-          const response = apiError('Authentication required. Provide X-API-Key header or valid session cookie.', 401);
-          Object.entries(corsHeaders).forEach(([key, value]) => {
-            response.headers.set(key, value);
-          });
-          return response;
-        }
-        // If API key was provided but invalid, return 401
-        const response = apiError('Invalid API key', 401);
+      } catch {
+        const response = apiError('Authentication required. Provide X-API-Key header or valid session cookie.', 401);
         Object.entries(corsHeaders).forEach(([key, value]) => {
           response.headers.set(key, value);
         });
@@ -229,6 +119,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    const originCheck = await checkAccountOrigin(request, accountId, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
 
     // Get BoltX configuration
@@ -320,8 +216,7 @@ export async function GET(request: NextRequest) {
  * Update intervention configurations
  */
 export async function PATCH(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   try {
     // PATCH requires cookie-based authentication (admin operation)
@@ -348,6 +243,16 @@ export async function PATCH(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    if (!(await userHasPermission(user, 'boltx', 'write'))) {
+      return withCorsHeaders(apiError('Insufficient permissions to write boltx', 403), corsHeaders);
+    }
+
     const body = await request.json();
 
     // Validate request body
@@ -444,6 +349,17 @@ export async function PATCH(request: NextRequest) {
       interventionsCount: interventions.length,
     });
 
+    // Keyed by type, so threshold and message changes diff per intervention
+    const byType = (list: { type: string }[]) =>
+      Object.fromEntries(list.map((intervention) => [intervention.type, intervention]));
+
+    await recordAuditEvent(request, user, {
+      action: 'boltx.interventions.update',
+      resourceType: 'boltx_interventions',
+      before: byType(existingConfig?.metadata?.interventions || []),
+      after: byType(interventions),
+    });
+
     const response = apiSuccess({ interventions });
     Object.entries(corsHeaders).forEach(([key, value]) => {
       response.headers.set(key, value);
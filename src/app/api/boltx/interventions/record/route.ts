@@ -1,9 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
 import { getUserPlan } from '@/lib/api/plan-check';
 import { z } from 'zod';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  withCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
 
 /**
  * Intervention record schema
@@ -18,96 +28,55 @@ const InterventionRecordSchema = z.object({
   metadata: z.record(z.string(), z.any()).optional(),
 });
 
-/**
- * POST /api/boltx/interventions/record
- * Record an intervention that was applied
- */
-export const dynamic = 'force-dynamic';
+type InterventionRecord = z.infer<typeof InterventionRecordSchema>;
 
 /**
- * Get allowed origins for CORS
+ * Notify the account's webhook endpoints of a recorded intervention
  */
-function getAllowedOrigins(): string[] {
-  const envOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',').filter(Boolean) || [];
-
-  // In development, always allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...envOrigins];
-  }
-
-  // In production, require explicit configuration
-  return envOrigins.length > 0 ? envOrigins : [];
+async function emitInterventionEvent(
+  accountId: string,
+  interventionId: string | null,
+  intervention: InterventionRecord
+) {
+  await emitWebhookEvent(accountId, 'boltx.intervention.triggered', {
+    intervention_id: interventionId,
+    session_id: intervention.sessionId,
+    order_form_id: intervention.orderFormId ?? null,
+    intervention_type: intervention.interventionType,
+    risk_score: intervention.riskScore,
+    risk_level: intervention.riskLevel,
+    applied: intervention.applied,
+  });
 }
 
 /**
- * Get CORS headers
+ * POST /api/boltx/interventions/record
+ * Record an intervention that was applied
  */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern - match any localhost with any port
-      if ((allowed.includes('localhost') || allowed.includes('127.0.0.1')) && 
-          (origin.includes('localhost') || origin.includes('127.0.0.1'))) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  // Use origin if allowed, otherwise use first allowed origin
-  // When using credentials, we cannot use '*' - must use specific origin
-  let corsOrigin: string;
-  if (isAllowed && origin) {
-    corsOrigin = origin;
-  } else if (allowedOrigins.length > 0) {
-    corsOrigin = allowedOrigins[0];
-  } else if (process.env.NODE_ENV === 'development') {
-    // In development, use the request origin if available, otherwise allow localhost
-    // Cannot use '*' when credentials are included
-    corsOrigin = origin || 'http://localhost:3000';
-  } else {
-    // In production, require explicit configuration
-    // Default to first allowed origin or request origin
-    corsOrigin = allowedOrigins[0] || origin || 'http://localhost:3000';
-  }
+export const dynamic = 'force-dynamic';
 
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = {
+  methods: ['POST'],
+  headers: ['Content-Type', 'X-API-Key', 'Authorization'],
+  credentials: true,
+};
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 export async function POST(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Interventions Record] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
@@ -135,6 +104,16 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    if (!(await userHasPermission(user, 'boltx', 'write'))) {
+      return withCorsHeaders(apiError('Insufficient permissions to write boltx', 403), corsHeaders);
+    }
+
     const body = await request.json();
 
     // Validate request body
@@ -206,6 +185,8 @@ export async function POST(request: NextRequest) {
         return response;
       }
 
+      await emitInterventionEvent(user.account_id, directData?.id ?? null, validationResult.data);
+
       console.info('✅ [DEBUG] Intervention recorded via direct insert:', {
         interventionId: directData?.id,
         sessionId,
@@ -235,6 +216,8 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
+    await emitInterventionEvent(user.account_id, interventionId ?? null, validationResult.data);
+
     console.info('✅ [DEBUG] Intervention recorded via RPC:', {
       interventionId,
       sessionId,
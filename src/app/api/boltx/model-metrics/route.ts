@@ -3,11 +3,16 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { getUserPlan } from '@/lib/api/plan-check';
-import type { ModelMetrics } from '@/lib/ai/models/abandonment-predictor';
+import { BUILT_IN_MODEL_VERSION, type ModelMetrics } from '@/lib/ai/models/abandonment-predictor';
+import { getConfiguredModelVersion, loadAbandonmentModel } from '@/lib/ai/models/model-registry';
 
 /**
  * GET /api/boltx/model-metrics
  * Get model performance metrics (accuracy, precision, recall, f1Score)
+ *
+ * Trained models (predictionModelVersion 'latest' or 'v2'+) report the
+ * metrics measured on their holdout set when they were trained. The built-in
+ * model (v1) is evaluated against the outcomes of its stored predictions.
  */
 export const dynamic = 'force-dynamic';
 
@@ -28,6 +33,22 @@ export async function GET(_request: NextRequest) {
       return apiError('User account not found', 404);
     }
 
+    const version = await getConfiguredModelVersion(user.account_id);
+    if (version !== BUILT_IN_MODEL_VERSION) {
+      const { model, error: modelError } = await loadAbandonmentModel(user.account_id, version);
+
+      if (modelError) {
+        console.error('❌ [DEBUG] Error fetching abandonment model:', modelError);
+        return apiError('Failed to fetch model metrics', 500);
+      }
+
+      if (model) {
+        return apiSuccess(model.metrics);
+      }
+
+      console.warn(`⚠️ [WARN] Abandonment model ${version} not found, reporting ${BUILT_IN_MODEL_VERSION}`);
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
 
     // Get all abandonment predictions for this customer
@@ -54,6 +75,7 @@ export async function GET(_request: NextRequest) {
         f1Score: 0,
         lastTrained: null,
         trainingSize: 0,
+        version: BUILT_IN_MODEL_VERSION,
       });
     }
 
@@ -163,6 +185,7 @@ export async function GET(_request: NextRequest) {
       f1Score,
       lastTrained: lastTrained || new Date(),
       trainingSize: total,
+      version: BUILT_IN_MODEL_VERSION,
     };
 
     console.info('✅ [DEBUG] Model metrics calculated:', {
@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getUserPlan } from '@/lib/api/plan-check';
+import { ModelTrainingError } from '@/lib/ai/models/abandonment-predictor';
+import {
+  getConfiguredModelVersion,
+  listAbandonmentModels,
+  trainAbandonmentModel,
+} from '@/lib/ai/models/model-registry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/boltx/models
+ * Trained abandonment models of the account (newest first) and the
+ * configured predictionModelVersion
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const { hasEnterpriseAccess, error: planError } = await getUserPlan();
+    if (!hasEnterpriseAccess) {
+      return apiError(
+        planError ||
+          'BoltX is only available on Enterprise plan. Please upgrade to access this feature.',
+        403
+      );
+    }
+
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const [{ models, error }, activeVersion] = await Promise.all([
+      listAbandonmentModels(user.account_id),
+      getConfiguredModelVersion(user.account_id),
+    ]);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching abandonment models:', error);
+      return apiError('Failed to fetch models', 500);
+    }
+
+    return apiSuccess({ models, activeVersion });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching abandonment models:', error);
+    return apiError('Failed to fetch models', 500);
+  }
+}
+
+/**
+ * POST /api/boltx/models
+ * Train a model on the account's sessions and store it as a new version
+ * (it is used for predictions once selected in predictionModelVersion, or
+ * right away with 'latest')
+ */
+export const POST = withPermission('boltx', 'write', async (_request: NextRequest, { user }) => {
+  try {
+    const { hasEnterpriseAccess, error: planError } = await getUserPlan();
+    if (!hasEnterpriseAccess) {
+      return apiError(
+        planError ||
+          'BoltX is only available on Enterprise plan. Please upgrade to access this feature.',
+        403
+      );
+    }
+
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { model, error } = await trainAbandonmentModel(user.account_id);
+
+    if (error || !model) {
+      console.error('❌ [DEBUG] Error storing abandonment model:', error);
+      return apiError('Failed to train model', 500);
+    }
+
+    const { artifact, ...summary } = model;
+    return apiSuccess({ model: { ...summary, algorithm: artifact.algorithm } }, 201);
+  } catch (error) {
+    if (error instanceof ModelTrainingError) {
+      return apiError(error.message, 422);
+    }
+    console.error('❌ [DEBUG] Error training abandonment model:', error);
+    return apiError('Failed to train model', 500);
+  }
+});
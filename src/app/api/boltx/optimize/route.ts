@@ -1,12 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { UserProfile } from '@/lib/ai/types';
 import { createFormOptimizer } from '@/lib/ai/form-optimizer';
 import { getUserPlan } from '@/lib/api/plan-check';
+import { apiRateLimited } from '@/lib/api/rate-limit';
+import { checkBoltXRateLimit } from '@/lib/ai/boltx-usage';
 import { shouldUseDemoData } from '@/lib/automation/demo-mode';
 import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  withCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
 
 /**
  * POST /api/boltx/optimize
@@ -14,90 +26,28 @@ import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
  */
 export const dynamic = 'force-dynamic';
 
-/**
- * Get allowed origins for CORS
- */
-function getAllowedOrigins(): string[] {
-  const envOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',').filter(Boolean) || [];
-
-  // In development, always allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...envOrigins];
-  }
-
-  // In production, require explicit configuration
-  return envOrigins.length > 0 ? envOrigins : [];
-}
-
-/**
- * Get CORS headers
- */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern - match any localhost with any port
-      if ((allowed.includes('localhost') || allowed.includes('127.0.0.1')) &&
-        (origin.includes('localhost') || origin.includes('127.0.0.1'))) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  // Use origin if allowed, otherwise use first allowed origin
-  // When using credentials, we cannot use '*' - must use specific origin
-  let corsOrigin: string;
-  if (isAllowed && origin) {
-    corsOrigin = origin;
-  } else if (allowedOrigins.length > 0) {
-    corsOrigin = allowedOrigins[0];
-  } else if (process.env.NODE_ENV === 'development') {
-    // In development, use the request origin if available, otherwise allow localhost
-    // Cannot use '*' when credentials are included
-    corsOrigin = origin || 'http://localhost:3000';
-  } else {
-    // In production, require explicit configuration
-    // Default to first allowed origin or request origin
-    corsOrigin = allowedOrigins[0] || origin || 'http://localhost:3000';
-  }
-
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = {
+  methods: ['GET', 'POST', 'PATCH'],
+  headers: ['Content-Type', 'X-API-Key', 'Authorization'],
+  credentials: true,
+};
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 export async function POST(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Optimize] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
@@ -112,6 +62,25 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    if (!(await userHasPermission(user, 'boltx', 'write'))) {
+      return withCorsHeaders(apiError('Insufficient permissions to write boltx', 403), corsHeaders);
+    }
+
+    const rateLimit = await checkBoltXRateLimit(user.account_id, 'optimize');
+    if (!rateLimit.allowed) {
+      const response = apiRateLimited(rateLimit);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+      return response;
+    }
+
     // Check if account is in demo mode
     const isDemo = await shouldUseDemoData(user.account_id);
     if (isDemo) {
@@ -198,6 +167,13 @@ export async function POST(request: NextRequest) {
           return response;
         }
 
+        await recordAuditEvent(request, user, {
+          action: 'boltx.optimization.create',
+          resourceType: 'boltx_optimization',
+          resourceId: optimization?.id ?? null,
+          after: { optimization_type: optimizationType, name, description, config },
+        });
+
         const response = apiSuccess({ optimization });
         Object.entries(corsHeaders).forEach(([key, value]) => {
           response.headers.set(key, value);
@@ -215,6 +191,13 @@ export async function POST(request: NextRequest) {
 
     const optimization = optimizationData && optimizationData.length > 0 ? optimizationData[0] : null;
 
+    await recordAuditEvent(request, user, {
+      action: 'boltx.optimization.create',
+      resourceType: 'boltx_optimization',
+      resourceId: optimization?.id ?? null,
+      after: { optimization_type: optimizationType, name, description, config },
+    });
+
     const response = apiSuccess({ optimization });
     Object.entries(corsHeaders).forEach(([key, value]) => {
       response.headers.set(key, value);
@@ -236,14 +219,13 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Optimize] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
@@ -258,6 +240,21 @@ export async function GET(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    const rateLimit = await checkBoltXRateLimit(user.account_id, 'optimize');
+    if (!rateLimit.allowed) {
+      const response = apiRateLimited(rateLimit);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+      return response;
+    }
+
     // Check if account is in demo mode
     const isDemo = await shouldUseDemoData(user.account_id);
     if (isDemo) {
@@ -546,8 +543,7 @@ async function getFieldAnalytics(
  * Update optimization status
  */
 export async function PATCH(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   try {
     // Check Enterprise plan access
@@ -573,6 +569,25 @@ export async function PATCH(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    if (!(await userHasPermission(user, 'boltx', 'write'))) {
+      return withCorsHeaders(apiError('Insufficient permissions to write boltx', 403), corsHeaders);
+    }
+
+    const rateLimit = await checkBoltXRateLimit(user.account_id, 'optimize');
+    if (!rateLimit.allowed) {
+      const response = apiRateLimited(rateLimit);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+      return response;
+    }
+
     const body = await request.json();
     const { id, status, metrics } = body;
 
@@ -634,6 +649,13 @@ export async function PATCH(request: NextRequest) {
           return response;
         }
 
+        await recordAuditEvent(request, user, {
+          action: 'boltx.optimization.update',
+          resourceType: 'boltx_optimization',
+          resourceId: id,
+          after: { status, metrics },
+        });
+
         const response = apiSuccess({ optimization });
         Object.entries(corsHeaders).forEach(([key, value]) => {
           response.headers.set(key, value);
@@ -651,6 +673,13 @@ export async function PATCH(request: NextRequest) {
 
     const optimization = optimizationData && optimizationData.length > 0 ? optimizationData[0] : null;
 
+    await recordAuditEvent(request, user, {
+      action: 'boltx.optimization.update',
+      resourceType: 'boltx_optimization',
+      resourceId: id,
+      after: { status, metrics },
+    });
+
     const response = apiSuccess({ optimization });
     Object.entries(corsHeaders).forEach(([key, value]) => {
       response.headers.set(key, value);
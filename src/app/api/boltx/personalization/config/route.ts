@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
 import { getUserPlan } from '@/lib/api/plan-check';
 import { z } from 'zod';
 
@@ -124,7 +125,7 @@ export async function GET(_request: NextRequest) {
  * PATCH /api/boltx/personalization/config
  * Update personalization configurations
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withPermission('boltx', 'write', async (request: NextRequest, { user }) => {
   try {
     // Check Enterprise plan access
     const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -135,7 +136,6 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const { user } = await getAuthenticatedUser();
 
     if (!user.account_id) {
       return apiError('User account not found', 404);
@@ -237,5 +237,5 @@ export async function PATCH(request: NextRequest) {
     console.error('❌ [DEBUG] Error in personalization config PATCH:', error);
     return apiError('Internal server error', 500);
   }
-}
+});
 
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
 import { getUserPlan } from '@/lib/api/plan-check';
 import { z } from 'zod';
 
@@ -85,7 +86,7 @@ export async function GET(_request: NextRequest) {
  * POST /api/boltx/personalization/rules
  * Create a new personalization rule
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('boltx', 'write', async (request: NextRequest, { user }) => {
   try {
     // Check Enterprise plan access
     const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -96,7 +97,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { user } = await getAuthenticatedUser();
 
     if (!user.account_id) {
       return apiError('User account not found', 404);
@@ -206,13 +206,13 @@ export async function POST(request: NextRequest) {
     console.error('❌ [DEBUG] Error in personalization rules POST:', error);
     return apiError('Internal server error', 500);
   }
-}
+});
 
 /**
  * PATCH /api/boltx/personalization/rules
  * Update personalization rules (replace all or update specific rule)
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withPermission('boltx', 'write', async (request: NextRequest, { user }) => {
   try {
     // Check Enterprise plan access
     const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -223,7 +223,6 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const { user } = await getAuthenticatedUser();
 
     if (!user.account_id) {
       return apiError('User account not found', 404);
@@ -318,5 +317,5 @@ export async function PATCH(request: NextRequest) {
     console.error('❌ [DEBUG] Error in personalization rules PATCH:', error);
     return apiError('Internal server error', 500);
   }
-}
+});
 
@@ -17,6 +17,15 @@ vi.mock('@/lib/api/plan-check', () => ({
   getUserPlan: vi.fn(),
 }));
 
+vi.mock('@/lib/ai/boltx-usage', () => ({
+  checkBoltXRateLimit: vi.fn(async () => ({
+    allowed: true,
+    limit: 60,
+    remaining: 59,
+    retryAfterSeconds: 0,
+  })),
+}));
+
 describe('GET /api/boltx/personalize', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -113,6 +122,38 @@ describe('GET /api/boltx/personalize', () => {
     expect(response.status).toBe(403);
   });
 
+  it('should return 429 with Retry-After when the rate limit is exceeded', async () => {
+    const { getAuthenticatedUser } = await import('@/lib/api/auth');
+    const { getUserPlan } = await import('@/lib/api/plan-check');
+    const { checkBoltXRateLimit } = await import('@/lib/ai/boltx-usage');
+
+    (getAuthenticatedUser as any).mockResolvedValue({
+      user: { account_id: 'test-account-123' },
+    });
+
+    (getUserPlan as any).mockResolvedValue({
+      hasEnterpriseAccess: true,
+    });
+
+    (checkBoltXRateLimit as any).mockResolvedValueOnce({
+      allowed: false,
+      limit: 60,
+      remaining: 0,
+      retryAfterSeconds: 12,
+    });
+
+    const request = new NextRequest(
+      'http://localhost/api/boltx/personalize?sessionId=test-session-123'
+    );
+
+    const response = await GET(request);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('12');
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(checkBoltXRateLimit).toHaveBeenCalledWith('test-account-123', 'personalize');
+  });
+
   it('should generate mobile-first layout for mobile devices', async () => {
     const { getAuthenticatedUser } = await import('@/lib/api/auth');
     const { getUserPlan } = await import('@/lib/api/plan-check');
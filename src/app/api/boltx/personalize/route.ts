@@ -1,9 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { PersonalizationConfig, UserProfile } from '@/lib/ai/types';
 import { getUserPlan } from '@/lib/api/plan-check';
+import { apiRateLimited } from '@/lib/api/rate-limit';
+import { checkBoltXRateLimit } from '@/lib/ai/boltx-usage';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
 
 /**
  * GET /api/boltx/personalize?sessionId=...
@@ -11,90 +20,28 @@ import { getUserPlan } from '@/lib/api/plan-check';
  */
 export const dynamic = 'force-dynamic';
 
-/**
- * Get allowed origins for CORS
- */
-function getAllowedOrigins(): string[] {
-  const envOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',').filter(Boolean) || [];
-
-  // In development, always allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...envOrigins];
-  }
-
-  // In production, require explicit configuration
-  return envOrigins.length > 0 ? envOrigins : [];
-}
-
-/**
- * Get CORS headers
- */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern - match any localhost with any port
-      if ((allowed.includes('localhost') || allowed.includes('127.0.0.1')) && 
-          (origin.includes('localhost') || origin.includes('127.0.0.1'))) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  // Use origin if allowed, otherwise use first allowed origin
-  // When using credentials, we cannot use '*' - must use specific origin
-  let corsOrigin: string;
-  if (isAllowed && origin) {
-    corsOrigin = origin;
-  } else if (allowedOrigins.length > 0) {
-    corsOrigin = allowedOrigins[0];
-  } else if (process.env.NODE_ENV === 'development') {
-    // In development, use the request origin if available, otherwise allow localhost
-    // Cannot use '*' when credentials are included
-    corsOrigin = origin || 'http://localhost:3000';
-  } else {
-    // In production, require explicit configuration
-    // Default to first allowed origin or request origin
-    corsOrigin = allowedOrigins[0] || origin || 'http://localhost:3000';
-  }
-
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = {
+  methods: ['GET', 'POST'],
+  headers: ['Content-Type', 'X-API-Key', 'Authorization'],
+  credentials: true,
+};
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 export async function GET(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Personalize] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
@@ -122,6 +69,21 @@ export async function GET(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    const rateLimit = await checkBoltXRateLimit(user.account_id, 'personalize');
+    if (!rateLimit.allowed) {
+      const response = apiRateLimited(rateLimit);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+      return response;
+    }
+
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
     const step = searchParams.get('step');
@@ -164,14 +126,13 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Personalize] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
@@ -199,6 +160,21 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
+    const originCheck = await checkAccountOrigin(request, user.account_id, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    const rateLimit = await checkBoltXRateLimit(user.account_id, 'personalize');
+    if (!rateLimit.allowed) {
+      const response = apiRateLimited(rateLimit);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+      return response;
+    }
+
     const body = await request.json();
     const { sessionId, deviceType, browser, location, behavior, preferences } = body;
 
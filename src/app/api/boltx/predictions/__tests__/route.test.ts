@@ -21,8 +21,8 @@ vi.mock('@/lib/ai/ai-service', () => ({
   createAIService: vi.fn(() => ({})),
 }));
 
-vi.mock('@/lib/ai/models/abandonment-predictor', () => ({
-  EnhancedAbandonmentPredictor: vi.fn(() => ({
+vi.mock('@/lib/ai/models/model-registry', () => ({
+  createAbandonmentPredictor: vi.fn(async () => ({
     predict: vi.fn(() => ({
       riskScore: 60,
       riskLevel: 'high',
@@ -35,6 +35,15 @@ vi.mock('@/lib/ai/models/abandonment-predictor', () => ({
   })),
 }));
 
+vi.mock('@/lib/ai/boltx-usage', () => ({
+  checkBoltXRateLimit: vi.fn(async () => ({
+    allowed: true,
+    limit: 60,
+    remaining: 59,
+    retryAfterSeconds: 0,
+  })),
+}));
+
 describe('GET /api/boltx/predictions', () => {
   beforeEach(() => {
     vi.clearAllMocks();
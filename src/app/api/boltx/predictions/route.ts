@@ -3,9 +3,11 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { createAIService } from '@/lib/ai/ai-service';
-import { EnhancedAbandonmentPredictor } from '@/lib/ai/models/abandonment-predictor';
+import { createAbandonmentPredictor } from '@/lib/ai/models/model-registry';
 import { PredictionFeatures } from '@/lib/ai/types';
 import { getUserPlan } from '@/lib/api/plan-check';
+import { apiRateLimited } from '@/lib/api/rate-limit';
+import { checkBoltXRateLimit } from '@/lib/ai/boltx-usage';
 import { shouldUseDemoData } from '@/lib/automation/demo-mode';
 import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
 
@@ -23,6 +25,11 @@ export async function GET(request: NextRequest) {
       return apiError('User account not found', 404);
     }
 
+    const rateLimit = await checkBoltXRateLimit(user.account_id, 'predictions');
+    if (!rateLimit.allowed) {
+      return apiRateLimited(rateLimit);
+    }
+
     // Check if account is in demo mode
     const isDemo = await shouldUseDemoData(user.account_id);
     if (isDemo) {
@@ -48,15 +55,12 @@ export async function GET(request: NextRequest) {
     }
 
     const supabaseAdmin = getSupabaseAdmin();
-    const aiService = createAIService();
+    const aiService = createAIService(user.account_id);
 
     if (!aiService) {
       return apiError('BoltX AI service is not available', 503);
     }
 
-    // Use enhanced predictor if available
-    const predictor = new EnhancedAbandonmentPredictor();
-
     // Get session events to build features
     // Use RPC function if available, otherwise query directly
     const { data: events, error: eventsError } = await supabaseAdmin
@@ -112,7 +116,8 @@ export async function GET(request: NextRequest) {
       historicalConversionRate: historicalData.conversionRate,
     };
 
-    // Generate prediction using enhanced predictor with session context
+    // Generate prediction with the account's configured model version
+    const predictor = await createAbandonmentPredictor(user.account_id);
     const prediction = predictor.predict(fullFeatures, sessionId);
 
     // Store prediction in database
@@ -9,10 +9,20 @@ vi.mock('@/lib/supabase', () => ({
   })),
 }));
 
-vi.mock('@/lib/api/auth', () => ({
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
   getAuthenticatedUser: vi.fn(),
 }));
 
+vi.mock('@/lib/api/api-key-auth', () => ({
+  authenticateApiKey: vi.fn(),
+}));
+
+vi.mock('@/lib/api/cors', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/api/cors')>();
+  return { ...actual, checkAccountOrigin: vi.fn(actual.checkAccountOrigin) };
+});
+
 vi.mock('@/lib/api/plan-check', () => ({
   getUserPlan: vi.fn(),
 }));
@@ -21,8 +31,8 @@ vi.mock('@/lib/ai/ai-service', () => ({
   createAIService: vi.fn(() => ({})),
 }));
 
-vi.mock('@/lib/ai/models/abandonment-predictor', () => ({
-  EnhancedAbandonmentPredictor: vi.fn(() => ({
+vi.mock('@/lib/ai/models/model-registry', () => ({
+  createAbandonmentPredictor: vi.fn(async () => ({
     predict: vi.fn(() => ({
       riskScore: 75,
       riskLevel: 'critical',
@@ -35,6 +45,15 @@ vi.mock('@/lib/ai/models/abandonment-predictor', () => ({
   })),
 }));
 
+vi.mock('@/lib/ai/boltx-usage', () => ({
+  checkBoltXRateLimit: vi.fn(async () => ({
+    allowed: true,
+    limit: 60,
+    remaining: 59,
+    retryAfterSeconds: 0,
+  })),
+}));
+
 describe('GET /api/boltx/realtime', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -93,6 +112,10 @@ describe('GET /api/boltx/realtime', () => {
     expect(data.prediction).toHaveProperty('riskScore');
     expect(data.prediction).toHaveProperty('riskLevel');
     expect(data.prediction.riskScore).toBe(75);
+
+    // OpenAI token usage is recorded and budgeted for the account
+    const { createAIService } = await import('@/lib/ai/ai-service');
+    expect(createAIService).toHaveBeenCalledWith('test-account-123');
   });
 
   it('should return 400 when sessionId is missing', async () => {
@@ -293,5 +316,53 @@ describe('GET /api/boltx/realtime', () => {
       console.error = originalConsoleError;
     }
   });
-});
+  it('should check the origin against the account that owns the API key', async () => {
+    const { authenticateApiKey } = await import('@/lib/api/api-key-auth');
+    const { getAuthenticatedUser } = await import('@/lib/api/auth');
+    const { checkAccountOrigin } = await import('@/lib/api/cors');
+
+    (authenticateApiKey as any).mockResolvedValue({
+      keyId: 'key-1',
+      accountId: 'key-account-456',
+      keyType: 'metrics',
+      scopes: ['boltx'],
+    });
+    (checkAccountOrigin as any).mockResolvedValueOnce({ allowed: false, headers: {} });
 
+    const request = new NextRequest(
+      'http://localhost/api/boltx/realtime?sessionId=test-session-123&vtexAccount=other-store',
+      { headers: { 'X-API-Key': 'test-api-key-123', origin: 'https://other-store.example.com' } }
+    );
+
+    const response = await GET(request);
+
+    expect(response.status).toBe(403);
+    expect(authenticateApiKey).toHaveBeenCalledWith(request, 'boltx');
+    expect(checkAccountOrigin).toHaveBeenCalledWith(request, 'key-account-456', expect.anything());
+    expect(getAuthenticatedUser).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid API key before checking the origin', async () => {
+    const { authenticateApiKey } = await import('@/lib/api/api-key-auth');
+    const { AuthError } = await import('@/lib/api/auth');
+    const { checkAccountOrigin } = await import('@/lib/api/cors');
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    (authenticateApiKey as any).mockRejectedValue(
+      new AuthError('Unauthorized: Invalid API key', 401)
+    );
+
+    const request = new NextRequest(
+      'http://localhost/api/boltx/realtime?sessionId=test-session-123',
+      { headers: { 'X-API-Key': 'wrong-key-123456' } }
+    );
+
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(data.error).toContain('Invalid API key');
+    expect(checkAccountOrigin).not.toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+});
@@ -1,102 +1,53 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { getAuthenticatedUser } from '@/lib/api/auth';
+import { AuthError, getAuthenticatedUser } from '@/lib/api/auth';
+import { authenticateApiKey } from '@/lib/api/api-key-auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { createAIService } from '@/lib/ai/ai-service';
-import { EnhancedAbandonmentPredictor } from '@/lib/ai/models/abandonment-predictor';
+import { createAbandonmentPredictor } from '@/lib/ai/models/model-registry';
 import { PredictionFeatures } from '@/lib/ai/types';
 import { getUserPlan } from '@/lib/api/plan-check';
+import { apiRateLimited } from '@/lib/api/rate-limit';
+import { checkBoltXRateLimit } from '@/lib/ai/boltx-usage';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  withCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
 
 /**
  * GET /api/boltx/realtime?sessionId=...
  * Get real-time prediction updates (for WebSocket or polling)
+ * Authenticated with the session cookie, or with an account API key
+ * (X-API-Key, 'boltx' scope) for requests from the checkout
  */
 export const dynamic = 'force-dynamic';
 
-/**
- * Get allowed origins for CORS
- */
-function getAllowedOrigins(): string[] {
-  const envOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',').filter(Boolean) || [];
-
-  // In development, always allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...envOrigins];
-  }
-
-  // In production, require explicit configuration
-  return envOrigins.length > 0 ? envOrigins : [];
-}
-
-/**
- * Get CORS headers
- */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern - match any localhost with any port
-      if ((allowed.includes('localhost') || allowed.includes('127.0.0.1')) && 
-          (origin.includes('localhost') || origin.includes('127.0.0.1'))) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  // Use origin if allowed, otherwise use first allowed origin
-  // When using credentials, we cannot use '*' - must use specific origin
-  let corsOrigin: string;
-  if (isAllowed && origin) {
-    corsOrigin = origin;
-  } else if (allowedOrigins.length > 0) {
-    corsOrigin = allowedOrigins[0];
-  } else if (process.env.NODE_ENV === 'development') {
-    // In development, use the request origin if available, otherwise allow localhost
-    // Cannot use '*' when credentials are included
-    corsOrigin = origin || 'http://localhost:3000';
-  } else {
-    // In production, require explicit configuration
-    // Default to first allowed origin or request origin
-    corsOrigin = allowedOrigins[0] || origin || 'http://localhost:3000';
-  }
-
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key, Authorization',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = {
+  methods: ['GET'],
+  headers: ['Content-Type', 'X-API-Key', 'Authorization'],
+  credentials: true,
+};
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 export async function GET(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX Realtime] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
@@ -104,7 +55,6 @@ export async function GET(request: NextRequest) {
     // Get query parameters first
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
-    const vtexAccount = searchParams.get('vtexAccount');
 
     if (!sessionId) {
       const response = apiError('Session ID is required', 400);
@@ -114,38 +64,23 @@ export async function GET(request: NextRequest) {
       return response;
     }
 
-    // Support both API key (for cross-origin requests) and cookie-based auth
+    // Checkout requests authenticate with the account's own API key
+    // ('boltx' scope), dashboard requests with the session cookie
     const apiKey = request.headers.get('X-API-Key');
-    const expectedApiKey = process.env.METRICS_API_KEY;
-    
+
     let accountId: string | null = null;
 
-    // Try API key authentication first (for cross-origin requests from checkout)
-    if (apiKey && expectedApiKey && apiKey === expectedApiKey) {
-      console.info('[⚡️BoltX Realtime] Authenticated via API key');
-      
-      // For API key auth, try to get account_id from vtexAccount parameter
-      // If not provided, we'll try to get it from the events themselves
-      if (vtexAccount) {
-        const supabaseAdmin = getSupabaseAdmin();
-        // Use RPC function to query customer.accounts (PostgREST doesn't expose customer schema directly)
-        const { data: accounts, error: accountError } = await supabaseAdmin
-          .rpc('get_account_by_vtex_name', { p_vtex_account_name: vtexAccount });
-        
-        if (accountError) {
-          console.error('❌ [DEBUG] Error fetching account by vtex_account_name:', accountError);
-        } else if (accounts && accounts.length > 0) {
-          accountId = accounts[0].id;
-          console.info('✅ [DEBUG] Found account_id for vtex_account_name:', vtexAccount, 'account_id:', accountId);
-        } else {
-          console.warn('⚠️ [DEBUG] No account found for vtex_account_name:', vtexAccount);
+    if (apiKey) {
+      try {
+        ({ accountId } = await authenticateApiKey(request, 'boltx'));
+      } catch (authError) {
+        if (authError instanceof AuthError) {
+          console.warn('⚠️ [WARN] BoltX API key rejected:', authError.message);
+          return withCorsHeaders(apiError(authError.message, authError.status), corsHeaders);
         }
+        throw authError;
       }
-      
-      // If no account found from vtexAccount, we'll try to get it from events
-      // This will be handled later when we fetch events
     } else {
-      // Fall back to cookie-based authentication
       try {
         // Check Enterprise plan access
         const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -170,17 +105,8 @@ export async function GET(request: NextRequest) {
           });
           return response;
         }
-      } catch (authError) {
-        // If cookie auth fails and no API key provided, return 401
-        if (!apiKey) {
-          const response = apiError('Authentication required. Provide X-API-Key header or valid session cookie.', 401);
-          Object.entries(corsHeaders).forEach(([key, value]) => {
-            response.headers.set(key, value);
-          });
-          return response;
-        }
-        // If API key was provided but invalid, return 401
-        const response = apiError('Invalid API key', 401);
+      } catch {
+        const response = apiError('Authentication required. Provide X-API-Key header or valid session cookie.', 401);
         Object.entries(corsHeaders).forEach(([key, value]) => {
           response.headers.set(key, value);
         });
@@ -188,8 +114,19 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Use the account_id we determined (from user or API key lookup)
+    const customerId = accountId;
+    
+    if (!customerId) {
+      const response = apiError('Customer account ID not found', 400);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+      return response;
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
-    const aiService = createAIService();
+    const aiService = createAIService(customerId);
 
     if (!aiService) {
       const response = apiError('BoltX AI service is not available', 503);
@@ -199,24 +136,21 @@ export async function GET(request: NextRequest) {
       return response;
     }
 
-    // Use the account_id we determined (from user or API key lookup)
-    const customerId = accountId;
-    
-    // If no customerId, return error with helpful message
-    if (!customerId) {
-      const errorMessage = apiKey && expectedApiKey && apiKey === expectedApiKey
-        ? 'Customer account ID not found. For API key authentication, provide vtexAccount query parameter (e.g., ?sessionId=...&vtexAccount=your-account).'
-        : 'Customer account ID not found';
-      const response = apiError(errorMessage, 400);
+    const originCheck = await checkAccountOrigin(request, customerId, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    const rateLimit = await checkBoltXRateLimit(customerId, 'realtime');
+    if (!rateLimit.allowed) {
+      const response = apiRateLimited(rateLimit);
       Object.entries(corsHeaders).forEach(([key, value]) => {
         response.headers.set(key, value);
       });
       return response;
     }
 
-    // Use enhanced predictor for better accuracy
-    const predictor = new EnhancedAbandonmentPredictor();
-
     // Get latest events for the session
     const { data: events, error: eventsError } = await supabaseAdmin
       .rpc('get_analytics_events_by_types', {
@@ -272,7 +206,8 @@ export async function GET(request: NextRequest) {
       historicalConversionRate: historicalData.conversionRate,
     };
 
-    // Generate prediction using enhanced predictor with session context
+    // Generate prediction with the account's configured model version
+    const predictor = await createAbandonmentPredictor(customerId);
     const prediction = predictor.predict(fullFeatures, sessionId);
 
     // Get latest stored prediction for comparison
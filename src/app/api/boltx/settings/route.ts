@@ -2,23 +2,15 @@ import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
 import { getUserPlan } from '@/lib/api/plan-check';
+import { isValidModelVersion } from '@/lib/ai/models/model-registry';
+import { decryptSecret, encryptSecret, secretContext } from '@/lib/secrets/envelope';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Simple encryption/decryption for API keys
- * In production, consider using a more robust solution like AWS KMS or similar
- */
-function encryptApiKey(key: string): string {
-  // Simple base64 encoding for now - in production use proper encryption
-  // TODO: Implement proper encryption (e.g., using crypto module)
-  return Buffer.from(key).toString('base64');
-}
-
-function decryptApiKey(encrypted: string): string {
-  // Simple base64 decoding for now
-  return Buffer.from(encrypted, 'base64').toString('utf-8');
+function apiKeyContext(customerId: string): string {
+  return secretContext('boltx_configurations', 'openai_api_key', customerId);
 }
 
 function maskApiKey(key: string): string {
@@ -26,6 +18,18 @@ function maskApiKey(key: string): string {
   return `sk-...${key.slice(-4)}`;
 }
 
+/**
+ * Masked stored API key ('••••' when it cannot be decrypted)
+ */
+function maskStoredApiKey(encrypted: string, customerId: string): string {
+  try {
+    return maskApiKey(decryptSecret(encrypted, { context: apiKeyContext(customerId) }));
+  } catch (error) {
+    console.error('❌ [DEBUG] Error decrypting OpenAI API key:', error);
+    return '••••';
+  }
+}
+
 /**
  * GET /api/boltx/settings
  * Retrieve BoltX configuration for the current account
@@ -81,7 +85,7 @@ export async function GET(_request: NextRequest) {
     const maskedConfig = {
       ...config,
       openai_api_key_masked: config.openai_api_key_encrypted
-        ? maskApiKey(decryptApiKey(config.openai_api_key_encrypted))
+        ? maskStoredApiKey(config.openai_api_key_encrypted, user.account_id)
         : null,
       openai_api_key_encrypted: undefined, // Don't send encrypted key to client
     };
@@ -99,7 +103,7 @@ export async function GET(_request: NextRequest) {
  * PATCH /api/boltx/settings
  * Update BoltX configuration for the current account
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withPermission('boltx', 'write', async (request: NextRequest, { user, audit }) => {
   try {
     // Check Enterprise plan access
     const { hasEnterpriseAccess, error: planError } = await getUserPlan();
@@ -110,7 +114,6 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
@@ -123,6 +126,7 @@ export async function PATCH(request: NextRequest) {
       openai_model,
       openai_max_tokens,
       openai_temperature,
+      openai_monthly_token_budget,
       cache_enabled,
       cache_ttl,
       rate_limit,
@@ -184,6 +188,12 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    if (openai_monthly_token_budget !== undefined) {
+      if (!Number.isInteger(openai_monthly_token_budget) || openai_monthly_token_budget < 0) {
+        return apiError('openai_monthly_token_budget must be 0 (no budget) or a positive integer', 400);
+      }
+    }
+
     if (cache_ttl !== undefined) {
       if (typeof cache_ttl !== 'number' || cache_ttl <= 0) {
         return apiError('cache_ttl must be greater than 0', 400);
@@ -196,6 +206,10 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    if (prediction_model_version !== undefined && !isValidModelVersion(prediction_model_version)) {
+      return apiError('prediction_model_version must be "v1", "latest" or a trained version (e.g. "v2")', 400);
+    }
+
     // Validate feature flags
     if (interventions_enabled !== undefined && typeof interventions_enabled !== 'boolean') {
       return apiError('interventions_enabled must be a boolean', 400);
@@ -214,12 +228,24 @@ export async function PATCH(request: NextRequest) {
     if (openai_api_key) {
       // Only update if a new key is provided (not empty string)
       if (openai_api_key.trim().length > 0) {
-        encryptedApiKey = encryptApiKey(openai_api_key.trim());
+        try {
+          encryptedApiKey = encryptSecret(openai_api_key.trim(), {
+            context: apiKeyContext(user.account_id),
+          }).ciphertext;
+        } catch (error) {
+          console.error('❌ [DEBUG] Error encrypting OpenAI API key:', error);
+          return apiError('Failed to encrypt API key', 500);
+        }
       }
     }
 
     const supabaseAdmin = getSupabaseAdmin();
 
+    // Current configuration, for the audit log
+    const { data: previousConfigs } = await supabaseAdmin
+      .rpc('get_boltx_configuration', { p_customer_id: user.account_id });
+    const previousConfig = previousConfigs && previousConfigs.length > 0 ? previousConfigs[0] : null;
+
     // Upsert configuration
     const { error: upsertError } = await supabaseAdmin
       .rpc('upsert_boltx_configuration', {
@@ -238,6 +264,7 @@ export async function PATCH(request: NextRequest) {
         p_personalization_enabled: personalization_enabled,
         p_optimizations_enabled: optimizations_enabled,
         p_metadata: metadata,
+        p_openai_monthly_token_budget: openai_monthly_token_budget,
       });
 
     if (upsertError) {
@@ -255,11 +282,18 @@ export async function PATCH(request: NextRequest) {
       return apiError('Failed to retrieve updated configuration', 500);
     }
 
+    audit({
+      action: 'boltx.settings.update',
+      resourceType: 'boltx_configuration',
+      before: previousConfig ?? undefined,
+      after: updatedConfig,
+    });
+
     // Return masked configuration
     const maskedConfig = {
       ...updatedConfig,
       openai_api_key_masked: updatedConfig.openai_api_key_encrypted
-        ? maskApiKey(decryptApiKey(updatedConfig.openai_api_key_encrypted))
+        ? maskStoredApiKey(updatedConfig.openai_api_key_encrypted, user.account_id)
         : null,
       openai_api_key_encrypted: undefined,
     };
@@ -272,7 +306,7 @@ export async function PATCH(request: NextRequest) {
     console.error('❌ [DEBUG] Error in BoltX settings PATCH API:', error);
     return apiError('Internal server error', 500);
   }
-}
+});
 
 /**
  * Get default configuration from environment variables
@@ -285,6 +319,7 @@ function getDefaultConfiguration() {
     openai_model: process.env.BOLTX_OPENAI_MODEL || 'gpt-4-turbo-preview',
     openai_max_tokens: parseInt(process.env.BOLTX_OPENAI_MAX_TOKENS || '2000', 10),
     openai_temperature: parseFloat(process.env.BOLTX_OPENAI_TEMPERATURE || '0.7'),
+    openai_monthly_token_budget: parseInt(process.env.BOLTX_OPENAI_MONTHLY_TOKEN_BUDGET || '0', 10) || 0,
     cache_enabled: process.env.BOLTX_CACHE_ENABLED !== 'false',
     cache_ttl: parseInt(process.env.BOLTX_CACHE_TTL || '3600', 10),
     rate_limit: parseInt(process.env.BOLTX_RATE_LIMIT || '60', 10),
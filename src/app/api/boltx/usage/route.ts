@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { getUserPlan } from '@/lib/api/plan-check';
+import { loadBoltXConfiguration } from '@/lib/ai/boltx-config-loader';
+import {
+  DEFAULT_REQUESTS_PER_MINUTE,
+  getTokenUsage,
+  toTokenBudgetStatus,
+} from '@/lib/ai/boltx-usage';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/boltx/usage
+ * Rate limit and OpenAI token usage of the current month for the account
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const { hasEnterpriseAccess, error: planError } = await getUserPlan();
+    if (!hasEnterpriseAccess) {
+      return apiError(
+        planError ||
+          'BoltX is only available on Enterprise plan. Please upgrade to access this feature.',
+        403
+      );
+    }
+
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const [config, { usage, error }] = await Promise.all([
+      loadBoltXConfiguration(user.account_id),
+      getTokenUsage(user.account_id),
+    ]);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching BoltX token usage:', error);
+      return apiError('Failed to fetch usage', 500);
+    }
+
+    return apiSuccess({
+      rateLimit: {
+        requestsPerMinute: config?.rateLimit.requestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE,
+      },
+      tokens: toTokenBudgetStatus(usage, config?.monthlyTokenBudget ?? 0),
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching BoltX usage:', error);
+    return apiError('Failed to fetch usage', 500);
+  }
+}
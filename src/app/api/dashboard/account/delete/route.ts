@@ -1,17 +1,17 @@
 import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import { withAuth } from '@/lib/api/route-handler';
+import { withPermission } from '@/lib/api/route-handler';
 
 /**
  * DELETE /api/dashboard/account/delete
  * Soft delete (cancel) the authenticated user's account
- * Only owners and admins can delete accounts
+ * Requires settings delete (owners and admins)
  */
 export const dynamic = 'force-dynamic';
 
 export async function DELETE(request: NextRequest) {
-  return withAuth(async (_request, { user }) => {
+  return withPermission('settings', 'delete', async (_request, { user }) => {
     try {
       const supabaseAdmin = getSupabaseAdmin();
 
@@ -19,11 +19,6 @@ export async function DELETE(request: NextRequest) {
         return apiError('User account not found', 404);
       }
 
-      // Validate user has owner or admin role (additional check on API level)
-      if (user.role !== 'owner' && user.role !== 'admin') {
-        return apiError('Insufficient permissions to delete this account', 403);
-      }
-
       // Delete account using RPC function (all validation is done inside the function)
       const { error: deleteError } = await supabaseAdmin.rpc('delete_account', {
         p_account_id: user.account_id,
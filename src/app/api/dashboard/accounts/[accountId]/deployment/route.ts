@@ -3,6 +3,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { createNetlifyDeployment, getDeploymentStatus } from '@/lib/automation/deployment-service';
 import { generateEnvVarsForAccount } from '@/lib/automation/env-manager';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -42,24 +43,15 @@ export async function GET(
  * POST /api/dashboard/accounts/[accountId]/deployment
  * Create a new deployment for an account
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { accountId: string } }
-) {
+export const POST = withPermission('settings', 'write', async (request: NextRequest, { user, params }) => {
   try {
-    const authResult = await getAuthenticatedUser();
-    const { user } = authResult;
-
-    // Only owner and admin can create deployments
-    if (user.role !== 'owner' && user.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Forbidden: Only administrators can create deployments' },
-        { status: 403 }
-      );
+    const accountId = params?.accountId;
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
     }
 
     // Verify user has access to this account
-    if (user.account_id !== params.accountId && user.role !== 'owner') {
+    if (user.account_id !== accountId && user.role !== 'owner') {
       return NextResponse.json(
         { error: 'Forbidden' },
         { status: 403 }
@@ -74,7 +66,7 @@ export async function POST(
     // Get account info
     const { data: accounts, error: accountError } = await supabase.rpc(
       'get_account_by_id',
-      { p_account_id: params.accountId }
+      { p_account_id: accountId }
     );
 
     if (accountError || !accounts || accounts.length === 0) {
@@ -88,11 +80,11 @@ export async function POST(
     const vtexAccountName = account.vtex_account_name;
 
     // Generate environment variables for the account
-    const envVars = await generateEnvVarsForAccount(params.accountId, vtexAccountName);
+    const envVars = await generateEnvVarsForAccount(accountId, vtexAccountName);
 
     // Create deployment
     const result = await createNetlifyDeployment({
-      accountId: params.accountId,
+      accountId: accountId,
       vtexAccountName,
       deploymentType,
       customDomain,
@@ -121,26 +113,17 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/dashboard/accounts/[accountId]/deployment/env
  * Update environment variables for a deployment
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { accountId: string } }
-) {
+export const PUT = withPermission('settings', 'write', async (request: NextRequest, { params }) => {
   try {
-    const authResult = await getAuthenticatedUser();
-    const { user } = authResult;
-
-    // Only owner and admin can update deployments
-    if (user.role !== 'owner' && user.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Forbidden: Only administrators can update deployments' },
-        { status: 403 }
-      );
+    const accountId = params?.accountId;
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
     }
 
     const body = await request.json();
@@ -164,7 +147,7 @@ export async function PUT(
         env_vars: envVars,
         updated_at: new Date().toISOString(),
       })
-      .eq('account_id', params.accountId);
+      .eq('account_id', accountId);
 
     if (updateError) {
       return NextResponse.json(
@@ -181,5 +164,5 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAuthenticatedUser } from '@/lib/api/auth';
 import { triggerDeployment } from '@/lib/automation/deployment-service';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,24 +8,15 @@ export const dynamic = 'force-dynamic';
  * POST /api/dashboard/accounts/[accountId]/deployment/trigger
  * Trigger a new deployment for an account
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { accountId: string } }
-) {
+export const POST = withPermission('settings', 'write', async (request: NextRequest, { user, params }) => {
   try {
-    const authResult = await getAuthenticatedUser();
-    const { user } = authResult;
-
-    // Only owner and admin can trigger deployments
-    if (user.role !== 'owner' && user.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Forbidden: Only administrators can trigger deployments' },
-        { status: 403 }
-      );
+    const accountId = params?.accountId;
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
     }
 
     // Verify user has access to this account
-    if (user.account_id !== params.accountId && user.role !== 'owner') {
+    if (user.account_id !== accountId && user.role !== 'owner') {
       return NextResponse.json(
         { error: 'Forbidden' },
         { status: 403 }
@@ -35,7 +26,7 @@ export async function POST(
     const body = await request.json();
     const branch = body.branch || 'main';
 
-    const result = await triggerDeployment(params.accountId, branch);
+    const result = await triggerDeployment(accountId, branch);
 
     if (!result.success) {
       return NextResponse.json(
@@ -56,5 +47,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
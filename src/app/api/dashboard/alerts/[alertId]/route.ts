@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { acknowledgeAlert, AlertActionSchema, resolveAlert } from '@/lib/alerts/alerts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/dashboard/alerts/[alertId]
+ * Acknowledge a firing alert, or resolve an open alert
+ */
+export const PATCH = withPermissionAndValidation(
+  'dashboard',
+  'write',
+  AlertActionSchema,
+  async (_request: NextRequest, { user, params, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const alertId = params?.alertId;
+      if (!alertId) {
+        return apiError('Alert ID is required', 400);
+      }
+
+      const update = body.action === 'acknowledge' ? acknowledgeAlert : resolveAlert;
+      const { updated, error } = await update(user.account_id, alertId, user.id);
+
+      if (error) {
+        console.error(`❌ [DEBUG] Error updating alert (${body.action}):`, error);
+        return apiError('Failed to update alert', 500);
+      }
+
+      if (!updated) {
+        return apiError(
+          body.action === 'acknowledge'
+            ? 'Alert not found or not firing'
+            : 'Alert not found or already resolved',
+          409
+        );
+      }
+
+      audit({
+        action: `alert.${body.action}`,
+        resourceType: 'alert',
+        resourceId: alertId,
+      });
+
+      return apiSuccess({
+        message: body.action === 'acknowledge' ? 'Alert acknowledged' : 'Alert resolved',
+      });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
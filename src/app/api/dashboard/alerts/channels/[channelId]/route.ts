@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import {
+  AlertChannelSchema,
+  deleteAlertChannel,
+  getAlertChannels,
+  saveAlertChannel,
+  toAlertChannelSettings,
+} from '@/lib/alerts/channels';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/dashboard/alerts/channels/[channelId]
+ * Update an alert channel (its type cannot change)
+ * Returns the new signing secret when a webhook secret is rotated
+ */
+export const PUT = withPermissionAndValidation(
+  'settings',
+  'write',
+  AlertChannelSchema,
+  async (_request: NextRequest, { user, params, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const channelId = params?.channelId;
+      if (!channelId) {
+        return apiError('Channel ID is required', 400);
+      }
+
+      const { channels } = await getAlertChannels(user.account_id);
+      const existing = channels.find((channel) => channel.id === channelId);
+      if (!existing) {
+        return apiNotFound('Alert channel not found');
+      }
+
+      if (existing.type !== body.type) {
+        return apiError('The type of a channel cannot be changed', 400);
+      }
+
+      const { channel, secret, error } = await saveAlertChannel(user.account_id, body, {
+        channelId,
+      });
+
+      if (error || !channel) {
+        console.error('❌ [DEBUG] Error updating alert channel:', error);
+        return apiError('Failed to update alert channel', 500);
+      }
+
+      const settings = toAlertChannelSettings(channel);
+
+      audit({
+        action: secret ? 'alert_channel.rotate_secret' : 'alert_channel.update',
+        resourceType: 'alert_channel',
+        resourceId: channel.id,
+        before: toAlertChannelSettings(existing),
+        after: settings,
+      });
+
+      return apiSuccess({ channel: settings, secret });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/dashboard/alerts/channels/[channelId]
+ * Delete an alert channel (rules stop notifying it)
+ */
+export const DELETE = withPermission(
+  'settings',
+  'write',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const channelId = params?.channelId;
+      if (!channelId) {
+        return apiError('Channel ID is required', 400);
+      }
+
+      const { deleted, error } = await deleteAlertChannel(user.account_id, channelId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error deleting alert channel:', error);
+        return apiError('Failed to delete alert channel', 500);
+      }
+
+      if (!deleted) {
+        return apiNotFound('Alert channel not found');
+      }
+
+      audit({
+        action: 'alert_channel.delete',
+        resourceType: 'alert_channel',
+        resourceId: channelId,
+      });
+
+      return apiSuccess({ message: 'Alert channel deleted' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
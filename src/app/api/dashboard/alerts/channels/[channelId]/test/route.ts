@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import { getAlertChannels } from '@/lib/alerts/channels';
+import { sendTestAlertNotification } from '@/lib/alerts/notifications';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/alerts/channels/[channelId]/test
+ * Send a sample alert to a channel
+ */
+export const POST = withPermission(
+  'settings',
+  'write',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { channels, error: channelsError } = await getAlertChannels(user.account_id);
+
+      if (channelsError) {
+        console.error('❌ [DEBUG] Error fetching alert channels:', channelsError);
+        return apiError('Failed to fetch alert channels', 500);
+      }
+
+      const channel = channels.find((item) => item.id === params?.channelId);
+      if (!channel) {
+        return apiNotFound('Alert channel not found');
+      }
+
+      const { error } = await sendTestAlertNotification(channel);
+
+      if (error) {
+        return apiError(`Delivery failed: ${error.message}`, 502);
+      }
+
+      audit({
+        action: 'alert_channel.test',
+        resourceType: 'alert_channel',
+        resourceId: channel.id,
+      });
+
+      return apiSuccess({ message: 'Test alert sent' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
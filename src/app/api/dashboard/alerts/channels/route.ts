@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import {
+  AlertChannelSchema,
+  getAlertChannels,
+  saveAlertChannel,
+  toAlertChannelSettings,
+} from '@/lib/alerts/channels';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/alerts/channels
+ * Alert channels of the account (without their secrets)
+ */
+export const GET = withPermission('settings', 'read', async (_request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { channels, error } = await getAlertChannels(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching alert channels:', error);
+      return apiError('Failed to fetch alert channels', 500);
+    }
+
+    return apiSuccess({ channels: channels.map(toAlertChannelSettings) });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * POST /api/dashboard/alerts/channels
+ * Create an alert channel
+ * The signing secret of a webhook channel is only returned here
+ */
+export const POST = withPermissionAndValidation(
+  'settings',
+  'write',
+  AlertChannelSchema,
+  async (_request: NextRequest, { user, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      if (body.type === 'slack' && !body.url) {
+        return apiError('Slack webhook URL is required', 400);
+      }
+
+      const { channel, secret, error } = await saveAlertChannel(user.account_id, body, {
+        createdBy: user.id,
+      });
+
+      if (error || !channel) {
+        console.error('❌ [DEBUG] Error creating alert channel:', error);
+        return apiError('Failed to create alert channel', 500);
+      }
+
+      const settings = toAlertChannelSettings(channel);
+
+      audit({
+        action: 'alert_channel.create',
+        resourceType: 'alert_channel',
+        resourceId: channel.id,
+        after: settings,
+      });
+
+      return apiSuccess({ channel: settings, secret }, 201);
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
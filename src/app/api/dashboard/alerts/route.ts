@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { ALERT_STATUSES, getAlerts, type AlertStatus } from '@/lib/alerts/alerts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/alerts?status=firing
+ * Alerts of the account, newest first (optionally filtered by status)
+ */
+export const GET = withPermission('dashboard', 'read', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !ALERT_STATUSES.includes(status as AlertStatus)) {
+      return apiError(`Invalid status. Use one of: ${ALERT_STATUSES.join(', ')}`, 400);
+    }
+
+    const { alerts, error } = await getAlerts(user.account_id, {
+      status: (status as AlertStatus) || undefined,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching alerts:', error);
+      return apiError('Failed to fetch alerts', 500);
+    }
+
+    return apiSuccess({ alerts });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import { AlertRuleSchema, deleteAlertRule, getAlertRules, saveAlertRule } from '@/lib/alerts/rules';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/dashboard/alerts/rules/[ruleId]
+ * Update an alert rule
+ */
+export const PUT = withPermissionAndValidation(
+  'settings',
+  'write',
+  AlertRuleSchema,
+  async (_request: NextRequest, { user, params, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const ruleId = params?.ruleId;
+      if (!ruleId) {
+        return apiError('Rule ID is required', 400);
+      }
+
+      const { rules } = await getAlertRules(user.account_id);
+      const before = rules.find((rule) => rule.id === ruleId);
+      if (!before) {
+        return apiNotFound('Alert rule not found');
+      }
+
+      const { rule, error } = await saveAlertRule(user.account_id, body, { ruleId });
+
+      if (error || !rule) {
+        console.error('❌ [DEBUG] Error updating alert rule:', error);
+        return apiError('Failed to update alert rule', 500);
+      }
+
+      audit({
+        action: 'alert_rule.update',
+        resourceType: 'alert_rule',
+        resourceId: rule.id,
+        before,
+        after: rule,
+      });
+
+      return apiSuccess({ rule });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/dashboard/alerts/rules/[ruleId]
+ * Delete an alert rule with its alerts
+ */
+export const DELETE = withPermission(
+  'settings',
+  'write',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const ruleId = params?.ruleId;
+      if (!ruleId) {
+        return apiError('Rule ID is required', 400);
+      }
+
+      const { rules } = await getAlertRules(user.account_id);
+      const before = rules.find((rule) => rule.id === ruleId) || null;
+
+      const { deleted, error } = await deleteAlertRule(user.account_id, ruleId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error deleting alert rule:', error);
+        return apiError('Failed to delete alert rule', 500);
+      }
+
+      if (!deleted) {
+        return apiNotFound('Alert rule not found');
+      }
+
+      audit({
+        action: 'alert_rule.delete',
+        resourceType: 'alert_rule',
+        resourceId: ruleId,
+        before,
+      });
+
+      return apiSuccess({ message: 'Alert rule deleted' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
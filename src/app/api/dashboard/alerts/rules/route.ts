@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { AlertRuleSchema, getAlertRules, saveAlertRule } from '@/lib/alerts/rules';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/alerts/rules
+ * Alert rules of the account
+ */
+export const GET = withPermission('settings', 'read', async (_request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { rules, error } = await getAlertRules(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching alert rules:', error);
+      return apiError('Failed to fetch alert rules', 500);
+    }
+
+    return apiSuccess({ rules });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * POST /api/dashboard/alerts/rules
+ * Create an alert rule
+ */
+export const POST = withPermissionAndValidation(
+  'settings',
+  'write',
+  AlertRuleSchema,
+  async (_request: NextRequest, { user, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { rule, error } = await saveAlertRule(user.account_id, body, { createdBy: user.id });
+
+      if (error || !rule) {
+        console.error('❌ [DEBUG] Error creating alert rule:', error);
+        return apiError('Failed to create alert rule', 500);
+      }
+
+      audit({
+        action: 'alert_rule.create',
+        resourceType: 'alert_rule',
+        resourceId: rule.id,
+        after: body,
+      });
+
+      return apiSuccess({ rule }, 201);
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -1,9 +1,8 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { getSessionActivity } from '@/lib/analytics/session-activity';
 import { predictAbandonment, getTypicalCheckoutDuration, type AbandonmentRiskFactors } from '@/utils/dashboard/abandonment-predictor';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
@@ -25,8 +24,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-abandonment-prediction', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -58,49 +55,24 @@ export async function GET(request: NextRequest) {
       end: range.end.toISOString(),
     });
 
-    // Query all checkout events to analyze sessions
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: [
-          'checkout_start',
-          'checkout_started',
-          'step_viewed',
-          'step_completed',
-          'step_abandoned',
-          'error_occurred',
-          'checkout_complete',
-          'order_confirmed',
-        ],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate checkout activity per session
+    const { data: sessions, error: eventsError } = await getSessionActivity(user.account_id, range);
 
-    if (eventsError) {
+    if (eventsError || !sessions) {
       console.error('❌ [DEBUG] Get abandonment prediction events error:', eventsError);
       return apiError('Failed to fetch abandonment prediction data', 500);
     }
 
-    console.info('✅ [DEBUG] Abandonment prediction - Events found:', events?.length || 0);
+    console.info('✅ [DEBUG] Abandonment prediction - Sessions found:', sessions.size);
 
     // Calculate average checkout time for comparison
     const completedSessions: number[] = [];
-    const sessionStartTimes: Record<string, Date> = {};
 
-    events?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      
-      if (event.event_type === 'checkout_start' || event.event_type === 'checkout_started') {
-        sessionStartTimes[sessionId] = new Date(event.timestamp);
-      }
-      
-      if (event.event_type === 'checkout_complete' || event.event_type === 'order_confirmed') {
-        const startTime = sessionStartTimes[sessionId];
-        if (startTime) {
-          const duration = (new Date(event.timestamp).getTime() - startTime.getTime()) / 1000;
-          if (duration > 0) {
-            completedSessions.push(duration);
-          }
+    sessions.forEach((session) => {
+      if (session.checkoutStartedAt && session.completedAt) {
+        const duration = (session.completedAt.getTime() - session.checkoutStartedAt.getTime()) / 1000;
+        if (duration > 0) {
+          completedSessions.push(duration);
         }
       }
     });
@@ -116,66 +88,6 @@ export async function GET(request: NextRequest) {
       typicalCheckoutDuration: typicalCheckoutDuration.toFixed(2),
     });
 
-    // Analyze active and abandoned sessions
-    const sessions: Record<string, {
-      startTime: Date;
-      lastActivity: Date;
-      currentStep: string;
-      stepStartTime: Record<string, Date>;
-      errors: number;
-      stepsVisited: Set<string>;
-      completed: boolean;
-      abandoned: boolean;
-    }> = {};
-
-    events?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      
-      if (!sessions[sessionId]) {
-        sessions[sessionId] = {
-          startTime: new Date(event.timestamp),
-          lastActivity: new Date(event.timestamp),
-          currentStep: 'cart',
-          stepStartTime: {},
-          errors: 0,
-          stepsVisited: new Set(),
-          completed: false,
-          abandoned: false,
-        };
-      }
-
-      const session = sessions[sessionId];
-      const eventTime = new Date(event.timestamp);
-      
-      if (eventTime > session.lastActivity) {
-        session.lastActivity = eventTime;
-      }
-
-      switch (event.event_type) {
-        case 'checkout_start':
-        case 'checkout_started':
-          session.startTime = eventTime;
-          break;
-        case 'step_viewed':
-          if (event.step) {
-            session.currentStep = event.step;
-            session.stepsVisited.add(event.step);
-            session.stepStartTime[event.step] = eventTime;
-          }
-          break;
-        case 'error_occurred':
-          session.errors++;
-          break;
-        case 'checkout_complete':
-        case 'order_confirmed':
-          session.completed = true;
-          break;
-        case 'step_abandoned':
-          session.abandoned = true;
-          break;
-      }
-    });
-
     // Calculate predictions for active/abandoned sessions
     const predictions: Array<{
       sessionId: string;
@@ -189,7 +101,7 @@ export async function GET(request: NextRequest) {
     let activeSessionsCount = 0;
     let abandonedSessionsCount = 0;
 
-    Object.entries(sessions).forEach(([sessionId, session]) => {
+    sessions.forEach((session, sessionId) => {
       // Track all sessions for statistics
       if (session.completed) {
         completedSessionsCount++;
@@ -202,13 +114,15 @@ export async function GET(request: NextRequest) {
       // Skip completed sessions for prediction (they're already done)
       if (session.completed) return;
 
-      const totalDuration = (session.lastActivity.getTime() - session.startTime.getTime()) / 1000;
-      const currentStepDuration = session.stepStartTime[session.currentStep]
-        ? (session.lastActivity.getTime() - session.stepStartTime[session.currentStep].getTime()) / 1000
+      const startTime = session.checkoutStartedAt || session.startTime;
+      const currentStep = session.currentStep || 'cart';
+      const totalDuration = (session.lastActivity.getTime() - startTime.getTime()) / 1000;
+      const currentStepDuration = session.currentStepViewedAt
+        ? (session.lastActivity.getTime() - session.currentStepViewedAt.getTime()) / 1000
         : totalDuration;
 
       const stepOrder = ['cart', 'profile', 'shipping', 'payment'];
-      const currentStepIndex = stepOrder.indexOf(session.currentStep);
+      const currentStepIndex = stepOrder.indexOf(currentStep);
       const stepProgress = stepOrder.length > 0 
         ? Math.max(0, Math.min(1, (currentStepIndex + 1) / stepOrder.length))
         : 0.5;
@@ -222,7 +136,7 @@ export async function GET(request: NextRequest) {
           ? Math.max(0, totalDuration / typicalCheckoutDuration)
           : 0,
         errorCount: session.errors,
-        currentStep: session.currentStep || 'cart',
+        currentStep,
         stepDuration: Math.max(0, currentStepDuration),
         totalDuration: Math.max(0, totalDuration),
         hasReturned,
@@ -240,7 +154,7 @@ export async function GET(request: NextRequest) {
       });
     });
 
-    const totalSessions = Object.keys(sessions).length;
+    const totalSessions = sessions.size;
 
     console.info('✅ [DEBUG] Abandonment prediction - Session analysis:', {
       totalSessions,
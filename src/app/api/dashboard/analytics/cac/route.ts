@@ -1,41 +1,12 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/cac
  * Get Customer Acquisition Cost (CAC) and LTV:CAC ratio analytics
@@ -58,8 +29,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-cac', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -85,107 +54,38 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query checkout_start events to identify new customer acquisitions
-    const { data: checkoutStartEvents, error: checkoutStartError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_start'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate checkout sessions by acquisition channel (utm_source > referrer > channel > direct)
+    // Conversions = sessions with a completed checkout
+    const { data: channelRows, error: channelError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: range,
+      eventTypes: ['checkout_start'],
+      dimensions: ['channel'],
+      conversionEventTypes: ['checkout_complete', 'order_confirmed'],
+    });
 
-    if (checkoutStartError) {
-      console.error('Get CAC checkout start events error:', checkoutStartError);
+    if (channelError || !channelRows) {
+      console.error('Get CAC checkout events error:', channelError);
       return apiError('Failed to fetch CAC data', 500);
     }
 
-    // Query completed checkout events for LTV calculation
-    const { data: checkoutCompleteEvents, error: checkoutCompleteError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
-
-    if (checkoutCompleteError) {
-      console.error('Get CAC checkout complete events error:', checkoutCompleteError);
-      return apiError('Failed to fetch checkout complete events', 500);
-    }
-
-    // Group new customers by acquisition channel
-    const channelStats: Record<string, {
-      sessions: Set<string>;
-      conversions: number;
-      revenue: number;
-    }> = {};
-
-    checkoutStartEvents?.forEach((event: AnalyticsEvent) => {
-      const metadata = event.metadata || {};
-
-      // Try to identify acquisition channel from metadata
-      const channel =
-        (metadata.utm_source as string) ||
-        (metadata.referrer as string) ||
-        (metadata.channel as string) ||
-        'direct';
-
-      const normalizedChannel = channel.toLowerCase().replace(/[^a-z0-9]/g, '_');
-
-      if (!channelStats[normalizedChannel]) {
-        channelStats[normalizedChannel] = {
-          sessions: new Set(),
-          conversions: 0,
-          revenue: 0,
-        };
-      }
-
-      channelStats[normalizedChannel].sessions.add(event.session_id);
-    });
-
-    // Match conversions to channels
-    checkoutCompleteEvents?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      if (revenue <= 0) return;
-
-      // Find the channel for this session
-      const sessionStartEvent = checkoutStartEvents?.find(
-        (e: AnalyticsEvent) => e.session_id === event.session_id
-      );
-
-      if (sessionStartEvent) {
-        const metadata = sessionStartEvent.metadata || {};
-        const channel =
-          (metadata.utm_source as string) ||
-          (metadata.referrer as string) ||
-          (metadata.channel as string) ||
-          'direct';
-
-        const normalizedChannel = channel.toLowerCase().replace(/[^a-z0-9]/g, '_');
-
-        if (channelStats[normalizedChannel]) {
-          channelStats[normalizedChannel].conversions++;
-          channelStats[normalizedChannel].revenue += revenue;
-        }
-      }
-    });
-
     // Calculate metrics per channel
-    const channelData = Object.entries(channelStats).map(([channel, stats]) => {
-      const sessions = stats.sessions.size;
-      const conversionRate = sessions > 0 ? (stats.conversions / sessions) * 100 : 0;
-      const avgOrderValue = stats.conversions > 0 ? stats.revenue / stats.conversions : 0;
+    const channelData = channelRows.map((row) => {
+      const channel = row.dimensions.channel;
+      const { sessions, convertedSessions: conversions, convertedRevenue: revenue } = row;
+      const conversionRate = sessions > 0 ? (conversions / sessions) * 100 : 0;
+      const avgOrderValue = conversions > 0 ? revenue / conversions : 0;
 
       // Estimate CAC - this is a placeholder
       // In a real implementation, you would fetch actual marketing spend from your marketing platform
       // For now, we use a default estimated CAC or calculate based on channel
-      const estimatedCAC = estimateCACForChannel(channel, stats.conversions);
+      const estimatedCAC = estimateCACForChannel(channel, conversions);
 
       return {
         channel: channel.charAt(0).toUpperCase() + channel.slice(1).replace(/_/g, ' '),
         sessions,
-        conversions: stats.conversions,
-        revenue: stats.revenue,
+        conversions,
+        revenue,
         conversionRate,
         avgOrderValue,
         estimatedCAC,
@@ -1,41 +1,12 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/cohorts
  * Get detailed cohort analysis for customer retention
@@ -52,8 +23,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-cohorts', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -90,118 +59,66 @@ export async function GET(request: NextRequest) {
       extendedStart: extendedStart.toISOString(),
     });
 
-    // Query all completed checkout events
-    const { data: checkoutEvents, error: checkoutError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: extendedStart.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate orders (completed checkouts with revenue) per customer and month
+    const { data: customerMonthRows, error: checkoutError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: { start: extendedStart, end: range.end },
+      eventTypes: ['checkout_complete', 'order_confirmed'],
+      dimensions: ['customer', 'month'],
+      filters: { hasRevenue: true },
+    });
 
-    if (checkoutError) {
+    if (checkoutError || !customerMonthRows) {
       console.error('❌ [DEBUG] Get cohorts checkout events error:', checkoutError);
       return apiError('Failed to fetch cohorts data', 500);
     }
 
-    console.info('✅ [DEBUG] Cohorts - Events found:', checkoutEvents?.length || 0);
+    console.info('✅ [DEBUG] Cohorts - Customer months found:', customerMonthRows.length);
 
-    // Group orders by customer and determine cohort
+    // Group monthly orders by customer and determine cohort (month of first order)
     const customerCohorts: Record<string, {
-      customerId: string | null;
       customerKey: string;
       cohortMonth: string; // YYYY-MM format
-      firstOrderDate: Date;
-      orders: Array<{
-        date: Date;
+      months: Array<{
+        month: string;
         revenue: number;
-        period: number; // Period number (0 = first month, 1 = second month, etc.)
+        orders: number;
       }>;
       totalRevenue: number;
       totalOrders: number;
     }> = {};
 
-    let eventsWithRevenue = 0;
-    let eventsWithoutRevenue = 0;
-    const customerKeyStats: Record<string, number> = {};
-
-    checkoutEvents?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      if (revenue <= 0) {
-        eventsWithoutRevenue++;
-        return;
-      }
-
-      eventsWithRevenue++;
-
-      // Extract customer_id from metadata if available, otherwise use fallback
-      // For cohorts, we need a consistent customer identifier
-      // Priority: customer_id from metadata > order_form_id > session_id
-      const metadata = event.metadata || {};
-      const customerId = (metadata.customer_id as string) || null;
-      const customerKey = customerId || event.order_form_id || event.session_id || 'unknown';
-
-      // Track customer key usage
-      customerKeyStats[customerKey] = (customerKeyStats[customerKey] || 0) + 1;
-
-      const orderDate = new Date(event.timestamp);
-      const cohortMonth = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
+    customerMonthRows.forEach((row) => {
+      const { customer: customerKey, month } = row.dimensions;
 
       if (!customerCohorts[customerKey]) {
         customerCohorts[customerKey] = {
-          customerId,
           customerKey,
-          cohortMonth,
-          firstOrderDate: orderDate,
-          orders: [],
+          cohortMonth: month,
+          months: [],
           totalRevenue: 0,
           totalOrders: 0,
         };
       }
 
       const customer = customerCohorts[customerKey];
-
-      // Use first order date as cohort month
-      if (orderDate < customer.firstOrderDate) {
-        customer.firstOrderDate = orderDate;
-        customer.cohortMonth = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
+      if (month < customer.cohortMonth) {
+        customer.cohortMonth = month;
       }
 
-      // Calculate period (months since first order)
-      const monthsDiff = (orderDate.getFullYear() - customer.firstOrderDate.getFullYear()) * 12 +
-        (orderDate.getMonth() - customer.firstOrderDate.getMonth());
-
-      customer.orders.push({
-        date: orderDate,
-        revenue,
-        period: monthsDiff,
-      });
-
-      customer.totalRevenue += revenue;
-      customer.totalOrders++;
+      customer.months.push({ month, revenue: row.revenue, orders: row.orders });
+      customer.totalRevenue += row.revenue;
+      customer.totalOrders += row.orders;
     });
 
-    console.info('✅ [DEBUG] Cohorts - Event processing:', {
-      totalEvents: checkoutEvents?.length || 0,
-      eventsWithRevenue,
-      eventsWithoutRevenue,
+    console.info('✅ [DEBUG] Cohorts - Customer grouping:', {
       uniqueCustomers: Object.keys(customerCohorts).length,
-      customerKeyBreakdown: {
-        withCustomerId: Object.values(customerCohorts).filter(c => c.customerId !== null).length,
-        withOrderFormId: Object.values(customerCohorts).filter(c => {
-          // Check if customerKey looks like an order_form_id (UUID or similar)
-          return c.customerId === null && c.customerKey && c.customerKey.length > 20;
-        }).length,
-        withSessionId: Object.values(customerCohorts).filter(c => {
-          return c.customerId === null && c.customerKey && c.customerKey.length <= 20;
-        }).length,
-      },
     });
 
     // Group by cohort month
     const cohorts: Record<string, {
       cohort: string;
-      customers: typeof customerCohorts;
+      customers: Array<(typeof customerCohorts)[string]>;
       cohortSize: number;
       retentionByPeriod: Record<number, {
         customers: number;
@@ -215,19 +132,21 @@ export async function GET(request: NextRequest) {
       if (!cohorts[customer.cohortMonth]) {
         cohorts[customer.cohortMonth] = {
           cohort: customer.cohortMonth,
-          customers: {},
+          customers: [],
           cohortSize: 0,
           retentionByPeriod: {},
         };
       }
 
-      cohorts[customer.cohortMonth].customers[customer.customerKey] = customer;
-      cohorts[customer.cohortMonth].cohortSize++;
+      const cohort = cohorts[customer.cohortMonth];
+      cohort.customers.push(customer);
+      cohort.cohortSize++;
 
-      // Aggregate by period
-      customer.orders.forEach((order) => {
-        if (!cohorts[customer.cohortMonth].retentionByPeriod[order.period]) {
-          cohorts[customer.cohortMonth].retentionByPeriod[order.period] = {
+      // Aggregate by period (months since first order)
+      customer.months.forEach((entry) => {
+        const period = monthsBetween(customer.cohortMonth, entry.month);
+        if (!cohort.retentionByPeriod[period]) {
+          cohort.retentionByPeriod[period] = {
             customers: 0,
             revenue: 0,
             orders: 0,
@@ -235,29 +154,19 @@ export async function GET(request: NextRequest) {
           };
         }
 
-        const periodData = cohorts[customer.cohortMonth].retentionByPeriod[order.period];
-        periodData.revenue += order.revenue;
-        periodData.orders++;
+        const periodData = cohort.retentionByPeriod[period];
+        periodData.customers++; // One row per customer and month
+        periodData.revenue += entry.revenue;
+        periodData.orders += entry.orders;
       });
     });
 
     // Calculate retention rates for each period
     Object.values(cohorts).forEach((cohort) => {
-      const cohortSize = cohort.cohortSize;
-
-      Object.entries(cohort.retentionByPeriod).forEach(([periodStr, periodData]) => {
-        const period = parseInt(periodStr);
-
-        // Count unique customers who made purchases in this period
-        const customersInPeriod = new Set<string>();
-        Object.values(cohort.customers).forEach((customer) => {
-          if (customer.orders.some(o => o.period === period)) {
-            customersInPeriod.add(customer.customerKey);
-          }
-        });
-
-        periodData.customers = customersInPeriod.size;
-        periodData.retentionRate = cohortSize > 0 ? (customersInPeriod.size / cohortSize) * 100 : 0;
+      Object.values(cohort.retentionByPeriod).forEach((periodData) => {
+        periodData.retentionRate = cohort.cohortSize > 0
+          ? (periodData.customers / cohort.cohortSize) * 100
+          : 0;
       });
     });
 
@@ -273,7 +182,7 @@ export async function GET(request: NextRequest) {
       .slice(-12) // Last 12 cohorts
       .map((cohort) => {
         // Calculate LTV for this cohort
-        const totalRevenue = Object.values(cohort.customers).reduce(
+        const totalRevenue = cohort.customers.reduce(
           (sum, c) => sum + c.totalRevenue,
           0
         );
@@ -360,3 +269,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Number of months between two YYYY-MM months
+ */
+function monthsBetween(fromMonth: string, toMonth: string): number {
+  const [fromYear, fromMonthIndex] = fromMonth.split('-').map(Number);
+  const [toYear, toMonthIndex] = toMonth.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonthIndex - fromMonthIndex);
+}
@@ -1,67 +1,12 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics, queryAnalyticsTotals } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
-/**
- * Extract discount amount from event metadata
- */
-function extractDiscount(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const discountValue =
-    metadata.discountAmount ??
-    metadata.discountValue ??
-    metadata.metricValue ?? // discount_applied uses metricValue
-    null;
-
-  if (discountValue === null || discountValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof discountValue === 'number'
-    ? discountValue
-    : parseFloat(String(discountValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/coupons
  * Get coupon/discount analytics for the authenticated user's account
@@ -78,8 +23,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-coupons', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     // Get coupon/discount data from analytics.events
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
@@ -106,151 +49,71 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query discount-related events using RPC function
-    const { data: discountEvents, error: discountError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['discount_applied'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
-
-    if (discountError) {
-      console.error('Get discount events error:', discountError);
+    const checkoutEventTypes = ['checkout_complete', 'order_confirmed'];
+
+    // Aggregate discounts by coupon (orders/revenue = sessions that used the coupon and checked out)
+    // and the overall checkout totals to split revenue with/without discounts
+    const [couponResult, discountTotalsResult, checkoutTotalsResult] = await Promise.all([
+      queryAnalytics({
+        accountId: user.account_id,
+        period: range,
+        eventTypes: ['discount_applied'],
+        dimensions: ['couponCode'],
+        conversionEventTypes: checkoutEventTypes,
+      }),
+      queryAnalyticsTotals({
+        accountId: user.account_id,
+        period: range,
+        eventTypes: ['discount_applied'],
+        conversionEventTypes: checkoutEventTypes,
+      }),
+      queryAnalyticsTotals({
+        accountId: user.account_id,
+        period: range,
+        eventTypes: checkoutEventTypes,
+      }),
+    ]);
+
+    if (couponResult.error || discountTotalsResult.error || !couponResult.data || !discountTotalsResult.data) {
+      console.error('Get discount events error:', couponResult.error || discountTotalsResult.error);
       return apiError('Failed to fetch discount events', 500);
     }
 
-    // Query checkout_complete events to calculate revenue with/without discounts
-    const { data: checkoutEvents, error: checkoutError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
-
-    if (checkoutError) {
-      console.error('Get checkout events error:', checkoutError);
+    if (checkoutTotalsResult.error || !checkoutTotalsResult.data) {
+      console.error('Get checkout events error:', checkoutTotalsResult.error);
       return apiError('Failed to fetch checkout events', 500);
     }
 
-    // Aggregate coupons/discounts
-    const coupons: Record<string, {
-      code: string;
-      count: number;
-      totalDiscount: number;
-      avgDiscount: number;
-      revenue: number;
-      orders: number;
-    }> = {};
-
-    // Track sessions with discounts
-    const sessionsWithDiscount = new Set<string>();
-    const discountBySession: Record<string, number> = {};
-
-    discountEvents?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      const discount = extractDiscount(event);
-      const couponCode = (event.metadata?.couponCode as string) || 
-                         (event.metadata?.discountCode as string) || 
-                         'Unknown';
-      
-      if (!coupons[couponCode]) {
-        coupons[couponCode] = {
-          code: couponCode,
-          count: 0,
-          totalDiscount: 0,
-          avgDiscount: 0,
-          revenue: 0,
-          orders: 0,
-        };
-      }
-
-      coupons[couponCode].count++;
-      coupons[couponCode].totalDiscount += discount;
-      
-      if (discount > 0) {
-        sessionsWithDiscount.add(sessionId);
-        discountBySession[sessionId] = (discountBySession[sessionId] || 0) + discount;
-      }
-    });
-
-    // Calculate average discount per coupon
-    Object.values(coupons).forEach((coupon) => {
-      coupon.avgDiscount = coupon.count > 0 ? coupon.totalDiscount / coupon.count : 0;
-    });
-
-    // Match checkout events with discounts to calculate revenue
-    checkoutEvents?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      const revenue = extractRevenue(event);
-      const hasDiscount = sessionsWithDiscount.has(sessionId);
-      
-      if (hasDiscount && revenue > 0) {
-        // Find which coupon was used in this session
-        const sessionDiscountEvents = discountEvents?.filter(
-          (e: AnalyticsEvent) => e.session_id === sessionId
-        ) || [];
-        
-        sessionDiscountEvents.forEach((discountEvent: AnalyticsEvent) => {
-          const couponCode = (discountEvent.metadata?.couponCode as string) || 
-                             (discountEvent.metadata?.discountCode as string) || 
-                             'Unknown';
-          if (coupons[couponCode]) {
-            coupons[couponCode].revenue += revenue;
-            coupons[couponCode].orders++;
-          }
-        });
-      }
-    });
+    const discountTotals = discountTotalsResult.data;
+    const checkoutTotals = checkoutTotalsResult.data;
 
     // Calculate totals
-    const totalDiscounts = discountEvents?.length || 0;
-    const totalDiscountAmount = Object.values(coupons).reduce(
-      (sum, coupon) => sum + coupon.totalDiscount,
-      0
-    );
+    const totalDiscounts = discountTotals.events;
+    const totalDiscountAmount = discountTotals.discount;
     const avgDiscountAmount = totalDiscounts > 0
       ? totalDiscountAmount / totalDiscounts
       : 0;
 
-    // Calculate revenue with and without discounts
-    let revenueWithDiscount = 0;
-    let revenueWithoutDiscount = 0;
-    let ordersWithDiscount = 0;
-    let ordersWithoutDiscount = 0;
-
-    checkoutEvents?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      const revenue = extractRevenue(event);
-      
-      if (revenue > 0) {
-        if (sessionsWithDiscount.has(sessionId)) {
-          revenueWithDiscount += revenue;
-          ordersWithDiscount++;
-        } else {
-          revenueWithoutDiscount += revenue;
-          ordersWithoutDiscount++;
-        }
-      }
-    });
+    // Revenue with and without discounts (orders = sessions that checked out)
+    const revenueWithDiscount = discountTotals.convertedRevenue;
+    const ordersWithDiscount = discountTotals.convertedSessions;
+    const revenueWithoutDiscount = Math.max(0, checkoutTotals.revenue - revenueWithDiscount);
+    const ordersWithoutDiscount = Math.max(0, checkoutTotals.orders - ordersWithDiscount);
 
-    const couponUsageRate = checkoutEvents && checkoutEvents.length > 0
-      ? (ordersWithDiscount / checkoutEvents.length) * 100
+    const couponUsageRate = checkoutTotals.events > 0
+      ? (ordersWithDiscount / checkoutTotals.events) * 100
       : 0;
 
-    // Convert to array and sort by usage
-    const couponData = Object.values(coupons)
-      .map((coupon) => ({
-        code: coupon.code,
-        count: coupon.count,
-        totalDiscount: coupon.totalDiscount,
-        avgDiscount: coupon.avgDiscount,
-        revenue: coupon.revenue,
-        orders: coupon.orders,
-        avgOrderValue: coupon.orders > 0 ? coupon.revenue / coupon.orders : 0,
-      }))
-      .sort((a, b) => b.count - a.count);
+    // Rows are already sorted by usage
+    const couponData = couponResult.data.map((row) => ({
+      code: row.dimensions.couponCode,
+      count: row.events,
+      totalDiscount: row.discount,
+      avgDiscount: row.events > 0 ? row.discount / row.events : 0,
+      revenue: row.convertedRevenue,
+      orders: row.convertedSessions,
+      avgOrderValue: row.convertedSessions > 0 ? row.convertedRevenue / row.convertedSessions : 0,
+    }));
 
     return apiSuccess({
       coupons: couponData,
@@ -3,6 +3,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
+import { queryAnalytics, queryAnalyticsTotals } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 // Ensure this route is handled at runtime (not static)
@@ -72,39 +73,41 @@ export async function GET(request: NextRequest) {
       category,
     });
 
-    // Query all events for summary metrics
-    // First try with customer_id filter
-    let allEvents: any[] | null = null;
-    let allEventsError: any = null;
+    const summaryQuery = {
+      accountId: user.account_id,
+      period: range,
+      eventTypes: eventTypes || undefined,
+      filters: {
+        categories: categories || undefined,
+        steps: step ? [step] : undefined,
+      },
+    };
 
-    ({ data: allEvents, error: allEventsError } = await supabaseAdmin
-      .rpc('get_analytics_events', {
+    // Summary metrics are aggregated in the database, only the requested page of events is loaded
+    const [totalsResult, breakdownResult, eventsResult] = await Promise.all([
+      queryAnalyticsTotals(summaryQuery),
+      queryAnalytics({ ...summaryQuery, dimensions: ['category', 'eventType'] }),
+      supabaseAdmin.rpc('list_analytics_events', {
         p_customer_id: user.account_id,
         p_start_date: range.start.toISOString(),
         p_end_date: range.end.toISOString(),
         p_event_types: eventTypes,
         p_categories: categories,
-      }));
-
-    if (allEventsError) {
-      console.error('❌ [DEBUG] Get analytics events error:', allEventsError);
+        p_steps: step ? [step] : null,
+        p_limit: limit,
+        p_offset: (page - 1) * limit,
+      }),
+    ]);
+
+    const eventsError = totalsResult.error || breakdownResult.error || eventsResult.error;
+    if (eventsError || !totalsResult.data || !breakdownResult.data) {
+      console.error('❌ [DEBUG] Get analytics events error:', eventsError);
       return apiError('Failed to fetch analytics events', 500);
     }
 
-    console.log('✅ [DEBUG] Retrieved events count with customer_id:', allEvents?.length || 0);
-
-    // Ensure allEvents is an array (default to empty array if null)
-    allEvents = allEvents || [];
-
-    // Filter by step if provided (since RPC doesn't support step filtering directly)
-    let filteredEvents = allEvents;
-    if (step) {
-      filteredEvents = filteredEvents.filter((e) => e.step === step);
-    }
-
     // Calculate summary metrics
-    const totalEvents = filteredEvents.length;
-    const uniqueSessions = new Set(filteredEvents.map((e) => e.session_id)).size;
+    const totalEvents = totalsResult.data.events;
+    const uniqueSessions = totalsResult.data.sessions;
 
     // Events by category
     const eventsByCategory: Record<string, number> = {
@@ -114,16 +117,15 @@ export async function GET(request: NextRequest) {
       error: 0,
     };
 
-    filteredEvents.forEach((event) => {
-      if (event.category in eventsByCategory) {
-        eventsByCategory[event.category]++;
-      }
-    });
-
     // Events by type (top 10)
     const eventsByType: Record<string, number> = {};
-    filteredEvents.forEach((event) => {
-      eventsByType[event.event_type] = (eventsByType[event.event_type] || 0) + 1;
+
+    breakdownResult.data.forEach((row) => {
+      const { category, eventType } = row.dimensions;
+      if (category in eventsByCategory) {
+        eventsByCategory[category] += row.events;
+      }
+      eventsByType[eventType] = (eventsByType[eventType] || 0) + row.events;
     });
 
     const topEventTypes = Object.entries(eventsByType)
@@ -134,11 +136,17 @@ export async function GET(request: NextRequest) {
     // Error count
     const errorCount = eventsByCategory.error || 0;
 
-    // Events are already sorted DESC by the database query
-    // Paginate events
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedEvents = filteredEvents.slice(startIndex, endIndex);
+    // Events are sorted DESC by the database query
+    const paginatedEvents: Array<{
+      id: string;
+      session_id: string;
+      order_form_id: string | null;
+      event_type: string;
+      category: string;
+      step: string | null;
+      metadata: Record<string, unknown> | null;
+      timestamp: string;
+    }> = eventsResult.data || [];
 
     const totalPages = Math.ceil(totalEvents / limit);
 
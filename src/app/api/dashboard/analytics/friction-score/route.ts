@@ -1,9 +1,8 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { getSessionActivity } from '@/lib/analytics/session-activity';
 import {
   calculateFrictionScore,
   calculateAverageFriction,
@@ -29,8 +28,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-friction-score', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -56,112 +53,18 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query all checkout events
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: [
-          'checkout_start',
-          'checkout_started',
-          'step_viewed',
-          'step_completed',
-          'step_abandoned',
-          'error_occurred',
-          'checkout_complete',
-          'order_confirmed',
-        ],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate checkout activity per session (with form completion from metadata)
+    const { data: sessions, error: eventsError } = await getSessionActivity(
+      user.account_id,
+      range,
+      ['fieldsFilled', 'totalFields']
+    );
 
-    if (eventsError) {
+    if (eventsError || !sessions) {
       console.error('Get friction score events error:', eventsError);
       return apiError('Failed to fetch friction score data', 500);
     }
 
-    // Analyze sessions
-    const sessions: Record<string, {
-      startTime: Date;
-      lastActivity: Date;
-      errors: number;
-      backNavigations: number;
-      stepsVisited: Set<string>;
-      stepsCompleted: Set<string>;
-      fieldsFilled: number;
-      totalFields: number;
-      completed: boolean;
-      abandoned: boolean;
-      hasReturned: boolean;
-    }> = {};
-
-    events?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-
-      if (!sessions[sessionId]) {
-        sessions[sessionId] = {
-          startTime: new Date(event.timestamp),
-          lastActivity: new Date(event.timestamp),
-          errors: 0,
-          backNavigations: 0,
-          stepsVisited: new Set(),
-          stepsCompleted: new Set(),
-          fieldsFilled: 0,
-          totalFields: 0,
-          completed: false,
-          abandoned: false,
-          hasReturned: false,
-        };
-      }
-
-      const session = sessions[sessionId];
-      const eventTime = new Date(event.timestamp);
-
-      if (eventTime > session.lastActivity) {
-        session.lastActivity = eventTime;
-      }
-
-      switch (event.event_type) {
-        case 'checkout_start':
-        case 'checkout_started':
-          session.startTime = eventTime;
-          break;
-        case 'step_viewed':
-          if (event.step) {
-            session.stepsVisited.add(event.step);
-            // If viewing a step that was already visited, count as back navigation
-            if (session.stepsCompleted.has(event.step)) {
-              session.backNavigations++;
-            }
-          }
-          break;
-        case 'step_completed':
-          if (event.step) {
-            session.stepsCompleted.add(event.step);
-            session.stepsVisited.add(event.step);
-          }
-          break;
-        case 'error_occurred':
-          session.errors++;
-          break;
-        case 'checkout_complete':
-        case 'order_confirmed':
-          session.completed = true;
-          break;
-        case 'step_abandoned':
-          session.abandoned = true;
-          break;
-      }
-
-      // Estimate fields filled from metadata
-      const metadata = event.metadata || {};
-      if (metadata.fieldsFilled !== undefined) {
-        session.fieldsFilled = Math.max(session.fieldsFilled, Number(metadata.fieldsFilled) || 0);
-      }
-      if (metadata.totalFields !== undefined) {
-        session.totalFields = Math.max(session.totalFields, Number(metadata.totalFields) || 0);
-      }
-    });
-
     // Calculate friction scores
     const frictionScores: Array<{
       sessionId: string;
@@ -169,26 +72,25 @@ export async function GET(request: NextRequest) {
       conversion: boolean;
     }> = [];
 
-    Object.entries(sessions).forEach(([sessionId, session]) => {
-      const totalDuration = (session.lastActivity.getTime() - session.startTime.getTime()) / 1000;
+    sessions.forEach((session, sessionId) => {
+      const startTime = session.checkoutStartedAt || session.startTime;
+      const totalDuration = (session.lastActivity.getTime() - startTime.getTime()) / 1000;
 
-      // Check if user returned (had multiple checkout starts)
-      const checkoutStarts = events?.filter(
-        (e: AnalyticsEvent) =>
-          e.session_id === sessionId &&
-          (e.event_type === 'checkout_start' || e.event_type === 'checkout_started')
-      ) || [];
-      const hasReturned = checkoutStarts.length > 1;
+      // Viewing a completed step again counts as back navigation
+      const backNavigations = Array.from(session.stepsCompleted).reduce(
+        (sum, step) => sum + Math.max(0, (session.stepViews[step] || 0) - 1),
+        0
+      );
 
       const factors: FrictionFactors = {
         totalDuration,
         errorCount: session.errors,
-        backNavigations: session.backNavigations,
-        fieldsFilled: session.fieldsFilled || session.stepsCompleted.size * 3, // Estimate
-        totalFields: session.totalFields || session.stepsVisited.size * 5, // Estimate
+        backNavigations,
+        fieldsFilled: session.values.fieldsFilled?.max || session.stepsCompleted.size * 3, // Estimate
+        totalFields: session.values.totalFields?.max || session.stepsVisited.size * 5, // Estimate
         stepsCompleted: session.stepsCompleted.size,
         totalSteps: 4, // cart, profile, shipping, payment
-        hasReturned,
+        hasReturned: session.checkoutStarts > 1, // Multiple checkout starts
       };
 
       const score = calculateFrictionScore(factors);
@@ -216,7 +118,8 @@ export async function GET(request: NextRequest) {
     // Calculate friction trend over time (daily averages)
     const dailyFriction: Record<string, number[]> = {};
     frictionScores.forEach((fs) => {
-      const session = sessions[fs.sessionId];
+      const session = sessions.get(fs.sessionId);
+      if (!session) return;
       const date = session.startTime.toISOString().split('T')[0];
       if (!dailyFriction[date]) {
         dailyFriction[date] = [];
@@ -227,7 +130,7 @@ export async function GET(request: NextRequest) {
     const frictionTrend = Object.entries(dailyFriction)
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([date, scores]) => {
-        const completedOnDate = Object.values(sessions).filter(
+        const completedOnDate = Array.from(sessions.values()).filter(
           (s) => s.startTime.toISOString().split('T')[0] === date && s.completed
         ).length;
         return {
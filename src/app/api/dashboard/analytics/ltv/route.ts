@@ -1,41 +1,12 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/ltv
  * Get Customer Lifetime Value (LTV) analytics
@@ -55,8 +26,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-ltv', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -82,88 +51,40 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query completed checkout events
-    const { data: checkoutEvents, error: checkoutError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate orders (completed checkouts with revenue) per customer
+    // Customer = shopper id from metadata, falling back to order_form_id, then session_id
+    const { data: customerRows, error: checkoutError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: range,
+      eventTypes: ['checkout_complete', 'order_confirmed'],
+      dimensions: ['customer'],
+      filters: { hasRevenue: true },
+    });
 
-    if (checkoutError) {
+    if (checkoutError || !customerRows) {
       console.error('Get LTV checkout events error:', checkoutError);
       return apiError('Failed to fetch LTV data', 500);
     }
 
-    // Group by customer_id or order_form_id (fallback)
-    // For better accuracy, prioritize customer_id if available
-    const customerStats: Record<string, {
-      customerId: string | null;
-      orderFormIds: Set<string>;
-      orders: number;
-      revenue: number;
-      firstOrderDate: Date;
-      lastOrderDate: Date;
-    }> = {};
-
-    checkoutEvents?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      if (revenue <= 0) return;
-
-      // Extract customer_id from metadata if available, otherwise use fallback
-      const metadata = event.metadata || {};
-      const customerId = (metadata.customer_id as string) || null;
-      // Use customer_id if available, otherwise use order_form_id as proxy
-      const customerKey = customerId || event.order_form_id || event.session_id;
-
-      if (!customerStats[customerKey]) {
-        customerStats[customerKey] = {
-          customerId,
-          orderFormIds: new Set(),
-          orders: 0,
-          revenue: 0,
-          firstOrderDate: new Date(event.timestamp),
-          lastOrderDate: new Date(event.timestamp),
-        };
-      }
-
-      const stats = customerStats[customerKey];
-      stats.orders++;
-      stats.revenue += revenue;
-
-      if (event.order_form_id) {
-        stats.orderFormIds.add(event.order_form_id);
-      }
-
-      const eventDate = new Date(event.timestamp);
-      if (eventDate < stats.firstOrderDate) {
-        stats.firstOrderDate = eventDate;
-      }
-      if (eventDate > stats.lastOrderDate) {
-        stats.lastOrderDate = eventDate;
-      }
-    });
-
     // Calculate LTV metrics
-    const customerData = Object.values(customerStats).map((stats) => {
+    const customerData = customerRows.map((row) => {
       const daysBetween = Math.max(
         1,
-        (stats.lastOrderDate.getTime() - stats.firstOrderDate.getTime()) / (1000 * 60 * 60 * 24)
+        (row.lastSeen.getTime() - row.firstSeen.getTime()) / (1000 * 60 * 60 * 24)
       );
-      const avgOrderValue = stats.orders > 0 ? stats.revenue / stats.orders : 0;
-      const purchaseFrequency = daysBetween > 0 ? (stats.orders / daysBetween) * 30 : 0; // Orders per month
+      const avgOrderValue = row.orders > 0 ? row.revenue / row.orders : 0;
+      const purchaseFrequency = daysBetween > 0 ? (row.orders / daysBetween) * 30 : 0; // Orders per month
 
       return {
-        customerId: stats.customerId,
-        orders: stats.orders,
-        revenue: stats.revenue,
+        customerId: row.dimensions.customer,
+        orders: row.orders,
+        revenue: row.revenue,
         avgOrderValue,
-        firstOrderDate: stats.firstOrderDate.toISOString(),
-        lastOrderDate: stats.lastOrderDate.toISOString(),
+        firstOrderDate: row.firstSeen.toISOString(),
+        lastOrderDate: row.lastSeen.toISOString(),
         daysBetween: Math.round(daysBetween),
         purchaseFrequency,
-        isRecurring: stats.orders > 1,
+        isRecurring: row.orders > 1,
       };
     });
 
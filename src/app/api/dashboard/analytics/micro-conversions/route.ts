@@ -1,9 +1,8 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics, queryAnalyticsTotals } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 /**
@@ -24,8 +23,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-micro-conversions', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     // Get micro-conversion data from analytics.events
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
@@ -52,100 +49,56 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query all relevant events for micro-conversions
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: [
-          'checkout_start',
-          'cart_view',
-          'profile_step',
-          'profile_data_updated',
-          'shipping_step',
-          'address_validated',
-          'shipping_option_selected',
-          'payment_step',
-          'payment_method_selected',
-          'checkout_complete',
-          'order_confirmed',
-        ],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    const microConversionEventTypes = [
+      'checkout_start',
+      'cart_view',
+      'profile_step',
+      'profile_data_updated',
+      'shipping_step',
+      'address_validated',
+      'shipping_option_selected',
+      'payment_step',
+      'payment_method_selected',
+      'checkout_complete',
+      'order_confirmed',
+    ];
 
-    if (eventsError) {
+    // Distinct sessions overall, per event type and with a completed checkout
+    const [totalsResult, eventTypeResult, completedResult] = await Promise.all([
+      queryAnalyticsTotals({
+        accountId: user.account_id,
+        period: range,
+        eventTypes: microConversionEventTypes,
+      }),
+      queryAnalytics({
+        accountId: user.account_id,
+        period: range,
+        eventTypes: microConversionEventTypes,
+        dimensions: ['eventType'],
+      }),
+      queryAnalyticsTotals({
+        accountId: user.account_id,
+        period: range,
+        eventTypes: ['checkout_complete', 'order_confirmed'],
+      }),
+    ]);
+
+    const eventsError = totalsResult.error || eventTypeResult.error || completedResult.error;
+    if (eventsError || !totalsResult.data || !eventTypeResult.data || !completedResult.data) {
       console.error('Get micro-conversions error:', eventsError);
       return apiError('Failed to fetch micro-conversions data', 500);
     }
 
-    // Group events by session
-    const sessions: Record<string, {
-      cart: boolean;
-      profileViewed: boolean;
-      profileCompleted: boolean;
-      shippingViewed: boolean;
-      addressValidated: boolean;
-      shippingSelected: boolean;
-      paymentViewed: boolean;
-      paymentSelected: boolean;
-      completed: boolean;
-    }> = {};
-
-    // Initialize session tracking
-    events?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      if (!sessions[sessionId]) {
-        sessions[sessionId] = {
-          cart: false,
-          profileViewed: false,
-          profileCompleted: false,
-          shippingViewed: false,
-          addressValidated: false,
-          shippingSelected: false,
-          paymentViewed: false,
-          paymentSelected: false,
-          completed: false,
-        };
-      }
-
-      const session = sessions[sessionId];
-
-      switch (event.event_type) {
-        case 'checkout_start':
-        case 'cart_view':
-          session.cart = true;
-          break;
-        case 'profile_step':
-          session.profileViewed = true;
-          break;
-        case 'profile_data_updated':
-          session.profileCompleted = true;
-          break;
-        case 'shipping_step':
-          session.shippingViewed = true;
-          break;
-        case 'address_validated':
-          session.addressValidated = true;
-          break;
-        case 'shipping_option_selected':
-          session.shippingSelected = true;
-          break;
-        case 'payment_step':
-          session.paymentViewed = true;
-          break;
-        case 'payment_method_selected':
-          session.paymentSelected = true;
-          break;
-        case 'checkout_complete':
-        case 'order_confirmed':
-          session.completed = true;
-          break;
-      }
+    const sessionsByEventType: Record<string, number> = {};
+    eventTypeResult.data.forEach((row) => {
+      sessionsByEventType[row.dimensions.eventType] = row.sessions;
     });
 
+    const reachedSessions = (eventType: string) => sessionsByEventType[eventType] || 0;
+
     // Calculate micro-conversion rates
-    const totalSessions = Object.keys(sessions).length;
-    
+    const totalSessions = totalsResult.data.sessions;
+
     if (totalSessions === 0) {
       return apiSuccess({
         microConversions: [],
@@ -169,65 +122,65 @@ export async function GET(request: NextRequest) {
       {
         step: 'profile_viewed',
         label: 'Profile Viewed',
-        reached: Object.values(sessions).filter(s => s.profileViewed).length,
-        completed: Object.values(sessions).filter(s => s.profileViewed).length,
-        conversionRate: (Object.values(sessions).filter(s => s.profileViewed).length / totalSessions) * 100,
+        reached: reachedSessions('profile_step'),
+        completed: reachedSessions('profile_step'),
+        conversionRate: (reachedSessions('profile_step') / totalSessions) * 100,
         description: 'Users who viewed profile step',
       },
       {
         step: 'profile_completed',
         label: 'Profile Completed',
-        reached: Object.values(sessions).filter(s => s.profileCompleted).length,
-        completed: Object.values(sessions).filter(s => s.profileCompleted).length,
-        conversionRate: (Object.values(sessions).filter(s => s.profileCompleted).length / totalSessions) * 100,
+        reached: reachedSessions('profile_data_updated'),
+        completed: reachedSessions('profile_data_updated'),
+        conversionRate: (reachedSessions('profile_data_updated') / totalSessions) * 100,
         description: 'Users who completed profile information',
       },
       {
         step: 'shipping_viewed',
         label: 'Shipping Viewed',
-        reached: Object.values(sessions).filter(s => s.shippingViewed).length,
-        completed: Object.values(sessions).filter(s => s.shippingViewed).length,
-        conversionRate: (Object.values(sessions).filter(s => s.shippingViewed).length / totalSessions) * 100,
+        reached: reachedSessions('shipping_step'),
+        completed: reachedSessions('shipping_step'),
+        conversionRate: (reachedSessions('shipping_step') / totalSessions) * 100,
         description: 'Users who viewed shipping step',
       },
       {
         step: 'address_validated',
         label: 'Address Validated',
-        reached: Object.values(sessions).filter(s => s.addressValidated).length,
-        completed: Object.values(sessions).filter(s => s.addressValidated).length,
-        conversionRate: (Object.values(sessions).filter(s => s.addressValidated).length / totalSessions) * 100,
+        reached: reachedSessions('address_validated'),
+        completed: reachedSessions('address_validated'),
+        conversionRate: (reachedSessions('address_validated') / totalSessions) * 100,
         description: 'Users who validated their address',
       },
       {
         step: 'shipping_selected',
         label: 'Shipping Selected',
-        reached: Object.values(sessions).filter(s => s.shippingSelected).length,
-        completed: Object.values(sessions).filter(s => s.shippingSelected).length,
-        conversionRate: (Object.values(sessions).filter(s => s.shippingSelected).length / totalSessions) * 100,
+        reached: reachedSessions('shipping_option_selected'),
+        completed: reachedSessions('shipping_option_selected'),
+        conversionRate: (reachedSessions('shipping_option_selected') / totalSessions) * 100,
         description: 'Users who selected shipping option',
       },
       {
         step: 'payment_viewed',
         label: 'Payment Viewed',
-        reached: Object.values(sessions).filter(s => s.paymentViewed).length,
-        completed: Object.values(sessions).filter(s => s.paymentViewed).length,
-        conversionRate: (Object.values(sessions).filter(s => s.paymentViewed).length / totalSessions) * 100,
+        reached: reachedSessions('payment_step'),
+        completed: reachedSessions('payment_step'),
+        conversionRate: (reachedSessions('payment_step') / totalSessions) * 100,
         description: 'Users who viewed payment step',
       },
       {
         step: 'payment_selected',
         label: 'Payment Selected',
-        reached: Object.values(sessions).filter(s => s.paymentSelected).length,
-        completed: Object.values(sessions).filter(s => s.paymentSelected).length,
-        conversionRate: (Object.values(sessions).filter(s => s.paymentSelected).length / totalSessions) * 100,
+        reached: reachedSessions('payment_method_selected'),
+        completed: reachedSessions('payment_method_selected'),
+        conversionRate: (reachedSessions('payment_method_selected') / totalSessions) * 100,
         description: 'Users who selected payment method',
       },
       {
         step: 'completed',
         label: 'Order Completed',
-        reached: Object.values(sessions).filter(s => s.completed).length,
-        completed: Object.values(sessions).filter(s => s.completed).length,
-        conversionRate: (Object.values(sessions).filter(s => s.completed).length / totalSessions) * 100,
+        reached: completedResult.data.sessions,
+        completed: completedResult.data.sessions,
+        conversionRate: (completedResult.data.sessions / totalSessions) * 100,
         description: 'Users who completed checkout',
       },
     ];
@@ -1,48 +1,19 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
-import { getDateRange, parsePeriod } from '@/utils/date-ranges';
+import { getDateRange, parsePeriod, type DateRange } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalyticsTotals } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/optimization-roi
  * Get optimization ROI analytics
  * 
- * Note: This is a simplified implementation that compares metrics before/after
- * a given date. In production, you would track feature flags or A/B test variants
- * in the events metadata.
+ * Note: This compares metrics before/after a given date, so it cannot separate a
+ * change from seasonality. Use checkout experiments (/api/dashboard/experiments)
+ * to compare variants on randomly assigned sessions.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -56,8 +27,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-optimization-roi', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
     const optimizationDate = searchParams.get('optimizationDate'); // ISO date string
@@ -127,98 +96,30 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    // Query events for both periods
-    const [beforeEvents, afterEvents] = await Promise.all([
-      supabaseAdmin.rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_start', 'checkout_complete', 'order_confirmed'],
-        p_start_date: beforeRange.start.toISOString(),
-        p_end_date: beforeRange.end.toISOString(),
-      }),
-      supabaseAdmin.rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_start', 'checkout_complete', 'order_confirmed'],
-        p_start_date: afterRange.start.toISOString(),
-        p_end_date: afterRange.end.toISOString(),
-      }),
+    // Aggregate checkout metrics for both periods
+    const [before, after] = await Promise.all([
+      getPeriodMetrics(user.account_id, beforeRange),
+      getPeriodMetrics(user.account_id, afterRange),
     ]);
 
-    if (beforeEvents.error || afterEvents.error) {
-      console.error('❌ [DEBUG] Get optimization ROI events error:', beforeEvents.error || afterEvents.error);
+    if (before.error || after.error || !before.data || !after.data) {
+      console.error('❌ [DEBUG] Get optimization ROI events error:', before.error || after.error);
       return apiError('Failed to fetch optimization ROI data', 500);
     }
 
-    console.info('✅ [DEBUG] Optimization ROI - Events found:', {
-      beforeEvents: beforeEvents.data?.length || 0,
-      afterEvents: afterEvents.data?.length || 0,
-    });
-
-    // Calculate metrics for before period
-    const beforeStarts = new Set<string>();
-    const beforeCompletes = new Set<string>();
-    let beforeRevenue = 0;
-    let beforeOrders = 0;
-    let beforeEventsWithRevenue = 0;
-
-    beforeEvents.data?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      if (event.event_type === 'checkout_start') {
-        beforeStarts.add(sessionId);
-      } else if (event.event_type === 'checkout_complete' || event.event_type === 'order_confirmed') {
-        beforeCompletes.add(sessionId);
-        const revenue = extractRevenue(event);
-        if (revenue > 0) {
-          beforeRevenue += revenue;
-          beforeOrders++;
-          beforeEventsWithRevenue++;
-        }
-      }
-    });
-
-    // Calculate metrics for after period
-    const afterStarts = new Set<string>();
-    const afterCompletes = new Set<string>();
-    let afterRevenue = 0;
-    let afterOrders = 0;
-    let afterEventsWithRevenue = 0;
-
-    afterEvents.data?.forEach((event: AnalyticsEvent) => {
-      const sessionId = event.session_id;
-      if (event.event_type === 'checkout_start') {
-        afterStarts.add(sessionId);
-      } else if (event.event_type === 'checkout_complete' || event.event_type === 'order_confirmed') {
-        afterCompletes.add(sessionId);
-        const revenue = extractRevenue(event);
-        if (revenue > 0) {
-          afterRevenue += revenue;
-          afterOrders++;
-          afterEventsWithRevenue++;
-        }
-      }
-    });
-
     console.info('✅ [DEBUG] Optimization ROI - Metrics calculated:', {
-      before: {
-        sessions: beforeStarts.size,
-        conversions: beforeCompletes.size,
-        revenue: beforeRevenue,
-        orders: beforeOrders,
-        eventsWithRevenue: beforeEventsWithRevenue,
-      },
-      after: {
-        sessions: afterStarts.size,
-        conversions: afterCompletes.size,
-        revenue: afterRevenue,
-        orders: afterOrders,
-        eventsWithRevenue: afterEventsWithRevenue,
-      },
+      before: before.data,
+      after: after.data,
     });
 
+    const { revenue: beforeRevenue, orders: beforeOrders } = before.data;
+    const { revenue: afterRevenue, orders: afterOrders } = after.data;
+
     // Calculate metrics
-    const beforeSessions = beforeStarts.size;
-    const afterSessions = afterStarts.size;
-    const beforeConversions = beforeCompletes.size;
-    const afterConversions = afterCompletes.size;
+    const beforeSessions = before.data.sessions;
+    const afterSessions = after.data.sessions;
+    const beforeConversions = before.data.conversions;
+    const afterConversions = after.data.conversions;
     const beforeConversionRate = beforeSessions > 0 ? (beforeConversions / beforeSessions) * 100 : 0;
     const afterConversionRate = afterSessions > 0 ? (afterConversions / afterSessions) * 100 : 0;
     const beforeAOV = beforeOrders > 0 ? beforeRevenue / beforeOrders : 0;
@@ -315,3 +216,35 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Checkout metrics for a period
+ * - sessions: sessions that started checkout
+ * - conversions: sessions with a completed checkout
+ * - revenue / orders: completed checkouts with revenue
+ */
+async function getPeriodMetrics(
+  accountId: string,
+  period: DateRange
+): Promise<{
+  data: { sessions: number; conversions: number; revenue: number; orders: number } | null;
+  error: Error | null;
+}> {
+  const [starts, completes] = await Promise.all([
+    queryAnalyticsTotals({ accountId, period, eventTypes: ['checkout_start'] }),
+    queryAnalyticsTotals({ accountId, period, eventTypes: ['checkout_complete', 'order_confirmed'] }),
+  ]);
+
+  if (starts.error || completes.error || !starts.data || !completes.data) {
+    return { data: null, error: starts.error || completes.error };
+  }
+
+  return {
+    data: {
+      sessions: starts.data.sessions,
+      conversions: completes.data.sessions,
+      revenue: completes.data.revenue,
+      orders: completes.data.orders,
+    },
+    error: null,
+  };
+}
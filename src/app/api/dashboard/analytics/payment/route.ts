@@ -1,47 +1,13 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { shouldUseDemoData } from '@/lib/automation/demo-mode';
 import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- * Tries different field names and validates the value
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-
-  // Try different revenue field names
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  // Convert to number
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  // Validate and return
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/payment
  * Get payment method analytics for the authenticated user's account
@@ -62,8 +28,6 @@ export async function GET(request: NextRequest) {
       return apiSuccess(mockData);
     }
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     // Get payment method data from analytics.events
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
@@ -90,16 +54,15 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query payment-related events using RPC function (required for custom schema)
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['payment_method_selected', 'payment_completed', 'payment_failed'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate payment events by method and event type
+    const { data: rows, error: eventsError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: range,
+      eventTypes: ['payment_method_selected', 'payment_completed', 'payment_failed'],
+      dimensions: ['paymentMethod', 'eventType'],
+    });
 
-    if (eventsError) {
+    if (eventsError || !rows) {
       console.error('Get payment analytics error:', eventsError);
       return apiError('Failed to fetch payment analytics', 500);
     }
@@ -113,8 +76,8 @@ export async function GET(request: NextRequest) {
       failedCount: number;
     }> = {};
 
-    events?.forEach((event: AnalyticsEvent) => {
-      const method = event.metadata?.paymentMethod as string || 'Unknown';
+    rows.forEach((row) => {
+      const method = row.dimensions.paymentMethod;
       if (!paymentMethods[method]) {
         paymentMethods[method] = {
           name: method,
@@ -125,17 +88,13 @@ export async function GET(request: NextRequest) {
         };
       }
 
-      paymentMethods[method].count++;
+      paymentMethods[method].count += row.events;
 
-      if (event.event_type === 'payment_completed') {
-        paymentMethods[method].successCount++;
-        // Use extractRevenue function to get revenue with multiple fallbacks
-        const revenue = extractRevenue(event);
-        if (revenue > 0) {
-          paymentMethods[method].revenue += revenue;
-        }
-      } else if (event.event_type === 'payment_failed') {
-        paymentMethods[method].failedCount++;
+      if (row.dimensions.eventType === 'payment_completed') {
+        paymentMethods[method].successCount += row.events;
+        paymentMethods[method].revenue += row.revenue;
+      } else if (row.dimensions.eventType === 'payment_failed') {
+        paymentMethods[method].failedCount += row.events;
       }
     });
 
@@ -1,41 +1,12 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/retention
  * Get customer retention and churn analytics
@@ -52,8 +23,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-retention', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -91,91 +60,70 @@ export async function GET(request: NextRequest) {
       extendedStart: extendedStart.toISOString(),
     });
 
-    // Query all completed checkout events
-    const { data: checkoutEvents, error: checkoutError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: extendedStart.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate orders (completed checkouts with revenue) per customer and day
+    const { data: customerDayRows, error: checkoutError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: { start: extendedStart, end: range.end },
+      eventTypes: ['checkout_complete', 'order_confirmed'],
+      dimensions: ['customer', 'day'],
+      filters: { hasRevenue: true },
+    });
 
-    if (checkoutError) {
+    if (checkoutError || !customerDayRows) {
       console.error('❌ [DEBUG] Get retention checkout events error:', checkoutError);
       return apiError('Failed to fetch retention data', 500);
     }
 
-    console.info('✅ [DEBUG] Retention - Events found:', checkoutEvents?.length || 0);
+    console.info('✅ [DEBUG] Retention - Customer days found:', customerDayRows.length);
 
-    // Group orders by customer (using customer_id or order_form_id as fallback)
+    // Group orders by customer
+    // Each day contributes its first order, plus its last order when there were several
     const customerOrders: Record<string, {
-      customerId: string | null;
+      customerKey: string;
+      orderCount: number;
       orders: Array<{
         date: Date;
         revenue: number;
-        orderFormId: string | null;
       }>;
       firstOrderDate: Date;
       lastOrderDate: Date;
     }> = {};
 
-    let eventsWithRevenue = 0;
-    let eventsWithoutRevenue = 0;
+    const nowDate = new Date();
 
-    checkoutEvents?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      if (revenue <= 0) {
-        eventsWithoutRevenue++;
-        return;
-      }
-
-      eventsWithRevenue++;
-
-      // Extract customer_id from metadata if available, otherwise use fallback
-      const metadata = event.metadata || {};
-      const customerId = (metadata.customer_id as string) || null;
-      const customerKey = customerId || event.order_form_id || event.session_id || 'unknown';
-      const orderDate = new Date(event.timestamp);
-
-      // Validate date is not in the future
-      const now = new Date();
-      if (orderDate > now) {
-        console.warn('‼️ [DEBUG] Retention - Future date detected:', {
-          orderDate: orderDate.toISOString(),
-          customerKey,
-        });
-        // Use current date instead of future date
-        orderDate.setTime(now.getTime());
-      }
+    customerDayRows.forEach((row) => {
+      const customerKey = row.dimensions.customer;
+      // Never use future dates (clock skew on the checkout side)
+      const firstSeen = row.firstSeen > nowDate ? nowDate : row.firstSeen;
+      const lastSeen = row.lastSeen > nowDate ? nowDate : row.lastSeen;
+      const avgRevenue = row.orders > 0 ? row.revenue / row.orders : 0;
 
       if (!customerOrders[customerKey]) {
         customerOrders[customerKey] = {
-          customerId,
+          customerKey,
+          orderCount: 0,
           orders: [],
-          firstOrderDate: orderDate,
-          lastOrderDate: orderDate,
+          firstOrderDate: firstSeen,
+          lastOrderDate: lastSeen,
         };
       }
 
       const customer = customerOrders[customerKey];
-      customer.orders.push({
-        date: orderDate,
-        revenue,
-        orderFormId: event.order_form_id,
-      });
-
-      if (orderDate < customer.firstOrderDate) {
-        customer.firstOrderDate = orderDate;
+      customer.orderCount += row.orders;
+      customer.orders.push({ date: firstSeen, revenue: avgRevenue });
+      if (row.orders > 1) {
+        customer.orders.push({ date: lastSeen, revenue: avgRevenue });
+      }
+
+      if (firstSeen < customer.firstOrderDate) {
+        customer.firstOrderDate = firstSeen;
       }
-      if (orderDate > customer.lastOrderDate) {
-        customer.lastOrderDate = orderDate;
+      if (lastSeen > customer.lastOrderDate) {
+        customer.lastOrderDate = lastSeen;
       }
     });
 
-    console.info('✅ [DEBUG] Retention - Event processing:', {
-      totalEvents: checkoutEvents?.length || 0,
-      eventsWithRevenue,
-      eventsWithoutRevenue,
+    console.info('✅ [DEBUG] Retention - Customer grouping:', {
       uniqueCustomers: Object.keys(customerOrders).length,
     });
 
@@ -186,14 +134,14 @@ export async function GET(request: NextRequest) {
     // Categorize customers
     const newCustomers = customers.filter(c => {
       const daysSinceFirstOrder = (now.getTime() - c.firstOrderDate.getTime()) / (1000 * 60 * 60 * 24);
-      return daysSinceFirstOrder <= 30 && c.orders.length === 1;
+      return daysSinceFirstOrder <= 30 && c.orderCount === 1;
     });
 
-    const returningCustomers = customers.filter(c => c.orders.length > 1);
+    const returningCustomers = customers.filter(c => c.orderCount > 1);
 
     const churnedCustomers = customers.filter(c => {
       const daysSinceLastOrder = (now.getTime() - c.lastOrderDate.getTime()) / (1000 * 60 * 60 * 24);
-      return daysSinceLastOrder > 60 && c.orders.length > 0; // No order in 60+ days
+      return daysSinceLastOrder > 60 && c.orderCount > 0; // No order in 60+ days
     });
 
     // Calculate retention rates by period
@@ -206,7 +154,7 @@ export async function GET(request: NextRequest) {
 
     // Calculate average purchase frequency
     const avgPurchaseFrequency = customers.length > 0
-      ? customers.reduce((sum, c) => sum + c.orders.length, 0) / customers.length
+      ? customers.reduce((sum, c) => sum + c.orderCount, 0) / customers.length
       : 0;
 
     // Calculate average days between purchases for returning customers
@@ -271,7 +219,7 @@ export async function GET(request: NextRequest) {
       if (firstOrderDate > now) {
         console.warn('‼️ [DEBUG] Retention - Future first order date detected:', {
           firstOrderDate: firstOrderDate.toISOString(),
-          customerKey: customer.customerId || 'unknown',
+          customerKey: customer.customerKey,
         });
         // Use current date instead
         firstOrderDate.setTime(now.getTime());
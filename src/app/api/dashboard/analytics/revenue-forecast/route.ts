@@ -1,42 +1,13 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { generateForecast, type ForecastDataPoint, type ForecastResult } from '@/utils/dashboard/forecast-model';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/revenue-forecast
  * Get revenue forecast analytics
@@ -53,8 +24,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-revenue-forecast', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
     const forecastDays = parseInt(searchParams.get('days') || '30');
@@ -83,58 +52,32 @@ export async function GET(request: NextRequest) {
     const historicalStart = new Date(range.start);
     historicalStart.setDate(historicalStart.getDate() - 90); // Look back 90 days
 
-    // Query completed checkout events
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: historicalStart.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate daily revenue from completed checkouts
+    const { data: dailyRows, error: eventsError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: { start: historicalStart, end: range.end },
+      eventTypes: ['checkout_complete', 'order_confirmed'],
+      dimensions: ['day'],
+      filters: { hasRevenue: true },
+    });
 
-    if (eventsError) {
+    if (eventsError || !dailyRows) {
       console.error('❌ [DEBUG] Get revenue forecast events error:', eventsError);
       return apiError('Failed to fetch revenue forecast data', 500);
     }
 
-    // Add debug logging
-    console.info('✅ [DEBUG] Revenue forecast - Events found:', events?.length || 0);
     console.info('✅ [DEBUG] Revenue forecast - Date range:', {
       start: historicalStart.toISOString(),
       end: range.end.toISOString(),
     });
 
-    // Aggregate revenue by date
-    const dailyRevenue: Record<string, number> = {};
-    let totalRevenueExtracted = 0;
-    let eventsWithRevenue = 0;
-
-    events?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      if (revenue <= 0) return;
-
-      eventsWithRevenue++;
-      totalRevenueExtracted += revenue;
-
-      const date = new Date(event.timestamp).toISOString().split('T')[0];
-      dailyRevenue[date] = (dailyRevenue[date] || 0) + revenue;
-    });
-
-    // Add debug logging
-    console.info('✅ [DEBUG] Revenue forecast - Revenue extraction:', {
-      totalEvents: events?.length || 0,
-      eventsWithRevenue,
-      totalRevenueExtracted,
-      uniqueDays: Object.keys(dailyRevenue).length,
-    });
-
-    // Convert to array and sort by date
-    const historicalData: ForecastDataPoint[] = Object.entries(dailyRevenue)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([date, revenue]) => ({
-        date,
-        revenue,
-      }));
+    // Sort by date
+    const historicalData: ForecastDataPoint[] = dailyRows
+      .map((row) => ({
+        date: row.dimensions.day,
+        revenue: row.revenue,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
 
     console.info('✅ [DEBUG] Revenue forecast - Historical data points:', historicalData.length);
 
@@ -1,41 +1,12 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { checkDemoModeAndReturnMockSuccess } from '@/lib/api/demo-mode-check';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/analytics/segments
  * Get behavioral customer segmentation analytics
@@ -52,8 +23,6 @@ export async function GET(request: NextRequest) {
     const mockResponse = await checkDemoModeAndReturnMockSuccess('analytics-segments', user.account_id, request);
     if (mockResponse) return mockResponse;
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
 
@@ -79,75 +48,31 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query all checkout events
-    const { data: checkoutEvents, error: checkoutError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete', 'order_confirmed'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate orders (completed checkouts with revenue) per customer
+    const { data: customerRows, error: checkoutError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: range,
+      eventTypes: ['checkout_complete', 'order_confirmed'],
+      dimensions: ['customer'],
+      filters: { hasRevenue: true },
+    });
 
-    if (checkoutError) {
+    if (checkoutError || !customerRows) {
       console.error('Get segments checkout events error:', checkoutError);
       return apiError('Failed to fetch segments data', 500);
     }
 
-    // Group by customer and calculate metrics
-    const customerMetrics: Record<string, {
-      customerId: string | null;
-      customerKey: string;
-      orders: number;
-      totalRevenue: number;
-      firstOrderDate: Date;
-      lastOrderDate: Date;
-      avgOrderValue: number;
-      daysSinceLastOrder: number;
-    }> = {};
-
-    checkoutEvents?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      if (revenue <= 0) return;
-
-      // Extract customer_id from metadata if available, otherwise use fallback
-      const metadata = event.metadata || {};
-      const customerId = (metadata.customer_id as string) || null;
-      const customerKey = customerId || event.order_form_id || event.session_id;
-      const orderDate = new Date(event.timestamp);
-
-      if (!customerMetrics[customerKey]) {
-        customerMetrics[customerKey] = {
-          customerId,
-          customerKey,
-          orders: 0,
-          totalRevenue: 0,
-          firstOrderDate: orderDate,
-          lastOrderDate: orderDate,
-          avgOrderValue: 0,
-          daysSinceLastOrder: 0,
-        };
-      }
-
-      const customer = customerMetrics[customerKey];
-      customer.orders++;
-      customer.totalRevenue += revenue;
-
-      if (orderDate < customer.firstOrderDate) {
-        customer.firstOrderDate = orderDate;
-      }
-      if (orderDate > customer.lastOrderDate) {
-        customer.lastOrderDate = orderDate;
-      }
-    });
-
     // Calculate metrics for segmentation
-    const customers = Object.values(customerMetrics);
-    customers.forEach((customer) => {
-      customer.avgOrderValue = customer.orders > 0 ? customer.totalRevenue / customer.orders : 0;
-      customer.daysSinceLastOrder = Math.floor(
-        (new Date().getTime() - customer.lastOrderDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
-    });
+    const now = Date.now();
+    const customers = customerRows.map((row) => ({
+      customerKey: row.dimensions.customer,
+      orders: row.orders,
+      totalRevenue: row.revenue,
+      firstOrderDate: row.firstSeen,
+      lastOrderDate: row.lastSeen,
+      avgOrderValue: row.orders > 0 ? row.revenue / row.orders : 0,
+      daysSinceLastOrder: Math.floor((now - row.lastSeen.getTime()) / (1000 * 60 * 60 * 24)),
+    }));
 
     // Calculate averages and standard deviations for segmentation
     const avgAOV = customers.length > 0
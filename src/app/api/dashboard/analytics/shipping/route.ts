@@ -1,9 +1,8 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics } from '@/lib/analytics/aggregation';
 import { shouldUseDemoData } from '@/lib/automation/demo-mode';
 import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
 
@@ -29,8 +28,6 @@ export async function GET(request: NextRequest) {
       return apiSuccess(mockData);
     }
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     // Get shipping method data from analytics.events
     const { searchParams } = new URL(request.url);
     const period = parsePeriod(searchParams.get('period'));
@@ -57,21 +54,21 @@ export async function GET(request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query shipping-related events using RPC function (required for custom schema)
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['shipping_option_selected'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate shipping selections by method
+    const { data: rows, error: eventsError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: range,
+      eventTypes: ['shipping_option_selected'],
+      dimensions: ['shippingMethod'],
+      valueFields: ['shippingCost', 'deliveryDays'],
+    });
 
-    if (eventsError) {
+    if (eventsError || !rows) {
       console.error('❌ [DEBUG] Get shipping analytics error:', eventsError);
       return apiError('Failed to fetch shipping analytics', 500);
     }
 
-    // Debug logging to verify events are being returned
+    // Debug logging to verify events are being aggregated
     if (process.env.NODE_ENV === 'development') {
       console.info('✅ [DEBUG] Shipping analytics query:', {
         customerId: user.account_id,
@@ -80,44 +77,16 @@ export async function GET(request: NextRequest) {
           start: range.start.toISOString(),
           end: range.end.toISOString(),
         },
-        eventsFound: events?.length || 0,
+        methodsFound: rows.length,
       });
     }
 
-    // Aggregate shipping methods
-    const shippingMethods: Record<string, {
-      method: string;
-      count: number;
-      totalCost: number;
-      avgDays: number;
-    }> = {};
-
-    events?.forEach((event: AnalyticsEvent) => {
-      const method = event.metadata?.shippingMethod as string || 'Unknown';
-      if (!shippingMethods[method]) {
-        shippingMethods[method] = {
-          method,
-          count: 0,
-          totalCost: 0,
-          avgDays: 0,
-        };
-      }
-
-      shippingMethods[method].count++;
-      if (event.metadata?.shippingCost) {
-        shippingMethods[method].totalCost += parseFloat(String(event.metadata.shippingCost));
-      }
-      if (event.metadata?.deliveryDays) {
-        shippingMethods[method].avgDays += parseInt(String(event.metadata.deliveryDays as string));
-      }
-    });
-
-    // Convert to array and calculate averages
-    const shippingData = Object.values(shippingMethods).map((method) => ({
-      method: method.method,
-      count: method.count,
-      avgDays: method.count > 0 ? method.avgDays / method.count : 0,
-      avgCost: method.count > 0 ? method.totalCost / method.count : 0,
+    // Calculate averages
+    const shippingData = rows.map((row) => ({
+      method: row.dimensions.shippingMethod,
+      count: row.events,
+      avgDays: row.events > 0 ? row.values.deliveryDays.sum / row.events : 0,
+      avgCost: row.events > 0 ? row.values.shippingCost.sum / row.events : 0,
     }));
 
     const totalShipments = shippingData.reduce((sum, item) => sum + item.count, 0);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiValidationError, apiInternalError } from '@/lib/api/responses';
+import {
+  AUDIT_EXPORT_LIMIT,
+  AuditLogFiltersSchema,
+  getAuditLogs,
+  toAuditCsv,
+} from '@/lib/audit/audit-log';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/audit-logs/export
+ * Download the audit log as CSV with the same filters as the list (requires settings read)
+ * Exports at most AUDIT_EXPORT_LIMIT entries, newest first
+ */
+export const GET = withPermission('settings', 'read', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const filters = AuditLogFiltersSchema.omit({ limit: true, offset: true }).safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!filters.success) {
+      return apiValidationError(filters.error);
+    }
+
+    const { entries, error } = await getAuditLogs(user.account_id, {
+      ...filters.data,
+      limit: AUDIT_EXPORT_LIMIT,
+      offset: 0,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error exporting audit log:', error);
+      return apiError('Failed to export audit log', 500);
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(toAuditCsv(entries), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-log-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
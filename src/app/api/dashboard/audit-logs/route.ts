@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiValidationError, apiInternalError } from '@/lib/api/responses';
+import { AuditLogFiltersSchema, getAuditLogs, getAuditRetentionDays } from '@/lib/audit/audit-log';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/audit-logs
+ * Audit log of the account, newest first (requires settings read)
+ * Query: action, resourceType, actorId, from, to (ISO dates), limit, offset
+ */
+export const GET = withPermission('settings', 'read', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const filters = AuditLogFiltersSchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!filters.success) {
+      return apiValidationError(filters.error);
+    }
+
+    const { entries, total, error } = await getAuditLogs(user.account_id, filters.data);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching audit log:', error);
+      return apiError('Failed to fetch audit log', 500);
+    }
+
+    const { data: accounts } = await getSupabaseAdmin().rpc('get_account_by_id', {
+      p_account_id: user.account_id,
+    });
+    const planType = accounts && accounts.length > 0 ? accounts[0].plan_type : null;
+
+    return apiSuccess({
+      entries,
+      total,
+      limit: filters.data.limit,
+      offset: filters.data.offset,
+      retentionDays: getAuditRetentionDays(planType),
+    });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
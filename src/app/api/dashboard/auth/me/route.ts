@@ -3,6 +3,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
 import { isAuthBypassEnabled, getMockUser } from '@/utils/auth/dev-bypass';
 import { getAuthenticatedUserOrNull } from '@/lib/api/auth';
+import { getAccountRoles, type AccountRole } from '@/lib/rbac/roles';
 import { apiSuccess, apiUnauthorized, apiInternalError } from '@/lib/api/responses';
 import { getSessionDurationHours, getSessionDurationSeconds } from '@/utils/auth/session-config';
 
@@ -75,6 +76,19 @@ export async function GET(_: NextRequest) {
       }
     }
 
+    // Custom role whose grants are added to the built-in role
+    let customRole: Pick<AccountRole, 'id' | 'name' | 'permissions'> | null = null;
+    if (user.account_id && user.custom_role_id) {
+      const { roles, error: rolesError } = await getAccountRoles(user.account_id);
+      const role = roles.find((r) => r.id === user.custom_role_id);
+
+      if (role) {
+        customRole = { id: role.id, name: role.name, permissions: role.permissions };
+      } else if (rolesError) {
+        console.warn('⚠️ [DEBUG] Could not fetch custom role:', rolesError);
+      }
+    }
+
     // Note: RPC function get_user_by_id doesn't include phone, company, job_title
     // These fields were added later. We need to use SQL or update the function.
     // For now, returning available fields from RPC function
@@ -94,6 +108,7 @@ export async function GET(_: NextRequest) {
         lastLogin: user.last_login || null,
         accountId: user.account_id,
         vtexAccountName: vtexAccountName,
+        customRole,
       },
     });
   } catch (error) {
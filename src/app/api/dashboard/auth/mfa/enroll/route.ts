@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { MfaError, getVerifiedFactors, startTotpEnrollment } from '@/lib/mfa/factors';
+import { MFA_ERROR_STATUS, getMfaLogin } from '@/lib/mfa/login';
+
+/**
+ * POST /api/dashboard/auth/mfa/enroll
+ * Start the authenticator app enrollment of a pending login whose role
+ * requires a second factor. Returns the secret and otpauth:// URI (QR code).
+ */
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const login = await getMfaLogin(request);
+
+    if (getVerifiedFactors(login.factors).length > 0) {
+      return apiError('A second factor is already set up', 409);
+    }
+
+    const { factorId, secret, otpauthUrl, error } = await startTotpEnrollment(login.user);
+
+    if (error || !factorId) {
+      console.error('❌ [DEBUG] Error starting TOTP enrollment:', error);
+      return apiError('Failed to start enrollment', 500);
+    }
+
+    return apiSuccess({ factorId, secret, otpauthUrl });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return apiError(error.message, MFA_ERROR_STATUS[error.code]);
+    }
+    return apiInternalError(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiValidationError } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import {
+  ConfirmTotpSchema,
+  MfaError,
+  redeemTotpCode,
+  replaceRecoveryCodes,
+} from '@/lib/mfa/factors';
+import {
+  MFA_ERROR_STATUS,
+  completeMfaLogin,
+  getMfaLogin,
+  recordFailedMfaAttempt,
+} from '@/lib/mfa/login';
+
+/**
+ * POST /api/dashboard/auth/mfa/enroll/verify
+ * Confirm the authenticator app of a pending login with its first code;
+ * returns the recovery codes and starts the session
+ */
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = ConfirmTotpSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return apiValidationError(parsed.error);
+    }
+
+    const login = await getMfaLogin(request);
+    const factor = login.factors.find(
+      (candidate) =>
+        candidate.id === parsed.data.factorId && candidate.type === 'totp' && !candidate.verified_at
+    );
+
+    if (!factor) {
+      return apiError('Enrollment not found. Please start again.', 404);
+    }
+
+    if (!(await redeemTotpCode(login.user, factor, parsed.data.code))) {
+      await recordFailedMfaAttempt(login);
+      return apiError('Invalid code. Please try again.', 401);
+    }
+
+    const { codes, error } = await replaceRecoveryCodes(login.user.id);
+    if (error) {
+      console.error('❌ [DEBUG] Error creating recovery codes:', error);
+    }
+
+    await recordAuditEvent(request, login.user, {
+      action: 'mfa.enroll',
+      resourceType: 'mfa_factor',
+      resourceId: factor.id,
+      after: { type: factor.type, name: factor.name },
+    });
+
+    return completeMfaLogin(request, login, { recoveryCodes: codes });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return apiError(error.message, MFA_ERROR_STATUS[error.code]);
+    }
+    return apiInternalError(error);
+  }
+}
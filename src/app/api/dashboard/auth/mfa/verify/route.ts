@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { apiError, apiInternalError, apiValidationError } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import {
+  MfaCodeSchema,
+  MfaError,
+  consumeRecoveryCode,
+  getVerifiedFactors,
+  redeemTotpCode,
+} from '@/lib/mfa/factors';
+import {
+  MFA_ERROR_STATUS,
+  completeMfaLogin,
+  getMfaLogin,
+  recordFailedMfaAttempt,
+} from '@/lib/mfa/login';
+import { WebAuthnAuthenticationSchema, verifyCredential } from '@/lib/mfa/webauthn';
+
+const verifyMfaSchema = z.discriminatedUnion('method', [
+  z.object({ method: z.literal('totp'), code: MfaCodeSchema }),
+  z.object({ method: z.literal('recovery'), code: z.string().trim().min(10).max(20) }),
+  z.object({ method: z.literal('webauthn'), response: WebAuthnAuthenticationSchema }),
+]);
+
+/**
+ * POST /api/dashboard/auth/mfa/verify
+ * Second factor of a pending login (dashboard_mfa cookie): authenticator app
+ * code, security key assertion or recovery code. Starts the session.
+ */
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = verifyMfaSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return apiValidationError(parsed.error);
+    }
+
+    const body = parsed.data;
+    const login = await getMfaLogin(request);
+    const factors = getVerifiedFactors(login.factors);
+    let verified = false;
+
+    if (body.method === 'totp') {
+      for (const factor of factors.filter((candidate) => candidate.type === 'totp')) {
+        if (await redeemTotpCode(login.user, factor, body.code)) {
+          verified = true;
+          break;
+        }
+      }
+    } else if (body.method === 'webauthn') {
+      verified =
+        !!login.webauthnChallenge &&
+        (await verifyCredential(
+          request,
+          login.user,
+          factors,
+          login.webauthnChallenge,
+          body.response
+        ));
+    } else if (factors.length > 0) {
+      verified = await consumeRecoveryCode(login.user.id, body.code);
+
+      if (verified) {
+        await recordAuditEvent(request, login.user, {
+          action: 'mfa.recovery_code.use',
+          resourceType: 'user',
+          resourceId: login.user.id,
+        });
+      }
+    }
+
+    if (!verified) {
+      await recordFailedMfaAttempt(login);
+      return apiError(
+        body.method === 'webauthn'
+          ? 'Security key not recognized'
+          : 'Invalid code. Please try again.',
+        401
+      );
+    }
+
+    return completeMfaLogin(request, login);
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return apiError(error.message, MFA_ERROR_STATUS[error.code]);
+    }
+    return apiInternalError(error);
+  }
+}
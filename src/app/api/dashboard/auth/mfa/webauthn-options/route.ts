@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { MfaError } from '@/lib/mfa/factors';
+import { MFA_ERROR_STATUS, getMfaLogin } from '@/lib/mfa/login';
+import { createAuthenticationOptions } from '@/lib/mfa/webauthn';
+
+/**
+ * POST /api/dashboard/auth/mfa/webauthn-options
+ * WebAuthn assertion options for the security keys of a pending login
+ */
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const login = await getMfaLogin(request);
+    const options = await createAuthenticationOptions(request, login.factors);
+
+    const { error } = await getSupabaseAdmin().rpc('set_mfa_challenge_webauthn', {
+      p_token: login.token,
+      p_webauthn_challenge: options.challenge,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error storing WebAuthn challenge:', error);
+      return apiError('Failed to start security key login', 500);
+    }
+
+    return apiSuccess({ options });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return apiError(error.message, MFA_ERROR_STATUS[error.code]);
+    }
+    return apiInternalError(error);
+  }
+}
@@ -4,6 +4,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { generateAccessCode, hashCode } from '@/utils/auth/code-generator';
 import { getEmailService, generateAccessCodeEmail } from '@/utils/auth/email-service';
 import { headers } from 'next/headers';
+import { isSsoEnforcedForEmail } from '@/lib/sso/connections';
 
 const sendCodeSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -19,6 +20,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { email } = sendCodeSchema.parse(body);
 
+    // Accounts that enforce SSO sign in through their identity provider only
+    if (await isSsoEnforcedForEmail(email)) {
+      return NextResponse.json(
+        { error: 'Your organization requires single sign-on for this email.', sso: true },
+        { status: 403 }
+      );
+    }
+
     // Get client IP for rate limiting and locale from middleware
     const headersList = headers();
     const ipAddress = headersList.get('x-forwarded-for') || headersList.get('x-real-ip') || 'unknown';
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SsoDiscoverySchema, findSsoConnectionForEmail } from '@/lib/sso/connections';
+
+/**
+ * POST /api/dashboard/auth/sso/discover
+ * Find the SSO connection of an email's domain (login page)
+ */
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email } = SsoDiscoverySchema.parse(body);
+
+    const { connection, error } = await findSsoConnectionForEmail(email);
+
+    if (error) {
+      console.error('❌ [DEBUG] SSO discovery error:', error);
+      return NextResponse.json({ error: 'Failed to look up single sign-on' }, { status: 500 });
+    }
+
+    if (!connection) {
+      return NextResponse.json({ sso: false });
+    }
+
+    return NextResponse.json({
+      sso: true,
+      protocol: connection.protocol,
+      enforced: connection.enforce_sso,
+      loginUrl: `/api/dashboard/auth/sso/start?${new URLSearchParams({ email })}`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('SSO discovery error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { SsoError, getSsoConnection } from '@/lib/sso/connections';
+import { exchangeOidcCode } from '@/lib/sso/oidc';
+import {
+  completeSsoLogin,
+  consumeLoginState,
+  getSsoBaseUrl,
+  ssoErrorRedirect,
+} from '@/lib/sso/login';
+
+/**
+ * GET /api/dashboard/auth/sso/oidc/callback?code=...&state=...
+ * OIDC redirect URI: verify the login and create the session
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    // Consumed first, so an error or replayed callback can't reuse the state
+    const loginState = await consumeLoginState(params.get('state'));
+
+    const providerError = params.get('error');
+    if (providerError) {
+      console.warn(`⚠️ [WARN] OIDC provider returned error: ${providerError}`);
+      return ssoErrorRedirect(request, 'denied');
+    }
+
+    const code = params.get('code');
+    if (!code || !loginState.nonce || !loginState.code_verifier) {
+      return ssoErrorRedirect(request, 'invalid_response');
+    }
+
+    const { connection, error } = await getSsoConnection(loginState.account_id);
+
+    if (error) {
+      throw error;
+    }
+
+    if (
+      !connection ||
+      connection.id !== loginState.connection_id ||
+      connection.protocol !== 'oidc'
+    ) {
+      return ssoErrorRedirect(request, 'not_configured');
+    }
+
+    if (!connection.enabled) {
+      return ssoErrorRedirect(request, 'disabled');
+    }
+
+    const identity = await exchangeOidcCode(connection, {
+      code,
+      codeVerifier: loginState.code_verifier,
+      nonce: loginState.nonce,
+      redirectUri: `${getSsoBaseUrl(request)}/api/dashboard/auth/sso/oidc/callback`,
+    });
+
+    return await completeSsoLogin(request, connection, loginState, identity);
+  } catch (error) {
+    console.error('❌ [DEBUG] OIDC callback error:', error);
+    return ssoErrorRedirect(request, error instanceof SsoError ? error.code : 'unavailable');
+  }
+}
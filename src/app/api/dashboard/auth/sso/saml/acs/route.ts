@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { SsoError, getSsoConnection } from '@/lib/sso/connections';
+import { validateSamlResponse } from '@/lib/sso/saml';
+import {
+  completeSsoLogin,
+  consumeLoginState,
+  getSsoBaseUrl,
+  ssoErrorRedirect,
+} from '@/lib/sso/login';
+
+/**
+ * POST /api/dashboard/auth/sso/saml/acs
+ * SAML assertion consumer service (HTTP-POST binding): validate the response
+ * and create the session
+ */
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const samlResponse = form.get('SAMLResponse');
+    const relayState = form.get('RelayState');
+
+    // IdP-initiated logins carry no RelayState of ours and are rejected here
+    const loginState = await consumeLoginState(typeof relayState === 'string' ? relayState : null);
+
+    if (typeof samlResponse !== 'string' || !samlResponse) {
+      return ssoErrorRedirect(request, 'invalid_response');
+    }
+
+    const { connection, error } = await getSsoConnection(loginState.account_id);
+
+    if (error) {
+      throw error;
+    }
+
+    if (
+      !connection ||
+      connection.id !== loginState.connection_id ||
+      connection.protocol !== 'saml'
+    ) {
+      return ssoErrorRedirect(request, 'not_configured');
+    }
+
+    if (!connection.enabled) {
+      return ssoErrorRedirect(request, 'disabled');
+    }
+
+    const identity = await validateSamlResponse(connection, {
+      samlResponse,
+      requestId: loginState.request_id,
+      baseUrl: getSsoBaseUrl(request),
+    });
+
+    return await completeSsoLogin(request, connection, loginState, identity);
+  } catch (error) {
+    console.error('❌ [DEBUG] SAML ACS error:', error);
+    return ssoErrorRedirect(request, error instanceof SsoError ? error.code : 'unavailable');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSamlMetadata } from '@/lib/sso/saml';
+import { getSsoBaseUrl } from '@/lib/sso/login';
+
+/**
+ * GET /api/dashboard/auth/sso/saml/metadata
+ * Service provider metadata to register the dashboard with a SAML IdP
+ * (this URL is also the SP entity ID)
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    return new NextResponse(getSamlMetadata(getSsoBaseUrl(request)), {
+      headers: { 'Content-Type': 'application/samlmetadata+xml; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('SAML metadata error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SsoError, findSsoConnectionForEmail } from '@/lib/sso/connections';
+import { generateSsoToken, getOidcAuthorizationUrl } from '@/lib/sso/oidc';
+import { getSamlLoginUrl } from '@/lib/sso/saml';
+import { getSsoBaseUrl, saveLoginState, ssoErrorRedirect } from '@/lib/sso/login';
+
+/**
+ * GET /api/dashboard/auth/sso/start?email=...&redirect=/dashboard/...
+ * Start an SP-initiated SSO login: redirects to the identity provider of the
+ * email's domain
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const email = request.nextUrl.searchParams.get('email')?.trim() || '';
+    const redirectTo = request.nextUrl.searchParams.get('redirect') || undefined;
+
+    const { connection, error } = await findSsoConnectionForEmail(email);
+
+    if (error) {
+      console.error('❌ [DEBUG] SSO discovery error:', error);
+      return ssoErrorRedirect(request, 'unavailable');
+    }
+
+    if (!connection) {
+      return ssoErrorRedirect(request, 'not_configured');
+    }
+
+    const baseUrl = getSsoBaseUrl(request);
+    const state = generateSsoToken();
+    let url: string;
+    let saveError: Error | null;
+
+    if (connection.protocol === 'oidc') {
+      const nonce = generateSsoToken();
+      const codeVerifier = generateSsoToken();
+
+      url = await getOidcAuthorizationUrl(connection, {
+        state,
+        nonce,
+        codeVerifier,
+        redirectUri: `${baseUrl}/api/dashboard/auth/sso/oidc/callback`,
+        loginHint: email,
+      });
+      ({ error: saveError } = await saveLoginState(connection, {
+        state,
+        nonce,
+        codeVerifier,
+        redirectTo,
+      }));
+    } else {
+      const login = await getSamlLoginUrl(connection, { relayState: state, baseUrl });
+
+      url = login.url;
+      ({ error: saveError } = await saveLoginState(connection, {
+        state,
+        requestId: login.requestId,
+        redirectTo,
+      }));
+    }
+
+    if (saveError) {
+      console.error('❌ [DEBUG] Error saving SSO login state:', saveError);
+      return ssoErrorRedirect(request, 'unavailable');
+    }
+
+    return NextResponse.redirect(url, 302);
+  } catch (error) {
+    console.error('❌ [DEBUG] SSO start error:', error);
+    return ssoErrorRedirect(request, error instanceof SsoError ? error.code : 'unavailable');
+  }
+}
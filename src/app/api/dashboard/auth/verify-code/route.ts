@@ -5,13 +5,12 @@ import { verifyCode } from '@/utils/auth/code-generator';
 import { generateSessionToken } from '@/utils/auth/code-generator';
 import { cookies } from 'next/headers';
 import { isAuthBypassEnabled, getMockUser } from '@/utils/auth/dev-bypass';
+import { isSsoEnforcedForEmail } from '@/lib/sso/connections';
+import { getMfaLoginRequirement, startMfaLogin } from '@/lib/mfa/login';
+import { startDashboardSession } from '@/utils/auth/session';
 import {
-  getSessionDurationHours,
-  getRefreshTokenDurationDays,
   getSessionDurationSeconds,
   getRefreshTokenDurationSeconds,
-  calculateSessionExpiration,
-  calculateRefreshTokenExpiration,
 } from '@/utils/auth/session-config';
 
 const verifyCodeSchema = z.object({
@@ -22,6 +21,7 @@ const verifyCodeSchema = z.object({
 /**
  * POST /api/dashboard/auth/verify-code
  * Verify access code and create session (passwordless auth)
+ * Users with a second factor get { mfaRequired: true } instead of a session
  */
 export const dynamic = 'force-dynamic';
 
@@ -64,6 +64,14 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Also rejects codes sent before the account started enforcing SSO
+    if (await isSsoEnforcedForEmail(email)) {
+      return NextResponse.json(
+        { error: 'Your organization requires single sign-on for this email.', sso: true },
+        { status: 403 }
+      );
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
 
     // Find valid auth code
@@ -121,32 +129,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate session tokens
-    const sessionToken = generateSessionToken();
-    const refreshToken = generateSessionToken();
+    // Users with a second factor (or whose role requires one) continue at
+    // /api/dashboard/auth/mfa; the session starts once the factor is verified
+    const mfaRequirement = await getMfaLoginRequirement(user);
+    if (mfaRequirement) {
+      const response = NextResponse.json({
+        success: true,
+        mfaRequired: true,
+        ...mfaRequirement,
+      });
+      const { error: mfaError } = await startMfaLogin(user.id, response);
+
+      if (mfaError) {
+        console.error('❌ [DEBUG] MFA challenge creation error:', mfaError);
+        return NextResponse.json(
+          { error: 'Failed to create session' },
+          { status: 500 }
+        );
+      }
+
+      console.info(`✅ [DEBUG] Second factor required for user ${user.email}`);
+      return response;
+    }
 
-    const sessionDurationHours = getSessionDurationHours();
-    const refreshDurationDays = getRefreshTokenDurationDays();
+    console.info(`✅ [DEBUG] Creating session for user ${user.email}`);
 
-    const expiresAt = calculateSessionExpiration();
-    const refreshExpiresAt = calculateRefreshTokenExpiration();
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+      },
+    });
 
-    console.info(`✅ [DEBUG] Creating session for user ${user.email}`);
-    console.info(`✅ [DEBUG] Session duration: ${sessionDurationHours} hours`);
-    console.info(`✅ [DEBUG] Session expires at: ${expiresAt.toISOString()}`);
-    console.info(`✅ [DEBUG] Refresh token expires at: ${refreshExpiresAt.toISOString()}`);
-
-    // Store session
-    const { error: sessionError } = await supabaseAdmin
-      .rpc('create_session', {
-        p_user_id: user.id,
-        p_token: sessionToken,
-        p_refresh_token: refreshToken,
-        p_expires_at: expiresAt.toISOString(),
-        p_refresh_expires_at: refreshExpiresAt.toISOString(),
-        p_ip_address: request.headers.get('x-forwarded-for') || 'unknown',
-        p_user_agent: request.headers.get('user-agent') || 'unknown',
-      });
+    // Store session and set HTTP-only cookies
+    const { error: sessionError } = await startDashboardSession(request, user, response);
 
     if (sessionError) {
       console.error('❌ [DEBUG] Session creation error:', sessionError);
@@ -158,45 +177,7 @@ export async function POST(request: NextRequest) {
 
     console.info(`✅ [DEBUG] Session created successfully`);
 
-    // Update user last login
-    await supabaseAdmin
-      .rpc('update_user_last_login', { p_user_id: user.id });
-
-    // Set HTTP-only cookies
-    const cookieStore = await cookies();
-    const cookieMaxAge = getSessionDurationSeconds();
-    const isProduction = process.env.NODE_ENV === 'production';
-    
-    cookieStore.set('dashboard_session', sessionToken, {
-      httpOnly: true,
-      secure: isProduction,
-      sameSite: 'lax', // 'lax' allows cookies to be sent on top-level navigations (like page reload)
-      maxAge: cookieMaxAge,
-      path: '/',
-    });
-
-    const refreshCookieMaxAge = getRefreshTokenDurationSeconds();
-    cookieStore.set('dashboard_refresh', refreshToken, {
-      httpOnly: true,
-      secure: isProduction,
-      sameSite: 'lax',
-      maxAge: refreshCookieMaxAge,
-      path: '/',
-    });
-
-    console.info(`✅ [DEBUG] Session cookie set with maxAge: ${cookieMaxAge} seconds (${sessionDurationHours} hours)`);
-    console.info(`✅ [DEBUG] Refresh cookie set with maxAge: ${refreshCookieMaxAge} seconds (${refreshDurationDays} days)`);
-    console.info(`✅ [DEBUG] Cookie settings: httpOnly=true, secure=${isProduction}, sameSite=lax, path=/`);
-
-    return NextResponse.json({
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-    });
+    return response;
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -1,78 +1,147 @@
 import { NextRequest } from 'next/server';
-import { getAuthenticatedUser } from '@/lib/api/auth';
-import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
-import { z } from 'zod';
+import { apiSuccess, apiError, apiValidationError, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { BuyerSchema, BuyerUpdateSchema } from '@/lib/b2b/schemas';
+import { toBuyer, b2bDatabaseError, type BuyerRow } from '@/lib/b2b/records';
 
 export const dynamic = 'force-dynamic';
 
-const BuyerUpdateSchema = z.object({
-  email: z.string().email().optional(),
-  name: z.string().min(1).optional(),
-  role: z.enum(['buyer', 'approver', 'admin']).optional(),
-  costCenter: z.string().optional(),
-  department: z.string().optional(),
-  projectCode: z.string().optional(),
-  creditLimit: z.number().min(0).optional(),
-});
+/**
+ * Load a buyer of the account
+ */
+async function getBuyer(accountId: string, buyerId: string) {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin.rpc('get_b2b_buyers', {
+    p_account_id: accountId,
+    p_buyer_id: buyerId,
+  });
+
+  if (error) {
+    return { buyer: null, error };
+  }
+
+  const rows = (data || []) as BuyerRow[];
+  return { buyer: rows.length > 0 ? toBuyer(rows[0]) : null, error: null };
+}
 
 /**
  * PATCH /api/dashboard/b2b/buyers/[id]
  * Update a buyer
+ * The update is merged into the stored buyer, which is validated again as a whole
  */
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withPermission('b2b', 'write', async (request: NextRequest, { user, params }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
 
-    const { id } = await params;
+    const id = params?.id;
+    if (!id) {
+      return apiError('Buyer ID is required', 400);
+    }
+
     const body = await request.json();
-    const validationResult = BuyerUpdateSchema.safeParse(body);
+    const updateResult = BuyerUpdateSchema.safeParse(body);
+
+    if (!updateResult.success) {
+      return apiValidationError(updateResult.error);
+    }
+
+    const { buyer: current, error: fetchError } = await getBuyer(user.account_id, id);
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching buyer:', fetchError);
+      return b2bDatabaseError(fetchError, 'Failed to update buyer');
+    }
+
+    if (!current) {
+      return apiNotFound('Buyer not found');
+    }
+
+    const { creditLimit, ...updates } = updateResult.data;
+    const validationResult = BuyerSchema.safeParse({ ...current, ...updates, creditLimit });
 
     if (!validationResult.success) {
       return apiValidationError(validationResult.error);
     }
 
-    // TODO: In production, update in database
-    const updatedBuyer = {
-      id,
-      account_id: user.account_id,
-      ...validationResult.data,
-      updated_at: new Date().toISOString(),
-    };
+    const buyerData = validationResult.data;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { error: updateError } = await supabaseAdmin.rpc('update_b2b_buyer', {
+      p_account_id: user.account_id,
+      p_buyer_id: id,
+      p_email: buyerData.email,
+      p_name: buyerData.name,
+      p_role: buyerData.role,
+      p_cost_center: buyerData.costCenter?.trim() || null,
+      p_department: buyerData.department?.trim() || null,
+      p_project_code: buyerData.projectCode?.trim() || null,
+    });
+
+    if (updateError) {
+      console.error('❌ [DEBUG] Error updating buyer:', updateError);
+      return b2bDatabaseError(updateError, 'Failed to update buyer');
+    }
+
+    // Only an explicit creditLimit changes the buyer's credit limit (the period is kept)
+    if (buyerData.creditLimit !== undefined && buyerData.creditLimit !== current.creditLimit) {
+      const { error: limitError } = await supabaseAdmin.rpc('upsert_b2b_credit_limit', {
+        p_account_id: user.account_id,
+        p_buyer_id: id,
+        p_limit: buyerData.creditLimit,
+      });
+
+      if (limitError) {
+        console.error('❌ [DEBUG] Error saving buyer credit limit:', limitError);
+        return b2bDatabaseError(limitError, 'Failed to save buyer credit limit');
+      }
+    }
 
-    return apiSuccess({ buyer: updatedBuyer });
+    const { buyer } = await getBuyer(user.account_id, id);
+
+    return apiSuccess({ buyer });
   } catch (error) {
     console.error('❌ [DEBUG] Error updating buyer:', error);
     return apiError('Failed to update buyer', 500);
   }
-}
+});
 
 /**
  * DELETE /api/dashboard/b2b/buyers/[id]
- * Delete a buyer
+ * Delete a buyer (and its credit limit)
  */
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission('b2b', 'delete', async (_request: NextRequest, { user, params }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
 
-    await params; // Extract params for route validation
+    const id = params?.id;
+    if (!id) {
+      return apiError('Buyer ID is required', 400);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data: deleted, error } = await supabaseAdmin.rpc('delete_b2b_buyer', {
+      p_account_id: user.account_id,
+      p_buyer_id: id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error deleting buyer:', error);
+      return b2bDatabaseError(error, 'Failed to delete buyer');
+    }
+
+    if (!deleted) {
+      return apiNotFound('Buyer not found');
+    }
 
-    // TODO: In production, delete from database
     return apiSuccess({ message: 'Buyer deleted successfully' });
   } catch (error) {
     console.error('❌ [DEBUG] Error deleting buyer:', error);
     return apiError('Failed to delete buyer', 500);
   }
-}
-
+});
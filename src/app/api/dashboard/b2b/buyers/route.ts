@@ -1,20 +1,13 @@
 import { NextRequest } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
-import { z } from 'zod';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { BuyerSchema } from '@/lib/b2b/schemas';
+import { toBuyer, b2bDatabaseError, type BuyerRow } from '@/lib/b2b/records';
 
 export const dynamic = 'force-dynamic';
 
-const BuyerSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  name: z.string().min(1, 'Name is required'),
-  role: z.enum(['buyer', 'approver', 'admin']),
-  costCenter: z.string().optional(),
-  department: z.string().optional(),
-  projectCode: z.string().optional(),
-  creditLimit: z.number().min(0).optional(),
-});
-
 /**
  * GET /api/dashboard/b2b/buyers
  * Get all buyers for the account
@@ -26,48 +19,17 @@ export async function GET(_request: NextRequest) {
       return apiError('User account not found', 404);
     }
 
-    // TODO: In production, fetch from database
-    const buyers = [
-      {
-        id: 'buyer_1',
-        account_id: user.account_id,
-        email: 'buyer1@example.com',
-        name: 'John Doe',
-        role: 'buyer',
-        costCenter: 'CC001',
-        department: 'Sales',
-        projectCode: 'PROJ001',
-        creditLimit: 10000,
-        availableCredit: 6500,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: 'buyer_2',
-        account_id: user.account_id,
-        email: 'buyer2@example.com',
-        name: 'Jane Smith',
-        role: 'buyer',
-        costCenter: 'CC002',
-        department: 'Marketing',
-        projectCode: 'PROJ002',
-        creditLimit: 5000,
-        availableCredit: 5000,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: 'approver_1',
-        account_id: user.account_id,
-        email: 'approver1@example.com',
-        name: 'Bob Johnson',
-        role: 'approver',
-        costCenter: 'CC001',
-        department: 'Finance',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-    ];
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_buyers', {
+      p_account_id: user.account_id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching buyers:', error);
+      return apiError('Failed to fetch buyers', 500);
+    }
+
+    const buyers = ((data || []) as BuyerRow[]).map(toBuyer);
 
     return apiSuccess({ buyers });
   } catch (error) {
@@ -78,11 +40,10 @@ export async function GET(_request: NextRequest) {
 
 /**
  * POST /api/dashboard/b2b/buyers
- * Create a new buyer
+ * Create a new buyer (and its credit limit when creditLimit is set)
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('b2b', 'write', async (request: NextRequest, { user }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
@@ -95,21 +56,49 @@ export async function POST(request: NextRequest) {
     }
 
     const buyerData = validationResult.data;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data: buyerId, error: createError } = await supabaseAdmin.rpc('create_b2b_buyer', {
+      p_account_id: user.account_id,
+      p_email: buyerData.email,
+      p_name: buyerData.name,
+      p_role: buyerData.role,
+      p_cost_center: buyerData.costCenter?.trim() || null,
+      p_department: buyerData.department?.trim() || null,
+      p_project_code: buyerData.projectCode?.trim() || null,
+    });
+
+    if (createError) {
+      console.error('❌ [DEBUG] Error creating buyer:', createError);
+      return b2bDatabaseError(createError, 'Failed to create buyer');
+    }
 
-    // TODO: In production, save to database
-    const newBuyer = {
-      id: `buyer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      account_id: user.account_id,
-      ...buyerData,
-      availableCredit: buyerData.creditLimit || 0,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    return apiSuccess({ buyer: newBuyer }, 201);
+    if (buyerData.creditLimit !== undefined) {
+      const { error: limitError } = await supabaseAdmin.rpc('upsert_b2b_credit_limit', {
+        p_account_id: user.account_id,
+        p_buyer_id: buyerId,
+        p_limit: buyerData.creditLimit,
+      });
+
+      if (limitError) {
+        console.error('❌ [DEBUG] Error saving buyer credit limit:', limitError);
+        return b2bDatabaseError(limitError, 'Failed to save buyer credit limit');
+      }
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_buyers', {
+      p_account_id: user.account_id,
+      p_buyer_id: buyerId,
+    });
+
+    if (error || !data || data.length === 0) {
+      console.error('❌ [DEBUG] Error fetching created buyer:', error);
+      return apiError('Failed to create buyer', 500);
+    }
+
+    return apiSuccess({ buyer: toBuyer(data[0] as BuyerRow) }, 201);
   } catch (error) {
     console.error('❌ [DEBUG] Error creating buyer:', error);
     return apiError('Failed to create buyer', 500);
   }
-}
-
+});
@@ -0,0 +1,10 @@
+import { createApprovalActionHandler } from '@/lib/b2b/approvals';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/b2b/purchase-orders/[id]/approve
+ * Approve the purchase order as its current approver
+ * Body: { comment?: string }
+ */
+export const POST = createApprovalActionHandler('approve');
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { toApprovalAuditEntry, b2bDatabaseError, type ApprovalAuditRow } from '@/lib/b2b/records';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/b2b/purchase-orders/[id]/audit
+ * Get the approval audit trail of a purchase order (oldest first)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { id } = await params;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_approval_audit_log', {
+      p_account_id: user.account_id,
+      p_order_id: id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching approval audit log:', error);
+      return b2bDatabaseError(error, 'Failed to fetch approval audit log');
+    }
+
+    const entries = ((data || []) as ApprovalAuditRow[]).map(toApprovalAuditEntry);
+
+    return apiSuccess({ entries });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error fetching approval audit log:', error);
+    return apiError('Failed to fetch approval audit log', 500);
+  }
+}
@@ -0,0 +1,10 @@
+import { createApprovalActionHandler } from '@/lib/b2b/approvals';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/b2b/purchase-orders/[id]/escalate
+ * Escalate the purchase order to the next approver
+ * Body: { comment?: string }
+ */
+export const POST = createApprovalActionHandler('escalate');
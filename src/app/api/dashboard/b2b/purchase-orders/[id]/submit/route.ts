@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { toPurchaseOrder, b2bDatabaseError, type PurchaseOrderRow } from '@/lib/b2b/records';
+import { emitApprovalRequired } from '@/lib/b2b/approvals';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/b2b/purchase-orders/[id]/submit
+ * Submit a draft purchase order for approval
+ * Reserves the amount on the buyer's credit limit and routes the order through the matching workflow
+ */
+export const POST = withPermission('b2b', 'write', async (_request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Purchase order ID is required', 400);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { error: submitError } = await supabaseAdmin.rpc('submit_b2b_purchase_order', {
+      p_account_id: user.account_id,
+      p_order_id: id,
+      p_user_id: user.id,
+      p_user_email: user.email,
+    });
+
+    if (submitError) {
+      console.error('❌ [DEBUG] Error submitting purchase order:', submitError);
+      return b2bDatabaseError(submitError, 'Failed to submit purchase order');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_purchase_orders', {
+      p_account_id: user.account_id,
+      p_order_id: id,
+    });
+
+    if (error || !data || data.length === 0) {
+      console.error('❌ [DEBUG] Error fetching purchase order:', error);
+      return apiError('Failed to fetch purchase order', 500);
+    }
+
+    const order = toPurchaseOrder(data[0] as PurchaseOrderRow);
+    await emitApprovalRequired(order);
+
+    return apiSuccess({ order });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error submitting purchase order:', error);
+    return apiError('Failed to submit purchase order', 500);
+  }
+});
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { toPurchaseOrder, type PurchaseOrderRow } from '@/lib/b2b/records';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/b2b/purchase-orders/queue
+ * Get the purchase orders waiting for the current user's approval
+ * The user acts as the B2B approver (or admin) registered with the same email
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: approverId, error: approverError } = await supabaseAdmin.rpc(
+      'get_b2b_approver_by_email',
+      {
+        p_account_id: user.account_id,
+        p_email: user.email,
+      }
+    );
+
+    if (approverError) {
+      console.error('❌ [DEBUG] Error fetching approver:', approverError);
+      return apiError('Failed to fetch approval queue', 500);
+    }
+
+    if (!approverId) {
+      return apiSuccess({ orders: [], approverId: null });
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_purchase_orders', {
+      p_account_id: user.account_id,
+      p_approver_id: approverId,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching approval queue:', error);
+      return apiError('Failed to fetch approval queue', 500);
+    }
+
+    const orders = ((data || []) as PurchaseOrderRow[]).map(toPurchaseOrder);
+
+    return apiSuccess({ orders, approverId });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error fetching approval queue:', error);
+    return apiError('Failed to fetch approval queue', 500);
+  }
+}
@@ -1,9 +1,41 @@
 import { NextRequest } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/api/auth';
-import { apiSuccess, apiError } from '@/lib/api/responses';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  PurchaseOrderSchema,
+  PurchaseOrderConfigSchema,
+  PURCHASE_ORDER_STATUSES,
+  type PurchaseOrderStatus,
+} from '@/lib/b2b/schemas';
+import {
+  toPurchaseOrder,
+  toPurchaseOrderConfig,
+  getMissingPurchaseOrderFields,
+  b2bDatabaseError,
+  type PurchaseOrderRow,
+  type PurchaseOrderConfigRow,
+} from '@/lib/b2b/records';
 
 export const dynamic = 'force-dynamic';
 
+/**
+ * Load the purchase order configuration of the account (defaults when not configured)
+ */
+async function getPurchaseOrderConfig(accountId: string) {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin.rpc('get_b2b_purchase_order_settings', {
+    p_account_id: accountId,
+  });
+
+  if (error || !data || data.length === 0) {
+    return { config: null, error: error || new Error('Purchase order configuration not found') };
+  }
+
+  return { config: toPurchaseOrderConfig(data[0] as PurchaseOrderConfigRow), error: null };
+}
+
 /**
  * GET /api/dashboard/b2b/purchase-orders
  * Get purchase orders and configuration
@@ -19,46 +51,33 @@ export async function GET(request: NextRequest) {
     const buyerId = searchParams.get('buyerId');
     const status = searchParams.get('status');
 
-    // TODO: In production, fetch from database
-    const orders = [
-      {
-        id: 'po_1',
-        account_id: user.account_id,
-        poNumber: 'PO-1234567890-ABC123',
-        buyerId: 'buyer_1',
-        amount: 5000,
-        status: 'pending_approval',
-        items: [
-          {
-            productId: 'prod_1',
-            name: 'Product 1',
-            quantity: 10,
-            price: 500,
-          },
-        ],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-    ];
-
-    let filteredOrders = orders;
-
-    if (buyerId) {
-      filteredOrders = filteredOrders.filter((o) => o.buyerId === buyerId);
+    if (status && !PURCHASE_ORDER_STATUSES.includes(status as PurchaseOrderStatus)) {
+      return apiError('Invalid status', 400);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const [ordersResult, configResult] = await Promise.all([
+      supabaseAdmin.rpc('get_b2b_purchase_orders', {
+        p_account_id: user.account_id,
+        p_buyer_id: buyerId || null,
+        p_status: status || null,
+      }),
+      getPurchaseOrderConfig(user.account_id),
+    ]);
+
+    if (ordersResult.error) {
+      console.error('❌ [DEBUG] Error fetching purchase orders:', ordersResult.error);
+      return b2bDatabaseError(ordersResult.error, 'Failed to fetch purchase orders');
     }
 
-    if (status) {
-      filteredOrders = filteredOrders.filter((o) => o.status === status);
+    if (configResult.error) {
+      console.error('❌ [DEBUG] Error fetching purchase order configuration:', configResult.error);
+      return apiError('Failed to fetch purchase orders', 500);
     }
 
-    // Configuration
-    const config = {
-      prefix: 'PO',
-      autoGenerate: true,
-      requiredFields: ['buyerId', 'amount'],
-    };
+    const orders = ((ordersResult.data || []) as PurchaseOrderRow[]).map(toPurchaseOrder);
 
-    return apiSuccess({ orders: filteredOrders, config });
+    return apiSuccess({ orders, config: configResult.config });
   } catch (error) {
     console.error('❌ [DEBUG] Error fetching purchase orders:', error);
     return apiError('Failed to fetch purchase orders', 500);
@@ -68,46 +87,94 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/dashboard/b2b/purchase-orders
  * Create purchase order or update configuration
+ * Orders created as pending_approval reserve their amount on the buyer's credit limit
+ * and are routed through the matching approval workflow
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('b2b', 'write', async (request: NextRequest, { user }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
 
     const body = await request.json();
+    const supabaseAdmin = getSupabaseAdmin();
 
     // Check if it's a configuration update
     if (body.type === 'config') {
-      // TODO: In production, save config to database
-      return apiSuccess({ config: body.config });
+      const configResult = PurchaseOrderConfigSchema.safeParse(body.config);
+
+      if (!configResult.success) {
+        return apiValidationError(configResult.error);
+      }
+
+      const config = configResult.data;
+      const { error } = await supabaseAdmin.rpc('upsert_b2b_purchase_order_settings', {
+        p_account_id: user.account_id,
+        p_prefix: config.prefix,
+        p_auto_generate: config.autoGenerate,
+        p_required_fields: config.requiredFields,
+      });
+
+      if (error) {
+        console.error('❌ [DEBUG] Error saving purchase order configuration:', error);
+        return apiError('Failed to save configuration', 500);
+      }
+
+      return apiSuccess({ config });
     }
 
     // Otherwise, create a new PO
-    const { poNumber, buyerId, amount, items } = body;
+    const validationResult = PurchaseOrderSchema.safeParse(body);
 
-    if (!poNumber || !buyerId || !amount || !items) {
-      return apiError('Missing required fields', 400);
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
     }
 
-    // TODO: In production, save to database
-    const newOrder = {
-      id: `po_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      account_id: user.account_id,
-      poNumber,
-      buyerId,
-      amount,
-      status: 'draft',
-      items,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    return apiSuccess({ order: newOrder }, 201);
+    const orderData = validationResult.data;
+    const { config, error: configError } = await getPurchaseOrderConfig(user.account_id);
+
+    if (!config) {
+      console.error('❌ [DEBUG] Error fetching purchase order configuration:', configError);
+      return apiError('Failed to create purchase order', 500);
+    }
+
+    const missingFields = getMissingPurchaseOrderFields(orderData, config);
+    if (missingFields.length > 0) {
+      return apiError('Missing required fields', 400, { missingFields });
+    }
+
+    const { data: orderId, error: createError } = await supabaseAdmin.rpc(
+      'create_b2b_purchase_order',
+      {
+        p_account_id: user.account_id,
+        p_buyer_id: orderData.buyerId,
+        p_po_number: orderData.poNumber || null,
+        p_amount: orderData.amount,
+        p_items: orderData.items,
+        p_status: orderData.status,
+        p_user_id: user.id,
+        p_user_email: user.email,
+      }
+    );
+
+    if (createError) {
+      console.error('❌ [DEBUG] Error creating purchase order:', createError);
+      return b2bDatabaseError(createError, 'Failed to create purchase order');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_purchase_orders', {
+      p_account_id: user.account_id,
+      p_order_id: orderId,
+    });
+
+    if (error || !data || data.length === 0) {
+      console.error('❌ [DEBUG] Error fetching created purchase order:', error);
+      return apiError('Failed to create purchase order', 500);
+    }
+
+    return apiSuccess({ order: toPurchaseOrder(data[0] as PurchaseOrderRow) }, 201);
   } catch (error) {
     console.error('❌ [DEBUG] Error creating purchase order:', error);
     return apiError('Failed to create purchase order', 500);
   }
-}
-
+});
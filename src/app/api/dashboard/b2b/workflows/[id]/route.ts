@@ -1,24 +1,30 @@
 import { NextRequest } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/api/auth';
-import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
-import { z } from 'zod';
+import { apiSuccess, apiError, apiValidationError, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { ApprovalWorkflowSchema, ApprovalWorkflowUpdateSchema } from '@/lib/b2b/schemas';
+import { toApprovalWorkflow, b2bDatabaseError, type ApprovalWorkflowRow } from '@/lib/b2b/records';
 
 export const dynamic = 'force-dynamic';
 
-const ApprovalWorkflowUpdateSchema = z.object({
-  name: z.string().min(1).optional(),
-  enabled: z.boolean().optional(),
-  minAmount: z.number().min(0).optional(),
-  maxAmount: z.number().min(0).optional().nullable(),
-  approvers: z.array(z.string()).optional(),
-  requiredApprovals: z.number().min(1).max(10).optional(),
-  autoApprove: z.boolean().optional(),
-  conditions: z.object({
-    costCenter: z.array(z.string()).optional(),
-    department: z.array(z.string()).optional(),
-    projectCode: z.array(z.string()).optional(),
-  }).optional(),
-});
+/**
+ * Load a workflow of the account
+ */
+async function getWorkflow(accountId: string, workflowId: string) {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin.rpc('get_b2b_workflows', {
+    p_account_id: accountId,
+    p_workflow_id: workflowId,
+  });
+
+  if (error) {
+    return { workflow: null, error };
+  }
+
+  const rows = (data || []) as ApprovalWorkflowRow[];
+  return { workflow: rows.length > 0 ? toApprovalWorkflow(rows[0]) : null, error: null };
+}
 
 /**
  * GET /api/dashboard/b2b/workflows/[id]
@@ -35,22 +41,16 @@ export async function GET(
     }
 
     const { id } = await params;
+    const { workflow, error } = await getWorkflow(user.account_id, id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching workflow:', error);
+      return b2bDatabaseError(error, 'Failed to fetch workflow');
+    }
 
-    // TODO: In production, fetch from database
-    const workflow = {
-      id,
-      account_id: user.account_id,
-      name: 'Standard Approval',
-      enabled: true,
-      minAmount: 1000,
-      maxAmount: 10000,
-      approvers: ['approver_1', 'approver_2'],
-      requiredApprovals: 1,
-      autoApprove: false,
-      conditions: {},
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+    if (!workflow) {
+      return apiNotFound('Workflow not found');
+    }
 
     return apiSuccess({ workflow });
   } catch (error) {
@@ -62,61 +62,113 @@ export async function GET(
 /**
  * PATCH /api/dashboard/b2b/workflows/[id]
  * Update a workflow
+ * The update is merged into the stored workflow, which is validated again as a whole
  */
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withPermission('b2b', 'write', async (request: NextRequest, { user, params }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
 
-    const { id } = await params;
+    const id = params?.id;
+    if (!id) {
+      return apiError('Workflow ID is required', 400);
+    }
+
     const body = await request.json();
-    const validationResult = ApprovalWorkflowUpdateSchema.safeParse(body);
+    const updateResult = ApprovalWorkflowUpdateSchema.safeParse(body);
+
+    if (!updateResult.success) {
+      return apiValidationError(updateResult.error);
+    }
+
+    const { workflow: current, error: fetchError } = await getWorkflow(user.account_id, id);
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching workflow:', fetchError);
+      return b2bDatabaseError(fetchError, 'Failed to update workflow');
+    }
+
+    if (!current) {
+      return apiNotFound('Workflow not found');
+    }
+
+    const { maxAmount, ...updates } = updateResult.data;
+    const validationResult = ApprovalWorkflowSchema.safeParse({
+      ...current,
+      ...updates,
+      // null clears the maximum amount
+      maxAmount: maxAmount === null ? undefined : (maxAmount ?? current.maxAmount),
+    });
 
     if (!validationResult.success) {
       return apiValidationError(validationResult.error);
     }
 
-    // TODO: In production, update in database
-    const updatedWorkflow = {
-      id,
-      account_id: user.account_id,
-      ...validationResult.data,
-      updated_at: new Date().toISOString(),
-    };
+    const workflowData = validationResult.data;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { error: updateError } = await supabaseAdmin.rpc('update_b2b_workflow', {
+      p_account_id: user.account_id,
+      p_workflow_id: id,
+      p_name: workflowData.name,
+      p_enabled: workflowData.enabled,
+      p_min_amount: workflowData.minAmount,
+      p_max_amount: workflowData.maxAmount ?? null,
+      p_approvers: workflowData.approvers,
+      p_required_approvals: workflowData.requiredApprovals,
+      p_auto_approve: workflowData.autoApprove ?? false,
+      p_conditions: workflowData.conditions || {},
+    });
+
+    if (updateError) {
+      console.error('❌ [DEBUG] Error updating workflow:', updateError);
+      return b2bDatabaseError(updateError, 'Failed to update workflow');
+    }
+
+    const { workflow } = await getWorkflow(user.account_id, id);
 
-    return apiSuccess({ workflow: updatedWorkflow });
+    return apiSuccess({ workflow });
   } catch (error) {
     console.error('❌ [DEBUG] Error updating workflow:', error);
     return apiError('Failed to update workflow', 500);
   }
-}
+});
 
 /**
  * DELETE /api/dashboard/b2b/workflows/[id]
  * Delete a workflow
  */
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission('b2b', 'delete', async (_request: NextRequest, { user, params }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
 
-    await params; // Extract params for route validation
+    const id = params?.id;
+    if (!id) {
+      return apiError('Workflow ID is required', 400);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data: deleted, error } = await supabaseAdmin.rpc('delete_b2b_workflow', {
+      p_account_id: user.account_id,
+      p_workflow_id: id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error deleting workflow:', error);
+      return b2bDatabaseError(error, 'Failed to delete workflow');
+    }
+
+    if (!deleted) {
+      return apiNotFound('Workflow not found');
+    }
 
-    // TODO: In production, delete from database
     return apiSuccess({ message: 'Workflow deleted successfully' });
   } catch (error) {
     console.error('❌ [DEBUG] Error deleting workflow:', error);
     return apiError('Failed to delete workflow', 500);
   }
-}
-
+});
@@ -1,28 +1,13 @@
 import { NextRequest } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
-import { z } from 'zod';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { ApprovalWorkflowSchema } from '@/lib/b2b/schemas';
+import { toApprovalWorkflow, b2bDatabaseError, type ApprovalWorkflowRow } from '@/lib/b2b/records';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Approval Workflow Schema
- */
-const ApprovalWorkflowSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  enabled: z.boolean(),
-  minAmount: z.number().min(0),
-  maxAmount: z.number().min(0).optional(),
-  approvers: z.array(z.string()).min(1, 'At least one approver is required'),
-  requiredApprovals: z.number().min(1).max(10),
-  autoApprove: z.boolean().optional(),
-  conditions: z.object({
-    costCenter: z.array(z.string()).optional(),
-    department: z.array(z.string()).optional(),
-    projectCode: z.array(z.string()).optional(),
-  }).optional(),
-});
-
 /**
  * GET /api/dashboard/b2b/workflows
  * Get all approval workflows for the account
@@ -34,38 +19,17 @@ export async function GET(_request: NextRequest) {
       return apiError('User account not found', 404);
     }
 
-    // TODO: In production, fetch from database
-    // const supabaseAdmin = getSupabaseAdmin();
-    // For now, return mock data
-    const workflows = [
-      {
-        id: 'workflow_1',
-        account_id: user.account_id,
-        name: 'Standard Approval',
-        enabled: true,
-        minAmount: 1000,
-        maxAmount: 10000,
-        approvers: ['approver_1', 'approver_2'],
-        requiredApprovals: 1,
-        autoApprove: false,
-        conditions: {},
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: 'workflow_2',
-        account_id: user.account_id,
-        name: 'High Value Approval',
-        enabled: true,
-        minAmount: 10000,
-        approvers: ['approver_1', 'approver_2', 'approver_3'],
-        requiredApprovals: 2,
-        autoApprove: false,
-        conditions: {},
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-    ];
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_workflows', {
+      p_account_id: user.account_id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching workflows:', error);
+      return apiError('Failed to fetch workflows', 500);
+    }
+
+    const workflows = ((data || []) as ApprovalWorkflowRow[]).map(toApprovalWorkflow);
 
     return apiSuccess({ workflows });
   } catch (error) {
@@ -78,9 +42,8 @@ export async function GET(_request: NextRequest) {
  * POST /api/dashboard/b2b/workflows
  * Create a new approval workflow
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('b2b', 'write', async (request: NextRequest, { user }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
@@ -93,20 +56,38 @@ export async function POST(request: NextRequest) {
     }
 
     const workflowData = validationResult.data;
+    const supabaseAdmin = getSupabaseAdmin();
 
-    // TODO: In production, save to database
-    const newWorkflow = {
-      id: `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      account_id: user.account_id,
-      ...workflowData,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+    const { data: workflowId, error: createError } = await supabaseAdmin.rpc('create_b2b_workflow', {
+      p_account_id: user.account_id,
+      p_name: workflowData.name,
+      p_enabled: workflowData.enabled,
+      p_min_amount: workflowData.minAmount,
+      p_max_amount: workflowData.maxAmount ?? null,
+      p_approvers: workflowData.approvers,
+      p_required_approvals: workflowData.requiredApprovals,
+      p_auto_approve: workflowData.autoApprove ?? false,
+      p_conditions: workflowData.conditions || {},
+    });
 
-    return apiSuccess({ workflow: newWorkflow }, 201);
+    if (createError) {
+      console.error('❌ [DEBUG] Error creating workflow:', createError);
+      return b2bDatabaseError(createError, 'Failed to create workflow');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_b2b_workflows', {
+      p_account_id: user.account_id,
+      p_workflow_id: workflowId,
+    });
+
+    if (error || !data || data.length === 0) {
+      console.error('❌ [DEBUG] Error fetching created workflow:', error);
+      return apiError('Failed to create workflow', 500);
+    }
+
+    return apiSuccess({ workflow: toApprovalWorkflow(data[0] as ApprovalWorkflowRow) }, 201);
   } catch (error) {
     console.error('❌ [DEBUG] Error creating workflow:', error);
     return apiError('Failed to create workflow', 500);
   }
-}
-
+});
@@ -4,8 +4,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { validateSupabaseAdmin, getSupabaseAdmin } from '@/lib/supabase';
-import { getAuthenticatedUser } from '@/lib/api/auth';
+import { getAuthenticatedUser, type User } from '@/lib/api/auth';
 import type { DashboardLayout } from '@/components/Dashboard/Builder/types';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -90,37 +91,30 @@ export async function GET(
  * PUT /api/dashboard/dashboards/[id]
  * Update a dashboard
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  return handleUpdate(request, params);
-}
+export const PUT = withPermission('dashboard', 'write', async (request: NextRequest, { user, params }) =>
+  handleUpdate(request, user, params?.id)
+);
 
 /**
  * PATCH /api/dashboard/dashboards/[id]
  * Update a dashboard (alias for PUT)
  */
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  return handleUpdate(request, params);
-}
+export const PATCH = withPermission('dashboard', 'write', async (request: NextRequest, { user, params }) =>
+  handleUpdate(request, user, params?.id)
+);
 
 /**
  * Shared update handler for PUT and PATCH
  */
 async function handleUpdate(
   request: NextRequest,
-  params: Promise<{ id: string }>
+  user: User,
+  dashboardId: string | undefined
 ) {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
 
-    const { user } = await getAuthenticatedUser();
-
     if (!user.account_id) {
       return NextResponse.json({ error: 'User account not found' }, { status: 404 });
     }
@@ -129,8 +123,6 @@ async function handleUpdate(
       return NextResponse.json({ error: 'User ID not found' }, { status: 404 });
     }
 
-    const { id: dashboardId } = await params;
-
     if (!dashboardId) {
       return NextResponse.json({ error: 'Dashboard ID is required' }, { status: 400 });
     }
@@ -198,16 +190,10 @@ async function handleUpdate(
  * DELETE /api/dashboard/dashboards/[id]
  * Delete a dashboard
  */
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission('dashboard', 'delete', async (_request: NextRequest, { user, params }) => {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
-
-    const { user } = await getAuthenticatedUser();
-
     if (!user.account_id) {
       return NextResponse.json({ error: 'User account not found' }, { status: 404 });
     }
@@ -216,7 +202,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'User ID not found' }, { status: 404 });
     }
 
-    const { id: dashboardId } = await params;
+    const dashboardId = params?.id;
 
     if (!dashboardId) {
       return NextResponse.json({ error: 'Dashboard ID is required' }, { status: 400 });
@@ -258,5 +244,5 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
 
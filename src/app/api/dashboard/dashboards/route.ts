@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { validateSupabaseAdmin, getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import type { DashboardLayout } from '@/components/Dashboard/Builder/types';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -71,13 +72,10 @@ export async function GET() {
  * POST /api/dashboard/dashboards
  * Create a new dashboard
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('dashboard', 'write', async (request: NextRequest, { user }) => {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
-
-    const { user } = await getAuthenticatedUser();
-
     if (!user.account_id) {
       return NextResponse.json({ error: 'User account not found' }, { status: 404 });
     }
@@ -149,5 +147,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
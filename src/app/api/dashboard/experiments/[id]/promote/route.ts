@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError, apiValidationError, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { PromoteVariantSchema, experimentDatabaseError } from '@/lib/experiments/experiments';
+import { applyVariant, loadExperiments } from '@/lib/experiments/experiment-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/experiments/[id]/promote
+ * Promote a variant of a running or stopped experiment: its theme is activated
+ * (or its BoltX features are saved) for every session and the experiment is completed
+ */
+export const POST = withPermission('settings', 'write', async (request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Experiment ID is required', 400);
+    }
+
+    const body = await request.json();
+    const validationResult = PromoteVariantSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    const { experiments, error: fetchError } = await loadExperiments(user.account_id, {
+      experimentId: id,
+    });
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching experiment:', fetchError);
+      return experimentDatabaseError(fetchError, 'Failed to promote variant');
+    }
+
+    if (experiments.length === 0) {
+      return apiNotFound('Experiment not found');
+    }
+
+    const experiment = experiments[0];
+    if (experiment.status !== 'running' && experiment.status !== 'stopped') {
+      return apiError('Only running or stopped experiments can be promoted', 409);
+    }
+
+    const variant = experiment.variants.find(
+      (item) => item.key === validationResult.data.variantKey
+    );
+    if (!variant) {
+      return apiError('Variant not found', 422);
+    }
+
+    const { error: applyError } = await applyVariant(user.account_id, experiment, variant);
+
+    if (applyError) {
+      console.error('❌ [DEBUG] Error applying promoted variant:', applyError);
+      return apiError('Failed to apply the variant', 500);
+    }
+
+    const { error } = await getSupabaseAdmin().rpc('set_experiment_status', {
+      p_account_id: user.account_id,
+      p_experiment_id: id,
+      p_status: 'completed',
+      p_winner_variant_key: variant.key,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error completing experiment:', error);
+      return experimentDatabaseError(error, 'Failed to promote variant');
+    }
+
+    const { experiments: updated } = await loadExperiments(user.account_id, { experimentId: id });
+
+    return apiSuccess({ experiment: updated[0] ?? null });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error promoting variant:', error);
+    return apiError('Failed to promote variant', 500);
+  }
+});
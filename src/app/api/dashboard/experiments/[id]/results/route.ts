@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiNotFound } from '@/lib/api/responses';
+import { experimentDatabaseError } from '@/lib/experiments/experiments';
+import { getExperimentResults, loadExperiments } from '@/lib/experiments/experiment-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/experiments/[id]/results
+ * Conversion and revenue per variant with confidence intervals and the
+ * sequential significance test against the control
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { id } = await params;
+    const { experiments, error: fetchError } = await loadExperiments(user.account_id, {
+      experimentId: id,
+    });
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching experiment:', fetchError);
+      return experimentDatabaseError(fetchError, 'Failed to fetch experiment results');
+    }
+
+    if (experiments.length === 0) {
+      return apiNotFound('Experiment not found');
+    }
+
+    const { result, error } = await getExperimentResults(user.account_id, experiments[0]);
+
+    if (error || !result) {
+      console.error('❌ [DEBUG] Error fetching experiment results:', error);
+      return apiError('Failed to fetch experiment results', 500);
+    }
+
+    return apiSuccess(result);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching experiment results:', error);
+    return apiError('Failed to fetch experiment results', 500);
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiValidationError, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  ExperimentSchema,
+  ExperimentUpdateSchema,
+  experimentDatabaseError,
+} from '@/lib/experiments/experiments';
+import { findMissingThemes, loadExperiments } from '@/lib/experiments/experiment-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/experiments/[id]
+ * Get a checkout experiment
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { id } = await params;
+    const { experiments, error } = await loadExperiments(user.account_id, { experimentId: id });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching experiment:', error);
+      return experimentDatabaseError(error, 'Failed to fetch experiment');
+    }
+
+    if (experiments.length === 0) {
+      return apiNotFound('Experiment not found');
+    }
+
+    return apiSuccess({ experiment: experiments[0] });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching experiment:', error);
+    return apiError('Failed to fetch experiment', 500);
+  }
+}
+
+/**
+ * PATCH /api/dashboard/experiments/[id]
+ * Update a draft experiment
+ * The update is merged into the stored experiment, which is validated again as a whole
+ */
+export const PATCH = withPermission('settings', 'write', async (request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Experiment ID is required', 400);
+    }
+
+    const body = await request.json();
+    const updateResult = ExperimentUpdateSchema.safeParse(body);
+
+    if (!updateResult.success) {
+      return apiValidationError(updateResult.error);
+    }
+
+    const { experiments, error: fetchError } = await loadExperiments(user.account_id, {
+      experimentId: id,
+    });
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching experiment:', fetchError);
+      return experimentDatabaseError(fetchError, 'Failed to update experiment');
+    }
+
+    if (experiments.length === 0) {
+      return apiNotFound('Experiment not found');
+    }
+
+    const current = experiments[0];
+    if (current.status !== 'draft') {
+      return apiError('Only draft experiments can be edited', 409);
+    }
+
+    const validationResult = ExperimentSchema.safeParse({ ...current, ...updateResult.data });
+
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    const experiment = validationResult.data;
+
+    if (experiment.type === 'theme') {
+      const { missing, error: themesError } = await findMissingThemes(
+        user.account_id,
+        experiment.variants
+      );
+      if (themesError) {
+        console.error('❌ [DEBUG] Error fetching themes for experiment:', themesError);
+        return apiError('Failed to update experiment', 500);
+      }
+      if (missing.length > 0) {
+        return apiError(`Theme not found: ${missing.join(', ')}`, 422);
+      }
+    }
+
+    const { error: updateError } = await getSupabaseAdmin().rpc('update_experiment', {
+      p_account_id: user.account_id,
+      p_experiment_id: id,
+      p_name: experiment.name,
+      p_description: experiment.description ?? null,
+      p_variants: experiment.variants,
+      p_significance_level: experiment.significanceLevel,
+      p_min_sessions_per_variant: experiment.minSessionsPerVariant,
+    });
+
+    if (updateError) {
+      console.error('❌ [DEBUG] Error updating experiment:', updateError);
+      return experimentDatabaseError(updateError, 'Failed to update experiment');
+    }
+
+    const { experiments: updated } = await loadExperiments(user.account_id, { experimentId: id });
+
+    return apiSuccess({ experiment: updated[0] ?? null });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error updating experiment:', error);
+    return apiError('Failed to update experiment', 500);
+  }
+});
+
+/**
+ * DELETE /api/dashboard/experiments/[id]
+ * Delete an experiment and its assignments (running experiments must be stopped first)
+ */
+export const DELETE = withPermission('settings', 'delete', async (_request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Experiment ID is required', 400);
+    }
+
+    const { data: deleted, error } = await getSupabaseAdmin().rpc('delete_experiment', {
+      p_account_id: user.account_id,
+      p_experiment_id: id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error deleting experiment:', error);
+      return experimentDatabaseError(error, 'Failed to delete experiment');
+    }
+
+    if (!deleted) {
+      return apiNotFound('Experiment not found');
+    }
+
+    return apiSuccess({ message: 'Experiment deleted successfully' });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error deleting experiment:', error);
+    return apiError('Failed to delete experiment', 500);
+  }
+});
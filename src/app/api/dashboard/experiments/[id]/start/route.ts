@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { experimentDatabaseError } from '@/lib/experiments/experiments';
+import { findMissingThemes, loadExperiments } from '@/lib/experiments/experiment-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/experiments/[id]/start
+ * Start a draft experiment: the checkout starts assigning sessions to its variants
+ */
+export const POST = withPermission('settings', 'write', async (_request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Experiment ID is required', 400);
+    }
+
+    const { experiments, error: fetchError } = await loadExperiments(user.account_id, {
+      experimentId: id,
+    });
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching experiment:', fetchError);
+      return experimentDatabaseError(fetchError, 'Failed to start experiment');
+    }
+
+    if (experiments.length === 0) {
+      return apiNotFound('Experiment not found');
+    }
+
+    // Themes may have been deleted since the experiment was created
+    const experiment = experiments[0];
+    if (experiment.type === 'theme') {
+      const { missing, error: themesError } = await findMissingThemes(
+        user.account_id,
+        experiment.variants
+      );
+      if (themesError) {
+        console.error('❌ [DEBUG] Error fetching themes for experiment:', themesError);
+        return apiError('Failed to start experiment', 500);
+      }
+      if (missing.length > 0) {
+        return apiError(`Theme not found: ${missing.join(', ')}`, 422);
+      }
+    }
+
+    const { error } = await getSupabaseAdmin().rpc('set_experiment_status', {
+      p_account_id: user.account_id,
+      p_experiment_id: id,
+      p_status: 'running',
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error starting experiment:', error);
+      return experimentDatabaseError(error, 'Failed to start experiment');
+    }
+
+    const { experiments: updated } = await loadExperiments(user.account_id, { experimentId: id });
+
+    return apiSuccess({ experiment: updated[0] ?? null });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error starting experiment:', error);
+    return apiError('Failed to start experiment', 500);
+  }
+});
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { experimentDatabaseError } from '@/lib/experiments/experiments';
+import { loadExperiments } from '@/lib/experiments/experiment-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/experiments/[id]/stop
+ * Stop a running experiment: every session gets the regular checkout again
+ * and the results period ends
+ */
+export const POST = withPermission('settings', 'write', async (_request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Experiment ID is required', 400);
+    }
+
+    const { error } = await getSupabaseAdmin().rpc('set_experiment_status', {
+      p_account_id: user.account_id,
+      p_experiment_id: id,
+      p_status: 'stopped',
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error stopping experiment:', error);
+      return experimentDatabaseError(error, 'Failed to stop experiment');
+    }
+
+    const { experiments } = await loadExperiments(user.account_id, { experimentId: id });
+
+    return apiSuccess({ experiment: experiments[0] ?? null });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error stopping experiment:', error);
+    return apiError('Failed to stop experiment', 500);
+  }
+});
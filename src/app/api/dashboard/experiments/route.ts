@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { ExperimentSchema, experimentDatabaseError } from '@/lib/experiments/experiments';
+import { findMissingThemes, loadExperiments } from '@/lib/experiments/experiment-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/experiments
+ * Get the checkout experiments of the account
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { experiments, error } = await loadExperiments(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching experiments:', error);
+      return apiError('Failed to fetch experiments', 500);
+    }
+
+    return apiSuccess({ experiments });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching experiments:', error);
+    return apiError('Failed to fetch experiments', 500);
+  }
+}
+
+/**
+ * POST /api/dashboard/experiments
+ * Create a checkout experiment (as a draft)
+ */
+export const POST = withPermission('settings', 'write', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const body = await request.json();
+    const validationResult = ExperimentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    const experiment = validationResult.data;
+
+    if (experiment.type === 'theme') {
+      const { missing, error: themesError } = await findMissingThemes(
+        user.account_id,
+        experiment.variants
+      );
+      if (themesError) {
+        console.error('❌ [DEBUG] Error fetching themes for experiment:', themesError);
+        return apiError('Failed to create experiment', 500);
+      }
+      if (missing.length > 0) {
+        return apiError(`Theme not found: ${missing.join(', ')}`, 422);
+      }
+    }
+
+    const { data: experimentId, error: createError } = await getSupabaseAdmin().rpc(
+      'create_experiment',
+      {
+        p_account_id: user.account_id,
+        p_name: experiment.name,
+        p_description: experiment.description ?? null,
+        p_experiment_type: experiment.type,
+        p_variants: experiment.variants,
+        p_significance_level: experiment.significanceLevel,
+        p_min_sessions_per_variant: experiment.minSessionsPerVariant,
+        p_created_by: user.id,
+      }
+    );
+
+    if (createError) {
+      console.error('❌ [DEBUG] Error creating experiment:', createError);
+      return experimentDatabaseError(createError, 'Failed to create experiment');
+    }
+
+    const { experiments, error } = await loadExperiments(user.account_id, { experimentId });
+
+    if (error || experiments.length === 0) {
+      console.error('❌ [DEBUG] Error fetching created experiment:', error);
+      return apiError('Failed to create experiment', 500);
+    }
+
+    return apiSuccess({ experiment: experiments[0] }, 201);
+  } catch (error) {
+    console.error('❌ [DEBUG] Error creating experiment:', error);
+    return apiError('Failed to create experiment', 500);
+  }
+});
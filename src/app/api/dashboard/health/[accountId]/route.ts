@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { performHealthCheck, fixHealthCheckIssues } from '@/lib/automation/health-check-service';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -40,20 +41,11 @@ export async function GET(
  * POST /api/dashboard/health/[accountId]/fix
  * Attempt to fix health check issues (admin only)
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { accountId: string } }
-) {
+export const POST = withPermission('settings', 'write', async (request: NextRequest, { params }) => {
   try {
-    const authResult = await getAuthenticatedUser();
-    const { user } = authResult;
-
-    // Only owner and admin can fix health issues
-    if (user.role !== 'owner' && user.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Forbidden: Only administrators can fix health issues' },
-        { status: 403 }
-      );
+    const accountId = params?.accountId;
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
     }
 
     const body = await request.json();
@@ -66,7 +58,7 @@ export async function POST(
       );
     }
 
-    const result = await fixHealthCheckIssues(params.accountId, checkType);
+    const result = await fixHealthCheckIssues(accountId, checkType);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -76,5 +68,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
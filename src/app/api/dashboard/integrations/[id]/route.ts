@@ -1,26 +1,19 @@
 import { NextRequest } from 'next/server';
-import { withAuth } from '@/lib/api/route-handler';
-import { apiSuccess, apiError, apiUnauthorized, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiNotFound } from '@/lib/api/responses';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import type { AuthResult } from '@/lib/api/auth';
 
 /**
  * DELETE /api/dashboard/integrations/[id]
- * Delete custom API key by ID (admin/owner only)
+ * Delete custom API key by ID (requires integrations delete)
  * Cannot delete metrics key via this endpoint
  */
 export const dynamic = 'force-dynamic';
-export const DELETE = withAuth(
-  async (
-    _request: NextRequest,
-    { user, params }: AuthResult & { params?: Record<string, string> }
-  ) => {
+export const DELETE = withPermission(
+  'integrations',
+  'delete',
+  async (_request: NextRequest, { user, params, audit }) => {
     try {
-      // Check permissions: only admin and owner can delete API keys
-      if (user.role !== 'admin' && user.role !== 'owner') {
-        return apiUnauthorized('Only administrators can delete API keys');
-      }
-
       const keyId = params?.id;
 
       if (!keyId) {
@@ -47,6 +40,8 @@ export const DELETE = withAuth(
         return apiNotFound('API key not found or cannot be deleted');
       }
 
+      audit({ action: 'api_key.delete', resourceType: 'api_key' });
+
       return apiSuccess({
         success: true,
         message: 'API key deleted successfully',
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiNotFound } from '@/lib/api/responses';
+import { deleteAllowedOrigin } from '@/lib/api/cors';
+import type { AuthResult } from '@/lib/api/auth';
+
+/**
+ * DELETE /api/dashboard/integrations/allowed-origins/[id]
+ * Remove an allowed origin (requires integrations delete)
+ */
+export const dynamic = 'force-dynamic';
+export const DELETE = withPermission(
+  'integrations',
+  'delete',
+  async (
+    _request: NextRequest,
+    { user, params }: AuthResult & { params?: Record<string, string> }
+  ) => {
+    try {
+      const originId = params?.id;
+
+      if (!originId) {
+        return apiError('Allowed origin ID is required', 400);
+      }
+
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { deleted, error } = await deleteAllowedOrigin(user.account_id, originId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error deleting allowed origin:', error);
+        return apiError('Failed to delete allowed origin', 500);
+      }
+
+      if (!deleted) {
+        return apiNotFound('Allowed origin not found');
+      }
+
+      return apiSuccess({ success: true, message: 'Allowed origin deleted' });
+    } catch (error) {
+      console.error('❌ [DEBUG] Error in allowed origins DELETE API:', error);
+      return apiError('Internal server error', 500);
+    }
+  }
+);
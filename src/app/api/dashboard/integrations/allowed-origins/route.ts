@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { withAuth, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { addAllowedOrigin, getAllowedOrigins, normalizeOrigin } from '@/lib/api/cors';
+
+export const dynamic = 'force-dynamic';
+
+const allowedOriginSchema = z.object({
+  origin: z
+    .string()
+    .trim()
+    .min(1, 'Origin is required')
+    .refine((value) => normalizeOrigin(value) !== null, {
+      message:
+        'Origin must be scheme://host[:port] without a path, e.g. https://shop.example.com or https://*.example.com',
+    }),
+});
+
+/**
+ * GET /api/dashboard/integrations/allowed-origins
+ * Checkout origins allowed to call the account's public BoltX and metrics endpoints
+ */
+export const GET = withAuth(async (_request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { origins, error } = await getAllowedOrigins(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching allowed origins:', error);
+      return apiError('Failed to fetch allowed origins', 500);
+    }
+
+    return apiSuccess({ origins });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error in allowed origins GET API:', error);
+    return apiError('Internal server error', 500);
+  }
+});
+
+/**
+ * POST /api/dashboard/integrations/allowed-origins
+ * Register an allowed origin (requires integrations write)
+ */
+export const POST = withPermissionAndValidation(
+  'integrations',
+  'write',
+  allowedOriginSchema,
+  async (_request: NextRequest, { user, body }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const origin = normalizeOrigin(body.origin) as string;
+      const { id, error } = await addAllowedOrigin(user.account_id, origin, user.id);
+
+      if (error || !id) {
+        console.error('❌ [DEBUG] Error adding allowed origin:', error);
+        return apiError('Failed to add allowed origin', 500);
+      }
+
+      return apiSuccess({ origin: { id, origin }, message: 'Allowed origin added' }, 201);
+    } catch (error) {
+      console.error('❌ [DEBUG] Error in allowed origins POST API:', error);
+      return apiError('Internal server error', 500);
+    }
+  }
+);
@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server';
-import { withAuth } from '@/lib/api/route-handler';
-import { apiSuccess, apiError, apiUnauthorized } from '@/lib/api/responses';
+import { withAuth, withPermission } from '@/lib/api/route-handler';
+import { apiSuccess, apiError } from '@/lib/api/responses';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import {
   generateApiKey,
@@ -41,16 +41,11 @@ export const GET = withAuth(async (_request: NextRequest, { user }) => {
 
 /**
  * POST /api/dashboard/integrations/metrics
- * Regenerate metrics API key (admin/owner only)
+ * Regenerate metrics API key (requires integrations write)
  * Auto-creates if doesn't exist
  */
-export const POST = withAuth(async (_request: NextRequest, { user }) => {
+export const POST = withPermission('integrations', 'write', async (_request: NextRequest, { user }) => {
   try {
-    // Check permissions: only admin and owner can regenerate metrics API key
-    if (user.role !== 'admin' && user.role !== 'owner') {
-      return apiUnauthorized('Only administrators can regenerate the metrics API key');
-    }
-
     const supabaseAdmin = getSupabaseAdmin();
 
     // Generate new metrics API key
@@ -1,17 +1,28 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { withAuth, withAuthAndValidation } from '@/lib/api/route-handler';
-import { apiSuccess, apiError, apiUnauthorized } from '@/lib/api/responses';
+import { withAuth, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError } from '@/lib/api/responses';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import {
   generateApiKey,
   hashApiKey,
   extractKeyParts,
 } from '@/utils/auth/api-key-generator';
+import { API_KEY_SCOPES } from '@/utils/auth/api-key-scopes';
 
 const createApiKeySchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
   description: z.string().max(500, 'Description too long').optional(),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, 'At least one scope is required')
+    .default(['ingest']),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true, message: 'Invalid expiration date' })
+    .refine((value) => new Date(value).getTime() > Date.now(), 'Expiration date must be in the future')
+    .nullable()
+    .optional(),
 });
 
 /**
@@ -45,17 +56,14 @@ export const GET = withAuth(async (_request: NextRequest, { user }) => {
 
 /**
  * POST /api/dashboard/integrations
- * Create a new custom API key (admin/owner only)
+ * Create a new custom API key with scopes and optional expiry (requires integrations write)
  */
-export const POST = withAuthAndValidation(
+export const POST = withPermissionAndValidation(
+  'integrations',
+  'write',
   createApiKeySchema,
-  async (_request: NextRequest, { user, body }) => {
+  async (_request: NextRequest, { user, body, audit }) => {
     try {
-      // Check permissions: only admin and owner can create API keys
-      if (user.role !== 'admin' && user.role !== 'owner') {
-        return apiUnauthorized('Only administrators can create API keys');
-      }
-
       const supabaseAdmin = getSupabaseAdmin();
 
       // Generate new API key
@@ -74,6 +82,8 @@ export const POST = withAuthAndValidation(
           p_key_prefix: prefix,
           p_key_suffix: suffix,
           p_created_by: user.id,
+          p_scopes: Array.from(new Set(body.scopes)),
+          p_expires_at: body.expiresAt || null,
         }
       );
 
@@ -84,6 +94,19 @@ export const POST = withAuthAndValidation(
         return apiError('Failed to create API key', 500);
       }
 
+      audit({
+        action: 'api_key.create',
+        resourceType: 'api_key',
+        resourceId: createdKey.id,
+        after: {
+          name: body.name,
+          key_prefix: prefix,
+          key_suffix: suffix,
+          scopes: Array.from(new Set(body.scopes)),
+          expires_at: body.expiresAt || null,
+        },
+      });
+
       // Return the created key with the full API key (only shown once)
       return apiSuccess(
         {
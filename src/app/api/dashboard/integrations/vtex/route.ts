@@ -1,24 +1,29 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { withAuth, withAuthAndValidation } from '@/lib/api/route-handler';
-import { apiSuccess, apiError, apiUnauthorized } from '@/lib/api/responses';
+import {
+  withAuth,
+  withPermission,
+  withPermissionAndValidation,
+} from '@/lib/api/route-handler';
+import { apiSuccess, apiError } from '@/lib/api/responses';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { decryptSecret, encryptSecret, secretContext } from '@/lib/secrets/envelope';
 
 export const dynamic = 'force-dynamic';
 
+type VtexCredentialField = 'app_key' | 'app_token';
+
 /**
- * Simple encryption/decryption for VTEX credentials
- * In production, consider using a more robust solution like AWS KMS or similar
+ * Envelope encryption for VTEX credentials (bound to the account and field)
  */
-function encryptCredential(credential: string): string {
-  // Simple base64 encoding for now - in production use proper encryption
-  // TODO: Implement proper encryption (e.g., using crypto module)
-  return Buffer.from(credential).toString('base64');
+function encryptCredential(credential: string, field: VtexCredentialField, accountId: string): string {
+  return encryptSecret(credential, { context: secretContext('vtex_credentials', field, accountId) })
+    .ciphertext;
 }
 
-function decryptCredential(encrypted: string): string {
-  // Simple base64 decoding for now
-  return Buffer.from(encrypted, 'base64').toString('utf-8');
+function decryptCredential(encrypted: string, field: VtexCredentialField, accountId: string): string {
+  return decryptSecret(encrypted, { context: secretContext('vtex_credentials', field, accountId) });
 }
 
 function maskCredential(credential: string): string {
@@ -35,10 +40,14 @@ const vtexCredentialsSchema = z.object({
 /**
  * GET /api/dashboard/integrations/vtex
  * Get VTEX credentials for the authenticated user's account
- * Returns full credentials for admin/owner, masked for other roles
+ * Returns full credentials to users who can write integrations, masked otherwise
  */
 export const GET = withAuth(async (_request: NextRequest, { user }) => {
   try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
     const supabaseAdmin = getSupabaseAdmin();
 
     // Get VTEX credentials for this account using RPC function
@@ -71,25 +80,25 @@ export const GET = withAuth(async (_request: NextRequest, { user }) => {
       });
     }
 
-    // Check if user is admin or owner - they can see full credentials
-    const canViewFullCredentials = user.role === 'admin' || user.role === 'owner';
+    // Users who can edit the credentials can see them in full
+    const canViewFullCredentials = await userHasPermission(user, 'integrations', 'write');
 
     if (canViewFullCredentials) {
-      // Return full credentials for admin/owner
+      // Return full credentials
       return apiSuccess({
         credentials: {
           id: credential.id,
           account_id: credential.account_id,
-          app_key: decryptCredential(credential.app_key_encrypted),
-          app_token: decryptCredential(credential.app_token_encrypted),
+          app_key: decryptCredential(credential.app_key_encrypted, 'app_key', user.account_id),
+          app_token: decryptCredential(credential.app_token_encrypted, 'app_token', user.account_id),
           created_at: credential.created_at,
           updated_at: credential.updated_at,
         },
       });
     } else {
       // Return masked credentials for other roles
-      const decryptedKey = decryptCredential(credential.app_key_encrypted);
-      const decryptedToken = decryptCredential(credential.app_token_encrypted);
+      const decryptedKey = decryptCredential(credential.app_key_encrypted, 'app_key', user.account_id);
+      const decryptedToken = decryptCredential(credential.app_token_encrypted, 'app_token', user.account_id);
       
       return apiSuccess({
         credentials: {
@@ -110,22 +119,23 @@ export const GET = withAuth(async (_request: NextRequest, { user }) => {
 
 /**
  * PATCH /api/dashboard/integrations/vtex
- * Save or update VTEX credentials (admin/owner only)
+ * Save or update VTEX credentials (requires integrations write)
  */
-export const PATCH = withAuthAndValidation(
+export const PATCH = withPermissionAndValidation(
+  'integrations',
+  'write',
   vtexCredentialsSchema,
   async (_request: NextRequest, { user, body }) => {
     try {
-      // Check permissions: only admin and owner can save/update credentials
-      if (user.role !== 'admin' && user.role !== 'owner') {
-        return apiUnauthorized('Only administrators can save VTEX credentials');
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
       }
 
       const supabaseAdmin = getSupabaseAdmin();
 
       // Encrypt credentials before storing
-      const encryptedKey = encryptCredential(body.app_key.trim());
-      const encryptedToken = encryptCredential(body.app_token.trim());
+      const encryptedKey = encryptCredential(body.app_key.trim(), 'app_key', user.account_id);
+      const encryptedToken = encryptCredential(body.app_token.trim(), 'app_token', user.account_id);
 
       // Upsert credentials using RPC function
       const { data: credentialId, error: upsertError } = await supabaseAdmin.rpc(
@@ -155,13 +165,13 @@ export const PATCH = withAuthAndValidation(
 
       const credential = updatedCredentials[0];
 
-      // Return full credentials (user is admin/owner, so they can see them)
+      // Return full credentials (the user can write integrations, so they can see them)
       return apiSuccess({
         credentials: {
           id: credential.id,
           account_id: credential.account_id,
-          app_key: decryptCredential(credential.app_key_encrypted),
-          app_token: decryptCredential(credential.app_token_encrypted),
+          app_key: decryptCredential(credential.app_key_encrypted, 'app_key', user.account_id),
+          app_token: decryptCredential(credential.app_token_encrypted, 'app_token', user.account_id),
           created_at: credential.created_at,
           updated_at: credential.updated_at,
         },
@@ -176,15 +186,10 @@ export const PATCH = withAuthAndValidation(
 
 /**
  * DELETE /api/dashboard/integrations/vtex
- * Delete VTEX credentials (admin/owner only)
+ * Delete VTEX credentials (requires integrations delete)
  */
-export const DELETE = withAuth(async (_request: NextRequest, { user }) => {
+export const DELETE = withPermission('integrations', 'delete', async (_request: NextRequest, { user }) => {
   try {
-    // Check permissions: only admin and owner can delete credentials
-    if (user.role !== 'admin' && user.role !== 'owner') {
-      return apiUnauthorized('Only administrators can delete VTEX credentials');
-    }
-
     const supabaseAdmin = getSupabaseAdmin();
 
     // Delete credentials using RPC function
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { redeliverWebhookDelivery } from '@/lib/webhooks/deliveries';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/integrations/webhooks/[endpointId]/deliveries/[deliveryId]/redeliver
+ * Queue a succeeded or dead delivery again (sent on the next job run)
+ */
+export const POST = withPermission(
+  'integrations',
+  'write',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const deliveryId = params?.deliveryId;
+      if (!deliveryId) {
+        return apiError('Delivery ID is required', 400);
+      }
+
+      const { queued, error } = await redeliverWebhookDelivery(user.account_id, deliveryId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error queueing webhook redelivery:', error);
+        return apiError('Failed to queue redelivery', 500);
+      }
+
+      if (!queued) {
+        return apiError('Delivery not found or already pending', 409);
+      }
+
+      audit({
+        action: 'webhook_delivery.redeliver',
+        resourceType: 'webhook_delivery',
+        resourceId: deliveryId,
+      });
+
+      return apiSuccess({ message: 'Redelivery queued' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
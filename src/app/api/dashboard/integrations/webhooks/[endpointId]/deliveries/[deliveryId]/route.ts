@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { getWebhookDeliveryAttempts } from '@/lib/webhooks/deliveries';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/integrations/webhooks/[endpointId]/deliveries/[deliveryId]
+ * Attempts of a delivery with their request headers and responses
+ */
+export const GET = withPermission(
+  'integrations',
+  'read',
+  async (_request: NextRequest, { user, params }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const deliveryId = params?.deliveryId;
+      if (!deliveryId) {
+        return apiError('Delivery ID is required', 400);
+      }
+
+      const { attempts, error } = await getWebhookDeliveryAttempts(user.account_id, deliveryId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error fetching webhook delivery attempts:', error);
+        return apiError('Failed to fetch webhook delivery attempts', 500);
+      }
+
+      return apiSuccess({ attempts });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  getWebhookDeliveries,
+  type WebhookDeliveryStatus,
+} from '@/lib/webhooks/deliveries';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/integrations/webhooks/[endpointId]/deliveries
+ * Delivery log of an endpoint, newest first
+ * Query: ?status=pending|succeeded|dead
+ */
+export const GET = withPermission(
+  'integrations',
+  'read',
+  async (request: NextRequest, { user, params }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const endpointId = params?.endpointId;
+      if (!endpointId) {
+        return apiError('Endpoint ID is required', 400);
+      }
+
+      const status = request.nextUrl.searchParams.get('status');
+      if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        return apiError('Invalid status', 400);
+      }
+
+      const { deliveries, error } = await getWebhookDeliveries(user.account_id, endpointId, {
+        status: (status as WebhookDeliveryStatus | null) ?? undefined,
+      });
+
+      if (error) {
+        console.error('❌ [DEBUG] Error fetching webhook deliveries:', error);
+        return apiError('Failed to fetch webhook deliveries', 500);
+      }
+
+      return apiSuccess({ deliveries });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import {
+  WebhookEndpointSchema,
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  saveWebhookEndpoint,
+  toWebhookEndpointSettings,
+} from '@/lib/webhooks/endpoints';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/dashboard/integrations/webhooks/[endpointId]
+ * Update a webhook endpoint
+ * Returns the new signing secret when it is rotated
+ */
+export const PUT = withPermissionAndValidation(
+  'integrations',
+  'write',
+  WebhookEndpointSchema,
+  async (_request: NextRequest, { user, params, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const endpointId = params?.endpointId;
+      if (!endpointId) {
+        return apiError('Endpoint ID is required', 400);
+      }
+
+      const { endpoint: existing } = await getWebhookEndpoint(user.account_id, endpointId);
+      if (!existing) {
+        return apiNotFound('Webhook endpoint not found');
+      }
+
+      const { endpoint, secret, error } = await saveWebhookEndpoint(user.account_id, body, {
+        endpointId,
+      });
+
+      if (error || !endpoint) {
+        console.error('❌ [DEBUG] Error updating webhook endpoint:', error);
+        return apiError('Failed to update webhook endpoint', 500);
+      }
+
+      const settings = toWebhookEndpointSettings(endpoint);
+
+      audit({
+        action: secret ? 'webhook_endpoint.rotate_secret' : 'webhook_endpoint.update',
+        resourceType: 'webhook_endpoint',
+        resourceId: endpoint.id,
+        before: toWebhookEndpointSettings(existing),
+        after: settings,
+      });
+
+      return apiSuccess({ endpoint: settings, secret });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/dashboard/integrations/webhooks/[endpointId]
+ * Delete a webhook endpoint and its delivery log
+ */
+export const DELETE = withPermission(
+  'integrations',
+  'delete',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const endpointId = params?.endpointId;
+      if (!endpointId) {
+        return apiError('Endpoint ID is required', 400);
+      }
+
+      const { deleted, error } = await deleteWebhookEndpoint(user.account_id, endpointId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error deleting webhook endpoint:', error);
+        return apiError('Failed to delete webhook endpoint', 500);
+      }
+
+      if (!deleted) {
+        return apiNotFound('Webhook endpoint not found');
+      }
+
+      audit({
+        action: 'webhook_endpoint.delete',
+        resourceType: 'webhook_endpoint',
+        resourceId: endpointId,
+      });
+
+      return apiSuccess({ message: 'Webhook endpoint deleted' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
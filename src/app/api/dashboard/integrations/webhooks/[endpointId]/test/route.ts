@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import { getWebhookEndpoint } from '@/lib/webhooks/endpoints';
+import { sendWebhookTestEvent } from '@/lib/webhooks/delivery-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/integrations/webhooks/[endpointId]/test
+ * Send a webhook.test event to an endpoint right away (recorded in its
+ * delivery log, not retried)
+ */
+export const POST = withPermission(
+  'integrations',
+  'write',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { endpoint, error: endpointError } = await getWebhookEndpoint(
+        user.account_id,
+        params?.endpointId ?? ''
+      );
+
+      if (endpointError) {
+        console.error('❌ [DEBUG] Error fetching webhook endpoint:', endpointError);
+        return apiError('Failed to fetch webhook endpoint', 500);
+      }
+
+      if (!endpoint) {
+        return apiNotFound('Webhook endpoint not found');
+      }
+
+      const { result, error } = await sendWebhookTestEvent(endpoint);
+
+      if (error || !result) {
+        console.error('❌ [DEBUG] Error sending webhook test event:', error);
+        return apiError('Failed to send test event', 500);
+      }
+
+      audit({
+        action: 'webhook_endpoint.test',
+        resourceType: 'webhook_endpoint',
+        resourceId: endpoint.id,
+      });
+
+      if (result.status !== 'succeeded') {
+        return apiError(`Delivery failed: ${result.error}`, 502);
+      }
+
+      return apiSuccess({ message: 'Test event delivered', responseStatus: result.responseStatus });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
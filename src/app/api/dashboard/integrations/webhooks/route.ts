@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import {
+  WebhookEndpointSchema,
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  toWebhookEndpointSettings,
+} from '@/lib/webhooks/endpoints';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/integrations/webhooks
+ * Webhook endpoints of the account (without their secrets)
+ */
+export const GET = withPermission(
+  'integrations',
+  'read',
+  async (_request: NextRequest, { user }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { endpoints, error } = await getWebhookEndpoints(user.account_id);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error fetching webhook endpoints:', error);
+        return apiError('Failed to fetch webhook endpoints', 500);
+      }
+
+      return apiSuccess({ endpoints: endpoints.map(toWebhookEndpointSettings) });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
+
+/**
+ * POST /api/dashboard/integrations/webhooks
+ * Create a webhook endpoint
+ * Its signing secret is only returned here (and when it is rotated)
+ */
+export const POST = withPermissionAndValidation(
+  'integrations',
+  'write',
+  WebhookEndpointSchema,
+  async (_request: NextRequest, { user, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { endpoint, secret, error } = await saveWebhookEndpoint(user.account_id, body, {
+        createdBy: user.id,
+      });
+
+      if (error || !endpoint) {
+        console.error('❌ [DEBUG] Error creating webhook endpoint:', error);
+        return apiError('Failed to create webhook endpoint', 500);
+      }
+
+      const settings = toWebhookEndpointSettings(endpoint);
+
+      audit({
+        action: 'webhook_endpoint.create',
+        resourceType: 'webhook_endpoint',
+        resourceId: endpoint.id,
+        after: settings,
+      });
+
+      return apiSuccess({ endpoint: settings, secret }, 201);
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -2,66 +2,84 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
 import type { AnalyticsEvent } from '@/hooks/useDashboardData';
-import { isSessionValid } from '@/lib/api/auth';
+import { AuthError, isSessionValid } from '@/lib/api/auth';
+import { authenticateApiKey } from '@/lib/api/api-key-auth';
 import { getDateRange, parsePeriod } from '@/utils/date-ranges';
 import { shouldUseDemoData } from '@/lib/automation/demo-mode';
 import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
+import { aggregateDashboardFunnel, aggregateDashboardMetrics } from '@/lib/analytics/dashboard-metrics';
 
 /**
  * GET /api/dashboard/metrics
- * Get aggregated metrics for the authenticated user's account
+ * Get aggregated metrics for the authenticated user's account, or for the
+ * account that owns the X-API-Key (requires the 'read-metrics' scope)
  */
 export const dynamic = 'force-dynamic';
 
 export async function GET(_request: NextRequest) {
   try {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
+    const supabaseAdmin = getSupabaseAdmin();
+    let accountId: string;
+
+    if (_request.headers.get('X-API-Key')) {
+      // Server-to-server reads: the account that owns the key (requires 'read-metrics' scope)
+      try {
+        ({ accountId } = await authenticateApiKey(_request, 'read-metrics'));
+      } catch (authError) {
+        if (authError instanceof AuthError) {
+          return NextResponse.json({ error: authError.message }, { status: authError.status });
+        }
+        throw authError;
+      }
+    } else {
+      const cookieStore = await cookies();
+      const sessionToken = cookieStore.get('dashboard_session')?.value;
 
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
+      if (!sessionToken) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+      }
 
-    const supabaseAdmin = getSupabaseAdmin();
+      // Find session using RPC function (required for custom schema)
+      const { data: sessions, error: sessionError } = await supabaseAdmin
+        .rpc('get_session_by_token', { p_token: sessionToken });
 
-    // Find session using RPC function (required for custom schema)
-    const { data: sessions, error: sessionError } = await supabaseAdmin
-      .rpc('get_session_by_token', { p_token: sessionToken });
+      const session = sessions && sessions.length > 0 ? sessions[0] : null;
 
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
+      if (sessionError || !session) {
+        console.error('🚨 [DEBUG] Session error:', sessionError);
+        return NextResponse.json(
+          { error: 'Invalid or expired session' },
+          { status: 401 }
+        );
+      }
 
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json(
-        { error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
+      // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
+      if (!isSessionValid(session.expires_at)) {
+        return NextResponse.json(
+          { error: 'Session expired' },
+          { status: 401 }
+        );
+      }
 
-    // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json(
-        { error: 'Session expired' },
-        { status: 401 }
-      );
-    }
+      // Get user to find their account_id using RPC function (required for custom schema)
+      const { data: users, error: userError } = await supabaseAdmin
+        .rpc('get_user_by_id', { p_user_id: session.user_id });
 
-    // Get user to find their account_id using RPC function (required for custom schema)
-    const { data: users, error: userError } = await supabaseAdmin
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
+      const user = users && users.length > 0 ? users[0] : null;
 
-    const user = users && users.length > 0 ? users[0] : null;
+      if (userError || !user) {
+        console.error('🚨 [DEBUG] User query error:', userError);
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
 
-    if (userError || !user) {
-      console.error('🚨 [DEBUG] User query error:', userError);
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      accountId = user.account_id;
     }
 
     // Check if account is in demo mode
-    const isDemo = await shouldUseDemoData(user.account_id);
+    const isDemo = await shouldUseDemoData(accountId);
     if (isDemo) {
       console.info('✅ [DEBUG] Account in demo mode, returning mock data');
-      const mockData = await getMockDataFromRequest('metrics', user.account_id, _request);
+      const mockData = await getMockDataFromRequest('metrics', accountId, _request);
       return NextResponse.json(mockData);
     }
 
@@ -96,7 +114,7 @@ export async function GET(_request: NextRequest) {
     // Get metrics from analytics.events table using RPC function (required for custom schema)
     const { data: metrics, error: metricsError } = await supabaseAdmin
       .rpc('get_analytics_events', {
-        p_customer_id: user.account_id,
+        p_customer_id: accountId,
         p_start_date: range.start.toISOString(),
         p_end_date: range.end.toISOString(),
       });
@@ -109,44 +127,9 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    // Helper function to clamp percentage between 0 and 100
-    const clampPercentage = (value: number): number => {
-      return Math.max(0, Math.min(100, value));
-    };
-
-    // Aggregate metrics
-    const aggregated = {
-      totalSessions: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'checkout_start').length || 0,
-      totalConversions: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'checkout_complete').length || 0,
-      totalRevenue: metrics?.reduce((sum: number, e: AnalyticsEvent) => {
-        if (e.metadata?.revenue) {
-          return sum + parseFloat(String(e.metadata.revenue));
-        }
-        return sum;
-      }, 0) || 0,
-      totalOrders: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'checkout_complete').length || 0,
-      avgOrderValue: 0,
-      conversionRate: 0,
-      abandonmentRate: 0,
-    };
-
-    if (aggregated.totalSessions > 0) {
-      aggregated.conversionRate = clampPercentage((aggregated.totalConversions / aggregated.totalSessions) * 100);
-      aggregated.abandonmentRate = clampPercentage(100 - aggregated.conversionRate);
-    }
-
-    if (aggregated.totalOrders > 0) {
-      aggregated.avgOrderValue = aggregated.totalRevenue / aggregated.totalOrders;
-    }
-
-    // Calculate funnel metrics
-    const funnelSteps = {
-      cart: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'cart_view').length || 0,
-      profile: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'profile_step').length || 0,
-      shipping: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'shipping_step').length || 0,
-      payment: metrics?.filter((e: AnalyticsEvent) => e.event_type === 'payment_step').length || 0,
-      confirmed: aggregated.totalConversions,
-    };
+    const events: AnalyticsEvent[] = metrics || [];
+    const aggregated = aggregateDashboardMetrics(events);
+    const funnelSteps = aggregateDashboardFunnel(events);
 
     return NextResponse.json({
       metrics: aggregated,
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError } from '@/lib/api/responses';
+import {
+  createRealtimeMetricsStream,
+  getRealtimeSnapshot,
+  parseRealtimeMetrics,
+} from '@/lib/analytics/realtime-metrics';
+
+/**
+ * GET /api/dashboard/metrics/stream?metrics=active_sessions,revenue
+ * Server-Sent Events stream of the account's rolling metrics (last 5 minutes)
+ * Resumes from the Last-Event-ID header (or ?lastEventId= for manual reconnects)
+ */
+export const dynamic = 'force-dynamic';
+
+export const GET = withAuth(async (request, { user }) => {
+  const accountId = user.account_id;
+  if (!accountId) {
+    return apiError('User account not found', 404);
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  // The hook sends the account it expects; it can only be the user's own
+  const requestedAccountId = searchParams.get('accountId');
+  if (requestedAccountId && requestedAccountId !== accountId) {
+    return apiError('Access denied to this account', 403);
+  }
+
+  const { metrics, invalid } = parseRealtimeMetrics(searchParams.get('metrics'));
+  if (invalid.length > 0) {
+    return apiError(`Unknown metrics: ${invalid.join(', ')}`, 400);
+  }
+
+  // Load the first snapshot before opening the stream so failures are HTTP errors
+  // (EventSource does not retry those)
+  const { snapshot, error } = await getRealtimeSnapshot(accountId);
+  if (error || !snapshot) {
+    console.error('❌ [DEBUG] Error loading realtime metrics:', error);
+    return apiError('Failed to load realtime metrics', 500);
+  }
+
+  const stream = createRealtimeMetricsStream({
+    accountId,
+    metrics,
+    initialSnapshot: snapshot,
+    lastEventId: request.headers.get('last-event-id') || searchParams.get('lastEventId'),
+    signal: request.signal,
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
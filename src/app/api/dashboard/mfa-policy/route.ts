@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
+import { MfaPolicySchema, getMfaPolicy, saveMfaPolicy } from '@/lib/mfa/policy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/mfa-policy
+ * Roles of the account whose users must use a second factor
+ */
+export const GET = withPermission('settings', 'read', async (_request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { policy, error } = await getMfaPolicy(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching MFA policy:', error);
+      return apiError('Failed to fetch MFA policy', 500);
+    }
+
+    return apiSuccess({ policy });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * PUT /api/dashboard/mfa-policy
+ * Require a second factor for some or all roles (requires settings manage)
+ */
+export const PUT = withPermissionAndValidation(
+  'settings',
+  'manage',
+  MfaPolicySchema,
+  async (_request: NextRequest, { user, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { policy: previous } = await getMfaPolicy(user.account_id);
+      const { error } = await saveMfaPolicy(user.account_id, body, user.id);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error saving MFA policy:', error);
+        return apiError('Failed to save MFA policy', 500);
+      }
+
+      audit({
+        action: 'mfa_policy.update',
+        resourceType: 'mfa_policy',
+        resourceId: user.account_id,
+        before: { requiredRoles: previous.requiredRoles },
+        after: { requiredRoles: body.requiredRoles },
+      });
+
+      const { policy } = await getMfaPolicy(user.account_id);
+      return apiSuccess({ policy, message: 'MFA policy saved' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
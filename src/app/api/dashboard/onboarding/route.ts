@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUserOrNull } from '@/lib/api/auth';
 import { triggerOnboarding } from '@/lib/automation/onboarding-service';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -69,27 +70,8 @@ export async function GET(_request: NextRequest) {
  * POST /api/dashboard/onboarding/retry
  * Retry failed onboarding steps
  */
-export async function POST(_request: NextRequest) {
+export const POST = withPermission('settings', 'write', async (_request: NextRequest, { user }) => {
   try {
-    const authResult = await getAuthenticatedUserOrNull();
-
-    if (!authResult) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    const { user } = authResult;
-
-    // Only admin and owner can manually trigger onboarding
-    if (user.role !== 'admin' && user.role !== 'owner') {
-      return NextResponse.json(
-        { error: 'Forbidden: Only administrators can start onboarding' },
-        { status: 403 }
-      );
-    }
-
     const supabase = getSupabaseAdmin();
 
     // Check if account has active subscription
@@ -127,5 +109,5 @@ export async function POST(_request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
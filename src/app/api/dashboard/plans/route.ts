@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
-import { withAuth } from '@/lib/api/route-handler';
-import { apiError, apiInternalError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiInternalError } from '@/lib/api/responses';
 import { isSessionValid } from '@/lib/api/auth';
 import {
-  convertCurrency,
+  BASE_CURRENCY,
+  getCurrencyConversion,
+  getExchangeRates,
   validateCurrency,
   getDefaultCurrency,
   isCurrencySupported,
@@ -15,7 +17,7 @@ import {
 /**
  * GET /api/dashboard/plans
  * Get all available plans for the authenticated user
- * Supports regional pricing via ?currency=USD|BRL query parameter
+ * Supports regional pricing via ?currency=USD|BRL|EUR|MXN|ARS|COP query parameter
  */
 export const dynamic = 'force-dynamic';
 
@@ -76,26 +78,41 @@ export async function GET(request: NextRequest) {
     }
 
     // Convert prices if currency is different from USD (base currency)
-    const baseCurrency: CurrencyCode = 'USD';
-    const convertedPlans = (plans || []).map((plan: any) => {
-      if (targetCurrency === baseCurrency) {
-        return plan;
-      }
-
-      // Convert monthly price
-      const convertedPrice = convertCurrency(plan.monthly_price || 0, baseCurrency, targetCurrency);
+    const baseCurrency: CurrencyCode = BASE_CURRENCY;
+    const exchangeRates = targetCurrency === baseCurrency ? null : await getExchangeRates();
+    const convertedPlans = await Promise.all(
+      (plans || []).map(async (plan: any) => {
+        if (!exchangeRates) {
+          return plan;
+        }
 
-      return {
-        ...plan,
-        monthly_price: convertedPrice,
-        original_currency: baseCurrency,
-        display_currency: targetCurrency,
-      };
-    });
+        // Convert monthly price
+        const conversion = await getCurrencyConversion(
+          plan.monthly_price || 0,
+          baseCurrency,
+          targetCurrency,
+          exchangeRates
+        );
+
+        return {
+          ...plan,
+          monthly_price: conversion.amount,
+          original_currency: baseCurrency,
+          display_currency: targetCurrency,
+        };
+      })
+    );
 
     return NextResponse.json({
       plans: convertedPlans,
       currency: targetCurrency,
+      exchange_rate: exchangeRates
+        ? {
+            rate: exchangeRates.rates[targetCurrency],
+            provider: exchangeRates.provider,
+            fetched_at: exchangeRates.fetchedAt,
+          }
+        : null,
     });
   } catch (error) {
     console.error('❌ [DEBUG] Unexpected error in plans endpoint:', error);
@@ -105,18 +122,13 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/dashboard/plans
- * Create or update a plan (admin only - for future use)
+ * Create or update a plan (requires billing write - for future use)
  */
-export const POST = withAuth(async (_request: NextRequest, { user }) => {
+export const POST = withPermission('billing', 'write', async (_request: NextRequest) => {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
 
-    // Check permissions: only admin and owner can manage plans
-    if (user.role !== 'admin' && user.role !== 'owner') {
-      return apiError('Insufficient permissions to manage plans', 403);
-    }
-
     // For now, return not implemented
     return NextResponse.json({ error: 'Not implemented' }, { status: 501 });
   } catch (error) {
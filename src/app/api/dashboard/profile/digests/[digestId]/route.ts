@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { deleteDigest } from '@/lib/reports/digests';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/dashboard/profile/digests/[digestId]
+ * Unsubscribe the current user from a report digest
+ */
+export const DELETE = withAuth(async (request: NextRequest, { user, params }) => {
+  try {
+    const digestId = params?.digestId;
+    if (!digestId) {
+      return apiError('Digest ID is required', 400);
+    }
+
+    const { deleted, error } = await deleteDigest(user.id, digestId);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error deleting report digest:', error);
+      return apiError('Failed to delete report digest', 500);
+    }
+
+    if (!deleted) {
+      return apiNotFound('Report digest not found');
+    }
+
+    await recordAuditEvent(request, user, {
+      action: 'report_digest.delete',
+      resourceType: 'report_digest',
+      resourceId: digestId,
+    });
+
+    return apiSuccess({ message: 'Report digest deleted' });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import { shouldUseDemoData } from '@/lib/automation/demo-mode';
+import { getUserDigests } from '@/lib/reports/digests';
+import { sendReportDigest } from '@/lib/reports/digest-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/profile/digests/[digestId]/send
+ * Send a digest to the current user now (for the period ending now), to
+ * preview it; does not change its schedule
+ */
+export const POST = withAuth(async (_request: NextRequest, { user, params }) => {
+  try {
+    const digestId = params?.digestId;
+    if (!digestId) {
+      return apiError('Digest ID is required', 400);
+    }
+
+    if (!user.account_id) {
+      return apiError('User has no account', 400);
+    }
+
+    const { digests, error } = await getUserDigests(user.id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching report digests:', error);
+      return apiError('Failed to fetch report digests', 500);
+    }
+
+    const digest = digests.find(({ id }) => id === digestId);
+    if (!digest) {
+      return apiNotFound('Report digest not found');
+    }
+
+    if (await shouldUseDemoData(user.account_id)) {
+      return apiError('Report digests are not available in demo mode', 400);
+    }
+
+    const { error: sendError } = await sendReportDigest(
+      {
+        user_id: user.id,
+        account_id: user.account_id,
+        frequency: digest.frequency,
+        metrics: digest.metrics,
+        locale: digest.locale,
+        email: user.email,
+        first_name: user.first_name || null,
+      },
+      new Date()
+    );
+
+    if (sendError) {
+      console.error('❌ [DEBUG] Error sending report digest:', sendError);
+      return apiError('Failed to send report digest', 500);
+    }
+
+    return apiSuccess({ message: 'Report digest sent' });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { withAuth, withAuthAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { getUserDigests, ReportDigestSchema, saveDigest } from '@/lib/reports/digests';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/profile/digests
+ * Report digest subscriptions of the current user
+ */
+export const GET = withAuth(async (_request: NextRequest, { user }) => {
+  try {
+    const { digests, error } = await getUserDigests(user.id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching report digests:', error);
+      return apiError('Failed to fetch report digests', 500);
+    }
+
+    return apiSuccess({ digests });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * PUT /api/dashboard/profile/digests
+ * Create or update the subscription of the current user for a frequency
+ */
+export const PUT = withAuthAndValidation(
+  ReportDigestSchema,
+  async (request: NextRequest, { user, body }) => {
+    try {
+      const { digests } = await getUserDigests(user.id);
+      const before = digests.find((digest) => digest.frequency === body.frequency) || null;
+
+      const { digest, error } = await saveDigest(user.id, body);
+
+      if (error || !digest) {
+        console.error('❌ [DEBUG] Error saving report digest:', error);
+        return apiError('Failed to save report digest', 500);
+      }
+
+      await recordAuditEvent(request, user, {
+        action: before ? 'report_digest.update' : 'report_digest.create',
+        resourceType: 'report_digest',
+        resourceId: digest.id,
+        before: before
+          ? { metrics: before.metrics, locale: before.locale, enabled: before.enabled }
+          : null,
+        after: { metrics: digest.metrics, locale: digest.locale, enabled: digest.enabled },
+        metadata: { frequency: digest.frequency },
+      });
+
+      return apiSuccess({ digest });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { deleteMfaFactor, getMfaFactors, getVerifiedFactors } from '@/lib/mfa/factors';
+import { isMfaRequiredForUser } from '@/lib/mfa/policy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/dashboard/profile/mfa/[factorId]
+ * Remove a second factor; the last one cannot be removed while the user's
+ * role requires a second factor
+ */
+export const DELETE = withAuth(async (request: NextRequest, { user, params }) => {
+  try {
+    const factorId = params?.factorId;
+    if (!factorId) {
+      return apiError('Factor ID is required', 400);
+    }
+
+    const { factors, error } = await getMfaFactors(user.id);
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching MFA factors:', error);
+      return apiError('Failed to remove second factor', 500);
+    }
+
+    const factor = factors.find((candidate) => candidate.id === factorId);
+    if (!factor) {
+      return apiError('Second factor not found', 404);
+    }
+
+    const verified = getVerifiedFactors(factors);
+    const isLast = verified.length === 1 && verified[0].id === factor.id;
+    if (isLast && (await isMfaRequiredForUser(user))) {
+      return apiError('Your account requires a second factor. Add another one first.', 403);
+    }
+
+    const { error: deleteError } = await deleteMfaFactor(user.id, factor.id);
+    if (deleteError) {
+      console.error('❌ [DEBUG] Error removing MFA factor:', deleteError);
+      return apiError('Failed to remove second factor', 500);
+    }
+
+    await recordAuditEvent(request, user, {
+      action: 'mfa.remove',
+      resourceType: 'mfa_factor',
+      resourceId: factor.id,
+      before: { type: factor.type, name: factor.name },
+    });
+
+    return apiSuccess({ message: 'Second factor removed' });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
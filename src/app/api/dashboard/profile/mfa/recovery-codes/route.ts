@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { getMfaFactors, getVerifiedFactors, replaceRecoveryCodes } from '@/lib/mfa/factors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/profile/mfa/recovery-codes
+ * Replace the recovery codes of the current user (the old ones stop working)
+ */
+export const POST = withAuth(async (request: NextRequest, { user }) => {
+  try {
+    const { factors, error } = await getMfaFactors(user.id);
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching MFA factors:', error);
+      return apiError('Failed to create recovery codes', 500);
+    }
+
+    if (getVerifiedFactors(factors).length === 0) {
+      return apiError('Set up a second factor first', 400);
+    }
+
+    const { codes, error: codesError } = await replaceRecoveryCodes(user.id);
+    if (codesError) {
+      console.error('❌ [DEBUG] Error creating recovery codes:', codesError);
+      return apiError('Failed to create recovery codes', 500);
+    }
+
+    await recordAuditEvent(request, user, {
+      action: 'mfa.recovery_codes.regenerate',
+      resourceType: 'user',
+      resourceId: user.id,
+    });
+
+    return apiSuccess({ recoveryCodes: codes });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import {
+  getMfaFactors,
+  getRecoveryCodeCount,
+  getVerifiedFactors,
+  toMfaFactorSummary,
+} from '@/lib/mfa/factors';
+import { isMfaRequiredForUser } from '@/lib/mfa/policy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/profile/mfa
+ * Second factors of the current user, unused recovery codes and whether
+ * their role requires a second factor
+ */
+export const GET = withAuth(async (_request: NextRequest, { user }) => {
+  try {
+    const [{ factors, error }, { count, error: countError }] = await Promise.all([
+      getMfaFactors(user.id),
+      getRecoveryCodeCount(user.id),
+    ]);
+
+    if (error || countError) {
+      console.error('❌ [DEBUG] Error fetching MFA factors:', error || countError);
+      return apiError('Failed to fetch second factors', 500);
+    }
+
+    return apiSuccess({
+      factors: getVerifiedFactors(factors).map(toMfaFactorSummary),
+      recoveryCodesRemaining: count,
+      required: await isMfaRequiredForUser(user),
+    });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
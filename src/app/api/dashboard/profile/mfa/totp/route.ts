@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { startTotpEnrollment, toMfaUser } from '@/lib/mfa/factors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/profile/mfa/totp
+ * Start enrolling an authenticator app; returns the secret and otpauth:// URI
+ * (QR code). The factor is pending until confirmed with its first code.
+ */
+export const POST = withAuth(async (_request: NextRequest, { user }) => {
+  try {
+    const mfaUser = toMfaUser(user);
+    if (!mfaUser) {
+      return apiError('User account not found', 404);
+    }
+
+    const { factorId, secret, otpauthUrl, error } = await startTotpEnrollment(mfaUser);
+
+    if (error || !factorId) {
+      console.error('❌ [DEBUG] Error starting TOTP enrollment:', error);
+      return apiError('Failed to start enrollment', 500);
+    }
+
+    return apiSuccess({ factorId, secret, otpauthUrl });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { withAuthAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import {
+  ConfirmTotpSchema,
+  getMfaFactors,
+  getVerifiedFactors,
+  redeemTotpCode,
+  replaceRecoveryCodes,
+  toMfaFactorSummary,
+  toMfaUser,
+} from '@/lib/mfa/factors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/profile/mfa/totp/verify
+ * Confirm an authenticator app with its first code. The first factor of a
+ * user comes with their recovery codes.
+ */
+export const POST = withAuthAndValidation(
+  ConfirmTotpSchema,
+  async (request: NextRequest, { user, body }) => {
+    try {
+      const mfaUser = toMfaUser(user);
+      if (!mfaUser) {
+        return apiError('User account not found', 404);
+      }
+
+      const { factors, error } = await getMfaFactors(user.id);
+      if (error) {
+        console.error('❌ [DEBUG] Error fetching MFA factors:', error);
+        return apiError('Failed to confirm authenticator app', 500);
+      }
+
+      const factor = factors.find(
+        (candidate) =>
+          candidate.id === body.factorId && candidate.type === 'totp' && !candidate.verified_at
+      );
+      if (!factor) {
+        return apiError('Enrollment not found. Please start again.', 404);
+      }
+
+      if (!(await redeemTotpCode(mfaUser, factor, body.code))) {
+        return apiError('Invalid code. Please try again.', 400);
+      }
+
+      let recoveryCodes: string[] | undefined;
+      if (getVerifiedFactors(factors).length === 0) {
+        const { codes, error: codesError } = await replaceRecoveryCodes(user.id);
+        if (codesError) {
+          console.error('❌ [DEBUG] Error creating recovery codes:', codesError);
+        }
+        recoveryCodes = codes;
+      }
+
+      await recordAuditEvent(request, user, {
+        action: 'mfa.enroll',
+        resourceType: 'mfa_factor',
+        resourceId: factor.id,
+        after: { type: factor.type, name: factor.name },
+      });
+
+      return apiSuccess({ factor: toMfaFactorSummary(factor), recoveryCodes });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { getMfaFactors, toMfaUser } from '@/lib/mfa/factors';
+import { createRegistrationOptions } from '@/lib/mfa/webauthn';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/profile/mfa/webauthn/options
+ * WebAuthn registration options for a new security key or passkey; the
+ * challenge token is sent back with the credential
+ */
+export const POST = withAuth(async (request: NextRequest, { user }) => {
+  try {
+    const mfaUser = toMfaUser(user);
+    if (!mfaUser) {
+      return apiError('User account not found', 404);
+    }
+
+    const { factors, error: factorsError } = await getMfaFactors(user.id);
+    if (factorsError) {
+      console.error('❌ [DEBUG] Error fetching MFA factors:', factorsError);
+      return apiError('Failed to start security key registration', 500);
+    }
+
+    const { options, challengeToken, error } = await createRegistrationOptions(
+      request,
+      mfaUser,
+      factors
+    );
+
+    if (error) {
+      console.error('❌ [DEBUG] Error storing WebAuthn challenge:', error);
+      return apiError('Failed to start security key registration', 500);
+    }
+
+    return apiSuccess({ options, challengeToken });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { withAuthAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import {
+  MfaError,
+  getMfaFactors,
+  getVerifiedFactors,
+  replaceRecoveryCodes,
+  toMfaUser,
+} from '@/lib/mfa/factors';
+import { WebAuthnRegistrationSchema, registerCredential } from '@/lib/mfa/webauthn';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/profile/mfa/webauthn
+ * Register a security key or passkey. The first factor of a user comes with
+ * their recovery codes.
+ */
+export const POST = withAuthAndValidation(
+  WebAuthnRegistrationSchema,
+  async (request: NextRequest, { user, body }) => {
+    try {
+      const mfaUser = toMfaUser(user);
+      if (!mfaUser) {
+        return apiError('User account not found', 404);
+      }
+
+      const { factors, error: factorsError } = await getMfaFactors(user.id);
+      if (factorsError) {
+        console.error('❌ [DEBUG] Error fetching MFA factors:', factorsError);
+        return apiError('Failed to register security key', 500);
+      }
+
+      const { factorId, error } = await registerCredential(request, mfaUser, body);
+      if (error || !factorId) {
+        if ((error as { code?: string } | null)?.code === '23505') {
+          return apiError('This security key is already registered', 409);
+        }
+        console.error('❌ [DEBUG] Error registering security key:', error);
+        return apiError('Failed to register security key', 500);
+      }
+
+      let recoveryCodes: string[] | undefined;
+      if (getVerifiedFactors(factors).length === 0) {
+        const { codes, error: codesError } = await replaceRecoveryCodes(user.id);
+        if (codesError) {
+          console.error('❌ [DEBUG] Error creating recovery codes:', codesError);
+        }
+        recoveryCodes = codes;
+      }
+
+      await recordAuditEvent(request, user, {
+        action: 'mfa.enroll',
+        resourceType: 'mfa_factor',
+        resourceId: factorId,
+        after: { type: 'webauthn', name: body.name },
+      });
+
+      return apiSuccess(
+        {
+          factor: {
+            id: factorId,
+            type: 'webauthn',
+            name: body.name,
+            created_at: new Date().toISOString(),
+            last_used_at: null,
+          },
+          recoveryCodes,
+        },
+        201
+      );
+    } catch (error) {
+      if (error instanceof MfaError) {
+        return apiError(error.message, 400);
+      }
+      return apiInternalError(error);
+    }
+  }
+);
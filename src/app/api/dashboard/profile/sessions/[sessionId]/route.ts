@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiNotFound, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { revokeSession } from '@/lib/sessions/active-sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/dashboard/profile/sessions/[sessionId]
+ * Sign out one session of the current user (the current session ends with
+ * logout instead)
+ */
+export const DELETE = withAuth(async (request: NextRequest, { user, session, params }) => {
+  try {
+    const sessionId = params?.sessionId;
+    if (!sessionId) {
+      return apiError('Session ID is required', 400);
+    }
+
+    if (sessionId === session.id) {
+      return apiError('Use sign out to end the current session', 400);
+    }
+
+    const { revoked, error } = await revokeSession(user.id, sessionId);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error revoking session:', error);
+      return apiError('Failed to sign out session', 500);
+    }
+
+    if (!revoked) {
+      return apiNotFound('Session not found');
+    }
+
+    await recordAuditEvent(request, user, {
+      action: 'session.revoke',
+      resourceType: 'session',
+      resourceId: sessionId,
+    });
+
+    return apiSuccess({ message: 'Session signed out' });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { getActiveSessions, revokeOtherSessions } from '@/lib/sessions/active-sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/profile/sessions
+ * Active sessions of the current user (device, browser, IP, location,
+ * created and last seen), the current one flagged
+ */
+export const GET = withAuth(async (_request: NextRequest, { user, session }) => {
+  try {
+    const { sessions, error } = await getActiveSessions(user.id, session.id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching sessions:', error);
+      return apiError('Failed to fetch sessions', 500);
+    }
+
+    return apiSuccess({ sessions });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * DELETE /api/dashboard/profile/sessions
+ * Sign out every other session of the current user
+ */
+export const DELETE = withAuth(async (request: NextRequest, { user, session }) => {
+  try {
+    const { count, error } = await revokeOtherSessions(user.id, session.id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error revoking sessions:', error);
+      return apiError('Failed to sign out other sessions', 500);
+    }
+
+    await recordAuditEvent(request, user, {
+      action: 'session.revoke_others',
+      resourceType: 'session',
+      metadata: { revoked: count },
+    });
+
+    return apiSuccess({ revoked: count, message: 'Other sessions signed out' });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
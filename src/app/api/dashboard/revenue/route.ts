@@ -1,47 +1,13 @@
 import { NextRequest } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { getDateRange, getPreviousDateRange, parsePeriod } from '@/utils/date-ranges';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { queryAnalytics, queryAnalyticsTotals } from '@/lib/analytics/aggregation';
 import { shouldUseDemoData } from '@/lib/automation/demo-mode';
 import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Extract revenue from event metadata with multiple fallbacks
- * Tries different field names and validates the value
- */
-function extractRevenue(event: AnalyticsEvent): number {
-  const metadata = event.metadata || {};
-
-  // Try different revenue field names
-  const revenueValue =
-    metadata.revenue ??
-    metadata.value ??
-    metadata.orderValue ??
-    metadata.totalValue ??
-    metadata.amount ??
-    null;
-
-  if (revenueValue === null || revenueValue === undefined) {
-    return 0;
-  }
-
-  // Convert to number
-  const numValue = typeof revenueValue === 'number'
-    ? revenueValue
-    : parseFloat(String(revenueValue));
-
-  // Validate and return
-  if (isNaN(numValue) || numValue < 0) {
-    return 0;
-  }
-
-  return numValue;
-}
-
 /**
  * GET /api/dashboard/revenue
  * Get revenue analytics for the authenticated user's account
@@ -62,8 +28,6 @@ export async function GET(_request: NextRequest) {
       return apiSuccess(mockData);
     }
 
-    const supabaseAdmin = getSupabaseAdmin();
-
     // Get revenue data from analytics.events
     const { searchParams } = new URL(_request.url);
     const period = parsePeriod(searchParams.get('period'));
@@ -90,16 +54,17 @@ export async function GET(_request: NextRequest) {
     // Calculate date range
     const range = getDateRange(period, customStartDate, customEndDate);
 
-    // Query completed checkout events using RPC function (required for custom schema)
-    const { data: events, error: eventsError } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete'],
-        p_start_date: range.start.toISOString(),
-        p_end_date: range.end.toISOString(),
-      });
+    // Aggregate revenue of completed checkouts per hour
+    // Hourly buckets are regrouped below by weekday, hour of day, day of month or month
+    const { data: hourlyRows, error: eventsError } = await queryAnalytics({
+      accountId: user.account_id,
+      period: range,
+      eventTypes: ['checkout_complete'],
+      dimensions: ['hour'],
+      filters: { hasRevenue: true },
+    });
 
-    if (eventsError) {
+    if (eventsError || !hourlyRows) {
       console.error('❌ [DEBUG] Get revenue analytics error:', eventsError);
       return apiError('Failed to fetch revenue analytics', 500);
     }
@@ -113,8 +78,7 @@ export async function GET(_request: NextRequest) {
           start: range.start.toISOString(),
           end: range.end.toISOString(),
         },
-        eventsCount: events?.length || 0,
-        eventsFound: !!events,
+        hoursWithRevenue: hourlyRows.length,
       });
     }
 
@@ -129,75 +93,40 @@ export async function GET(_request: NextRequest) {
     }
     // Revenue by day - will be populated based on period
     const revenueByDay: Record<string, number> = {};
-    const eventsWithRevenue: Array<{ eventId: string; revenue: number; metadata: any }> = [];
-    const eventsWithoutRevenue: Array<{ eventId: string; metadata: any }> = [];
 
-    events?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-
-      // Debug logging for each event
-      if (process.env.NODE_ENV === 'development') {
-        if (revenue > 0) {
-          eventsWithRevenue.push({
-            eventId: event.id,
-            revenue,
-            metadata: event.metadata,
-          });
-        } else {
-          eventsWithoutRevenue.push({
-            eventId: event.id,
-            metadata: event.metadata,
-          });
-        }
-      }
-
-      // Only count orders with valid revenue > 0
-      if (revenue > 0) {
-        totalRevenue += revenue;
-        totalOrders++;
-
-        const eventDate = new Date(event.timestamp);
-
-        // Group by date for main chart
-        const date = eventDate.toLocaleDateString('en-US', { weekday: 'short' });
-        revenueByDate[date] = (revenueByDate[date] || 0) + revenue;
-
-        // Group by hour (0-23)
-        const hour = eventDate.getHours();
-        revenueByHour[hour] = (revenueByHour[hour] || 0) + revenue;
-
-        // Group by day based on period
-        let dayKey: string;
-        if (period === 'week') {
-          // Day of week (Mon-Sun)
-          dayKey = eventDate.toLocaleDateString('en-US', { weekday: 'short' });
-        } else if (period === 'month') {
-          // Day of month (1-31)
-          dayKey = eventDate.getDate().toString();
-        } else if (period === 'year') {
-          // Month name
-          dayKey = eventDate.toLocaleDateString('en-US', { month: 'short' });
-        } else {
-          // For "today", use day of week
-          dayKey = eventDate.toLocaleDateString('en-US', { weekday: 'short' });
-        }
-        revenueByDay[dayKey] = (revenueByDay[dayKey] || 0) + revenue;
+    hourlyRows.forEach((row) => {
+      const revenue = row.revenue;
+      totalRevenue += revenue;
+      totalOrders += row.orders;
+
+      const eventDate = new Date(row.dimensions.hour);
+
+      // Group by date for main chart
+      const date = eventDate.toLocaleDateString('en-US', { weekday: 'short' });
+      revenueByDate[date] = (revenueByDate[date] || 0) + revenue;
+
+      // Group by hour (0-23)
+      const hour = eventDate.getHours();
+      revenueByHour[hour] = (revenueByHour[hour] || 0) + revenue;
+
+      // Group by day based on period
+      let dayKey: string;
+      if (period === 'week') {
+        // Day of week (Mon-Sun)
+        dayKey = eventDate.toLocaleDateString('en-US', { weekday: 'short' });
+      } else if (period === 'month') {
+        // Day of month (1-31)
+        dayKey = eventDate.getDate().toString();
+      } else if (period === 'year') {
+        // Month name
+        dayKey = eventDate.toLocaleDateString('en-US', { month: 'short' });
+      } else {
+        // For "today", use day of week
+        dayKey = eventDate.toLocaleDateString('en-US', { weekday: 'short' });
       }
+      revenueByDay[dayKey] = (revenueByDay[dayKey] || 0) + revenue;
     });
 
-    // Debug logging summary
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('‼️ [DEBUG] Revenue Extraction Summary:', {
-        totalEvents: events?.length || 0,
-        eventsWithRevenue: eventsWithRevenue.length,
-        eventsWithoutRevenue: eventsWithoutRevenue.length,
-        totalRevenue,
-        totalOrders,
-        sampleEventsWithRevenue: eventsWithRevenue.slice(0, 3),
-        sampleEventsWithoutRevenue: eventsWithoutRevenue.slice(0, 3),
-      });
-    }
-
     const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
     // Calculate revenue per hour (for "today" period)
@@ -278,20 +207,14 @@ export async function GET(_request: NextRequest) {
     // Calculate growth (compare with previous period)
     const previousRange = getPreviousDateRange(range);
 
-    const { data: previousEvents } = await supabaseAdmin
-      .rpc('get_analytics_events_by_types', {
-        p_customer_id: user.account_id,
-        p_event_types: ['checkout_complete'],
-        p_start_date: previousRange.start.toISOString(),
-        p_end_date: previousRange.end.toISOString(),
-      });
-
-    let previousRevenue = 0;
-    previousEvents?.forEach((event: AnalyticsEvent) => {
-      const revenue = extractRevenue(event);
-      previousRevenue += revenue;
+    const { data: previousTotals } = await queryAnalyticsTotals({
+      accountId: user.account_id,
+      period: previousRange,
+      eventTypes: ['checkout_complete'],
     });
 
+    const previousRevenue = previousTotals?.revenue || 0;
+
     // Calculate revenue growth with proper handling of edge cases
     let revenueGrowth = 0;
     if (previousRevenue > 0) {
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiNotFound, apiInternalError } from '@/lib/api/responses';
+import { UpdateRoleSchema, deleteAccountRole, updateAccountRole } from '@/lib/rbac/roles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/dashboard/roles/[id]
+ * Update the name, description or grants of a custom role (requires users manage)
+ */
+export const PATCH = withPermissionAndValidation(
+  'users',
+  'manage',
+  UpdateRoleSchema,
+  async (_request: NextRequest, { user, params, body }) => {
+    try {
+      const roleId = params?.id;
+
+      if (!roleId) {
+        return apiError('Role ID is required', 400);
+      }
+
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { updated, error } = await updateAccountRole(user.account_id, roleId, body);
+
+      if (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return apiError('A role with this name already exists', 409);
+        }
+        console.error('❌ [DEBUG] Error updating custom role:', error);
+        return apiError('Failed to update role', 500);
+      }
+
+      if (!updated) {
+        return apiNotFound('Role not found');
+      }
+
+      return apiSuccess({ message: 'Role updated successfully' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/dashboard/roles/[id]
+ * Delete a custom role; its users keep their built-in role (requires users manage)
+ */
+export const DELETE = withPermission(
+  'users',
+  'manage',
+  async (_request: NextRequest, { user, params }) => {
+    try {
+      const roleId = params?.id;
+
+      if (!roleId) {
+        return apiError('Role ID is required', 400);
+      }
+
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { deleted, error } = await deleteAccountRole(user.account_id, roleId);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error deleting custom role:', error);
+        return apiError('Failed to delete role', 500);
+      }
+
+      if (!deleted) {
+        return apiNotFound('Role not found');
+      }
+
+      return apiSuccess({ message: 'Role deleted successfully' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
+import { CreateRoleSchema, createAccountRole, getAccountRoles } from '@/lib/rbac/roles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/roles
+ * Custom roles of the account
+ */
+export const GET = withPermission('users', 'read', async (_request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { roles, error } = await getAccountRoles(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching custom roles:', error);
+      return apiError('Failed to fetch roles', 500);
+    }
+
+    return apiSuccess({ roles });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * POST /api/dashboard/roles
+ * Create a custom role (requires users manage)
+ */
+export const POST = withPermissionAndValidation(
+  'users',
+  'manage',
+  CreateRoleSchema,
+  async (_request: NextRequest, { user, body }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { id, error } = await createAccountRole(user.account_id, body, user.id);
+
+      if (error || !id) {
+        if ((error as { code?: string } | null)?.code === '23505') {
+          return apiError('A role with this name already exists', 409);
+        }
+        console.error('❌ [DEBUG] Error creating custom role:', error);
+        return apiError('Failed to create role', 500);
+      }
+
+      return apiSuccess({ role: { id, ...body }, message: 'Role created successfully' }, 201);
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
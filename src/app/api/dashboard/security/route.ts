@@ -2,149 +2,108 @@
  * BoltGuard Security Dashboard API
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
-import { cookies } from 'next/headers';
-import { isSessionValid } from '@/lib/api/auth';
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getDateRange, parsePeriod } from '@/utils/date-ranges';
+import { shouldUseDemoData } from '@/lib/automation/demo-mode';
+import { getMockDataFromRequest } from '@/lib/mock-data/mock-data-service';
+import {
+  getRiskTrendBucket,
+  toRiskTrendPoint,
+  toSecurityAlert,
+  toSecuritySummary,
+  type RiskAlertRow,
+  type RiskTrendRow,
+  type SecuritySummaryRow,
+} from '@/lib/boltguard/risk-events';
 
 export const dynamic = 'force-dynamic';
 
+const RECENT_ALERTS_LIMIT = 10;
+
+/**
+ * GET /api/dashboard/security
+ * Security metrics, risk distribution, recent alerts and trend for the period,
+ * read from the BoltGuard risk event store (analytics.risk_events)
+ *
+ * Query: ?period=today|week|month|year|custom (&startDate=&endDate= for custom)
+ */
 export async function GET(request: NextRequest) {
   try {
-    const validationError = validateSupabaseAdmin();
-    if (validationError) return validationError;
-
-    // Verify session
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
     }
 
-    const supabase = getSupabaseAdmin();
-
-    // Verify session and get user
-    const { data: sessions, error: sessionError } = await supabase.rpc('get_session_by_token', {
-      p_token: sessionToken,
-    });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      return NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 });
-    }
-
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json({ error: 'Session expired' }, { status: 401 });
+    const isDemo = await shouldUseDemoData(user.account_id);
+    if (isDemo) {
+      console.info('✅ [DEBUG] Account in demo mode, returning mock security data');
+      const mockData = await getMockDataFromRequest('security', user.account_id, request);
+      return apiSuccess(mockData);
     }
 
-    // Get user to find account_id
-    const { data: users, error: userError } = await supabase.rpc('get_user_by_id', {
-      p_user_id: session.user_id,
-    });
-
-    const user = users && users.length > 0 ? users[0] : null;
+    const searchParams = request.nextUrl.searchParams;
+    const period = parsePeriod(searchParams.get('period'));
 
-    if (userError || !user || !user.account_id) {
-      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
-    }
+    let customStartDate: Date | null = null;
+    let customEndDate: Date | null = null;
 
-    // Get period from query params
-    const searchParams = request.nextUrl.searchParams;
-    const period = searchParams.get('period') || '7d';
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
+    if (period === 'custom') {
+      const startDateParam = searchParams.get('startDate');
+      const endDateParam = searchParams.get('endDate');
 
-    // Calculate date range
-    // Note: dateFrom is calculated but not yet used in mock data
-    // In production, this will be used to filter data from the database
-    let dateFrom: Date;
-    let dateTo = new Date();
+      if (startDateParam && endDateParam) {
+        customStartDate = new Date(startDateParam);
+        customEndDate = new Date(endDateParam);
 
-    if (startDate && endDate) {
-      dateFrom = new Date(startDate);
-      dateTo = new Date(endDate);
-    } else {
-      switch (period) {
-        case '24h':
-          dateFrom = new Date(Date.now() - 24 * 60 * 60 * 1000);
-          break;
-        case '7d':
-          dateFrom = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case '30d':
-          dateFrom = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-          break;
-        case '90d':
-          dateFrom = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-          break;
-        default:
-          dateFrom = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+        if (isNaN(customStartDate.getTime()) || isNaN(customEndDate.getTime())) {
+          return apiError('Invalid date format. Use ISO 8601 format.', 400);
+        }
       }
     }
 
-    // Suppress unused variable warning - dateFrom will be used in production
-    void dateFrom;
+    const range = getDateRange(period, customStartDate, customEndDate);
+    const rangeParams = {
+      p_customer_id: user.account_id,
+      p_start_date: range.start.toISOString(),
+      p_end_date: range.end.toISOString(),
+    };
 
-    // TODO: In production, fetch actual data from BoltGuard monitoring system
-    // For now, return mock data structure
-    const mockData = {
-      metrics: {
-        totalTransactions: 1250,
-        highRiskTransactions: 45,
-        blockedTransactions: 12,
-        fraudDetected: 8,
-        avgRiskScore: 32.5,
-        validationErrors: 23,
-        scaRequired: 156,
-        anomaliesDetected: 67,
-      },
-      riskDistribution: {
-        low: 950,
-        medium: 245,
-        high: 40,
-        critical: 15,
-      },
-      recentAlerts: [
-        {
-          id: 'alert_1',
-          type: 'High Risk Transaction',
-          severity: 'high' as const,
-          description: 'Transaction with risk score 75 detected',
-          timestamp: new Date().toISOString(),
-        },
-        {
-          id: 'alert_2',
-          type: 'Velocity Violation',
-          severity: 'critical' as const,
-          description: '10 transactions detected in last 5 minutes',
-          timestamp: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-        },
-        {
-          id: 'alert_3',
-          type: 'Anomaly Detected',
-          severity: 'medium' as const,
-          description: 'Statistical anomaly in transaction amount',
-          timestamp: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
-        },
-      ],
-      trendData: Array.from({ length: 7 }, (_, i) => {
-        const date = new Date(dateTo);
-        date.setDate(date.getDate() - (6 - i));
-        return {
-          date: date.toISOString(),
-          transactions: Math.floor(Math.random() * 200) + 150,
-          highRisk: Math.floor(Math.random() * 10) + 5,
-          blocked: Math.floor(Math.random() * 3) + 1,
-        };
+    const supabaseAdmin = getSupabaseAdmin();
+    const [summaryResult, trendResult, alertsResult] = await Promise.all([
+      supabaseAdmin.rpc('get_boltguard_security_summary', rangeParams),
+      supabaseAdmin.rpc('get_boltguard_risk_trend', {
+        ...rangeParams,
+        p_bucket: getRiskTrendBucket(range),
       }),
-    };
+      supabaseAdmin.rpc('get_boltguard_recent_alerts', {
+        ...rangeParams,
+        p_limit: RECENT_ALERTS_LIMIT,
+      }),
+    ]);
 
-    return NextResponse.json(mockData);
+    const queryError = summaryResult.error || trendResult.error || alertsResult.error;
+    if (queryError) {
+      console.error('❌ [DEBUG] Get security data error:', queryError);
+      return apiError('Failed to fetch security data', 500);
+    }
+
+    const summaryRows = (summaryResult.data || []) as SecuritySummaryRow[];
+    const trendRows = (trendResult.data || []) as RiskTrendRow[];
+    const alertRows = (alertsResult.data || []) as RiskAlertRow[];
+
+    return apiSuccess({
+      ...toSecuritySummary(summaryRows[0] || null),
+      recentAlerts: alertRows.map(toSecurityAlert),
+      trendData: trendRows.map(toRiskTrendPoint),
+    });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
     console.error('❌ [DEBUG] Security API error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return apiError('Internal server error', 500);
   }
 }
-
@@ -0,0 +1,153 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiValidationError, apiNotFound } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  BoltGuardRuleSchema,
+  BoltGuardRuleUpdateSchema,
+  boltGuardRuleDatabaseError,
+} from '@/lib/boltguard/rules';
+import { loadBoltGuardRules } from '@/lib/boltguard/rule-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/security/rules/[id]
+ * Get a BoltGuard rule
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { id } = await params;
+    const { rules, error } = await loadBoltGuardRules(user.account_id, { ruleId: id });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching BoltGuard rule:', error);
+      return boltGuardRuleDatabaseError(error, 'Failed to fetch rule');
+    }
+
+    if (rules.length === 0) {
+      return apiNotFound('Rule not found');
+    }
+
+    return apiSuccess({ rule: rules[0] });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching BoltGuard rule:', error);
+    return apiError('Failed to fetch rule', 500);
+  }
+}
+
+/**
+ * PATCH /api/dashboard/security/rules/[id]
+ * Update a BoltGuard rule
+ * The update (and its config) is merged into the stored rule, which is validated again as a whole
+ */
+export const PATCH = withPermission('settings', 'write', async (request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Rule ID is required', 400);
+    }
+
+    const body = await request.json();
+    const updateResult = BoltGuardRuleUpdateSchema.safeParse(body);
+
+    if (!updateResult.success) {
+      return apiValidationError(updateResult.error);
+    }
+
+    const { rules, error: fetchError } = await loadBoltGuardRules(user.account_id, { ruleId: id });
+
+    if (fetchError) {
+      console.error('❌ [DEBUG] Error fetching BoltGuard rule:', fetchError);
+      return boltGuardRuleDatabaseError(fetchError, 'Failed to update rule');
+    }
+
+    if (rules.length === 0) {
+      return apiNotFound('Rule not found');
+    }
+
+    const current = rules[0];
+    const { config, ...updates } = updateResult.data;
+    const validationResult = BoltGuardRuleSchema.safeParse({
+      ...current,
+      ...updates,
+      config: { ...current.config, ...config },
+    });
+
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    const rule = validationResult.data;
+    const { error: updateError } = await getSupabaseAdmin().rpc('update_boltguard_rule', {
+      p_account_id: user.account_id,
+      p_rule_id: id,
+      p_name: rule.name,
+      p_config: rule.config,
+      p_severity: rule.severity,
+      p_action: rule.action,
+      p_enabled: rule.enabled,
+    });
+
+    if (updateError) {
+      console.error('❌ [DEBUG] Error updating BoltGuard rule:', updateError);
+      return boltGuardRuleDatabaseError(updateError, 'Failed to update rule');
+    }
+
+    const { rules: updated } = await loadBoltGuardRules(user.account_id, { ruleId: id });
+
+    return apiSuccess({ rule: updated[0] ?? null });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error updating BoltGuard rule:', error);
+    return apiError('Failed to update rule', 500);
+  }
+});
+
+/**
+ * DELETE /api/dashboard/security/rules/[id]
+ * Delete a BoltGuard rule (its past hits stay in the alert history)
+ */
+export const DELETE = withPermission('settings', 'delete', async (_request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const id = params?.id;
+    if (!id) {
+      return apiError('Rule ID is required', 400);
+    }
+
+    const { data: deleted, error } = await getSupabaseAdmin().rpc('delete_boltguard_rule', {
+      p_account_id: user.account_id,
+      p_rule_id: id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error deleting BoltGuard rule:', error);
+      return boltGuardRuleDatabaseError(error, 'Failed to delete rule');
+    }
+
+    if (!deleted) {
+      return apiNotFound('Rule not found');
+    }
+
+    return apiSuccess({ message: 'Rule deleted successfully' });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error deleting BoltGuard rule:', error);
+    return apiError('Failed to delete rule', 500);
+  }
+});
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { BoltGuardDryRunSchema } from '@/lib/boltguard/rules';
+import { dryRunBoltGuardRules, loadBoltGuardRules } from '@/lib/boltguard/rule-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/security/rules/dry-run
+ * Evaluate rules against the risk assessments of the last 7 days without recording hits
+ *
+ * Body: { rules?: BoltGuardRule[] } - rules to test (e.g. an unsaved draft);
+ * defaults to the enabled rules of the account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = BoltGuardDryRunSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    let rules = validationResult.data.rules;
+    if (!rules) {
+      const { rules: storedRules, error } = await loadBoltGuardRules(user.account_id, {
+        enabledOnly: true,
+      });
+
+      if (error) {
+        console.error('❌ [DEBUG] Error fetching BoltGuard rules:', error);
+        return apiError('Failed to run rules', 500);
+      }
+      rules = storedRules;
+    }
+
+    const { result, error } = await dryRunBoltGuardRules(user.account_id, rules);
+
+    if (error || !result) {
+      console.error('❌ [DEBUG] Error running BoltGuard rules:', error);
+      return apiError('Failed to run rules', 500);
+    }
+
+    return apiSuccess(result);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error running BoltGuard rules:', error);
+    return apiError('Failed to run rules', 500);
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { BoltGuardRuleSchema, boltGuardRuleDatabaseError } from '@/lib/boltguard/rules';
+import { loadBoltGuardRules } from '@/lib/boltguard/rule-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/security/rules
+ * Get the BoltGuard rules of the account
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { rules, error } = await loadBoltGuardRules(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching BoltGuard rules:', error);
+      return apiError('Failed to fetch rules', 500);
+    }
+
+    return apiSuccess({ rules });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching BoltGuard rules:', error);
+    return apiError('Failed to fetch rules', 500);
+  }
+}
+
+/**
+ * POST /api/dashboard/security/rules
+ * Create a BoltGuard rule
+ */
+export const POST = withPermission('settings', 'write', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const body = await request.json();
+    const validationResult = BoltGuardRuleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    const rule = validationResult.data;
+    const { data: ruleId, error: createError } = await getSupabaseAdmin().rpc(
+      'create_boltguard_rule',
+      {
+        p_account_id: user.account_id,
+        p_name: rule.name,
+        p_rule_type: rule.type,
+        p_config: rule.config,
+        p_severity: rule.severity,
+        p_action: rule.action,
+        p_enabled: rule.enabled,
+        p_created_by: user.id,
+      }
+    );
+
+    if (createError) {
+      console.error('❌ [DEBUG] Error creating BoltGuard rule:', createError);
+      return boltGuardRuleDatabaseError(createError, 'Failed to create rule');
+    }
+
+    const { rules, error } = await loadBoltGuardRules(user.account_id, { ruleId });
+
+    if (error || rules.length === 0) {
+      console.error('❌ [DEBUG] Error fetching created BoltGuard rule:', error);
+      return apiError('Failed to create rule', 500);
+    }
+
+    return apiSuccess({ rule: rules[0] }, 201);
+  } catch (error) {
+    console.error('❌ [DEBUG] Error creating BoltGuard rule:', error);
+    return apiError('Failed to create rule', 500);
+  }
+});
@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
+import {
+  SsoConnectionSchema,
+  deleteSsoConnection,
+  getSsoConnection,
+  saveSsoConnection,
+  toSsoConnectionSettings,
+} from '@/lib/sso/connections';
+import { getSamlServiceProvider } from '@/lib/sso/saml';
+import { getSsoBaseUrl } from '@/lib/sso/login';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * URLs to register with the identity provider
+ */
+function getServiceProviderUrls(request: NextRequest) {
+  const baseUrl = getSsoBaseUrl(request);
+  const { entityId, acsUrl } = getSamlServiceProvider(baseUrl);
+
+  return {
+    oidcRedirectUri: `${baseUrl}/api/dashboard/auth/sso/oidc/callback`,
+    samlEntityId: entityId,
+    samlAcsUrl: acsUrl,
+    samlMetadataUrl: entityId,
+  };
+}
+
+/**
+ * GET /api/dashboard/sso
+ * SSO connection of the account (without the client secret)
+ */
+export const GET = withPermission('settings', 'read', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { connection, error } = await getSsoConnection(user.account_id);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching SSO connection:', error);
+      return apiError('Failed to fetch SSO connection', 500);
+    }
+
+    return apiSuccess({
+      connection: connection ? toSsoConnectionSettings(connection) : null,
+      serviceProvider: getServiceProviderUrls(request),
+    });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * PUT /api/dashboard/sso
+ * Create or replace the SSO connection (requires settings manage)
+ */
+export const PUT = withPermissionAndValidation(
+  'settings',
+  'manage',
+  SsoConnectionSchema,
+  async (_request: NextRequest, { user, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { connection: previous, error: fetchError } = await getSsoConnection(user.account_id);
+
+      if (fetchError) {
+        console.error('❌ [DEBUG] Error fetching SSO connection:', fetchError);
+        return apiError('Failed to save SSO connection', 500);
+      }
+
+      const keepsSecret = previous?.protocol === 'oidc' && !!previous.oidc_client_secret_encrypted;
+      if (body.protocol === 'oidc' && !body.oidcClientSecret && !keepsSecret) {
+        return apiError('Client secret is required', 400);
+      }
+
+      const { id, error } = await saveSsoConnection(user.account_id, body, user.id);
+
+      if (error || !id) {
+        if ((error as { code?: string } | null)?.code === '23505') {
+          return apiError('A domain is already used by another account', 409);
+        }
+        console.error('❌ [DEBUG] Error saving SSO connection:', error);
+        return apiError('Failed to save SSO connection', 500);
+      }
+
+      const { connection } = await getSsoConnection(user.account_id);
+      const settings = connection ? toSsoConnectionSettings(connection) : null;
+
+      audit({
+        action: previous ? 'sso.update' : 'sso.create',
+        resourceType: 'sso_connection',
+        resourceId: id,
+        before: previous ? toSsoConnectionSettings(previous) : undefined,
+        after: settings ?? undefined,
+      });
+
+      return apiSuccess({ connection: settings, message: 'SSO connection saved' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/dashboard/sso
+ * Remove the SSO connection; email codes work again (requires settings manage)
+ */
+export const DELETE = withPermission(
+  'settings',
+  'manage',
+  async (_request: NextRequest, { user, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { connection: previous } = await getSsoConnection(user.account_id);
+      const { deleted, error } = await deleteSsoConnection(user.account_id);
+
+      if (error) {
+        console.error('❌ [DEBUG] Error deleting SSO connection:', error);
+        return apiError('Failed to delete SSO connection', 500);
+      }
+
+      if (!deleted) {
+        return apiError('SSO connection not found', 404);
+      }
+
+      audit({
+        action: 'sso.delete',
+        resourceType: 'sso_connection',
+        resourceId: previous?.id ?? null,
+        before: previous ? toSsoConnectionSettings(previous) : undefined,
+      });
+
+      return apiSuccess({ message: 'SSO connection deleted' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
+import {
+  SsoDomainVerificationSchema,
+  getDomainVerificationRecord,
+  getSsoConnection,
+  toSsoConnectionSettings,
+  verifySsoDomain,
+} from '@/lib/sso/connections';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/sso/verify-domain
+ * Verify ownership of an SSO domain through its DNS TXT record (requires
+ * settings manage). Unverified domains are not used for discovery,
+ * enforcement or provisioning.
+ */
+export const POST = withPermissionAndValidation(
+  'settings',
+  'manage',
+  SsoDomainVerificationSchema,
+  async (_request: NextRequest, { user, body, audit }) => {
+    try {
+      if (!user.account_id) {
+        return apiError('User account not found', 404);
+      }
+
+      const { connection, error: fetchError } = await getSsoConnection(user.account_id);
+
+      if (fetchError) {
+        console.error('❌ [DEBUG] Error fetching SSO connection:', fetchError);
+        return apiError('Failed to verify domain', 500);
+      }
+
+      if (!connection || !connection.domains.includes(body.domain)) {
+        return apiError('Domain is not configured for single sign-on', 404);
+      }
+
+      const { verified, error } = await verifySsoDomain(connection, body.domain);
+
+      if (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return apiError('This domain is already verified by another account', 409);
+        }
+        console.error('❌ [DEBUG] Error verifying SSO domain:', error);
+        return apiError('Failed to verify domain', 500);
+      }
+
+      if (!verified) {
+        return apiError(
+          `TXT record "${getDomainVerificationRecord(connection)}" not found on ${body.domain}`,
+          422
+        );
+      }
+
+      audit({
+        action: 'sso.domain_verify',
+        resourceType: 'sso_connection',
+        resourceId: connection.id,
+        metadata: { domain: body.domain },
+      });
+
+      const { connection: updated } = await getSsoConnection(user.account_id);
+
+      return apiSuccess({
+        connection: updated ? toSsoConnectionSettings(updated) : null,
+        message: 'Domain verified',
+      });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -1,9 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
-import { cookies } from 'next/headers';
-import { isSessionValid } from '@/lib/api/auth';
 import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
 import { calculatePeriodEnd } from '@/utils/plans';
+import { withPermission } from '@/lib/api/route-handler';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+
+interface CancellationState {
+  status: string;
+  plan_id: string;
+  ended_at: string;
+  cancelled_at: string;
+}
+
+/**
+ * Notify the account's webhook endpoints of a cancellation
+ */
+async function emitCancellation(
+  subscription: { id: string; account_id: string },
+  after: CancellationState
+) {
+  await emitWebhookEvent(subscription.account_id, 'subscription.updated', {
+    subscription_id: subscription.id,
+    plan_id: after.plan_id,
+    status: after.status,
+    change: 'cancelled',
+    ended_at: after.ended_at,
+  });
+}
 
 /**
  * DELETE /api/dashboard/subscriptions/[subscriptionId]/cancel
@@ -14,56 +37,23 @@ import { calculatePeriodEnd } from '@/utils/plans';
  */
 export const dynamic = 'force-dynamic';
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: { subscriptionId: string } }
-) {
+export const DELETE = withPermission('billing', 'delete', async (_request: NextRequest, { user, params, audit }) => {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
 
-    const { subscriptionId } = params;
+    const subscriptionId = params?.subscriptionId;
 
     if (!subscriptionId) {
       return NextResponse.json({ error: 'Subscription ID is required' }, { status: 400 });
     }
 
-    // Verify session
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!user.account_id) {
+      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
     }
 
     const supabase = getSupabaseAdmin();
 
-    // Verify session and get user using RPC function
-    const { data: sessions, error: sessionError } = await supabase
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 });
-    }
-
-    // Validate session expiration
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json({ error: 'Session expired' }, { status: 401 });
-    }
-
-    // Get user to find account_id
-    const { data: users, error: userError } = await supabase
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user || !user.account_id) {
-      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
-    }
-
     // Fetch subscription to verify ownership and status
     const { data: subscriptions, error: subError } = await supabase
       .rpc('get_subscriptions_by_account', { p_account_id: user.account_id });
@@ -92,6 +82,17 @@ export async function DELETE(
       );
     }
 
+    audit({
+      action: 'subscription.cancel',
+      resourceType: 'subscription',
+      before: {
+        status: subscription.status,
+        plan_id: subscription.plan_id,
+        ended_at: subscription.ended_at ?? null,
+        cancelled_at: subscription.cancelled_at ?? null,
+      },
+    });
+
     // Get the last successful transaction for this subscription using RPC function
     // (required for custom schema access)
     const { data: transactions, error: transactionsError } = await supabase
@@ -161,6 +162,15 @@ export async function DELETE(
         return NextResponse.json({ error: 'Failed to cancel subscription' }, { status: 500 });
       }
 
+      const after: CancellationState = {
+        status: 'cancelled',
+        plan_id: subscription.plan_id,
+        ended_at: endedAt.toISOString(),
+        cancelled_at: now.toISOString(),
+      };
+      audit({ after });
+      await emitCancellation(subscription, after);
+
       return NextResponse.json({
         success: true,
         cancelled: true,
@@ -201,6 +211,15 @@ export async function DELETE(
         return NextResponse.json({ error: 'Failed to cancel subscription' }, { status: 500 });
       }
 
+      const after: CancellationState = {
+        status: 'cancelled',
+        plan_id: subscription.plan_id,
+        ended_at: endedAt.toISOString(),
+        cancelled_at: now.toISOString(),
+      };
+      audit({ after });
+      await emitCancellation(subscription, after);
+
       return NextResponse.json({
         success: true,
         cancelled: true,
@@ -236,6 +255,15 @@ export async function DELETE(
       return NextResponse.json({ error: 'Failed to cancel subscription' }, { status: 500 });
     }
 
+    const after: CancellationState = {
+      status: subscription.status,
+      plan_id: subscription.plan_id,
+      ended_at: endedAt.toISOString(),
+      cancelled_at: now.toISOString(),
+    };
+    audit({ after });
+    await emitCancellation(subscription, after);
+
     return NextResponse.json({
       success: true,
       cancelled: true,
@@ -247,5 +275,5 @@ export async function DELETE(
     console.error('❌ [DEBUG] Unexpected error in cancel subscription endpoint:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
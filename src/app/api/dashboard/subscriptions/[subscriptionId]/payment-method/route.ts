@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
+import { withPermissionAndValidation } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { PaymentGatewayError } from '@/lib/payments/types';
+import { UpdatePaymentMethodSchema, updateSubscriptionPaymentMethod } from '@/lib/dunning/dunning';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/subscriptions/[subscriptionId]/payment-method
+ * Replace the payment method of a subscription (requires billing write).
+ * A subscription in dunning is charged again right away and gets its access
+ * back when the payment succeeds.
+ */
+export const POST = withPermissionAndValidation(
+  'billing',
+  'write',
+  UpdatePaymentMethodSchema,
+  async (_request: NextRequest, { user, params, body, audit }) => {
+    try {
+      const validationError = validateSupabaseAdmin();
+      if (validationError) return validationError;
+
+      const subscriptionId = params?.subscriptionId;
+
+      if (!subscriptionId) {
+        return apiError('Subscription ID is required', 400);
+      }
+
+      if (!user.account_id) {
+        return apiError('User or account not found', 404);
+      }
+
+      const { data: subscriptions, error: subError } = await getSupabaseAdmin().rpc(
+        'get_subscriptions_by_account',
+        { p_account_id: user.account_id }
+      );
+
+      if (subError) {
+        console.error('❌ [DEBUG] Error fetching subscriptions:', subError);
+        return apiError('Failed to fetch subscription', 500);
+      }
+
+      const subscription = subscriptions?.find((s: any) => s.id === subscriptionId);
+
+      if (!subscription) {
+        return apiError('Subscription not found', 404);
+      }
+
+      if (subscription.status !== 'active') {
+        return apiError('Only active subscriptions can update their payment method', 400);
+      }
+
+      if (!subscription.gateway_subscription_id) {
+        return apiError('Subscription is not billed through a payment gateway', 400);
+      }
+
+      audit({
+        action: 'subscription.payment_method_update',
+        resourceType: 'subscription',
+        resourceId: subscription.id,
+        before: { dunning_state: subscription.dunning_state ?? null },
+      });
+
+      const { recovered, paymentError, error } = await updateSubscriptionPaymentMethod(
+        subscription,
+        body.payment_method_id
+      );
+
+      if (error) {
+        console.error('❌ [DEBUG] Error restoring subscription access:', error);
+        return apiError('Payment succeeded but access could not be restored', 500);
+      }
+
+      audit({
+        after: { dunning_state: recovered ? null : (subscription.dunning_state ?? null) },
+      });
+
+      return apiSuccess({
+        recovered,
+        payment_error: paymentError,
+        message: recovered
+          ? 'Payment method updated and subscription access restored'
+          : 'Payment method updated',
+      });
+    } catch (error) {
+      if (error instanceof PaymentGatewayError) {
+        return apiError(error.message, error.statusCode || 400);
+      }
+      return apiInternalError(error);
+    }
+  }
+);
@@ -5,54 +5,30 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
-import { cookies } from 'next/headers';
-import { isSessionValid } from '@/lib/api/auth';
 import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
-import { validateCurrency, CurrencyCode } from '@/lib/payments/currency-service';
+import {
+  BASE_CURRENCY,
+  getCurrencyConversion,
+  toConversionMetadata,
+  validateCurrency,
+  CurrencyCode,
+} from '@/lib/payments/currency-service';
 import { PaymentGatewayError } from '@/lib/payments/types';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('billing', 'write', async (request: NextRequest, { user }) => {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
 
-    // Verify session
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!user.account_id) {
+      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
     }
 
     const supabase = getSupabaseAdmin();
 
-    // Verify session and get user
-    const { data: sessions, error: sessionError } = await supabase
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 });
-    }
-
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json({ error: 'Session expired' }, { status: 401 });
-    }
-
-    // Get user and account
-    const { data: users, error: userError } = await supabase
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user || !user.account_id) {
-      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
-    }
-
     // Parse request body
     const body = await request.json();
     const { plan_id, currency = 'USD', payment_method_id } = body;
@@ -114,19 +90,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Convert price if needed (plans are stored in USD)
-    const baseCurrency: CurrencyCode = 'USD';
-    const planAmount = plan.monthly_price || 0;
-    const finalAmount = targetCurrency === baseCurrency
-      ? planAmount
-      : (await import('@/lib/payments/currency-service')).convertCurrency(
-          planAmount,
-          baseCurrency,
-          targetCurrency
-        );
-
-    // Create payment intent
+    const conversion = await getCurrencyConversion(
+      plan.monthly_price || 0,
+      BASE_CURRENCY,
+      targetCurrency
+    );
+
+    // Create payment intent (the conversion travels with it so the
+    // transaction can record the rate that was charged)
     const paymentIntent = await paymentGateway.createPaymentIntent(
-      finalAmount,
+      conversion.amount,
       targetCurrency,
       gatewayCustomerId,
       payment_method_id,
@@ -134,6 +107,7 @@ export async function POST(request: NextRequest) {
         plan_id: plan.id,
         plan_code: plan.code,
         account_id: user.account_id,
+        ...(targetCurrency !== BASE_CURRENCY ? toConversionMetadata(conversion) : {}),
       }
     );
 
@@ -159,5 +133,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
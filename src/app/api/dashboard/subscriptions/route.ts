@@ -3,8 +3,16 @@ import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
 import { isSessionValid } from '@/lib/api/auth';
 import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
-import { validateCurrency, convertCurrency, CurrencyCode } from '@/lib/payments/currency-service';
+import {
+  BASE_CURRENCY,
+  fromConversionMetadata,
+  getCurrencyConversion,
+  toTransactionConversionColumns,
+  validateCurrency,
+  CurrencyCode,
+} from '@/lib/payments/currency-service';
 import { PaymentGatewayError } from '@/lib/payments/types';
+import { withPermission } from '@/lib/api/route-handler';
 
 /**
  * GET /api/dashboard/subscriptions
@@ -75,47 +83,17 @@ export async function GET(_request: NextRequest) {
  * POST /api/dashboard/subscriptions
  * Create a new subscription or upgrade/downgrade existing one
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('billing', 'write', async (request: NextRequest, { user }) => {
   try {
     const validationError = validateSupabaseAdmin();
     if (validationError) return validationError;
 
-    // Verify session
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!user.account_id) {
+      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
     }
 
     const supabase = getSupabaseAdmin();
 
-    // Verify session and get user using RPC function (required for custom schema)
-    const { data: sessions, error: sessionError } = await supabase
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 });
-    }
-
-    // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json({ error: 'Session expired' }, { status: 401 });
-    }
-
-    // Get user to find account_id using RPC function (required for custom schema)
-    const { data: users, error: userError } = await supabase
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user || !user.account_id) {
-      return NextResponse.json({ error: 'User or account not found' }, { status: 404 });
-    }
-
     // Parse request body
     const body = await request.json();
     const { plan_id, billing_cycle = 'monthly', payment_intent_id, currency = 'USD' } = body;
@@ -177,11 +155,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Convert price if needed (plans are stored in USD)
-    const baseCurrency: CurrencyCode = 'USD';
-    const planAmount = plan.monthly_price || 0;
-    const finalAmount = targetCurrency === baseCurrency
-      ? planAmount
-      : convertCurrency(planAmount, baseCurrency, targetCurrency);
+    const conversion = await getCurrencyConversion(
+      plan.monthly_price || 0,
+      BASE_CURRENCY,
+      targetCurrency
+    );
+    const finalAmount = conversion.amount;
 
     // Create subscription in payment gateway
     let gatewaySubscription;
@@ -247,7 +226,14 @@ export async function POST(request: NextRequest) {
     if (payment_intent_id) {
       try {
         const transaction = await paymentGateway.getTransaction(payment_intent_id);
-        
+        // Prefer the conversion the customer was charged at checkout
+        const transactionConversion =
+          fromConversionMetadata(transaction.metadata, transaction.currency, transaction.amount) ||
+          (transaction.currency === conversion.currency &&
+          conversion.baseCurrency !== conversion.currency
+            ? conversion
+            : null);
+
         await supabase.from('subscription_transactions').insert({
           subscription_id: subscriptionId,
           amount: transaction.amount,
@@ -262,6 +248,7 @@ export async function POST(request: NextRequest) {
           receipt_url: transaction.receiptUrl,
           invoice_url: transaction.invoiceUrl,
           metadata: transaction.metadata,
+          ...(transactionConversion ? toTransactionConversionColumns(transactionConversion) : {}),
         });
       } catch (transactionError) {
         console.error('❌ [DEBUG] Error creating transaction record:', transactionError);
@@ -286,5 +273,5 @@ export async function POST(request: NextRequest) {
     console.error('❌ [DEBUG] Unexpected error in subscriptions POST endpoint:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { cookies } from 'next/headers';
 import { z } from 'zod';
+import { withPermission } from '@/lib/api/route-handler';
 
 const duplicateSchema = z.object({
   newName: z.string().min(1, 'Theme name is required'),
@@ -13,44 +13,15 @@ const duplicateSchema = z.object({
  */
 export const dynamic = 'force-dynamic';
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const POST = withPermission('themes', 'write', async (request: NextRequest, { user, params }) => {
   try {
-    const { id } = await params;
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    const id = params?.id;
+    if (!id) {
+      return NextResponse.json({ error: 'Theme ID is required' }, { status: 400 });
     }
 
     const supabaseAdmin = getSupabaseAdmin();
 
-    // Find session
-    const { data: sessions, error: sessionError } = await supabaseAdmin
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      return NextResponse.json(
-        { error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
-
-    // Get user
-    const { data: users, error: userError } = await supabaseAdmin
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
     const body = await request.json();
     const validated = duplicateSchema.parse(body);
 
@@ -88,7 +59,7 @@ export async function POST(
           ...defaultConfig,
           baseTheme: baseTheme,
         },
-        p_created_by: session.user_id,
+        p_created_by: user.id,
         p_is_active: false,
         p_base_theme: baseTheme,
         p_is_default: false,
@@ -102,7 +73,7 @@ export async function POST(
         p_theme_id: id,
         p_account_id: user.account_id,
         p_new_name: validated.newName,
-        p_created_by: session.user_id,
+        p_created_by: user.id,
       });
 
       duplicateResult = { themes: result.data, error: result.error };
@@ -134,5 +105,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
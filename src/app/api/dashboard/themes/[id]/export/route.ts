@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
+import { buildThemeExport } from '@/lib/themes/import';
 
 /**
  * GET /api/dashboard/themes/[id]/export
@@ -59,13 +60,8 @@ export async function GET(
       return NextResponse.json({ error: 'Theme not found' }, { status: 404 });
     }
 
-    // Return theme as downloadable JSON
-    const exportData = {
-      name: theme.name,
-      config: theme.config,
-      exportedAt: new Date().toISOString(),
-      version: '1.0',
-    };
+    // Return theme as downloadable JSON (always in the current export format)
+    const exportData = buildThemeExport(theme);
 
     return NextResponse.json(exportData, {
       headers: {
@@ -3,6 +3,8 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
 import { isSessionValid } from '@/lib/api/auth';
+import { withPermission } from '@/lib/api/route-handler';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
 
 // Support both old and expanded format
 const themeConfigSchema = z.any(); // Use z.any() to accept both old and expanded formats
@@ -86,57 +88,28 @@ export async function GET(
 /**
  * PATCH /api/dashboard/themes/[id]
  * Update a theme
+ * Config changes are recorded as a new theme version authored by the current user
  */
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withPermission('themes', 'write', async (request: NextRequest, { user, params, audit }) => {
   try {
-    const { id } = await params;
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    const id = params?.id;
+    if (!id) {
+      return NextResponse.json({ error: 'Theme ID is required' }, { status: 400 });
     }
 
     const supabaseAdmin = getSupabaseAdmin();
 
-    // Find session using RPC function (required for custom schema)
-    const { data: sessions, error: sessionError } = await supabaseAdmin
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json(
-        { error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
-
-    // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json(
-        { error: 'Session expired' },
-        { status: 401 }
-      );
-    }
-
-    // Get user to find their account_id using RPC function (required for custom schema)
-    const { data: users, error: userError } = await supabaseAdmin
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
     const body = await request.json();
     const validated = themeConfigSchema.parse(body);
 
+    // Current config, for the audit log
+    const { data: previousThemes } = await supabaseAdmin
+      .rpc('get_theme_by_id', {
+        p_theme_id: id,
+        p_account_id: user.account_id,
+      });
+    const previous = previousThemes && previousThemes.length > 0 ? previousThemes[0] : null;
+
     // Update theme using RPC function (required for custom schema)
     const { data: themes, error: updateError } = await supabaseAdmin
       .rpc('update_theme', {
@@ -144,6 +117,7 @@ export async function PATCH(
         p_account_id: user.account_id,
         p_name: validated.name,
         p_config: validated,
+        p_updated_by: user.id,
       });
 
     const theme = themes && themes.length > 0 ? themes[0] : null;
@@ -156,6 +130,12 @@ export async function PATCH(
       );
     }
 
+    audit({
+      action: 'theme.update',
+      before: previous ? { name: previous.name, ...previous.config } : undefined,
+      after: { name: theme.name, ...theme.config },
+    });
+
     return NextResponse.json({ theme });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -170,59 +150,21 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/dashboard/themes/[id]
  * Activate a theme (special route - when method is POST to /themes/[id], it activates)
  */
-export async function POST(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const POST = withPermission('themes', 'write', async (_request: NextRequest, { user, params, audit }) => {
   try {
-    const { id } = await params;
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    const id = params?.id;
+    if (!id) {
+      return NextResponse.json({ error: 'Theme ID is required' }, { status: 400 });
     }
 
     const supabaseAdmin = getSupabaseAdmin();
 
-    // Find session using RPC function (required for custom schema)
-    const { data: sessions, error: sessionError } = await supabaseAdmin
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json(
-        { error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
-
-    // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json(
-        { error: 'Session expired' },
-        { status: 401 }
-      );
-    }
-
-    // Get user to find their account_id using RPC function (required for custom schema)
-    const { data: users, error: userError } = await supabaseAdmin
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
     // Check if theme exists and belongs to this account using RPC function
     const { data: themeExists, error: checkError } = await supabaseAdmin
       .rpc('check_theme_exists', {
@@ -237,6 +179,12 @@ export async function POST(
       );
     }
 
+    // Currently active theme, for the audit log
+    const { data: accountThemes } = await supabaseAdmin
+      .rpc('get_themes_by_account', { p_account_id: user.account_id });
+    const previouslyActive = ((accountThemes || []) as { id: string; name: string; is_active?: boolean }[])
+      .find((t) => t.is_active);
+
     // Activate the selected theme using RPC function (required for custom schema)
     // This function automatically deactivates all other themes first
     const { data: themes, error: activateError } = await supabaseAdmin
@@ -255,6 +203,24 @@ export async function POST(
       );
     }
 
+    audit({
+      action: 'theme.activate',
+      before: {
+        active_theme_id: previouslyActive?.id ?? null,
+        active_theme_name: previouslyActive?.name ?? null,
+      },
+      after: { active_theme_id: theme.id, active_theme_name: theme.name },
+    });
+
+    if (user.account_id) {
+      await emitWebhookEvent(user.account_id, 'theme.activated', {
+        theme_id: theme.id,
+        theme_name: theme.name,
+        previous_theme_id: previouslyActive?.id ?? null,
+        activated_by: user.email,
+      });
+    }
+
     return NextResponse.json({ theme });
   } catch (error) {
     console.error('Activate theme error:', error);
@@ -263,59 +229,21 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/dashboard/themes/[id]
  * Delete a custom theme
  */
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission('themes', 'delete', async (_request: NextRequest, { user, params, audit }) => {
   try {
-    const { id } = await params;
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    const id = params?.id;
+    if (!id) {
+      return NextResponse.json({ error: 'Theme ID is required' }, { status: 400 });
     }
 
     const supabaseAdmin = getSupabaseAdmin();
 
-    // Find session using RPC function (required for custom schema)
-    const { data: sessions, error: sessionError } = await supabaseAdmin
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json(
-        { error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
-
-    // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json(
-        { error: 'Session expired' },
-        { status: 401 }
-      );
-    }
-
-    // Get user to find their account_id using RPC function (required for custom schema)
-    const { data: users, error: userError } = await supabaseAdmin
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
     // Delete theme using RPC function (required for custom schema)
     // This function validates that theme belongs to account, is not active, and is not default
     const { data: deleted, error: deleteError } = await supabaseAdmin
@@ -367,6 +295,8 @@ export async function DELETE(
       );
     }
 
+    audit({ action: 'theme.delete' });
+
     return NextResponse.json({ success: true }, { status: 200 });
   } catch (error) {
     console.error('❌ [DEBUG] Delete theme error:', error);
@@ -375,5 +305,5 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { themeVersionDatabaseError } from '@/lib/themes/versions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dashboard/themes/[id]/versions/[version]/restore
+ * Restore a previous version as the current theme config
+ * The restore is recorded as a new version, so it can itself be rolled back
+ */
+export const POST = withPermission('themes', 'write', async (_request: NextRequest, { user, params }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { id, version } = params ?? {};
+    if (!id) {
+      return apiError('Theme ID is required', 400);
+    }
+
+    const versionNumber = Number(version);
+
+    if (!Number.isInteger(versionNumber) || versionNumber <= 0) {
+      return apiError('Invalid version', 400);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin.rpc('restore_theme_version', {
+      p_theme_id: id,
+      p_account_id: user.account_id,
+      p_version_number: versionNumber,
+      p_updated_by: user.id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error restoring theme version:', error);
+      return themeVersionDatabaseError(error, 'Failed to restore theme version');
+    }
+
+    const theme = data && data.length > 0 ? data[0] : null;
+    if (!theme) {
+      return apiError('Failed to restore theme version', 500);
+    }
+
+    console.log(`✅ [DEBUG] Theme ${id} restored to version ${versionNumber} by ${user.email}`);
+
+    return apiSuccess({ theme });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error restoring theme version:', error);
+    return apiError('Failed to restore theme version', 500);
+  }
+});
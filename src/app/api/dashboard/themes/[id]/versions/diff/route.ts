@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  diffThemeConfigs,
+  themeVersionDatabaseError,
+  type ThemeVersionConfigRow,
+} from '@/lib/themes/versions';
+
+export const dynamic = 'force-dynamic';
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+/**
+ * GET /api/dashboard/themes/[id]/versions/diff?from=3&to=5
+ * Diff two versions of a theme at the level of config paths
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = diffQuerySchema.safeParse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+
+    if (!queryResult.success) {
+      return apiValidationError(queryResult.error);
+    }
+
+    const { from, to } = queryResult.data;
+    const { id } = await params;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data, error } = await supabaseAdmin.rpc('get_theme_version_configs', {
+      p_theme_id: id,
+      p_account_id: user.account_id,
+      p_version_numbers: [from, to],
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching theme versions:', error);
+      return themeVersionDatabaseError(error, 'Failed to diff theme versions');
+    }
+
+    const rows = (data || []) as ThemeVersionConfigRow[];
+    const fromVersion = rows.find((row) => row.version_number === from);
+    const toVersion = rows.find((row) => row.version_number === to);
+
+    if (!fromVersion || !toVersion) {
+      return apiError('Theme version not found', 404);
+    }
+
+    const diff = diffThemeConfigs(fromVersion.config, toVersion.config);
+
+    return apiSuccess({
+      from: { version: from, name: fromVersion.name, createdAt: fromVersion.created_at },
+      to: { version: to, name: toVersion.name, createdAt: toVersion.created_at },
+      ...diff,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error diffing theme versions:', error);
+    return apiError('Failed to diff theme versions', 500);
+  }
+}
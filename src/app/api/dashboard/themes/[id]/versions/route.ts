@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  toThemeVersion,
+  themeVersionDatabaseError,
+  type ThemeVersionRow,
+} from '@/lib/themes/versions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dashboard/themes/[id]/versions
+ * List the saved versions of a theme (newest first)
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const { id } = await params;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data, error } = await supabaseAdmin.rpc('get_theme_versions', {
+      p_theme_id: id,
+      p_account_id: user.account_id,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error fetching theme versions:', error);
+      return themeVersionDatabaseError(error, 'Failed to fetch theme versions');
+    }
+
+    const versions = ((data || []) as ThemeVersionRow[]).map(toThemeVersion);
+
+    return apiSuccess({ versions });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return apiError(error.message, error.status);
+    }
+    console.error('❌ [DEBUG] Error fetching theme versions:', error);
+    return apiError('Failed to fetch theme versions', 500);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { parseThemeImport } from '@/lib/themes/import';
+import { THEME_EXPORT_VERSION } from '@/lib/themes/migrations';
+
+export const dynamic = 'force-dynamic';
+
+// Exported themes are a few KB; anything larger is not a theme file
+const MAX_IMPORT_SIZE = 1024 * 1024;
+
+/**
+ * POST /api/dashboard/themes/import
+ * Import a theme file produced by GET /api/dashboard/themes/[id]/export
+ *
+ * Body: the exported file. Older export versions are upgraded and missing
+ * sections are filled from the base theme defaults.
+ * Query: ?name= to import the theme under a different name
+ * Invalid files return 400 with field-level errors ({ path, message }).
+ */
+export const POST = withPermission('themes', 'write', async (request: NextRequest, { user }) => {
+  try {
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    const rawBody = await request.text();
+    if (rawBody.length > MAX_IMPORT_SIZE) {
+      return apiError('Theme file is too large', 413);
+    }
+
+    let file: unknown;
+    try {
+      file = JSON.parse(rawBody);
+    } catch {
+      return apiError('Invalid JSON in theme file', 400);
+    }
+
+    const name = request.nextUrl.searchParams.get('name')?.trim() || undefined;
+    const result = parseThemeImport(file, name);
+
+    if (!result.success) {
+      return apiError('Invalid theme file', 400, result.errors);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: themes, error: createError } = await supabaseAdmin.rpc('create_theme', {
+      p_account_id: user.account_id,
+      p_name: result.name,
+      p_config: result.config,
+      p_created_by: user.id,
+      p_is_active: false,
+      p_base_theme: result.config.baseTheme || null,
+    });
+
+    const theme = themes && themes.length > 0 ? themes[0] : null;
+
+    if (createError || !theme) {
+      console.error('❌ [DEBUG] Error importing theme:', createError);
+      return apiError('Failed to import theme', 500);
+    }
+
+    console.log(
+      `✅ [DEBUG] Theme "${result.name}" imported from export v${result.sourceVersion} by ${user.email}`
+    );
+
+    return apiSuccess(
+      { theme, sourceVersion: result.sourceVersion, version: THEME_EXPORT_VERSION },
+      201
+    );
+  } catch (error) {
+    console.error('❌ [DEBUG] Error importing theme:', error);
+    return apiError('Failed to import theme', 500);
+  }
+});
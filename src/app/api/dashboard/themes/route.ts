@@ -3,6 +3,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
 import { isSessionValid } from '@/lib/api/auth';
+import { withPermission } from '@/lib/api/route-handler';
 
 // Support both old and expanded format
 const themeConfigSchema = z.any(); // Use z.any() to accept both old and expanded formats
@@ -87,50 +88,10 @@ export async function GET(_request: NextRequest) {
  * POST /api/dashboard/themes
  * Create a new theme
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission('themes', 'write', async (request: NextRequest, { user }) => {
   try {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get('dashboard_session')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const supabaseAdmin = getSupabaseAdmin();
 
-    // Find session using RPC function (required for custom schema)
-    const { data: sessions, error: sessionError } = await supabaseAdmin
-      .rpc('get_session_by_token', { p_token: sessionToken });
-
-    const session = sessions && sessions.length > 0 ? sessions[0] : null;
-
-    if (sessionError || !session) {
-      console.error('🚨 [DEBUG] Session error:', sessionError);
-      return NextResponse.json(
-        { error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
-
-    // Validate session expiration (RPC already filters expired, but double-check with timezone-safe buffer)
-    if (!isSessionValid(session.expires_at)) {
-      return NextResponse.json(
-        { error: 'Session expired' },
-        { status: 401 }
-      );
-    }
-
-    // Get user to find their account_id using RPC function (required for custom schema)
-    const { data: users, error: userError } = await supabaseAdmin
-      .rpc('get_user_by_id', { p_user_id: session.user_id });
-
-    const user = users && users.length > 0 ? users[0] : null;
-
-    if (userError || !user) {
-      console.error('🚨 [DEBUG] User query error:', userError);
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
     const body = await request.json();
     const validated = themeConfigSchema.parse(body);
 
@@ -149,7 +110,7 @@ export async function POST(request: NextRequest) {
         p_account_id: user.account_id,
         p_name: validated.name,
         p_config: configForStorage,
-        p_created_by: session.user_id,
+        p_created_by: user.id,
         p_is_active: false,
         p_base_theme: baseTheme,
       });
@@ -178,5 +139,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
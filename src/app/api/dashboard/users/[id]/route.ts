@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import { withAuth } from '@/lib/api/route-handler';
+import { apiSuccess, apiError, apiInternalError, apiNotFound } from '@/lib/api/responses';
+import { withPermission, withPermissionAndValidation } from '@/lib/api/route-handler';
+import { AssignRoleSchema, assignUserRole } from '@/lib/rbac/roles';
 
 /**
  * DELETE /api/dashboard/users/[id]
@@ -9,54 +10,106 @@ import { withAuth } from '@/lib/api/route-handler';
  */
 export const dynamic = 'force-dynamic';
 
-export async function DELETE(
-  request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  return withAuth(async (_request, { user }) => {
+export const DELETE = withPermission('users', 'delete', async (_request: NextRequest, { user, params, audit }) => {
+  try {
+    const userIdToDelete = params?.id;
+
+    if (!userIdToDelete) {
+      return apiError('User ID is required', 400);
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    if (!user.account_id) {
+      return apiError('User account not found', 404);
+    }
+
+    // Delete user using RPC function (all validation is done inside the function)
+    const { error: deleteError } = await supabaseAdmin.rpc(
+      'delete_user',
+      {
+        p_user_id: userIdToDelete,
+        p_deleter_user_id: user.id,
+      }
+    );
+
+    if (deleteError) {
+      console.error('Delete user error:', deleteError);
+      if (deleteError.message?.includes('not found')) {
+        return apiError('User not found', 404);
+      }
+      if (deleteError.message?.includes('cannot delete')) {
+        return apiError(deleteError.message, 400);
+      }
+      if (deleteError.message?.includes('Insufficient permissions')) {
+        return apiError(deleteError.message, 403);
+      }
+      return apiError('Failed to delete user', 500);
+    }
+
+    audit({ action: 'user.delete', resourceType: 'user' });
+
+    return apiSuccess({
+      message: 'User deleted successfully',
+    });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+});
+
+/**
+ * PATCH /api/dashboard/users/[id]
+ * Assign a custom role to a user of the account, or remove it (customRoleId: null)
+ * Requires users manage, since custom roles can grant more than the built-in role
+ */
+export const PATCH = withPermissionAndValidation(
+  'users',
+  'manage',
+  AssignRoleSchema,
+  async (_request: NextRequest, { user, params, body, audit }) => {
     try {
-      const params = await context.params;
-      const { id: userIdToDelete } = params;
+      const userId = params?.id;
 
-      if (!userIdToDelete) {
+      if (!userId) {
         return apiError('User ID is required', 400);
       }
 
-      const supabaseAdmin = getSupabaseAdmin();
-
       if (!user.account_id) {
         return apiError('User account not found', 404);
       }
 
-      // Delete user using RPC function (all validation is done inside the function)
-      const { error: deleteError } = await supabaseAdmin.rpc(
-        'delete_user',
-        {
-          p_user_id: userIdToDelete,
-          p_deleter_user_id: user.id,
-        }
-      );
+      // Current custom role, for the audit log
+      const { data: targets } = await getSupabaseAdmin().rpc('get_user_by_id', { p_user_id: userId });
+      const target = targets && targets.length > 0 ? targets[0] : null;
 
-      if (deleteError) {
-        console.error('Delete user error:', deleteError);
-        if (deleteError.message?.includes('not found')) {
-          return apiError('User not found', 404);
-        }
-        if (deleteError.message?.includes('cannot delete')) {
-          return apiError(deleteError.message, 400);
-        }
-        if (deleteError.message?.includes('Insufficient permissions')) {
-          return apiError(deleteError.message, 403);
+      const { assigned, error } = await assignUserRole(user.account_id, userId, body.customRoleId);
+
+      if (error) {
+        if (error.message?.includes('Role not found')) {
+          return apiNotFound('Role not found');
         }
-        return apiError('Failed to delete user', 500);
+        console.error('❌ [DEBUG] Error assigning custom role:', error);
+        return apiError('Failed to assign role', 500);
+      }
+
+      if (!assigned) {
+        return apiNotFound('User not found');
       }
 
+      audit({
+        action: 'user.role.update',
+        resourceType: 'user',
+        before: { custom_role_id: target?.custom_role_id ?? null, role: target?.role ?? null },
+        after: { custom_role_id: body.customRoleId, role: target?.role ?? null },
+        metadata: { email: target?.email ?? null },
+      });
+
       return apiSuccess({
-        message: 'User deleted successfully',
+        user: { id: userId, customRoleId: body.customRoleId },
+        message: 'Role assigned successfully',
       });
     } catch (error) {
       return apiInternalError(error);
     }
-  })(request, context);
-}
-
+  }
+);
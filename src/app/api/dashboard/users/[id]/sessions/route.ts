@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { withPermission } from '@/lib/api/route-handler';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { revokeMemberSessions } from '@/lib/sessions/active-sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/dashboard/users/[id]/sessions
+ * Force logout of a team member: revokes all of their sessions
+ * Requires users delete (admins cannot sign out owners)
+ */
+export const DELETE = withPermission(
+  'users',
+  'delete',
+  async (_request: NextRequest, { user, params, audit }) => {
+    try {
+      const userId = params?.id;
+
+      if (!userId) {
+        return apiError('User ID is required', 400);
+      }
+
+      if (userId === user.id) {
+        return apiError('Use your profile to sign out your own sessions', 400);
+      }
+
+      const { count, error } = await revokeMemberSessions(userId, user.id);
+
+      if (error) {
+        if (error.message?.includes('not found')) {
+          return apiError('User not found', 404);
+        }
+        if (error.message?.includes('Insufficient permissions')) {
+          return apiError(error.message, 403);
+        }
+        console.error('❌ [DEBUG] Error revoking member sessions:', error);
+        return apiError('Failed to sign out user', 500);
+      }
+
+      audit({
+        action: 'user.sessions.revoke',
+        resourceType: 'user',
+        metadata: { revoked: count },
+      });
+
+      return apiSuccess({ revoked: count, message: 'User signed out of all sessions' });
+    } catch (error) {
+      return apiInternalError(error);
+    }
+  }
+);
@@ -2,8 +2,7 @@ import { NextRequest } from 'next/server';
 import { headers } from 'next/headers';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
-import { canRoleInviteUsers } from '@/utils/users';
+import { withPermission } from '@/lib/api/route-handler';
 import { getEmailService } from '@/utils/auth/email-service';
 import { generateInvitationEmail } from '@/utils/auth/email-service';
 import { routing } from '@/i18n/routing';
@@ -14,24 +13,14 @@ import { routing } from '@/i18n/routing';
  */
 export const dynamic = 'force-dynamic';
 
-export async function POST(
-  _request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const POST = withPermission('users', 'write', async (_request: NextRequest, { user, params }) => {
   try {
-    const { user } = await getAuthenticatedUser();
-    const params = await context.params;
-    const { id } = params;
+    const id = params?.id;
 
     if (!id) {
       return apiError('Invitation ID is required', 400);
     }
 
-    // Check permissions - only owners and admins can resend invitations
-    if (!canRoleInviteUsers(user.role as 'owner' | 'admin')) {
-      return apiError('Insufficient permissions to resend invitations', 403);
-    }
-
     const supabaseAdmin = getSupabaseAdmin();
 
     if (!user.account_id) {
@@ -111,10 +100,7 @@ export async function POST(
       message: 'Invitation resent successfully',
     });
   } catch (error) {
-    if (error instanceof AuthError) {
-      return apiError(error.message, error.status);
-    }
     return apiInternalError(error);
   }
-}
+});
 
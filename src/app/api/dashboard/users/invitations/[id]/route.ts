@@ -1,8 +1,7 @@
 import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import { getAuthenticatedUser, AuthError } from '@/lib/api/auth';
-import { canRoleInviteUsers } from '@/utils/users';
+import { withPermission } from '@/lib/api/route-handler';
 
 /**
  * DELETE /api/dashboard/users/invitations/[id]
@@ -10,24 +9,14 @@ import { canRoleInviteUsers } from '@/utils/users';
  */
 export const dynamic = 'force-dynamic';
 
-export async function DELETE(
-  _request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission('users', 'delete', async (_request: NextRequest, { user, params }) => {
   try {
-    const { user } = await getAuthenticatedUser();
-    const params = await context.params;
-    const { id } = params;
+    const id = params?.id;
 
     if (!id) {
       return apiError('Invitation ID is required', 400);
     }
 
-    // Check permissions - only owners and admins can cancel invitations
-    if (!canRoleInviteUsers(user.role as 'owner' | 'admin')) {
-      return apiError('Insufficient permissions to cancel invitations', 403);
-    }
-
     const supabaseAdmin = getSupabaseAdmin();
 
     if (!user.account_id) {
@@ -76,10 +65,7 @@ export async function DELETE(
       message: 'Invitation cancelled successfully',
     });
   } catch (error) {
-    if (error instanceof AuthError) {
-      return apiError(error.message, error.status);
-    }
     return apiInternalError(error);
   }
-}
+});
 
@@ -2,8 +2,10 @@ import { headers } from 'next/headers';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { z } from 'zod';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import { withAuthAndValidation } from '@/lib/api/route-handler';
-import { canRoleInviteUsers, isValidEmail, isValidRole, getPlanUserLimit, canInviteUser } from '@/utils/users';
+import { withPermissionAndValidation } from '@/lib/api/route-handler';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { isRoleAtLeast, type Role } from '@/utils/rbac/permissions';
+import { isValidEmail, isValidRole, getPlanUserLimit, canInviteUser } from '@/utils/users';
 import { getEmailService } from '@/utils/auth/email-service';
 import { generateInvitationEmail } from '@/utils/auth/email-service';
 import { routing } from '@/i18n/routing';
@@ -19,13 +21,18 @@ const inviteSchema = z.object({
  */
 export const dynamic = 'force-dynamic';
 
-export const POST = withAuthAndValidation(
+export const POST = withPermissionAndValidation(
+  'users',
+  'write',
   inviteSchema,
-  async (_request, { user, body }) => {
+  async (_request, { user, body, audit }) => {
     try {
-      // Check permissions - only owners and admins can invite
-      if (!canRoleInviteUsers(user.role as 'owner' | 'admin')) {
-        return apiError('Insufficient permissions to invite users', 403);
+      // Inviting a role above one's own requires users manage (owners, or a custom role)
+      if (
+        !isRoleAtLeast(user.role as Role, body.role) &&
+        !(await userHasPermission(user, 'users', 'manage'))
+      ) {
+        return apiError(`Insufficient permissions to invite users as ${body.role}`, 403);
       }
 
       const supabaseAdmin = getSupabaseAdmin();
@@ -166,6 +173,13 @@ export const POST = withAuthAndValidation(
         // The invitation is still created and can be resent
       }
 
+      audit({
+        action: 'user.invite',
+        resourceType: 'invitation',
+        resourceId: invitation.id,
+        after: { email: invitation.email, role: invitation.role },
+      });
+
       return apiSuccess({
         invitation: {
           id: invitation.id,
@@ -1,7 +1,6 @@
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { apiSuccess, apiError, apiInternalError } from '@/lib/api/responses';
-import { withAuth } from '@/lib/api/route-handler';
-import { canRoleInviteUsers } from '@/utils/users';
+import { withPermission } from '@/lib/api/route-handler';
 
 /**
  * GET /api/dashboard/users
@@ -9,13 +8,8 @@ import { canRoleInviteUsers } from '@/utils/users';
  */
 export const dynamic = 'force-dynamic';
 
-export const GET = withAuth(async (_request, { user }) => {
+export const GET = withPermission('users', 'read', async (_request, { user }) => {
   try {
-    // Check permissions - only owners and admins can view users
-    if (!canRoleInviteUsers(user.role as 'owner' | 'admin')) {
-      return apiError('Insufficient permissions to view users', 403);
-    }
-
     const supabaseAdmin = getSupabaseAdmin();
 
     if (!user.account_id) {
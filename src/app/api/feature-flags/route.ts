@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getAuthenticatedUser } from '@/lib/api/auth';
 import { apiSuccess, apiError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
 
 export const dynamic = 'force-dynamic';
 
@@ -65,9 +66,8 @@ export async function GET(_request: NextRequest) {
  * PATCH /api/feature-flags
  * Update app feature flags for the current account
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withPermission('settings', 'write', async (request: NextRequest, { user }) => {
   try {
-    const { user } = await getAuthenticatedUser();
     if (!user.account_id) {
       return apiError('User account not found', 404);
     }
@@ -137,7 +137,7 @@ export async function PATCH(request: NextRequest) {
     console.error('❌ [DEBUG] Error in feature flags PATCH API:', error);
     return apiError('Internal server error', 500);
   }
-}
+});
 
 /**
  * Get default feature flags from environment variables
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth';
+import { purgeExpiredAuditLogs } from '@/lib/audit/audit-log';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/audit-retention
+ * Delete audit log entries older than the retention of each account's plan
+ * (called by the scheduler daily). Requires `Authorization: Bearer <JOBS_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { deleted, error } = await purgeExpiredAuditLogs();
+
+    if (error) {
+      return apiError('Failed to purge expired audit logs', 500);
+    }
+
+    console.log(`✅ [DEBUG] Audit retention: ${deleted} expired entries deleted`);
+
+    return apiSuccess({ deleted });
+  } catch (error) {
+    return apiInternalError(error);
+  }
+}
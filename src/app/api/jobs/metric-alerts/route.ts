@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth';
+import { runAlertEvaluation } from '@/lib/alerts/alert-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/metric-alerts
+ * Evaluate the alert rules and notify their channels (called by the
+ * scheduler every few minutes). Requires `Authorization: Bearer <JOBS_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { result, error } = await runAlertEvaluation();
+
+    if (error) {
+      return apiError('Failed to evaluate alert rules', 500);
+    }
+
+    console.log(
+      `✅ [DEBUG] Metric alerts: ${result.evaluated} evaluated, ${result.fired} fired, ${result.resolved} resolved, ${result.failed} failed`
+    );
+
+    return apiSuccess(result);
+  } catch (error) {
+    return apiInternalError(error);
+  }
+}
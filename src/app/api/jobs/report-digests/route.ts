@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth';
+import { runDueReportDigests } from '@/lib/reports/digest-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/report-digests
+ * Send the report digests that are due (called by the scheduler, hourly or
+ * more often). Requires `Authorization: Bearer <JOBS_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { result, error } = await runDueReportDigests();
+
+    if (error) {
+      return apiError('Failed to run report digests', 500);
+    }
+
+    console.log(
+      `✅ [DEBUG] Report digests: ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed`
+    );
+
+    return apiSuccess(result);
+  } catch (error) {
+    return apiInternalError(error);
+  }
+}
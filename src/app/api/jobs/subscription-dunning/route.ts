@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth';
+import { runSubscriptionDunning } from '@/lib/dunning/dunning-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/subscription-dunning
+ * Retry failed subscription payments and move subscriptions through the
+ * grace period to suspension (called by the scheduler hourly).
+ * Requires `Authorization: Bearer <JOBS_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { result, error } = await runSubscriptionDunning();
+
+    if (error) {
+      return apiError('Failed to run subscription dunning', 500);
+    }
+
+    console.log(
+      `✅ [DEBUG] Subscription dunning: ${result.claimed} claimed, ${result.recovered} recovered, ${result.grace} in grace, ${result.suspended} suspended, ${result.failed} failed`
+    );
+
+    return apiSuccess(result);
+  } catch (error) {
+    return apiInternalError(error);
+  }
+}
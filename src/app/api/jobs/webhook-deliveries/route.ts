@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { apiError, apiInternalError, apiSuccess } from '@/lib/api/responses';
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth';
+import { runWebhookDeliveries } from '@/lib/webhooks/delivery-runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/webhook-deliveries
+ * Send the queued webhook deliveries and their retries (called by the
+ * scheduler every minute). Requires `Authorization: Bearer <JOBS_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { result, error } = await runWebhookDeliveries();
+
+    if (error) {
+      return apiError('Failed to send webhook deliveries', 500);
+    }
+
+    console.log(
+      `✅ [DEBUG] Webhook deliveries: ${result.succeeded} succeeded, ${result.retrying} retrying, ${result.dead} dead, ${result.failed} failed`
+    );
+
+    return apiSuccess(result);
+  } catch (error) {
+    return apiInternalError(error);
+  }
+}
@@ -1,89 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { Plan, Subscription, hasFeature } from '@/utils/plans';
+import { AuthError } from '@/lib/api/auth';
+import { authenticateApiKey } from '@/lib/api/api-key-auth';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/public/boltx/status
- * Public endpoint to check if BoltX is enabled for a VTEX account
+ * Public endpoint to check if BoltX is enabled for the account that owns the API key
  * 
  * This endpoint is called by the checkout to verify BoltX status.
  * It checks the database first, then falls back to environment variables.
  * Priority: Database > Environment Variables
  * 
- * @param vtexAccount - VTEX account name (query parameter)
- * @param X-API-Key - API key for authentication (header)
+ * @param X-API-Key - Account API key with the 'boltx' scope (header)
  */
 
-/**
- * Get allowed origins for CORS
- */
-function getAllowedOrigins(): string[] {
-  const envOrigins = process.env.CORS_ALLOWED_ORIGINS?.split(',').filter(Boolean) || [];
-
-  // In development, always allow localhost on any port
-  if (process.env.NODE_ENV === 'development') {
-    return ['http://localhost', 'http://127.0.0.1', ...envOrigins];
-  }
-
-  // In production, require explicit configuration
-  return envOrigins.length > 0 ? envOrigins : [];
-}
-
-/**
- * Get CORS headers
- */
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigins = getAllowedOrigins();
-
-  // Check if origin is allowed (supports wildcards like localhost:*)
-  const isAllowed = origin && (
-    allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (origin === allowed) return true;
-      // Support localhost:* pattern - match any localhost with any port
-      if ((allowed.includes('localhost') || allowed.includes('127.0.0.1')) && 
-          (origin.includes('localhost') || origin.includes('127.0.0.1'))) {
-        return true;
-      }
-      return false;
-    })
-  );
-
-  // Use origin if allowed, otherwise use first allowed origin or '*'
-  // In development with no config, allow any origin
-  let corsOrigin: string;
-  if (isAllowed && origin) {
-    corsOrigin = origin;
-  } else if (allowedOrigins.length > 0) {
-    corsOrigin = allowedOrigins[0];
-  } else if (process.env.NODE_ENV === 'development') {
-    // In development, be permissive if no origins configured
-    corsOrigin = origin || '*';
-  } else {
-    corsOrigin = '*';
-  }
-
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
-}
+const CORS: CorsOptions = { methods: ['GET'] };
 
 /**
  * Handle OPTIONS request (preflight)
  */
 export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const headers = getCorsHeaders(origin);
-
-  return new NextResponse(null, {
-    status: 204,
-    headers,
-  });
+  return corsPreflight(request, CORS);
 }
 
 /**
@@ -163,68 +110,42 @@ function getBoltXStatusFromEnv(): {
 
 export async function GET(request: NextRequest) {
   const origin = request.headers.get('origin');
-  const corsHeaders = getCorsHeaders(origin);
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
 
   // Debug logging in development
   if (process.env.NODE_ENV === 'development') {
     console.info('[⚡️BoltX] CORS Debug:', {
       origin,
       corsHeaders,
-      allowedOrigins: getAllowedOrigins(),
     });
   }
 
   try {
-    // Validate API Key
-    const apiKey = request.headers.get('X-API-Key');
-    const expectedApiKey = process.env.METRICS_API_KEY;
-
-    if (!expectedApiKey) {
-      console.warn('[⚡️BoltX] METRICS_API_KEY not configured');
-      return NextResponse.json(
-        { error: 'API key not configured' },
-        { status: 500, headers: corsHeaders }
-      );
-    }
-
-    if (apiKey !== expectedApiKey) {
-      console.warn('[⚡️BoltX] Invalid API key');
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 401, headers: corsHeaders }
-      );
+    // Authenticate with the account's own API key (requires 'boltx' scope)
+    let accountId: string;
+    try {
+      ({ accountId } = await authenticateApiKey(request, 'boltx'));
+    } catch (authError) {
+      if (authError instanceof AuthError) {
+        console.warn('[⚡️BoltX] API key rejected:', authError.message);
+        return NextResponse.json(
+          { error: authError.message },
+          { status: authError.status, headers: corsHeaders }
+        );
+      }
+      throw authError;
     }
 
-    // Get VTEX account name from query parameter
-    const { searchParams } = new URL(request.url);
-    const vtexAccount = searchParams.get('vtexAccount');
-
-    if (!vtexAccount) {
-      console.warn('[⚡️BoltX] VTEX account name not provided');
-      // Fallback to ENV if no account provided
-      return NextResponse.json(getBoltXStatusFromEnv(), { headers: corsHeaders });
+    // The request origin must be registered by the account that owns the key
+    const originCheck = await checkAccountOrigin(request, accountId, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
     }
 
-    console.info('[⚡️BoltX] Checking status from database for VTEX account:', vtexAccount);
-
     try {
       const supabaseAdmin = getSupabaseAdmin();
 
-      // Find account by VTEX account name using RPC function
-      const { data: accounts, error: accountError } = await supabaseAdmin
-        .rpc('get_account_by_vtex_name', { p_vtex_account_name: vtexAccount });
-
-      if (accountError) {
-        console.warn('[⚡️BoltX] Error fetching account from DB, falling back to ENV:', accountError);
-        return NextResponse.json(getBoltXStatusFromEnv(), { headers: corsHeaders });
-      }
-
-      if (!accounts || accounts.length === 0) {
-        console.warn('[⚡️BoltX] Account not found in DB, falling back to ENV');
-        return NextResponse.json(getBoltXStatusFromEnv(), { headers: corsHeaders });
-      }
-
-      const accountId = accounts[0].id;
       console.info('[⚡️BoltX] Account found, checking BoltX configuration for account_id:', accountId);
 
       // Get BoltX configuration for this account
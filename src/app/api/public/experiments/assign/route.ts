@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthError } from '@/lib/api/auth';
+import { authenticateApiKey } from '@/lib/api/api-key-auth';
+import { assignSession } from '@/lib/experiments/experiment-store';
+import {
+  apiOriginNotAllowed,
+  checkAccountOrigin,
+  corsPreflight,
+  getPreflightCorsHeaders,
+  type CorsOptions,
+} from '@/lib/api/cors';
+
+export const dynamic = 'force-dynamic';
+
+const AssignRequestSchema = z.object({
+  sessionId: z.string().trim().min(1, 'sessionId is required').max(200),
+});
+
+const CORS: CorsOptions = { methods: ['POST'] };
+
+/**
+ * Handle OPTIONS request (preflight)
+ */
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, CORS);
+}
+
+/**
+ * POST /api/public/experiments/assign
+ * Called by the checkout when a session starts: returns the variant of the
+ * session for every running experiment (theme config or BoltX features to apply).
+ * Assignments are sticky: the same session always gets the same variants.
+ * Authenticated with the account's API key ('ingest' scope, like event ingestion)
+ */
+export async function POST(request: NextRequest) {
+  let corsHeaders = await getPreflightCorsHeaders(request, CORS);
+
+  try {
+    let accountId: string;
+    try {
+      ({ accountId } = await authenticateApiKey(request, 'ingest'));
+    } catch (authError) {
+      if (authError instanceof AuthError) {
+        console.warn('⚠️ [WARN] Experiments API key rejected:', authError.message);
+        return NextResponse.json(
+          { error: authError.message },
+          { status: authError.status, headers: corsHeaders }
+        );
+      }
+      throw authError;
+    }
+
+    const originCheck = await checkAccountOrigin(request, accountId, CORS);
+    corsHeaders = originCheck.headers;
+    if (!originCheck.allowed) {
+      return apiOriginNotAllowed(corsHeaders);
+    }
+
+    const validationResult = AssignRequestSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { sessionId } = validationResult.data;
+    const { assignments, error } = await assignSession(accountId, sessionId);
+
+    if (error) {
+      console.error('❌ [DEBUG] Error assigning experiment variants:', error);
+      return NextResponse.json(
+        { error: 'Failed to assign experiment variants' },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json({ sessionId, assignments }, { headers: corsHeaders });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    console.error('❌ [DEBUG] Error assigning experiment variants:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -8,6 +8,8 @@ import { getSupabaseAdmin, validateSupabaseAdmin } from '@/lib/supabase';
 import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
 import { PaymentGatewayError } from '@/lib/payments/types';
 import { createIdempotencyKey } from '@/lib/payments/error-handler';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+import { restoreSubscriptionAccess, startSubscriptionDunning } from '@/lib/dunning/dunning';
 
 export const dynamic = 'force-dynamic';
 
@@ -85,7 +87,7 @@ export async function POST(request: NextRequest) {
         // Find subscription by gateway subscription ID
         const { data: subscriptions, error: subError } = await supabase
           .from('subscriptions')
-          .select('id, account_id')
+          .select('id, account_id, plan_id')
           .eq('gateway_subscription_id', eventData.subscriptionId)
           .single();
 
@@ -126,6 +128,18 @@ export async function POST(request: NextRequest) {
           console.error('❌ [DEBUG] Error creating transaction from webhook:', transactionError);
         }
 
+        // End dunning: a past due or suspended subscription gets its access back
+        const { previousState, error: restoreError } = await restoreSubscriptionAccess(subscriptions);
+
+        if (restoreError) {
+          console.error('❌ [DEBUG] Error restoring subscription access from webhook:', restoreError);
+        } else if (previousState) {
+          console.info('✅ [DEBUG] Subscription access restored', {
+            subscription_id: subscriptions.id,
+            previous_state: previousState,
+          });
+        }
+
         break;
       }
 
@@ -133,7 +147,7 @@ export async function POST(request: NextRequest) {
         // Find subscription by gateway subscription ID
         const { data: subscriptions, error: subError } = await supabase
           .from('subscriptions')
-          .select('id')
+          .select('id, account_id, plan_id')
           .eq('gateway_subscription_id', eventData.subscriptionId)
           .single();
 
@@ -163,26 +177,52 @@ export async function POST(request: NextRequest) {
           },
         });
 
-        // Optionally update subscription status
-        // await supabase
-        //   .from('subscriptions')
-        //   .update({ status: 'pending' })
-        //   .eq('id', subscriptions.id);
+        // Start dunning: the job retries the invoice, then grace period, then suspension
+        const { state, started, error: dunningError } = await startSubscriptionDunning(
+          subscriptions,
+          { invoiceId: eventData.invoiceId ?? null, error: 'Payment failed' }
+        );
+
+        if (dunningError) {
+          console.error('❌ [DEBUG] Error starting dunning from webhook:', dunningError);
+        } else {
+          console.warn('⚠️ [DEBUG] Subscription payment failed', {
+            subscription_id: subscriptions.id,
+            dunning_state: state,
+            started,
+          });
+        }
 
         break;
       }
 
       case 'subscription_updated': {
-        // Update subscription status if needed
-        const { error: updateError } = await supabase
+        // Update subscription status if needed. A past_due subscription stays
+        // active: failed payments are handled by dunning (dunning_state)
+        const { data: updatedSubscriptions, error: updateError } = await supabase
           .from('subscriptions')
           .update({
-            status: eventData.status === 'active' ? 'active' : 'pending',
+            status:
+              eventData.status === 'active' || eventData.status === 'past_due'
+                ? 'active'
+                : 'pending',
           })
-          .eq('gateway_subscription_id', eventData.subscriptionId);
+          .eq('gateway_subscription_id', eventData.subscriptionId)
+          .select('id, account_id, plan_id, status, ended_at');
 
         if (updateError) {
           console.error('❌ [DEBUG] Error updating subscription from webhook:', updateError);
+          break;
+        }
+
+        for (const subscription of updatedSubscriptions || []) {
+          await emitWebhookEvent(subscription.account_id, 'subscription.updated', {
+            subscription_id: subscription.id,
+            plan_id: subscription.plan_id,
+            status: subscription.status,
+            change: 'updated',
+            ended_at: subscription.ended_at ?? null,
+          });
         }
 
         break;
@@ -192,7 +232,7 @@ export async function POST(request: NextRequest) {
         // Find subscription first to check if it was already cancelled
         const { data: existingSub, error: fetchError } = await supabase
           .from('subscriptions')
-          .select('id, cancelled_at, ended_at, status')
+          .select('id, account_id, plan_id, cancelled_at, ended_at, status')
           .eq('gateway_subscription_id', eventData.subscriptionId)
           .single();
 
@@ -230,9 +270,20 @@ export async function POST(request: NextRequest) {
 
           if (cancelError) {
             console.error('❌ [DEBUG] Error cancelling subscription from webhook:', cancelError);
+            break;
           }
         }
 
+        if (existingSub.status !== 'cancelled') {
+          await emitWebhookEvent(existingSub.account_id, 'subscription.updated', {
+            subscription_id: existingSub.id,
+            plan_id: existingSub.plan_id,
+            status: 'cancelled',
+            change: 'cancelled',
+            ended_at: new Date().toISOString(),
+          });
+        }
+
         break;
       }
 
@@ -2,9 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { triggerOnboarding } from '@/lib/automation/onboarding-service';
 import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
 
 export const dynamic = 'force-dynamic';
 
+// Events sent to the account's webhook endpoints as subscription.updated
+const SUBSCRIPTION_CHANGE_EVENTS = [
+  'subscription.created',
+  'subscription.activated',
+  'subscription.updated',
+  'subscription.cancelled',
+  'subscription.expired',
+  'subscription.renewed',
+  'subscription.paused',
+];
+
 /**
  * POST /api/webhooks/subscription
  * 
@@ -37,7 +49,8 @@ export async function POST(request: NextRequest) {
 
     // Verify webhook signature if signature and secret are provided
     const webhookSecret = process.env.SUBSCRIPTION_WEBHOOK_SECRET ||
-      process.env.STRIPE_WEBHOOK_SECRET;
+      process.env.STRIPE_WEBHOOK_SECRET ||
+      process.env.PADDLE_WEBHOOK_SECRET;
 
     if (webhookSecret && signature) {
       try {
@@ -425,6 +438,16 @@ export async function POST(request: NextRequest) {
         console.warn(`⚠️ [DEBUG] Unhandled event type: ${event}`);
     }
 
+    if (SUBSCRIPTION_CHANGE_EVENTS.includes(event)) {
+      await emitWebhookEvent(subscription.account_id, 'subscription.updated', {
+        subscription_id: subscription.id,
+        plan_id: subscription.plan_id,
+        status: subscription.status,
+        change: event.replace('subscription.', ''),
+        ended_at: subscription.ended_at ?? null,
+      });
+    }
+
     // After processing any event, check and update expired cancelled subscriptions
     try {
       const { error: updateError } = await supabase.rpc('update_expired_cancelled_subscriptions');
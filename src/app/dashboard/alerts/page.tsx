@@ -0,0 +1,31 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Tab, Tabs } from '@heroui/react';
+import { PageHeader } from '@/components/Dashboard/PageHeader/PageHeader';
+import { PageWrapper } from '@/components/Dashboard/PageWrapper/PageWrapper';
+import { AlertsInbox } from '@/components/Dashboard/Alerts/AlertsInbox';
+import { AlertRules } from '@/components/Dashboard/Alerts/AlertRules';
+import { AlertChannels } from '@/components/Dashboard/Alerts/AlertChannels';
+
+export default function AlertsPage() {
+  const t = useTranslations('dashboard.alerts');
+
+  return (
+    <PageWrapper>
+      <PageHeader title={t('title')} subtitle={t('subtitle')} />
+
+      <Tabs aria-label={t('tabs.label')} className="mb-6">
+        <Tab key="inbox" title={t('tabs.inbox')}>
+          <AlertsInbox />
+        </Tab>
+        <Tab key="rules" title={t('tabs.rules')}>
+          <AlertRules />
+        </Tab>
+        <Tab key="channels" title={t('tabs.channels')}>
+          <AlertChannels />
+        </Tab>
+      </Tabs>
+    </PageWrapper>
+  );
+}
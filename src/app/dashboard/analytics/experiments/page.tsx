@@ -0,0 +1,17 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { PageHeader } from '@/components/Dashboard/PageHeader/PageHeader';
+import { PageWrapper } from '@/components/Dashboard/PageWrapper/PageWrapper';
+import { Experiments } from '@/components/Dashboard/Experiments/Experiments';
+
+export default function ExperimentsPage() {
+  const t = useTranslations('dashboard.analytics.experiments');
+
+  return (
+    <PageWrapper>
+      <PageHeader title={t('title')} subtitle={t('subtitle')} />
+      <Experiments />
+    </PageWrapper>
+  );
+}
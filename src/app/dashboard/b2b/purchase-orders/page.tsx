@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
+import Link from 'next/link';
 import { PageHeader } from '@/components/Dashboard/PageHeader/PageHeader';
 import { PageWrapper } from '@/components/Dashboard/PageWrapper/PageWrapper';
 import {
@@ -19,6 +20,7 @@ import {
   Chip,
 } from '@heroui/react';
 import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { ApprovalHistoryModal } from '@/components/Dashboard/B2B/ApprovalHistoryModal';
 import { toast } from 'sonner';
 import { useApi } from '@/hooks/useApi';
 
@@ -34,6 +36,9 @@ interface PurchaseOrder {
     quantity: number;
     price: number;
   }>;
+  workflowName: string | null;
+  requiredApprovals: number;
+  approvals: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,8 +59,10 @@ export default function PurchaseOrdersPage() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [historyOrder, setHistoryOrder] = useState<PurchaseOrder | null>(null);
 
-  const { data, error } = useApi<{
+  const { data, error, refetch } = useApi<{
     orders: PurchaseOrder[];
     config: POConfig;
   }>('/api/dashboard/b2b/purchase-orders');
@@ -102,6 +109,27 @@ export default function PurchaseOrdersPage() {
     }
   };
 
+  const handleSubmitOrder = async (order: PurchaseOrder) => {
+    setSubmittingId(order.id);
+    try {
+      const response = await fetch(`/api/dashboard/b2b/purchase-orders/${order.id}/submit`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to submit purchase order');
+      }
+
+      toast.success(t('submitted'));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit purchase order');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
   const getBuyerName = (buyerId: string) => {
     const buyer = buyersData?.buyers.find((b) => b.id === buyerId);
     return buyer ? `${buyer.name} (${buyer.email})` : buyerId;
@@ -132,7 +160,15 @@ export default function PurchaseOrdersPage() {
 
   return (
     <PageWrapper>
-      <PageHeader title={t('title')} subtitle={t('subtitle')} />
+      <PageHeader
+        title={t('title')}
+        subtitle={t('subtitle')}
+        action={
+          <Button as={Link} href="/dashboard/b2b/purchase-orders/queue" variant="bordered">
+            {t('approvalQueue')}
+          </Button>
+        }
+      />
 
       <div className="space-y-6">
         <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
@@ -186,7 +222,9 @@ export default function PurchaseOrdersPage() {
                   <TableColumn>BUYER</TableColumn>
                   <TableColumn>AMOUNT</TableColumn>
                   <TableColumn>STATUS</TableColumn>
+                  <TableColumn>APPROVALS</TableColumn>
                   <TableColumn>CREATED</TableColumn>
+                  <TableColumn>ACTIONS</TableColumn>
                 </TableHeader>
                 <TableBody>
                   {orders.map((order) => (
@@ -206,9 +244,32 @@ export default function PurchaseOrdersPage() {
                           {order.status}
                         </Chip>
                       </TableCell>
+                      <TableCell>
+                        {order.requiredApprovals > 0
+                          ? `${order.approvals}/${order.requiredApprovals}`
+                          : '-'}
+                      </TableCell>
                       <TableCell>
                         {new Date(order.createdAt).toLocaleDateString()}
                       </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {order.status === 'draft' && (
+                            <Button
+                              size="sm"
+                              color="primary"
+                              variant="flat"
+                              onPress={() => handleSubmitOrder(order)}
+                              isLoading={submittingId === order.id}
+                            >
+                              {t('submit')}
+                            </Button>
+                          )}
+                          <Button size="sm" variant="light" onPress={() => setHistoryOrder(order)}>
+                            {t('history')}
+                          </Button>
+                        </div>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -217,6 +278,13 @@ export default function PurchaseOrdersPage() {
           </CardBody>
         </Card>
       </div>
+
+      <ApprovalHistoryModal
+        isOpen={!!historyOrder}
+        onClose={() => setHistoryOrder(null)}
+        orderId={historyOrder?.id ?? null}
+        poNumber={historyOrder?.poNumber}
+      />
     </PageWrapper>
   );
 }
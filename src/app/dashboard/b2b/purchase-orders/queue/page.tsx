@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { PageHeader } from '@/components/Dashboard/PageHeader/PageHeader';
+import { PageWrapper } from '@/components/Dashboard/PageWrapper/PageWrapper';
+import {
+  Card,
+  CardBody,
+  Button,
+  Textarea,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@heroui/react';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { ApprovalHistoryModal } from '@/components/Dashboard/B2B/ApprovalHistoryModal';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+
+type ApprovalAction = 'approve' | 'reject' | 'escalate';
+
+interface QueuedPurchaseOrder {
+  id: string;
+  poNumber: string;
+  buyerId: string;
+  amount: number;
+  status: string;
+  workflowName: string | null;
+  requiredApprovals: number;
+  approvals: number;
+  createdAt: string;
+}
+
+export default function ApprovalQueuePage() {
+  const t = useTranslations('dashboard.b2b.approvalQueue');
+  const [orders, setOrders] = useState<QueuedPurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingDecision, setPendingDecision] = useState<{
+    order: QueuedPurchaseOrder;
+    action: ApprovalAction;
+  } | null>(null);
+  const [comment, setComment] = useState('');
+  const [isDeciding, setIsDeciding] = useState(false);
+  const [historyOrder, setHistoryOrder] = useState<QueuedPurchaseOrder | null>(null);
+
+  const { data, error, refetch } = useApi<{
+    orders: QueuedPurchaseOrder[];
+    approverId: string | null;
+  }>('/api/dashboard/b2b/purchase-orders/queue');
+
+  const { data: buyersData } = useApi<{
+    buyers: Array<{ id: string; name: string; email: string }>;
+  }>('/api/dashboard/b2b/buyers');
+
+  useEffect(() => {
+    if (data) {
+      setOrders(data.orders || []);
+      setIsLoading(false);
+    } else if (error) {
+      console.error('Error loading approval queue:', error);
+      setIsLoading(false);
+    }
+  }, [data, error]);
+
+  const getBuyerName = (buyerId: string) => {
+    const buyer = buyersData?.buyers.find((b) => b.id === buyerId);
+    return buyer ? `${buyer.name} (${buyer.email})` : buyerId;
+  };
+
+  const openDecision = (order: QueuedPurchaseOrder, action: ApprovalAction) => {
+    setComment('');
+    setPendingDecision({ order, action });
+  };
+
+  const handleDecision = async () => {
+    if (!pendingDecision) return;
+
+    setIsDeciding(true);
+    try {
+      const response = await fetch(
+        `/api/dashboard/b2b/purchase-orders/${pendingDecision.order.id}/${pendingDecision.action}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(comment.trim() ? { comment: comment.trim() } : {}),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('decisionFailed'));
+      }
+
+      toast.success(t('decisionSaved'));
+      setPendingDecision(null);
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('decisionFailed'));
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <PageWrapper>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Spinner size="lg" />
+        </div>
+      </PageWrapper>
+    );
+  }
+
+  return (
+    <PageWrapper>
+      <PageHeader title={t('title')} subtitle={t('subtitle')} />
+
+      <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+        <CardBody className="p-6">
+          {orders.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-foreground/60">
+                {data && !data.approverId ? t('notApprover') : t('empty')}
+              </p>
+            </div>
+          ) : (
+            <Table aria-label="Approval queue table">
+              <TableHeader>
+                <TableColumn>{t('poNumber')}</TableColumn>
+                <TableColumn>{t('buyer')}</TableColumn>
+                <TableColumn>{t('amount')}</TableColumn>
+                <TableColumn>{t('workflow')}</TableColumn>
+                <TableColumn>{t('progress')}</TableColumn>
+                <TableColumn>{t('created')}</TableColumn>
+                <TableColumn>{t('actions')}</TableColumn>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <p className="font-semibold">{order.poNumber}</p>
+                    </TableCell>
+                    <TableCell>{getBuyerName(order.buyerId)}</TableCell>
+                    <TableCell>
+                      {new Intl.NumberFormat('en-US', {
+                        style: 'currency',
+                        currency: 'USD',
+                      }).format(order.amount)}
+                    </TableCell>
+                    <TableCell>{order.workflowName || '-'}</TableCell>
+                    <TableCell>
+                      {t('progressValue', {
+                        approvals: order.approvals,
+                        required: order.requiredApprovals,
+                      })}
+                    </TableCell>
+                    <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          color="success"
+                          variant="flat"
+                          onPress={() => openDecision(order, 'approve')}
+                        >
+                          {t('approve')}
+                        </Button>
+                        <Button
+                          size="sm"
+                          color="danger"
+                          variant="flat"
+                          onPress={() => openDecision(order, 'reject')}
+                        >
+                          {t('reject')}
+                        </Button>
+                        <Button
+                          size="sm"
+                          color="warning"
+                          variant="flat"
+                          onPress={() => openDecision(order, 'escalate')}
+                        >
+                          {t('escalate')}
+                        </Button>
+                        <Button size="sm" variant="light" onPress={() => setHistoryOrder(order)}>
+                          {t('history')}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardBody>
+      </Card>
+
+      <Modal isOpen={!!pendingDecision} onClose={() => setPendingDecision(null)} size="lg">
+        <ModalContent>
+          <ModalHeader>
+            {pendingDecision &&
+              t('confirmTitle', {
+                action: t(pendingDecision.action),
+                poNumber: pendingDecision.order.poNumber,
+              })}
+          </ModalHeader>
+          <ModalBody>
+            <Textarea
+              label={t('comment')}
+              placeholder={t('commentPlaceholder')}
+              value={comment}
+              onValueChange={setComment}
+              maxLength={1000}
+              variant="bordered"
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setPendingDecision(null)}>
+              {t('cancel')}
+            </Button>
+            <Button
+              color={
+                pendingDecision?.action === 'reject'
+                  ? 'danger'
+                  : pendingDecision?.action === 'escalate'
+                    ? 'warning'
+                    : 'success'
+              }
+              onPress={handleDecision}
+              isLoading={isDeciding}
+            >
+              {t('confirm')}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <ApprovalHistoryModal
+        isOpen={!!historyOrder}
+        onClose={() => setHistoryOrder(null)}
+        orderId={historyOrder?.id ?? null}
+        poNumber={historyOrder?.poNumber}
+      />
+    </PageWrapper>
+  );
+}
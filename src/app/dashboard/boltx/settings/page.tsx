@@ -17,6 +17,8 @@ import {
   Tab,
 } from '@heroui/react';
 import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { ModelVersionSelect } from '@/components/Dashboard/ModelVersionSelect/ModelVersionSelect';
+import { BoltXUsageCard } from '@/components/Dashboard/BoltXUsageCard/BoltXUsageCard';
 import {
   Cog6ToothIcon,
   KeyIcon,
@@ -34,6 +36,7 @@ interface BoltXConfiguration {
   openai_model: string;
   openai_max_tokens: number;
   openai_temperature: number;
+  openai_monthly_token_budget: number;
   cache_enabled: boolean;
   cache_ttl: number;
   rate_limit: number;
@@ -58,6 +61,7 @@ export default function BoltXSettingsPage() {
     openai_model: 'gpt-4-turbo-preview',
     openai_max_tokens: 2000,
     openai_temperature: 0.7,
+    openai_monthly_token_budget: 0,
     cache_enabled: true,
     cache_ttl: 3600,
     rate_limit: 60,
@@ -106,6 +110,7 @@ export default function BoltXSettingsPage() {
         updateData.openai_model = config.openai_model;
         updateData.openai_max_tokens = config.openai_max_tokens;
         updateData.openai_temperature = config.openai_temperature;
+        updateData.openai_monthly_token_budget = config.openai_monthly_token_budget;
         if (newApiKey.trim()) {
           (updateData as any).openai_api_key = newApiKey.trim();
         }
@@ -355,6 +360,25 @@ export default function BoltXSettingsPage() {
                     description={t('openai.temperatureDesc')}
                   />
 
+                  {/* Monthly Token Budget */}
+                  <Input
+                    type="number"
+                    label={t('openai.monthlyTokenBudget')}
+                    value={String(config.openai_monthly_token_budget ?? 0)}
+                    onValueChange={(value) =>
+                      setConfig({
+                        ...config,
+                        openai_monthly_token_budget: Math.max(0, parseInt(value) || 0),
+                      })
+                    }
+                    variant="bordered"
+                    size="lg"
+                    min={0}
+                    step={1000}
+                    description={t('openai.monthlyTokenBudgetDesc')}
+                    endContent={<span className="text-foreground/60 text-sm">tokens</span>}
+                  />
+
                   <div className="pt-4">
                     <Button
                       color="primary"
@@ -441,6 +465,8 @@ export default function BoltXSettingsPage() {
                 </div>
               </CardBody>
             </Card>
+
+            <BoltXUsageCard />
           </Tab>
 
           {/* Advanced Settings Tab */}
@@ -458,16 +484,11 @@ export default function BoltXSettingsPage() {
                 <h2 className="text-xl font-bold text-foreground mb-6">{t('advanced.title')}</h2>
                 <div className="space-y-6">
                   {/* Prediction Model Version */}
-                  <Input
-                    type="text"
-                    label={t('advanced.modelVersion')}
+                  <ModelVersionSelect
                     value={config.prediction_model_version}
-                    onValueChange={(value) =>
+                    onChange={(value) =>
                       setConfig({ ...config, prediction_model_version: value })
                     }
-                    variant="bordered"
-                    size="lg"
-                    description={t('advanced.modelVersionDesc')}
                   />
 
                   <div className="pt-4">
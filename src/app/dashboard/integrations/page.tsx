@@ -18,6 +18,7 @@ import {
   TableRow,
   TableCell,
   Input,
+  Chip,
   useDisclosure,
 } from '@heroui/react';
 import {
@@ -31,9 +32,16 @@ import {
 } from '@heroicons/react/24/outline';
 import { toast } from 'sonner';
 import { useRolePermissions } from '@/hooks/useRolePermissions';
-import { ApiKeyModal, ApiKeyDisplayModal } from '@/components/Dashboard/ApiKeyModal/ApiKeyModal';
+import {
+  ApiKeyModal,
+  ApiKeyDisplayModal,
+  CreateApiKeyInput,
+} from '@/components/Dashboard/ApiKeyModal/ApiKeyModal';
 import { maskApiKey } from '@/utils/auth/api-key-generator';
+import { isApiKeyExpired } from '@/utils/auth/api-key-scopes';
 import { formatDate } from '@/utils/formatters';
+import { AllowedOriginsCard } from '@/components/Dashboard/AllowedOriginsCard/AllowedOriginsCard';
+import { WebhookEndpointsCard } from '@/components/Dashboard/Webhooks/WebhookEndpointsCard';
 
 interface ApiKey {
   id: string;
@@ -43,6 +51,8 @@ interface ApiKey {
   description?: string;
   key_prefix: string;
   key_suffix: string;
+  scopes?: string[];
+  expires_at?: string | null;
   last_used_at?: string;
   created_at: string;
   updated_at: string;
@@ -183,13 +193,14 @@ export default function IntegrationsPage() {
     }
   };
 
-  const handleCreateKey = async (name: string, description?: string) => {
+  const handleCreateKey = async (input: CreateApiKeyInput) => {
+    const { name } = input;
     try {
       setIsCreating(true);
       const response = await fetch('/api/dashboard/integrations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, description }),
+        body: JSON.stringify(input),
       });
 
       if (!response.ok) {
@@ -591,6 +602,16 @@ export default function IntegrationsPage() {
         </Card>
       </m.div>
 
+      {/* Allowed Origins Section */}
+      <m.div variants={fadeIn} initial="hidden" animate="visible">
+        <AllowedOriginsCard canManage={canManageVtex} />
+      </m.div>
+
+      {/* Webhooks Section */}
+      <m.div variants={fadeIn} initial="hidden" animate="visible">
+        <WebhookEndpointsCard canManage={canManageVtex} />
+      </m.div>
+
       {/* Custom API Keys Section */}
       <m.div variants={fadeIn} initial="hidden" animate="visible">
         <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
@@ -624,6 +645,8 @@ export default function IntegrationsPage() {
                 <TableHeader>
                   <TableColumn>{t('customKeys.table.name')}</TableColumn>
                   <TableColumn>{t('customKeys.table.key')}</TableColumn>
+                  <TableColumn>{t('customKeys.table.scopes')}</TableColumn>
+                  <TableColumn>{t('customKeys.table.expires')}</TableColumn>
                   <TableColumn>{t('customKeys.table.created')}</TableColumn>
                   <TableColumn>{t('customKeys.table.lastUsed')}</TableColumn>
                   <TableColumn>Actions</TableColumn>
@@ -654,6 +677,26 @@ export default function IntegrationsPage() {
                           </Button>
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {(key.scopes || []).map((scope) => (
+                            <Chip key={scope} size="sm" variant="flat" className="font-mono">
+                              {scope}
+                            </Chip>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {isApiKeyExpired(key.expires_at) ? (
+                          <Chip size="sm" color="danger" variant="flat">
+                            {t('customKeys.expired')}
+                          </Chip>
+                        ) : (
+                          <span className="text-sm text-foreground/70">
+                            {key.expires_at ? formatDate(key.expires_at) : t('customKeys.neverExpires')}
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <span className="text-sm text-foreground/70">
                           {formatDate(key.created_at)}
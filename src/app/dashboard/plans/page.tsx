@@ -15,6 +15,8 @@ import { PlanComparison } from '@/components/Dashboard/Plans/PlanComparison';
 import { PaymentForm } from '@/components/Dashboard/Plans/PaymentForm';
 import { CancelSubscriptionModal } from '@/components/Dashboard/Plans/CancelSubscriptionModal';
 import { ContactSalesModal } from '@/components/Dashboard/Plans/ContactSalesModal';
+import { DunningBanner } from '@/components/Dashboard/Plans/DunningBanner';
+import { UpdatePaymentMethodModal } from '@/components/Dashboard/Plans/UpdatePaymentMethodModal';
 import { Plan, SubscriptionTransaction, comparePlans, getPlanDisplayName } from '@/utils/plans';
 import { toast } from 'sonner';
 
@@ -33,6 +35,11 @@ export default function PlansPage() {
   const { isOpen: isPaymentOpen, onOpen: onPaymentOpen, onClose: onPaymentClose } = useDisclosure();
   const { isOpen: isCancelOpen, onOpen: onCancelOpen, onClose: onCancelClose } = useDisclosure();
   const { isOpen: isContactOpen, onOpen: onContactOpen, onClose: onContactClose } = useDisclosure();
+  const {
+    isOpen: isPaymentMethodOpen,
+    onOpen: onPaymentMethodOpen,
+    onClose: onPaymentMethodClose,
+  } = useDisclosure();
   
   // Use context for subscriptions (shared across app)
   const { subscriptions, subscription: currentSubscription, refetch: refetchSubscriptions } = usePlanAccessContext();
@@ -188,6 +195,16 @@ export default function PlansPage() {
         <p className="text-foreground/70">{t('subtitle')}</p>
       </div>
 
+      {/* Failed Payment (Dunning) Banner */}
+      {currentSubscription?.dunning_state && (
+        <m.div variants={slideIn} initial="hidden" animate="visible">
+          <DunningBanner
+            subscription={currentSubscription}
+            onUpdatePaymentMethod={onPaymentMethodOpen}
+          />
+        </m.div>
+      )}
+
       {/* Current Plan Section */}
       {currentSubscription && (
         <m.div variants={slideIn} initial="hidden" animate="visible" className="mb-8">
@@ -311,6 +328,16 @@ export default function PlansPage() {
         />
       )}
 
+      {/* Update Payment Method Modal */}
+      {currentSubscription?.dunning_state && (
+        <UpdatePaymentMethodModal
+          isOpen={isPaymentMethodOpen}
+          onClose={onPaymentMethodClose}
+          subscription={currentSubscription}
+          onSuccess={fetchData}
+        />
+      )}
+
       {/* Contact Sales Modal */}
       <ContactSalesModal
         isOpen={isContactOpen}
@@ -13,6 +13,8 @@ import {
   Avatar,
 } from '@heroui/react';
 import { useDashboardAuth } from '@/hooks/useDashboardAuth';
+import { MfaFactorsCard } from '@/components/Dashboard/MfaSettings/MfaFactorsCard';
+import { ActiveSessionsCard } from '@/components/Dashboard/ActiveSessions/ActiveSessionsCard';
 import { CameraIcon, EnvelopeIcon, UserIcon } from '@heroicons/react/24/outline';
 import { toast } from 'sonner';
 
@@ -218,6 +220,10 @@ export default function ProfilePage() {
               </>
             )}
           </div>
+
+          <MfaFactorsCard />
+
+          <ActiveSessionsCard />
         </div>
 
         {/* Right Column - Avatar & Stats */}
@@ -2,7 +2,7 @@
 
 import { useMemo } from 'react';
 import { useTranslations } from 'next-intl';
-import { Card, CardBody } from '@heroui/react';
+import { Card, CardBody, Tabs, Tab } from '@heroui/react';
 import {
   ShieldCheckIcon,
   ExclamationTriangleIcon,
@@ -19,6 +19,7 @@ import { MetricCard } from '@/components/Dashboard/MetricCard/MetricCard';
 import { ChartCard } from '@/components/Dashboard/ChartCard/ChartCard';
 import { PeriodSelector } from '@/components/Dashboard/PeriodSelector/PeriodSelector';
 import { RealtimeIndicator } from '@/components/Dashboard/RealtimeIndicator/RealtimeIndicator';
+import { BoltGuardRules } from '@/components/Dashboard/Security/BoltGuardRules';
 import { useApi } from '@/hooks/useApi';
 import { usePeriod } from '@/contexts/PeriodContext';
 import { formatNumber, formatPercentage } from '@/utils/formatters';
@@ -157,147 +158,154 @@ export default function SecurityPage() {
         }
       />
 
-      {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        <MetricCard
-          title={t('metrics.totalTransactions')}
-          value={formatNumber(metrics.totalTransactions)}
-          icon={<ChartBarIcon className="w-6 h-6 text-white" />}
-        />
-        <MetricCard
-          title={t('metrics.highRiskTransactions')}
-          value={formatNumber(metrics.highRiskTransactions)}
-          subtitle={`${formatPercentage(highRiskPercentage)} of total`}
-          icon={<ExclamationTriangleIcon className="w-6 h-6 text-white" />}
-        />
-        <MetricCard
-          title={t('metrics.blockedTransactions')}
-          value={formatNumber(metrics.blockedTransactions)}
-          subtitle={`${formatPercentage(blockedPercentage)} of total`}
-          icon={<XCircleIcon className="w-6 h-6 text-white" />}
-        />
-        <MetricCard
-          title={t('metrics.avgRiskScore')}
-          value={metrics.avgRiskScore.toFixed(1)}
-          subtitle="0-100 scale"
-          icon={<ShieldCheckIcon className="w-6 h-6 text-white" />}
-        />
-      </div>
+      <Tabs aria-label={t('tabs.label')} className="mb-6">
+        <Tab key="overview" title={t('tabs.overview')}>
+          {/* Key Metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <MetricCard
+              title={t('metrics.totalTransactions')}
+              value={formatNumber(metrics.totalTransactions)}
+              icon={<ChartBarIcon className="w-6 h-6 text-white" />}
+            />
+            <MetricCard
+              title={t('metrics.highRiskTransactions')}
+              value={formatNumber(metrics.highRiskTransactions)}
+              subtitle={`${formatPercentage(highRiskPercentage)} of total`}
+              icon={<ExclamationTriangleIcon className="w-6 h-6 text-white" />}
+            />
+            <MetricCard
+              title={t('metrics.blockedTransactions')}
+              value={formatNumber(metrics.blockedTransactions)}
+              subtitle={`${formatPercentage(blockedPercentage)} of total`}
+              icon={<XCircleIcon className="w-6 h-6 text-white" />}
+            />
+            <MetricCard
+              title={t('metrics.avgRiskScore')}
+              value={metrics.avgRiskScore.toFixed(1)}
+              subtitle="0-100 scale"
+              icon={<ShieldCheckIcon className="w-6 h-6 text-white" />}
+            />
+          </div>
 
-      {/* Secondary Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        <MetricCard
-          title={t('metrics.fraudDetected')}
-          value={formatNumber(metrics.fraudDetected)}
-          subtitle={`${formatPercentage(fraudRate)} fraud rate`}
-          icon={<LockClosedIcon className="w-6 h-6 text-white" />}
-        />
-        <MetricCard
-          title={t('metrics.validationErrors')}
-          value={formatNumber(metrics.validationErrors)}
-          icon={<ExclamationTriangleIcon className="w-6 h-6 text-white" />}
-        />
-        <MetricCard
-          title={t('metrics.scaRequired')}
-          value={formatNumber(metrics.scaRequired)}
-          icon={<ShieldCheckIcon className="w-6 h-6 text-white" />}
-        />
-        <MetricCard
-          title={t('metrics.anomaliesDetected')}
-          value={formatNumber(metrics.anomaliesDetected)}
-          icon={<EyeIcon className="w-6 h-6 text-white" />}
-        />
-      </div>
+          {/* Secondary Metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <MetricCard
+              title={t('metrics.fraudDetected')}
+              value={formatNumber(metrics.fraudDetected)}
+              subtitle={`${formatPercentage(fraudRate)} fraud rate`}
+              icon={<LockClosedIcon className="w-6 h-6 text-white" />}
+            />
+            <MetricCard
+              title={t('metrics.validationErrors')}
+              value={formatNumber(metrics.validationErrors)}
+              icon={<ExclamationTriangleIcon className="w-6 h-6 text-white" />}
+            />
+            <MetricCard
+              title={t('metrics.scaRequired')}
+              value={formatNumber(metrics.scaRequired)}
+              icon={<ShieldCheckIcon className="w-6 h-6 text-white" />}
+            />
+            <MetricCard
+              title={t('metrics.anomaliesDetected')}
+              value={formatNumber(metrics.anomaliesDetected)}
+              icon={<EyeIcon className="w-6 h-6 text-white" />}
+            />
+          </div>
 
-      {/* Charts Row */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-        <ChartCard title={t('charts.riskDistribution')}>
-          <ResponsiveContainer width="100%" height={300}>
-            <PieChart>
-              <Pie
-                data={riskChartData}
-                cx="50%"
-                cy="50%"
-                labelLine={false}
-                label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                outerRadius={80}
-                fill="#8884d8"
-                dataKey="value"
-              >
-                {riskChartData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.color} />
-                ))}
-              </Pie>
-              <Tooltip />
-              <Legend />
-            </PieChart>
-          </ResponsiveContainer>
-        </ChartCard>
-        <ChartCard title={t('charts.trends')}>
-          <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={trendChartData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-              <XAxis dataKey="date" stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 12 }} />
-              <YAxis stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 12 }} />
-              <Tooltip />
-              <Legend />
-              <Line type="monotone" dataKey="Total Transactions" stroke="#3b82f6" strokeWidth={2} />
-              <Line type="monotone" dataKey="High Risk" stroke="#ef4444" strokeWidth={2} />
-              <Line type="monotone" dataKey="Blocked" stroke="#dc2626" strokeWidth={2} />
-            </LineChart>
-          </ResponsiveContainer>
-        </ChartCard>
-      </div>
+          {/* Charts Row */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <ChartCard title={t('charts.riskDistribution')}>
+              <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                  <Pie
+                    data={riskChartData}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    dataKey="value"
+                  >
+                    {riskChartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            </ChartCard>
+            <ChartCard title={t('charts.trends')}>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trendChartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="date" stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 12 }} />
+                  <YAxis stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="Total Transactions" stroke="#3b82f6" strokeWidth={2} />
+                  <Line type="monotone" dataKey="High Risk" stroke="#ef4444" strokeWidth={2} />
+                  <Line type="monotone" dataKey="Blocked" stroke="#dc2626" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartCard>
+          </div>
 
-      {/* Recent Alerts */}
-      {data?.recentAlerts && data.recentAlerts.length > 0 && (
-        <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
-          <CardBody className="p-6">
-            <h3 className="text-lg font-semibold mb-4">{t('recentAlerts.title')}</h3>
-            <div className="space-y-3">
-              {data.recentAlerts.slice(0, 10).map((alert) => (
-                <div
-                  key={alert.id}
-                  className={`p-4 rounded-lg border ${
-                    alert.severity === 'critical'
-                      ? 'bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800'
-                      : alert.severity === 'high'
-                        ? 'bg-orange-50 dark:bg-orange-950/30 border-orange-200 dark:border-orange-800'
-                        : alert.severity === 'medium'
-                          ? 'bg-yellow-50 dark:bg-yellow-950/30 border-yellow-200 dark:border-yellow-800'
-                          : 'bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800'
-                  }`}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span
-                          className={`px-2 py-1 rounded text-xs font-semibold ${
-                            alert.severity === 'critical'
-                              ? 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200'
-                              : alert.severity === 'high'
-                                ? 'bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200'
-                                : alert.severity === 'medium'
-                                  ? 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-200'
-                                  : 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200'
-                          }`}
-                        >
-                          {alert.severity.toUpperCase()}
-                        </span>
-                        <span className="text-sm font-medium text-foreground/80">{alert.type}</span>
+          {/* Recent Alerts */}
+          {data?.recentAlerts && data.recentAlerts.length > 0 && (
+            <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+              <CardBody className="p-6">
+                <h3 className="text-lg font-semibold mb-4">{t('recentAlerts.title')}</h3>
+                <div className="space-y-3">
+                  {data.recentAlerts.slice(0, 10).map((alert) => (
+                    <div
+                      key={alert.id}
+                      className={`p-4 rounded-lg border ${
+                        alert.severity === 'critical'
+                          ? 'bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800'
+                          : alert.severity === 'high'
+                            ? 'bg-orange-50 dark:bg-orange-950/30 border-orange-200 dark:border-orange-800'
+                            : alert.severity === 'medium'
+                              ? 'bg-yellow-50 dark:bg-yellow-950/30 border-yellow-200 dark:border-yellow-800'
+                              : 'bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span
+                              className={`px-2 py-1 rounded text-xs font-semibold ${
+                                alert.severity === 'critical'
+                                  ? 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200'
+                                  : alert.severity === 'high'
+                                    ? 'bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200'
+                                    : alert.severity === 'medium'
+                                      ? 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-200'
+                                      : 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200'
+                              }`}
+                            >
+                              {alert.severity.toUpperCase()}
+                            </span>
+                            <span className="text-sm font-medium text-foreground/80">{alert.type}</span>
+                          </div>
+                          <p className="text-sm text-foreground/70">{alert.description}</p>
+                          <p className="text-xs text-foreground/60 mt-1">
+                            {new Date(alert.timestamp).toLocaleString()}
+                          </p>
+                        </div>
                       </div>
-                      <p className="text-sm text-foreground/70">{alert.description}</p>
-                      <p className="text-xs text-foreground/60 mt-1">
-                        {new Date(alert.timestamp).toLocaleString()}
-                      </p>
                     </div>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </CardBody>
-        </Card>
-      )}
+              </CardBody>
+            </Card>
+          )}
+        </Tab>
+        <Tab key="rules" title={t('tabs.rules')}>
+          <BoltGuardRules />
+        </Tab>
+      </Tabs>
     </PageWrapper>
   );
 }
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { PageHeader } from '@/components/Dashboard/PageHeader/PageHeader';
 import { PageWrapper } from '@/components/Dashboard/PageWrapper/PageWrapper';
@@ -27,11 +28,16 @@ import {
   ChartBarIcon,
   TrashIcon,
   UserGroupIcon,
+  ClipboardDocumentListIcon,
 } from '@heroicons/react/24/outline';
 import { toast } from 'sonner';
 import { useRolePermissions } from '@/hooks/useRolePermissions';
 import { useDashboardAuth } from '@/hooks/useDashboardAuth';
 import { UserManagementTab } from '@/components/Dashboard/UserManagementTab/UserManagementTab';
+import { AuditLogTab } from '@/components/Dashboard/AuditLog/AuditLogTab';
+import { SsoSettingsCard } from '@/components/Dashboard/SsoSettings/SsoSettingsCard';
+import { MfaPolicyCard } from '@/components/Dashboard/MfaSettings/MfaPolicyCard';
+import { ReportDigestsCard } from '@/components/Dashboard/ReportDigests/ReportDigestsCard';
 
 export default function SettingsPage() {
   const t = useTranslations('dashboard.settings');
@@ -53,8 +59,6 @@ export default function SettingsPage() {
 
   // Notification Settings
   const [notificationSettings, setNotificationSettings] = useState({
-    emailReports: true,
-    weeklyDigest: true,
     conversionAlerts: true,
     paymentAlerts: true,
     systemUpdates: false,
@@ -62,7 +66,6 @@ export default function SettingsPage() {
 
   // Security Settings
   const [securitySettings, setSecuritySettings] = useState({
-    twoFactorEnabled: false,
     sessionTimeout: '30',
   });
 
@@ -358,38 +361,6 @@ export default function SettingsPage() {
             <CardBody className="p-6">
               <h2 className="text-xl font-bold text-foreground mb-6">{t('notificationSettings')}</h2>
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="font-semibold text-foreground">{t('emailReports')}</p>
-                    <p className="text-sm text-foreground/70">{t('emailReportsDesc')}</p>
-                  </div>
-                  <Switch
-                    isSelected={notificationSettings.emailReports}
-                    onValueChange={(value) =>
-                      setNotificationSettings({
-                        ...notificationSettings,
-                        emailReports: value,
-                      })
-                    }
-                  />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="font-semibold text-foreground">{t('weeklyDigest')}</p>
-                    <p className="text-sm text-foreground/70">{t('weeklyDigestDesc')}</p>
-                  </div>
-                  <Switch
-                    isSelected={notificationSettings.weeklyDigest}
-                    onValueChange={(value) =>
-                      setNotificationSettings({
-                        ...notificationSettings,
-                        weeklyDigest: value,
-                      })
-                    }
-                  />
-                </div>
-
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="font-semibold text-foreground">{t('conversionAlerts')}</p>
@@ -452,6 +423,8 @@ export default function SettingsPage() {
               </div>
             </CardBody>
           </Card>
+
+          <ReportDigestsCard />
         </Tab>
 
         <Tab
@@ -472,15 +445,9 @@ export default function SettingsPage() {
                     <p className="font-semibold text-foreground">{t('twoFactorAuth')}</p>
                     <p className="text-sm text-foreground/70">{t('twoFactorAuthDesc')}</p>
                   </div>
-                  <Switch
-                    isSelected={securitySettings.twoFactorEnabled}
-                    onValueChange={(value) =>
-                      setSecuritySettings({
-                        ...securitySettings,
-                        twoFactorEnabled: value,
-                      })
-                    }
-                  />
+                  <Button as={Link} href="/dashboard/profile" variant="flat" size="sm">
+                    {t('manageTwoFactor')}
+                  </Button>
                 </div>
 
                 <Select
@@ -516,6 +483,9 @@ export default function SettingsPage() {
               </div>
             </CardBody>
           </Card>
+
+          {isAdmin && <MfaPolicyCard />}
+          {isAdmin && <SsoSettingsCard />}
         </Tab>
 
         <Tab
@@ -600,6 +570,20 @@ export default function SettingsPage() {
           </Tab>
         )}
 
+        {isAdmin && (
+          <Tab
+            key="audit"
+            title={
+              <div className="flex items-center gap-2">
+                <ClipboardDocumentListIcon className="w-5 h-5" />
+                <span>{t('auditLogTab')}</span>
+              </div>
+            }
+          >
+            <AuditLogTab />
+          </Tab>
+        )}
+
         {isAdmin && (
           <Tab
             key="danger"
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { useTranslations } from 'next-intl';
 import { PageHeader } from '@/components/Dashboard/PageHeader/PageHeader';
 import { PageWrapper } from '@/components/Dashboard/PageWrapper/PageWrapper';
@@ -9,7 +9,7 @@ import { Card, CardBody, Button, Input, Modal, ModalContent, ModalHeader, ModalB
 import { ThemeEditor } from '@/components/Dashboard/ThemeEditor/ThemeEditor';
 import { RoleGuard } from '@/components/Dashboard/RoleGuard/RoleGuard';
 import { LoadingState } from '@/components/Dashboard/LoadingState/LoadingState';
-import { PlusIcon, PaintBrushIcon, DocumentDuplicateIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PaintBrushIcon, DocumentDuplicateIcon, TrashIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
 import { toast } from 'sonner';
 import { getDefaultThemeConfig } from '@/components/Dashboard/ThemeEditor/defaults';
 import { formatRelativeTime } from '@/utils/formatters';
@@ -22,6 +22,8 @@ export default function ThemesPage() {
   const [duplicatingTheme, setDuplicatingTheme] = useState<string | null>(null);
   const [duplicateName, setDuplicateName] = useState('');
   const [deletingTheme, setDeletingTheme] = useState<{ id: string; name: string } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { isOpen, onOpen, onClose } = useDisclosure();
   const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
 
@@ -187,6 +189,43 @@ export default function ThemesPage() {
     }
   };
 
+  const handleImportFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/dashboard/themes/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        // Field-level errors: show the first few paths so the file can be fixed
+        if (Array.isArray(result.details)) {
+          toast.error(result.error || t('toast.importError'), {
+            description: result.details
+              .slice(0, 3)
+              .map((detail: { path: string; message: string }) => `${detail.path}: ${detail.message}`)
+              .join(' · '),
+          });
+          return;
+        }
+        throw new Error(result.error || t('toast.importError'));
+      }
+
+      toast.success(t('toast.importSuccess', { name: result.theme.name }));
+      refetch();
+    } catch (error: any) {
+      console.error('❌ [DEBUG] Import theme error:', error);
+      toast.error(error.message || t('toast.importError'));
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
   const startDuplicate = (themeId: string, currentName: string) => {
     setDuplicatingTheme(themeId);
     setDuplicateName(`${currentName} (Copy)`);
@@ -246,15 +285,38 @@ export default function ThemesPage() {
           subtitle={t('subtitle')}
           action={
             <RoleGuard requiredPermission={{ resource: 'themes', action: 'write' }}>
-              <Button
-                color="primary"
-                size="lg"
-                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200"
-                startContent={<PlusIcon className="w-5 h-5" />}
-                onPress={() => setSelectedTheme('new')}
-              >
-                {t('createNew')}
-              </Button>
+              <div className="flex gap-3">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) {
+                      handleImportFile(file);
+                    }
+                  }}
+                />
+                <Button
+                  variant="bordered"
+                  size="lg"
+                  startContent={<ArrowUpTrayIcon className="w-5 h-5" />}
+                  onPress={() => importInputRef.current?.click()}
+                  isLoading={isImporting}
+                >
+                  {t('importTheme')}
+                </Button>
+                <Button
+                  color="primary"
+                  size="lg"
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200"
+                  startContent={<PlusIcon className="w-5 h-5" />}
+                  onPress={() => setSelectedTheme('new')}
+                >
+                  {t('createNew')}
+                </Button>
+              </div>
             </RoleGuard>
           }
         />
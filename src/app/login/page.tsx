@@ -1,13 +1,14 @@
 'use client';
 
 import { useState, Suspense } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
 import { motion as m, AnimatePresence } from 'framer-motion';
 import { Card, CardBody, Input, Button } from '@heroui/react';
 import { SignUpForm } from '@/components/Auth/SignUpForm';
 import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
 import { OtpInput } from '@/components/Auth/OtpInput';
+import { MfaLoginForm } from '@/components/Auth/MfaLoginForm';
 import { useApiPost } from '@/hooks/useApi';
 import { ApiError } from '@/utils/api-client';
 import Image from 'next/image';
@@ -20,19 +21,49 @@ interface SendCodeResponse {
 interface VerifyCodeResponse {
   success?: boolean;
   user?: unknown;
+  /** The login continues with a second factor (no session yet) */
+  mfaRequired?: boolean;
+  methods?: Array<'totp' | 'webauthn'>;
+  enrollmentRequired?: boolean;
 }
 
+interface SsoDiscoveryResponse {
+  sso: boolean;
+  enforced?: boolean;
+  loginUrl?: string;
+}
+
+const SSO_ERROR_CODES = [
+  'not_configured',
+  'disabled',
+  'invalid_state',
+  'invalid_response',
+  'domain_mismatch',
+  'account_mismatch',
+  'denied',
+  'unavailable',
+];
+
 function LoginContent() {
   const t = useTranslations('auth.login');
   const tSignup = useTranslations('auth.signup');
   const tPublic = useTranslations('public.login');
   const router = useRouter();
+  const searchParams = useSearchParams();
   const locale = useLocale();
   const [mode, setMode] = useState<'login' | 'signup'>('login');
-  const [step, setStep] = useState<'email' | 'code'>('email');
+  const [step, setStep] = useState<'email' | 'sso' | 'code' | 'mfa'>('email');
   const [email, setEmail] = useState('');
   const [code, setCode] = useState('');
   const [codeSent, setCodeSent] = useState(false);
+  const [ssoLogin, setSsoLogin] = useState<SsoDiscoveryResponse | null>(null);
+  const [mfaLogin, setMfaLogin] = useState<VerifyCodeResponse | null>(null);
+
+  // Set by the SSO routes when a login through the identity provider fails
+  const ssoErrorCode = searchParams.get('sso_error');
+  const ssoError = ssoErrorCode
+    ? t(`ssoErrors.${SSO_ERROR_CODES.includes(ssoErrorCode) ? ssoErrorCode : 'unavailable'}`)
+    : null;
 
   const {
     mutate: sendCode,
@@ -40,21 +71,24 @@ function LoginContent() {
     error: sendCodeError,
   } = useApiPost<SendCodeResponse, { email: string }>();
 
+  const {
+    mutate: discoverSso,
+    isLoading: isDiscoveringSso,
+  } = useApiPost<SsoDiscoveryResponse, { email: string }>();
+
   const {
     mutate: verifyCode,
     isLoading: isVerifyingCode,
     error: verifyCodeError,
   } = useApiPost<VerifyCodeResponse, { email: string; code: string }>();
 
-  const isLoading = isSendingCode || isVerifyingCode;
+  const isLoading = isSendingCode || isVerifyingCode || isDiscoveringSso;
   const error = sendCodeError || verifyCodeError;
   const errorMessage = error
     ? (error as ApiError).message || 'An error occurred. Please try again.'
-    : null;
-
-  const handleSendCode = async (e: React.FormEvent) => {
-    e.preventDefault();
+    : ssoError;
 
+  const requestCode = async () => {
     const result = await sendCode(
       '/api/dashboard/auth/send-code',
       { email },
@@ -71,18 +105,57 @@ function LoginContent() {
     }
   };
 
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Accounts with single sign-on for the email's domain sign in through their IdP
+    // (a failed lookup falls back to email codes)
+    const discovery = await discoverSso('/api/dashboard/auth/sso/discover', { email });
+
+    if (discovery?.sso && discovery.loginUrl) {
+      setSsoLogin(discovery);
+      setStep('sso');
+      return;
+    }
+
+    await requestCode();
+  };
+
+  const handleContinueWithSso = () => {
+    if (ssoLogin?.loginUrl) {
+      window.location.href = ssoLogin.loginUrl;
+    }
+  };
+
   const handleVerifyCode = async (e: React.FormEvent) => {
     e.preventDefault();
 
     const result = await verifyCode('/api/dashboard/auth/verify-code', { email, code });
 
+    if (result?.mfaRequired) {
+      setMfaLogin(result);
+      setStep('mfa');
+      return;
+    }
+
     if (result) {
       // Success - redirect to dashboard
-      router.push('/dashboard');
-      router.refresh();
+      handleLoginComplete();
     }
   };
 
+  const handleLoginComplete = () => {
+    router.push('/dashboard');
+    router.refresh();
+  };
+
+  const handleRestartLogin = () => {
+    setStep('email');
+    setCode('');
+    setCodeSent(false);
+    setMfaLogin(null);
+  };
+
   const handleResendCode = async () => {
     setCode('');
     const result = await sendCode(
@@ -289,6 +362,8 @@ function LoginContent() {
                   setMode('login');
                   setStep('email');
                   setCodeSent(false);
+                  setSsoLogin(null);
+                  setMfaLogin(null);
                 }}
                 className={`px-6 py-2 rounded-md font-semibold text-sm transition-all ${mode === 'login'
                     ? 'bg-background text-foreground shadow-sm'
@@ -345,7 +420,7 @@ function LoginContent() {
                     </div>
 
                     {/* Error Message */}
-                    {errorMessage && (
+                    {errorMessage && step !== 'mfa' && (
                       <div className="mb-6 p-4 bg-red-50 border-2 border-red-300 rounded-lg">
                         <p className="text-red-700 font-semibold text-sm">{errorMessage}</p>
                       </div>
@@ -391,6 +466,54 @@ function LoginContent() {
                       </form>
                     )}
 
+                    {/* Single Sign-On Step */}
+                    {step === 'sso' && ssoLogin && (
+                      <div className="space-y-6">
+                        <div className="p-4 bg-blue-50 border-2 border-blue-200 rounded-lg">
+                          <p className="text-blue-800 font-semibold text-sm">{t('ssoTitle')}</p>
+                          <p className="text-blue-700 text-sm mt-1">
+                            {ssoLogin.enforced
+                              ? t('ssoEnforced', { email })
+                              : t('ssoDescription', { email })}
+                          </p>
+                        </div>
+
+                        <Button
+                          color="primary"
+                          size="lg"
+                          className="w-full font-bold text-base py-7 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200"
+                          onPress={handleContinueWithSso}
+                          isDisabled={isLoading}
+                        >
+                          {t('continueWithSso')}
+                        </Button>
+
+                        <div className="flex flex-col items-center gap-2">
+                          {!ssoLogin.enforced && (
+                            <button
+                              type="button"
+                              onClick={requestCode}
+                              disabled={isLoading}
+                              className="text-sm text-blue-600 hover:text-blue-700 font-semibold transition-colors disabled:opacity-50"
+                            >
+                              {t('useEmailCode')}
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setStep('email');
+                              setSsoLogin(null);
+                            }}
+                            disabled={isLoading}
+                            className="text-sm text-foreground/70 hover:text-foreground transition-colors disabled:opacity-50"
+                          >
+                            {t('useDifferentEmail')}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Code Verification Step */}
                     {step === 'code' && (
                       <form onSubmit={handleVerifyCode} className="space-y-6">
@@ -431,6 +554,16 @@ function LoginContent() {
                         </div>
                       </form>
                     )}
+
+                    {/* Second Factor Step */}
+                    {step === 'mfa' && mfaLogin && (
+                      <MfaLoginForm
+                        methods={mfaLogin.methods || []}
+                        enrollmentRequired={!!mfaLogin.enrollmentRequired}
+                        onSuccess={handleLoginComplete}
+                        onRestart={handleRestartLogin}
+                      />
+                    )}
                   </CardBody>
                 </Card>
               </m.div>
@@ -0,0 +1,339 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button, Input } from '@heroui/react';
+import { startAuthentication } from '@simplewebauthn/browser';
+import type { PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/browser';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { RecoveryCodesList } from '@/components/Dashboard/MfaSettings/RecoveryCodesList';
+import { TotpEnrollment } from '@/components/Dashboard/MfaSettings/TotpEnrollment';
+import { OtpInput } from './OtpInput';
+import { useApiPost } from '@/hooks/useApi';
+import { ApiError } from '@/utils/api-client';
+
+type MfaMethod = 'totp' | 'webauthn' | 'recovery';
+
+type VerifyMfaBody =
+  | { method: 'totp' | 'recovery'; code: string }
+  | { method: 'webauthn'; response: unknown };
+
+interface EnrollmentResponse {
+  factorId: string;
+  secret: string;
+  otpauthUrl: string;
+}
+
+interface MfaLoginResponse {
+  success?: boolean;
+  recoveryCodes?: string[];
+}
+
+interface MfaLoginFormProps {
+  /** Factor types the user can sign in with */
+  methods: Array<'totp' | 'webauthn'>;
+  /** The user has no factor but their role requires one */
+  enrollmentRequired: boolean;
+  /** The session was started */
+  onSuccess: () => void;
+  /** The pending login expired or the user wants to start over */
+  onRestart: () => void;
+}
+
+const SUBMIT_BUTTON_CLASS =
+  'w-full font-bold text-base py-7 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200';
+
+/**
+ * Second step of an email code login: authenticator app code, security key,
+ * recovery code, or enrollment of an authenticator app when the account
+ * requires one
+ */
+export function MfaLoginForm({
+  methods,
+  enrollmentRequired,
+  onSuccess,
+  onRestart,
+}: MfaLoginFormProps) {
+  const t = useTranslations('auth.mfa');
+  const [method, setMethod] = useState<MfaMethod>(methods.includes('totp') ? 'totp' : 'webauthn');
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [enrollment, setEnrollment] = useState<EnrollmentResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [securityKeyError, setSecurityKeyError] = useState<string | null>(null);
+  const enrollmentStarted = useRef(false);
+
+  const {
+    mutate: verify,
+    isLoading: isVerifying,
+    error: verifyError,
+  } = useApiPost<MfaLoginResponse, VerifyMfaBody>();
+  const { mutate: getOptions, isLoading: isLoadingOptions } = useApiPost<{
+    options: PublicKeyCredentialRequestOptionsJSON;
+  }>();
+  const { mutate: enroll, error: enrollError } = useApiPost<EnrollmentResponse>();
+  const {
+    mutate: confirmEnrollment,
+    isLoading: isConfirming,
+    error: confirmError,
+  } = useApiPost<MfaLoginResponse, { factorId: string; code: string }>();
+
+  const isLoading = isVerifying || isLoadingOptions || isConfirming;
+  const error = verifyError || enrollError || confirmError;
+  const errorMessage = error
+    ? (error as ApiError).message || 'An error occurred. Please try again.'
+    : securityKeyError;
+
+  useEffect(() => {
+    if (!enrollmentRequired || enrollmentStarted.current) {
+      return;
+    }
+
+    enrollmentStarted.current = true;
+    enroll('/api/dashboard/auth/mfa/enroll').then((result) => {
+      if (result) {
+        setEnrollment(result);
+      }
+    });
+  }, [enrollmentRequired, enroll]);
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = await verify(
+      '/api/dashboard/auth/mfa/verify',
+      method === 'recovery' ? { method: 'recovery', code: recoveryCode } : { method: 'totp', code }
+    );
+
+    if (result) {
+      onSuccess();
+    } else {
+      setCode('');
+    }
+  };
+
+  const handleSecurityKey = async () => {
+    setSecurityKeyError(null);
+
+    const result = await getOptions('/api/dashboard/auth/mfa/webauthn-options');
+    if (!result) {
+      return;
+    }
+
+    let response;
+    try {
+      response = await startAuthentication({ optionsJSON: result.options });
+    } catch (err) {
+      console.error('Security key authentication error:', err);
+      setSecurityKeyError(t('securityKeyError'));
+      return;
+    }
+
+    if (await verify('/api/dashboard/auth/mfa/verify', { method: 'webauthn', response })) {
+      onSuccess();
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) {
+      return;
+    }
+
+    const result = await confirmEnrollment('/api/dashboard/auth/mfa/enroll/verify', {
+      factorId: enrollment.factorId,
+      code,
+    });
+
+    if (!result) {
+      setCode('');
+      return;
+    }
+
+    if (result.recoveryCodes && result.recoveryCodes.length > 0) {
+      setRecoveryCodes(result.recoveryCodes);
+    } else {
+      onSuccess();
+    }
+  };
+
+  const switchMethod = (next: MfaMethod) => {
+    setMethod(next);
+    setCode('');
+    setRecoveryCode('');
+    setSecurityKeyError(null);
+  };
+
+  const errorBox = errorMessage && (
+    <div className="p-4 bg-red-50 border-2 border-red-300 rounded-lg">
+      <p className="text-red-700 font-semibold text-sm">{errorMessage}</p>
+    </div>
+  );
+
+  const restartLink = (
+    <button
+      type="button"
+      onClick={onRestart}
+      disabled={isLoading}
+      className="text-sm text-foreground/70 hover:text-foreground transition-colors disabled:opacity-50"
+    >
+      {t('startOver')}
+    </button>
+  );
+
+  // Recovery codes of a new enrollment are shown once, before entering the dashboard
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6">
+        <h3 className="text-lg font-bold text-foreground">{t('recoveryCodesTitle')}</h3>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button color="primary" size="lg" className={SUBMIT_BUTTON_CLASS} onPress={onSuccess}>
+          {t('continue')}
+        </Button>
+      </div>
+    );
+  }
+
+  if (enrollmentRequired) {
+    return (
+      <form onSubmit={handleConfirmEnrollment} className="space-y-6">
+        <div>
+          <h3 className="text-lg font-bold text-foreground">{t('enrollTitle')}</h3>
+          <p className="text-sm text-foreground/70 mt-1">{t('enrollDescription')}</p>
+        </div>
+
+        {errorBox}
+
+        {enrollment ? (
+          <TotpEnrollment
+            otpauthUrl={enrollment.otpauthUrl}
+            secret={enrollment.secret}
+            code={code}
+            onCodeChange={setCode}
+            isDisabled={isLoading}
+            isInvalid={!!errorMessage}
+          />
+        ) : (
+          !enrollError && (
+            <div className="flex justify-center py-8">
+              <Spinner size="lg" />
+            </div>
+          )
+        )}
+
+        <Button
+          type="submit"
+          color="primary"
+          size="lg"
+          className={SUBMIT_BUTTON_CLASS}
+          isLoading={isConfirming}
+          spinner={<Spinner size="sm" />}
+          isDisabled={!enrollment || code.length !== 6}
+        >
+          {t('verify')}
+        </Button>
+
+        <div className="text-center">{restartLink}</div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-foreground">{t('title')}</h3>
+        <p className="text-sm text-foreground/70 mt-1">
+          {method === 'webauthn' ? t('securityKeyPrompt') : t('description')}
+        </p>
+      </div>
+
+      {errorBox}
+
+      {method === 'webauthn' ? (
+        <Button
+          color="primary"
+          size="lg"
+          className={SUBMIT_BUTTON_CLASS}
+          onPress={handleSecurityKey}
+          isLoading={isLoading}
+          spinner={<Spinner size="sm" />}
+        >
+          {t('useSecurityKey')}
+        </Button>
+      ) : (
+        <form onSubmit={handleVerifyCode} className="space-y-6">
+          {method === 'totp' ? (
+            <OtpInput
+              value={code}
+              onChange={setCode}
+              label={t('codeLabel')}
+              isDisabled={isLoading}
+              isInvalid={!!errorMessage}
+              length={6}
+              autoFocus={true}
+            />
+          ) : (
+            <Input
+              label={t('recoveryCodeLabel')}
+              placeholder={t('recoveryCodePlaceholder')}
+              value={recoveryCode}
+              onValueChange={setRecoveryCode}
+              variant="bordered"
+              size="lg"
+              isDisabled={isLoading}
+              autoComplete="off"
+              autoFocus
+              classNames={{ input: 'text-base font-mono' }}
+            />
+          )}
+
+          <Button
+            type="submit"
+            color="primary"
+            size="lg"
+            className={SUBMIT_BUTTON_CLASS}
+            isLoading={isLoading}
+            spinner={<Spinner size="sm" />}
+            isDisabled={method === 'totp' ? code.length !== 6 : recoveryCode.trim().length < 10}
+          >
+            {t('verify')}
+          </Button>
+        </form>
+      )}
+
+      <div className="flex flex-col items-center gap-2">
+        {method !== 'totp' && methods.includes('totp') && (
+          <button
+            type="button"
+            onClick={() => switchMethod('totp')}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:text-blue-700 font-semibold transition-colors disabled:opacity-50"
+          >
+            {t('useAuthenticator')}
+          </button>
+        )}
+        {method !== 'webauthn' && methods.includes('webauthn') && (
+          <button
+            type="button"
+            onClick={() => switchMethod('webauthn')}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:text-blue-700 font-semibold transition-colors disabled:opacity-50"
+          >
+            {t('useSecurityKey')}
+          </button>
+        )}
+        {method !== 'recovery' && (
+          <button
+            type="button"
+            onClick={() => switchMethod('recovery')}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:text-blue-700 font-semibold transition-colors disabled:opacity-50"
+          >
+            {t('useRecoveryCode')}
+          </button>
+        )}
+        {restartLink}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button, Card, CardBody, Chip } from '@heroui/react';
+import {
+  ArrowRightStartOnRectangleIcon,
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  DeviceTabletIcon,
+} from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { ActiveSession, SessionDevice } from '@/lib/sessions/active-sessions';
+
+const DEVICE_ICONS: Record<SessionDevice, typeof ComputerDesktopIcon> = {
+  desktop: ComputerDesktopIcon,
+  mobile: DevicePhoneMobileIcon,
+  tablet: DeviceTabletIcon,
+};
+
+/**
+ * Active sessions of the current user, with sign out of one or all others
+ */
+export function ActiveSessionsCard() {
+  const t = useTranslations('dashboard.profile.sessions');
+
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busySession, setBusySession] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/dashboard/profile/sessions');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load sessions');
+      }
+
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (error) {
+      console.error('Load sessions error:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (!confirm(t('revokeConfirm'))) {
+      return;
+    }
+
+    try {
+      setBusySession(session.id);
+      const response = await fetch(`/api/dashboard/profile/sessions/${session.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || t('revokeError'));
+      }
+
+      setSessions((current) => current.filter((candidate) => candidate.id !== session.id));
+      toast.success(t('revoked'));
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      toast.error(t('revokeError'));
+    } finally {
+      setBusySession(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm(t('revokeOthersConfirm'))) {
+      return;
+    }
+
+    try {
+      setBusySession('others');
+      const response = await fetch('/api/dashboard/profile/sessions', { method: 'DELETE' });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('revokeError'));
+      }
+
+      setSessions((current) => current.filter((session) => session.current));
+      toast.success(t('revokedOthers', { count: data.revoked }));
+    } catch (error) {
+      console.error('Revoke other sessions error:', error);
+      toast.error(t('revokeError'));
+    } finally {
+      setBusySession(null);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+            <p className="text-sm text-foreground/70">{t('description')}</p>
+          </div>
+          {hasOtherSessions && (
+            <Button
+              size="sm"
+              color="danger"
+              variant="flat"
+              onPress={handleRevokeOthers}
+              isLoading={busySession === 'others'}
+            >
+              {t('revokeOthers')}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="divide-y divide-default">
+            {sessions.map((session) => {
+              const Icon = DEVICE_ICONS[session.device];
+              return (
+                <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="w-6 h-6 flex-shrink-0 text-foreground/60" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-foreground truncate">
+                          {t('browserOn', {
+                            browser: session.browser || t('unknownBrowser'),
+                            os: session.os || t('unknownOs'),
+                          })}
+                        </p>
+                        {session.current && (
+                          <Chip size="sm" variant="flat" color="success">
+                            {t('current')}
+                          </Chip>
+                        )}
+                      </div>
+                      <p className="text-xs text-foreground/60">
+                        {[session.ip_address, session.location || t('unknownLocation')]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                      <p className="text-xs text-foreground/60">
+                        {t('signedIn', { date: new Date(session.created_at).toLocaleString() })}
+                        {' · '}
+                        {t('lastSeen', { date: new Date(session.last_seen_at).toLocaleString() })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="light"
+                      color="danger"
+                      startContent={<ArrowRightStartOnRectangleIcon className="w-4 h-4" />}
+                      onPress={() => handleRevoke(session)}
+                      isLoading={busySession === session.id}
+                    >
+                      {t('revoke')}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            {!hasOtherSessions && (
+              <p className="text-sm text-foreground/60 pt-3">{t('noOtherSessions')}</p>
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import {
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  Switch,
+} from '@heroui/react';
+import { toast } from 'sonner';
+import type {
+  AlertChannelLocale,
+  AlertChannelSettings,
+  AlertChannelType,
+} from '@/lib/alerts/channels';
+
+const CHANNEL_TYPES: AlertChannelType[] = ['email', 'webhook', 'slack'];
+const LOCALES: AlertChannelLocale[] = ['en', 'pt-BR', 'es'];
+
+/**
+ * Channel as sent to the API (AlertChannelSchema)
+ */
+export type AlertChannelDraft =
+  | {
+      type: 'email';
+      name: string;
+      enabled: boolean;
+      recipients: string[];
+      locale: AlertChannelLocale;
+    }
+  | { type: 'webhook'; name: string; enabled: boolean; url: string; rotateSecret: boolean }
+  | { type: 'slack'; name: string; enabled: boolean; url?: string };
+
+interface AlertChannelFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (draft: AlertChannelDraft) => Promise<void>;
+  channel?: AlertChannelSettings;
+}
+
+export function AlertChannelForm({ isOpen, onClose, onSave, channel }: AlertChannelFormProps) {
+  const t = useTranslations('dashboard.alerts.channels');
+  const currentLocale = useLocale();
+
+  const [type, setType] = useState<AlertChannelType>('email');
+  const [name, setName] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [recipientsInput, setRecipientsInput] = useState('');
+  const [locale, setLocale] = useState<AlertChannelLocale>('en');
+  const [url, setUrl] = useState('');
+  const [rotateSecret, setRotateSecret] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const defaultLocale = LOCALES.includes(currentLocale as AlertChannelLocale)
+      ? (currentLocale as AlertChannelLocale)
+      : 'en';
+
+    setType(channel?.type || 'email');
+    setName(channel?.name || '');
+    setEnabled(channel?.enabled ?? true);
+    setRecipientsInput(channel?.recipients.join(', ') || '');
+    setLocale(channel?.locale || defaultLocale);
+    setUrl(channel?.url || '');
+    setRotateSecret(false);
+  }, [channel, isOpen, currentLocale]);
+
+  const buildDraft = (): AlertChannelDraft => {
+    const base = { name: name.trim(), enabled };
+
+    switch (type) {
+      case 'email':
+        return {
+          ...base,
+          type,
+          locale,
+          recipients: recipientsInput
+            .split(/[,\s]+/)
+            .map((recipient) => recipient.trim())
+            .filter(Boolean),
+        };
+      case 'webhook':
+        return { ...base, type, url: url.trim(), rotateSecret };
+      case 'slack':
+        return { ...base, type, url: url.trim() || undefined };
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      toast.error(t('form.nameRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(buildDraft());
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader>{channel ? t('form.editTitle') : t('form.createTitle')}</ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <Input
+              label={t('form.name')}
+              value={name}
+              onValueChange={setName}
+              variant="bordered"
+              isRequired
+            />
+
+            <Select
+              label={t('form.type')}
+              selectedKeys={[type]}
+              onSelectionChange={(keys) => {
+                const value = Array.from(keys)[0] as AlertChannelType | undefined;
+                if (value) {
+                  setType(value);
+                  setUrl('');
+                }
+              }}
+              variant="bordered"
+              isDisabled={!!channel}
+              description={channel ? t('form.typeLocked') : t(`types.${type}.description`)}
+            >
+              {CHANNEL_TYPES.map((item) => (
+                <SelectItem key={item}>{t(`types.${item}.label`)}</SelectItem>
+              ))}
+            </Select>
+
+            {type === 'email' && (
+              <>
+                <Input
+                  label={t('form.recipients')}
+                  description={t('form.recipientsHelp')}
+                  placeholder="ops@example.com, oncall@example.com"
+                  value={recipientsInput}
+                  onValueChange={setRecipientsInput}
+                  variant="bordered"
+                  isRequired
+                />
+                <Select
+                  label={t('form.language')}
+                  selectedKeys={[locale]}
+                  onSelectionChange={(keys) => {
+                    const value = Array.from(keys)[0] as AlertChannelLocale | undefined;
+                    if (value) setLocale(value);
+                  }}
+                  variant="bordered"
+                >
+                  {LOCALES.map((item) => (
+                    <SelectItem key={item}>{t(`languages.${item}`)}</SelectItem>
+                  ))}
+                </Select>
+              </>
+            )}
+
+            {type === 'webhook' && (
+              <>
+                <Input
+                  type="url"
+                  label={t('form.webhookUrl')}
+                  description={t('form.webhookUrlHelp')}
+                  placeholder="https://example.com/hooks/bolt"
+                  value={url}
+                  onValueChange={setUrl}
+                  variant="bordered"
+                  isRequired
+                />
+                {channel && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-semibold text-foreground">{t('form.rotateSecret')}</p>
+                      <p className="text-sm text-foreground/70">{t('form.rotateSecretHelp')}</p>
+                    </div>
+                    <Switch isSelected={rotateSecret} onValueChange={setRotateSecret} />
+                  </div>
+                )}
+              </>
+            )}
+
+            {type === 'slack' && (
+              <Input
+                type="url"
+                label={t('form.slackUrl')}
+                description={channel ? t('form.slackUrlKeep') : t('form.slackUrlHelp')}
+                placeholder="https://hooks.slack.com/services/..."
+                value={url}
+                onValueChange={setUrl}
+                variant="bordered"
+                isRequired={!channel}
+              />
+            )}
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('form.enabled')}</p>
+                <p className="text-sm text-foreground/70">{t('form.enabledHelp')}</p>
+              </div>
+              <Switch isSelected={enabled} onValueChange={setEnabled} />
+            </div>
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            {t('form.cancel')}
+          </Button>
+          <Button color="primary" onPress={handleSubmit} isLoading={isSaving}>
+            {t('form.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  useDisclosure,
+} from '@heroui/react';
+import { PaperAirplaneIcon, PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { WebhookSecretModal } from '@/components/Dashboard/WebhookSecretModal/WebhookSecretModal';
+import type { AlertChannelSettings } from '@/lib/alerts/channels';
+import { AlertChannelForm, type AlertChannelDraft } from './AlertChannelForm';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+interface SaveChannelResponse {
+  channel: AlertChannelSettings;
+  secret: string | null;
+}
+
+function toDraft(channel: AlertChannelSettings, enabled: boolean): AlertChannelDraft {
+  switch (channel.type) {
+    case 'email':
+      return {
+        type: 'email',
+        name: channel.name,
+        enabled,
+        recipients: channel.recipients,
+        locale: channel.locale,
+      };
+    case 'webhook':
+      return {
+        type: 'webhook',
+        name: channel.name,
+        enabled,
+        url: channel.url || '',
+        rotateSecret: false,
+      };
+    case 'slack':
+      return { type: 'slack', name: channel.name, enabled };
+  }
+}
+
+/**
+ * Alert delivery channels of the account
+ */
+export function AlertChannels() {
+  const t = useTranslations('dashboard.alerts.channels');
+  const locale = useLocale();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedChannel, setSelectedChannel] = useState<AlertChannelSettings | undefined>();
+  const [newSecret, setNewSecret] = useState<{ secret: string; name: string } | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = useApi<{ channels: AlertChannelSettings[] }>(
+    '/api/dashboard/alerts/channels',
+    { cacheKey: 'metric_alert_channels', cacheTTL: 1, refetchOnMount: true }
+  );
+  const channels = data?.channels || [];
+
+  const describeTarget = (channel: AlertChannelSettings) => {
+    switch (channel.type) {
+      case 'email':
+        return channel.recipients.join(', ');
+      case 'webhook':
+        return channel.url;
+      case 'slack':
+        return channel.has_secret ? t('slackConfigured') : t('slackMissing');
+    }
+  };
+
+  const handleCreate = () => {
+    setSelectedChannel(undefined);
+    onOpen();
+  };
+
+  const handleEdit = (channel: AlertChannelSettings) => {
+    setSelectedChannel(channel);
+    onOpen();
+  };
+
+  const handleSave = async (draft: AlertChannelDraft) => {
+    const { channel, secret } = selectedChannel
+      ? await requestJson<SaveChannelResponse>(
+          `/api/dashboard/alerts/channels/${selectedChannel.id}`,
+          { method: 'PUT', body: JSON.stringify(draft) }
+        )
+      : await requestJson<SaveChannelResponse>('/api/dashboard/alerts/channels', {
+          method: 'POST',
+          body: JSON.stringify(draft),
+        });
+
+    toast.success(t('toast.saved'));
+    if (secret) {
+      setNewSecret({ secret, name: channel.name });
+    }
+    await refetch();
+  };
+
+  const handleToggle = async (channel: AlertChannelSettings, enabled: boolean) => {
+    try {
+      await requestJson(`/api/dashboard/alerts/channels/${channel.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(toDraft(channel, enabled)),
+      });
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    }
+  };
+
+  const handleTest = async (channel: AlertChannelSettings) => {
+    try {
+      setTesting(channel.id);
+      await requestJson(`/api/dashboard/alerts/channels/${channel.id}/test`, { method: 'POST' });
+      toast.success(t('toast.testSent'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.testError'));
+    } finally {
+      setTesting(null);
+      await refetch();
+    }
+  };
+
+  const handleDelete = async (channel: AlertChannelSettings) => {
+    if (!confirm(t('deleteConfirm', { name: channel.name }))) {
+      return;
+    }
+
+    try {
+      await requestJson(`/api/dashboard/alerts/channels/${channel.id}`, { method: 'DELETE' });
+      toast.success(t('toast.deleted'));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.deleteError'));
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg font-semibold">{t('title')}</h3>
+            <p className="text-sm text-foreground/60">{t('subtitle')}</p>
+          </div>
+          <Button
+            color="primary"
+            startContent={<PlusIcon className="w-5 h-5" />}
+            onPress={handleCreate}
+          >
+            {t('createChannel')}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Spinner size="md" />
+          </div>
+        ) : channels.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-foreground/60 mb-4">{t('empty')}</p>
+            <Button color="primary" onPress={handleCreate}>
+              {t('createFirst')}
+            </Button>
+          </div>
+        ) : (
+          <Table aria-label={t('title')}>
+            <TableHeader>
+              <TableColumn>{t('columns.name')}</TableColumn>
+              <TableColumn>{t('columns.target')}</TableColumn>
+              <TableColumn>{t('columns.lastDelivery')}</TableColumn>
+              <TableColumn>{t('columns.enabled')}</TableColumn>
+              <TableColumn>{t('columns.actions')}</TableColumn>
+            </TableHeader>
+            <TableBody>
+              {channels.map((channel) => (
+                <TableRow key={channel.id}>
+                  <TableCell>
+                    <p className="font-semibold">{channel.name}</p>
+                    <Chip size="sm" variant="flat" className="mt-1">
+                      {t(`types.${channel.type}.label`)}
+                    </Chip>
+                  </TableCell>
+                  <TableCell>
+                    <p className="text-sm break-all">{describeTarget(channel)}</p>
+                  </TableCell>
+                  <TableCell>
+                    {channel.last_delivery_at ? (
+                      <>
+                        <p className="text-sm">{formatDate(channel.last_delivery_at)}</p>
+                        {channel.last_delivery_error ? (
+                          <p className="text-xs text-danger">{channel.last_delivery_error}</p>
+                        ) : (
+                          <p className="text-xs text-success">{t('deliveryOk')}</p>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-foreground/60">{t('neverDelivered')}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="sm"
+                      isSelected={channel.enabled}
+                      onValueChange={(enabled) => handleToggle(channel, enabled)}
+                      aria-label={t('columns.enabled')}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        onPress={() => handleTest(channel)}
+                        isLoading={testing === channel.id}
+                        aria-label={t('sendTest')}
+                      >
+                        <PaperAirplaneIcon className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        onPress={() => handleEdit(channel)}
+                        aria-label={t('edit')}
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        color="danger"
+                        onPress={() => handleDelete(channel)}
+                        aria-label={t('delete')}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardBody>
+
+      <AlertChannelForm
+        isOpen={isOpen}
+        onClose={onClose}
+        onSave={handleSave}
+        channel={selectedChannel}
+      />
+
+      {newSecret && (
+        <WebhookSecretModal
+          isOpen={!!newSecret}
+          onClose={() => setNewSecret(null)}
+          secret={newSecret.secret}
+          name={newSecret.name}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  Switch,
+} from '@heroui/react';
+import { toast } from 'sonner';
+import type { AlertChannelSettings } from '@/lib/alerts/channels';
+import type {
+  AlertConditionType,
+  AlertDirection,
+  AlertMetric,
+  AlertRule,
+} from '@/lib/alerts/rules';
+import { METRICS, SESSION_RATE_METRICS } from './format';
+
+const CONDITION_TYPES: AlertConditionType[] = ['threshold', 'anomaly'];
+const DIRECTIONS: AlertDirection[] = ['above', 'below'];
+
+/**
+ * Rule as sent to the API (AlertRuleSchema)
+ */
+export interface AlertRuleDraft {
+  name: string;
+  metric: AlertMetric;
+  conditionType: AlertConditionType;
+  direction: AlertDirection;
+  threshold: number;
+  windowMinutes: number;
+  baselineWindows: number;
+  minSessions: number;
+  cooldownMinutes: number;
+  channelIds: string[];
+  enabled: boolean;
+}
+
+const DEFAULT_DRAFT: AlertRuleDraft = {
+  name: '',
+  metric: 'conversion_rate',
+  conditionType: 'threshold',
+  direction: 'below',
+  threshold: 1,
+  windowMinutes: 60,
+  baselineWindows: 7,
+  minSessions: 20,
+  cooldownMinutes: 60,
+  channelIds: [],
+  enabled: true,
+};
+
+export function toAlertRuleDraft(rule: AlertRule): AlertRuleDraft {
+  return {
+    name: rule.name,
+    metric: rule.metric,
+    conditionType: rule.condition_type,
+    direction: rule.direction,
+    threshold: rule.threshold,
+    windowMinutes: rule.window_minutes,
+    baselineWindows: rule.baseline_windows,
+    minSessions: rule.min_sessions,
+    cooldownMinutes: rule.cooldown_minutes,
+    channelIds: rule.channel_ids,
+    enabled: rule.enabled,
+  };
+}
+
+interface AlertRuleFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (draft: AlertRuleDraft) => Promise<void>;
+  channels: AlertChannelSettings[];
+  rule?: AlertRule;
+}
+
+export function AlertRuleForm({ isOpen, onClose, onSave, channels, rule }: AlertRuleFormProps) {
+  const t = useTranslations('dashboard.alerts.rules');
+  const tMetrics = useTranslations('dashboard.alerts.metrics');
+  const [formData, setFormData] = useState<AlertRuleDraft>(DEFAULT_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(rule ? toAlertRuleDraft(rule) : DEFAULT_DRAFT);
+  }, [rule, isOpen]);
+
+  const update = (changes: Partial<AlertRuleDraft>) => setFormData({ ...formData, ...changes });
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error(t('form.nameRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({ ...formData, name: formData.name.trim() });
+      onClose();
+      toast.success(t('toast.saved'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberInput = (
+    key: keyof AlertRuleDraft,
+    label: string,
+    description?: string,
+    endContent?: string
+  ) => (
+    <Input
+      type="number"
+      label={label}
+      description={description}
+      value={String(formData[key])}
+      onValueChange={(input) => update({ [key]: Number(input) || 0 })}
+      endContent={endContent && <span className="text-sm text-foreground/60">{endContent}</span>}
+      variant="bordered"
+    />
+  );
+
+  const isAnomaly = formData.conditionType === 'anomaly';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader>{rule ? t('form.editTitle') : t('form.createTitle')}</ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <Input
+              label={t('form.name')}
+              value={formData.name}
+              onValueChange={(value) => update({ name: value })}
+              variant="bordered"
+              isRequired
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label={t('form.metric')}
+                selectedKeys={[formData.metric]}
+                onSelectionChange={(keys) => {
+                  const metric = Array.from(keys)[0] as AlertMetric | undefined;
+                  if (metric) update({ metric });
+                }}
+                variant="bordered"
+              >
+                {METRICS.map((metric) => (
+                  <SelectItem key={metric}>{tMetrics(metric)}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                label={t('form.conditionType')}
+                selectedKeys={[formData.conditionType]}
+                onSelectionChange={(keys) => {
+                  const conditionType = Array.from(keys)[0] as AlertConditionType | undefined;
+                  if (conditionType) update({ conditionType });
+                }}
+                variant="bordered"
+                description={t(`conditionTypes.${formData.conditionType}.description`)}
+              >
+                {CONDITION_TYPES.map((type) => (
+                  <SelectItem key={type}>{t(`conditionTypes.${type}.label`)}</SelectItem>
+                ))}
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select
+                label={t('form.direction')}
+                selectedKeys={[formData.direction]}
+                onSelectionChange={(keys) => {
+                  const direction = Array.from(keys)[0] as AlertDirection | undefined;
+                  if (direction) update({ direction });
+                }}
+                variant="bordered"
+              >
+                {DIRECTIONS.map((direction) => (
+                  <SelectItem key={direction}>{t(`directions.${direction}`)}</SelectItem>
+                ))}
+              </Select>
+              {numberInput(
+                'threshold',
+                isAnomaly ? t('form.deviation') : t('form.threshold'),
+                isAnomaly ? t('form.deviationHelp') : undefined,
+                isAnomaly || ['conversion_rate', 'abandonment_rate'].includes(formData.metric)
+                  ? '%'
+                  : undefined
+              )}
+              {numberInput(
+                'windowMinutes',
+                t('form.windowMinutes'),
+                t('form.windowMinutesHelp'),
+                'min'
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {isAnomaly &&
+                numberInput(
+                  'baselineWindows',
+                  t('form.baselineWindows'),
+                  t('form.baselineWindowsHelp')
+                )}
+              {SESSION_RATE_METRICS.includes(formData.metric) &&
+                numberInput('minSessions', t('form.minSessions'), t('form.minSessionsHelp'))}
+              {numberInput(
+                'cooldownMinutes',
+                t('form.cooldownMinutes'),
+                t('form.cooldownMinutesHelp'),
+                'min'
+              )}
+            </div>
+
+            {channels.length === 0 ? (
+              <p className="text-sm text-foreground/60">{t('form.noChannels')}</p>
+            ) : (
+              <CheckboxGroup
+                label={t('form.channels')}
+                value={formData.channelIds}
+                onValueChange={(channelIds) => update({ channelIds })}
+              >
+                {channels.map((channel) => (
+                  <Checkbox key={channel.id} value={channel.id}>
+                    {channel.name}
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('form.enabled')}</p>
+                <p className="text-sm text-foreground/70">{t('form.enabledHelp')}</p>
+              </div>
+              <Switch
+                isSelected={formData.enabled}
+                onValueChange={(value) => update({ enabled: value })}
+              />
+            </div>
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            {t('form.cancel')}
+          </Button>
+          <Button color="primary" onPress={handleSubmit} isLoading={isSaving}>
+            {t('form.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  Switch,
+  useDisclosure,
+} from '@heroui/react';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { AlertChannelSettings } from '@/lib/alerts/channels';
+import type { AlertRule } from '@/lib/alerts/rules';
+import { AlertRuleForm, toAlertRuleDraft, type AlertRuleDraft } from './AlertRuleForm';
+import { formatMetricValue } from './format';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+/**
+ * Alert rules of the account
+ */
+export function AlertRules() {
+  const t = useTranslations('dashboard.alerts.rules');
+  const tMetrics = useTranslations('dashboard.alerts.metrics');
+  const locale = useLocale();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedRule, setSelectedRule] = useState<AlertRule | undefined>();
+
+  const { data, isLoading, refetch } = useApi<{ rules: AlertRule[] }>(
+    '/api/dashboard/alerts/rules',
+    { cacheKey: 'metric_alert_rules', cacheTTL: 1, refetchOnMount: true }
+  );
+  const { data: channelsData } = useApi<{ channels: AlertChannelSettings[] }>(
+    '/api/dashboard/alerts/channels',
+    { cacheKey: 'metric_alert_channels', cacheTTL: 1, refetchOnMount: true }
+  );
+  const rules = data?.rules || [];
+  const channels = channelsData?.channels || [];
+
+  const describeCondition = (rule: AlertRule) =>
+    rule.condition_type === 'threshold'
+      ? t('conditionSummary.threshold', {
+          direction: t(`directions.${rule.direction}`),
+          threshold: formatMetricValue(rule.metric, rule.threshold, locale),
+          minutes: rule.window_minutes,
+        })
+      : t('conditionSummary.anomaly', {
+          direction: t(`directions.${rule.direction}`),
+          threshold: rule.threshold,
+          minutes: rule.window_minutes,
+          windows: rule.baseline_windows,
+        });
+
+  const handleCreate = () => {
+    setSelectedRule(undefined);
+    onOpen();
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    setSelectedRule(rule);
+    onOpen();
+  };
+
+  const handleSave = async (draft: AlertRuleDraft) => {
+    if (selectedRule) {
+      await requestJson(`/api/dashboard/alerts/rules/${selectedRule.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(draft),
+      });
+    } else {
+      await requestJson('/api/dashboard/alerts/rules', {
+        method: 'POST',
+        body: JSON.stringify(draft),
+      });
+    }
+
+    await refetch();
+  };
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      await requestJson(`/api/dashboard/alerts/rules/${rule.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ ...toAlertRuleDraft(rule), enabled }),
+      });
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(t('deleteConfirm', { name: rule.name }))) {
+      return;
+    }
+
+    try {
+      await requestJson(`/api/dashboard/alerts/rules/${rule.id}`, { method: 'DELETE' });
+      toast.success(t('toast.deleted'));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.deleteError'));
+    }
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg font-semibold">{t('title')}</h3>
+            <p className="text-sm text-foreground/60">{t('subtitle')}</p>
+          </div>
+          <Button
+            color="primary"
+            startContent={<PlusIcon className="w-5 h-5" />}
+            onPress={handleCreate}
+          >
+            {t('createRule')}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Spinner size="md" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-foreground/60 mb-4">{t('empty')}</p>
+            <Button color="primary" onPress={handleCreate}>
+              {t('createFirst')}
+            </Button>
+          </div>
+        ) : (
+          <Table aria-label={t('title')}>
+            <TableHeader>
+              <TableColumn>{t('columns.name')}</TableColumn>
+              <TableColumn>{t('columns.condition')}</TableColumn>
+              <TableColumn>{t('columns.channels')}</TableColumn>
+              <TableColumn>{t('columns.enabled')}</TableColumn>
+              <TableColumn>{t('columns.actions')}</TableColumn>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <p className="font-semibold">{rule.name}</p>
+                    <p className="text-xs text-foreground/60">{tMetrics(rule.metric)}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{describeCondition(rule)}</p>
+                    <p className="text-xs text-foreground/60">
+                      {t('cooldownSummary', { minutes: rule.cooldown_minutes })}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    {channels
+                      .filter((channel) => rule.channel_ids.includes(channel.id))
+                      .map((channel) => channel.name)
+                      .join(', ') || <span className="text-foreground/60">{t('noChannels')}</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="sm"
+                      isSelected={rule.enabled}
+                      onValueChange={(enabled) => handleToggle(rule, enabled)}
+                      aria-label={t('columns.enabled')}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        onPress={() => handleEdit(rule)}
+                        aria-label={t('edit')}
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        color="danger"
+                        onPress={() => handleDelete(rule)}
+                        aria-label={t('delete')}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardBody>
+
+      <AlertRuleForm
+        isOpen={isOpen}
+        onClose={onClose}
+        onSave={handleSave}
+        channels={channels}
+        rule={selectedRule}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Select,
+  SelectItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from '@heroui/react';
+import { ArrowPathIcon, CheckCircleIcon, EyeIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { Alert, AlertStatus } from '@/lib/alerts/alerts';
+import { formatMetricValue } from './format';
+
+const STATUSES: AlertStatus[] = ['firing', 'acknowledged', 'resolved'];
+const ALL_STATUSES = 'all';
+
+const STATUS_COLORS = {
+  firing: 'danger',
+  acknowledged: 'warning',
+  resolved: 'success',
+} as const;
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+/**
+ * Alerts of the account, with acknowledge and resolve actions
+ */
+export function AlertsInbox() {
+  const t = useTranslations('dashboard.alerts.inbox');
+  const tMetrics = useTranslations('dashboard.alerts.metrics');
+  const locale = useLocale();
+  const [status, setStatus] = useState<AlertStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = useApi<{ alerts: Alert[] }>(
+    `/api/dashboard/alerts${status === ALL_STATUSES ? '' : `?status=${status}`}`,
+    { cacheKey: `metric_alerts_${status}`, cacheTTL: 1, refetchOnMount: true }
+  );
+  const alerts = data?.alerts || [];
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const handleAction = async (alert: Alert, action: 'acknowledge' | 'resolve') => {
+    try {
+      setPending(`${action}-${alert.id}`);
+      await requestJson(`/api/dashboard/alerts/${alert.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ action }),
+      });
+      toast.success(t(action === 'acknowledge' ? 'toast.acknowledged' : 'toast.resolved'));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.actionError'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const describeCondition = (alert: Alert) =>
+    alert.condition_type === 'threshold'
+      ? t('condition.threshold', {
+          direction: t(`directions.${alert.direction}`),
+          threshold: formatMetricValue(alert.metric, alert.threshold, locale),
+          minutes: alert.window_minutes,
+        })
+      : t('condition.anomaly', {
+          direction: t(`directions.${alert.direction}`),
+          threshold: alert.threshold,
+          minutes: alert.window_minutes,
+        });
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-lg font-semibold">{t('title')}</h3>
+            <p className="text-sm text-foreground/60">{t('subtitle')}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              aria-label={t('filter')}
+              selectedKeys={[status]}
+              onSelectionChange={(keys) => {
+                const value = Array.from(keys)[0] as AlertStatus | typeof ALL_STATUSES | undefined;
+                if (value) setStatus(value);
+              }}
+              variant="bordered"
+              size="sm"
+              className="w-44"
+            >
+              {[ALL_STATUSES, ...STATUSES].map((item) => (
+                <SelectItem key={item}>{t(`statuses.${item}`)}</SelectItem>
+              ))}
+            </Select>
+            <Button
+              isIconOnly
+              variant="flat"
+              size="sm"
+              onPress={() => refetch()}
+              aria-label={t('refresh')}
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Spinner size="md" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-foreground/60">{t('empty')}</p>
+          </div>
+        ) : (
+          <Table aria-label={t('title')}>
+            <TableHeader>
+              <TableColumn>{t('columns.rule')}</TableColumn>
+              <TableColumn>{t('columns.status')}</TableColumn>
+              <TableColumn>{t('columns.value')}</TableColumn>
+              <TableColumn>{t('columns.firedAt')}</TableColumn>
+              <TableColumn>{t('columns.actions')}</TableColumn>
+            </TableHeader>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert.id}>
+                  <TableCell>
+                    <p className="font-semibold">{alert.rule_name}</p>
+                    <p className="text-xs text-foreground/60">
+                      {tMetrics(alert.metric)} · {describeCondition(alert)}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="sm" variant="flat" color={STATUS_COLORS[alert.status]}>
+                      {t(`statuses.${alert.status}`)}
+                    </Chip>
+                    {alert.status === 'acknowledged' && alert.acknowledged_by_email && (
+                      <p className="text-xs text-foreground/60 mt-1">
+                        {t('acknowledgedBy', { email: alert.acknowledged_by_email })}
+                      </p>
+                    )}
+                    {alert.status === 'resolved' && alert.resolved_at && (
+                      <p className="text-xs text-foreground/60 mt-1">
+                        {alert.resolved_by_email
+                          ? t('resolvedBy', {
+                              email: alert.resolved_by_email,
+                              date: formatDate(alert.resolved_at),
+                            })
+                          : t('resolvedAutomatically', { date: formatDate(alert.resolved_at) })}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-semibold">
+                      {formatMetricValue(alert.metric, alert.last_value, locale)}
+                    </p>
+                    <p className="text-xs text-foreground/60">
+                      {t('firedValue', {
+                        value: formatMetricValue(alert.metric, alert.value, locale),
+                      })}
+                      {alert.condition_type === 'anomaly' &&
+                        alert.expected !== null &&
+                        ` · ${t('baseline', {
+                          value: formatMetricValue(alert.metric, alert.expected, locale),
+                        })}`}
+                    </p>
+                  </TableCell>
+                  <TableCell>{formatDate(alert.fired_at)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {alert.status === 'firing' && (
+                        <Button
+                          size="sm"
+                          variant="flat"
+                          startContent={<EyeIcon className="w-4 h-4" />}
+                          onPress={() => handleAction(alert, 'acknowledge')}
+                          isLoading={pending === `acknowledge-${alert.id}`}
+                        >
+                          {t('acknowledge')}
+                        </Button>
+                      )}
+                      {alert.status !== 'resolved' && (
+                        <Button
+                          size="sm"
+                          variant="flat"
+                          color="success"
+                          startContent={<CheckCircleIcon className="w-4 h-4" />}
+                          onPress={() => handleAction(alert, 'resolve')}
+                          isLoading={pending === `resolve-${alert.id}`}
+                        >
+                          {t('resolve')}
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
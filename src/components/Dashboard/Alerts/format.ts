@@ -0,0 +1,32 @@
+import type { AlertMetric } from '@/lib/alerts/rules';
+
+/** Same as ALERT_METRICS (src/lib/alerts/rules.ts) */
+export const METRICS: AlertMetric[] = [
+  'conversion_rate',
+  'abandonment_rate',
+  'avg_order_value',
+  'total_revenue',
+  'total_sessions',
+  'total_conversions',
+];
+
+/** Metrics measured per checkout session (same as SESSION_RATE_METRICS) */
+export const SESSION_RATE_METRICS: AlertMetric[] = [
+  'conversion_rate',
+  'abandonment_rate',
+  'avg_order_value',
+];
+
+const PERCENTAGE_METRICS: AlertMetric[] = ['conversion_rate', 'abandonment_rate'];
+const COUNT_METRICS: AlertMetric[] = ['total_sessions', 'total_conversions'];
+
+/**
+ * Value of an alert metric for display (rates in percent)
+ */
+export function formatMetricValue(metric: AlertMetric, value: number, locale: string): string {
+  const formatted = new Intl.NumberFormat(locale, {
+    maximumFractionDigits: COUNT_METRICS.includes(metric) ? 0 : 2,
+  }).format(value);
+
+  return PERCENTAGE_METRICS.includes(metric) ? `${formatted}%` : formatted;
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button, Card, CardBody, Input } from '@heroui/react';
+import { GlobeAltIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { formatDate } from '@/utils/formatters';
+import type { AllowedOrigin } from '@/lib/api/cors';
+
+interface AllowedOriginsCardProps {
+  /** Admins and owners can add and remove origins */
+  canManage: boolean;
+}
+
+/**
+ * Checkout origins allowed to call the account's public BoltX and metrics
+ * endpoints (CORS registry)
+ */
+export function AllowedOriginsCard({ canManage }: AllowedOriginsCardProps) {
+  const t = useTranslations('dashboard.integrations.allowedOrigins');
+
+  const [origins, setOrigins] = useState<AllowedOrigin[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newOrigin, setNewOrigin] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOrigins();
+  }, []);
+
+  const loadOrigins = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/dashboard/integrations/allowed-origins');
+
+      if (response.ok) {
+        const data = await response.json();
+        setOrigins(data.origins || []);
+      }
+    } catch (error) {
+      console.error('Load allowed origins error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!canManage) {
+      toast.error(t('unauthorized'));
+      return;
+    }
+
+    if (!newOrigin.trim()) {
+      toast.error(t('invalid'));
+      return;
+    }
+
+    try {
+      setIsAdding(true);
+      const response = await fetch('/api/dashboard/integrations/allowed-origins', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ origin: newOrigin.trim() }),
+      });
+
+      if (response.status === 400) {
+        toast.error(t('invalid'));
+        return;
+      }
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add allowed origin');
+      }
+
+      setNewOrigin('');
+      await loadOrigins();
+      toast.success(t('addSuccess'));
+    } catch (error) {
+      console.error('Add allowed origin error:', error);
+      toast.error(t('addError'));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (originId: string) => {
+    if (!canManage) {
+      toast.error(t('unauthorized'));
+      return;
+    }
+
+    if (!confirm(t('deleteConfirm'))) {
+      return;
+    }
+
+    try {
+      setDeletingId(originId);
+      const response = await fetch(`/api/dashboard/integrations/allowed-origins/${originId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to remove allowed origin');
+      }
+
+      setOrigins((current) => current.filter((origin) => origin.id !== originId));
+      toast.success(t('deleteSuccess'));
+    } catch (error) {
+      console.error('Delete allowed origin error:', error);
+      toast.error(t('deleteError'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200 mb-8">
+      <CardBody className="p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+            <GlobeAltIcon className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+            <p className="text-sm text-foreground/70">{t('description')}</p>
+          </div>
+        </div>
+
+        {canManage && (
+          <div className="flex flex-col md:flex-row gap-3 mb-6">
+            <Input
+              label={t('label')}
+              placeholder={t('placeholder')}
+              description={t('hint')}
+              value={newOrigin}
+              onValueChange={setNewOrigin}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') {
+                  handleAdd();
+                }
+              }}
+              variant="bordered"
+            />
+            <Button
+              color="primary"
+              startContent={<PlusIcon className="w-5 h-5" />}
+              onPress={handleAdd}
+              isLoading={isAdding}
+              className="md:mt-2 flex-shrink-0"
+            >
+              {t('add')}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="p-4 text-center text-foreground/60">Loading...</div>
+        ) : origins.length === 0 ? (
+          <p className="p-4 rounded-lg bg-default-100 text-sm text-foreground/70">{t('empty')}</p>
+        ) : (
+          <ul className="divide-y divide-default">
+            {origins.map((origin) => (
+              <li key={origin.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-mono text-sm text-foreground">{origin.origin}</p>
+                  <p className="text-xs text-foreground/60">
+                    {t('addedOn', { date: formatDate(origin.created_at) })}
+                  </p>
+                </div>
+                {canManage && (
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    color="danger"
+                    variant="light"
+                    onPress={() => handleDelete(origin.id)}
+                    isLoading={deletingId === origin.id}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -10,16 +10,44 @@ import {
   Button,
   Input,
   Textarea,
+  Checkbox,
+  CheckboxGroup,
+  Select,
+  SelectItem,
 } from '@heroui/react';
 import { ClipboardIcon, CheckIcon } from '@heroicons/react/24/outline';
+import {
+  API_KEY_EXPIRY_OPTIONS,
+  API_KEY_SCOPES,
+  ApiKeyScope,
+} from '@/utils/auth/api-key-scopes';
+
+/**
+ * Data submitted when creating a custom API key
+ */
+export interface CreateApiKeyInput {
+  name: string;
+  description?: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+}
 
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (name: string, description?: string) => Promise<void>;
+  onSubmit: (input: CreateApiKeyInput) => Promise<void>;
   isLoading?: boolean;
 }
 
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  ingest: 'Send checkout events to the metrics ingestion endpoint',
+  'read-metrics': 'Read aggregated metrics and analytics',
+  boltx: 'Call BoltX endpoints from the checkout',
+};
+
+const NEVER_EXPIRES = 'never';
+const DEFAULT_EXPIRY = '90';
+
 /**
  * Modal for creating a new custom API key
  */
@@ -31,21 +59,38 @@ export function ApiKeyModal({
 }: ApiKeyModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['ingest']);
+  const [expiry, setExpiry] = useState<string>(DEFAULT_EXPIRY);
+
+  const resetForm = () => {
+    setName('');
+    setDescription('');
+    setScopes(['ingest']);
+    setExpiry(DEFAULT_EXPIRY);
+  };
 
   const handleSubmit = async () => {
-    if (!name.trim()) {
+    if (!name.trim() || scopes.length === 0) {
       return;
     }
-    await onSubmit(name.trim(), description.trim() || undefined);
+    const expiresAt =
+      expiry === NEVER_EXPIRES
+        ? null
+        : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString();
+
+    await onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      scopes,
+      expiresAt,
+    });
     // Reset form on success
-    setName('');
-    setDescription('');
+    resetForm();
   };
 
   const handleClose = () => {
     if (!isLoading) {
-      setName('');
-      setDescription('');
+      resetForm();
       onClose();
     }
   };
@@ -82,6 +127,44 @@ export function ApiKeyModal({
             description="Optional description to help identify this key"
             maxRows={3}
           />
+          <CheckboxGroup
+            label="Scopes"
+            value={scopes}
+            onValueChange={(values) => setScopes(values as ApiKeyScope[])}
+            isDisabled={isLoading}
+            isInvalid={scopes.length === 0}
+            errorMessage="Select at least one scope"
+            description="Grant only the permissions this integration needs"
+          >
+            {API_KEY_SCOPES.map((scope) => (
+              <Checkbox key={scope} value={scope}>
+                <div className="flex flex-col">
+                  <span className="font-mono text-sm">{scope}</span>
+                  <span className="text-xs text-foreground/60">{SCOPE_DESCRIPTIONS[scope]}</span>
+                </div>
+              </Checkbox>
+            ))}
+          </CheckboxGroup>
+          <Select
+            label="Expiration"
+            variant="bordered"
+            selectedKeys={[expiry]}
+            onSelectionChange={(keys) => {
+              const selected = Array.from(keys)[0] as string;
+              setExpiry(selected || DEFAULT_EXPIRY);
+            }}
+            isDisabled={isLoading}
+            description="Expired keys are rejected automatically"
+          >
+            {API_KEY_EXPIRY_OPTIONS.map((days) => {
+              const key = days === null ? NEVER_EXPIRES : String(days);
+              return (
+                <SelectItem key={key} textValue={key}>
+                  {days === null ? 'Never expires' : `${days} days`}
+                </SelectItem>
+              );
+            })}
+          </Select>
         </ModalBody>
         <ModalFooter>
           <Button
@@ -95,7 +178,7 @@ export function ApiKeyModal({
             color="primary"
             onPress={handleSubmit}
             isLoading={isLoading}
-            isDisabled={!name.trim()}
+            isDisabled={!name.trim() || scopes.length === 0}
             className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
           >
             Create API Key
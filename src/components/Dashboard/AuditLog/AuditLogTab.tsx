@@ -0,0 +1,292 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Input,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from '@heroui/react';
+import { ArrowDownTrayIcon, FunnelIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { AuditLogEntry } from '@/lib/audit/audit-log';
+
+const PAGE_SIZE = 50;
+
+interface AuditFilters {
+  action: string;
+  resourceType: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: '', resourceType: '', from: '', to: '' };
+
+/**
+ * Query string of the audit log API for the filters (dates are whole days)
+ */
+function toQuery(filters: AuditFilters, offset?: number): string {
+  const params = new URLSearchParams();
+  if (filters.action.trim()) params.set('action', filters.action.trim());
+  if (filters.resourceType.trim()) params.set('resourceType', filters.resourceType.trim());
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set('to', end.toISOString());
+  }
+  if (offset !== undefined) {
+    params.set('limit', String(PAGE_SIZE));
+    params.set('offset', String(offset));
+  }
+  return params.toString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Account audit log: who changed what, with filters and CSV export
+ */
+export function AuditLogTab() {
+  const t = useTranslations('dashboard.settings.auditLog');
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/dashboard/audit-logs?${toQuery(filters, offset)}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load audit log');
+      }
+
+      const data = await response.json();
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+      setRetentionDays(data.retentionDays ?? null);
+    } catch (error) {
+      console.error('Load audit log error:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, offset, t]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const applyFilters = () => {
+    setOffset(0);
+    setFilters(draft);
+  };
+
+  const clearFilters = () => {
+    setOffset(0);
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleExport = () => {
+    window.location.href = `/api/dashboard/audit-logs/export?${toQuery(filters)}`;
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200 mt-6">
+      <CardBody className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+            <p className="text-sm text-foreground/70">
+              {retentionDays
+                ? t('descriptionRetention', { days: retentionDays })
+                : t('description')}
+            </p>
+          </div>
+          <Button
+            variant="flat"
+            startContent={<ArrowDownTrayIcon className="w-5 h-5" />}
+            onPress={handleExport}
+            isDisabled={total === 0}
+          >
+            {t('export')}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6">
+          <Input
+            size="sm"
+            label={t('action')}
+            placeholder="theme.activate"
+            value={draft.action}
+            onValueChange={(action) => setDraft((current) => ({ ...current, action }))}
+            variant="bordered"
+          />
+          <Input
+            size="sm"
+            label={t('resourceType')}
+            placeholder="api_key"
+            value={draft.resourceType}
+            onValueChange={(resourceType) => setDraft((current) => ({ ...current, resourceType }))}
+            variant="bordered"
+          />
+          <Input
+            size="sm"
+            type="date"
+            label={t('from')}
+            value={draft.from}
+            onValueChange={(from) => setDraft((current) => ({ ...current, from }))}
+            variant="bordered"
+          />
+          <Input
+            size="sm"
+            type="date"
+            label={t('to')}
+            value={draft.to}
+            onValueChange={(to) => setDraft((current) => ({ ...current, to }))}
+            variant="bordered"
+          />
+          <div className="flex gap-2 items-center">
+            <Button
+              color="primary"
+              startContent={<FunnelIcon className="w-4 h-4" />}
+              onPress={applyFilters}
+            >
+              {t('filter')}
+            </Button>
+            <Button variant="light" onPress={clearFilters}>
+              {t('clear')}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <Table aria-label={t('title')} removeWrapper>
+            <TableHeader>
+              <TableColumn>{t('when')}</TableColumn>
+              <TableColumn>{t('actor')}</TableColumn>
+              <TableColumn>{t('action')}</TableColumn>
+              <TableColumn>{t('target')}</TableColumn>
+              <TableColumn>{t('changes')}</TableColumn>
+              <TableColumn>{t('source')}</TableColumn>
+            </TableHeader>
+            <TableBody emptyContent={t('empty')}>
+              {entries.map((entry) => {
+                const changes = Object.entries(entry.changes || {});
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <span className="text-sm text-foreground/70 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm">{entry.actor_email || entry.actor_id || '—'}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="sm" variant="flat" className="font-mono">
+                        {entry.action}
+                      </Chip>
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-sm">{entry.resource_type}</p>
+                      {entry.resource_id && (
+                        <p className="text-xs font-mono text-foreground/60">{entry.resource_id}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {changes.length === 0 ? (
+                        <span className="text-sm text-foreground/60">—</span>
+                      ) : (
+                        <details>
+                          <summary className="text-sm cursor-pointer">
+                            {t('fieldsChanged', { count: changes.length })}
+                          </summary>
+                          <ul className="mt-2 space-y-1">
+                            {changes.map(([field, change]) => (
+                              <li key={field} className="text-xs font-mono break-all">
+                                <span className="font-semibold">{field}</span>:{' '}
+                                <span className="text-danger">{formatValue(change.before)}</span>
+                                {' → '}
+                                <span className="text-success">{formatValue(change.after)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-xs font-mono">{entry.ip_address || '—'}</p>
+                      {entry.user_agent && (
+                        <p
+                          className="text-xs text-foreground/60 max-w-[200px] truncate"
+                          title={entry.user_agent}
+                        >
+                          {entry.user_agent}
+                        </p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4">
+            <span className="text-sm text-foreground/70">
+              {t('showing', {
+                from: offset + 1,
+                to: Math.min(offset + PAGE_SIZE, total),
+                total,
+              })}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="flat"
+                isDisabled={offset === 0 || isLoading}
+                onPress={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              >
+                {t('previous')}
+              </Button>
+              <Button
+                size="sm"
+                variant="flat"
+                isDisabled={offset + PAGE_SIZE >= total || isLoading}
+                onPress={() => setOffset(offset + PAGE_SIZE)}
+              >
+                {t('next')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
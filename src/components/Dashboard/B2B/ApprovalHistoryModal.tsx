@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+} from '@heroui/react';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { toast } from 'sonner';
+
+export interface ApprovalAuditEntry {
+  id: string;
+  action:
+    | 'submitted'
+    | 'routed'
+    | 'auto_approved'
+    | 'no_workflow'
+    | 'approved'
+    | 'rejected'
+    | 'escalated';
+  step: number | null;
+  workflowName: string | null;
+  actorEmail: string | null;
+  comment: string | null;
+  statusAfter: string;
+  createdAt: string;
+}
+
+interface ApprovalHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string | null;
+  poNumber?: string;
+}
+
+const getActionColor = (action: ApprovalAuditEntry['action']) => {
+  switch (action) {
+    case 'approved':
+    case 'auto_approved':
+    case 'no_workflow':
+      return 'success';
+    case 'rejected':
+      return 'danger';
+    case 'escalated':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
+
+export function ApprovalHistoryModal({
+  isOpen,
+  onClose,
+  orderId,
+  poNumber,
+}: ApprovalHistoryModalProps) {
+  const t = useTranslations('dashboard.b2b.approvalHistory');
+  const [entries, setEntries] = useState<ApprovalAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !orderId) {
+      return;
+    }
+
+    const loadEntries = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/dashboard/b2b/purchase-orders/${orderId}/audit`);
+        if (!response.ok) {
+          throw new Error('Failed to load approval history');
+        }
+        const data = await response.json();
+        setEntries(data.entries || []);
+      } catch (error) {
+        console.error('Error loading approval history:', error);
+        toast.error(t('loadFailed'));
+        setEntries([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [isOpen, orderId, t]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader>
+          {t('title')}
+          {poNumber ? ` · ${poNumber}` : ''}
+        </ModalHeader>
+        <ModalBody>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Spinner size="md" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-foreground/60 py-8">{t('empty')}</p>
+          ) : (
+            <ol className="space-y-4">
+              {entries.map((entry) => (
+                <li key={entry.id} className="border-l-2 border-default pl-4">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Chip size="sm" color={getActionColor(entry.action)} variant="flat">
+                      {t(`actions.${entry.action}`)}
+                    </Chip>
+                    {entry.step !== null && (
+                      <span className="text-xs text-foreground/60">
+                        {t('step', { step: entry.step })}
+                      </span>
+                    )}
+                    {entry.workflowName && (
+                      <span className="text-xs text-foreground/60">{entry.workflowName}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-foreground mt-1">{entry.actorEmail || t('system')}</p>
+                  {entry.comment && (
+                    <p className="text-sm text-foreground/70 italic mt-1">{entry.comment}</p>
+                  )}
+                  <p className="text-xs text-foreground/50 mt-1">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            {t('close')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Card, CardBody, Chip, Progress } from '@heroui/react';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { formatDate, formatNumber } from '@/utils/formatters';
+import type { TokenBudgetStatus } from '@/lib/ai/boltx-usage';
+
+interface BoltXUsage {
+  rateLimit: { requestsPerMinute: number };
+  tokens: TokenBudgetStatus;
+}
+
+/**
+ * Current month's OpenAI token usage against the budget, and the rate limit
+ * applied to the public BoltX endpoints
+ */
+export function BoltXUsageCard() {
+  const t = useTranslations('dashboard.boltx.settings.usage');
+
+  const { data, isLoading } = useApi<BoltXUsage>('/api/boltx/usage', {
+    cacheKey: 'boltx_usage',
+    cacheTTL: 1,
+    refetchOnMount: true,
+  });
+
+  const tokens = data?.tokens;
+  const percentUsed =
+    tokens && tokens.budget > 0
+      ? Math.min(100, (tokens.usage.totalTokens / tokens.budget) * 100)
+      : 0;
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200 mt-6">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+          {tokens?.exhausted && (
+            <Chip color="danger" variant="flat">
+              {t('exhausted')}
+            </Chip>
+          )}
+        </div>
+
+        {isLoading || !data || !tokens ? (
+          <div className="flex items-center justify-center h-24">
+            <Spinner size="md" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-semibold text-foreground">{t('tokens')}</p>
+                <p className="text-sm text-foreground/70">
+                  {tokens.budget > 0
+                    ? t('tokensOfBudget', {
+                        used: formatNumber(tokens.usage.totalTokens),
+                        budget: formatNumber(tokens.budget),
+                      })
+                    : t('tokensNoBudget', { used: formatNumber(tokens.usage.totalTokens) })}
+                </p>
+              </div>
+              {tokens.budget > 0 && (
+                <Progress
+                  aria-label={t('tokens')}
+                  value={percentUsed}
+                  color={tokens.exhausted ? 'danger' : percentUsed >= 80 ? 'warning' : 'primary'}
+                />
+              )}
+              <p className="text-xs text-foreground/60 mt-2">
+                {t('resets', { date: formatDate(tokens.resetsAt) })}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-foreground/70">{t('requests')}</p>
+                <p className="text-lg font-semibold">{formatNumber(tokens.usage.requests)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-foreground/70">{t('promptCompletion')}</p>
+                <p className="text-lg font-semibold">
+                  {formatNumber(tokens.usage.promptTokens)} /{' '}
+                  {formatNumber(tokens.usage.completionTokens)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-foreground/70">{t('rateLimit')}</p>
+                <p className="text-lg font-semibold">
+                  {t('requestsPerMinute', { count: data.rateLimit.requestsPerMinute })}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
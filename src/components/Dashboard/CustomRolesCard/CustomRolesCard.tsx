@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Card, CardBody, Checkbox, CheckboxGroup, Chip, Input } from '@heroui/react';
+import { PencilIcon, PlusIcon, ShieldCheckIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import {
+  RBAC_ACTIONS,
+  RBAC_RESOURCES,
+  type Action,
+  type Permission,
+} from '@/utils/rbac/permissions';
+import type { AccountRole } from '@/lib/rbac/roles';
+
+interface CustomRolesCardProps {
+  roles: AccountRole[];
+  /** Owners (users manage) can create, edit and delete roles */
+  canManage: boolean;
+  /** Reload roles and users after a change */
+  onChange: () => Promise<void>;
+}
+
+const toGrantKey = (permission: Permission) => `${permission.resource}:${permission.action}`;
+
+const fromGrantKey = (key: string): Permission => {
+  const [resource, action] = key.split(':');
+  return { resource, action: action as Action };
+};
+
+/**
+ * Account-defined roles whose grants are added to the built-in role of the
+ * users they are assigned to
+ */
+export function CustomRolesCard({ roles, canManage, onChange }: CustomRolesCardProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [grants, setGrants] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const openForm = (role?: AccountRole) => {
+    setEditingId(role?.id || null);
+    setName(role?.name || '');
+    setDescription(role?.description || '');
+    setGrants(role ? role.permissions.map(toGrantKey) : []);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Role name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/dashboard/roles/${editingId}` : '/api/dashboard/roles',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || null,
+            permissions: grants.map(fromGrantKey),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save role');
+      }
+
+      toast.success(editingId ? 'Role updated successfully' : 'Role created successfully');
+      closeForm();
+      await onChange();
+    } catch (error) {
+      console.error('Save role error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save role');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: AccountRole) => {
+    const message =
+      role.user_count > 0
+        ? `Delete "${role.name}"? ${role.user_count} user(s) will keep only their built-in role.`
+        : `Delete "${role.name}"?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    setDeletingId(role.id);
+    try {
+      const response = await fetch(`/api/dashboard/roles/${role.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete role');
+      }
+
+      toast.success('Role deleted successfully');
+      await onChange();
+    } catch (error) {
+      console.error('Delete role error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete role');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+              <ShieldCheckIcon className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-foreground">Custom Roles</h3>
+              <p className="text-sm text-foreground/70">
+                Grants added to the built-in role of the users they are assigned to
+              </p>
+            </div>
+          </div>
+          {canManage && !isFormOpen && (
+            <Button
+              color="primary"
+              variant="flat"
+              startContent={<PlusIcon className="w-5 h-5" />}
+              onPress={() => openForm()}
+            >
+              New Role
+            </Button>
+          )}
+        </div>
+
+        {isFormOpen && (
+          <div className="space-y-4 p-4 mb-4 rounded-lg border border-default">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Input
+                label="Name"
+                placeholder="BoltX operator"
+                value={name}
+                onValueChange={setName}
+                variant="bordered"
+                maxLength={60}
+              />
+              <Input
+                label="Description"
+                value={description}
+                onValueChange={setDescription}
+                variant="bordered"
+                maxLength={500}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {RBAC_RESOURCES.map((resource) => (
+                <CheckboxGroup
+                  key={resource}
+                  label={resource}
+                  size="sm"
+                  classNames={{ label: 'capitalize font-semibold text-foreground' }}
+                  value={grants.filter((key) => key.startsWith(`${resource}:`))}
+                  onValueChange={(values) =>
+                    setGrants((current) => [
+                      ...current.filter((key) => !key.startsWith(`${resource}:`)),
+                      ...values,
+                    ])
+                  }
+                >
+                  {RBAC_ACTIONS.map((action) => (
+                    <Checkbox key={action} value={`${resource}:${action}`}>
+                      <span className="capitalize">{action}</span>
+                    </Checkbox>
+                  ))}
+                </CheckboxGroup>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="light" onPress={closeForm} isDisabled={isSaving}>
+                Cancel
+              </Button>
+              <Button color="primary" onPress={handleSave} isLoading={isSaving}>
+                {editingId ? 'Save Role' : 'Create Role'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {roles.length === 0 ? (
+          <p className="p-4 rounded-lg bg-default-100 text-sm text-foreground/70">
+            No custom roles yet. Users only have their built-in role.
+          </p>
+        ) : (
+          <ul className="divide-y divide-default">
+            {roles.map((role) => (
+              <li key={role.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-semibold text-foreground">
+                    {role.name}
+                    <span className="ml-2 text-xs font-normal text-foreground/60">
+                      {role.user_count} user(s)
+                    </span>
+                  </p>
+                  {role.description && (
+                    <p className="text-sm text-foreground/70">{role.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {role.permissions.length === 0 ? (
+                      <span className="text-xs text-foreground/60">No grants</span>
+                    ) : (
+                      role.permissions.map((permission) => (
+                        <Chip key={toGrantKey(permission)} size="sm" variant="flat">
+                          {permission.resource} {permission.action}
+                        </Chip>
+                      ))
+                    )}
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button isIconOnly size="sm" variant="light" onPress={() => openForm(role)}>
+                      <PencilIcon className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      color="danger"
+                      variant="light"
+                      onPress={() => handleDelete(role)}
+                      isLoading={deletingId === role.id}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
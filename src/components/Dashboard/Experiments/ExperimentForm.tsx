@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Switch,
+  Select,
+  SelectItem,
+  Textarea,
+} from '@heroui/react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import type {
+  BoltXVariantConfig,
+  Experiment,
+  ExperimentInput,
+  ExperimentType,
+  ExperimentVariant,
+} from '@/lib/experiments/experiments';
+
+const EXPERIMENT_TYPES: ExperimentType[] = ['theme', 'boltx'];
+const BOLTX_FEATURES: Array<keyof BoltXVariantConfig> = [
+  'interventionsEnabled',
+  'personalizationEnabled',
+  'optimizationsEnabled',
+];
+const MAX_VARIANTS = 5;
+
+function createVariant(type: ExperimentType, index: number): ExperimentVariant {
+  return {
+    key: index === 0 ? 'control' : `variant-${index}`,
+    name: index === 0 ? 'Control' : `Variant ${String.fromCharCode(64 + index)}`,
+    weight: 0,
+    ...(type === 'boltx'
+      ? {
+          boltx: {
+            interventionsEnabled: index > 0,
+            personalizationEnabled: index > 0,
+            optimizationsEnabled: index > 0,
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Split 100% as evenly as possible (the control gets the remainder)
+ */
+function evenWeights(variants: ExperimentVariant[]): ExperimentVariant[] {
+  const share = Math.floor(100 / variants.length);
+  return variants.map((variant, index) => ({
+    ...variant,
+    weight: index === 0 ? 100 - share * (variants.length - 1) : share,
+  }));
+}
+
+function createExperiment(type: ExperimentType, base?: Partial<ExperimentInput>): ExperimentInput {
+  return {
+    name: '',
+    description: null,
+    significanceLevel: 0.05,
+    minSessionsPerVariant: 1000,
+    ...base,
+    type,
+    variants: evenWeights([createVariant(type, 0), createVariant(type, 1)]),
+  };
+}
+
+interface ExperimentFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (experiment: ExperimentInput, id?: string) => Promise<void>;
+  experiment?: Experiment;
+}
+
+export function ExperimentForm({ isOpen, onClose, onSave, experiment }: ExperimentFormProps) {
+  const t = useTranslations('dashboard.analytics.experiments');
+  const [formData, setFormData] = useState<ExperimentInput>(createExperiment('theme'));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: themesData } = useApi<{ themes: Array<{ id: string; name: string }> }>(
+    '/api/dashboard/themes',
+    { cacheKey: 'themes', enabled: isOpen }
+  );
+  const themes = themesData?.themes || [];
+
+  useEffect(() => {
+    if (experiment) {
+      const { name, description, type, variants, significanceLevel, minSessionsPerVariant } =
+        experiment;
+      setFormData({ name, description, type, variants, significanceLevel, minSessionsPerVariant });
+    } else {
+      setFormData(createExperiment('theme'));
+    }
+  }, [experiment, isOpen]);
+
+  const totalWeight = formData.variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  const updateVariant = (index: number, changes: Partial<ExperimentVariant>) => {
+    setFormData({
+      ...formData,
+      variants: formData.variants.map((variant, i) =>
+        i === index ? { ...variant, ...changes } : variant
+      ),
+    });
+  };
+
+  const addVariant = () => {
+    setFormData({
+      ...formData,
+      variants: evenWeights([
+        ...formData.variants,
+        createVariant(formData.type, formData.variants.length),
+      ]),
+    });
+  };
+
+  const removeVariant = (index: number) => {
+    setFormData({
+      ...formData,
+      variants: evenWeights(formData.variants.filter((_, i) => i !== index)),
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error(t('form.nameRequired'));
+      return;
+    }
+    if (totalWeight !== 100) {
+      toast.error(t('form.weightsInvalid', { total: totalWeight }));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(formData, experiment?.id);
+      onClose();
+      toast.success(t('toast.saved'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader>{experiment ? t('form.editTitle') : t('form.createTitle')}</ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <Input
+              label={t('form.name')}
+              value={formData.name}
+              onValueChange={(value) => setFormData({ ...formData, name: value })}
+              variant="bordered"
+              isRequired
+            />
+
+            <Textarea
+              label={t('form.description')}
+              value={formData.description || ''}
+              onValueChange={(value) => setFormData({ ...formData, description: value || null })}
+              variant="bordered"
+              minRows={2}
+            />
+
+            <Select
+              label={t('form.type')}
+              selectedKeys={[formData.type]}
+              onSelectionChange={(keys) => {
+                const type = Array.from(keys)[0] as ExperimentType | undefined;
+                if (type && type !== formData.type) {
+                  setFormData(createExperiment(type, formData));
+                }
+              }}
+              variant="bordered"
+              isDisabled={!!experiment}
+              description={
+                experiment ? t('form.typeLocked') : t(`types.${formData.type}.description`)
+              }
+            >
+              {EXPERIMENT_TYPES.map((type) => (
+                <SelectItem key={type}>{t(`types.${type}.label`)}</SelectItem>
+              ))}
+            </Select>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                type="number"
+                label={t('form.significanceLevel')}
+                description={t('form.significanceLevelHelp')}
+                value={String(formData.significanceLevel)}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, significanceLevel: Number(value) || 0 })
+                }
+                step="0.01"
+                variant="bordered"
+              />
+              <Input
+                type="number"
+                label={t('form.minSessionsPerVariant')}
+                description={t('form.minSessionsPerVariantHelp')}
+                value={String(formData.minSessionsPerVariant)}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, minSessionsPerVariant: Number(value) || 0 })
+                }
+                variant="bordered"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('form.variants')}</p>
+                <p
+                  className={`text-sm ${totalWeight === 100 ? 'text-foreground/70' : 'text-danger'}`}
+                >
+                  {t('form.variantsHelp', { total: totalWeight })}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="flat"
+                startContent={<PlusIcon className="w-4 h-4" />}
+                onPress={addVariant}
+                isDisabled={formData.variants.length >= MAX_VARIANTS}
+              >
+                {t('form.addVariant')}
+              </Button>
+            </div>
+
+            {formData.variants.map((variant, index) => (
+              <div key={index} className="border border-default rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-semibold">
+                    {index === 0 ? t('form.control') : t('form.variant', { number: index })}
+                  </p>
+                  {index > 0 && formData.variants.length > 2 && (
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="light"
+                      color="danger"
+                      onPress={() => removeVariant(index)}
+                      aria-label={t('form.removeVariant')}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <Input
+                    label={t('form.variantName')}
+                    value={variant.name}
+                    onValueChange={(value) => updateVariant(index, { name: value })}
+                    variant="bordered"
+                    size="sm"
+                  />
+                  <Input
+                    label={t('form.variantKey')}
+                    value={variant.key}
+                    onValueChange={(value) => updateVariant(index, { key: value })}
+                    variant="bordered"
+                    size="sm"
+                  />
+                  <Input
+                    type="number"
+                    label={t('form.weight')}
+                    value={String(variant.weight)}
+                    onValueChange={(value) => updateVariant(index, { weight: Number(value) || 0 })}
+                    endContent={<span className="text-sm text-foreground/60">%</span>}
+                    variant="bordered"
+                    size="sm"
+                  />
+                </div>
+
+                {formData.type === 'theme' ? (
+                  <Select
+                    label={t('form.theme')}
+                    selectedKeys={variant.themeId ? [variant.themeId] : []}
+                    onSelectionChange={(keys) => {
+                      const themeId = Array.from(keys)[0] as string | undefined;
+                      updateVariant(index, { themeId });
+                    }}
+                    variant="bordered"
+                    size="sm"
+                  >
+                    {themes.map((theme) => (
+                      <SelectItem key={theme.id}>{theme.name}</SelectItem>
+                    ))}
+                  </Select>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {BOLTX_FEATURES.map((feature) => (
+                      <Switch
+                        key={feature}
+                        size="sm"
+                        isSelected={!!variant.boltx?.[feature]}
+                        onValueChange={(value) =>
+                          updateVariant(index, { boltx: { ...variant.boltx, [feature]: value } })
+                        }
+                      >
+                        {t(`boltxFeatures.${feature}`)}
+                      </Switch>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            {t('form.cancel')}
+          </Button>
+          <Button color="primary" onPress={handleSubmit} isLoading={isSaving}>
+            {t('form.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Card,
+  CardBody,
+  Button,
+  Chip,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@heroui/react';
+import { ArrowPathIcon, TrophyIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { formatNumber, formatPercentage } from '@/utils/formatters';
+import type { Experiment } from '@/lib/experiments/experiments';
+import type { ExperimentResults as Results } from '@/lib/experiments/experiment-store';
+import type { Interval } from '@/lib/experiments/statistics';
+
+const VERDICT_COLORS = {
+  collecting: 'default',
+  running: 'warning',
+  significant: 'success',
+} as const;
+
+const percent = (value: number) => formatPercentage(value * 100, 2);
+const money = (value: number) =>
+  formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function formatInterval(interval: Interval, format: (value: number) => string) {
+  return `${format(interval.lower)} – ${format(interval.upper)}`;
+}
+
+interface ExperimentResultsProps {
+  experiment: Experiment;
+  onPromote: (variantKey: string) => Promise<void>;
+}
+
+export function ExperimentResults({ experiment, onPromote }: ExperimentResultsProps) {
+  const t = useTranslations('dashboard.analytics.experiments.results');
+  const [promotingKey, setPromotingKey] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = useApi<Results>(
+    `/api/dashboard/experiments/${experiment.id}/results`,
+    { cacheKey: `experiment_results_${experiment.id}`, cacheTTL: 1, refetchOnMount: true }
+  );
+
+  const canPromote = experiment.status === 'running' || experiment.status === 'stopped';
+
+  const handlePromote = async (variantKey: string, variantName: string) => {
+    if (!confirm(t('promoteConfirm', { name: variantName }))) {
+      return;
+    }
+
+    setPromotingKey(variantKey);
+    try {
+      await onPromote(variantKey);
+      toast.success(t('promoted', { name: variantName }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('promoteError'));
+    } finally {
+      setPromotingKey(null);
+    }
+  };
+
+  const signedPercent = (value: number) =>
+    `${value > 0 ? '+' : value < 0 ? '−' : ''}${percent(Math.abs(value))}`;
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg font-semibold">{t('title', { name: experiment.name })}</h3>
+            <p className="text-sm text-foreground/60">
+              {data
+                ? t('subtitle', {
+                    level: percent(data.significanceLevel),
+                    adjusted: percent(data.adjustedSignificanceLevel),
+                  })
+                : t('loading')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {data && (
+              <Chip variant="flat" color={VERDICT_COLORS[data.verdict]}>
+                {t(`verdicts.${data.verdict}`)}
+              </Chip>
+            )}
+            <Button isIconOnly variant="light" onPress={refetch} aria-label={t('refresh')}>
+              <ArrowPathIcon className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center h-32">
+            <Spinner size="md" />
+          </div>
+        ) : (
+          <>
+            <Table aria-label={t('title', { name: experiment.name })}>
+              <TableHeader>
+                <TableColumn>{t('columns.variant')}</TableColumn>
+                <TableColumn>{t('columns.sessions')}</TableColumn>
+                <TableColumn>{t('columns.conversionRate')}</TableColumn>
+                <TableColumn>{t('columns.revenuePerSession')}</TableColumn>
+                <TableColumn>{t('columns.lift')}</TableColumn>
+                <TableColumn>{t('columns.pValue')}</TableColumn>
+                <TableColumn>{t('columns.actions')}</TableColumn>
+              </TableHeader>
+              <TableBody>
+                {data.variants.map((variant) => {
+                  const isWinner = variant.key === (experiment.winnerVariantKey ?? data.winnerKey);
+                  return (
+                    <TableRow key={variant.key}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold">{variant.name}</p>
+                          {variant.isControl && (
+                            <Chip size="sm" variant="flat">
+                              {t('control')}
+                            </Chip>
+                          )}
+                          {isWinner && <TrophyIcon className="w-4 h-4 text-success" />}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <p>{formatNumber(variant.sessions)}</p>
+                        <p className="text-xs text-foreground/60">
+                          {t('conversions', { count: variant.conversions })}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{percent(variant.conversionRate)}</p>
+                        <p className="text-xs text-foreground/60">
+                          {formatInterval(variant.conversionRateInterval, percent)}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{money(variant.revenuePerSession)}</p>
+                        <p className="text-xs text-foreground/60">
+                          {formatInterval(variant.revenuePerSessionInterval, money)}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {variant.conversionRateDifference === null ? (
+                          '—'
+                        ) : (
+                          <>
+                            <p
+                              className={
+                                variant.significant
+                                  ? variant.conversionRateDifference > 0
+                                    ? 'text-success'
+                                    : 'text-danger'
+                                  : undefined
+                              }
+                            >
+                              {variant.relativeLift === null
+                                ? signedPercent(variant.conversionRateDifference)
+                                : signedPercent(variant.relativeLift)}
+                            </p>
+                            {variant.conversionRateDifferenceInterval && (
+                              <p className="text-xs text-foreground/60">
+                                {formatInterval(
+                                  variant.conversionRateDifferenceInterval,
+                                  signedPercent
+                                )}
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {variant.pValue === null ? (
+                          '—'
+                        ) : (
+                          <Chip
+                            size="sm"
+                            variant="flat"
+                            color={variant.significant ? 'success' : 'default'}
+                          >
+                            {variant.pValue < 0.0001 ? '< 0.0001' : variant.pValue.toFixed(4)}
+                          </Chip>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canPromote && (
+                          <Button
+                            size="sm"
+                            variant={variant.key === data.winnerKey ? 'solid' : 'flat'}
+                            color={variant.key === data.winnerKey ? 'success' : 'default'}
+                            onPress={() => handlePromote(variant.key, variant.name)}
+                            isLoading={promotingKey === variant.key}
+                            isDisabled={promotingKey !== null}
+                          >
+                            {t('promote')}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-foreground/60 mt-4">{t('methodology')}</p>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
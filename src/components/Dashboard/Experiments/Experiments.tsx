@@ -0,0 +1,281 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Card,
+  CardBody,
+  Button,
+  Chip,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  useDisclosure,
+} from '@heroui/react';
+import {
+  ChartBarIcon,
+  PencilIcon,
+  PlayIcon,
+  PlusIcon,
+  StopIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { formatDate } from '@/utils/formatters';
+import type { Experiment, ExperimentInput } from '@/lib/experiments/experiments';
+import { ExperimentForm } from './ExperimentForm';
+import { ExperimentResults } from './ExperimentResults';
+
+const STATUS_COLORS = {
+  draft: 'default',
+  running: 'success',
+  stopped: 'warning',
+  completed: 'primary',
+} as const;
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export function Experiments() {
+  const t = useTranslations('dashboard.analytics.experiments');
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedExperiment, setSelectedExperiment] = useState<Experiment | undefined>();
+  const [resultsExperimentId, setResultsExperimentId] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = useApi<{ experiments: Experiment[] }>(
+    '/api/dashboard/experiments',
+    { cacheKey: 'checkout_experiments', cacheTTL: 1, refetchOnMount: true }
+  );
+  const experiments = data?.experiments || [];
+  const resultsExperiment = experiments.find((item) => item.id === resultsExperimentId);
+
+  const handleCreate = () => {
+    setSelectedExperiment(undefined);
+    onOpen();
+  };
+
+  const handleEdit = (experiment: Experiment) => {
+    setSelectedExperiment(experiment);
+    onOpen();
+  };
+
+  const handleSave = async (input: ExperimentInput, id?: string) => {
+    if (id) {
+      const { type: _type, ...updates } = input;
+      await requestJson(`/api/dashboard/experiments/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      });
+    } else {
+      await requestJson('/api/dashboard/experiments', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      });
+    }
+
+    await refetch();
+  };
+
+  const handleStatusChange = async (experiment: Experiment, action: 'start' | 'stop') => {
+    if (action === 'stop' && !confirm(t('stopConfirm', { name: experiment.name }))) {
+      return;
+    }
+
+    try {
+      await requestJson(`/api/dashboard/experiments/${experiment.id}/${action}`, {
+        method: 'POST',
+      });
+      toast.success(t(action === 'start' ? 'toast.started' : 'toast.stopped'));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    }
+  };
+
+  const handlePromote = async (experiment: Experiment, variantKey: string) => {
+    await requestJson(`/api/dashboard/experiments/${experiment.id}/promote`, {
+      method: 'POST',
+      body: JSON.stringify({ variantKey }),
+    });
+    await refetch();
+  };
+
+  const handleDelete = async (experiment: Experiment) => {
+    if (!confirm(t('deleteConfirm', { name: experiment.name }))) {
+      return;
+    }
+
+    try {
+      await requestJson(`/api/dashboard/experiments/${experiment.id}`, { method: 'DELETE' });
+      toast.success(t('toast.deleted'));
+      if (resultsExperimentId === experiment.id) {
+        setResultsExperimentId(null);
+      }
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.deleteError'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+        <CardBody className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-semibold">{t('listTitle')}</h3>
+              <p className="text-sm text-foreground/60">{t('listSubtitle')}</p>
+            </div>
+            <Button
+              color="primary"
+              startContent={<PlusIcon className="w-5 h-5" />}
+              onPress={handleCreate}
+            >
+              {t('createExperiment')}
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Spinner size="md" />
+            </div>
+          ) : experiments.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-foreground/60 mb-4">{t('empty')}</p>
+              <Button color="primary" onPress={handleCreate}>
+                {t('createFirst')}
+              </Button>
+            </div>
+          ) : (
+            <Table aria-label={t('listTitle')}>
+              <TableHeader>
+                <TableColumn>{t('columns.name')}</TableColumn>
+                <TableColumn>{t('columns.variants')}</TableColumn>
+                <TableColumn>{t('columns.status')}</TableColumn>
+                <TableColumn>{t('columns.started')}</TableColumn>
+                <TableColumn>{t('columns.actions')}</TableColumn>
+              </TableHeader>
+              <TableBody>
+                {experiments.map((experiment) => (
+                  <TableRow key={experiment.id}>
+                    <TableCell>
+                      <p className="font-semibold">{experiment.name}</p>
+                      <p className="text-xs text-foreground/60">
+                        {t(`types.${experiment.type}.label`)}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {experiment.variants
+                        .map((variant) => `${variant.name} (${variant.weight}%)`)
+                        .join(' · ')}
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="sm" variant="flat" color={STATUS_COLORS[experiment.status]}>
+                        {t(`statuses.${experiment.status}`)}
+                      </Chip>
+                    </TableCell>
+                    <TableCell>
+                      {experiment.startedAt ? formatDate(experiment.startedAt) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {experiment.status === 'draft' && (
+                          <>
+                            <Button
+                              isIconOnly
+                              size="sm"
+                              variant="light"
+                              color="success"
+                              onPress={() => handleStatusChange(experiment, 'start')}
+                              aria-label={t('start')}
+                            >
+                              <PlayIcon className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              isIconOnly
+                              size="sm"
+                              variant="light"
+                              onPress={() => handleEdit(experiment)}
+                              aria-label={t('edit')}
+                            >
+                              <PencilIcon className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
+                        {experiment.status === 'running' && (
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            color="warning"
+                            onPress={() => handleStatusChange(experiment, 'stop')}
+                            aria-label={t('stop')}
+                          >
+                            <StopIcon className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {experiment.status !== 'draft' && (
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => setResultsExperimentId(experiment.id)}
+                            aria-label={t('viewResults')}
+                          >
+                            <ChartBarIcon className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {experiment.status !== 'running' && (
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            color="danger"
+                            onPress={() => handleDelete(experiment)}
+                            aria-label={t('delete')}
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardBody>
+      </Card>
+
+      {resultsExperiment && (
+        <ExperimentResults
+          key={resultsExperiment.id}
+          experiment={resultsExperiment}
+          onPromote={(variantKey) => handlePromote(resultsExperiment, variantKey)}
+        />
+      )}
+
+      <ExperimentForm
+        isOpen={isOpen}
+        onClose={onClose}
+        onSave={handleSave}
+        experiment={selectedExperiment}
+      />
+    </div>
+  );
+}
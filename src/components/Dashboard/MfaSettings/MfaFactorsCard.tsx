@@ -0,0 +1,425 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from '@heroui/react';
+import {
+  ArrowPathIcon,
+  DevicePhoneMobileIcon,
+  KeyIcon,
+  ShieldCheckIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { MfaFactorSummary } from '@/lib/mfa/factors';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import { TotpEnrollment } from './TotpEnrollment';
+
+interface TotpEnrollmentState {
+  factorId: string;
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Second factors of the current user: authenticator apps, security keys and
+ * recovery codes
+ */
+export function MfaFactorsCard() {
+  const t = useTranslations('dashboard.profile.mfa');
+  const tAuth = useTranslations('auth.mfa');
+
+  const [factors, setFactors] = useState<MfaFactorSummary[]>([]);
+  const [recoveryCodesRemaining, setRecoveryCodesRemaining] = useState(0);
+  const [required, setRequired] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [totpEnrollment, setTotpEnrollment] = useState<TotpEnrollmentState | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  const [isConfirmingTotp, setIsConfirmingTotp] = useState(false);
+
+  const [isSecurityKeyOpen, setIsSecurityKeyOpen] = useState(false);
+  const [securityKeyName, setSecurityKeyName] = useState('');
+  const [isRegistering, setIsRegistering] = useState(false);
+
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const loadFactors = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/dashboard/profile/mfa');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load second factors');
+      }
+
+      const data = await response.json();
+      setFactors(data.factors);
+      setRecoveryCodesRemaining(data.recoveryCodesRemaining);
+      setRequired(data.required);
+    } catch (error) {
+      console.error('Load MFA factors error:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadFactors();
+  }, [loadFactors]);
+
+  const handleFactorAdded = async (newRecoveryCodes?: string[]) => {
+    if (newRecoveryCodes && newRecoveryCodes.length > 0) {
+      setRecoveryCodes(newRecoveryCodes);
+    }
+    await loadFactors();
+  };
+
+  const handleAddAuthenticator = async () => {
+    try {
+      setBusyAction('totp');
+      const response = await fetch('/api/dashboard/profile/mfa/totp', { method: 'POST' });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('enrollError'));
+      }
+
+      setTotpCode('');
+      setTotpEnrollment(data);
+    } catch (error) {
+      console.error('Start TOTP enrollment error:', error);
+      toast.error(t('enrollError'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleConfirmAuthenticator = async () => {
+    if (!totpEnrollment) {
+      return;
+    }
+
+    try {
+      setIsConfirmingTotp(true);
+      const response = await fetch('/api/dashboard/profile/mfa/totp/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ factorId: totpEnrollment.factorId, code: totpCode }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('enrollError'));
+      }
+
+      setTotpEnrollment(null);
+      toast.success(t('enrolled'));
+      await handleFactorAdded(data.recoveryCodes);
+    } catch (error) {
+      console.error('Confirm TOTP enrollment error:', error);
+      setTotpCode('');
+      toast.error(error instanceof Error ? error.message : t('enrollError'));
+    } finally {
+      setIsConfirmingTotp(false);
+    }
+  };
+
+  const handleOpenSecurityKey = () => {
+    if (!browserSupportsWebAuthn()) {
+      toast.error(t('webauthnUnsupported'));
+      return;
+    }
+
+    setSecurityKeyName('');
+    setIsSecurityKeyOpen(true);
+  };
+
+  const handleRegisterSecurityKey = async () => {
+    try {
+      setIsRegistering(true);
+      const optionsResponse = await fetch('/api/dashboard/profile/mfa/webauthn/options', {
+        method: 'POST',
+      });
+
+      const { options, challengeToken, error } = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(error || t('securityKeyError'));
+      }
+
+      const credential = await startRegistration({ optionsJSON: options });
+
+      const response = await fetch('/api/dashboard/profile/mfa/webauthn', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeToken,
+          name: securityKeyName.trim(),
+          response: credential,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('securityKeyError'));
+      }
+
+      setIsSecurityKeyOpen(false);
+      toast.success(t('securityKeyAdded'));
+      await handleFactorAdded(data.recoveryCodes);
+    } catch (error) {
+      console.error('Register security key error:', error);
+      toast.error(t('securityKeyError'));
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleRemove = async (factor: MfaFactorSummary) => {
+    if (!confirm(t('removeConfirm'))) {
+      return;
+    }
+
+    try {
+      setBusyAction(factor.id);
+      const response = await fetch(`/api/dashboard/profile/mfa/${factor.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || t('removeError'));
+      }
+
+      toast.success(t('removed'));
+      await loadFactors();
+    } catch (error) {
+      console.error('Remove MFA factor error:', error);
+      toast.error(error instanceof Error ? error.message : t('removeError'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm(t('regenerateConfirm'))) {
+      return;
+    }
+
+    try {
+      setBusyAction('recovery');
+      const response = await fetch('/api/dashboard/profile/mfa/recovery-codes', {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('regenerateError'));
+      }
+
+      setRecoveryCodes(data.recoveryCodes);
+      setRecoveryCodesRemaining(data.recoveryCodes.length);
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      toast.error(t('regenerateError'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+            <p className="text-sm text-foreground/70">{t('description')}</p>
+          </div>
+          {required && (
+            <Chip size="sm" variant="flat" color="warning">
+              {t('required')}
+            </Chip>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {factors.length === 0 ? (
+              <p className="text-sm text-foreground/60">{t('noFactors')}</p>
+            ) : (
+              <div className="divide-y divide-default">
+                {factors.map((factor) => {
+                  const Icon = factor.type === 'totp' ? DevicePhoneMobileIcon : KeyIcon;
+                  return (
+                    <div key={factor.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <Icon className="w-5 h-5 text-foreground/60" />
+                        <div>
+                          <p className="font-semibold text-foreground">{factor.name}</p>
+                          <p className="text-xs text-foreground/60">
+                            {factor.type === 'totp' ? t('authenticatorApp') : t('securityKey')}
+                            {' · '}
+                            {factor.last_used_at
+                              ? t('lastUsed', {
+                                  date: new Date(factor.last_used_at).toLocaleDateString(),
+                                })
+                              : t('neverUsed')}
+                          </p>
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        color="danger"
+                        variant="light"
+                        startContent={<TrashIcon className="w-4 h-4" />}
+                        onPress={() => handleRemove(factor)}
+                        isLoading={busyAction === factor.id}
+                      >
+                        {t('remove')}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                color="primary"
+                variant="flat"
+                startContent={<DevicePhoneMobileIcon className="w-4 h-4" />}
+                onPress={handleAddAuthenticator}
+                isLoading={busyAction === 'totp'}
+              >
+                {t('addAuthenticator')}
+              </Button>
+              <Button
+                color="primary"
+                variant="flat"
+                startContent={<KeyIcon className="w-4 h-4" />}
+                onPress={handleOpenSecurityKey}
+              >
+                {t('addSecurityKey')}
+              </Button>
+            </div>
+
+            {factors.length > 0 && (
+              <div className="flex items-center justify-between gap-4 rounded-lg bg-default-100 p-4">
+                <div className="flex items-center gap-3">
+                  <ShieldCheckIcon className="w-5 h-5 text-foreground/60" />
+                  <div>
+                    <p className="font-semibold text-foreground">{t('recoveryCodes')}</p>
+                    <p className="text-xs text-foreground/60">
+                      {t('recoveryCodesRemaining', { count: recoveryCodesRemaining })}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  startContent={<ArrowPathIcon className="w-4 h-4" />}
+                  onPress={handleRegenerate}
+                  isLoading={busyAction === 'recovery'}
+                >
+                  {t('regenerate')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardBody>
+
+      <Modal isOpen={!!totpEnrollment} onClose={() => setTotpEnrollment(null)} size="md">
+        <ModalContent>
+          <ModalHeader>{t('addAuthenticator')}</ModalHeader>
+          <ModalBody>
+            {totpEnrollment && (
+              <TotpEnrollment
+                otpauthUrl={totpEnrollment.otpauthUrl}
+                secret={totpEnrollment.secret}
+                code={totpCode}
+                onCodeChange={setTotpCode}
+                isDisabled={isConfirmingTotp}
+              />
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setTotpEnrollment(null)}>
+              {t('cancel')}
+            </Button>
+            <Button
+              color="primary"
+              onPress={handleConfirmAuthenticator}
+              isLoading={isConfirmingTotp}
+              isDisabled={totpCode.length !== 6}
+            >
+              {t('confirm')}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <Modal isOpen={isSecurityKeyOpen} onClose={() => setIsSecurityKeyOpen(false)} size="md">
+        <ModalContent>
+          <ModalHeader>{t('addSecurityKey')}</ModalHeader>
+          <ModalBody>
+            <Input
+              label={t('securityKeyName')}
+              placeholder={t('securityKeyNamePlaceholder')}
+              value={securityKeyName}
+              onValueChange={setSecurityKeyName}
+              variant="bordered"
+              maxLength={64}
+              autoFocus
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setIsSecurityKeyOpen(false)}>
+              {t('cancel')}
+            </Button>
+            <Button
+              color="primary"
+              onPress={handleRegisterSecurityKey}
+              isLoading={isRegistering}
+              isDisabled={!securityKeyName.trim()}
+            >
+              {t('register')}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <Modal isOpen={!!recoveryCodes} onClose={() => setRecoveryCodes(null)} size="md">
+        <ModalContent>
+          <ModalHeader>{tAuth('recoveryCodesTitle')}</ModalHeader>
+          <ModalBody>{recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}</ModalBody>
+          <ModalFooter>
+            <Button color="primary" onPress={() => setRecoveryCodes(null)}>
+              {tAuth('continue')}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </Card>
+  );
+}
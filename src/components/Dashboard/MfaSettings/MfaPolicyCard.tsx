@@ -0,0 +1,149 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button, Card, CardBody, Checkbox, CheckboxGroup, Select, SelectItem } from '@heroui/react';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { useRolePermissions } from '@/hooks/useRolePermissions';
+import type { MfaPolicy } from '@/lib/mfa/policy';
+import { ROLE_HIERARCHY, type Role } from '@/utils/rbac/permissions';
+
+type PolicyMode = 'off' | 'all' | 'roles';
+
+function toMode(requiredRoles: Role[]): PolicyMode {
+  if (requiredRoles.length === 0) {
+    return 'off';
+  }
+  return requiredRoles.length === ROLE_HIERARCHY.length ? 'all' : 'roles';
+}
+
+/**
+ * Roles of the account whose users must use a second factor
+ */
+export function MfaPolicyCard() {
+  const t = useTranslations('dashboard.settings.mfaPolicy');
+  const { canManage } = useRolePermissions();
+  const canEdit = canManage('settings');
+
+  const [mode, setMode] = useState<PolicyMode>('off');
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/dashboard/mfa-policy');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load MFA policy');
+      }
+
+      const { policy }: { policy: MfaPolicy } = await response.json();
+      setMode(toMode(policy.requiredRoles));
+      setRoles(policy.requiredRoles);
+    } catch (error) {
+      console.error('Load MFA policy error:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const handleSave = async () => {
+    const requiredRoles = mode === 'off' ? [] : mode === 'all' ? ROLE_HIERARCHY : roles;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch('/api/dashboard/mfa-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiredRoles }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('saveError'));
+      }
+
+      setMode(toMode(data.policy.requiredRoles));
+      setRoles(data.policy.requiredRoles);
+      toast.success(t('saved'));
+    } catch (error) {
+      console.error('Save MFA policy error:', error);
+      toast.error(error instanceof Error ? error.message : t('saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200 mt-6">
+      <CardBody className="p-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+          <p className="text-sm text-foreground/70">{t('description')}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Select
+              label={t('mode')}
+              selectedKeys={[mode]}
+              onSelectionChange={(keys) => setMode(Array.from(keys)[0] as PolicyMode)}
+              variant="bordered"
+              isDisabled={!canEdit}
+            >
+              <SelectItem key="off">{t('modeOff')}</SelectItem>
+              <SelectItem key="all">{t('modeAll')}</SelectItem>
+              <SelectItem key="roles">{t('modeRoles')}</SelectItem>
+            </Select>
+
+            {mode === 'roles' && (
+              <CheckboxGroup
+                label={t('roles')}
+                orientation="horizontal"
+                value={roles}
+                onValueChange={(values) => setRoles(values as Role[])}
+                isDisabled={!canEdit}
+              >
+                {ROLE_HIERARCHY.map((role) => (
+                  <Checkbox key={role} value={role}>
+                    <span className="capitalize">{role}</span>
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            )}
+
+            <p className="text-sm text-foreground/60">{t('note')}</p>
+
+            {canEdit ? (
+              <Button
+                color="primary"
+                startContent={<ShieldCheckIcon className="w-4 h-4" />}
+                onPress={handleSave}
+                isLoading={isSaving}
+                isDisabled={mode === 'roles' && roles.length === 0}
+              >
+                {t('save')}
+              </Button>
+            ) : (
+              <p className="text-sm text-foreground/60">{t('ownerOnly')}</p>
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Button } from '@heroui/react';
+import { ArrowDownTrayIcon, ClipboardIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+/**
+ * One-time display of freshly generated recovery codes, with copy and download
+ */
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const t = useTranslations('auth.mfa');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success(t('copied'));
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'bolt-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-foreground/70">{t('saveRecoveryCodes')}</p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-default-100 p-4">
+        {codes.map((code) => (
+          <code key={code} className="text-sm font-mono text-center">
+            {code}
+          </code>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<ClipboardIcon className="w-4 h-4" />}
+          onPress={handleCopy}
+        >
+          {t('copy')}
+        </Button>
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<ArrowDownTrayIcon className="w-4 h-4" />}
+          onPress={handleDownload}
+        >
+          {t('download')}
+        </Button>
+      </div>
+    </div>
+  );
+}
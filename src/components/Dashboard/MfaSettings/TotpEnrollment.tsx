@@ -0,0 +1,55 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { QRCodeSVG } from 'qrcode.react';
+import { OtpInput } from '@/components/Auth/OtpInput';
+
+interface TotpEnrollmentProps {
+  /** otpauth:// URI of the new authenticator app factor */
+  otpauthUrl: string;
+  /** Base32 secret, for apps that cannot scan */
+  secret: string;
+  code: string;
+  onCodeChange: (code: string) => void;
+  isDisabled?: boolean;
+  isInvalid?: boolean;
+}
+
+/**
+ * QR code, manual key and code input to add an authenticator app
+ */
+export function TotpEnrollment({
+  otpauthUrl,
+  secret,
+  code,
+  onCodeChange,
+  isDisabled = false,
+  isInvalid = false,
+}: TotpEnrollmentProps) {
+  const t = useTranslations('auth.mfa');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-foreground/70">{t('scanQr')}</p>
+      <div className="flex justify-center">
+        <div className="rounded-lg bg-white p-3">
+          <QRCodeSVG value={otpauthUrl} size={176} />
+        </div>
+      </div>
+      <div className="text-center">
+        <p className="text-xs text-foreground/60">{t('manualEntry')}</p>
+        <code className="text-sm font-mono break-all select-all">
+          {secret.match(/.{1,4}/g)?.join(' ')}
+        </code>
+      </div>
+      <OtpInput
+        value={code}
+        onChange={onCodeChange}
+        isDisabled={isDisabled}
+        isInvalid={isInvalid}
+        label={t('codeLabel')}
+        autoFocus={false}
+      />
+    </div>
+  );
+}
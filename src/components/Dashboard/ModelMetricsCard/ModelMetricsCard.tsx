@@ -62,7 +62,7 @@ export function ModelMetricsCard({ metrics, isLoading = false }: ModelMetricsCar
 
   const isTrained = metrics.trainingSize > 0;
   const lastTrainedText = metrics.lastTrained
-    ? formatRelativeTime(metrics.lastTrained.toISOString())
+    ? formatRelativeTime(new Date(metrics.lastTrained).toISOString())
     : 'Never';
 
   return (
@@ -75,13 +75,20 @@ export function ModelMetricsCard({ metrics, isLoading = false }: ModelMetricsCar
         <CardBody className="p-6">
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-xl font-bold text-foreground">Model Performance</h3>
-            <Chip
-              color={isTrained ? 'success' : 'default'}
-              size="sm"
-              variant="flat"
-            >
-              {isTrained ? 'Trained' : 'Not Trained'}
-            </Chip>
+            <div className="flex items-center gap-2">
+              {metrics.version && (
+                <Chip size="sm" variant="flat">
+                  {metrics.version}
+                </Chip>
+              )}
+              <Chip
+                color={isTrained ? 'success' : 'default'}
+                size="sm"
+                variant="flat"
+              >
+                {isTrained ? 'Trained' : 'Not Trained'}
+              </Chip>
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4 mb-4">
@@ -116,6 +123,23 @@ export function ModelMetricsCard({ metrics, isLoading = false }: ModelMetricsCar
               <span className="text-foreground/70">Training Size</span>
               <span className="font-semibold text-foreground">{metrics.trainingSize.toLocaleString()} sessions</span>
             </div>
+            {metrics.holdoutSize !== undefined && (
+              <div className="flex items-center justify-between text-sm mt-2">
+                <span className="text-foreground/70">Holdout Size</span>
+                <span className="font-semibold text-foreground">{metrics.holdoutSize.toLocaleString()} sessions</span>
+              </div>
+            )}
+            {metrics.auc !== undefined && (
+              <div className="flex items-center justify-between text-sm mt-2">
+                <span className="text-foreground/70">AUC</span>
+                <span className="font-semibold text-foreground">
+                  {metrics.auc.toFixed(3)}
+                  {metrics.baseline && (
+                    <span className="font-normal text-foreground/60"> (v1: {metrics.baseline.auc.toFixed(3)})</span>
+                  )}
+                </span>
+              </div>
+            )}
             <div className="flex items-center justify-between text-sm mt-2">
               <span className="text-foreground/70">Last Trained</span>
               <span className="text-foreground">{lastTrainedText}</span>
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button, Select, SelectItem } from '@heroui/react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { formatDate } from '@/utils/formatters';
+import type { AbandonmentModelSummary } from '@/lib/ai/models/model-registry';
+
+interface ModelVersionSelectProps {
+  value: string;
+  onChange: (version: string) => void;
+}
+
+/**
+ * Prediction model version picker (built-in, latest or a trained version)
+ * with a button to train a new version
+ */
+export function ModelVersionSelect({ value, onChange }: ModelVersionSelectProps) {
+  const t = useTranslations('dashboard.boltx.settings.advanced');
+  const [isTraining, setIsTraining] = useState(false);
+
+  const { data, refetch } = useApi<{ models: AbandonmentModelSummary[] }>('/api/boltx/models', {
+    cacheKey: 'boltx_models',
+    cacheTTL: 1,
+  });
+  const models = data?.models || [];
+
+  const options = [
+    { key: 'v1', label: t('versions.builtIn') },
+    { key: 'latest', label: t('versions.latest') },
+    ...models.map((model) => ({
+      key: model.version,
+      label: t('versions.trained', {
+        version: model.version,
+        date: formatDate(String(model.metrics.lastTrained)),
+        auc: (model.metrics.auc ?? 0).toFixed(3),
+        sessions: model.metrics.trainingSize,
+      }),
+    })),
+  ];
+  // Keep a configured version visible even if it is no longer listed
+  if (!options.some((option) => option.key === value)) {
+    options.push({ key: value, label: value });
+  }
+
+  const handleTrain = async () => {
+    setIsTraining(true);
+    try {
+      const response = await fetch('/api/boltx/models', { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || t('trainError'));
+      }
+
+      toast.success(t('trainSuccess', { version: result.model.version }));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('trainError'));
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 md:items-start">
+      <Select
+        label={t('modelVersion')}
+        selectedKeys={[value]}
+        onSelectionChange={(keys) => {
+          const version = Array.from(keys)[0] as string | undefined;
+          if (version) onChange(version);
+        }}
+        variant="bordered"
+        size="lg"
+        description={t('modelVersionDesc')}
+        className="flex-1"
+      >
+        {options.map((option) => (
+          <SelectItem key={option.key}>{option.label}</SelectItem>
+        ))}
+      </Select>
+      <Button
+        variant="flat"
+        size="lg"
+        startContent={!isTraining && <ArrowPathIcon className="w-5 h-5" />}
+        onPress={handleTrain}
+        isLoading={isTraining}
+      >
+        {t('train')}
+      </Button>
+    </div>
+  );
+}
@@ -28,16 +28,19 @@ export function PlanGuard({
   requiredPlan = 'enterprise',
   fallback,
 }: PlanGuardProps) {
-  const { hasEnterpriseAccess, isLoading, currentPlan } = usePlanAccess();
+  const { hasEnterpriseAccess, isLoading, currentPlan, isSuspended } = usePlanAccess();
   const t = useTranslations('dashboard.boltx');
+  const tDunning = useTranslations('dashboard.plans.dunning');
 
   if (isLoading) {
     return <LoadingState />;
   }
 
   // Check if user has required plan access
+  // A subscription suspended for failed payments has no plan access until paid
   const hasAccess =
-    requiredPlan === 'enterprise' ? hasEnterpriseAccess : currentPlan === requiredPlan;
+    !isSuspended &&
+    (requiredPlan === 'enterprise' ? hasEnterpriseAccess : currentPlan === requiredPlan);
 
   if (!hasAccess) {
     return (
@@ -65,12 +68,14 @@ export function PlanGuard({
               {/* Message */}
               <div className="space-y-2">
                 <h3 className="text-xl font-semibold text-foreground">
-                  {t('enterpriseRequired')}
+                  {isSuspended ? tDunning('suspendedTitle') : t('enterpriseRequired')}
                 </h3>
                 <p className="text-foreground/70 max-w-md">
-                  {requiredPlan === 'enterprise'
-                    ? t('enterpriseRequired')
-                    : `This feature requires a ${requiredPlan} plan.`}
+                  {isSuspended
+                    ? tDunning('suspendedMessage')
+                    : requiredPlan === 'enterprise'
+                      ? t('enterpriseRequired')
+                      : `This feature requires a ${requiredPlan} plan.`}
                 </p>
               </div>
 
@@ -81,7 +86,7 @@ export function PlanGuard({
                   size="lg"
                   className="bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold"
                 >
-                  {t('upgradeButton')}
+                  {isSuspended ? tDunning('updatePaymentMethod') : t('upgradeButton')}
                 </Button>
               </Link>
             </div>
@@ -0,0 +1,70 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Card, CardBody, Button } from '@heroui/react';
+import { Subscription } from '@/utils/plans';
+
+interface DunningBannerProps {
+  subscription: Subscription;
+  onUpdatePaymentMethod: () => void;
+}
+
+const STATE_STYLES = {
+  past_due: 'border-warning/30 bg-warning/10 text-warning',
+  grace:
+    'border-orange-300 dark:border-orange-800 bg-orange-50 dark:bg-orange-950/30 text-orange-600 dark:text-orange-400',
+  suspended: 'border-danger/30 bg-danger/10 text-danger',
+} as const;
+
+/**
+ * Banner shown while a subscription is in dunning (failed payment)
+ */
+export function DunningBanner({ subscription, onUpdatePaymentMethod }: DunningBannerProps) {
+  const t = useTranslations('dashboard.plans.dunning');
+  const state = subscription.dunning_state;
+
+  if (!state) {
+    return null;
+  }
+
+  const nextDate = subscription.next_dunning_at
+    ? new Date(subscription.next_dunning_at).toLocaleDateString()
+    : null;
+
+  const title = {
+    past_due: t('pastDueTitle'),
+    grace: t('graceTitle'),
+    suspended: t('suspendedTitle'),
+  }[state];
+
+  const message = {
+    past_due: t('pastDueMessage'),
+    grace: t('graceMessage', { date: nextDate || '—' }),
+    suspended: t('suspendedMessage'),
+  }[state];
+
+  return (
+    <Card className={`border mb-8 ${STATE_STYLES[state]}`}>
+      <CardBody className="p-6">
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold mb-1">{title}</h2>
+            <p className="text-sm text-foreground/80">{message}</p>
+            {state === 'past_due' && nextDate && (
+              <p className="text-sm text-foreground/70 mt-1">
+                {t('nextRetry', { date: nextDate })}
+              </p>
+            )}
+          </div>
+          <Button
+            color={state === 'suspended' ? 'danger' : 'warning'}
+            onPress={onUpdatePaymentMethod}
+            className="shrink-0"
+          >
+            {t('updatePaymentMethod')}
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { useTranslations } from 'next-intl';
+import { Modal, ModalContent, ModalHeader, ModalBody, Button } from '@heroui/react';
+import { loadStripe } from '@stripe/stripe-js';
+import { Elements, CardElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import { toast } from 'sonner';
+import { Subscription } from '@/utils/plans';
+import { getUserFriendlyErrorMessage } from '@/lib/payments/error-handler';
+
+// Initialize Stripe
+const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY || '');
+
+interface UpdatePaymentMethodModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subscription: Subscription;
+  onSuccess?: () => void;
+}
+
+interface UpdatePaymentMethodFormProps {
+  subscription: Subscription;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * Card form: the card is tokenized by Stripe and only its payment method ID
+ * is sent to our API
+ */
+function UpdatePaymentMethodForm({
+  subscription,
+  onClose,
+  onSuccess,
+}: UpdatePaymentMethodFormProps) {
+  const t = useTranslations('dashboard.plans.dunning');
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!stripe || !elements) {
+      setError('Stripe not loaded');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const cardElement = elements.getElement(CardElement);
+      if (!cardElement) {
+        throw new Error('Card element not found');
+      }
+
+      const { error: cardError, paymentMethod } = await stripe.createPaymentMethod({
+        type: 'card',
+        card: cardElement,
+      });
+
+      if (cardError || !paymentMethod) {
+        throw new Error(cardError?.message || 'Invalid card');
+      }
+
+      const response = await fetch(
+        `/api/dashboard/subscriptions/${subscription.id}/payment-method`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ payment_method_id: paymentMethod.id }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || t('toast.error'));
+      }
+
+      if (data.recovered) {
+        toast.success(t('toast.restored'));
+      } else if (data.payment_error) {
+        toast.warning(t('toast.paymentFailed', { error: data.payment_error }));
+      } else {
+        toast.success(t('toast.updated'));
+      }
+
+      onSuccess?.();
+      onClose();
+    } catch (err: any) {
+      console.error('❌ [DEBUG] Error updating payment method:', err);
+      const userMessage = getUserFriendlyErrorMessage(err);
+      setError(userMessage);
+      toast.error(userMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-foreground/70">{t('modalDescription')}</p>
+
+      <div>
+        <label className="block text-sm font-medium text-foreground/80 mb-2">
+          {t('cardLabel')}
+        </label>
+        <div className="border border-default-300 rounded-lg p-4 bg-background">
+          <CardElement
+            options={{
+              style: {
+                base: {
+                  fontSize: '16px',
+                  color: '#424770',
+                  '::placeholder': {
+                    color: '#aab7c4',
+                  },
+                },
+                invalid: {
+                  color: '#9e2146',
+                },
+              },
+            }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/20 text-danger px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-4 pb-2">
+        <Button
+          type="button"
+          variant="light"
+          onPress={onClose}
+          disabled={isSaving}
+          className="flex-1"
+        >
+          {t('cancel')}
+        </Button>
+        <Button
+          type="submit"
+          color="primary"
+          disabled={isSaving || !stripe}
+          isLoading={isSaving}
+          className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white"
+        >
+          {isSaving ? t('saving') : t('save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Modal to replace the payment method of a subscription in dunning
+ */
+export function UpdatePaymentMethodModal({
+  isOpen,
+  onClose,
+  subscription,
+  onSuccess,
+}: UpdatePaymentMethodModalProps) {
+  const t = useTranslations('dashboard.plans.dunning');
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">{t('modalTitle')}</ModalHeader>
+        <ModalBody>
+          {process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY ? (
+            <Elements stripe={stripePromise}>
+              <UpdatePaymentMethodForm
+                subscription={subscription}
+                onClose={onClose}
+                onSuccess={onSuccess}
+              />
+            </Elements>
+          ) : (
+            <div className="text-center text-red-600 py-4">{t('stripeNotConfigured')}</div>
+          )}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+}
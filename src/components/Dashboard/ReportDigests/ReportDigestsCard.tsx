@@ -0,0 +1,303 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Select,
+  SelectItem,
+  Switch,
+} from '@heroui/react';
+import { PaperAirplaneIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type {
+  DigestFrequency,
+  DigestLocale,
+  DigestMetric,
+  ReportDigest,
+} from '@/lib/reports/digests';
+
+const FREQUENCIES: DigestFrequency[] = ['daily', 'weekly', 'monthly'];
+const METRICS: DigestMetric[] = [
+  'conversion_rate',
+  'revenue',
+  'avg_order_value',
+  'abandonment_rate',
+  'insights',
+];
+const LOCALES: DigestLocale[] = ['en', 'pt-BR', 'es'];
+
+interface DigestDraft {
+  enabled: boolean;
+  metrics: DigestMetric[];
+  locale: DigestLocale;
+}
+
+/**
+ * Email report digests of the current user: one subscription per frequency
+ */
+export function ReportDigestsCard() {
+  const t = useTranslations('dashboard.settings.digests');
+  const currentLocale = useLocale();
+
+  const [digests, setDigests] = useState<ReportDigest[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<DigestFrequency, DigestDraft>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const defaultLocale: DigestLocale = LOCALES.includes(currentLocale as DigestLocale)
+    ? (currentLocale as DigestLocale)
+    : 'en';
+
+  const loadDigests = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/dashboard/profile/digests');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load report digests');
+      }
+
+      const data: { digests: ReportDigest[] } = await response.json();
+      setDigests(data.digests);
+      setDrafts({});
+    } catch (error) {
+      console.error('Load report digests error:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadDigests();
+  }, [loadDigests]);
+
+  const getDraft = (frequency: DigestFrequency): DigestDraft => {
+    const digest = digests.find((item) => item.frequency === frequency);
+    return (
+      drafts[frequency] ||
+      (digest
+        ? { enabled: digest.enabled, metrics: digest.metrics, locale: digest.locale }
+        : { enabled: false, metrics: METRICS, locale: defaultLocale })
+    );
+  };
+
+  const updateDraft = (frequency: DigestFrequency, changes: Partial<DigestDraft>) => {
+    setDrafts((current) => ({ ...current, [frequency]: { ...getDraft(frequency), ...changes } }));
+  };
+
+  const handleSave = async (frequency: DigestFrequency) => {
+    try {
+      setPending(`save-${frequency}`);
+      const response = await fetch('/api/dashboard/profile/digests', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ frequency, ...getDraft(frequency) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('saveError'));
+      }
+
+      toast.success(t('saved'));
+      await loadDigests();
+    } catch (error) {
+      console.error('Save report digest error:', error);
+      toast.error(error instanceof Error ? error.message : t('saveError'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleSendNow = async (digest: ReportDigest) => {
+    try {
+      setPending(`send-${digest.frequency}`);
+      const response = await fetch(`/api/dashboard/profile/digests/${digest.id}/send`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('sendError'));
+      }
+
+      toast.success(t('sent'));
+    } catch (error) {
+      console.error('Send report digest error:', error);
+      toast.error(error instanceof Error ? error.message : t('sendError'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDelete = async (digest: ReportDigest) => {
+    try {
+      setPending(`delete-${digest.frequency}`);
+      const response = await fetch(`/api/dashboard/profile/digests/${digest.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('deleteError'));
+      }
+
+      toast.success(t('deleted'));
+      await loadDigests();
+    } catch (error) {
+      console.error('Delete report digest error:', error);
+      toast.error(error instanceof Error ? error.message : t('deleteError'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(currentLocale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200 mt-6">
+      <CardBody className="p-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+          <p className="text-sm text-foreground/70">{t('description')}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {FREQUENCIES.map((frequency) => {
+              const digest = digests.find((item) => item.frequency === frequency);
+              const draft = getDraft(frequency);
+
+              return (
+                <div key={frequency} className="rounded-lg border border-default p-4 space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-foreground">
+                          {t(`frequencies.${frequency}`)}
+                        </p>
+                        {digest?.enabled && (
+                          <Chip size="sm" color="success" variant="flat">
+                            {t('active')}
+                          </Chip>
+                        )}
+                      </div>
+                      <p className="text-sm text-foreground/70">
+                        {t(`frequencyDescriptions.${frequency}`)}
+                      </p>
+                    </div>
+                    <Switch
+                      isSelected={draft.enabled}
+                      onValueChange={(enabled) => updateDraft(frequency, { enabled })}
+                      aria-label={t(`frequencies.${frequency}`)}
+                    />
+                  </div>
+
+                  {draft.enabled && (
+                    <>
+                      <CheckboxGroup
+                        label={t('metrics')}
+                        orientation="horizontal"
+                        value={draft.metrics}
+                        onValueChange={(values) =>
+                          updateDraft(frequency, { metrics: values as DigestMetric[] })
+                        }
+                      >
+                        {METRICS.map((metric) => (
+                          <Checkbox key={metric} value={metric}>
+                            {t(`metricNames.${metric}`)}
+                          </Checkbox>
+                        ))}
+                      </CheckboxGroup>
+
+                      <Select
+                        label={t('language')}
+                        selectedKeys={[draft.locale]}
+                        onSelectionChange={(keys) =>
+                          updateDraft(frequency, { locale: Array.from(keys)[0] as DigestLocale })
+                        }
+                        variant="bordered"
+                        className="max-w-xs"
+                      >
+                        {LOCALES.map((locale) => (
+                          <SelectItem key={locale}>{t(`languages.${locale}`)}</SelectItem>
+                        ))}
+                      </Select>
+                    </>
+                  )}
+
+                  {digest && (
+                    <div className="text-sm text-foreground/60 space-y-1">
+                      {digest.enabled && (
+                        <p>{t('nextRun', { date: formatDate(digest.next_run_at) })}</p>
+                      )}
+                      {digest.last_sent_at && (
+                        <p>{t('lastSent', { date: formatDate(digest.last_sent_at) })}</p>
+                      )}
+                      {digest.last_error && (
+                        <p className="text-danger">
+                          {t('lastError', { error: digest.last_error })}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {(digest || draft.enabled) && (
+                      <Button
+                        color="primary"
+                        size="sm"
+                        onPress={() => handleSave(frequency)}
+                        isLoading={pending === `save-${frequency}`}
+                        isDisabled={draft.enabled && draft.metrics.length === 0}
+                      >
+                        {t('save')}
+                      </Button>
+                    )}
+                    {digest && (
+                      <>
+                        <Button
+                          variant="flat"
+                          size="sm"
+                          startContent={<PaperAirplaneIcon className="w-4 h-4" />}
+                          onPress={() => handleSendNow(digest)}
+                          isLoading={pending === `send-${frequency}`}
+                        >
+                          {t('sendNow')}
+                        </Button>
+                        <Button
+                          color="danger"
+                          variant="light"
+                          size="sm"
+                          startContent={<TrashIcon className="w-4 h-4" />}
+                          onPress={() => handleDelete(digest)}
+                          isLoading={pending === `delete-${frequency}`}
+                        >
+                          {t('remove')}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
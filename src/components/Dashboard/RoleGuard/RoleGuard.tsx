@@ -3,10 +3,11 @@
 import { ReactNode } from 'react';
 import { useRolePermissions } from '@/hooks/useRolePermissions';
 import { Card, CardBody } from '@heroui/react';
+import { isRoleAtLeast, type Role } from '@/utils/rbac/permissions';
 
 interface RoleGuardProps {
   children: ReactNode;
-  requiredRole?: 'owner' | 'admin' | 'editor' | 'viewer';
+  requiredRole?: Role;
   requiredPermission?: {
     resource: string;
     action: 'read' | 'write' | 'delete' | 'manage';
@@ -24,14 +25,7 @@ export function RoleGuard({
 
   // Check role requirement
   if (requiredRole) {
-    const roleHierarchy: Record<string, number> = {
-      viewer: 1,
-      editor: 2,
-      admin: 3,
-      owner: 4,
-    };
-
-    if (roleHierarchy[role] < roleHierarchy[requiredRole]) {
+    if (!isRoleAtLeast(role, requiredRole)) {
       return (
         fallback || (
           <Card className="border-2 border-red-300 bg-red-50">
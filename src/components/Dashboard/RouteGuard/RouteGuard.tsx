@@ -32,7 +32,7 @@ export function RouteGuard({
 }: RouteGuardProps) {
   const pathname = usePathname();
   const router = useRouter();
-  const { canAccessRoute, isLoading, plan } = usePlanAccess();
+  const { canAccessRoute, isLoading, plan, isSuspended } = usePlanAccess();
 
   // Use provided route or current pathname
   const routeToCheck = route || pathname;
@@ -81,12 +81,14 @@ export function RouteGuard({
               {/* Message */}
               <div className="space-y-2">
                 <h3 className="text-xl font-semibold text-foreground">
-                  Feature Not Available
+                  {isSuspended ? 'Subscription Suspended' : 'Feature Not Available'}
                 </h3>
                 <p className="text-foreground/70 max-w-md">
-                  {plan
-                    ? `This feature is not available in your ${plan.name} plan. Please upgrade to access this feature.`
-                    : 'This feature requires an active subscription. Please subscribe to a plan to access this feature.'}
+                  {isSuspended
+                    ? 'Your subscription was suspended because its payment failed. Update your payment method to restore access.'
+                    : plan
+                      ? `This feature is not available in your ${plan.name} plan. Please upgrade to access this feature.`
+                      : 'This feature requires an active subscription. Please subscribe to a plan to access this feature.'}
                 </p>
               </div>
 
@@ -97,7 +99,7 @@ export function RouteGuard({
                   size="lg"
                   className="bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold"
                 >
-                  View Plans
+                  {isSuspended ? 'Update Payment Method' : 'View Plans'}
                 </Button>
               </Link>
             </div>
@@ -0,0 +1,85 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Chip } from '@heroui/react';
+import type { BoltGuardDryRunResult } from '@/lib/boltguard/rule-runner';
+import { formatNumber } from '@/utils/formatters';
+
+const SEVERITY_COLORS = {
+  low: 'primary',
+  medium: 'warning',
+  high: 'danger',
+  critical: 'danger',
+} as const;
+
+interface BoltGuardDryRunResultsProps {
+  result: BoltGuardDryRunResult;
+}
+
+export function BoltGuardDryRunResults({ result }: BoltGuardDryRunResultsProps) {
+  const t = useTranslations('dashboard.security.rules.dryRunResults');
+
+  return (
+    <div className="rounded-lg border border-default-200 p-4 space-y-4">
+      <div>
+        <p className="font-semibold text-foreground">{t('title')}</p>
+        <p className="text-sm text-foreground/60">
+          {t('summary', {
+            transactions: formatNumber(result.transactionsEvaluated),
+            start: new Date(result.period.start).toLocaleDateString(),
+            end: new Date(result.period.end).toLocaleDateString(),
+          })}
+        </p>
+        {result.truncated && <p className="text-sm text-warning mt-1">{t('truncated')}</p>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <p className="text-xs text-foreground/60">{t('flagged')}</p>
+          <p className="text-lg font-semibold">{formatNumber(result.transactions.flagged)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-foreground/60">{t('scaRequired')}</p>
+          <p className="text-lg font-semibold">{formatNumber(result.transactions.scaRequired)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-foreground/60">{t('blocked')}</p>
+          <p className="text-lg font-semibold">{formatNumber(result.transactions.blocked)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {result.rules.map((rule) => (
+          <div
+            key={rule.ruleId ?? rule.index}
+            className="flex items-center justify-between text-sm"
+          >
+            <span className="text-foreground/80">{rule.name}</span>
+            <span className="font-medium">{t('hits', { count: rule.hits })}</span>
+          </div>
+        ))}
+      </div>
+
+      {result.alerts.length > 0 ? (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-foreground/80">{t('sampleAlerts')}</p>
+          {result.alerts.map((alert) => (
+            <div key={alert.id} className="flex items-start gap-2 text-sm">
+              <Chip size="sm" variant="flat" color={SEVERITY_COLORS[alert.severity]}>
+                {alert.severity.toUpperCase()}
+              </Chip>
+              <div className="flex-1">
+                <p className="text-foreground/80">{alert.description}</p>
+                <p className="text-xs text-foreground/60">
+                  {new Date(alert.timestamp).toLocaleString()}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-foreground/60">{t('noHits')}</p>
+      )}
+    </div>
+  );
+}
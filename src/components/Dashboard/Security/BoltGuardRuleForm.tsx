@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Switch,
+  Select,
+  SelectItem,
+} from '@heroui/react';
+import { toast } from 'sonner';
+import type { BoltGuardRule, BoltGuardRuleType } from '@/lib/boltguard/rules';
+import type { BoltGuardDryRunResult } from '@/lib/boltguard/rule-runner';
+import { BoltGuardDryRunResults } from './BoltGuardDryRunResults';
+
+const RULE_TYPES: BoltGuardRuleType[] = ['velocity', 'amount_anomaly', 'geo_mismatch'];
+const SEVERITIES: BoltGuardRule['severity'][] = ['low', 'medium', 'high', 'critical'];
+const ACTIONS: BoltGuardRule['action'][] = ['flag', 'require_sca', 'block'];
+const VELOCITY_KEYS = ['card', 'email', 'ip'] as const;
+
+const DEFAULT_CONFIGS = {
+  velocity: { key: 'card', maxTransactions: 5, windowMinutes: 60 },
+  amount_anomaly: { zScoreThreshold: 3, lookbackDays: 30, minSamples: 20 },
+  geo_mismatch: { exemptCountries: [] },
+} as const;
+
+function createRule(type: BoltGuardRuleType, base?: Partial<BoltGuardRule>): BoltGuardRule {
+  return {
+    name: '',
+    severity: 'medium',
+    action: 'flag',
+    enabled: true,
+    ...base,
+    type,
+    config: { ...DEFAULT_CONFIGS[type] },
+  } as BoltGuardRule;
+}
+
+interface BoltGuardRuleFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (rule: BoltGuardRule) => Promise<void>;
+  onDryRun: (rules: BoltGuardRule[]) => Promise<BoltGuardDryRunResult>;
+  rule?: BoltGuardRule;
+}
+
+export function BoltGuardRuleForm({
+  isOpen,
+  onClose,
+  onSave,
+  onDryRun,
+  rule,
+}: BoltGuardRuleFormProps) {
+  const t = useTranslations('dashboard.security.rules');
+  const [formData, setFormData] = useState<BoltGuardRule>(createRule('velocity'));
+  const [exemptCountriesInput, setExemptCountriesInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<BoltGuardDryRunResult | null>(null);
+
+  useEffect(() => {
+    const initial = rule || createRule('velocity');
+    setFormData(initial);
+    setExemptCountriesInput(
+      initial.type === 'geo_mismatch' ? initial.config.exemptCountries.join(', ') : ''
+    );
+    setDryRunResult(null);
+  }, [rule, isOpen]);
+
+  const setConfigValue = (key: string, value: unknown) => {
+    setFormData({ ...formData, config: { ...formData.config, [key]: value } } as BoltGuardRule);
+    setDryRunResult(null);
+  };
+
+  const buildRule = (): BoltGuardRule => {
+    if (formData.type !== 'geo_mismatch') {
+      return formData;
+    }
+    return {
+      ...formData,
+      config: {
+        exemptCountries: exemptCountriesInput
+          .split(',')
+          .map((code) => code.trim().toUpperCase())
+          .filter(Boolean),
+      },
+    };
+  };
+
+  const handleDryRun = async () => {
+    setIsRunning(true);
+    try {
+      setDryRunResult(
+        await onDryRun([{ ...buildRule(), name: formData.name || t('form.draftName') }])
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.dryRunError'));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error(t('form.nameRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(buildRule());
+      onClose();
+      toast.success(t('toast.saved'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberInput = (key: string, value: number, label: string, description?: string) => (
+    <Input
+      type="number"
+      label={label}
+      description={description}
+      value={String(value)}
+      onValueChange={(input) => setConfigValue(key, Number(input) || 0)}
+      variant="bordered"
+    />
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader>{rule ? t('form.editTitle') : t('form.createTitle')}</ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <Input
+              label={t('form.name')}
+              value={formData.name}
+              onValueChange={(value) => setFormData({ ...formData, name: value })}
+              variant="bordered"
+              isRequired
+            />
+
+            <Select
+              label={t('form.type')}
+              selectedKeys={[formData.type]}
+              onSelectionChange={(keys) => {
+                const type = Array.from(keys)[0] as BoltGuardRuleType | undefined;
+                if (type && type !== formData.type) {
+                  setFormData(createRule(type, formData));
+                  setExemptCountriesInput('');
+                  setDryRunResult(null);
+                }
+              }}
+              variant="bordered"
+              isDisabled={!!rule}
+              description={rule ? t('form.typeLocked') : t(`types.${formData.type}.description`)}
+            >
+              {RULE_TYPES.map((type) => (
+                <SelectItem key={type}>{t(`types.${type}.label`)}</SelectItem>
+              ))}
+            </Select>
+
+            {formData.type === 'velocity' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Select
+                  label={t('form.velocityKey')}
+                  selectedKeys={[formData.config.key]}
+                  onSelectionChange={(keys) => {
+                    const key = Array.from(keys)[0];
+                    if (key) setConfigValue('key', key);
+                  }}
+                  variant="bordered"
+                >
+                  {VELOCITY_KEYS.map((key) => (
+                    <SelectItem key={key}>{t(`velocityKeys.${key}`)}</SelectItem>
+                  ))}
+                </Select>
+                {numberInput(
+                  'maxTransactions',
+                  formData.config.maxTransactions,
+                  t('form.maxTransactions')
+                )}
+                {numberInput(
+                  'windowMinutes',
+                  formData.config.windowMinutes,
+                  t('form.windowMinutes')
+                )}
+              </div>
+            )}
+
+            {formData.type === 'amount_anomaly' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {numberInput(
+                  'zScoreThreshold',
+                  formData.config.zScoreThreshold,
+                  t('form.zScoreThreshold'),
+                  t('form.zScoreThresholdHelp')
+                )}
+                {numberInput('lookbackDays', formData.config.lookbackDays, t('form.lookbackDays'))}
+                {numberInput(
+                  'minSamples',
+                  formData.config.minSamples,
+                  t('form.minSamples'),
+                  t('form.minSamplesHelp')
+                )}
+              </div>
+            )}
+
+            {formData.type === 'geo_mismatch' && (
+              <Input
+                label={t('form.exemptCountries')}
+                description={t('form.exemptCountriesHelp')}
+                placeholder="US, CA"
+                value={exemptCountriesInput}
+                onValueChange={(value) => {
+                  setExemptCountriesInput(value);
+                  setDryRunResult(null);
+                }}
+                variant="bordered"
+              />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label={t('form.severity')}
+                selectedKeys={[formData.severity]}
+                onSelectionChange={(keys) => {
+                  const severity = Array.from(keys)[0] as BoltGuardRule['severity'] | undefined;
+                  if (severity) setFormData({ ...formData, severity });
+                }}
+                variant="bordered"
+              >
+                {SEVERITIES.map((severity) => (
+                  <SelectItem key={severity}>{t(`severities.${severity}`)}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                label={t('form.action')}
+                selectedKeys={[formData.action]}
+                onSelectionChange={(keys) => {
+                  const action = Array.from(keys)[0] as BoltGuardRule['action'] | undefined;
+                  if (action) setFormData({ ...formData, action });
+                }}
+                variant="bordered"
+                description={t(`actions.${formData.action}.description`)}
+              >
+                {ACTIONS.map((action) => (
+                  <SelectItem key={action}>{t(`actions.${action}.label`)}</SelectItem>
+                ))}
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('form.enabled')}</p>
+                <p className="text-sm text-foreground/70">{t('form.enabledHelp')}</p>
+              </div>
+              <Switch
+                isSelected={formData.enabled}
+                onValueChange={(value) => setFormData({ ...formData, enabled: value })}
+              />
+            </div>
+
+            {dryRunResult && <BoltGuardDryRunResults result={dryRunResult} />}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="flat" onPress={handleDryRun} isLoading={isRunning} className="mr-auto">
+            {t('dryRun')}
+          </Button>
+          <Button variant="light" onPress={onClose}>
+            {t('form.cancel')}
+          </Button>
+          <Button color="primary" onPress={handleSubmit} isLoading={isSaving}>
+            {t('form.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
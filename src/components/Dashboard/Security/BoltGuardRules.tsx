@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Card,
+  CardBody,
+  Button,
+  Switch,
+  Chip,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  useDisclosure,
+} from '@heroui/react';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { BoltGuardRule } from '@/lib/boltguard/rules';
+import type { BoltGuardDryRunResult } from '@/lib/boltguard/rule-runner';
+import { BoltGuardRuleForm } from './BoltGuardRuleForm';
+import { BoltGuardDryRunResults } from './BoltGuardDryRunResults';
+
+const SEVERITY_COLORS = {
+  low: 'primary',
+  medium: 'warning',
+  high: 'danger',
+  critical: 'danger',
+} as const;
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+function describeConfig(rule: BoltGuardRule, t: ReturnType<typeof useTranslations>) {
+  switch (rule.type) {
+    case 'velocity':
+      return t('configSummary.velocity', {
+        max: rule.config.maxTransactions,
+        key: t(`velocityKeys.${rule.config.key}`),
+        minutes: rule.config.windowMinutes,
+      });
+    case 'amount_anomaly':
+      return t('configSummary.amount_anomaly', {
+        threshold: rule.config.zScoreThreshold,
+        days: rule.config.lookbackDays,
+      });
+    case 'geo_mismatch':
+      return rule.config.exemptCountries.length > 0
+        ? t('configSummary.geo_mismatchExempt', {
+            countries: rule.config.exemptCountries.join(', '),
+          })
+        : t('configSummary.geo_mismatch');
+  }
+}
+
+export function BoltGuardRules() {
+  const t = useTranslations('dashboard.security.rules');
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedRule, setSelectedRule] = useState<BoltGuardRule | undefined>();
+  const [dryRunResult, setDryRunResult] = useState<BoltGuardDryRunResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { data, isLoading, refetch } = useApi<{ rules: BoltGuardRule[] }>(
+    '/api/dashboard/security/rules',
+    { cacheKey: 'boltguard_rules', cacheTTL: 1, refetchOnMount: true }
+  );
+  const rules = data?.rules || [];
+
+  const runDryRun = (draftRules?: BoltGuardRule[]) =>
+    requestJson<BoltGuardDryRunResult>('/api/dashboard/security/rules/dry-run', {
+      method: 'POST',
+      body: JSON.stringify(draftRules ? { rules: draftRules } : {}),
+    });
+
+  const handleDryRunAll = async () => {
+    setIsRunning(true);
+    try {
+      setDryRunResult(await runDryRun());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.dryRunError'));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCreate = () => {
+    setSelectedRule(undefined);
+    onOpen();
+  };
+
+  const handleEdit = (rule: BoltGuardRule) => {
+    setSelectedRule(rule);
+    onOpen();
+  };
+
+  const handleSave = async (rule: BoltGuardRule) => {
+    const { id, createdAt: _createdAt, updatedAt: _updatedAt, type: _type, ...updates } = rule;
+
+    if (id) {
+      await requestJson(`/api/dashboard/security/rules/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      });
+    } else {
+      await requestJson('/api/dashboard/security/rules', {
+        method: 'POST',
+        body: JSON.stringify(rule),
+      });
+    }
+
+    setDryRunResult(null);
+    await refetch();
+  };
+
+  const handleToggle = async (rule: BoltGuardRule, enabled: boolean) => {
+    try {
+      await requestJson(`/api/dashboard/security/rules/${rule.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled }),
+      });
+      setDryRunResult(null);
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    }
+  };
+
+  const handleDelete = async (rule: BoltGuardRule) => {
+    if (!confirm(t('deleteConfirm', { name: rule.name }))) {
+      return;
+    }
+
+    try {
+      await requestJson(`/api/dashboard/security/rules/${rule.id}`, { method: 'DELETE' });
+      toast.success(t('toast.deleted'));
+      setDryRunResult(null);
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.deleteError'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+        <CardBody className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-semibold">{t('title')}</h3>
+              <p className="text-sm text-foreground/60">{t('subtitle')}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="flat"
+                onPress={handleDryRunAll}
+                isLoading={isRunning}
+                isDisabled={!rules.some((rule) => rule.enabled)}
+              >
+                {t('dryRunAll')}
+              </Button>
+              <Button
+                color="primary"
+                startContent={<PlusIcon className="w-5 h-5" />}
+                onPress={handleCreate}
+              >
+                {t('createRule')}
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Spinner size="md" />
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-foreground/60 mb-4">{t('empty')}</p>
+              <Button color="primary" onPress={handleCreate}>
+                {t('createFirst')}
+              </Button>
+            </div>
+          ) : (
+            <Table aria-label={t('title')}>
+              <TableHeader>
+                <TableColumn>{t('columns.name')}</TableColumn>
+                <TableColumn>{t('columns.condition')}</TableColumn>
+                <TableColumn>{t('columns.severity')}</TableColumn>
+                <TableColumn>{t('columns.action')}</TableColumn>
+                <TableColumn>{t('columns.enabled')}</TableColumn>
+                <TableColumn>{t('columns.actions')}</TableColumn>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <p className="font-semibold">{rule.name}</p>
+                      <p className="text-xs text-foreground/60">{t(`types.${rule.type}.label`)}</p>
+                    </TableCell>
+                    <TableCell>{describeConfig(rule, t)}</TableCell>
+                    <TableCell>
+                      <Chip size="sm" variant="flat" color={SEVERITY_COLORS[rule.severity]}>
+                        {t(`severities.${rule.severity}`)}
+                      </Chip>
+                    </TableCell>
+                    <TableCell>{t(`actions.${rule.action}.label`)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        size="sm"
+                        isSelected={rule.enabled}
+                        onValueChange={(enabled) => handleToggle(rule, enabled)}
+                        aria-label={t('columns.enabled')}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          onPress={() => handleEdit(rule)}
+                          aria-label={t('edit')}
+                        >
+                          <PencilIcon className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          color="danger"
+                          onPress={() => handleDelete(rule)}
+                          aria-label={t('delete')}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardBody>
+      </Card>
+
+      {dryRunResult && <BoltGuardDryRunResults result={dryRunResult} />}
+
+      <BoltGuardRuleForm
+        isOpen={isOpen}
+        onClose={onClose}
+        onSave={handleSave}
+        onDryRun={runDryRun}
+        rule={selectedRule}
+      />
+    </div>
+  );
+}
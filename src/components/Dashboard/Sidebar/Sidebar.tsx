@@ -10,6 +10,7 @@ import {
   Cog6ToothIcon,
   PaintBrushIcon,
   LightBulbIcon,
+  BellAlertIcon,
   HomeIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
@@ -129,6 +130,11 @@ export function Sidebar() {
           label: tAnalytics('optimizationROI.title'),
           translationKey: 'dashboard.analytics.optimizationROI.title',
         },
+        {
+          href: '/dashboard/analytics/experiments',
+          label: tAnalytics('experiments.title'),
+          translationKey: 'dashboard.analytics.experiments.title',
+        },
         {
           href: '/dashboard/analytics/friction-score',
           label: tAnalytics('frictionScore.title'),
@@ -159,6 +165,7 @@ export function Sidebar() {
     { href: '/dashboard/security', icon: ShieldCheckIcon, label: t('security') },
     { href: '/dashboard/themes', icon: PaintBrushIcon, label: t('themes') },
     { href: '/dashboard/insights', icon: LightBulbIcon, label: t('insights') },
+    { href: '/dashboard/alerts', icon: BellAlertIcon, label: t('alerts') },
     {
       href: '/dashboard/boltx',
       icon: CpuChipIcon,
@@ -221,6 +228,11 @@ export function Sidebar() {
           label: tB2B('purchaseOrders.title'),
           translationKey: 'dashboard.b2b.purchaseOrders.title',
         },
+        {
+          href: '/dashboard/b2b/purchase-orders/queue',
+          label: tB2B('approvalQueue.title'),
+          translationKey: 'dashboard.b2b.approvalQueue.title',
+        },
       ],
     },
     { href: '/dashboard/plans', icon: CreditCardIcon, label: t('plans') },
@@ -0,0 +1,460 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+  Switch,
+  Textarea,
+} from '@heroui/react';
+import { CheckBadgeIcon, KeyIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { useRolePermissions } from '@/hooks/useRolePermissions';
+import {
+  SSO_DOMAIN_VERIFICATION_PREFIX,
+  type SsoConnectionSettings,
+  type SsoDefaultRole,
+  type SsoProtocol,
+} from '@/lib/sso/connections';
+
+interface ServiceProviderUrls {
+  oidcRedirectUri: string;
+  samlEntityId: string;
+  samlAcsUrl: string;
+  samlMetadataUrl: string;
+}
+
+interface SsoForm {
+  protocol: SsoProtocol;
+  enabled: boolean;
+  enforceSso: boolean;
+  defaultRole: SsoDefaultRole;
+  domains: string;
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  samlEntryPoint: string;
+  samlIdpIssuer: string;
+  samlIdpCertificate: string;
+}
+
+const EMPTY_FORM: SsoForm = {
+  protocol: 'oidc',
+  enabled: true,
+  enforceSso: false,
+  defaultRole: 'viewer',
+  domains: '',
+  oidcIssuer: '',
+  oidcClientId: '',
+  oidcClientSecret: '',
+  samlEntryPoint: '',
+  samlIdpIssuer: '',
+  samlIdpCertificate: '',
+};
+
+function toForm(connection: SsoConnectionSettings): SsoForm {
+  return {
+    protocol: connection.protocol,
+    enabled: connection.enabled,
+    enforceSso: connection.enforce_sso,
+    defaultRole: connection.default_role,
+    domains: connection.domains.join(', '),
+    oidcIssuer: connection.oidc_issuer || '',
+    oidcClientId: connection.oidc_client_id || '',
+    oidcClientSecret: '',
+    samlEntryPoint: connection.saml_entry_point || '',
+    samlIdpIssuer: connection.saml_idp_issuer || '',
+    samlIdpCertificate: connection.saml_idp_certificate || '',
+  };
+}
+
+/**
+ * Request body of PUT /api/dashboard/sso (only the fields of the protocol)
+ */
+function toBody(form: SsoForm) {
+  const common = {
+    protocol: form.protocol,
+    enabled: form.enabled,
+    enforceSso: form.enforceSso,
+    defaultRole: form.defaultRole,
+    domains: form.domains
+      .split(/[\s,]+/)
+      .map((domain) => domain.trim())
+      .filter(Boolean),
+  };
+
+  if (form.protocol === 'oidc') {
+    return {
+      ...common,
+      oidcIssuer: form.oidcIssuer.trim(),
+      oidcClientId: form.oidcClientId.trim(),
+      oidcClientSecret: form.oidcClientSecret || undefined,
+    };
+  }
+
+  return {
+    ...common,
+    samlEntryPoint: form.samlEntryPoint.trim(),
+    samlIdpIssuer: form.samlIdpIssuer.trim() || undefined,
+    samlIdpCertificate: form.samlIdpCertificate.trim(),
+  };
+}
+
+/**
+ * Single sign-on: the account's OIDC or SAML identity provider
+ */
+export function SsoSettingsCard() {
+  const t = useTranslations('dashboard.settings.sso');
+  const { canManage } = useRolePermissions();
+  const canEdit = canManage('settings');
+
+  const [connection, setConnection] = useState<SsoConnectionSettings | null>(null);
+  const [serviceProvider, setServiceProvider] = useState<ServiceProviderUrls | null>(null);
+  const [form, setForm] = useState<SsoForm>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [verifyingDomain, setVerifyingDomain] = useState<string | null>(null);
+
+  const loadConnection = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/dashboard/sso');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load SSO connection');
+      }
+
+      const data = await response.json();
+      setConnection(data.connection);
+      setServiceProvider(data.serviceProvider);
+      setForm(data.connection ? toForm(data.connection) : EMPTY_FORM);
+    } catch (error) {
+      console.error('Load SSO connection error:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadConnection();
+  }, [loadConnection]);
+
+  const update = <K extends keyof SsoForm>(field: K, value: SsoForm[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch('/api/dashboard/sso', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toBody(form)),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('saveError'));
+      }
+
+      setConnection(data.connection);
+      setForm(data.connection ? toForm(data.connection) : EMPTY_FORM);
+      toast.success(t('saved'));
+    } catch (error) {
+      console.error('Save SSO connection error:', error);
+      toast.error(error instanceof Error ? error.message : t('saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerifyDomain = async (domain: string) => {
+    try {
+      setVerifyingDomain(domain);
+      const response = await fetch('/api/dashboard/sso/verify-domain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('verifyError'));
+      }
+
+      setConnection(data.connection);
+      toast.success(t('domainVerified', { domain }));
+    } catch (error) {
+      console.error('Verify SSO domain error:', error);
+      toast.error(error instanceof Error ? error.message : t('verifyError'));
+    } finally {
+      setVerifyingDomain(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t('deleteConfirm'))) {
+      return;
+    }
+
+    try {
+      setIsDeleting(true);
+      const response = await fetch('/api/dashboard/sso', { method: 'DELETE' });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || t('deleteError'));
+      }
+
+      setConnection(null);
+      setForm(EMPTY_FORM);
+      toast.success(t('deleted'));
+    } catch (error) {
+      console.error('Delete SSO connection error:', error);
+      toast.error(t('deleteError'));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const isOidc = form.protocol === 'oidc';
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200 mt-6">
+      <CardBody className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+            <p className="text-sm text-foreground/70">{t('description')}</p>
+          </div>
+          {connection && (
+            <Chip size="sm" variant="flat" color={connection.enabled ? 'success' : 'default'}>
+              {connection.enabled ? t('statusEnabled') : t('statusDisabled')}
+            </Chip>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Select
+              label={t('protocol')}
+              selectedKeys={[form.protocol]}
+              onSelectionChange={(keys) => update('protocol', Array.from(keys)[0] as SsoProtocol)}
+              variant="bordered"
+              isDisabled={!canEdit}
+            >
+              <SelectItem key="oidc" textValue="OIDC">
+                OpenID Connect (OIDC)
+              </SelectItem>
+              <SelectItem key="saml" textValue="SAML">
+                SAML 2.0
+              </SelectItem>
+            </Select>
+
+            <Input
+              label={t('domains')}
+              description={t('domainsDesc')}
+              placeholder="acme.com, acme.com.br"
+              value={form.domains}
+              onValueChange={(value) => update('domains', value)}
+              variant="bordered"
+              isDisabled={!canEdit}
+            />
+
+            {connection && connection.domains.length > 0 && (
+              <div className="rounded-lg bg-default-100 p-4 space-y-2">
+                <p className="text-sm font-semibold text-foreground">{t('domainVerification')}</p>
+                <p className="text-xs text-foreground/70">{t('domainVerificationDesc')}</p>
+                <p className="text-xs font-mono break-all">
+                  {SSO_DOMAIN_VERIFICATION_PREFIX}
+                  {connection.domain_verification_token}
+                </p>
+                {connection.domains.map((domain) => {
+                  const isVerified = connection.verified_domains.includes(domain);
+
+                  return (
+                    <div key={domain} className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-mono">{domain}</span>
+                        <Chip size="sm" variant="flat" color={isVerified ? 'success' : 'warning'}>
+                          {isVerified ? t('domainVerifiedStatus') : t('domainUnverifiedStatus')}
+                        </Chip>
+                      </div>
+                      {canEdit && !isVerified && (
+                        <Button
+                          size="sm"
+                          variant="flat"
+                          startContent={<CheckBadgeIcon className="w-4 h-4" />}
+                          onPress={() => handleVerifyDomain(domain)}
+                          isLoading={verifyingDomain === domain}
+                        >
+                          {t('verifyDomain')}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {isOidc ? (
+              <>
+                <Input
+                  label={t('oidcIssuer')}
+                  placeholder="https://acme.okta.com"
+                  value={form.oidcIssuer}
+                  onValueChange={(value) => update('oidcIssuer', value)}
+                  variant="bordered"
+                  isDisabled={!canEdit}
+                />
+                <Input
+                  label={t('oidcClientId')}
+                  value={form.oidcClientId}
+                  onValueChange={(value) => update('oidcClientId', value)}
+                  variant="bordered"
+                  isDisabled={!canEdit}
+                />
+                <Input
+                  type="password"
+                  label={t('oidcClientSecret')}
+                  placeholder={connection?.has_client_secret ? t('secretSaved') : undefined}
+                  value={form.oidcClientSecret}
+                  onValueChange={(value) => update('oidcClientSecret', value)}
+                  variant="bordered"
+                  isDisabled={!canEdit}
+                  autoComplete="off"
+                />
+              </>
+            ) : (
+              <>
+                <Input
+                  label={t('samlEntryPoint')}
+                  placeholder="https://acme.okta.com/app/bolt/sso/saml"
+                  value={form.samlEntryPoint}
+                  onValueChange={(value) => update('samlEntryPoint', value)}
+                  variant="bordered"
+                  isDisabled={!canEdit}
+                />
+                <Input
+                  label={t('samlIdpIssuer')}
+                  value={form.samlIdpIssuer}
+                  onValueChange={(value) => update('samlIdpIssuer', value)}
+                  variant="bordered"
+                  isDisabled={!canEdit}
+                />
+                <Textarea
+                  label={t('samlIdpCertificate')}
+                  placeholder="-----BEGIN CERTIFICATE-----"
+                  value={form.samlIdpCertificate}
+                  onValueChange={(value) => update('samlIdpCertificate', value)}
+                  variant="bordered"
+                  minRows={4}
+                  classNames={{ input: 'font-mono text-xs' }}
+                  isDisabled={!canEdit}
+                />
+              </>
+            )}
+
+            <Select
+              label={t('defaultRole')}
+              description={t('defaultRoleDesc')}
+              selectedKeys={[form.defaultRole]}
+              onSelectionChange={(keys) =>
+                update('defaultRole', Array.from(keys)[0] as SsoDefaultRole)
+              }
+              variant="bordered"
+              isDisabled={!canEdit}
+            >
+              <SelectItem key="viewer">Viewer</SelectItem>
+              <SelectItem key="editor">Editor</SelectItem>
+              <SelectItem key="admin">Admin</SelectItem>
+            </Select>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('enabled')}</p>
+                <p className="text-sm text-foreground/70">{t('enabledDesc')}</p>
+              </div>
+              <Switch
+                isSelected={form.enabled}
+                onValueChange={(value) => update('enabled', value)}
+                isDisabled={!canEdit}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('enforce')}</p>
+                <p className="text-sm text-foreground/70">{t('enforceDesc')}</p>
+              </div>
+              <Switch
+                isSelected={form.enforceSso}
+                onValueChange={(value) => update('enforceSso', value)}
+                isDisabled={!canEdit}
+              />
+            </div>
+
+            {serviceProvider && (
+              <div className="rounded-lg bg-default-100 p-4 space-y-2">
+                <p className="text-sm font-semibold text-foreground">{t('serviceProvider')}</p>
+                {(isOidc
+                  ? [[t('redirectUri'), serviceProvider.oidcRedirectUri]]
+                  : [
+                      [t('acsUrl'), serviceProvider.samlAcsUrl],
+                      [t('entityId'), serviceProvider.samlEntityId],
+                      [t('metadataUrl'), serviceProvider.samlMetadataUrl],
+                    ]
+                ).map(([label, value]) => (
+                  <div key={label}>
+                    <p className="text-xs text-foreground/60">{label}</p>
+                    <p className="text-xs font-mono break-all">{value}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canEdit ? (
+              <div className="flex gap-2 pt-2">
+                <Button
+                  color="primary"
+                  startContent={<KeyIcon className="w-4 h-4" />}
+                  onPress={handleSave}
+                  isLoading={isSaving}
+                >
+                  {t('save')}
+                </Button>
+                {connection && (
+                  <Button
+                    color="danger"
+                    variant="flat"
+                    startContent={<TrashIcon className="w-4 h-4" />}
+                    onPress={handleDelete}
+                    isLoading={isDeleting}
+                  >
+                    {t('delete')}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-foreground/60">{t('ownerOnly')}</p>
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -24,6 +24,8 @@ import { BrandingTab } from './tabs/BrandingTab';
 import { FeaturesTab } from './tabs/FeaturesTab';
 import { TextsTab } from './tabs/TextsTab';
 import { ComponentsTab } from './tabs/ComponentsTab';
+import { ThemeVersionHistory } from './ThemeVersionHistory';
+import { upgradeLegacyThemeConfig } from '@/lib/themes/migrations';
 
 /**
  * Deep merge function to merge theme config with defaults
@@ -84,6 +86,29 @@ function deepMergeDefaults(loadedConfig: any, defaults: ExpandedThemeConfig): Ex
   return merged;
 }
 
+/**
+ * Convert a stored theme (expanded or old format) to the editor config
+ */
+function toEditorConfig(theme: any): ExpandedThemeConfig | null {
+  const themeConfig = theme?.config;
+
+  if (themeConfig) {
+    // Check if it's expanded config or old format
+    if (themeConfig.visual && themeConfig.layout && themeConfig.features) {
+      // Expanded format - merge with defaults to ensure all fields are present
+      const baseTheme = themeConfig.baseTheme || theme?.baseTheme || 'default';
+      const defaults = getDefaultThemeConfig(baseTheme);
+      const mergedConfig = deepMergeDefaults(themeConfig, defaults);
+      return mergedConfig;
+    } else {
+      // Old format - migrate to expanded
+      return upgradeLegacyThemeConfig(themeConfig, theme.name);
+    }
+  }
+
+  return null;
+}
+
 // Keep old interface for backwards compatibility
 export interface ThemeConfig {
   name: string;
@@ -130,38 +155,9 @@ export function ThemeEditor({ themeId, onBack, onSave }: ThemeEditorProps) {
         }
 
         const data = await response.json();
-        const themeConfig = data.theme.config;
-
-        if (themeConfig) {
-          // Check if it's expanded config or old format
-          if (themeConfig.visual && themeConfig.layout && themeConfig.features) {
-            // Expanded format - merge with defaults to ensure all fields are present
-            const baseTheme = themeConfig.baseTheme || data.theme?.baseTheme || 'default';
-            const defaults = getDefaultThemeConfig(baseTheme);
-            const mergedConfig = deepMergeDefaults(themeConfig, defaults);
-            setConfig(mergedConfig);
-          } else {
-            // Old format - migrate to expanded
-            const baseTheme = themeConfig.layout === 'single-page' ? 'single-page' : 
-                            themeConfig.layout === 'liquid-glass' ? 'liquid-glass' : 'default';
-            const expandedConfig = getDefaultThemeConfig(baseTheme);
-            expandedConfig.name = themeConfig.name || data.theme.name || '';
-            if (themeConfig.colors) {
-              expandedConfig.visual.colors.primary.from = themeConfig.colors.primary || expandedConfig.visual.colors.primary.from;
-              expandedConfig.visual.colors.secondary.from = themeConfig.colors.secondary || expandedConfig.visual.colors.secondary.from;
-              expandedConfig.visual.colors.accent = themeConfig.colors.accent || expandedConfig.visual.colors.accent;
-              expandedConfig.visual.colors.background.primary = themeConfig.colors.background || expandedConfig.visual.colors.background.primary;
-              expandedConfig.visual.colors.text.primary = themeConfig.colors.text || expandedConfig.visual.colors.text.primary;
-            }
-            if (themeConfig.fonts) {
-              expandedConfig.visual.typography.heading.family = themeConfig.fonts.heading || expandedConfig.visual.typography.heading.family;
-              expandedConfig.visual.typography.primary.family = themeConfig.fonts.body || expandedConfig.visual.typography.primary.family;
-            }
-            if (themeConfig.logo) {
-              expandedConfig.branding.logo.url = themeConfig.logo;
-            }
-            setConfig(expandedConfig);
-          }
+        const loadedConfig = toEditorConfig(data.theme);
+        if (loadedConfig) {
+          setConfig(loadedConfig);
         }
       } catch (error) {
         console.error('Failed to load theme:', error);
@@ -305,6 +301,21 @@ export function ThemeEditor({ themeId, onBack, onSave }: ThemeEditorProps) {
             </Card>
           </div>
         </Tab>
+        {themeId !== 'new' && (
+          <Tab key="history" title={t('history.tab')}>
+            <div className="mt-6">
+              <ThemeVersionHistory
+                themeId={themeId}
+                onRestored={(theme) => {
+                  const restoredConfig = toEditorConfig(theme);
+                  if (restoredConfig) {
+                    setConfig(restoredConfig);
+                  }
+                }}
+              />
+            </div>
+          </Tab>
+        )}
       </Tabs>
     </m.div>
   );
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Card,
+  CardBody,
+  Button,
+  Chip,
+  Select,
+  SelectItem,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@heroui/react';
+import { toast } from 'sonner';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { useRolePermissions } from '@/hooks/useRolePermissions';
+
+interface ThemeVersion {
+  id: string;
+  version: number;
+  name: string | null;
+  createdAt: string;
+  author: { id: string; email: string | null; name: string | null } | null;
+  restoredFromVersion: number | null;
+}
+
+interface ThemeConfigChange {
+  path: string;
+  section: string;
+  type: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+interface ThemeVersionDiff {
+  changes: ThemeConfigChange[];
+  sections: Array<{ section: string; changes: number }>;
+}
+
+interface ThemeVersionHistoryProps {
+  themeId: string;
+  onRestored: (theme: { name: string; config: unknown }) => void;
+}
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+export function ThemeVersionHistory({ themeId, onRestored }: ThemeVersionHistoryProps) {
+  const t = useTranslations('dashboard.themes.history');
+  const { canWrite } = useRolePermissions();
+  const [versions, setVersions] = useState<ThemeVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<ThemeVersionDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [restoreVersion, setRestoreVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/dashboard/themes/${themeId}/versions`);
+      if (!response.ok) {
+        throw new Error('Failed to load theme versions');
+      }
+      const data = await response.json();
+      const loaded: ThemeVersion[] = data.versions || [];
+      setVersions(loaded);
+
+      // Default comparison: previous version -> current version
+      setToVersion(loaded[0]?.version ?? null);
+      setFromVersion(loaded[1]?.version ?? null);
+    } catch (error) {
+      console.error('Failed to load theme versions:', error);
+      toast.error(t('loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [themeId, t]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  useEffect(() => {
+    if (fromVersion === null || toVersion === null || fromVersion === toVersion) {
+      setDiff(null);
+      return;
+    }
+
+    const loadDiff = async () => {
+      setIsDiffLoading(true);
+      try {
+        const response = await fetch(
+          `/api/dashboard/themes/${themeId}/versions/diff?from=${fromVersion}&to=${toVersion}`
+        );
+        if (!response.ok) {
+          throw new Error('Failed to diff theme versions');
+        }
+        setDiff(await response.json());
+      } catch (error) {
+        console.error('Failed to diff theme versions:', error);
+        setDiff(null);
+      } finally {
+        setIsDiffLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [themeId, fromVersion, toVersion]);
+
+  const handleRestore = async () => {
+    if (restoreVersion === null) return;
+
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `/api/dashboard/themes/${themeId}/versions/${restoreVersion}/restore`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('restoreError'));
+      }
+
+      const data = await response.json();
+      toast.success(t('restoreSuccess', { version: restoreVersion }));
+      setRestoreVersion(null);
+      onRestored(data.theme);
+      await loadVersions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('restoreError'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border border-default">
+        <CardBody className="p-6">
+          <h2 className="text-xl font-bold text-foreground mb-1">{t('title')}</h2>
+          <p className="text-sm text-foreground/70 mb-6">{t('subtitle')}</p>
+
+          {versions.length === 0 ? (
+            <p className="text-center text-foreground/60 py-8">{t('empty')}</p>
+          ) : (
+            <ul className="divide-y divide-default">
+              {versions.map((version) => (
+                <li key={version.id} className="flex items-center justify-between py-3 gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold text-foreground">
+                        {t('version', { version: version.version })}
+                      </p>
+                      {version.version === latestVersion && (
+                        <Chip size="sm" color="success" variant="flat">
+                          {t('current')}
+                        </Chip>
+                      )}
+                      {version.restoredFromVersion !== null && (
+                        <Chip size="sm" variant="flat">
+                          {t('restoredFrom', { version: version.restoredFromVersion })}
+                        </Chip>
+                      )}
+                    </div>
+                    <p className="text-sm text-foreground/70">
+                      {version.author?.name || version.author?.email || t('unknownAuthor')} ·{' '}
+                      {new Date(version.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {version.version !== latestVersion && (
+                    <Button
+                      size="sm"
+                      variant="bordered"
+                      onPress={() => setRestoreVersion(version.version)}
+                      isDisabled={!canWrite('themes')}
+                    >
+                      {t('restore')}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardBody>
+      </Card>
+
+      {versions.length > 1 && (
+        <Card className="border border-default">
+          <CardBody className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label={t('compareFrom')}
+                selectedKeys={fromVersion !== null ? [String(fromVersion)] : []}
+                onSelectionChange={(keys) => setFromVersion(Number(Array.from(keys)[0]))}
+                variant="bordered"
+              >
+                {versions.map((version) => (
+                  <SelectItem key={String(version.version)}>
+                    {t('version', { version: version.version })}
+                  </SelectItem>
+                ))}
+              </Select>
+              <Select
+                label={t('compareTo')}
+                selectedKeys={toVersion !== null ? [String(toVersion)] : []}
+                onSelectionChange={(keys) => setToVersion(Number(Array.from(keys)[0]))}
+                variant="bordered"
+              >
+                {versions.map((version) => (
+                  <SelectItem key={String(version.version)}>
+                    {t('version', { version: version.version })}
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+
+            {isDiffLoading ? (
+              <div className="flex justify-center py-6">
+                <Spinner size="md" />
+              </div>
+            ) : diff && diff.changes.length === 0 ? (
+              <p className="text-center text-foreground/60 py-6">{t('noChanges')}</p>
+            ) : (
+              diff &&
+              diff.sections.map(({ section, changes }) => (
+                <div key={section}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <p className="font-mono text-sm font-semibold text-foreground">{section}</p>
+                    <span className="text-xs text-foreground/60">
+                      {t('changes', { count: changes })}
+                    </span>
+                  </div>
+                  <ul className="space-y-1">
+                    {diff.changes
+                      .filter((change) => change.section === section)
+                      .map((change) => (
+                        <li key={change.path} className="text-sm flex flex-wrap gap-2">
+                          <Chip
+                            size="sm"
+                            variant="flat"
+                            color={
+                              change.type === 'added'
+                                ? 'success'
+                                : change.type === 'removed'
+                                  ? 'danger'
+                                  : 'warning'
+                            }
+                          >
+                            {t(change.type)}
+                          </Chip>
+                          <span className="font-mono text-foreground/80">{change.path}</span>
+                          {change.type !== 'added' && (
+                            <span className="font-mono text-danger line-through break-all">
+                              {formatValue(change.from)}
+                            </span>
+                          )}
+                          {change.type !== 'removed' && (
+                            <span className="font-mono text-success break-all">
+                              {formatValue(change.to)}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </CardBody>
+        </Card>
+      )}
+
+      <Modal isOpen={restoreVersion !== null} onClose={() => setRestoreVersion(null)}>
+        <ModalContent>
+          <ModalHeader>{t('restoreTitle', { version: restoreVersion ?? '' })}</ModalHeader>
+          <ModalBody>
+            <p className="text-foreground/70">{t('restoreWarning')}</p>
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setRestoreVersion(null)}>
+              {t('cancel')}
+            </Button>
+            <Button color="primary" onPress={handleRestore} isLoading={isRestoring}>
+              {t('restore')}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
@@ -12,10 +12,12 @@ import { toast } from 'sonner';
 import { InviteUserModal } from '../InviteUserModal/InviteUserModal';
 import { UsersList } from '../UsersList/UsersList';
 import { InvitationsList } from '../InvitationsList/InvitationsList';
+import { CustomRolesCard } from '../CustomRolesCard/CustomRolesCard';
 import { useDashboardAuth } from '@/hooks/useDashboardAuth';
 import { useRolePermissions } from '@/hooks/useRolePermissions';
 import { getPlanUserLimit, getRemainingUserSlots, canRoleDeleteUser } from '@/utils/users';
 import type { UserRole } from '@/utils/users';
+import type { AccountRole } from '@/lib/rbac/roles';
 
 interface User {
   id: string;
@@ -26,6 +28,7 @@ interface User {
   last_name?: string | null;
   created_at: string;
   last_login_at?: string | null;
+  custom_role_id?: string | null;
 }
 
 interface Invitation {
@@ -43,7 +46,9 @@ interface Invitation {
  */
 export function UserManagementTab() {
   const { user: currentUser } = useDashboardAuth();
-  const { role } = useRolePermissions();
+  const { role, canManage } = useRolePermissions();
+  // Custom roles can grant more than the built-in role, so only users manage assigns them
+  const canManageRoles = canManage('users');
   const [isLoading, setIsLoading] = useState(true);
   const [isInviting, setIsInviting] = useState(false);
   const [, setIsResending] = useState(false);
@@ -52,6 +57,7 @@ export function UserManagementTab() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [customRoles, setCustomRoles] = useState<AccountRole[]>([]);
   const [userCount, setUserCount] = useState(0);
   const [planType, setPlanType] = useState<'basic' | 'pro' | 'enterprise'>('basic');
 
@@ -79,6 +85,13 @@ export function UserManagementTab() {
         const error = await invitationsResponse.json();
         toast.error(error.error || 'Failed to load invitations');
       }
+
+      // Load custom roles
+      const rolesResponse = await fetch('/api/dashboard/roles');
+      if (rolesResponse.ok) {
+        const rolesData = await rolesResponse.json();
+        setCustomRoles(rolesData.roles || []);
+      }
     } catch (error) {
       console.error('Load data error:', error);
       toast.error('Failed to load data');
@@ -164,6 +177,49 @@ export function UserManagementTab() {
     }
   };
 
+  const handleSignOutUser = async (userId: string) => {
+    if (!confirm('Sign this user out of all their sessions?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/dashboard/users/${userId}/sessions`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to sign out user');
+      }
+
+      toast.success('User signed out of all sessions');
+    } catch (error) {
+      console.error('Sign out user error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out user');
+    }
+  };
+
+  const handleAssignRole = async (userId: string, roleId: string | null) => {
+    try {
+      const response = await fetch(`/api/dashboard/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ customRoleId: roleId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to assign role');
+      }
+
+      toast.success('Role assigned successfully');
+      await loadData();
+    } catch (error) {
+      console.error('Assign role error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign role');
+    }
+  };
+
   const handleCancelInvitation = async (invitationId: string) => {
     if (!confirm('Are you sure you want to cancel this invitation?')) {
       return;
@@ -238,13 +294,19 @@ export function UserManagementTab() {
             users={users}
             currentUserId={currentUser?.id}
             onDelete={handleDeleteUser}
+            onSignOut={handleSignOutUser}
             canDelete={(userRole) =>
               canRoleDeleteUser(role as UserRole, userRole as UserRole)
             }
+            customRoles={customRoles}
+            onAssignRole={canManageRoles ? handleAssignRole : undefined}
           />
         </CardBody>
       </Card>
 
+      {/* Custom Roles */}
+      <CustomRolesCard roles={customRoles} canManage={canManageRoles} onChange={loadData} />
+
       {/* Invitations List */}
       <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
         <CardBody className="p-6">
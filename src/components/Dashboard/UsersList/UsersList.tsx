@@ -10,8 +10,10 @@ import {
   Chip,
   Button,
   Tooltip,
+  Select,
+  SelectItem,
 } from '@heroui/react';
-import { TrashIcon } from '@heroicons/react/24/outline';
+import { ArrowRightStartOnRectangleIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { UserRole } from '@/utils/users';
 
 interface User {
@@ -23,6 +25,7 @@ interface User {
   last_name?: string | null;
   created_at: string;
   last_login_at?: string | null;
+  custom_role_id?: string | null;
 }
 
 interface UsersListProps {
@@ -30,6 +33,12 @@ interface UsersListProps {
   currentUserId?: string;
   onDelete?: (userId: string) => Promise<void>;
   canDelete?: (userRole: UserRole) => boolean;
+  /** Sign a user out of all sessions; shown for users that can be deleted */
+  onSignOut?: (userId: string) => Promise<void>;
+  /** Custom roles of the account */
+  customRoles?: { id: string; name: string }[];
+  /** Assign a custom role (null removes it); shown when set */
+  onAssignRole?: (userId: string, roleId: string | null) => Promise<void>;
 }
 
 /**
@@ -40,6 +49,9 @@ export function UsersList({
   currentUserId,
   onDelete,
   canDelete,
+  onSignOut,
+  customRoles = [],
+  onAssignRole,
 }: UsersListProps) {
   const getRoleColor = (role: UserRole): 'default' | 'primary' | 'secondary' | 'success' | 'warning' | 'danger' => {
     switch (role) {
@@ -82,6 +94,7 @@ export function UsersList({
       <TableHeader>
         <TableColumn>USER</TableColumn>
         <TableColumn>ROLE</TableColumn>
+        <TableColumn>CUSTOM ROLE</TableColumn>
         <TableColumn>JOINED</TableColumn>
         <TableColumn>LAST LOGIN</TableColumn>
         {onDelete ? <TableColumn>ACTIONS</TableColumn> : <></>}
@@ -105,6 +118,33 @@ export function UsersList({
                 {user.role}
               </Chip>
             </TableCell>
+            <TableCell>
+              {onAssignRole && user.role !== 'owner' ? (
+                <Select
+                  aria-label="Custom role"
+                  size="sm"
+                  selectedKeys={[user.custom_role_id || 'none']}
+                  onSelectionChange={(keys) => {
+                    const selected = Array.from(keys)[0] as string | undefined;
+                    if (selected && selected !== (user.custom_role_id || 'none')) {
+                      onAssignRole(user.id, selected === 'none' ? null : selected);
+                    }
+                  }}
+                  className="w-44"
+                >
+                  {[{ id: 'none', name: 'None' }, ...customRoles].map((customRole) => (
+                    <SelectItem key={customRole.id} textValue={customRole.name}>
+                      {customRole.name}
+                    </SelectItem>
+                  ))}
+                </Select>
+              ) : (
+                <span className="text-sm text-foreground/70">
+                  {customRoles.find((customRole) => customRole.id === user.custom_role_id)?.name ||
+                    '—'}
+                </span>
+              )}
+            </TableCell>
             <TableCell>
               <span className="text-sm text-foreground/70">{formatDate(user.created_at)}</span>
             </TableCell>
@@ -114,17 +154,31 @@ export function UsersList({
             {onDelete ? (
               <TableCell>
                 {user.id !== currentUserId && canDelete && canDelete(user.role) && (
-                  <Tooltip content="Remove user" placement="left">
-                    <Button
-                      isIconOnly
-                      variant="light"
-                      color="danger"
-                      size="sm"
-                      onPress={() => onDelete(user.id)}
-                    >
-                      <TrashIcon className="w-4 h-4" />
-                    </Button>
-                  </Tooltip>
+                  <div className="flex items-center gap-1">
+                    {onSignOut && (
+                      <Tooltip content="Sign out of all sessions" placement="left">
+                        <Button
+                          isIconOnly
+                          variant="light"
+                          size="sm"
+                          onPress={() => onSignOut(user.id)}
+                        >
+                          <ArrowRightStartOnRectangleIcon className="w-4 h-4" />
+                        </Button>
+                      </Tooltip>
+                    )}
+                    <Tooltip content="Remove user" placement="left">
+                      <Button
+                        isIconOnly
+                        variant="light"
+                        color="danger"
+                        size="sm"
+                        onPress={() => onDelete(user.id)}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </Button>
+                    </Tooltip>
+                  </div>
                 )}
               </TableCell>
             ) : <></>}
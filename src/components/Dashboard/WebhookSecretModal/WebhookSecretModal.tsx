@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button, Modal, ModalBody, ModalContent, ModalFooter, ModalHeader } from '@heroui/react';
+import { CheckIcon, ClipboardIcon } from '@heroicons/react/24/outline';
+
+interface WebhookSecretModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  secret: string;
+  name?: string;
+}
+
+/**
+ * Modal displaying a newly generated webhook signing secret (show once)
+ */
+export function WebhookSecretModal({ isOpen, onClose, secret, name }: WebhookSecretModalProps) {
+  const t = useTranslations('dashboard.webhookSecret');
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" isDismissable={false} hideCloseButton>
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-foreground">
+            {name ? t('titleWithName', { name }) : t('title')}
+          </h2>
+          <p className="text-sm text-danger font-semibold">⚠️ {t('warning')}</p>
+        </ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <div className="flex-1 p-3 bg-default-50 border border-default-200 rounded-lg font-mono text-sm break-all text-foreground">
+                {secret}
+              </div>
+              <Button
+                isIconOnly
+                variant="flat"
+                onPress={handleCopy}
+                className="flex-shrink-0"
+                aria-label={t('copy')}
+              >
+                {copied ? (
+                  <CheckIcon className="w-5 h-5 text-success" />
+                ) : (
+                  <ClipboardIcon className="w-5 h-5 text-foreground/60" />
+                )}
+              </Button>
+            </div>
+            <div className="p-4 bg-default-50 border border-default-200 rounded-lg">
+              <p className="text-sm text-foreground/70">
+                {t('verification', {
+                  signature: 'X-Bolt-Signature',
+                  timestamp: 'X-Bolt-Timestamp',
+                })}
+              </p>
+            </div>
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button color="primary" onPress={onClose}>
+            {t('done')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import {
+  Button,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from '@heroui/react';
+import { ArrowPathIcon, ChevronLeftIcon, EyeIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import type { WebhookEndpointSettings } from '@/lib/webhooks/endpoints';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+} from '@/lib/webhooks/deliveries';
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'dead'];
+const ALL_STATUSES = 'all';
+
+const STATUS_COLORS = {
+  pending: 'warning',
+  succeeded: 'success',
+  dead: 'danger',
+} as const;
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+interface WebhookDeliveriesProps {
+  isOpen: boolean;
+  onClose: () => void;
+  endpoint: WebhookEndpointSettings;
+  canManage: boolean;
+}
+
+/**
+ * Delivery log of a webhook endpoint: deliveries, then the request and the
+ * responses of a delivery's attempts
+ */
+export function WebhookDeliveries({
+  isOpen,
+  onClose,
+  endpoint,
+  canManage,
+}: WebhookDeliveriesProps) {
+  const t = useTranslations('dashboard.integrations.webhooks.deliveries');
+  const locale = useLocale();
+  const [status, setStatus] = useState<WebhookDeliveryStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [selected, setSelected] = useState<WebhookDelivery | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const baseUrl = `/api/dashboard/integrations/webhooks/${endpoint.id}/deliveries`;
+
+  const { data, isLoading, refetch } = useApi<{ deliveries: WebhookDelivery[] }>(
+    `${baseUrl}${status === ALL_STATUSES ? '' : `?status=${status}`}`,
+    {
+      cacheKey: `webhook_deliveries_${endpoint.id}_${status}`,
+      cacheTTL: 1,
+      refetchOnMount: true,
+      enabled: isOpen,
+    }
+  );
+  const deliveries = data?.deliveries || [];
+
+  const { data: attemptsData, isLoading: isLoadingAttempts } = useApi<{
+    attempts: WebhookDeliveryAttempt[];
+  }>(`${baseUrl}/${selected?.id}`, {
+    cacheKey: `webhook_delivery_attempts_${selected?.id}`,
+    cacheTTL: 1,
+    refetchOnMount: true,
+    enabled: !!selected,
+  });
+  const attempts = attemptsData?.attempts || [];
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'medium' });
+
+  const handleClose = () => {
+    setSelected(null);
+    onClose();
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      setRedelivering(delivery.id);
+      await requestJson(`${baseUrl}/${delivery.id}/redeliver`, { method: 'POST' });
+      toast.success(t('toast.redeliveryQueued'));
+      setSelected(null);
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.redeliveryError'));
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const renderResult = (delivery: WebhookDelivery) => {
+    if (delivery.attempts === 0) {
+      return <span className="text-foreground/60">{t('notAttempted')}</span>;
+    }
+
+    return (
+      <>
+        <p className="text-sm">
+          {delivery.last_response_status ?? t('noResponse')} ·{' '}
+          {t('attemptCount', { count: delivery.attempts })}
+        </p>
+        {delivery.status === 'pending' && delivery.next_attempt_at && (
+          <p className="text-xs text-foreground/60">
+            {t('nextAttempt', { date: formatDate(delivery.next_attempt_at) })}
+          </p>
+        )}
+        {delivery.status !== 'succeeded' && delivery.last_error && (
+          <p className="text-xs text-danger">{delivery.last_error}</p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="4xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          <span>{t('title')}</span>
+          <span className="text-sm font-normal text-foreground/60 break-all">{endpoint.url}</span>
+        </ModalHeader>
+        <ModalBody>
+          {selected ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="light"
+                  size="sm"
+                  startContent={<ChevronLeftIcon className="w-4 h-4" />}
+                  onPress={() => setSelected(null)}
+                >
+                  {t('back')}
+                </Button>
+                {canManage && selected.status !== 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    startContent={<ArrowPathIcon className="w-4 h-4" />}
+                    onPress={() => handleRedeliver(selected)}
+                    isLoading={redelivering === selected.id}
+                  >
+                    {t('redeliver')}
+                  </Button>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="font-mono font-semibold">{selected.event_type}</span>
+                  <Chip size="sm" variant="flat" color={STATUS_COLORS[selected.status]}>
+                    {t(`statuses.${selected.status}`)}
+                  </Chip>
+                </div>
+                <p className="text-sm font-semibold mb-1">{t('requestBody')}</p>
+                <pre className="p-3 bg-default-50 border border-default-200 rounded-lg text-xs overflow-auto max-h-64">
+                  {JSON.stringify(selected.payload, null, 2)}
+                </pre>
+              </div>
+
+              <div>
+                <p className="text-sm font-semibold mb-2">{t('attempts')}</p>
+                {isLoadingAttempts ? (
+                  <div className="flex items-center justify-center h-24">
+                    <Spinner size="md" />
+                  </div>
+                ) : attempts.length === 0 ? (
+                  <p className="text-sm text-foreground/60">{t('notAttempted')}</p>
+                ) : (
+                  <div className="space-y-3">
+                    {attempts.map((attempt) => (
+                      <div
+                        key={attempt.id}
+                        className="p-3 border border-default-200 rounded-lg space-y-2"
+                      >
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="font-semibold text-sm">
+                            {t('attemptNumber', { attempt: attempt.attempt })}
+                          </span>
+                          <span className="text-xs text-foreground/60">
+                            {formatDate(attempt.attempted_at)}
+                            {attempt.duration_ms !== null &&
+                              ` · ${t('duration', { ms: attempt.duration_ms })}`}
+                          </span>
+                        </div>
+                        <p className="text-sm">
+                          {t('responseStatus')}:{' '}
+                          <span
+                            className={
+                              attempt.response_status &&
+                              attempt.response_status >= 200 &&
+                              attempt.response_status < 300
+                                ? 'text-success'
+                                : 'text-danger'
+                            }
+                          >
+                            {attempt.response_status ?? t('noResponse')}
+                          </span>
+                        </p>
+                        {attempt.error && <p className="text-xs text-danger">{attempt.error}</p>}
+                        <details>
+                          <summary className="text-xs cursor-pointer text-foreground/70">
+                            {t('requestHeaders')}
+                          </summary>
+                          <pre className="mt-1 p-2 bg-default-50 rounded text-xs overflow-auto">
+                            {JSON.stringify(attempt.request_headers, null, 2)}
+                          </pre>
+                        </details>
+                        {attempt.response_body && (
+                          <details>
+                            <summary className="text-xs cursor-pointer text-foreground/70">
+                              {t('responseBody')}
+                            </summary>
+                            <pre className="mt-1 p-2 bg-default-50 rounded text-xs overflow-auto max-h-48 whitespace-pre-wrap break-all">
+                              {attempt.response_body}
+                            </pre>
+                          </details>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <Select
+                label={t('filterStatus')}
+                selectedKeys={[status]}
+                onSelectionChange={(keys) => {
+                  const value = Array.from(keys)[0] as typeof status | undefined;
+                  if (value) setStatus(value);
+                }}
+                variant="bordered"
+                className="max-w-xs"
+                size="sm"
+              >
+                {[ALL_STATUSES, ...STATUSES].map((item) => (
+                  <SelectItem key={item}>{t(`statuses.${item}`)}</SelectItem>
+                ))}
+              </Select>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <Spinner size="md" />
+                </div>
+              ) : deliveries.length === 0 ? (
+                <p className="text-center py-12 text-foreground/60">{t('empty')}</p>
+              ) : (
+                <Table aria-label={t('title')} removeWrapper>
+                  <TableHeader>
+                    <TableColumn>{t('columns.event')}</TableColumn>
+                    <TableColumn>{t('columns.status')}</TableColumn>
+                    <TableColumn>{t('columns.result')}</TableColumn>
+                    <TableColumn>{t('columns.created')}</TableColumn>
+                    <TableColumn>{t('columns.actions')}</TableColumn>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map((delivery) => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>
+                          <span className="font-mono text-sm">{delivery.event_type}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Chip size="sm" variant="flat" color={STATUS_COLORS[delivery.status]}>
+                            {t(`statuses.${delivery.status}`)}
+                          </Chip>
+                        </TableCell>
+                        <TableCell>{renderResult(delivery)}</TableCell>
+                        <TableCell>
+                          <span className="text-sm">{formatDate(delivery.created_at)}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => setSelected(delivery)}
+                            aria-label={t('view')}
+                          >
+                            <EyeIcon className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={() => refetch()} isDisabled={!!selected}>
+            {t('refresh')}
+          </Button>
+          <Button color="primary" onPress={handleClose}>
+            {t('close')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
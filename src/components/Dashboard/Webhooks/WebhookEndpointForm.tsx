@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Switch,
+} from '@heroui/react';
+import { toast } from 'sonner';
+import type { WebhookEventType } from '@/lib/webhooks/events';
+import type { WebhookEndpointSettings } from '@/lib/webhooks/endpoints';
+
+// Same as WEBHOOK_EVENT_TYPES (src/lib/webhooks/events.ts)
+export const EVENT_TYPES: WebhookEventType[] = [
+  'boltx.intervention.triggered',
+  'security.transaction.flagged',
+  'b2b.purchase_order.approval_required',
+  'theme.activated',
+  'subscription.updated',
+];
+
+/**
+ * Endpoint as sent to the API (WebhookEndpointSchema)
+ */
+export interface WebhookEndpointDraft {
+  url: string;
+  description: string;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  rotateSecret: boolean;
+}
+
+export function toWebhookEndpointDraft(endpoint: WebhookEndpointSettings): WebhookEndpointDraft {
+  return {
+    url: endpoint.url,
+    description: endpoint.description,
+    eventTypes: endpoint.event_types,
+    enabled: endpoint.enabled,
+    rotateSecret: false,
+  };
+}
+
+interface WebhookEndpointFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (draft: WebhookEndpointDraft) => Promise<void>;
+  endpoint?: WebhookEndpointSettings;
+}
+
+export function WebhookEndpointForm({
+  isOpen,
+  onClose,
+  onSave,
+  endpoint,
+}: WebhookEndpointFormProps) {
+  const t = useTranslations('dashboard.integrations.webhooks');
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [rotateSecret, setRotateSecret] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setUrl(endpoint?.url || '');
+    setDescription(endpoint?.description || '');
+    setEventTypes(endpoint?.event_types || []);
+    setEnabled(endpoint?.enabled ?? true);
+    setRotateSecret(false);
+  }, [endpoint, isOpen]);
+
+  const handleSubmit = async () => {
+    if (!url.trim()) {
+      toast.error(t('form.urlRequired'));
+      return;
+    }
+
+    if (eventTypes.length === 0) {
+      toast.error(t('form.eventTypesRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        url: url.trim(),
+        description: description.trim(),
+        eventTypes,
+        enabled,
+        rotateSecret,
+      });
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader>{endpoint ? t('form.editTitle') : t('form.createTitle')}</ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <Input
+              type="url"
+              label={t('form.url')}
+              description={t('form.urlHelp')}
+              placeholder="https://example.com/hooks/bolt"
+              value={url}
+              onValueChange={setUrl}
+              variant="bordered"
+              isRequired
+            />
+
+            <Input
+              label={t('form.description')}
+              value={description}
+              onValueChange={setDescription}
+              variant="bordered"
+              maxLength={200}
+            />
+
+            <CheckboxGroup
+              label={t('form.eventTypes')}
+              value={eventTypes}
+              onValueChange={(value) => setEventTypes(value as WebhookEventType[])}
+            >
+              {EVENT_TYPES.map((type) => (
+                <Checkbox key={type} value={type}>
+                  <div className="flex flex-col">
+                    <span className="font-mono text-sm">{type}</span>
+                    <span className="text-xs text-foreground/60">{t(`events.${type}`)}</span>
+                  </div>
+                </Checkbox>
+              ))}
+            </CheckboxGroup>
+
+            {endpoint && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-semibold text-foreground">{t('form.rotateSecret')}</p>
+                  <p className="text-sm text-foreground/70">{t('form.rotateSecretHelp')}</p>
+                </div>
+                <Switch isSelected={rotateSecret} onValueChange={setRotateSecret} />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold text-foreground">{t('form.enabled')}</p>
+                <p className="text-sm text-foreground/70">{t('form.enabledHelp')}</p>
+              </div>
+              <Switch isSelected={enabled} onValueChange={setEnabled} />
+            </div>
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            {t('form.cancel')}
+          </Button>
+          <Button color="primary" onPress={handleSubmit} isLoading={isSaving}>
+            {t('form.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
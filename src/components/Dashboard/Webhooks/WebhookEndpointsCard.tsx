@@ -0,0 +1,295 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  useDisclosure,
+} from '@heroui/react';
+import {
+  BoltIcon,
+  ListBulletIcon,
+  PaperAirplaneIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useApi } from '@/hooks/useApi';
+import { Spinner } from '@/components/Dashboard/Spinner/Spinner';
+import { WebhookSecretModal } from '@/components/Dashboard/WebhookSecretModal/WebhookSecretModal';
+import type { WebhookEndpointSettings } from '@/lib/webhooks/endpoints';
+import {
+  WebhookEndpointForm,
+  toWebhookEndpointDraft,
+  type WebhookEndpointDraft,
+} from './WebhookEndpointForm';
+import { WebhookDeliveries } from './WebhookDeliveries';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+interface SaveEndpointResponse {
+  endpoint: WebhookEndpointSettings;
+  secret: string | null;
+}
+
+interface WebhookEndpointsCardProps {
+  /** Admins and owners can add, edit, test and remove endpoints */
+  canManage: boolean;
+}
+
+/**
+ * Webhook endpoints receiving the account's events, with their delivery log
+ */
+export function WebhookEndpointsCard({ canManage }: WebhookEndpointsCardProps) {
+  const t = useTranslations('dashboard.integrations.webhooks');
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedEndpoint, setSelectedEndpoint] = useState<WebhookEndpointSettings | undefined>();
+  const [logEndpoint, setLogEndpoint] = useState<WebhookEndpointSettings | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = useApi<{ endpoints: WebhookEndpointSettings[] }>(
+    '/api/dashboard/integrations/webhooks',
+    { cacheKey: 'webhook_endpoints', cacheTTL: 1, refetchOnMount: true }
+  );
+  const endpoints = data?.endpoints || [];
+
+  const handleCreate = () => {
+    setSelectedEndpoint(undefined);
+    onOpen();
+  };
+
+  const handleEdit = (endpoint: WebhookEndpointSettings) => {
+    setSelectedEndpoint(endpoint);
+    onOpen();
+  };
+
+  const handleSave = async (draft: WebhookEndpointDraft) => {
+    const { secret } = selectedEndpoint
+      ? await requestJson<SaveEndpointResponse>(
+          `/api/dashboard/integrations/webhooks/${selectedEndpoint.id}`,
+          { method: 'PUT', body: JSON.stringify(draft) }
+        )
+      : await requestJson<SaveEndpointResponse>('/api/dashboard/integrations/webhooks', {
+          method: 'POST',
+          body: JSON.stringify(draft),
+        });
+
+    toast.success(t('toast.saved'));
+    if (secret) {
+      setNewSecret(secret);
+    }
+    await refetch();
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpointSettings, enabled: boolean) => {
+    try {
+      await requestJson(`/api/dashboard/integrations/webhooks/${endpoint.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ ...toWebhookEndpointDraft(endpoint), enabled }),
+      });
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.saveError'));
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpointSettings) => {
+    try {
+      setTesting(endpoint.id);
+      await requestJson(`/api/dashboard/integrations/webhooks/${endpoint.id}/test`, {
+        method: 'POST',
+      });
+      toast.success(t('toast.testSent'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.testError'));
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpointSettings) => {
+    if (!confirm(t('deleteConfirm', { url: endpoint.url }))) {
+      return;
+    }
+
+    try {
+      await requestJson(`/api/dashboard/integrations/webhooks/${endpoint.id}`, {
+        method: 'DELETE',
+      });
+      toast.success(t('toast.deleted'));
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toast.deleteError'));
+    }
+  };
+
+  return (
+    <Card className="border border-default hover:border-primary/20 hover:shadow-lg transition-all duration-200">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t('title')}</h2>
+            <p className="text-sm text-foreground/70">{t('subtitle')}</p>
+          </div>
+          {canManage && (
+            <Button
+              color="primary"
+              startContent={<PlusIcon className="w-5 h-5" />}
+              onPress={handleCreate}
+            >
+              {t('createEndpoint')}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Spinner size="md" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="p-8 text-center">
+            <BoltIcon className="w-12 h-12 text-foreground/40 mx-auto mb-4" />
+            <p className="text-foreground/70 mb-4">{t('empty')}</p>
+            {canManage && (
+              <Button color="primary" onPress={handleCreate}>
+                {t('createFirst')}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <Table aria-label={t('title')}>
+            <TableHeader>
+              <TableColumn>{t('columns.endpoint')}</TableColumn>
+              <TableColumn>{t('columns.events')}</TableColumn>
+              <TableColumn>{t('columns.enabled')}</TableColumn>
+              <TableColumn>{t('columns.actions')}</TableColumn>
+            </TableHeader>
+            <TableBody>
+              {endpoints.map((endpoint) => (
+                <TableRow key={endpoint.id}>
+                  <TableCell>
+                    <p className="font-semibold text-sm break-all">{endpoint.url}</p>
+                    {endpoint.description && (
+                      <p className="text-xs text-foreground/60">{endpoint.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.event_types.map((type) => (
+                        <Chip key={type} size="sm" variant="flat" className="font-mono">
+                          {type}
+                        </Chip>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="sm"
+                      isSelected={endpoint.enabled}
+                      isDisabled={!canManage}
+                      onValueChange={(enabled) => handleToggle(endpoint, enabled)}
+                      aria-label={t('columns.enabled')}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        onPress={() => setLogEndpoint(endpoint)}
+                        aria-label={t('viewDeliveries')}
+                      >
+                        <ListBulletIcon className="w-4 h-4" />
+                      </Button>
+                      {canManage && (
+                        <>
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => handleTest(endpoint)}
+                            isLoading={testing === endpoint.id}
+                            aria-label={t('sendTest')}
+                          >
+                            <PaperAirplaneIcon className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => handleEdit(endpoint)}
+                            aria-label={t('edit')}
+                          >
+                            <PencilIcon className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            color="danger"
+                            onPress={() => handleDelete(endpoint)}
+                            aria-label={t('delete')}
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardBody>
+
+      <WebhookEndpointForm
+        isOpen={isOpen}
+        onClose={onClose}
+        onSave={handleSave}
+        endpoint={selectedEndpoint}
+      />
+
+      {logEndpoint && (
+        <WebhookDeliveries
+          isOpen={!!logEndpoint}
+          onClose={() => setLogEndpoint(null)}
+          endpoint={logEndpoint}
+          canManage={canManage}
+        />
+      )}
+
+      {newSecret && (
+        <WebhookSecretModal
+          isOpen={!!newSecret}
+          onClose={() => setNewSecret(null)}
+          secret={newSecret}
+        />
+      )}
+    </Card>
+  );
+}
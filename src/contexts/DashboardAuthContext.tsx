@@ -2,6 +2,7 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
+import type { Permission } from '@/utils/rbac/permissions';
 
 interface User {
   id: string;
@@ -18,6 +19,12 @@ interface User {
   lastLogin?: string | null;
   accountId?: string;
   vtexAccountName?: string | null;
+  /** Custom role whose grants are added to the built-in role */
+  customRole?: {
+    id: string;
+    name: string;
+    permissions: Permission[];
+  } | null;
 }
 
 interface AuthState {
@@ -2,7 +2,13 @@
 
 import { createContext, useContext, useMemo, ReactNode } from 'react';
 import { useApi } from '@/hooks/useApi';
-import { PlanCode, Subscription, Plan, hasFeature as checkPlanFeature } from '@/utils/plans';
+import {
+  PlanCode,
+  Subscription,
+  Plan,
+  DunningState,
+  hasFeature as checkPlanFeature,
+} from '@/utils/plans';
 import { canAccessRoute as checkRouteAccess } from '@/utils/feature-routes';
 
 interface SubscriptionsResponse {
@@ -22,6 +28,8 @@ interface PlanAccessContextValue {
   plan: Plan | null;
   isDemoMode: boolean;
   hasActiveSubscription: boolean;
+  dunningState: DunningState | null;
+  isSuspended: boolean;
   hasFeature: (featureCode: string) => boolean;
   canAccessRoute: (route: string) => boolean;
   refetch: () => Promise<void>;
@@ -95,9 +103,13 @@ export function PlanAccessProvider({ children }: PlanAccessProviderProps) {
       }
     }
 
+    // Failed payments (dunning): access is kept until the subscription is suspended
+    const dunningState = activeSubscription?.dunning_state || null;
+    const isSuspended = dunningState === 'suspended';
+
     // Check enterprise access
     let hasEnterpriseAccess = false;
-    if (plan) {
+    if (plan && !isSuspended) {
       const hasBoltXFeature = checkPlanFeature(plan, 'boltx');
       const isEnterprise = plan.code === 'enterprise';
       hasEnterpriseAccess = isEnterprise && hasBoltXFeature;
@@ -105,13 +117,13 @@ export function PlanAccessProvider({ children }: PlanAccessProviderProps) {
 
     // Create feature check function
     const hasFeature = (featureCode: string) => {
-      if (!plan) return false;
+      if (!plan || isSuspended) return false;
       return checkPlanFeature(plan, featureCode);
     };
 
     // Create route access check function
     const canAccessRoute = (route: string) => {
-      return checkRouteAccess(plan, route);
+      return checkRouteAccess(plan, route, { suspended: isSuspended });
     };
 
     return {
@@ -122,6 +134,8 @@ export function PlanAccessProvider({ children }: PlanAccessProviderProps) {
       plan,
       isDemoMode,
       hasActiveSubscription: hasActive,
+      dunningState,
+      isSuspended,
       hasFeature,
       canAccessRoute,
     };
@@ -8,7 +8,7 @@
  */
 
 import { usePlanAccessContext } from '@/contexts/PlanAccessContext';
-import { PlanCode, Subscription, Plan } from '@/utils/plans';
+import { PlanCode, Subscription, Plan, DunningState } from '@/utils/plans';
 
 export interface UsePlanAccessResult {
   hasEnterpriseAccess: boolean;
@@ -18,6 +18,10 @@ export interface UsePlanAccessResult {
   plan: Plan | null;
   isDemoMode: boolean;
   hasActiveSubscription: boolean;
+  /** Dunning stage of the subscription after a failed payment */
+  dunningState: DunningState | null;
+  /** Suspended for failed payments: features are unavailable until paid */
+  isSuspended: boolean;
   hasFeature: (featureCode: string) => boolean;
   canAccessRoute: (route: string) => boolean;
 }
@@ -39,6 +43,8 @@ export function usePlanAccess(): UsePlanAccessResult {
     plan: context.plan,
     isDemoMode: context.isDemoMode,
     hasActiveSubscription: context.hasActiveSubscription,
+    dunningState: context.dunningState,
+    isSuspended: context.isSuspended,
     hasFeature: context.hasFeature,
     canAccessRoute: context.canAccessRoute,
   };
@@ -1,23 +1,20 @@
 /**
  * Hook for real-time analytics metrics
  * 
- * Uses Server-Sent Events (SSE) to receive real-time updates
+ * Uses Server-Sent Events (SSE) to receive real-time updates from
+ * /api/dashboard/metrics/stream (rolling aggregates of the last 5 minutes)
  */
 
 import { useEffect, useState, useRef, useCallback } from 'react';
+import type { RealtimeMetric } from '@/lib/analytics/realtime-metrics';
 
-export interface RealtimeMetric {
-  metric: string;
-  value: number;
-  change?: number;
-  trend?: 'up' | 'down' | 'stable';
-  timestamp: string;
-}
+export type { RealtimeMetric };
 
 export interface UseRealtimeMetricsOptions {
   accountId: string;
   metrics?: string[];
   enabled?: boolean;
+  /** Base URL of the stream (defaults to this app) */
   apiUrl?: string;
 }
 
@@ -28,7 +25,7 @@ export interface UseRealtimeMetricsResult {
   reconnect: () => void;
 }
 
-const DEFAULT_API_URL = process.env.NEXT_PUBLIC_METRICS_API_URL || 'http://localhost:3000';
+const DEFAULT_API_URL = '';
 
 /**
  * Hook for consuming real-time metrics via SSE
@@ -45,6 +42,7 @@ export function useRealtimeMetrics(
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttemptsRef = useRef(0);
+  const lastEventIdRef = useRef<string | null>(null);
   const maxReconnectAttempts = 5;
 
   const connect = useCallback(() => {
@@ -62,8 +60,12 @@ export function useRealtimeMetrics(
     if (metrics && metrics.length > 0) {
       params.append('metrics', metrics.join(','));
     }
+    // A new EventSource does not send Last-Event-ID, so resume through the query
+    if (lastEventIdRef.current) {
+      params.append('lastEventId', lastEventIdRef.current);
+    }
 
-    const url = `${apiUrl}/api/boltmetrics/realtime?${params.toString()}`;
+    const url = `${apiUrl}/api/dashboard/metrics/stream?${params.toString()}`;
 
     try {
       const eventSource = new EventSource(url);
@@ -75,6 +77,10 @@ export function useRealtimeMetrics(
       };
 
       eventSource.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventIdRef.current = event.lastEventId;
+        }
+
         try {
           const data = JSON.parse(event.data);
 
@@ -89,8 +95,15 @@ export function useRealtimeMetrics(
       };
 
       eventSource.onerror = (err) => {
-        console.error('❌ [DEBUG] SSE connection error:', err);
         setIsConnected(false);
+
+        // The server ends streams periodically; the browser reconnects by itself
+        // and resumes with Last-Event-ID
+        if (eventSource.readyState === EventSource.CONNECTING) {
+          return;
+        }
+
+        console.error('❌ [DEBUG] SSE connection error:', err);
         setError(new Error('Connection error'));
 
         // Attempt to reconnect
@@ -12,17 +12,19 @@ import {
 export function useRolePermissions() {
   const { user } = useDashboardAuth();
   const role = (user?.role || 'viewer') as Role;
+  // Grants of the user's custom role, added to the built-in role
+  const customPermissions = user?.customRole?.permissions || [];
 
   return {
     role,
+    customRole: user?.customRole || null,
     hasPermission: (resource: string, action: 'read' | 'write' | 'delete' | 'manage') =>
-      hasPermission(role, resource, action),
-    canWrite: (resource: string) => canWrite(role, resource),
-    canDelete: (resource: string) => canDelete(role, resource),
-    canManage: (resource: string) => canManage(role, resource),
+      hasPermission(role, resource, action, customPermissions),
+    canWrite: (resource: string) => canWrite(role, resource, customPermissions),
+    canDelete: (resource: string) => canDelete(role, resource, customPermissions),
+    canManage: (resource: string) => canManage(role, resource, customPermissions),
     isOwner: role === 'owner',
     isAdmin: role === 'admin' || role === 'owner',
     isEditor: role === 'editor' || role === 'admin' || role === 'owner',
   };
 }
-
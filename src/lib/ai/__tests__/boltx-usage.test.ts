@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getUsagePeriod, toTokenBudgetStatus, type TokenUsage } from '../boltx-usage';
+import { AIService } from '../ai-service';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('../boltx-config-loader', () => ({
+  loadBoltXConfiguration: vi.fn(),
+}));
+
+function usage(totalTokens: number): TokenUsage {
+  return {
+    periodStart: '2026-10-01',
+    promptTokens: totalTokens / 2,
+    completionTokens: totalTokens / 2,
+    totalTokens,
+    requests: 3,
+  };
+}
+
+describe('getUsagePeriod', () => {
+  it('should return the UTC calendar month', () => {
+    expect(getUsagePeriod(new Date('2026-12-31T23:30:00Z'))).toEqual({
+      periodStart: '2026-12-01',
+      resetsAt: '2027-01-01T00:00:00.000Z',
+    });
+  });
+});
+
+describe('toTokenBudgetStatus', () => {
+  it('should report the remaining budget', () => {
+    const status = toTokenBudgetStatus(usage(4000), 10000);
+    expect(status.remaining).toBe(6000);
+    expect(status.exhausted).toBe(false);
+  });
+
+  it('should be exhausted once the budget is reached', () => {
+    const status = toTokenBudgetStatus(usage(10500), 10000);
+    expect(status.remaining).toBe(0);
+    expect(status.exhausted).toBe(true);
+  });
+
+  it('should never be exhausted without a budget', () => {
+    const status = toTokenBudgetStatus(usage(10_000_000), 0);
+    expect(status.remaining).toBeNull();
+    expect(status.exhausted).toBe(false);
+  });
+});
+
+describe('AIService token budget', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { loadBoltXConfiguration } = await import('../boltx-config-loader');
+    (loadBoltXConfiguration as any).mockResolvedValue({ monthlyTokenBudget: 10000 });
+  });
+
+  function mockUsage(totalTokens: number) {
+    const rpc = vi.fn(async (name: string) =>
+      name === 'get_boltx_token_usage'
+        ? {
+            data: [
+              { total_tokens: totalTokens, prompt_tokens: 0, completion_tokens: 0, requests: 1 },
+            ],
+            error: null,
+          }
+        : { data: null, error: null }
+    );
+    return rpc;
+  }
+
+  const service = () =>
+    new AIService({
+      provider: 'openai',
+      openai: { apiKey: 'sk-test', model: 'gpt-4o-mini' },
+      customerId: 'acc-1',
+    });
+
+  it('should fall back to local insights when the budget is exhausted', async () => {
+    const { getSupabaseAdmin } = await import('@/lib/supabase');
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockUsage(10000) });
+
+    const insights = await service().generateInsights({ abandonmentRate: 0.7 });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(insights[0].title).toBe('High Abandonment Rate');
+  });
+
+  it('should call OpenAI and record the tokens used within the budget', async () => {
+    const { getSupabaseAdmin } = await import('@/lib/supabase');
+    const rpc = mockUsage(2000);
+    (getSupabaseAdmin as any).mockReturnValue({ rpc });
+
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: '[{"category":"ux","title":"Insight","impact":"low"}]' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 80, total_tokens: 200 },
+      }),
+    });
+
+    const insights = await service().generateInsights({ abandonmentRate: 0.7 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(insights[0].title).toBe('Insight');
+    expect(rpc).toHaveBeenCalledWith(
+      'record_boltx_token_usage',
+      expect.objectContaining({
+        p_customer_id: 'acc-1',
+        p_prompt_tokens: 120,
+        p_completion_tokens: 80,
+        p_total_tokens: 200,
+      })
+    );
+  });
+});
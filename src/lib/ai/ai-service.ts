@@ -6,6 +6,7 @@
 
 import { OpenAIClient } from './openai-client';
 import { AbandonmentPredictor } from './prediction-models';
+import { getTokenBudgetStatus, recordTokenUsage } from './boltx-usage';
 import {
   AIServiceConfig,
   AIProvider,
@@ -27,11 +28,13 @@ export class AIService {
 
     // Initialize OpenAI client if configured
     if (config.provider === 'openai' && config.openai?.apiKey) {
+      const customerId = config.customerId;
       this.openaiClient = new OpenAIClient({
         apiKey: config.openai.apiKey,
         model: config.openai.model,
         maxTokens: config.openai.maxTokens,
         temperature: config.openai.temperature,
+        onUsage: customerId ? (usage) => recordTokenUsage(customerId, usage) : undefined,
       });
     }
   }
@@ -53,6 +56,11 @@ export class AIService {
       }
     }
 
+    // Not cached: the budget may be raised before the cache expires
+    if (this.openaiClient && (await this.isTokenBudgetExhausted())) {
+      return this.generateFallbackInsights(analyticsData, category);
+    }
+
     try {
       let insights: AIInsight[] = [];
 
@@ -103,6 +111,10 @@ export class AIService {
       }
     }
 
+    if (this.openaiClient && (await this.isTokenBudgetExhausted())) {
+      return this.generateFallbackRecommendations();
+    }
+
     try {
       let recommendations: string[] = [];
 
@@ -152,6 +164,23 @@ export class AIService {
     this.cache.clear();
   }
 
+  /**
+   * Whether the account has used its monthly OpenAI token budget
+   */
+  private async isTokenBudgetExhausted(): Promise<boolean> {
+    if (!this.config.customerId) {
+      return false;
+    }
+
+    const status = await getTokenBudgetStatus(this.config.customerId);
+    if (status.exhausted) {
+      console.warn(
+        `⚠️ [WARN] Monthly OpenAI token budget of ${this.config.customerId} exhausted (${status.usage.totalTokens}/${status.budget}), using fallback`
+      );
+    }
+    return status.exhausted;
+  }
+
   /**
    * Generate fallback insights when AI is unavailable
    */
@@ -223,9 +252,10 @@ export class AIService {
 
 /**
  * Create AI service instance from environment variables (legacy)
+ * With a customerId, OpenAI token usage is recorded and budgeted for the account
  * @deprecated Use createAIServiceWithConfig instead
  */
-export function createAIService(): AIService | null {
+export function createAIService(customerId?: string): AIService | null {
   const enabled = process.env.BOLTX_ENABLED === 'true';
   const openaiKey = process.env.OPENAI_API_KEY;
   const provider = (process.env.BOLTX_AI_PROVIDER || 'openai') as AIProvider;
@@ -252,6 +282,7 @@ export function createAIService(): AIService | null {
     rateLimit: {
       requestsPerMinute: parseInt(process.env.BOLTX_RATE_LIMIT || '60', 10),
     },
+    customerId,
   };
 
   if (provider === 'openai' && !openaiKey) {
@@ -6,6 +6,7 @@
  */
 
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { decryptSecret, secretContext } from '@/lib/secrets/envelope';
 import { AIServiceConfig, AIProvider } from './types';
 
 export interface BoltXConfiguration {
@@ -24,15 +25,24 @@ export interface BoltXConfiguration {
   rateLimit: {
     requestsPerMinute: number;
   };
+  /** Monthly OpenAI token budget (0 = no budget) */
+  monthlyTokenBudget: number;
   predictionModelVersion: string;
 }
 
 /**
- * Decrypt API key (simple base64 for now)
- * TODO: Implement proper decryption in production
+ * Decrypt the stored OpenAI API key of an account
+ * Returns null when it cannot be decrypted (e.g. unknown master key)
  */
-function decryptApiKey(encrypted: string): string {
-  return Buffer.from(encrypted, 'base64').toString('utf-8');
+function decryptApiKey(encrypted: string, customerId: string): string | null {
+  try {
+    return decryptSecret(encrypted, {
+      context: secretContext('boltx_configurations', 'openai_api_key', customerId),
+    });
+  } catch (error) {
+    console.error('❌ [DEBUG] Error decrypting OpenAI API key:', error);
+    return null;
+  }
 }
 
 /**
@@ -82,12 +92,16 @@ export async function loadBoltXConfiguration(
       rateLimit: {
         requestsPerMinute: config.rate_limit ?? 60,
       },
+      monthlyTokenBudget: config.openai_monthly_token_budget ?? 0,
       predictionModelVersion: config.prediction_model_version || 'v1',
     };
 
     // Add OpenAI config if provider is openai
-    if (dbConfig.ai_provider === 'openai' && config.openai_api_key_encrypted) {
-      const apiKey = decryptApiKey(config.openai_api_key_encrypted);
+    const apiKey = config.openai_api_key_encrypted
+      ? decryptApiKey(config.openai_api_key_encrypted, customerId)
+      : null;
+
+    if (dbConfig.ai_provider === 'openai' && apiKey) {
       dbConfig.openai = {
         apiKey,
         model: config.openai_model || 'gpt-4-turbo-preview',
@@ -133,6 +147,7 @@ function getEnvConfiguration(): BoltXConfiguration | null {
     rateLimit: {
       requestsPerMinute: parseInt(process.env.BOLTX_RATE_LIMIT || '60', 10),
     },
+    monthlyTokenBudget: parseInt(process.env.BOLTX_OPENAI_MONTHLY_TOKEN_BUDGET || '0', 10) || 0,
     predictionModelVersion: process.env.BOLTX_PREDICTION_MODEL_VERSION || 'v1',
   };
 
@@ -150,13 +165,18 @@ function getEnvConfiguration(): BoltXConfiguration | null {
 
 /**
  * Convert BoltXConfiguration to AIServiceConfig
+ * With a customerId, OpenAI token usage is recorded and budgeted for the account
  */
-export function toAIServiceConfig(config: BoltXConfiguration): AIServiceConfig {
+export function toAIServiceConfig(
+  config: BoltXConfiguration,
+  customerId?: string
+): AIServiceConfig {
   return {
     provider: config.ai_provider,
     openai: config.openai,
     cache: config.cache,
     rateLimit: config.rateLimit,
+    customerId,
   };
 }
 
@@ -0,0 +1,173 @@
+/**
+ * BoltX Usage Limits
+ *
+ * Per-account limits of the BoltX API (migration 090):
+ * - Rate limits: each account gets a token bucket per public endpoint sized by
+ *   its rateLimit.requestsPerMinute setting
+ * - Token budget: OpenAI tokens are counted per account and calendar month
+ *   (UTC). Once monthlyTokenBudget is reached, AIService serves the local
+ *   fallback insights until the next month.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  consumeRateLimit,
+  type ConsumeRateLimitOptions,
+  type RateLimitDecision,
+} from '@/lib/api/rate-limit';
+import { loadBoltXConfiguration } from './boltx-config-loader';
+import type { OpenAIUsage } from './openai-client';
+
+export type BoltXRateLimitedEndpoint = 'personalize' | 'optimize' | 'predictions' | 'realtime';
+
+export const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+export interface TokenUsage {
+  /** First day of the month (YYYY-MM-DD, UTC) */
+  periodStart: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** OpenAI requests made this month */
+  requests: number;
+}
+
+export interface TokenBudgetStatus {
+  usage: TokenUsage;
+  /** Monthly token budget (0 = no budget) */
+  budget: number;
+  /** Tokens left this month (null without a budget) */
+  remaining: number | null;
+  exhausted: boolean;
+  /** When the usage resets (ISO 8601) */
+  resetsAt: string;
+}
+
+/**
+ * Take a request from the account's bucket for a BoltX endpoint
+ * (capacity and refill per minute = the account's requestsPerMinute)
+ */
+export async function checkBoltXRateLimit(
+  customerId: string,
+  endpoint: BoltXRateLimitedEndpoint,
+  options: ConsumeRateLimitOptions = {}
+): Promise<RateLimitDecision> {
+  const config = await loadBoltXConfiguration(customerId);
+  const requestsPerMinute = config?.rateLimit.requestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE;
+
+  return consumeRateLimit(
+    `boltx:${customerId}:${endpoint}`,
+    { capacity: requestsPerMinute, refillPerSecond: requestsPerMinute / 60 },
+    options
+  );
+}
+
+/**
+ * Calendar month (UTC) containing `now`
+ */
+export function getUsagePeriod(now: Date = new Date()): { periodStart: string; resetsAt: string } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { periodStart: start.toISOString().slice(0, 10), resetsAt: next.toISOString() };
+}
+
+/**
+ * OpenAI token usage of the account this month
+ */
+export async function getTokenUsage(
+  customerId: string,
+  now: Date = new Date()
+): Promise<{ usage: TokenUsage; error: Error | null }> {
+  const { periodStart } = getUsagePeriod(now);
+  const empty: TokenUsage = {
+    periodStart,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    requests: 0,
+  };
+
+  const { data, error } = await getSupabaseAdmin().rpc('get_boltx_token_usage', {
+    p_customer_id: customerId,
+    p_period_start: periodStart,
+  });
+
+  if (error) {
+    return { usage: empty, error };
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return { usage: empty, error: null };
+  }
+
+  return {
+    usage: {
+      periodStart,
+      promptTokens: Number(row.prompt_tokens) || 0,
+      completionTokens: Number(row.completion_tokens) || 0,
+      totalTokens: Number(row.total_tokens) || 0,
+      requests: Number(row.requests) || 0,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Add the tokens of one OpenAI request to the account's monthly usage
+ */
+export async function recordTokenUsage(
+  customerId: string,
+  usage: OpenAIUsage,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await getSupabaseAdmin().rpc('record_boltx_token_usage', {
+    p_customer_id: customerId,
+    p_period_start: getUsagePeriod(now).periodStart,
+    p_prompt_tokens: usage.promptTokens,
+    p_completion_tokens: usage.completionTokens,
+    p_total_tokens: usage.totalTokens,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Error recording BoltX token usage:', error);
+  }
+}
+
+/**
+ * Compare the month's usage with the budget
+ */
+export function toTokenBudgetStatus(
+  usage: TokenUsage,
+  budget: number,
+  now: Date = new Date()
+): TokenBudgetStatus {
+  const hasBudget = budget > 0;
+  return {
+    usage,
+    budget: hasBudget ? budget : 0,
+    remaining: hasBudget ? Math.max(0, budget - usage.totalTokens) : null,
+    exhausted: hasBudget && usage.totalTokens >= budget,
+    resetsAt: getUsagePeriod(now).resetsAt,
+  };
+}
+
+/**
+ * Token budget status of the account this month
+ * When the usage cannot be read the budget is treated as available.
+ */
+export async function getTokenBudgetStatus(
+  customerId: string,
+  now: Date = new Date()
+): Promise<TokenBudgetStatus> {
+  const [config, { usage, error }] = await Promise.all([
+    loadBoltXConfiguration(customerId),
+    getTokenUsage(customerId, now),
+  ]);
+
+  if (error) {
+    console.error('❌ [DEBUG] Error fetching BoltX token usage:', error);
+  }
+
+  return toTokenBudgetStatus(usage, config?.monthlyTokenBudget ?? 0, now);
+}
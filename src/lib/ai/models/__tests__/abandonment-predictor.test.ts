@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EnhancedAbandonmentPredictor,
+  ModelTrainingError,
+  isHoldoutSession,
+  type HistoricalTrainingData,
+} from '../abandonment-predictor';
+import { classificationMetrics, encodeFeatures, FEATURE_NAMES } from '../logistic-regression';
+import type { PredictionFeatures } from '../../types';
+
+// Deterministic pseudo-random numbers (LCG) so the tests are reproducible
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 0x100000000;
+    return state / 0x100000000;
+  };
+}
+
+function features(overrides: Partial<PredictionFeatures> = {}): PredictionFeatures {
+  return {
+    timeExceeded: 0.5,
+    errorCount: 0,
+    currentStep: 'shipping',
+    stepDuration: 60,
+    totalDuration: 120,
+    hasReturned: false,
+    stepProgress: 0.6,
+    deviceType: 'desktop',
+    historicalAbandonments: 0,
+    avgCheckoutTime: 180,
+    historicalConversionRate: 0.5,
+    ...overrides,
+  };
+}
+
+/**
+ * Sessions where errors and mobile devices drive abandonment
+ */
+function syntheticSessions(count: number, seed = 42): HistoricalTrainingData[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, (_, index) => {
+    const errorCount = Math.floor(random() * 4);
+    const deviceType = random() < 0.5 ? 'mobile' : 'desktop';
+    const logit = -2 + 1.5 * errorCount + (deviceType === 'mobile' ? 1 : 0);
+    const abandoned = random() < 1 / (1 + Math.exp(-logit));
+
+    return {
+      sessionId: `session-${index}`,
+      features: features({ errorCount, deviceType }),
+      outcome: abandoned ? 'abandoned' : 'completed',
+      timestamp: new Date('2026-10-01T00:00:00Z'),
+    };
+  });
+}
+
+describe('encodeFeatures', () => {
+  it('should produce one value per feature name', () => {
+    expect(encodeFeatures(features())).toHaveLength(FEATURE_NAMES.length);
+  });
+
+  it('should one-hot encode the step and device', () => {
+    const encoded = encodeFeatures(features({ currentStep: 'payment', deviceType: 'mobile' }));
+    expect(encoded[FEATURE_NAMES.indexOf('step_payment')]).toBe(1);
+    expect(encoded[FEATURE_NAMES.indexOf('step_shipping')]).toBe(0);
+    expect(encoded[FEATURE_NAMES.indexOf('device_mobile')]).toBe(1);
+  });
+});
+
+describe('classificationMetrics', () => {
+  it('should compute the confusion matrix metrics and AUC', () => {
+    const metrics = classificationMetrics([1, 1, 0, 0], [0.9, 0.4, 0.6, 0.1]);
+
+    expect(metrics.accuracy).toBe(0.5);
+    expect(metrics.precision).toBe(0.5);
+    expect(metrics.recall).toBe(0.5);
+    expect(metrics.auc).toBe(0.75);
+  });
+});
+
+describe('isHoldoutSession', () => {
+  it('should keep about 20% of sessions out of training, always the same ones', () => {
+    const sessions = Array.from({ length: 5000 }, (_, index) => `session-${index}`);
+    const holdout = sessions.filter(isHoldoutSession);
+
+    expect(holdout.length / sessions.length).toBeGreaterThan(0.17);
+    expect(holdout.length / sessions.length).toBeLessThan(0.23);
+    expect(sessions.filter(isHoldoutSession)).toEqual(holdout);
+  });
+});
+
+describe('EnhancedAbandonmentPredictor.train', () => {
+  it('should learn the abandonment signal and report holdout metrics', () => {
+    const predictor = new EnhancedAbandonmentPredictor();
+    const { artifact, metrics } = predictor.train(syntheticSessions(1500));
+
+    expect(artifact.algorithm).toBe('logistic_regression');
+    expect(metrics.holdoutSize).toBeGreaterThan(200);
+    expect(metrics.trainingSize + (metrics.holdoutSize ?? 0)).toBe(1500);
+    expect(metrics.auc).toBeGreaterThan(0.75);
+    // The built-in weights rank these sessions alike but never reach a score of 50
+    expect(metrics.auc).toBeGreaterThanOrEqual(metrics.baseline!.auc);
+    expect(metrics.f1Score).toBeGreaterThan(metrics.baseline!.f1Score);
+
+    const errorWeight = artifact.weights[FEATURE_NAMES.indexOf('errorCount')];
+    expect(errorWeight).toBeGreaterThan(0);
+  });
+
+  it('should score sessions with the trained model', () => {
+    const predictor = new EnhancedAbandonmentPredictor();
+    predictor.train(syntheticSessions(1500));
+
+    const risky = predictor.predict(features({ errorCount: 3, deviceType: 'mobile' }));
+    const safe = predictor.predict(features({ errorCount: 0, deviceType: 'desktop' }));
+
+    expect(risky.riskScore).toBeGreaterThan(80);
+    expect(safe.riskScore).toBeLessThan(30);
+    expect(risky.interventionSuggested).toBe(true);
+  });
+
+  it('should refuse to train without enough sessions', () => {
+    const predictor = new EnhancedAbandonmentPredictor();
+    expect(() => predictor.train(syntheticSessions(30))).toThrow(ModelTrainingError);
+  });
+
+  it('should refuse to train with a single outcome', () => {
+    const sessions = syntheticSessions(500).map((session) => ({
+      ...session,
+      outcome: 'completed' as const,
+    }));
+    expect(() => new EnhancedAbandonmentPredictor().train(sessions)).toThrow(
+      'both completed and abandoned'
+    );
+  });
+});
+
+describe('EnhancedAbandonmentPredictor model versions', () => {
+  it('should use the built-in model without a trained model', () => {
+    const predictor = new EnhancedAbandonmentPredictor();
+    expect(predictor.getModelVersion()).toBe('v1');
+  });
+
+  it('should use a loaded model', () => {
+    const { artifact, metrics } = new EnhancedAbandonmentPredictor().train(syntheticSessions(1500));
+    const predictor = new EnhancedAbandonmentPredictor({ version: 'v4', artifact, metrics });
+
+    expect(predictor.getModelVersion()).toBe('v4');
+    expect(predictor.getMetrics()).toBe(metrics);
+    expect(predictor.predict(features({ errorCount: 3 })).riskScore).toBeGreaterThan(50);
+  });
+});
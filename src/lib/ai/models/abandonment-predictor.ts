@@ -1,11 +1,30 @@
 /**
  * Enhanced Abandonment Predictor Model
  * 
- * Advanced ML-based prediction model with historical data training
+ * Advanced ML-based prediction model with historical data training.
+ * Without a trained model it scores with the built-in weights (v1).
  */
 
+import { createHash } from 'crypto';
 import { AbandonmentPredictor as BasePredictor } from '../prediction-models';
 import { PredictionFeatures, AbandonmentPrediction } from '../types';
+import {
+  classificationMetrics,
+  predictAbandonmentProbability,
+  trainLogisticRegression,
+  type ClassificationMetrics,
+  type LogisticRegressionArtifact,
+} from './logistic-regression';
+
+/**
+ * Version of the built-in rule-based model
+ */
+export const BUILT_IN_MODEL_VERSION = 'v1';
+
+// Share of sessions kept out of training to measure the model
+const HOLDOUT_FRACTION = 0.2;
+const MIN_TRAINING_SAMPLES = 50;
+const MIN_HOLDOUT_SAMPLES = 10;
 
 export interface HistoricalTrainingData {
   sessionId: string;
@@ -19,32 +38,139 @@ export interface ModelMetrics {
   precision: number;
   recall: number;
   f1Score: number;
-  lastTrained: Date;
+  /** Dates are serialized as ISO strings by the API */
+  lastTrained: Date | string | null;
   trainingSize: number;
+  // Trained models only: measured on the holdout set
+  version?: string;
+  algorithm?: string;
+  holdoutSize?: number;
+  auc?: number;
+  logLoss?: number;
+  /** Built-in (v1) model on the same holdout set, for comparison */
+  baseline?: ClassificationMetrics;
+}
+
+/**
+ * A trained model as stored in the model registry
+ */
+export interface TrainedAbandonmentModel {
+  version: string;
+  artifact: LogisticRegressionArtifact;
+  metrics: ModelMetrics;
+}
+
+export class ModelTrainingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelTrainingError';
+  }
+}
+
+/**
+ * Whether a session belongs to the holdout set
+ * Based on a hash of the session id, so retraining keeps the same split
+ */
+export function isHoldoutSession(sessionId: string): boolean {
+  const digest = createHash('sha256').update(sessionId).digest();
+  return digest.readUInt32BE(0) / 0x100000000 < HOLDOUT_FRACTION;
 }
 
 export class EnhancedAbandonmentPredictor extends BasePredictor {
   private modelMetrics: ModelMetrics | null = null;
+  private model: TrainedAbandonmentModel | null = null;
   private predictionHistory: Map<string, AbandonmentPrediction[]> = new Map();
 
+  constructor(model?: TrainedAbandonmentModel | null) {
+    super();
+    if (model) {
+      this.loadModel(model);
+    }
+  }
+
   /**
-   * Train model with historical data
+   * Score sessions with a trained model instead of the built-in weights
    */
-  train(data: HistoricalTrainingData[]): void {
-    if (data.length === 0) {
-      console.warn('⚠️ [DEBUG] No training data provided');
-      return;
+  loadModel(model: TrainedAbandonmentModel): void {
+    this.model = model;
+    this.modelMetrics = model.metrics;
+  }
+
+  /**
+   * Version of the model used for predictions
+   */
+  getModelVersion(): string {
+    return this.model?.version ?? BUILT_IN_MODEL_VERSION;
+  }
+
+  /**
+   * Train a logistic regression on historical sessions
+   *
+   * Sessions are split into a training set and a holdout set (isHoldoutSession);
+   * the returned metrics are measured on the holdout set only. The trained
+   * model is used for the next predictions of this instance.
+   *
+   * @throws ModelTrainingError when there is not enough data of both outcomes
+   */
+  train(data: HistoricalTrainingData[]): Omit<TrainedAbandonmentModel, 'version'> {
+    const training = data.filter((sample) => !isHoldoutSession(sample.sessionId));
+    const holdout = data.filter((sample) => isHoldoutSession(sample.sessionId));
+    const outcomes = new Set(training.map((sample) => sample.outcome));
+
+    if (training.length < MIN_TRAINING_SAMPLES || holdout.length < MIN_HOLDOUT_SAMPLES) {
+      throw new ModelTrainingError(
+        `Not enough sessions with a known outcome to train (${data.length}, need at least ${MIN_TRAINING_SAMPLES + MIN_HOLDOUT_SAMPLES})`
+      );
     }
-    
-    // Calculate model metrics
-    const metrics = this.calculateMetrics(data);
-    this.modelMetrics = {
+    if (outcomes.size < 2) {
+      throw new ModelTrainingError('Training data needs both completed and abandoned sessions');
+    }
+
+    const artifact = trainLogisticRegression(
+      training.map((sample) => ({
+        features: sample.features,
+        label: sample.outcome === 'abandoned' ? 1 : 0,
+      }))
+    );
+
+    const labels = holdout.map((sample) => (sample.outcome === 'abandoned' ? 1 : 0));
+    const metrics = classificationMetrics(
+      labels,
+      holdout.map((sample) => predictAbandonmentProbability(artifact, sample.features)),
+      artifact.threshold
+    );
+    const baseline = classificationMetrics(
+      labels,
+      holdout.map((sample) => super.calculateRiskScore(sample.features) / 100),
+      0.5
+    );
+
+    const modelMetrics: ModelMetrics = {
       ...metrics,
+      baseline,
+      algorithm: artifact.algorithm,
       lastTrained: new Date(),
-      trainingSize: data.length,
+      trainingSize: training.length,
+      holdoutSize: holdout.length,
     };
 
-    console.info(`✅ [DEBUG] Model trained with ${data.length} samples. Accuracy: ${(metrics.accuracy * 100).toFixed(2)}%`);
+    // The registry assigns the version when the model is stored
+    this.model = { version: 'unsaved', artifact, metrics: modelMetrics };
+    this.modelMetrics = modelMetrics;
+
+    console.info(`✅ [DEBUG] Model trained with ${training.length} samples. Holdout accuracy: ${(metrics.accuracy * 100).toFixed(2)}% (${holdout.length} samples)`);
+
+    return { artifact, metrics: modelMetrics };
+  }
+
+  /**
+   * Risk score from the trained model (probability of abandonment as 0-100)
+   */
+  protected calculateRiskScore(features: PredictionFeatures): number {
+    if (!this.model) {
+      return super.calculateRiskScore(features);
+    }
+    return predictAbandonmentProbability(this.model.artifact, features) * 100;
   }
 
   /**
@@ -121,51 +247,6 @@ export class EnhancedAbandonmentPredictor extends BasePredictor {
     return prediction;
   }
 
-  /**
-   * Calculate model metrics from training data
-   */
-  private calculateMetrics(data: HistoricalTrainingData[]): Omit<ModelMetrics, 'lastTrained' | 'trainingSize'> {
-    let truePositives = 0; // Predicted high risk, actually abandoned
-    let falsePositives = 0; // Predicted high risk, actually completed
-    let trueNegatives = 0; // Predicted low risk, actually completed
-    let falseNegatives = 0; // Predicted low risk, actually abandoned
-
-    data.forEach((sample) => {
-      const prediction = super.predict(sample.features);
-      const isHighRisk = prediction.riskScore >= 50;
-      const actuallyAbandoned = sample.outcome === 'abandoned';
-
-      if (isHighRisk && actuallyAbandoned) {
-        truePositives++;
-      } else if (isHighRisk && !actuallyAbandoned) {
-        falsePositives++;
-      } else if (!isHighRisk && !actuallyAbandoned) {
-        trueNegatives++;
-      } else {
-        falseNegatives++;
-      }
-    });
-
-    const total = data.length;
-    const accuracy = total > 0 ? (truePositives + trueNegatives) / total : 0;
-    const precision = truePositives + falsePositives > 0
-      ? truePositives / (truePositives + falsePositives)
-      : 0;
-    const recall = truePositives + falseNegatives > 0
-      ? truePositives / (truePositives + falseNegatives)
-      : 0;
-    const f1Score = precision + recall > 0
-      ? (2 * precision * recall) / (precision + recall)
-      : 0;
-
-    return {
-      accuracy,
-      precision,
-      recall,
-      f1Score,
-    };
-  }
-
   /**
    * Get model metrics
    */
@@ -174,13 +255,14 @@ export class EnhancedAbandonmentPredictor extends BasePredictor {
   }
 
   /**
-   * Load training data from database
+   * Load training data from database and train
+   * Scheduling retraining is up to the model registry (see model-registry.ts)
    */
   async loadTrainingDataFromDatabase(
     fetchFunction: (limit: number) => Promise<HistoricalTrainingData[]>
   ): Promise<void> {
     try {
-      const data = await fetchFunction(1000); // Load last 1000 samples
+      const data = await fetchFunction(5000); // Load last 5000 sessions
       if (data.length > 0) {
         this.train(data);
       }
@@ -189,28 +271,6 @@ export class EnhancedAbandonmentPredictor extends BasePredictor {
     }
   }
 
-  /**
-   * Retrain model periodically
-   */
-  async retrainModel(
-    fetchFunction: (limit: number) => Promise<HistoricalTrainingData[]>,
-    intervalMs: number = 24 * 60 * 60 * 1000 // 24 hours
-  ): Promise<void> {
-    const train = async () => {
-      try {
-        await this.loadTrainingDataFromDatabase(fetchFunction);
-      } catch (error) {
-        console.error('❌ [DEBUG] Error retraining model:', error);
-      }
-    };
-
-    // Train immediately
-    await train();
-
-    // Set up periodic retraining
-    setInterval(train, intervalMs);
-  }
-
   /**
    * Clear prediction history for a session
    */
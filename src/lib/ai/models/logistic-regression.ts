@@ -0,0 +1,248 @@
+/**
+ * Logistic Regression Abandonment Model
+ *
+ * Pure TypeScript logistic regression over the abandonment prediction
+ * features. Features are standardized with the training means/scales, fitted
+ * with batch gradient descent and L2 regularization, and the whole model is
+ * serializable (LogisticRegressionArtifact) so it can be stored in the model
+ * registry and loaded back for scoring.
+ */
+
+import type { PredictionFeatures } from '../types';
+
+export const FEATURE_NAMES = [
+  'timeExceeded',
+  'logTotalDuration',
+  'logStepDuration',
+  'errorCount',
+  'stepProgress',
+  'hasReturned',
+  'step_cart',
+  'step_login',
+  'step_profile',
+  'step_shipping',
+  'step_payment',
+  'device_mobile',
+  'device_tablet',
+  'logHistoricalAbandonments',
+  'historicalConversionRate',
+  'logAvgCheckoutTime',
+] as const;
+
+const STEPS = ['cart', 'login', 'profile', 'shipping', 'payment'];
+
+// Defaults used by the predictions API when there is no history
+const DEFAULT_CONVERSION_RATE = 0.5;
+const DEFAULT_AVG_CHECKOUT_TIME = 180;
+
+export interface LogisticRegressionArtifact {
+  algorithm: 'logistic_regression';
+  featureNames: string[];
+  means: number[];
+  scales: number[];
+  weights: number[];
+  bias: number;
+  /** Probability above which a session is classified as abandoning */
+  threshold: number;
+}
+
+export interface TrainingSample {
+  features: PredictionFeatures;
+  /** 1 = abandoned, 0 = completed */
+  label: 0 | 1;
+}
+
+export interface TrainingOptions {
+  learningRate?: number;
+  iterations?: number;
+  l2?: number;
+  threshold?: number;
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  /** Area under the ROC curve (0.5 = random) */
+  auc: number;
+  logLoss: number;
+}
+
+/**
+ * Encode prediction features as the model's numeric feature vector
+ */
+export function encodeFeatures(features: PredictionFeatures): number[] {
+  const step = features.currentStep;
+
+  return [
+    Math.min(10, Math.max(0, features.timeExceeded || 0)),
+    Math.log1p(Math.max(0, features.totalDuration || 0)),
+    Math.log1p(Math.max(0, features.stepDuration || 0)),
+    Math.min(10, Math.max(0, features.errorCount || 0)),
+    Math.min(1, Math.max(0, features.stepProgress || 0)),
+    features.hasReturned ? 1 : 0,
+    ...STEPS.map((name) => (step === name ? 1 : 0)),
+    features.deviceType === 'mobile' ? 1 : 0,
+    features.deviceType === 'tablet' ? 1 : 0,
+    Math.log1p(Math.max(0, features.historicalAbandonments || 0)),
+    features.historicalConversionRate ?? DEFAULT_CONVERSION_RATE,
+    Math.log1p(Math.max(0, features.avgCheckoutTime ?? DEFAULT_AVG_CHECKOUT_TIME)),
+  ];
+}
+
+function sigmoid(value: number): number {
+  if (value >= 0) {
+    return 1 / (1 + Math.exp(-value));
+  }
+  const exp = Math.exp(value);
+  return exp / (1 + exp);
+}
+
+function standardize(vector: number[], means: number[], scales: number[]): number[] {
+  return vector.map((value, index) => (value - means[index]) / scales[index]);
+}
+
+/**
+ * Fit a logistic regression on labeled samples
+ */
+export function trainLogisticRegression(
+  samples: TrainingSample[],
+  options: TrainingOptions = {}
+): LogisticRegressionArtifact {
+  const { learningRate = 0.1, iterations = 500, l2 = 0.01, threshold = 0.5 } = options;
+
+  if (samples.length === 0) {
+    throw new Error('Cannot train a model without samples');
+  }
+
+  const rows = samples.map((sample) => encodeFeatures(sample.features));
+  const labels = samples.map((sample) => sample.label);
+  const n = rows.length;
+  const dimensions = FEATURE_NAMES.length;
+
+  // Feature scaling (constant features keep a scale of 1)
+  const means = new Array(dimensions).fill(0);
+  const scales = new Array(dimensions).fill(0);
+  for (const row of rows) {
+    row.forEach((value, index) => (means[index] += value / n));
+  }
+  for (const row of rows) {
+    row.forEach((value, index) => (scales[index] += (value - means[index]) ** 2 / n));
+  }
+  for (let index = 0; index < dimensions; index++) {
+    scales[index] = Math.sqrt(scales[index]) || 1;
+  }
+
+  const x = rows.map((row) => standardize(row, means, scales));
+  const weights = new Array(dimensions).fill(0);
+  const positiveRate = labels.reduce<number>((sum, label) => sum + label, 0) / n;
+  // Start from the base rate so early iterations only learn the features
+  let bias = Math.log(Math.max(1e-6, positiveRate) / Math.max(1e-6, 1 - positiveRate));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = new Array(dimensions).fill(0);
+    let biasGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      let z = bias;
+      for (let j = 0; j < dimensions; j++) {
+        z += weights[j] * x[i][j];
+      }
+      const error = sigmoid(z) - labels[i];
+      for (let j = 0; j < dimensions; j++) {
+        gradient[j] += error * x[i][j];
+      }
+      biasGradient += error;
+    }
+
+    for (let j = 0; j < dimensions; j++) {
+      weights[j] -= learningRate * (gradient[j] / n + l2 * weights[j]);
+    }
+    bias -= learningRate * (biasGradient / n);
+  }
+
+  return {
+    algorithm: 'logistic_regression',
+    featureNames: [...FEATURE_NAMES],
+    means,
+    scales,
+    weights,
+    bias,
+    threshold,
+  };
+}
+
+/**
+ * Probability that a session is abandoned
+ */
+export function predictAbandonmentProbability(
+  artifact: LogisticRegressionArtifact,
+  features: PredictionFeatures
+): number {
+  const x = standardize(encodeFeatures(features), artifact.means, artifact.scales);
+  const z = x.reduce((sum, value, index) => sum + value * artifact.weights[index], artifact.bias);
+  return sigmoid(z);
+}
+
+/**
+ * Area under the ROC curve (Mann-Whitney U, ties count half)
+ */
+function areaUnderCurve(labels: number[], probabilities: number[]): number {
+  const positives = probabilities.filter((_, index) => labels[index] === 1);
+  const negatives = probabilities.filter((_, index) => labels[index] === 0);
+
+  if (positives.length === 0 || negatives.length === 0) {
+    return 0.5;
+  }
+
+  let wins = 0;
+  for (const positive of positives) {
+    for (const negative of negatives) {
+      wins += positive > negative ? 1 : positive === negative ? 0.5 : 0;
+    }
+  }
+  return wins / (positives.length * negatives.length);
+}
+
+/**
+ * Classification metrics of predicted probabilities against labels
+ */
+export function classificationMetrics(
+  labels: number[],
+  probabilities: number[],
+  threshold: number = 0.5
+): ClassificationMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let trueNegatives = 0;
+  let falseNegatives = 0;
+  let logLoss = 0;
+
+  labels.forEach((label, index) => {
+    const probability = Math.min(1 - 1e-12, Math.max(1e-12, probabilities[index]));
+    const predicted = probabilities[index] >= threshold;
+
+    if (predicted && label === 1) truePositives++;
+    else if (predicted && label === 0) falsePositives++;
+    else if (!predicted && label === 0) trueNegatives++;
+    else falseNegatives++;
+
+    logLoss -= label * Math.log(probability) + (1 - label) * Math.log(1 - probability);
+  });
+
+  const total = labels.length;
+  const precision =
+    truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall =
+    truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+
+  return {
+    accuracy: total > 0 ? (truePositives + trueNegatives) / total : 0,
+    precision,
+    recall,
+    f1Score: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    auc: areaUnderCurve(labels, probabilities),
+    logLoss: total > 0 ? logLoss / total : 0,
+  };
+}
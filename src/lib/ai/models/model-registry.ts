@@ -0,0 +1,320 @@
+/**
+ * Abandonment Model Registry
+ *
+ * Trains abandonment models per account and stores them as versioned
+ * artifacts (migration 089). The BoltX predictionModelVersion setting picks
+ * the model used for predictions:
+ * - 'v1': built-in rule-based model
+ * - 'v2', 'v3', ...: a trained version
+ * - 'latest': newest trained model, retrained once it is older than
+ *   BOLTX_MODEL_MAX_AGE_HOURS (default 24)
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { loadBoltXConfiguration } from '../boltx-config-loader';
+import type { PredictionFeatures } from '../types';
+import {
+  BUILT_IN_MODEL_VERSION,
+  EnhancedAbandonmentPredictor,
+  type HistoricalTrainingData,
+  type ModelMetrics,
+  type TrainedAbandonmentModel,
+} from './abandonment-predictor';
+import type { LogisticRegressionArtifact } from './logistic-regression';
+
+export const LATEST_MODEL_VERSION = 'latest';
+
+const MODEL_VERSION_PATTERN = /^v[0-9]+$/;
+
+const TRAINING_WINDOW_DAYS = 90;
+const TRAINING_LIMIT = 5000;
+const DEFAULT_MAX_AGE_HOURS = 24;
+
+// Failed automatic retrains (usually not enough data) are not retried before this
+const RETRAIN_RETRY_MS = 60 * 60 * 1000;
+const lastRetrainAttempts = new Map<string, number>();
+
+/**
+ * Valid predictionModelVersion values: 'latest' or a version ('v1', 'v2', ...)
+ */
+export function isValidModelVersion(version: unknown): version is string {
+  return (
+    typeof version === 'string' &&
+    (version === LATEST_MODEL_VERSION || MODEL_VERSION_PATTERN.test(version))
+  );
+}
+
+interface AbandonmentModelRow {
+  id: string;
+  version: string;
+  algorithm: string;
+  artifact: LogisticRegressionArtifact | null;
+  metrics: Partial<ModelMetrics> | null;
+  training_size: number;
+  holdout_size: number;
+  trained_at: string;
+}
+
+/**
+ * Stored model without its artifact (model lists)
+ */
+export interface AbandonmentModelSummary {
+  id: string;
+  version: string;
+  algorithm: string;
+  metrics: ModelMetrics;
+}
+
+function toMetrics(row: AbandonmentModelRow): ModelMetrics {
+  const metrics = row.metrics || {};
+  return {
+    accuracy: Number(metrics.accuracy) || 0,
+    precision: Number(metrics.precision) || 0,
+    recall: Number(metrics.recall) || 0,
+    f1Score: Number(metrics.f1Score) || 0,
+    auc: metrics.auc,
+    logLoss: metrics.logLoss,
+    baseline: metrics.baseline,
+    version: row.version,
+    algorithm: row.algorithm,
+    lastTrained: row.trained_at,
+    trainingSize: row.training_size,
+    holdoutSize: row.holdout_size,
+  };
+}
+
+function toSummary(row: AbandonmentModelRow): AbandonmentModelSummary {
+  return { id: row.id, version: row.version, algorithm: row.algorithm, metrics: toMetrics(row) };
+}
+
+/**
+ * Rebuild prediction features from the factors stored with a prediction
+ */
+export function factorsToFeatures(factors: Record<string, any>): PredictionFeatures {
+  const history = factors.historicalData || {};
+  return {
+    timeExceeded: Number(factors.timeExceeded) || 0,
+    errorCount: Number(factors.errorCount) || 0,
+    currentStep: typeof factors.currentStep === 'string' ? factors.currentStep : 'cart',
+    stepDuration: Number(factors.stepDuration) || 0,
+    totalDuration: Number(factors.totalDuration) || 0,
+    hasReturned: !!factors.hasReturned,
+    stepProgress: Number(factors.stepProgress) || 0,
+    deviceType: factors.deviceType,
+    location: factors.location,
+    historicalAbandonments: history.previousAbandonments,
+    avgCheckoutTime: history.avgCheckoutTime,
+    historicalConversionRate: history.conversionRate,
+  };
+}
+
+/**
+ * Sessions of the last 90 days with a prediction and a known outcome
+ */
+export async function loadAbandonmentTrainingData(
+  customerId: string
+): Promise<{ data: HistoricalTrainingData[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_abandonment_training_data', {
+    p_customer_id: customerId,
+    p_start_date: new Date(Date.now() - TRAINING_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    p_limit: TRAINING_LIMIT,
+  });
+
+  if (error) {
+    return { data: [], error };
+  }
+
+  return {
+    data: (
+      (data || []) as Array<{
+        session_id: string;
+        factors: Record<string, any>;
+        outcome: 'completed' | 'abandoned';
+        predicted_at: string;
+      }>
+    ).map((row) => ({
+      sessionId: row.session_id,
+      features: factorsToFeatures(row.factors || {}),
+      outcome: row.outcome,
+      timestamp: new Date(row.predicted_at),
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Train a model on the account's history and store it as the next version
+ * @throws ModelTrainingError when there is not enough data
+ */
+export async function trainAbandonmentModel(
+  customerId: string
+): Promise<{ model: (TrainedAbandonmentModel & { id: string }) | null; error: Error | null }> {
+  const { data, error: loadError } = await loadAbandonmentTrainingData(customerId);
+  if (loadError) {
+    return { model: null, error: loadError };
+  }
+
+  const { artifact, metrics } = new EnhancedAbandonmentPredictor().train(data);
+
+  const { data: rows, error } = await getSupabaseAdmin().rpc('insert_abandonment_model', {
+    p_customer_id: customerId,
+    p_algorithm: artifact.algorithm,
+    p_artifact: artifact,
+    p_metrics: {
+      accuracy: metrics.accuracy,
+      precision: metrics.precision,
+      recall: metrics.recall,
+      f1Score: metrics.f1Score,
+      auc: metrics.auc,
+      logLoss: metrics.logLoss,
+      baseline: metrics.baseline,
+    },
+    p_training_size: metrics.trainingSize,
+    p_holdout_size: metrics.holdoutSize ?? 0,
+  });
+
+  if (error || !rows?.[0]) {
+    return { model: null, error: error || new Error('Model was not stored') };
+  }
+
+  const stored = rows[0] as { id: string; version: string; trained_at: string };
+  console.info(`✅ [DEBUG] Abandonment model ${stored.version} stored for ${customerId}`);
+
+  return {
+    model: {
+      id: stored.id,
+      version: stored.version,
+      artifact,
+      metrics: { ...metrics, version: stored.version, lastTrained: stored.trained_at },
+    },
+    error: null,
+  };
+}
+
+/**
+ * Trained models of an account, newest first (without artifacts)
+ */
+export async function listAbandonmentModels(
+  customerId: string
+): Promise<{ models: AbandonmentModelSummary[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_abandonment_models', {
+    p_customer_id: customerId,
+    p_version: null,
+    p_include_artifact: false,
+  });
+
+  if (error) {
+    return { models: [], error };
+  }
+
+  return { models: ((data || []) as AbandonmentModelRow[]).map(toSummary), error: null };
+}
+
+/**
+ * Load a trained model ('latest' or a version)
+ * Returns null for the built-in version or when the version does not exist
+ */
+export async function loadAbandonmentModel(
+  customerId: string,
+  version: string
+): Promise<{ model: TrainedAbandonmentModel | null; error: Error | null }> {
+  if (version === BUILT_IN_MODEL_VERSION) {
+    return { model: null, error: null };
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('get_abandonment_models', {
+    p_customer_id: customerId,
+    p_version: version,
+    p_include_artifact: true,
+  });
+
+  if (error) {
+    return { model: null, error };
+  }
+
+  const row = (data as AbandonmentModelRow[] | null)?.[0];
+  if (!row?.artifact) {
+    return { model: null, error: null };
+  }
+
+  return {
+    model: { version: row.version, artifact: row.artifact, metrics: toMetrics(row) },
+    error: null,
+  };
+}
+
+function getMaxAgeMs(): number {
+  const hours = Number(process.env.BOLTX_MODEL_MAX_AGE_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Whether the 'latest' model should be retrained
+ */
+export function isModelStale(
+  model: Pick<TrainedAbandonmentModel, 'metrics'> | null,
+  now: Date = new Date()
+): boolean {
+  if (!model?.metrics.lastTrained) {
+    return true;
+  }
+  return now.getTime() - new Date(model.metrics.lastTrained).getTime() >= getMaxAgeMs();
+}
+
+/**
+ * Resolve the model version configured for the account
+ */
+export async function getConfiguredModelVersion(customerId: string): Promise<string> {
+  const config = await loadBoltXConfiguration(customerId);
+  return config?.predictionModelVersion || BUILT_IN_MODEL_VERSION;
+}
+
+/**
+ * Create the predictor for the account's configured model version
+ *
+ * With 'latest', a missing or stale model is retrained first (at most once
+ * per hour when training fails). Any failure falls back to the newest stored
+ * model, then to the built-in model.
+ */
+export async function createAbandonmentPredictor(
+  customerId: string
+): Promise<EnhancedAbandonmentPredictor> {
+  const version = await getConfiguredModelVersion(customerId);
+  if (version === BUILT_IN_MODEL_VERSION) {
+    return new EnhancedAbandonmentPredictor();
+  }
+
+  const { model, error } = await loadAbandonmentModel(customerId, version);
+  if (error) {
+    console.error('❌ [DEBUG] Error loading abandonment model:', error);
+    return new EnhancedAbandonmentPredictor();
+  }
+
+  if (version !== LATEST_MODEL_VERSION) {
+    if (!model) {
+      console.warn(
+        `⚠️ [WARN] Abandonment model ${version} not found, using ${BUILT_IN_MODEL_VERSION}`
+      );
+    }
+    return new EnhancedAbandonmentPredictor(model);
+  }
+
+  const lastAttempt = lastRetrainAttempts.get(customerId) ?? 0;
+  if (isModelStale(model) && Date.now() - lastAttempt >= RETRAIN_RETRY_MS) {
+    lastRetrainAttempts.set(customerId, Date.now());
+    try {
+      const { model: trained, error: trainError } = await trainAbandonmentModel(customerId);
+      if (trainError) {
+        throw trainError;
+      }
+      if (trained) {
+        lastRetrainAttempts.delete(customerId);
+        return new EnhancedAbandonmentPredictor(trained);
+      }
+    } catch (trainError) {
+      console.warn('⚠️ [WARN] Could not retrain abandonment model:', trainError);
+    }
+  }
+
+  return new EnhancedAbandonmentPredictor(model);
+}
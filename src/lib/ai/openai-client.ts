@@ -6,13 +6,15 @@
 
 import { AIError, AIInsight, InsightCategory, InsightImpact } from './types';
 
+export interface OpenAIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
 export interface OpenAIResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: OpenAIUsage;
 }
 
 export class OpenAIClient {
@@ -21,17 +23,21 @@ export class OpenAIClient {
   private baseUrl: string = 'https://api.openai.com/v1';
   private maxTokens: number = 2000;
   private temperature: number = 0.7;
+  private onUsage?: (usage: OpenAIUsage) => void | Promise<void>;
 
   constructor(config: {
     apiKey: string;
     model?: string;
     maxTokens?: number;
     temperature?: number;
+    /** Called with the token usage of every successful request */
+    onUsage?: (usage: OpenAIUsage) => void | Promise<void>;
   }) {
     this.apiKey = config.apiKey;
     this.model = config.model || 'gpt-4-turbo-preview';
     this.maxTokens = config.maxTokens || 2000;
     this.temperature = config.temperature || 0.7;
+    this.onUsage = config.onUsage;
   }
 
   /**
@@ -107,13 +113,26 @@ export class OpenAIClient {
     const data = await response.json();
     const content = data.choices[0]?.message?.content;
 
+    // Tokens are billed even when the response has no content
+    const usage: OpenAIUsage | undefined = data.usage
+      ? {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? 0,
+        }
+      : undefined;
+
+    if (usage && this.onUsage) {
+      await this.onUsage(usage);
+    }
+
     if (!content) {
       throw new Error('No content in OpenAI response');
     }
 
     return {
       content,
-      usage: data.usage,
+      usage,
     };
   }
 
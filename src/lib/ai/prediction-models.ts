@@ -16,6 +16,52 @@ export class AbandonmentPredictor {
    * Predict abandonment risk
    */
   predict(features: PredictionFeatures): AbandonmentPrediction {
+    const riskScore = this.calculateRiskScore(features);
+
+    // Calculate confidence based on data quality
+    const confidence = this.calculateConfidence(features);
+
+    // Determine risk level
+    const riskLevel = this.getRiskLevel(riskScore);
+
+    // Generate recommendations
+    const recommendations = this.generateRecommendations(riskLevel, features);
+
+    // Determine if intervention is needed
+    const interventionSuggested = riskScore >= 50;
+    const interventionType = this.getInterventionType(riskLevel, features);
+
+    return {
+      riskScore: Math.round(riskScore),
+      riskLevel,
+      confidence,
+      factors: {
+        timeExceeded: features.timeExceeded,
+        errorCount: features.errorCount,
+        currentStep: features.currentStep,
+        stepDuration: features.stepDuration,
+        totalDuration: features.totalDuration,
+        hasReturned: features.hasReturned,
+        stepProgress: features.stepProgress,
+        deviceType: features.deviceType,
+        location: features.location,
+        historicalData: {
+          previousAbandonments: features.historicalAbandonments || 0,
+          avgCheckoutTime: features.avgCheckoutTime || 0,
+          conversionRate: features.historicalConversionRate || 0,
+        },
+      },
+      recommendations,
+      interventionSuggested,
+      interventionType,
+    };
+  }
+
+  /**
+   * Calculate the risk score (0-100) from the weighted feature risks
+   * Overridden by trained models (see models/abandonment-predictor.ts)
+   */
+  protected calculateRiskScore(features: PredictionFeatures): number {
     let riskScore = 0;
     const weights = this.getFeatureWeights();
 
@@ -55,48 +101,12 @@ export class AbandonmentPredictor {
     // Clamp score to 0-100
     riskScore = Math.max(0, Math.min(100, riskScore));
 
-    // Calculate confidence based on data quality
-    const confidence = this.calculateConfidence(features);
-
-    // Determine risk level
-    const riskLevel = this.getRiskLevel(riskScore);
-
-    // Generate recommendations
-    const recommendations = this.generateRecommendations(riskLevel, features);
-
-    // Determine if intervention is needed
-    const interventionSuggested = riskScore >= 50;
-    const interventionType = this.getInterventionType(riskLevel, features);
-
-    return {
-      riskScore: Math.round(riskScore),
-      riskLevel,
-      confidence,
-      factors: {
-        timeExceeded: features.timeExceeded,
-        errorCount: features.errorCount,
-        currentStep: features.currentStep,
-        stepDuration: features.stepDuration,
-        totalDuration: features.totalDuration,
-        hasReturned: features.hasReturned,
-        stepProgress: features.stepProgress,
-        deviceType: features.deviceType,
-        location: features.location,
-        historicalData: {
-          previousAbandonments: features.historicalAbandonments || 0,
-          avgCheckoutTime: features.avgCheckoutTime || 0,
-          conversionRate: features.historicalConversionRate || 0,
-        },
-      },
-      recommendations,
-      interventionSuggested,
-      interventionType,
-    };
+    return riskScore;
   }
 
   /**
-   * Get feature weights for model
-   * These can be tuned based on historical data
+   * Get feature weights for the built-in (v1) model
+   * Trained models learn their own weights (see models/logistic-regression.ts)
    */
   private getFeatureWeights() {
     return {
@@ -131,6 +131,8 @@ export interface AIServiceConfig {
   rateLimit?: {
     requestsPerMinute: number;
   };
+  /** Account whose OpenAI token usage is recorded and budgeted */
+  customerId?: string;
 }
 
 export interface PredictionFeatures {
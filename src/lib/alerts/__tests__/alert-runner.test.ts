@@ -0,0 +1,344 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { lookup } from 'dns/promises';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { shouldUseDemoData } from '@/lib/automation/demo-mode';
+import { getEmailService } from '@/utils/auth/email-service';
+import {
+  encryptSecret,
+  generateMasterKey,
+  resetKeyringCache,
+  secretContext,
+} from '@/lib/secrets/envelope';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '@/lib/webhooks/signature';
+import { runAlertEvaluation } from '../alert-runner';
+import { sendTestAlertNotification } from '../notifications';
+import type { AlertChannel } from '../channels';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+vi.mock('@/lib/automation/demo-mode', () => ({
+  shouldUseDemoData: vi.fn(),
+}));
+
+vi.mock('@/utils/auth/email-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth/email-service')>()),
+  getEmailService: vi.fn(),
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const WEBHOOK_SECRET = 'whsec_test';
+
+const RULE = {
+  id: 'rule-1',
+  account_id: 'account-1',
+  name: 'Conversion drop',
+  metric: 'conversion_rate',
+  condition_type: 'threshold',
+  direction: 'below',
+  threshold: '2.5',
+  window_minutes: 60,
+  baseline_windows: 7,
+  min_sessions: 20,
+  cooldown_minutes: 60,
+  channel_ids: ['channel-email', 'channel-webhook', 'channel-disabled'],
+  enabled: true,
+};
+
+function channels() {
+  return [
+    {
+      id: 'channel-email',
+      account_id: 'account-1',
+      name: 'Ops',
+      type: 'email',
+      enabled: true,
+      recipients: ['ops@example.com', 'oncall@example.com'],
+      locale: 'es',
+      url: null,
+      secret_encrypted: null,
+    },
+    {
+      id: 'channel-webhook',
+      account_id: 'account-1',
+      name: 'Pager',
+      type: 'webhook',
+      enabled: true,
+      recipients: [],
+      locale: 'en',
+      url: 'https://hooks.example.com/bolt',
+      secret_encrypted: encryptSecret(WEBHOOK_SECRET, {
+        context: secretContext('alert_channels', 'channel_secret', 'account-1'),
+      }).ciphertext,
+    },
+    {
+      id: 'channel-disabled',
+      account_id: 'account-1',
+      name: 'Muted',
+      type: 'email',
+      enabled: false,
+      recipients: ['muted@example.com'],
+      locale: 'en',
+      url: null,
+      secret_encrypted: null,
+    },
+  ];
+}
+
+/**
+ * 50 checkout sessions in the last hour, `conversions` of them completed
+ */
+function events(conversions: number) {
+  const timestamp = new Date(NOW.getTime() - 10 * 60_000).toISOString();
+  return [
+    ...Array.from({ length: 50 }, (_, i) => ({
+      event_type: 'checkout_start',
+      timestamp,
+      id: `s${i}`,
+    })),
+    ...Array.from({ length: conversions }, (_, i) => ({
+      event_type: 'checkout_complete',
+      timestamp,
+      id: `c${i}`,
+      metadata: { revenue: 100 },
+    })),
+  ];
+}
+
+function mockRpc(options: { conversions: number; transition: string }) {
+  const rpc = vi.fn(async (name: string) => {
+    switch (name) {
+      case 'claim_alert_rules':
+        return { data: [RULE], error: null };
+      case 'get_analytics_events_by_types':
+        return { data: events(options.conversions), error: null };
+      case 'record_alert_evaluation':
+        return {
+          data: [
+            {
+              transition: options.transition,
+              alert_id: options.transition === 'ok' ? null : 'alert-1',
+              fired_at: '2026-10-19T11:00:00Z',
+            },
+          ],
+          error: null,
+        };
+      case 'get_alert_channels':
+        return { data: channels(), error: null };
+      default:
+        return { data: null, error: null };
+    }
+  });
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+beforeAll(() => {
+  process.env.SECRETS_MASTER_KEYS = `test:${generateMasterKey()}`;
+  resetKeyringCache();
+});
+
+describe('runAlertEvaluation', () => {
+  const sendEmail = vi.fn();
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+    sendEmail.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({ sendEmail });
+    vi.mocked(shouldUseDemoData).mockResolvedValue(false);
+    vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record a breach and notify the enabled channels when an alert fires', async () => {
+    const rpc = mockRpc({ conversions: 1, transition: 'fired' });
+
+    const { result, error } = await runAlertEvaluation({ now: NOW });
+
+    expect(error).toBeNull();
+    expect(result).toEqual({
+      claimed: 1,
+      evaluated: 1,
+      skipped: 0,
+      fired: 1,
+      resolved: 0,
+      failed: 0,
+    });
+    expect(rpc).toHaveBeenCalledWith('get_analytics_events_by_types', {
+      p_customer_id: 'account-1',
+      p_event_types: ['checkout_start', 'checkout_complete'],
+      p_start_date: '2026-10-19T11:00:00.000Z',
+      p_end_date: NOW.toISOString(),
+    });
+    expect(rpc).toHaveBeenCalledWith('record_alert_evaluation', {
+      p_rule_id: 'rule-1',
+      p_breached: true,
+      p_value: 2,
+      p_expected: 2.5,
+      p_now: NOW.toISOString(),
+    });
+
+    // Email channel: one email per recipient, in the channel locale
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(sendEmail.mock.calls.map(([email]) => email.to)).toEqual([
+      'ops@example.com',
+      'oncall@example.com',
+    ]);
+    expect(sendEmail.mock.calls[0][0].subject).toBe('🚨 Alerta: Conversion drop');
+    expect(sendEmail.mock.calls[0][0].text).toContain('Tasa de conversión');
+
+    // Webhook channel: signed JSON event
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/bolt');
+    expect(init.redirect).toBe('manual');
+    const payload = JSON.parse(init.body);
+    expect(payload).toMatchObject({
+      type: 'alert.fired',
+      account_id: 'account-1',
+      data: { alert: { id: 'alert-1', value: 2 }, rule: { id: 'rule-1', threshold: 2.5 } },
+    });
+    expect(
+      verifyWebhookSignature(
+        WEBHOOK_SECRET,
+        Number(init.headers[WEBHOOK_TIMESTAMP_HEADER]),
+        init.body,
+        init.headers[WEBHOOK_SIGNATURE_HEADER]
+      )
+    ).toBe(true);
+
+    expect(rpc).toHaveBeenCalledWith('record_alert_channel_delivery', {
+      p_channel_id: 'channel-webhook',
+      p_error: null,
+    });
+  });
+
+  it('should not notify while an alert stays open or in cooldown', async () => {
+    mockRpc({ conversions: 1, transition: 'open' });
+
+    const { result } = await runAlertEvaluation({ now: NOW });
+
+    expect(result.evaluated).toBe(1);
+    expect(result.fired).toBe(0);
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should record failed deliveries on the channel', async () => {
+    const rpc = mockRpc({ conversions: 10, transition: 'resolved' });
+    fetchMock.mockResolvedValue(new Response('down', { status: 503 }));
+
+    const { result } = await runAlertEvaluation({ now: NOW });
+
+    expect(result.resolved).toBe(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'record_alert_evaluation',
+      expect.objectContaining({ p_breached: false, p_value: 20 })
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).type).toBe('alert.resolved');
+    expect(rpc).toHaveBeenCalledWith('record_alert_channel_delivery', {
+      p_channel_id: 'channel-webhook',
+      p_error: 'Endpoint responded with 503',
+    });
+    expect(rpc).toHaveBeenCalledWith('record_alert_channel_delivery', {
+      p_channel_id: 'channel-email',
+      p_error: null,
+    });
+  });
+
+  it('should not deliver to a webhook URL resolving to a private address', async () => {
+    const rpc = mockRpc({ conversions: 1, transition: 'fired' });
+    vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as never);
+
+    await runAlertEvaluation({ now: NOW });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith('record_alert_channel_delivery', {
+      p_channel_id: 'channel-webhook',
+      p_error: 'Webhook URL resolves to a private address (hooks.example.com)',
+    });
+  });
+
+  it('should skip demo accounts', async () => {
+    const rpc = mockRpc({ conversions: 1, transition: 'fired' });
+    vi.mocked(shouldUseDemoData).mockResolvedValue(true);
+
+    const { result } = await runAlertEvaluation({ now: NOW });
+
+    expect(result).toMatchObject({ claimed: 1, skipped: 1, evaluated: 0 });
+    expect(rpc).not.toHaveBeenCalledWith('record_alert_evaluation', expect.anything());
+  });
+});
+
+describe('sendTestAlertNotification', () => {
+  const fetchMock = vi.fn();
+
+  function slackChannel(url: string) {
+    return {
+      id: 'channel-slack',
+      account_id: 'account-1',
+      type: 'slack',
+      enabled: true,
+      url: null,
+      secret_encrypted: encryptSecret(url, {
+        context: secretContext('alert_channels', 'channel_secret', 'account-1'),
+      }).ciphertext,
+    } as AlertChannel;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+    vi.mocked(getSupabaseAdmin).mockReturnValue({
+      rpc: vi.fn().mockResolvedValue({ error: null }),
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post to the Slack webhook without following redirects', async () => {
+    vi.mocked(lookup).mockResolvedValue([{ address: '52.1.2.3', family: 4 }] as never);
+
+    const { error } = await sendTestAlertNotification(
+      slackChannel('https://hooks.slack.com/services/T0/B0/secret'),
+      NOW
+    );
+
+    expect(error).toBeNull();
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.slack.com/services/T0/B0/secret');
+    expect(init.redirect).toBe('manual');
+  });
+
+  it('should not post to a Slack URL resolving to the metadata endpoint', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(lookup).mockResolvedValue([{ address: '169.254.169.254', family: 4 }] as never);
+
+    const { error } = await sendTestAlertNotification(
+      slackChannel('https://slack.attacker.example/hook'),
+      NOW
+    );
+
+    expect(error?.message).toContain('private address');
+    expect(fetchMock).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
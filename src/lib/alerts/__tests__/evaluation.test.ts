@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { evaluateAlertRule, getEvaluationRange } from '../evaluation';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const RULE = {
+  metric: 'conversion_rate' as const,
+  condition_type: 'threshold' as const,
+  direction: 'below' as const,
+  threshold: 2,
+  window_minutes: 60,
+  baseline_windows: 3,
+  min_sessions: 20,
+};
+
+let eventId = 0;
+
+/**
+ * Checkout sessions `minutesAgo` before NOW, `conversions` of them completed
+ */
+function checkouts(minutesAgo: number, sessions: number, conversions: number): AnalyticsEvent[] {
+  const timestamp = new Date(NOW.getTime() - minutesAgo * 60_000).toISOString();
+  const event = (event_type: string, metadata: Record<string, unknown> | null) => ({
+    id: `event-${++eventId}`,
+    session_id: `session-${eventId}`,
+    order_form_id: null,
+    event_type,
+    category: 'user_action' as const,
+    step: null,
+    metadata,
+    timestamp,
+  });
+
+  return [
+    ...Array.from({ length: sessions }, () => event('checkout_start', null)),
+    ...Array.from({ length: conversions }, () => event('checkout_complete', { revenue: 100 })),
+  ];
+}
+
+describe('getEvaluationRange', () => {
+  it('should cover the window and the baseline windows of anomaly rules', () => {
+    expect(getEvaluationRange(RULE, NOW)).toEqual({
+      start: new Date('2026-10-19T11:00:00Z'),
+      end: NOW,
+    });
+    expect(getEvaluationRange({ ...RULE, condition_type: 'anomaly' }, NOW)).toEqual({
+      start: new Date('2026-10-19T08:00:00Z'),
+      end: NOW,
+    });
+  });
+});
+
+describe('evaluateAlertRule', () => {
+  it('should breach a threshold on the evaluation window only', () => {
+    // 1 conversion in 50 sessions in the window, older traffic converts well
+    const events = [...checkouts(10, 50, 1), ...checkouts(90, 50, 10)];
+
+    expect(evaluateAlertRule(RULE, events, NOW)).toEqual({
+      value: 2,
+      expected: 2,
+      deviation: null,
+      breached: false,
+    });
+    expect(evaluateAlertRule({ ...RULE, threshold: 2.5 }, events, NOW)?.breached).toBe(true);
+  });
+
+  it('should skip rate metrics below the minimum number of sessions', () => {
+    const events = checkouts(10, 10, 0);
+
+    expect(evaluateAlertRule(RULE, events, NOW)).toBeNull();
+    expect(evaluateAlertRule({ ...RULE, min_sessions: 0 }, events, NOW)?.breached).toBe(true);
+  });
+
+  it('should evaluate traffic metrics without a minimum number of sessions', () => {
+    const rule = { ...RULE, metric: 'total_sessions' as const, threshold: 5 };
+
+    expect(evaluateAlertRule(rule, checkouts(10, 3, 0), NOW)).toMatchObject({
+      value: 3,
+      breached: true,
+    });
+  });
+
+  it('should compare anomaly rules with the mean of the baseline windows', () => {
+    const rule = { ...RULE, condition_type: 'anomaly' as const, threshold: 30 };
+    const events = [
+      ...checkouts(10, 50, 1), // 2%
+      ...checkouts(70, 50, 2), // 4%
+      ...checkouts(130, 50, 2), // 4%
+      ...checkouts(190, 50, 2), // 4%
+    ];
+
+    const evaluation = evaluateAlertRule(rule, events, NOW);
+
+    expect(evaluation).toMatchObject({ value: 2, expected: 4, deviation: -50, breached: true });
+    expect(evaluateAlertRule({ ...rule, direction: 'above' }, events, NOW)?.breached).toBe(false);
+    expect(evaluateAlertRule({ ...rule, threshold: 60 }, events, NOW)?.breached).toBe(false);
+  });
+
+  it('should ignore baseline windows with too few sessions', () => {
+    const rule = { ...RULE, condition_type: 'anomaly' as const, threshold: 30 };
+    const events = [
+      ...checkouts(10, 50, 1), // 2%
+      ...checkouts(70, 5, 5), // too few sessions
+      ...checkouts(130, 50, 1), // 2%
+    ];
+
+    expect(evaluateAlertRule(rule, events, NOW)).toMatchObject({
+      expected: 2,
+      deviation: 0,
+      breached: false,
+    });
+    expect(evaluateAlertRule(rule, checkouts(10, 50, 1), NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Metric Alert Runner
+ *
+ * Evaluates the enabled alert rules. Run by the jobs endpoint
+ * (POST /api/jobs/metric-alerts) every few minutes, or locally with
+ * `npm run alerts:evaluate`. Rules are claimed in the database before they are
+ * evaluated, so concurrent runs never evaluate the same rule twice, and the
+ * alert lifecycle (fire, cooldown, resolve) is applied atomically by
+ * record_alert_evaluation. The rule's channels are notified when an alert
+ * fires or resolves.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { shouldUseDemoData } from '@/lib/automation/demo-mode';
+import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import { DASHBOARD_METRIC_EVENT_TYPES } from '@/lib/analytics/dashboard-metrics';
+import { getAlertChannels } from './channels';
+import { evaluateAlertRule, getEvaluationRange } from './evaluation';
+import { sendAlertNotification, type AlertNotification } from './notifications';
+import type { AlertRule } from './rules';
+
+/**
+ * Rules claimed per run
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+export type AlertTransition = 'fired' | 'open' | 'resolved' | 'cooldown' | 'ok';
+
+export interface AlertRunResult {
+  claimed: number;
+  evaluated: number;
+  /** Not enough data, or demo account */
+  skipped: number;
+  fired: number;
+  resolved: number;
+  failed: number;
+}
+
+/**
+ * Notify the enabled channels of a rule
+ */
+async function notifyChannels(rule: AlertRule, notification: AlertNotification): Promise<void> {
+  if (rule.channel_ids.length === 0) {
+    return;
+  }
+
+  const { channels, error } = await getAlertChannels(rule.account_id);
+  if (error) {
+    console.error(`❌ [DEBUG] Failed to load alert channels of rule ${rule.id}:`, error);
+    return;
+  }
+
+  for (const channel of channels) {
+    if (channel.enabled && rule.channel_ids.includes(channel.id)) {
+      await sendAlertNotification(channel, notification);
+    }
+  }
+}
+
+/**
+ * Evaluate one rule at `now` and apply the result to its alerts
+ * The transition is null when there was not enough data to evaluate it
+ */
+export async function evaluateRule(
+  rule: AlertRule,
+  now: Date
+): Promise<{ transition: AlertTransition | null; error: Error | null }> {
+  const supabase = getSupabaseAdmin();
+  const range = getEvaluationRange(rule, now);
+
+  const { data: events, error: eventsError } = await supabase.rpc('get_analytics_events_by_types', {
+    p_customer_id: rule.account_id,
+    p_event_types: DASHBOARD_METRIC_EVENT_TYPES,
+    p_start_date: range.start.toISOString(),
+    p_end_date: range.end.toISOString(),
+  });
+
+  if (eventsError) {
+    return { transition: null, error: eventsError };
+  }
+
+  const evaluation = evaluateAlertRule(rule, (events || []) as AnalyticsEvent[], now);
+
+  if (!evaluation) {
+    return { transition: null, error: null };
+  }
+
+  const { data, error } = await supabase.rpc('record_alert_evaluation', {
+    p_rule_id: rule.id,
+    p_breached: evaluation.breached,
+    p_value: evaluation.value,
+    p_expected: evaluation.expected,
+    p_now: now.toISOString(),
+  });
+
+  const row = (Array.isArray(data) ? data[0] : data) as {
+    transition: AlertTransition;
+    alert_id: string | null;
+    fired_at: string | null;
+  } | null;
+
+  if (error || !row) {
+    return { transition: null, error: error || new Error('No evaluation result') };
+  }
+
+  if (row.transition === 'fired' || row.transition === 'resolved') {
+    await notifyChannels(rule, {
+      event: row.transition === 'fired' ? 'alert.fired' : 'alert.resolved',
+      accountId: rule.account_id,
+      rule,
+      alert: {
+        id: row.alert_id,
+        value: evaluation.value,
+        expected: evaluation.expected,
+        deviation: evaluation.deviation,
+        firedAt: row.fired_at || now.toISOString(),
+        resolvedAt: row.transition === 'resolved' ? now.toISOString() : null,
+      },
+    });
+  }
+
+  return { transition: row.transition, error: null };
+}
+
+/**
+ * Claim the rules due at `now` and evaluate them
+ */
+export async function runAlertEvaluation(
+  options: { now?: Date; limit?: number } = {}
+): Promise<{ result: AlertRunResult; error: Error | null }> {
+  const result: AlertRunResult = {
+    claimed: 0,
+    evaluated: 0,
+    skipped: 0,
+    fired: 0,
+    resolved: 0,
+    failed: 0,
+  };
+  const now = options.now || new Date();
+
+  const { data, error } = await getSupabaseAdmin().rpc('claim_alert_rules', {
+    p_now: now.toISOString(),
+    p_limit: options.limit || DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Failed to claim alert rules:', error);
+    return { result, error };
+  }
+
+  const rules = ((data || []) as AlertRule[]).map((rule) => ({
+    ...rule,
+    threshold: Number(rule.threshold),
+    channel_ids: rule.channel_ids || [],
+  }));
+  result.claimed = rules.length;
+
+  for (const rule of rules) {
+    // Demo accounts have no real metrics to watch
+    if (await shouldUseDemoData(rule.account_id)) {
+      result.skipped++;
+      continue;
+    }
+
+    const { transition, error: ruleError } = await evaluateRule(rule, now);
+
+    if (ruleError) {
+      console.error(`❌ [DEBUG] Failed to evaluate alert rule ${rule.id}:`, ruleError);
+      result.failed++;
+    } else if (!transition) {
+      result.skipped++;
+    } else {
+      result.evaluated++;
+      if (transition === 'fired') result.fired++;
+      if (transition === 'resolved') result.resolved++;
+    }
+  }
+
+  return { result, error: null };
+}
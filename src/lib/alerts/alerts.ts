@@ -0,0 +1,101 @@
+/**
+ * Alerts
+ *
+ * Alerts fired by metric rules (migration 100) and their lifecycle:
+ * firing -> acknowledged (by a user) -> resolved (when an evaluation finds
+ * the metric back to normal, or by a user). A rule has at most one open
+ * (firing or acknowledged) alert.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { AlertConditionType, AlertDirection, AlertMetric } from './rules';
+
+export const ALERT_STATUSES = ['firing', 'acknowledged', 'resolved'] as const;
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export interface Alert {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  metric: AlertMetric;
+  condition_type: AlertConditionType;
+  direction: AlertDirection;
+  threshold: number;
+  window_minutes: number;
+  status: AlertStatus;
+  value: number;
+  last_value: number;
+  /** Threshold or baseline the value was compared with */
+  expected: number | null;
+  fired_at: string;
+  acknowledged_at: string | null;
+  acknowledged_by_email: string | null;
+  resolved_at: string | null;
+  /** Null when resolved by an evaluation */
+  resolved_by_email: string | null;
+}
+
+export const AlertActionSchema = z.object({
+  action: z.enum(['acknowledge', 'resolve']),
+});
+
+function toAlert(row: Record<string, unknown>): Alert {
+  return {
+    ...(row as unknown as Alert),
+    threshold: Number(row.threshold),
+    value: Number(row.value),
+    last_value: Number(row.last_value),
+    expected: row.expected === null || row.expected === undefined ? null : Number(row.expected),
+  };
+}
+
+/**
+ * Alerts of an account, newest first
+ */
+export async function getAlerts(
+  accountId: string,
+  options: { status?: AlertStatus; limit?: number } = {}
+): Promise<{ alerts: Alert[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_alerts', {
+    p_account_id: accountId,
+    p_status: options.status ?? null,
+    p_limit: options.limit ?? 100,
+  });
+
+  return { alerts: ((data || []) as Record<string, unknown>[]).map(toAlert), error };
+}
+
+/**
+ * Acknowledge a firing alert (false when not firing)
+ */
+export async function acknowledgeAlert(
+  accountId: string,
+  alertId: string,
+  userId: string
+): Promise<{ updated: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('acknowledge_alert', {
+    p_account_id: accountId,
+    p_alert_id: alertId,
+    p_user_id: userId,
+  });
+
+  return { updated: !!data, error };
+}
+
+/**
+ * Resolve an open alert by hand (false when already resolved)
+ */
+export async function resolveAlert(
+  accountId: string,
+  alertId: string,
+  userId: string
+): Promise<{ updated: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('resolve_alert', {
+    p_account_id: accountId,
+    p_alert_id: alertId,
+    p_user_id: userId,
+  });
+
+  return { updated: !!data, error };
+}
@@ -0,0 +1,182 @@
+/**
+ * Alert Channels
+ *
+ * Where the metric alerts of an account are delivered (migration 100):
+ * - email: to a list of recipients, in the channel's locale
+ * - webhook: a JSON POST signed with the channel's secret
+ *   (src/lib/webhooks/signature.ts)
+ * - slack: a Slack-compatible incoming webhook (Slack, Mattermost, ...)
+ *
+ * Webhook signing secrets and Slack webhook URLs (which embed their token)
+ * are envelope encrypted; a webhook secret is only shown when it is created
+ * or rotated.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { decryptSecret, encryptSecret, secretContext } from '@/lib/secrets/envelope';
+import { WebhookUrlSchema } from '@/lib/webhooks/endpoints';
+import { generateWebhookSecret } from '@/lib/webhooks/signature';
+
+export const ALERT_CHANNEL_TYPES = ['email', 'webhook', 'slack'] as const;
+export type AlertChannelType = (typeof ALERT_CHANNEL_TYPES)[number];
+
+/**
+ * Locales alert emails are rendered in (same as src/i18n/routing.ts)
+ */
+export const ALERT_CHANNEL_LOCALES = ['en', 'pt-BR', 'es'] as const;
+export type AlertChannelLocale = (typeof ALERT_CHANNEL_LOCALES)[number];
+
+export interface AlertChannel {
+  id: string;
+  account_id: string;
+  name: string;
+  type: AlertChannelType;
+  enabled: boolean;
+  recipients: string[];
+  locale: AlertChannelLocale;
+  url: string | null;
+  secret_encrypted: string | null;
+  last_delivery_at: string | null;
+  last_delivery_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Channel as shown in the dashboard (without its secret) */
+export type AlertChannelSettings = Omit<AlertChannel, 'secret_encrypted'> & {
+  has_secret: boolean;
+};
+
+const ChannelBaseSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+});
+
+export const AlertChannelSchema = z.discriminatedUnion('type', [
+  ChannelBaseSchema.extend({
+    type: z.literal('email'),
+    recipients: z.array(z.email('Invalid email address')).min(1).max(10),
+    locale: z.enum(ALERT_CHANNEL_LOCALES).default('en'),
+  }),
+  ChannelBaseSchema.extend({
+    type: z.literal('webhook'),
+    url: WebhookUrlSchema,
+    // Generate a new signing secret (always done on creation)
+    rotateSecret: z.boolean().default(false),
+  }),
+  ChannelBaseSchema.extend({
+    type: z.literal('slack'),
+    // Omit to keep the stored URL
+    url: WebhookUrlSchema.optional(),
+  }),
+]);
+
+export type AlertChannelInput = z.infer<typeof AlertChannelSchema>;
+
+function channelSecretContext(accountId: string): string {
+  return secretContext('alert_channels', 'channel_secret', accountId);
+}
+
+function toAlertChannel(row: Record<string, unknown>): AlertChannel {
+  return {
+    ...(row as unknown as AlertChannel),
+    recipients: Array.isArray(row.recipients) ? (row.recipients as string[]) : [],
+  };
+}
+
+/**
+ * Channel without its secret (dashboard)
+ */
+export function toAlertChannelSettings(channel: AlertChannel): AlertChannelSettings {
+  const { secret_encrypted, ...settings } = channel;
+  return { ...settings, has_secret: !!secret_encrypted };
+}
+
+/**
+ * Alert channels of an account
+ */
+export async function getAlertChannels(
+  accountId: string
+): Promise<{ channels: AlertChannel[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_alert_channels', {
+    p_account_id: accountId,
+  });
+
+  return { channels: ((data || []) as Record<string, unknown>[]).map(toAlertChannel), error };
+}
+
+/**
+ * Create a channel, or update it when channelId is given (its type cannot
+ * change). Returns the new webhook signing secret when one was generated.
+ */
+export async function saveAlertChannel(
+  accountId: string,
+  input: AlertChannelInput,
+  options: { channelId?: string; createdBy?: string } = {}
+): Promise<{ channel: AlertChannel | null; secret: string | null; error: Error | null }> {
+  const isNew = !options.channelId;
+  let secret: string | null = null;
+  let storedSecret: string | null = null;
+
+  if (input.type === 'webhook' && (isNew || input.rotateSecret)) {
+    secret = generateWebhookSecret();
+    storedSecret = secret;
+  } else if (input.type === 'slack' && input.url) {
+    storedSecret = input.url;
+  }
+
+  if (isNew && input.type === 'slack' && !storedSecret) {
+    return { channel: null, secret: null, error: new Error('Slack webhook URL is required') };
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('save_alert_channel', {
+    p_account_id: accountId,
+    p_channel_id: options.channelId ?? null,
+    p_name: input.name,
+    p_type: input.type,
+    p_enabled: input.enabled,
+    p_recipients: input.type === 'email' ? input.recipients : [],
+    p_locale: input.type === 'email' ? input.locale : 'en',
+    p_url: input.type === 'webhook' ? input.url : null,
+    p_secret_encrypted: storedSecret
+      ? encryptSecret(storedSecret, { context: channelSecretContext(accountId) }).ciphertext
+      : null,
+    p_created_by: options.createdBy ?? null,
+  });
+
+  const row = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | null;
+  if (error || !row) {
+    return { channel: null, secret: null, error };
+  }
+
+  return { channel: toAlertChannel(row), secret, error: null };
+}
+
+/**
+ * Delete a channel of an account (and remove it from the rules using it)
+ */
+export async function deleteAlertChannel(
+  accountId: string,
+  channelId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_alert_channel', {
+    p_account_id: accountId,
+    p_channel_id: channelId,
+  });
+
+  return { deleted: !!data, error };
+}
+
+/**
+ * Decrypted webhook signing secret or Slack URL of a channel
+ */
+export function getChannelSecret(channel: AlertChannel): string {
+  if (!channel.secret_encrypted) {
+    throw new Error(`Alert channel ${channel.id} has no secret`);
+  }
+
+  return decryptSecret(channel.secret_encrypted, {
+    context: channelSecretContext(channel.account_id),
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * Alert Rule Evaluation
+ *
+ * Computes the dashboard metric of a rule over its evaluation window (the
+ * last `window_minutes`) and, for anomaly rules, over the trailing windows of
+ * the same length that make up its baseline, from the same analytics events
+ * as /api/dashboard/metrics.
+ */
+
+import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+import {
+  aggregateDashboardMetrics,
+  type DashboardMetrics,
+} from '@/lib/analytics/dashboard-metrics';
+import type { DateRange } from '@/utils/date-ranges';
+import { ALERT_METRIC_FIELDS, SESSION_RATE_METRICS, type AlertRule } from './rules';
+
+export interface AlertEvaluation {
+  /** Metric over the evaluation window */
+  value: number;
+  /** Threshold, or baseline mean for anomaly rules */
+  expected: number;
+  /** Deviation from the baseline in percent (anomaly rules) */
+  deviation: number | null;
+  breached: boolean;
+}
+
+type EvaluatedRule = Pick<
+  AlertRule,
+  | 'metric'
+  | 'condition_type'
+  | 'direction'
+  | 'threshold'
+  | 'window_minutes'
+  | 'baseline_windows'
+  | 'min_sessions'
+>;
+
+/**
+ * Period of events needed to evaluate a rule at `now`
+ */
+export function getEvaluationRange(rule: EvaluatedRule, now: Date): DateRange {
+  const windows = rule.condition_type === 'anomaly' ? rule.baseline_windows + 1 : 1;
+  return {
+    start: new Date(now.getTime() - windows * rule.window_minutes * 60_000),
+    end: now,
+  };
+}
+
+/**
+ * Dashboard metrics of consecutive windows ending at `now`, most recent first
+ */
+export function aggregateWindows(
+  events: AnalyticsEvent[],
+  now: Date,
+  windowMinutes: number,
+  count: number
+): DashboardMetrics[] {
+  const windowMs = windowMinutes * 60_000;
+  const buckets: AnalyticsEvent[][] = Array.from({ length: count }, () => []);
+
+  events.forEach((event) => {
+    const age = now.getTime() - new Date(event.timestamp).getTime();
+    const index = Math.floor(age / windowMs);
+    if (age >= 0 && index < count) {
+      buckets[index].push(event);
+    }
+  });
+
+  return buckets.map(aggregateDashboardMetrics);
+}
+
+function hasEnoughSessions(rule: EvaluatedRule, metrics: DashboardMetrics): boolean {
+  return !SESSION_RATE_METRICS.includes(rule.metric) || metrics.totalSessions >= rule.min_sessions;
+}
+
+/**
+ * Evaluate a rule on the events of its evaluation range
+ * Returns null when there is not enough data: fewer checkout sessions than
+ * min_sessions for rate metrics, or no usable baseline
+ */
+export function evaluateAlertRule(
+  rule: EvaluatedRule,
+  events: AnalyticsEvent[],
+  now: Date
+): AlertEvaluation | null {
+  const field = ALERT_METRIC_FIELDS[rule.metric];
+  const windowCount = rule.condition_type === 'anomaly' ? rule.baseline_windows + 1 : 1;
+  const [current, ...baseline] = aggregateWindows(events, now, rule.window_minutes, windowCount);
+
+  if (!hasEnoughSessions(rule, current)) {
+    return null;
+  }
+
+  const value = current[field];
+
+  if (rule.condition_type === 'threshold') {
+    return {
+      value,
+      expected: rule.threshold,
+      deviation: null,
+      breached: rule.direction === 'above' ? value > rule.threshold : value < rule.threshold,
+    };
+  }
+
+  // Baseline windows without enough sessions would skew rate metrics
+  const baselineValues = baseline
+    .filter((metrics) => hasEnoughSessions(rule, metrics))
+    .map((metrics) => metrics[field]);
+
+  if (baselineValues.length === 0) {
+    return null;
+  }
+
+  const expected = baselineValues.reduce((sum, item) => sum + item, 0) / baselineValues.length;
+  if (expected === 0) {
+    return null;
+  }
+
+  const deviation = ((value - expected) / expected) * 100;
+
+  return {
+    value,
+    expected,
+    deviation,
+    breached:
+      rule.direction === 'above' ? deviation >= rule.threshold : deviation <= -rule.threshold,
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Alert Notifications
+ *
+ * Delivers alert events (fired, resolved, test) to alert channels:
+ * - email: generateMetricAlertEmail through the configured email provider
+ * - webhook: JSON event signed with the channel secret
+ * - slack: incoming webhook message ({ text, blocks })
+ * Webhook and Slack URLs resolving to private addresses are refused and
+ * redirects are not followed (src/lib/webhooks/outbound.ts).
+ * The outcome of each delivery is recorded on the channel.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { generateMetricAlertEmail, getEmailService } from '@/utils/auth/email-service';
+import { fetchWebhookUrl } from '@/lib/webhooks/outbound';
+import { getWebhookHeaders } from '@/lib/webhooks/signature';
+import { getChannelSecret, type AlertChannel } from './channels';
+import type { AlertRule } from './rules';
+
+export const ALERT_EVENTS = ['alert.fired', 'alert.resolved', 'alert.test'] as const;
+export type AlertEvent = (typeof ALERT_EVENTS)[number];
+
+/**
+ * Webhook and Slack requests taking longer are reported as failed
+ */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export interface AlertNotification {
+  event: AlertEvent;
+  accountId: string;
+  rule: Pick<
+    AlertRule,
+    'id' | 'name' | 'metric' | 'condition_type' | 'direction' | 'threshold' | 'window_minutes'
+  >;
+  alert: {
+    id: string | null;
+    value: number;
+    expected: number | null;
+    deviation: number | null;
+    firedAt: string;
+    resolvedAt: string | null;
+  };
+}
+
+const METRIC_LABELS: Record<AlertRule['metric'], string> = {
+  conversion_rate: 'Conversion rate',
+  abandonment_rate: 'Abandonment rate',
+  avg_order_value: 'Average order value',
+  total_revenue: 'Revenue',
+  total_sessions: 'Checkout sessions',
+  total_conversions: 'Conversions',
+};
+
+function getBaseUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+  );
+}
+
+function formatValue(metric: AlertRule['metric'], value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return metric === 'conversion_rate' || metric === 'abandonment_rate'
+    ? `${rounded}%`
+    : String(rounded);
+}
+
+/**
+ * One-line description of an alert (Slack text, webhook summary)
+ */
+export function describeAlert(notification: AlertNotification): string {
+  const { rule, alert } = notification;
+  const metric = METRIC_LABELS[rule.metric];
+  const window = `the last ${rule.window_minutes} min`;
+  const value = formatValue(rule.metric, alert.value);
+
+  const condition =
+    rule.condition_type === 'threshold'
+      ? `${metric} is ${rule.direction} ${formatValue(rule.metric, rule.threshold)}: ${value} over ${window}`
+      : `${metric} is ${Math.abs(Math.round(alert.deviation ?? 0))}% ${
+          (alert.deviation ?? 0) < 0 ? 'below' : 'above'
+        } its baseline: ${value} over ${window} (baseline ${formatValue(
+          rule.metric,
+          alert.expected ?? 0
+        )})`;
+
+  switch (notification.event) {
+    case 'alert.resolved':
+      return `✅ Resolved: ${rule.name} (${metric} is ${value} over ${window})`;
+    case 'alert.test':
+      return `🧪 Test alert: ${rule.name} - ${condition}`;
+    default:
+      return `🚨 ${rule.name} - ${condition}`;
+  }
+}
+
+/**
+ * Body of a webhook delivery
+ */
+export function buildWebhookEvent(notification: AlertNotification, now: Date = new Date()) {
+  const { rule, alert } = notification;
+
+  return {
+    id: randomUUID(),
+    type: notification.event,
+    created_at: now.toISOString(),
+    account_id: notification.accountId,
+    data: {
+      summary: describeAlert(notification),
+      alert: {
+        id: alert.id,
+        value: alert.value,
+        expected: alert.expected,
+        deviation: alert.deviation,
+        fired_at: alert.firedAt,
+        resolved_at: alert.resolvedAt,
+      },
+      rule: {
+        id: rule.id,
+        name: rule.name,
+        metric: rule.metric,
+        condition_type: rule.condition_type,
+        direction: rule.direction,
+        threshold: rule.threshold,
+        window_minutes: rule.window_minutes,
+      },
+      url: `${getBaseUrl()}/dashboard/alerts`,
+    },
+  };
+}
+
+/**
+ * Body of a Slack-compatible incoming webhook message
+ */
+export function buildSlackMessage(notification: AlertNotification) {
+  const summary = describeAlert(notification);
+
+  return {
+    text: summary,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${summary}*` },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `<${getBaseUrl()}/dashboard/alerts|Open alerts inbox>`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string>) {
+  const response = await fetchWebhookUrl(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Endpoint responded with ${response.status}`);
+  }
+}
+
+async function deliver(channel: AlertChannel, notification: AlertNotification): Promise<void> {
+  switch (channel.type) {
+    case 'email': {
+      const { html, text, subject } = generateMetricAlertEmail(notification, channel.locale);
+      const emailService = getEmailService();
+      for (const to of channel.recipients) {
+        await emailService.sendEmail({ to, subject, html, text });
+      }
+      return;
+    }
+    case 'webhook': {
+      if (!channel.url) {
+        throw new Error('Webhook URL is not configured');
+      }
+      const body = JSON.stringify(buildWebhookEvent(notification));
+      await postJson(channel.url, body, getWebhookHeaders(getChannelSecret(channel), body));
+      return;
+    }
+    case 'slack': {
+      const body = JSON.stringify(buildSlackMessage(notification));
+      await postJson(getChannelSecret(channel), body, { 'Content-Type': 'application/json' });
+      return;
+    }
+  }
+}
+
+/**
+ * Deliver a notification to a channel and record the outcome on it
+ */
+export async function sendAlertNotification(
+  channel: AlertChannel,
+  notification: AlertNotification
+): Promise<{ error: Error | null }> {
+  let deliveryError: Error | null = null;
+
+  try {
+    await deliver(channel, notification);
+  } catch (error) {
+    deliveryError = error instanceof Error ? error : new Error(String(error));
+    console.error(`❌ [DEBUG] Failed to deliver alert to channel ${channel.id}:`, deliveryError);
+  }
+
+  const { error: recordError } = await getSupabaseAdmin().rpc('record_alert_channel_delivery', {
+    p_channel_id: channel.id,
+    p_error: deliveryError?.message ?? null,
+  });
+
+  if (recordError) {
+    console.error(`⚠️ [WARN] Failed to record delivery to channel ${channel.id}:`, recordError);
+  }
+
+  return { error: deliveryError };
+}
+
+/**
+ * Send a sample alert to a channel (the "Send test" action)
+ */
+export async function sendTestAlertNotification(
+  channel: AlertChannel,
+  now: Date = new Date()
+): Promise<{ error: Error | null }> {
+  return sendAlertNotification(channel, {
+    event: 'alert.test',
+    accountId: channel.account_id,
+    rule: {
+      id: '00000000-0000-0000-0000-000000000000',
+      name: 'Test alert',
+      metric: 'conversion_rate',
+      condition_type: 'threshold',
+      direction: 'below',
+      threshold: 2,
+      window_minutes: 60,
+    },
+    alert: {
+      id: null,
+      value: 1.5,
+      expected: 2,
+      deviation: null,
+      firedAt: now.toISOString(),
+      resolvedAt: null,
+    },
+  });
+}
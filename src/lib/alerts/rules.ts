@@ -0,0 +1,190 @@
+/**
+ * Alert Rules
+ *
+ * Rules on the dashboard metrics of an account (migration 100), evaluated by
+ * the metric alerts job (see alert-runner.ts):
+ * - threshold: the metric over the evaluation window is above/below a value
+ * - anomaly: the metric deviates from its mean over the trailing windows of
+ *   the same length by at least `threshold` percent
+ * A rule alerts at most once per cooldown and notifies its channels.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { DashboardMetrics } from '@/lib/analytics/dashboard-metrics';
+
+/**
+ * Metrics a rule can watch
+ * Keep in sync with alert_rules_metric (migration 100)
+ */
+export const ALERT_METRICS = [
+  'conversion_rate',
+  'abandonment_rate',
+  'avg_order_value',
+  'total_revenue',
+  'total_sessions',
+  'total_conversions',
+] as const;
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+/** Dashboard metric of each alert metric */
+export const ALERT_METRIC_FIELDS: Record<AlertMetric, keyof DashboardMetrics> = {
+  conversion_rate: 'conversionRate',
+  abandonment_rate: 'abandonmentRate',
+  avg_order_value: 'avgOrderValue',
+  total_revenue: 'totalRevenue',
+  total_sessions: 'totalSessions',
+  total_conversions: 'totalConversions',
+};
+
+/** Metrics measured per checkout session (not evaluated below min_sessions) */
+export const SESSION_RATE_METRICS: AlertMetric[] = [
+  'conversion_rate',
+  'abandonment_rate',
+  'avg_order_value',
+];
+
+export const ALERT_CONDITION_TYPES = ['threshold', 'anomaly'] as const;
+export type AlertConditionType = (typeof ALERT_CONDITION_TYPES)[number];
+
+export const ALERT_DIRECTIONS = ['above', 'below'] as const;
+export type AlertDirection = (typeof ALERT_DIRECTIONS)[number];
+
+/**
+ * Longest period of events loaded to evaluate a rule (window and baseline)
+ */
+export const MAX_ALERT_LOOKBACK_MINUTES = 31 * 24 * 60;
+
+export interface AlertRule {
+  id: string;
+  account_id: string;
+  name: string;
+  metric: AlertMetric;
+  condition_type: AlertConditionType;
+  direction: AlertDirection;
+  threshold: number;
+  window_minutes: number;
+  baseline_windows: number;
+  min_sessions: number;
+  cooldown_minutes: number;
+  channel_ids: string[];
+  enabled: boolean;
+  last_evaluated_at: string | null;
+  last_fired_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const AlertRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    metric: z.enum(ALERT_METRICS),
+    conditionType: z.enum(ALERT_CONDITION_TYPES),
+    direction: z.enum(ALERT_DIRECTIONS),
+    threshold: z.number().finite().min(0),
+    windowMinutes: z
+      .number()
+      .int()
+      .min(5)
+      .max(7 * 24 * 60),
+    baselineWindows: z.number().int().min(1).max(30).default(7),
+    minSessions: z.number().int().min(0).max(100000).default(20),
+    cooldownMinutes: z
+      .number()
+      .int()
+      .min(0)
+      .max(7 * 24 * 60)
+      .default(60),
+    channelIds: z.array(z.uuid()).max(10).default([]),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((rule, ctx) => {
+    if (
+      rule.conditionType === 'threshold' &&
+      ['conversion_rate', 'abandonment_rate'].includes(rule.metric) &&
+      rule.threshold > 100
+    ) {
+      ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Must be a percentage' });
+    }
+
+    if (rule.conditionType === 'anomaly' && rule.threshold <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Must be greater than 0' });
+    }
+
+    const baselineWindows = rule.conditionType === 'anomaly' ? rule.baselineWindows : 0;
+    if (rule.windowMinutes * (baselineWindows + 1) > MAX_ALERT_LOOKBACK_MINUTES) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['baselineWindows'],
+        message: 'The window and its baseline cannot span more than 31 days',
+      });
+    }
+  });
+
+export type AlertRuleInput = z.infer<typeof AlertRuleSchema>;
+
+function toAlertRule(row: Record<string, unknown>): AlertRule {
+  return {
+    ...(row as unknown as AlertRule),
+    threshold: Number(row.threshold),
+    channel_ids: Array.isArray(row.channel_ids) ? (row.channel_ids as string[]) : [],
+  };
+}
+
+/**
+ * Alert rules of an account
+ */
+export async function getAlertRules(
+  accountId: string
+): Promise<{ rules: AlertRule[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_alert_rules', {
+    p_account_id: accountId,
+  });
+
+  return { rules: ((data || []) as Record<string, unknown>[]).map(toAlertRule), error };
+}
+
+/**
+ * Create a rule, or update it when ruleId is given
+ * Channels that do not belong to the account are dropped
+ */
+export async function saveAlertRule(
+  accountId: string,
+  input: AlertRuleInput,
+  options: { ruleId?: string; createdBy?: string } = {}
+): Promise<{ rule: AlertRule | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('save_alert_rule', {
+    p_account_id: accountId,
+    p_rule_id: options.ruleId ?? null,
+    p_name: input.name,
+    p_metric: input.metric,
+    p_condition_type: input.conditionType,
+    p_direction: input.direction,
+    p_threshold: input.threshold,
+    p_window_minutes: input.windowMinutes,
+    p_baseline_windows: input.baselineWindows,
+    p_min_sessions: input.minSessions,
+    p_cooldown_minutes: input.cooldownMinutes,
+    p_channel_ids: input.channelIds,
+    p_enabled: input.enabled,
+    p_created_by: options.createdBy ?? null,
+  });
+
+  const row = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | null;
+  return { rule: row ? toAlertRule(row) : null, error };
+}
+
+/**
+ * Delete a rule of an account with its alerts
+ */
+export async function deleteAlertRule(
+  accountId: string,
+  ruleId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_alert_rule', {
+    p_account_id: accountId,
+    p_rule_id: ruleId,
+  });
+
+  return { deleted: !!data, error };
+}
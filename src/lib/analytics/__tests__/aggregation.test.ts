@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { queryAnalytics, queryAnalyticsTotals } from '../aggregation';
+
+const rangeMock = vi.fn();
+const rpcMock = vi.fn(() => ({ range: rangeMock }));
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(() => ({ rpc: rpcMock })),
+}));
+
+const period = {
+  start: new Date('2025-01-01T00:00:00.000Z'),
+  end: new Date('2025-01-31T23:59:59.999Z'),
+};
+
+function rpcRow(dimensions: Record<string, string>, overrides: Record<string, unknown> = {}) {
+  return {
+    dimensions,
+    event_count: 3,
+    session_count: 2,
+    order_count: 1,
+    revenue: '150.50',
+    discount: 0,
+    converted_sessions: 1,
+    converted_revenue: 150.5,
+    values: {},
+    first_seen: '2025-01-02T10:00:00+00:00',
+    last_seen: '2025-01-03T12:00:00+00:00',
+    ...overrides,
+  };
+}
+
+describe('queryAnalytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pass the query to aggregate_analytics_events and map rows', async () => {
+    rangeMock.mockResolvedValueOnce({
+      data: [
+        rpcRow(
+          { deviceType: 'mobile' },
+          { values: { shippingCost: { sum: '20', max: 12, count: 2 } } }
+        ),
+      ],
+      error: null,
+    });
+
+    const { data, error } = await queryAnalytics({
+      accountId: 'account-1',
+      period,
+      eventTypes: ['checkout_start'],
+      dimensions: ['deviceType'],
+      filters: { hasRevenue: true },
+      conversionEventTypes: ['checkout_complete'],
+      valueFields: ['shippingCost'],
+    });
+
+    expect(error).toBeNull();
+    expect(rpcMock).toHaveBeenCalledWith('aggregate_analytics_events', {
+      p_customer_id: 'account-1',
+      p_start_date: period.start.toISOString(),
+      p_end_date: period.end.toISOString(),
+      p_event_types: ['checkout_start'],
+      p_dimensions: ['deviceType'],
+      p_filters: { hasRevenue: true },
+      p_conversion_event_types: ['checkout_complete'],
+      p_value_fields: ['shippingCost'],
+      p_attribution: 'event',
+    });
+    expect(data).toHaveLength(1);
+    expect(data![0].dimensions.deviceType).toBe('mobile');
+    expect(data![0].revenue).toBe(150.5);
+    expect(data![0].convertedSessions).toBe(1);
+    expect(data![0].values.shippingCost).toEqual({ sum: 20, max: 12, count: 2 });
+    expect(data![0].firstSeen.toISOString()).toBe('2025-01-02T10:00:00.000Z');
+  });
+
+  it('should page through results instead of truncating them', async () => {
+    const fullPage = Array.from({ length: 1000 }, (_, i) => rpcRow({ session: `session-${i}` }));
+    rangeMock
+      .mockResolvedValueOnce({ data: fullPage, error: null })
+      .mockResolvedValueOnce({ data: [rpcRow({ session: 'session-1000' })], error: null });
+
+    const { data } = await queryAnalytics({
+      accountId: 'account-1',
+      period,
+      dimensions: ['session'],
+    });
+
+    expect(data).toHaveLength(1001);
+    expect(rangeMock).toHaveBeenNthCalledWith(1, 0, 999);
+    expect(rangeMock).toHaveBeenNthCalledWith(2, 1000, 1999);
+  });
+
+  it('should return the database error', async () => {
+    rangeMock.mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Unsupported analytics dimension: foo' },
+    });
+
+    const { data, error } = await queryAnalytics({ accountId: 'account-1', period });
+
+    expect(data).toBeNull();
+    expect(error?.message).toBe('Unsupported analytics dimension: foo');
+  });
+});
+
+describe('queryAnalyticsTotals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return zeros when no event matched', async () => {
+    rangeMock.mockResolvedValueOnce({ data: [], error: null });
+
+    const { data } = await queryAnalyticsTotals({
+      accountId: 'account-1',
+      period,
+      valueFields: ['deliveryDays'],
+    });
+
+    expect(data?.events).toBe(0);
+    expect(data?.revenue).toBe(0);
+    expect(data?.values.deliveryDays).toEqual({ sum: 0, max: null, count: 0 });
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  createRealtimeMetricsStream,
+  getRealtimeSnapshot,
+  getSnapshotId,
+  parseRealtimeMetrics,
+  toRealtimeMetrics,
+  type RealtimeSnapshot,
+} from '../realtime-metrics';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ROW = {
+  window_start: '2026-10-19T11:55:00Z',
+  window_end: '2026-10-19T12:00:00Z',
+  active_sessions: 12,
+  checkouts_started: '8',
+  conversions: 3,
+  revenue: '450.50',
+  previous_active_sessions: 10,
+  previous_checkouts_started: 8,
+  previous_conversions: 4,
+  previous_revenue: 0,
+  risk_medium: 2,
+  risk_high: 1,
+  risk_critical: 0,
+  last_event_at: '2026-10-19T11:59:58Z',
+};
+
+function mockRows(...rows: Partial<typeof ROW>[]) {
+  const rpc = vi.fn();
+  rows.forEach((row) => {
+    rpc.mockResolvedValueOnce({ data: [{ ...ROW, ...row }], error: null });
+  });
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+async function readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, count: number) {
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  while (chunks.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(decoder.decode(value));
+  }
+  return chunks;
+}
+
+function payload(chunk: string) {
+  return JSON.parse(
+    chunk
+      .split('\n')
+      .find((line) => line.startsWith('data: '))!
+      .slice(6)
+  );
+}
+
+describe('getRealtimeSnapshot', () => {
+  it('should map the aggregates of the window', async () => {
+    const rpc = mockRows({});
+
+    const { snapshot, error } = await getRealtimeSnapshot('account-1');
+
+    expect(error).toBeNull();
+    expect(rpc).toHaveBeenCalledWith('get_realtime_metrics', {
+      p_customer_id: 'account-1',
+      p_window_seconds: 300,
+    });
+    expect(snapshot?.current).toEqual({
+      active_sessions: 12,
+      checkouts_started: 8,
+      conversions: 3,
+      revenue: 450.5,
+      abandonment_risk_medium: 2,
+      abandonment_risk_high: 1,
+      abandonment_risk_critical: 0,
+    });
+    expect(snapshot?.previous.conversions).toBe(4);
+    expect(snapshot?.lastEventAt).toBe('2026-10-19T11:59:58Z');
+  });
+});
+
+describe('parseRealtimeMetrics', () => {
+  it('should default to every metric and report unknown names', () => {
+    expect(parseRealtimeMetrics(null).metrics).toHaveLength(7);
+    expect(parseRealtimeMetrics('revenue, active_sessions,bogus')).toEqual({
+      metrics: ['active_sessions', 'revenue'],
+      invalid: ['bogus'],
+    });
+  });
+});
+
+describe('toRealtimeMetrics', () => {
+  it('should compare with the previous window', async () => {
+    mockRows({});
+    const { snapshot } = await getRealtimeSnapshot('account-1');
+
+    const metrics = toRealtimeMetrics(snapshot as RealtimeSnapshot, [
+      'active_sessions',
+      'checkouts_started',
+      'conversions',
+      'revenue',
+      'abandonment_risk_high',
+    ]);
+
+    expect(metrics.map(({ metric, change, trend }) => ({ metric, change, trend }))).toEqual([
+      { metric: 'active_sessions', change: 20, trend: 'up' },
+      { metric: 'checkouts_started', change: 0, trend: 'stable' },
+      { metric: 'conversions', change: -25, trend: 'down' },
+      { metric: 'revenue', change: 100, trend: 'up' },
+      { metric: 'abandonment_risk_high', change: undefined, trend: undefined },
+    ]);
+    expect(metrics[4]).toEqual({
+      metric: 'abandonment_risk_high',
+      value: 1,
+      timestamp: '2026-10-19T12:00:00Z',
+    });
+  });
+});
+
+describe('createRealtimeMetricsStream', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send the snapshot and then only changes', async () => {
+    vi.useFakeTimers();
+    mockRows({}, {}, { active_sessions: 13, last_event_at: '2026-10-19T12:00:04Z' });
+    const { snapshot } = await getRealtimeSnapshot('account-1');
+    const controller = new AbortController();
+
+    const reader = createRealtimeMetricsStream({
+      accountId: 'account-1',
+      metrics: ['active_sessions'],
+      initialSnapshot: snapshot as RealtimeSnapshot,
+      signal: controller.signal,
+    }).getReader();
+
+    const [connected, initial] = await readEvents(reader, 2);
+    expect(connected).toContain('retry: 3000');
+    expect(payload(connected).type).toBe('connected');
+    expect(payload(initial)).toMatchObject({
+      type: 'initial_metrics',
+      metrics: [{ metric: 'active_sessions', value: 12 }],
+    });
+
+    // Unchanged poll, then a new event
+    await vi.advanceTimersByTimeAsync(10_000);
+    const [update] = await readEvents(reader, 1);
+    expect(update).toMatch(/^id: 1792411204000-/);
+    expect(payload(update)).toMatchObject({
+      type: 'metrics_update',
+      metrics: [{ metric: 'active_sessions', value: 13 }],
+    });
+
+    controller.abort();
+    expect(await reader.read()).toEqual({ value: undefined, done: true });
+  });
+
+  it('should skip a poll that throws and keep streaming', async () => {
+    vi.useFakeTimers();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const rpc = mockRows({});
+    const { snapshot } = await getRealtimeSnapshot('account-1');
+    rpc.mockRejectedValueOnce(new TypeError('fetch failed')).mockResolvedValueOnce({
+      data: [{ ...ROW, active_sessions: 14, last_event_at: '2026-10-19T12:00:09Z' }],
+      error: null,
+    });
+    const controller = new AbortController();
+
+    const reader = createRealtimeMetricsStream({
+      accountId: 'account-1',
+      metrics: ['active_sessions'],
+      initialSnapshot: snapshot as RealtimeSnapshot,
+      signal: controller.signal,
+    }).getReader();
+    await readEvents(reader, 2);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    const [update] = await readEvents(reader, 1);
+
+    expect(consoleError).toHaveBeenCalledWith(
+      '❌ [DEBUG] Error refreshing realtime metrics:',
+      expect.any(TypeError)
+    );
+    expect(payload(update)).toMatchObject({
+      type: 'metrics_update',
+      metrics: [{ metric: 'active_sessions', value: 14 }],
+    });
+
+    controller.abort();
+    expect(await reader.read()).toEqual({ value: undefined, done: true });
+    consoleError.mockRestore();
+  });
+
+  it('should not resend a snapshot the client already has', async () => {
+    vi.useFakeTimers();
+    mockRows({});
+    const { snapshot } = await getRealtimeSnapshot('account-1');
+    const controller = new AbortController();
+
+    const reader = createRealtimeMetricsStream({
+      accountId: 'account-1',
+      metrics: ['revenue'],
+      initialSnapshot: snapshot as RealtimeSnapshot,
+      lastEventId: getSnapshotId(snapshot as RealtimeSnapshot, ['revenue']),
+      signal: controller.signal,
+    }).getReader();
+
+    const [connected] = await readEvents(reader, 1);
+    expect(payload(connected).type).toBe('connected');
+
+    controller.abort();
+    expect(await reader.read()).toEqual({ value: undefined, done: true });
+  });
+});
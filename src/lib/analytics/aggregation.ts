@@ -0,0 +1,271 @@
+/**
+ * Analytics Aggregation
+ *
+ * Typed query builder over the aggregate_analytics_events SQL function.
+ * Events are grouped and summed in the database so routes only receive
+ * aggregated rows instead of crunching raw events in memory.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { DateRange } from '@/utils/date-ranges';
+
+/**
+ * Dimensions events can be grouped by
+ * Keep in sync with analytics.aggregation_dimension_expression (migration 081)
+ */
+export const ANALYTICS_DIMENSIONS = [
+  'eventType',
+  'category',
+  'step',
+  'session',
+  'orderForm',
+  'customer',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'deviceType',
+  'browser',
+  'platform',
+  'paymentMethod',
+  'shippingMethod',
+  'couponCode',
+  'country',
+  'state',
+  'channel',
+] as const;
+
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+/**
+ * Value used for a dimension when the event has no value for it
+ */
+export const UNKNOWN_DIMENSION_VALUE = 'Unknown';
+
+/**
+ * Event filters applied in the database
+ */
+export interface AnalyticsFilters {
+  categories?: string[];
+  steps?: string[];
+  sessionIds?: string[];
+  /** Events whose metadata contains this object (JSONB @>) */
+  metadata?: Record<string, unknown>;
+  /** Only events with revenue > 0 */
+  hasRevenue?: boolean;
+}
+
+/**
+ * Aggregation query
+ *
+ * - dimensions: group keys (no dimensions = one totals row)
+ * - conversionEventTypes: sessions with any of these events in the period count as converted
+ * - valueFields: numeric metadata fields summarized per group (sum, max, count)
+ * - attribution: 'session' attributes all events of a session to its first known dimension values
+ */
+export interface AnalyticsQuery<D extends AnalyticsDimension = never, V extends string = never> {
+  accountId: string;
+  period: DateRange;
+  eventTypes?: string[];
+  dimensions?: readonly D[];
+  filters?: AnalyticsFilters;
+  conversionEventTypes?: string[];
+  valueFields?: readonly V[];
+  attribution?: 'event' | 'session';
+}
+
+/**
+ * Summary of a numeric metadata field within a group
+ */
+export interface ValueSummary {
+  sum: number;
+  max: number | null;
+  count: number;
+}
+
+/**
+ * Aggregated row
+ *
+ * - events: number of events
+ * - sessions: distinct sessions
+ * - orders: events carrying revenue
+ * - revenue / discount: summed with the canonical extraction (extractRevenue / extractDiscount)
+ * - convertedSessions / convertedRevenue: sessions in the group with a conversion event
+ *   and their revenue (highest conversion revenue per session)
+ */
+export interface AnalyticsRow<D extends AnalyticsDimension = never, V extends string = never> {
+  dimensions: Record<D, string>;
+  events: number;
+  sessions: number;
+  orders: number;
+  revenue: number;
+  discount: number;
+  convertedSessions: number;
+  convertedRevenue: number;
+  values: Record<V, ValueSummary>;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+/**
+ * Row returned by aggregate_analytics_events RPC function
+ */
+interface AggregateRpcRow {
+  dimensions: Record<string, string> | null;
+  event_count: number | string;
+  session_count: number | string;
+  order_count: number | string;
+  revenue: number | string;
+  discount: number | string;
+  converted_sessions: number | string;
+  converted_revenue: number | string;
+  values: Record<
+    string,
+    { sum: number | string; max: number | string | null; count: number | string }
+  > | null;
+  first_seen: string;
+  last_seen: string;
+}
+
+/**
+ * Rows fetched per request (PostgREST caps responses at 1000 rows)
+ */
+const PAGE_SIZE = 1000;
+
+/**
+ * Hard cap on aggregated rows loaded by a single query
+ */
+const MAX_ROWS = 100_000;
+
+function toNumber(value: number | string | null | undefined): number {
+  const numValue = typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+  return isNaN(numValue) ? 0 : numValue;
+}
+
+function mapRow<D extends AnalyticsDimension, V extends string>(
+  row: AggregateRpcRow,
+  valueFields: readonly V[]
+): AnalyticsRow<D, V> {
+  const values = {} as Record<V, ValueSummary>;
+  valueFields.forEach((field) => {
+    const summary = row.values?.[field];
+    values[field] = {
+      sum: toNumber(summary?.sum),
+      max: summary?.max === null || summary?.max === undefined ? null : toNumber(summary.max),
+      count: toNumber(summary?.count),
+    };
+  });
+
+  return {
+    dimensions: (row.dimensions || {}) as Record<D, string>,
+    events: toNumber(row.event_count),
+    sessions: toNumber(row.session_count),
+    orders: toNumber(row.order_count),
+    revenue: toNumber(row.revenue),
+    discount: toNumber(row.discount),
+    convertedSessions: toNumber(row.converted_sessions),
+    convertedRevenue: toNumber(row.converted_revenue),
+    values,
+    firstSeen: new Date(row.first_seen),
+    lastSeen: new Date(row.last_seen),
+  };
+}
+
+/**
+ * Run an aggregation query
+ * Pages through the results so large groupings are never truncated
+ *
+ * @example
+ * const { data, error } = await queryAnalytics({
+ *   accountId,
+ *   period: range,
+ *   eventTypes: ['checkout_start'],
+ *   dimensions: ['deviceType'],
+ *   conversionEventTypes: ['checkout_complete'],
+ * });
+ * data?.[0].dimensions.deviceType;
+ */
+export async function queryAnalytics<
+  const D extends AnalyticsDimension = never,
+  const V extends string = never,
+>(
+  query: AnalyticsQuery<D, V>
+): Promise<{ data: AnalyticsRow<D, V>[] | null; error: Error | null }> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const valueFields = query.valueFields || [];
+  const rows: AnalyticsRow<D, V>[] = [];
+
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .rpc('aggregate_analytics_events', {
+        p_customer_id: query.accountId,
+        p_start_date: query.period.start.toISOString(),
+        p_end_date: query.period.end.toISOString(),
+        p_event_types: query.eventTypes || null,
+        p_dimensions: query.dimensions || [],
+        p_filters: query.filters || {},
+        p_conversion_event_types: query.conversionEventTypes || null,
+        p_value_fields: valueFields,
+        p_attribution: query.attribution || 'event',
+      })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const page = (data || []) as AggregateRpcRow[];
+    page.forEach((row) => rows.push(mapRow<D, V>(row, valueFields)));
+
+    if (page.length < PAGE_SIZE) {
+      return { data: rows, error: null };
+    }
+  }
+
+  console.warn('⚠️ [WARN] Analytics aggregation reached the row cap:', {
+    dimensions: query.dimensions,
+    maxRows: MAX_ROWS,
+  });
+
+  return { data: rows, error: null };
+}
+
+/**
+ * Run an aggregation query without dimensions and return its single totals row
+ * (zeros when no event matched)
+ */
+export async function queryAnalyticsTotals<const V extends string = never>(
+  query: Omit<AnalyticsQuery<never, V>, 'dimensions' | 'attribution'>
+): Promise<{ data: AnalyticsRow<never, V> | null; error: Error | null }> {
+  const { data, error } = await queryAnalytics<never, V>(query);
+
+  if (error || !data) {
+    return { data: null, error };
+  }
+
+  if (data.length > 0) {
+    return { data: data[0], error: null };
+  }
+
+  const values = {} as Record<V, ValueSummary>;
+  (query.valueFields || []).forEach((field) => {
+    values[field] = { sum: 0, max: null, count: 0 };
+  });
+
+  return {
+    data: {
+      dimensions: {} as Record<never, string>,
+      events: 0,
+      sessions: 0,
+      orders: 0,
+      revenue: 0,
+      discount: 0,
+      convertedSessions: 0,
+      convertedRevenue: 0,
+      values,
+      firstSeen: query.period.start,
+      lastSeen: query.period.start,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Dashboard Metrics
+ *
+ * Headline checkout metrics of the Overview page (/api/dashboard/metrics),
+ * computed from the analytics events of a period. Also evaluated by metric
+ * alert rules (src/lib/alerts).
+ */
+
+import type { AnalyticsEvent } from '@/hooks/useDashboardData';
+
+export interface DashboardMetrics {
+  totalSessions: number;
+  totalConversions: number;
+  totalRevenue: number;
+  totalOrders: number;
+  avgOrderValue: number;
+  conversionRate: number;
+  abandonmentRate: number;
+}
+
+export interface DashboardFunnel {
+  cart: number;
+  profile: number;
+  shipping: number;
+  payment: number;
+  confirmed: number;
+}
+
+/**
+ * Events the headline metrics are computed from; checkouts that completed
+ * carry their revenue in metadata.revenue
+ */
+export const DASHBOARD_METRIC_EVENT_TYPES = ['checkout_start', 'checkout_complete'];
+
+// Helper function to clamp percentage between 0 and 100
+const clampPercentage = (value: number): number => {
+  return Math.max(0, Math.min(100, value));
+};
+
+const countEvents = (events: AnalyticsEvent[], eventType: string): number =>
+  events.filter((e) => e.event_type === eventType).length;
+
+/**
+ * Aggregate the events of a period into the dashboard metrics
+ */
+export function aggregateDashboardMetrics(events: AnalyticsEvent[]): DashboardMetrics {
+  const aggregated: DashboardMetrics = {
+    totalSessions: countEvents(events, 'checkout_start'),
+    totalConversions: countEvents(events, 'checkout_complete'),
+    totalRevenue: events.reduce((sum, e) => {
+      if (e.metadata?.revenue) {
+        return sum + parseFloat(String(e.metadata.revenue));
+      }
+      return sum;
+    }, 0),
+    totalOrders: countEvents(events, 'checkout_complete'),
+    avgOrderValue: 0,
+    conversionRate: 0,
+    abandonmentRate: 0,
+  };
+
+  if (aggregated.totalSessions > 0) {
+    aggregated.conversionRate = clampPercentage(
+      (aggregated.totalConversions / aggregated.totalSessions) * 100
+    );
+    aggregated.abandonmentRate = clampPercentage(100 - aggregated.conversionRate);
+  }
+
+  if (aggregated.totalOrders > 0) {
+    aggregated.avgOrderValue = aggregated.totalRevenue / aggregated.totalOrders;
+  }
+
+  return aggregated;
+}
+
+/**
+ * Checkout funnel steps of a period
+ */
+export function aggregateDashboardFunnel(events: AnalyticsEvent[]): DashboardFunnel {
+  return {
+    cart: countEvents(events, 'cart_view'),
+    profile: countEvents(events, 'profile_step'),
+    shipping: countEvents(events, 'shipping_step'),
+    payment: countEvents(events, 'payment_step'),
+    confirmed: countEvents(events, 'checkout_complete'),
+  };
+}
@@ -0,0 +1,345 @@
+/**
+ * Realtime Metrics
+ *
+ * Rolling per-account aggregates of the last few minutes of checkout events
+ * (get_realtime_metrics, migration 098) and the Server-Sent Events stream
+ * that pushes them to useRealtimeMetrics.
+ *
+ * The stream polls the aggregates and only sends an event when they change.
+ * Event ids identify the snapshot (newest event + values), so a client that
+ * reconnects with Last-Event-ID is not sent the data it already has.
+ */
+
+import { createHash } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+
+/**
+ * Metrics a stream can be filtered to (?metrics=a,b)
+ */
+export const REALTIME_METRICS = [
+  'active_sessions',
+  'checkouts_started',
+  'conversions',
+  'revenue',
+  'abandonment_risk_medium',
+  'abandonment_risk_high',
+  'abandonment_risk_critical',
+] as const;
+
+export type RealtimeMetricName = (typeof REALTIME_METRICS)[number];
+
+/**
+ * Length of the rolling window
+ */
+export const REALTIME_WINDOW_SECONDS = 300;
+
+export interface RealtimeMetric {
+  metric: string;
+  value: number;
+  /** Percentage change against the previous window */
+  change?: number;
+  trend?: 'up' | 'down' | 'stable';
+  timestamp: string;
+}
+
+export interface RealtimeSnapshot {
+  windowStart: string;
+  windowEnd: string;
+  current: Record<RealtimeMetricName, number>;
+  /** Same metrics in the previous window (not available for risk counts) */
+  previous: Partial<Record<RealtimeMetricName, number>>;
+  /** Newest event in the account (null when there was no recent activity) */
+  lastEventAt: string | null;
+}
+
+/**
+ * Row returned by get_realtime_metrics RPC function
+ */
+interface RealtimeMetricsRow {
+  window_start: string;
+  window_end: string;
+  active_sessions: number | string;
+  checkouts_started: number | string;
+  conversions: number | string;
+  revenue: number | string;
+  previous_active_sessions: number | string;
+  previous_checkouts_started: number | string;
+  previous_conversions: number | string;
+  previous_revenue: number | string;
+  risk_medium: number | string;
+  risk_high: number | string;
+  risk_critical: number | string;
+  last_event_at: string | null;
+}
+
+function toNumber(value: number | string | null | undefined): number {
+  const numValue = typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+  return isNaN(numValue) ? 0 : numValue;
+}
+
+/**
+ * Aggregates of the current window for an account
+ */
+export async function getRealtimeSnapshot(
+  accountId: string
+): Promise<{ snapshot: RealtimeSnapshot | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_realtime_metrics', {
+    p_customer_id: accountId,
+    p_window_seconds: REALTIME_WINDOW_SECONDS,
+  });
+
+  const row = (Array.isArray(data) ? data[0] : data) as RealtimeMetricsRow | null;
+
+  if (error || !row) {
+    return { snapshot: null, error: error || new Error('No realtime metrics returned') };
+  }
+
+  return {
+    snapshot: {
+      windowStart: row.window_start,
+      windowEnd: row.window_end,
+      current: {
+        active_sessions: toNumber(row.active_sessions),
+        checkouts_started: toNumber(row.checkouts_started),
+        conversions: toNumber(row.conversions),
+        revenue: toNumber(row.revenue),
+        abandonment_risk_medium: toNumber(row.risk_medium),
+        abandonment_risk_high: toNumber(row.risk_high),
+        abandonment_risk_critical: toNumber(row.risk_critical),
+      },
+      previous: {
+        active_sessions: toNumber(row.previous_active_sessions),
+        checkouts_started: toNumber(row.previous_checkouts_started),
+        conversions: toNumber(row.previous_conversions),
+        revenue: toNumber(row.previous_revenue),
+      },
+      lastEventAt: row.last_event_at,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Parse the metrics filter of a stream request
+ * Empty = all metrics; unknown names are returned so the route can reject them
+ */
+export function parseRealtimeMetrics(value: string | null): {
+  metrics: RealtimeMetricName[];
+  invalid: string[];
+} {
+  const names = (value || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    return { metrics: [...REALTIME_METRICS], invalid: [] };
+  }
+
+  const known = REALTIME_METRICS as readonly string[];
+  return {
+    metrics: REALTIME_METRICS.filter((metric) => names.includes(metric)),
+    invalid: names.filter((name) => !known.includes(name)),
+  };
+}
+
+/**
+ * Requested metrics of a snapshot, with change and trend against the previous window
+ */
+export function toRealtimeMetrics(
+  snapshot: RealtimeSnapshot,
+  metrics: readonly RealtimeMetricName[]
+): RealtimeMetric[] {
+  return metrics.map((metric) => {
+    const value = snapshot.current[metric];
+    const previous = snapshot.previous[metric];
+
+    if (previous === undefined) {
+      return { metric, value, timestamp: snapshot.windowEnd };
+    }
+
+    const change = previous > 0 ? ((value - previous) / previous) * 100 : value > 0 ? 100 : 0;
+    const rounded = Math.round(change * 10) / 10;
+
+    return {
+      metric,
+      value,
+      change: rounded,
+      trend: rounded > 0 ? 'up' : rounded < 0 ? 'down' : 'stable',
+      timestamp: snapshot.windowEnd,
+    };
+  });
+}
+
+/**
+ * SSE event id of a snapshot: newest event (ms) and a hash of the requested values
+ */
+export function getSnapshotId(
+  snapshot: RealtimeSnapshot,
+  metrics: readonly RealtimeMetricName[]
+): string {
+  const cursor = snapshot.lastEventAt ? new Date(snapshot.lastEventAt).getTime() : 0;
+  const values = metrics.map((metric) => [
+    metric,
+    snapshot.current[metric],
+    snapshot.previous[metric] ?? null,
+  ]);
+  const hash = createHash('sha1').update(JSON.stringify(values)).digest('hex').slice(0, 12);
+
+  return `${cursor}-${hash}`;
+}
+
+/**
+ * Serialize a Server-Sent Event
+ */
+export function formatSseEvent(event: {
+  id?: string;
+  event?: string;
+  retry?: number;
+  data: unknown;
+}): string {
+  let message = '';
+  if (event.id) message += `id: ${event.id}\n`;
+  if (event.event) message += `event: ${event.event}\n`;
+  if (event.retry) message += `retry: ${event.retry}\n`;
+  return `${message}data: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Stream timings
+ * Streams end after MAX_STREAM_MS (serverless function limits); EventSource
+ * reconnects on its own after RETRY_MS and resumes with Last-Event-ID.
+ */
+const POLL_INTERVAL_MS = 5_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const MAX_STREAM_MS = 5 * 60_000;
+const RETRY_MS = 3_000;
+
+export interface RealtimeStreamOptions {
+  accountId: string;
+  metrics: readonly RealtimeMetricName[];
+  /** Snapshot loaded before the stream was opened */
+  initialSnapshot: RealtimeSnapshot;
+  /** Id of the last event the client received (reconnection) */
+  lastEventId?: string | null;
+  /** Ends the stream when the client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * SSE stream of realtime metrics
+ *
+ * Events (all on the default "message" channel, as useRealtimeMetrics expects):
+ * - connected: sent first, with the reconnection delay
+ * - initial_metrics: snapshot of a new connection
+ * - metrics_update: snapshot that changed (or changed while the client was away)
+ * Heartbeat comments keep proxies from closing idle connections.
+ */
+export function createRealtimeMetricsStream(
+  options: RealtimeStreamOptions
+): ReadableStream<Uint8Array> {
+  const { accountId, metrics, initialSnapshot, lastEventId, signal } = options;
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let polling = false;
+      let sentId = lastEventId || null;
+
+      const send = (chunk: string) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away without aborting: nothing left to send to
+          stop();
+        }
+      };
+
+      const sendSnapshot = (
+        type: 'initial_metrics' | 'metrics_update',
+        snapshot: RealtimeSnapshot
+      ) => {
+        const id = getSnapshotId(snapshot, metrics);
+        if (id === sentId) {
+          return;
+        }
+        sentId = id;
+        send(
+          formatSseEvent({
+            id,
+            data: {
+              type,
+              metrics: toRealtimeMetrics(snapshot, metrics),
+              window: { start: snapshot.windowStart, end: snapshot.windowEnd },
+              timestamp: new Date().toISOString(),
+            },
+          })
+        );
+      };
+
+      send(
+        formatSseEvent({
+          retry: RETRY_MS,
+          data: { type: 'connected', timestamp: new Date().toISOString() },
+        })
+      );
+      sendSnapshot(lastEventId ? 'metrics_update' : 'initial_metrics', initialSnapshot);
+
+      const poll = setInterval(async () => {
+        if (polling || closed) {
+          return;
+        }
+        polling = true;
+        try {
+          const { snapshot, error } = await getRealtimeSnapshot(accountId);
+          if (error || !snapshot) {
+            console.warn('⚠️ [WARN] Failed to refresh realtime metrics:', error);
+            return;
+          }
+          sendSnapshot('metrics_update', snapshot);
+        } catch (error) {
+          // Skip the tick; the next one tries again
+          console.error('❌ [DEBUG] Error refreshing realtime metrics:', error);
+        } finally {
+          polling = false;
+        }
+      }, POLL_INTERVAL_MS);
+
+      const heartbeat = setInterval(() => {
+        send(`: heartbeat ${new Date().toISOString()}\n\n`);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const lifetime = setTimeout(() => stop(), MAX_STREAM_MS);
+
+      stop = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        clearTimeout(lifetime);
+        signal?.removeEventListener('abort', stop);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      if (signal?.aborted) {
+        stop();
+      } else {
+        signal?.addEventListener('abort', stop);
+      }
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
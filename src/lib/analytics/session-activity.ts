@@ -0,0 +1,138 @@
+/**
+ * Session Activity
+ *
+ * Per-session checkout activity built from one aggregation query grouped by
+ * session, event type and step (used by abandonment prediction and friction score).
+ */
+
+import type { DateRange } from '@/utils/date-ranges';
+import { queryAnalytics, UNKNOWN_DIMENSION_VALUE, type ValueSummary } from './aggregation';
+
+/**
+ * Checkout events that describe a session's progress
+ */
+export const SESSION_ACTIVITY_EVENT_TYPES = [
+  'checkout_start',
+  'checkout_started',
+  'step_viewed',
+  'step_completed',
+  'step_abandoned',
+  'error_occurred',
+  'checkout_complete',
+  'order_confirmed',
+];
+
+const CHECKOUT_START_EVENTS = ['checkout_start', 'checkout_started'];
+const CHECKOUT_COMPLETE_EVENTS = ['checkout_complete', 'order_confirmed'];
+
+export interface SessionActivity {
+  sessionId: string;
+  /** Earliest event of the session */
+  startTime: Date;
+  lastActivity: Date;
+  checkoutStartedAt: Date | null;
+  completedAt: Date | null;
+  checkoutStarts: number;
+  /** Step of the most recent step_viewed event */
+  currentStep: string | null;
+  /** Most recent time the current step was viewed */
+  currentStepViewedAt: Date | null;
+  stepViews: Record<string, number>;
+  stepsVisited: Set<string>;
+  stepsCompleted: Set<string>;
+  errors: number;
+  completed: boolean;
+  abandoned: boolean;
+  values: Record<string, ValueSummary>;
+}
+
+/**
+ * Load activity for every session with checkout events in the period
+ *
+ * @param accountId - Account to query
+ * @param period - Date range
+ * @param valueFields - Numeric metadata fields to summarize per session (max/sum/count)
+ */
+export async function getSessionActivity(
+  accountId: string,
+  period: DateRange,
+  valueFields: readonly string[] = []
+): Promise<{ data: Map<string, SessionActivity> | null; error: Error | null }> {
+  const { data: rows, error } = await queryAnalytics({
+    accountId,
+    period,
+    eventTypes: SESSION_ACTIVITY_EVENT_TYPES,
+    dimensions: ['session', 'eventType', 'step'],
+    valueFields,
+  });
+
+  if (error || !rows) {
+    return { data: null, error };
+  }
+
+  const sessions = new Map<string, SessionActivity>();
+
+  rows.forEach((row) => {
+    const { session: sessionId, eventType } = row.dimensions;
+    const step = row.dimensions.step !== UNKNOWN_DIMENSION_VALUE ? row.dimensions.step : null;
+
+    const session: SessionActivity = sessions.get(sessionId) || {
+      sessionId,
+      startTime: row.firstSeen,
+      lastActivity: row.lastSeen,
+      checkoutStartedAt: null,
+      completedAt: null,
+      checkoutStarts: 0,
+      currentStep: null,
+      currentStepViewedAt: null,
+      stepViews: {},
+      stepsVisited: new Set<string>(),
+      stepsCompleted: new Set<string>(),
+      errors: 0,
+      completed: false,
+      abandoned: false,
+      values: {},
+    };
+    sessions.set(sessionId, session);
+
+    if (row.firstSeen < session.startTime) session.startTime = row.firstSeen;
+    if (row.lastSeen > session.lastActivity) session.lastActivity = row.lastSeen;
+
+    if (CHECKOUT_START_EVENTS.includes(eventType)) {
+      session.checkoutStarts += row.events;
+      if (!session.checkoutStartedAt || row.firstSeen < session.checkoutStartedAt) {
+        session.checkoutStartedAt = row.firstSeen;
+      }
+    } else if (CHECKOUT_COMPLETE_EVENTS.includes(eventType)) {
+      session.completed = true;
+      if (!session.completedAt || row.firstSeen < session.completedAt) {
+        session.completedAt = row.firstSeen;
+      }
+    } else if (eventType === 'step_viewed' && step) {
+      session.stepViews[step] = (session.stepViews[step] || 0) + row.events;
+      session.stepsVisited.add(step);
+      if (!session.currentStepViewedAt || row.lastSeen > session.currentStepViewedAt) {
+        session.currentStep = step;
+        session.currentStepViewedAt = row.lastSeen;
+      }
+    } else if (eventType === 'step_completed' && step) {
+      session.stepsCompleted.add(step);
+      session.stepsVisited.add(step);
+    } else if (eventType === 'error_occurred') {
+      session.errors += row.events;
+    } else if (eventType === 'step_abandoned') {
+      session.abandoned = true;
+    }
+
+    Object.entries(row.values).forEach(([field, summary]) => {
+      const current = session.values[field] || { sum: 0, max: null, count: 0 };
+      session.values[field] = {
+        sum: current.sum + summary.sum,
+        max: summary.max === null ? current.max : Math.max(current.max ?? summary.max, summary.max),
+        count: current.count + summary.count,
+      };
+    });
+  });
+
+  return { data: sessions, error: null };
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { hashApiKey } from '@/utils/auth/api-key-generator';
+import { AuthError } from '../auth';
+import { authenticateApiKey } from '../api-key-auth';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const API_KEY = 'AbCdEfGh0123456789iJkLmNoPqRsTuV';
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+
+function request(apiKey?: string) {
+  return new NextRequest('https://dashboard.isbolt.com/api/bolt/metrics/events', {
+    method: 'POST',
+    headers: apiKey !== undefined ? { 'X-API-Key': apiKey } : {},
+  });
+}
+
+function storedKey(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'key-1',
+    account_id: ACCOUNT_ID,
+    key_type: 'metrics',
+    key_hash: hashApiKey(API_KEY),
+    scopes: ['ingest', 'boltx'],
+    expires_at: null,
+    ...overrides,
+  };
+}
+
+function mockCandidates(candidates: unknown[] | null, error: unknown = null) {
+  const rpc = vi.fn((fn: string) =>
+    Promise.resolve(fn === 'get_api_key_for_auth' ? { data: candidates, error } : { error: null })
+  );
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+async function authError(promise: Promise<unknown>): Promise<AuthError> {
+  const error = await promise.then(
+    () => null,
+    (rejection: unknown) => rejection
+  );
+  expect(error).toBeInstanceOf(AuthError);
+  return error as AuthError;
+}
+
+describe('authenticateApiKey', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve the account that owns the key', async () => {
+    const rpc = mockCandidates([storedKey()]);
+
+    const result = await authenticateApiKey(request(API_KEY), 'ingest');
+
+    expect(result).toEqual({
+      keyId: 'key-1',
+      accountId: ACCOUNT_ID,
+      keyType: 'metrics',
+      scopes: ['ingest', 'boltx'],
+    });
+    expect(rpc).toHaveBeenCalledWith('get_api_key_for_auth', {
+      p_key_prefix: API_KEY.substring(0, 8),
+      p_key_suffix: API_KEY.substring(API_KEY.length - 4),
+    });
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['blank', '   '],
+    ['too short', 'AbCdEf0123'],
+    ['malformed', 'AbCdEfGh-0123456789;DROP'],
+  ])('should reject a %s key with 401 without a lookup', async (_case, apiKey) => {
+    const rpc = mockCandidates([storedKey()]);
+
+    const error = await authError(authenticateApiKey(request(apiKey), 'ingest'));
+
+    expect(error.status).toBe(401);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should pick the candidate whose hash verifies among prefix/suffix matches', async () => {
+    mockCandidates([
+      storedKey({
+        id: 'key-other-1',
+        account_id: 'other-account',
+        key_hash: hashApiKey('AbCdEfGhOTHER0000iJkLmNoPqRsTuV'),
+      }),
+      storedKey({ id: 'key-1' }),
+      storedKey({
+        id: 'key-other-2',
+        account_id: 'another-account',
+        key_hash: hashApiKey('AbCdEfGhOTHER1111iJkLmNoPqRsTuV'),
+      }),
+    ]);
+
+    const result = await authenticateApiKey(request(API_KEY), 'ingest');
+
+    expect(result.keyId).toBe('key-1');
+    expect(result.accountId).toBe(ACCOUNT_ID);
+  });
+
+  it('should reject a key whose hash does not match with 401', async () => {
+    mockCandidates([storedKey({ key_hash: hashApiKey('AbCdEfGhSOMETHINGELSEiJkLmNoPqRsTuV') })]);
+
+    const error = await authError(authenticateApiKey(request(API_KEY), 'ingest'));
+
+    expect(error.status).toBe(401);
+    expect(error.message).toContain('Invalid API key');
+  });
+
+  it('should reject an unknown key with 401', async () => {
+    mockCandidates([]);
+
+    const error = await authError(authenticateApiKey(request(API_KEY), 'ingest'));
+
+    expect(error.status).toBe(401);
+  });
+
+  it('should reject an expired key with 401', async () => {
+    mockCandidates([storedKey({ expires_at: new Date(Date.now() - 60_000).toISOString() })]);
+
+    const error = await authError(authenticateApiKey(request(API_KEY), 'ingest'));
+
+    expect(error.status).toBe(401);
+    expect(error.message).toContain('expired');
+  });
+
+  it('should accept a key that expires in the future', async () => {
+    mockCandidates([storedKey({ expires_at: new Date(Date.now() + 60_000).toISOString() })]);
+
+    const result = await authenticateApiKey(request(API_KEY), 'ingest');
+
+    expect(result.keyId).toBe('key-1');
+  });
+
+  it('should reject a key without the required scope with 403', async () => {
+    const rpc = mockCandidates([storedKey({ scopes: ['ingest'] })]);
+
+    const error = await authError(authenticateApiKey(request(API_KEY), 'read-metrics'));
+
+    expect(error.status).toBe(403);
+    expect(error.message).toContain("'read-metrics'");
+    expect(rpc).not.toHaveBeenCalledWith('touch_api_key_last_used', expect.anything());
+  });
+
+  it('should fail with 500 when the lookup fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockCandidates(null, { message: 'connection refused' });
+
+    const error = await authError(authenticateApiKey(request(API_KEY), 'ingest'));
+
+    expect(error.status).toBe(500);
+    consoleError.mockRestore();
+  });
+
+  it('should record last_used_at of the authenticated key', async () => {
+    const rpc = mockCandidates([storedKey()]);
+
+    await authenticateApiKey(request(API_KEY), 'boltx');
+
+    expect(rpc).toHaveBeenCalledWith('touch_api_key_last_used', { p_key_id: 'key-1' });
+  });
+
+  it('should not fail the request when last_used_at cannot be recorded', async () => {
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rpc = vi.fn((fn: string) =>
+      Promise.resolve(
+        fn === 'get_api_key_for_auth'
+          ? { data: [storedKey()], error: null }
+          : { error: { message: 'timeout' } }
+      )
+    );
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    const result = await authenticateApiKey(request(API_KEY), 'ingest');
+    await Promise.resolve();
+
+    expect(result.accountId).toBe(ACCOUNT_ID);
+    expect(consoleWarn).toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+});
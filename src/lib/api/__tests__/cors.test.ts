@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  checkAccountOrigin,
+  clearCorsCache,
+  corsPreflight,
+  normalizeOrigin,
+  originMatches,
+  type CorsOptions,
+} from '../cors';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const CORS: CorsOptions = { methods: ['POST'] };
+
+function request(origin?: string, method = 'POST') {
+  return new NextRequest('https://dashboard.isbolt.com/api/bolt/metrics/events', {
+    method,
+    headers: origin ? { origin } : {},
+  });
+}
+
+describe('normalizeOrigin', () => {
+  it('should normalize scheme, case, default port and trailing slash', () => {
+    expect(normalizeOrigin('HTTPS://Shop.Example.com:443/')).toBe('https://shop.example.com');
+    expect(normalizeOrigin('http://localhost:3000')).toBe('http://localhost:3000');
+    expect(normalizeOrigin('https://*.example.com')).toBe('https://*.example.com');
+  });
+
+  it('should reject paths, other schemes and overly broad wildcards', () => {
+    expect(normalizeOrigin('https://shop.example.com/checkout')).toBeNull();
+    expect(normalizeOrigin('ftp://shop.example.com')).toBeNull();
+    expect(normalizeOrigin('shop.example.com')).toBeNull();
+    expect(normalizeOrigin('https://*.com')).toBeNull();
+    expect(normalizeOrigin('null')).toBeNull();
+  });
+});
+
+describe('originMatches', () => {
+  it('should match exact origins and subdomain wildcards only', () => {
+    expect(originMatches('https://shop.example.com', 'https://shop.example.com')).toBe(true);
+    expect(originMatches('https://shop.example.com', 'https://*.example.com')).toBe(true);
+    expect(originMatches('https://example.com', 'https://*.example.com')).toBe(false);
+    expect(originMatches('http://shop.example.com', 'https://*.example.com')).toBe(false);
+    expect(originMatches('https://shop.example.com.evil.io', 'https://*.example.com')).toBe(false);
+    expect(originMatches('https://evilexample.com', 'https://*.example.com')).toBe(false);
+  });
+
+  it('should not treat localhost specially', () => {
+    expect(originMatches('http://localhost:4000', 'http://localhost:3000')).toBe(false);
+  });
+});
+
+describe('checkAccountOrigin', () => {
+  const mockRpc = vi.fn();
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearCorsCache();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    delete process.env.CORS_ALLOWED_ORIGINS;
+    delete process.env.NEXT_PUBLIC_BASE_URL;
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("should allow origins registered by the key's account", async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: [{ id: 'o1', account_id: ACCOUNT_ID, origin: 'https://*.store-a.com' }],
+      error: null,
+    });
+
+    const result = await checkAccountOrigin(
+      request('https://checkout.store-a.com'),
+      ACCOUNT_ID,
+      CORS
+    );
+
+    expect(result.allowed).toBe(true);
+    expect(result.headers['Access-Control-Allow-Origin']).toBe('https://checkout.store-a.com');
+    expect(result.headers.Vary).toBe('Origin');
+    expect(mockRpc).toHaveBeenCalledWith('get_account_allowed_origins', {
+      p_account_id: ACCOUNT_ID,
+    });
+  });
+
+  it('should reject origins of other accounts and localhost', async () => {
+    mockRpc.mockResolvedValue({
+      data: [{ id: 'o1', account_id: ACCOUNT_ID, origin: 'https://store-a.com' }],
+      error: null,
+    });
+
+    const other = await checkAccountOrigin(request('https://store-b.com'), ACCOUNT_ID, CORS);
+    const local = await checkAccountOrigin(request('http://localhost:3000'), ACCOUNT_ID, CORS);
+
+    expect(other.allowed).toBe(false);
+    expect(other.headers['Access-Control-Allow-Origin']).toBeUndefined();
+    expect(local.allowed).toBe(false);
+    // Registry lookups are cached per account
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow requests without Origin, same-origin and platform origins', async () => {
+    process.env.CORS_ALLOWED_ORIGINS = 'http://localhost:3000';
+
+    expect((await checkAccountOrigin(request(), ACCOUNT_ID, CORS)).allowed).toBe(true);
+    expect(
+      (await checkAccountOrigin(request('https://dashboard.isbolt.com'), ACCOUNT_ID, CORS)).allowed
+    ).toBe(true);
+    expect(
+      (await checkAccountOrigin(request('http://localhost:3000'), ACCOUNT_ID, CORS)).allowed
+    ).toBe(true);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('corsPreflight', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearCorsCache();
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should allow origins registered by any account', async () => {
+    mockRpc.mockResolvedValueOnce({ data: true, error: null });
+
+    const response = await corsPreflight(request('https://store-a.com', 'OPTIONS'), CORS);
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://store-a.com');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+    expect(mockRpc).toHaveBeenCalledWith('is_origin_registered', {
+      p_origin: 'https://store-a.com',
+    });
+  });
+
+  it('should omit Access-Control-Allow-Origin for unknown origins', async () => {
+    mockRpc.mockResolvedValueOnce({ data: false, error: null });
+
+    const response = await corsPreflight(request('https://unknown.com', 'OPTIONS'), CORS);
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MemoryRateLimitStore,
+  apiRateLimited,
+  consumeRateLimit,
+  consumeTokenBucket,
+  type RateLimitStore,
+} from '../rate-limit';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const perMinute = (requests: number) => ({ capacity: requests, refillPerSecond: requests / 60 });
+
+describe('consumeTokenBucket', () => {
+  it('should start with a full bucket', () => {
+    const { state, result } = consumeTokenBucket(undefined, perMinute(10), 0);
+
+    expect(result).toEqual({ allowed: true, remaining: 9, retryAfterSeconds: 0 });
+    expect(state).toEqual({ tokens: 9, updatedAt: 0 });
+  });
+
+  it('should reject when empty and report when a token is back', () => {
+    const { result } = consumeTokenBucket({ tokens: 0.5, updatedAt: 0 }, perMinute(60), 0);
+
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfterSeconds).toBeCloseTo(0.5);
+  });
+
+  it('should refill over time up to the capacity', () => {
+    const refilled = consumeTokenBucket({ tokens: 0, updatedAt: 0 }, perMinute(60), 3000);
+    expect(refilled.result.remaining).toBeCloseTo(2);
+
+    const capped = consumeTokenBucket({ tokens: 0, updatedAt: 0 }, perMinute(60), 3_600_000);
+    expect(capped.result.remaining).toBe(59);
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('should allow a burst of capacity requests then throttle', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = new Date('2026-10-01T00:00:00Z');
+
+    const decisions = [];
+    for (let i = 0; i < 4; i++) {
+      decisions.push(await consumeRateLimit('boltx:acc:predictions', perMinute(3), { store, now }));
+    }
+
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true, true, false]);
+    expect(decisions[2].remaining).toBe(0);
+    expect(decisions[3].retryAfterSeconds).toBe(20);
+  });
+
+  it('should keep separate buckets per key', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = new Date('2026-10-01T00:00:00Z');
+
+    await consumeRateLimit('boltx:acc-1:realtime', perMinute(1), { store, now });
+    const other = await consumeRateLimit('boltx:acc-2:realtime', perMinute(1), { store, now });
+    const sameAccountOtherEndpoint = await consumeRateLimit('boltx:acc-1:optimize', perMinute(1), {
+      store,
+      now,
+    });
+
+    expect(other.allowed).toBe(true);
+    expect(sameAccountOtherEndpoint.allowed).toBe(true);
+  });
+
+  it('should allow the request when the store fails', async () => {
+    const failingStore: RateLimitStore = {
+      name: 'failing',
+      consume: vi.fn(async () => {
+        throw new Error('connection refused');
+      }),
+    };
+
+    const decision = await consumeRateLimit('key', perMinute(5), { store: failingStore });
+
+    expect(decision.allowed).toBe(true);
+  });
+});
+
+describe('apiRateLimited', () => {
+  it('should return a 429 with Retry-After and rate limit headers', async () => {
+    const response = apiRateLimited({
+      allowed: false,
+      limit: 60,
+      remaining: 0,
+      retryAfterSeconds: 7,
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('7');
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect((await response.json()).error).toContain('7 seconds');
+  });
+});
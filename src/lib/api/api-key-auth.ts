@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { AuthError } from './auth';
+import { extractKeyParts, verifyApiKey } from '@/utils/auth/api-key-generator';
+import { ApiKeyScope, hasApiKeyScope, isApiKeyExpired } from '@/utils/auth/api-key-scopes';
+
+/**
+ * API key row returned by get_api_key_for_auth RPC function
+ */
+interface StoredApiKey {
+  id: string;
+  account_id: string;
+  key_type: 'metrics' | 'custom';
+  key_hash: string;
+  scopes: string[] | null;
+  expires_at: string | null;
+}
+
+/**
+ * Result of a successful API key authentication
+ */
+export interface ApiKeyAuthResult {
+  keyId: string;
+  accountId: string;
+  keyType: 'metrics' | 'custom';
+  scopes: string[];
+}
+
+/**
+ * Minimum length of a key generated by generateApiKey()
+ * Shorter values can't match a stored prefix/suffix pair
+ */
+const MIN_API_KEY_LENGTH = 12;
+
+/**
+ * Keys generated by generateApiKey() are alphanumeric
+ */
+const API_KEY_PATTERN = /^[A-Za-z0-9]+$/;
+
+/**
+ * Authenticate a request using the X-API-Key header
+ * Resolves the account that owns the key, verifies the salted hash,
+ * expiry and scope, and records last_used_at
+ *
+ * @param request - Incoming request
+ * @param requiredScope - Scope the key must have been granted
+ * @returns Key and account data
+ * @throws {AuthError} 401 if the key is missing, invalid or expired; 403 if the scope is missing
+ */
+export async function authenticateApiKey(
+  request: NextRequest,
+  requiredScope: ApiKeyScope
+): Promise<ApiKeyAuthResult> {
+  const apiKey = request.headers.get('X-API-Key')?.trim();
+
+  if (!apiKey) {
+    throw new AuthError('Unauthorized: API key is required', 401);
+  }
+
+  if (apiKey.length < MIN_API_KEY_LENGTH || !API_KEY_PATTERN.test(apiKey)) {
+    throw new AuthError('Unauthorized: Invalid API key', 401);
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { prefix, suffix } = extractKeyParts(apiKey);
+
+  // Prefix/suffix only narrows the candidates, the hash is verified below
+  const { data: candidates, error } = await supabaseAdmin.rpc('get_api_key_for_auth', {
+    p_key_prefix: prefix,
+    p_key_suffix: suffix,
+  });
+
+  if (error) {
+    console.error('❌ [ERROR] API key lookup failed:', error);
+    throw new AuthError('Unable to validate API key', 500);
+  }
+
+  const storedKey = ((candidates || []) as StoredApiKey[]).find((candidate) =>
+    verifyApiKey(apiKey, candidate.key_hash)
+  );
+
+  if (!storedKey) {
+    throw new AuthError('Unauthorized: Invalid API key', 401);
+  }
+
+  if (isApiKeyExpired(storedKey.expires_at)) {
+    throw new AuthError('Unauthorized: API key has expired', 401);
+  }
+
+  if (!hasApiKeyScope(storedKey.scopes, requiredScope)) {
+    throw new AuthError(`Forbidden: API key is missing the '${requiredScope}' scope`, 403);
+  }
+
+  // Usage tracking must never block or fail the request
+  supabaseAdmin
+    .rpc('touch_api_key_last_used', { p_key_id: storedKey.id })
+    .then(({ error: touchError }) => {
+      if (touchError) {
+        console.warn('⚠️ [WARN] Failed to update API key last_used_at:', touchError);
+      }
+    });
+
+  return {
+    keyId: storedKey.id,
+    accountId: storedKey.account_id,
+    keyType: storedKey.key_type,
+    scopes: storedKey.scopes || [],
+  };
+}
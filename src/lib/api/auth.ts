@@ -33,6 +33,8 @@ export interface User {
   phone?: string | null;
   company?: string | null;
   job_title?: string | null;
+  /** Custom role whose grants are added to the built-in role (migration 093) */
+  custom_role_id?: string | null;
 }
 
 /**
@@ -0,0 +1,352 @@
+/**
+ * CORS Policy
+ *
+ * Shared CORS policy of the public BoltX and metrics endpoints (called from
+ * checkouts on the stores' own domains). Each account registers its checkout
+ * origins on the Integrations page (migration 092):
+ * - a request is accepted from the origins of the account that owns the API
+ *   key or session (checkAccountOrigin)
+ * - preflight requests carry no credentials, so they are accepted for origins
+ *   registered by any account (getPreflightCorsHeaders)
+ *
+ * Requests without an Origin header (server-to-server) and same-origin
+ * requests are always accepted. CORS_ALLOWED_ORIGINS lists platform origins
+ * allowed for every account. Origins match exactly, or through a registered
+ * subdomain wildcard (https://*.example.com); there is no implicit localhost.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { apiError } from './responses';
+
+export interface CorsOptions {
+  /** Allowed methods (OPTIONS is added) */
+  methods: string[];
+  /** Allowed request headers (default: Content-Type, X-API-Key) */
+  headers?: string[];
+  /** Allow cookies (session-authenticated endpoints) */
+  credentials?: boolean;
+}
+
+export interface AccountOriginCheck {
+  allowed: boolean;
+  headers: Record<string, string>;
+}
+
+export interface AllowedOrigin {
+  id: string;
+  account_id: string;
+  origin: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+const DEFAULT_ALLOWED_HEADERS = ['Content-Type', 'X-API-Key'];
+
+/** How long registry lookups are cached per instance */
+const CACHE_TTL_MS = 60 * 1000;
+
+const WILDCARD_PREFIX = '*.';
+
+/**
+ * Normalize an origin or origin pattern to scheme://host[:port] (lowercase)
+ * Returns null for anything else (paths, credentials, other schemes).
+ */
+export function normalizeOrigin(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim().toLowerCase().replace(/\/+$/, '');
+  const match = trimmed.match(/^(https?):\/\/((?:\*\.)?[a-z0-9.-]+)(?::(\d{1,5}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, scheme, host, port] = match;
+  const hostname = host.startsWith(WILDCARD_PREFIX) ? host.slice(WILDCARD_PREFIX.length) : host;
+  if (!hostname || hostname.startsWith('.') || hostname.endsWith('.') || hostname.includes('..')) {
+    return null;
+  }
+
+  // Wildcards must name a domain (https://*.example.com, not https://*.com)
+  if (hostname !== host && !hostname.includes('.')) {
+    return null;
+  }
+
+  const defaultPort = scheme === 'https' ? '443' : '80';
+  return port && port !== defaultPort ? `${scheme}://${host}:${port}` : `${scheme}://${host}`;
+}
+
+/**
+ * Whether an origin matches an allowed origin or subdomain wildcard
+ * (https://*.example.com matches https://shop.example.com, not https://example.com)
+ */
+export function originMatches(origin: string, pattern: string): boolean {
+  if (origin === pattern) {
+    return true;
+  }
+
+  const wildcard = pattern.match(/^(https?):\/\/\*(\.[^:]+)(:\d+)?$/);
+  if (!wildcard) {
+    return false;
+  }
+
+  const [, scheme, suffix, port = ''] = wildcard;
+  const parsed = origin.match(/^(https?):\/\/([^:]+)(:\d+)?$/);
+  if (!parsed) {
+    return false;
+  }
+
+  const [, originScheme, host, originPort = ''] = parsed;
+  return (
+    originScheme === scheme &&
+    originPort === port &&
+    host.endsWith(suffix) &&
+    host.length > suffix.length
+  );
+}
+
+/**
+ * Origins allowed for every account (CORS_ALLOWED_ORIGINS and the dashboard URL)
+ */
+export function getPlatformOrigins(): string[] {
+  const configured = (process.env.CORS_ALLOWED_ORIGINS || '').split(',');
+  return [...configured, process.env.NEXT_PUBLIC_BASE_URL]
+    .map((origin) => normalizeOrigin(origin))
+    .filter((origin): origin is string => !!origin);
+}
+
+const accountOriginsCache = new Map<string, { origins: string[]; expiresAt: number }>();
+const registeredOriginCache = new Map<string, { registered: boolean; expiresAt: number }>();
+
+/**
+ * Forget cached registry lookups (after the registry changes, and in tests)
+ */
+export function clearCorsCache(accountId?: string): void {
+  if (accountId) {
+    accountOriginsCache.delete(accountId);
+  } else {
+    accountOriginsCache.clear();
+  }
+  registeredOriginCache.clear();
+}
+
+/**
+ * Allowed origins registered by an account
+ */
+export async function getAllowedOrigins(
+  accountId: string
+): Promise<{ origins: AllowedOrigin[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_account_allowed_origins', {
+    p_account_id: accountId,
+  });
+
+  if (error) {
+    return { origins: [], error };
+  }
+
+  return { origins: (data || []) as AllowedOrigin[], error: null };
+}
+
+/**
+ * Register an allowed origin for an account
+ */
+export async function addAllowedOrigin(
+  accountId: string,
+  origin: string,
+  createdBy?: string
+): Promise<{ id: string | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('add_account_allowed_origin', {
+    p_account_id: accountId,
+    p_origin: origin,
+    p_created_by: createdBy ?? null,
+  });
+
+  clearCorsCache(accountId);
+
+  if (error) {
+    return { id: null, error };
+  }
+
+  return { id: data as string, error: null };
+}
+
+/**
+ * Remove an allowed origin from an account
+ */
+export async function deleteAllowedOrigin(
+  accountId: string,
+  originId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_account_allowed_origin', {
+    p_account_id: accountId,
+    p_origin_id: originId,
+  });
+
+  clearCorsCache(accountId);
+
+  if (error) {
+    return { deleted: false, error };
+  }
+
+  return { deleted: !!data, error: null };
+}
+
+async function getCachedAccountOrigins(accountId: string): Promise<string[]> {
+  const cached = accountOriginsCache.get(accountId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.origins;
+  }
+
+  const { origins, error } = await getAllowedOrigins(accountId);
+  if (error) {
+    // Not cached, so the next request retries the lookup
+    console.error('❌ [DEBUG] Error loading allowed origins:', error);
+    return [];
+  }
+
+  const patterns = origins.map((origin) => origin.origin);
+  accountOriginsCache.set(accountId, { origins: patterns, expiresAt: Date.now() + CACHE_TTL_MS });
+  return patterns;
+}
+
+async function isOriginRegistered(origin: string): Promise<boolean> {
+  const cached = registeredOriginCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.registered;
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('is_origin_registered', {
+    p_origin: origin,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Error checking registered origin:', error);
+    return false;
+  }
+
+  registeredOriginCache.set(origin, { registered: !!data, expiresAt: Date.now() + CACHE_TTL_MS });
+  return !!data;
+}
+
+/**
+ * Origin of the request, and whether it is the API's own origin
+ */
+function getRequestOrigin(request: NextRequest): { origin: string | null; sameOrigin: boolean } {
+  const header = request.headers.get('origin');
+  const origin = header && !header.includes('*') ? normalizeOrigin(header) : null;
+  const ownOrigin = normalizeOrigin(request.nextUrl?.origin);
+  return { origin, sameOrigin: !!origin && origin === ownOrigin };
+}
+
+/**
+ * CORS headers for an origin (Access-Control-Allow-Origin only when allowed)
+ */
+export function buildCorsHeaders(
+  allowedOrigin: string | null,
+  options: CorsOptions
+): Record<string, string> {
+  const methods = Array.from(new Set([...options.methods, 'OPTIONS']));
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': methods.join(', '),
+    'Access-Control-Allow-Headers': (options.headers || DEFAULT_ALLOWED_HEADERS).join(', '),
+    'Access-Control-Max-Age': '86400', // 24 hours
+    Vary: 'Origin',
+  };
+
+  if (allowedOrigin) {
+    headers['Access-Control-Allow-Origin'] = allowedOrigin;
+    if (options.credentials) {
+      headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * CORS headers before the account is known (preflight, early errors):
+ * the origin must be a platform origin or registered by some account
+ */
+export async function getPreflightCorsHeaders(
+  request: NextRequest,
+  options: CorsOptions
+): Promise<Record<string, string>> {
+  const { origin, sameOrigin } = getRequestOrigin(request);
+  if (!origin) {
+    return buildCorsHeaders(null, options);
+  }
+
+  const allowed =
+    sameOrigin ||
+    getPlatformOrigins().some((pattern) => originMatches(origin, pattern)) ||
+    (await isOriginRegistered(origin));
+
+  return buildCorsHeaders(allowed ? origin : null, options);
+}
+
+/**
+ * Check the request origin against the registry of the account that owns
+ * the API key or session
+ */
+export async function checkAccountOrigin(
+  request: NextRequest,
+  accountId: string,
+  options: CorsOptions
+): Promise<AccountOriginCheck> {
+  const { origin, sameOrigin } = getRequestOrigin(request);
+
+  // Server-to-server requests send no Origin; an unparseable one is rejected
+  if (!request.headers.get('origin')) {
+    return { allowed: true, headers: buildCorsHeaders(null, options) };
+  }
+  if (!origin) {
+    return { allowed: false, headers: buildCorsHeaders(null, options) };
+  }
+
+  const allowed =
+    sameOrigin ||
+    getPlatformOrigins().some((pattern) => originMatches(origin, pattern)) ||
+    (await getCachedAccountOrigins(accountId)).some((pattern) => originMatches(origin, pattern));
+
+  if (!allowed) {
+    console.warn(`⚠️ [WARN] Origin ${origin} is not allowed for account ${accountId}`);
+  }
+
+  return { allowed, headers: buildCorsHeaders(allowed ? origin : null, options) };
+}
+
+/**
+ * 204 response to a preflight request
+ */
+export async function corsPreflight(request: NextRequest, options: CorsOptions) {
+  return new NextResponse(null, {
+    status: 204,
+    headers: await getPreflightCorsHeaders(request, options),
+  });
+}
+
+/**
+ * 403 response for an origin the account did not register
+ */
+export function apiOriginNotAllowed(headers: Record<string, string>) {
+  const response = apiError(
+    'Origin not allowed. Register it under allowed origins on the Integrations page.',
+    403
+  );
+  return withCorsHeaders(response, headers);
+}
+
+/**
+ * Add CORS headers to a response
+ */
+export function withCorsHeaders<T extends Response>(
+  response: T,
+  headers: Record<string, string>
+): T {
+  Object.entries(headers).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  return response;
+}
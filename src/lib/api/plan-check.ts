@@ -106,6 +106,16 @@ export async function getUserPlan(): Promise<{
       };
     }
 
+    // Suspended for failed payments: no plan access until a payment succeeds
+    if (activeSubscription.dunning_state === 'suspended') {
+      return {
+        subscription: activeSubscription,
+        plan: null,
+        hasEnterpriseAccess: false,
+        error: 'Subscription suspended for failed payment',
+      };
+    }
+
     // Get plan details
     let plan: Plan | null = null;
     if (activeSubscription.plan) {
@@ -0,0 +1,233 @@
+/**
+ * Rate Limiting
+ *
+ * Token-bucket rate limiter with a pluggable bucket store. A bucket holds up
+ * to `capacity` tokens, refills continuously at `refillPerSecond` and every
+ * request takes `cost` tokens; requests are rejected while the bucket is
+ * empty. The Postgres store (migration 090) shares buckets between API
+ * instances, the in-memory store is meant for tests and local development.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { apiTooManyRequests } from './responses';
+
+export interface TokenBucketOptions {
+  /** Maximum tokens in the bucket (burst size) */
+  capacity: number;
+  refillPerSecond: number;
+  /** Tokens taken by the request (default: 1) */
+  cost?: number;
+}
+
+export interface BucketConsumeResult {
+  allowed: boolean;
+  /** Tokens left in the bucket after the request */
+  remaining: number;
+  /** Seconds until the request could be retried (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  consume(key: string, options: TokenBucketOptions, now: Date): Promise<BucketConsumeResult>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Whole seconds until the request could be retried (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+export class RateLimitStoreError extends Error {
+  constructor(
+    message: string,
+    public store: string,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'RateLimitStoreError';
+  }
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Refill a bucket up to `now` and take the request's tokens when available
+ */
+export function consumeTokenBucket(
+  state: TokenBucketState | undefined,
+  options: TokenBucketOptions,
+  now: number
+): { state: TokenBucketState; result: BucketConsumeResult } {
+  const cost = options.cost ?? 1;
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const tokens = state
+    ? Math.min(options.capacity, state.tokens + elapsedSeconds * options.refillPerSecond)
+    : options.capacity;
+
+  if (tokens >= cost) {
+    return {
+      state: { tokens: tokens - cost, updatedAt: now },
+      result: { allowed: true, remaining: tokens - cost, retryAfterSeconds: 0 },
+    };
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      remaining: tokens,
+      retryAfterSeconds: (cost - tokens) / options.refillPerSecond,
+    },
+  };
+}
+
+/**
+ * Keeps buckets in process memory (tests and local development)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, TokenBucketState>();
+
+  async consume(key: string, options: TokenBucketOptions, now: Date): Promise<BucketConsumeResult> {
+    const { state, result } = consumeTokenBucket(this.buckets.get(key), options, now.getTime());
+    this.buckets.set(key, state);
+    return result;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+  }
+}
+
+/**
+ * Keeps buckets in dashboard.rate_limit_buckets (consume_rate_limit_token
+ * refills and takes tokens atomically, using the database clock)
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async consume(key: string, options: TokenBucketOptions): Promise<BucketConsumeResult> {
+    const { data, error } = await getSupabaseAdmin().rpc('consume_rate_limit_token', {
+      p_bucket_key: key,
+      p_capacity: options.capacity,
+      p_refill_per_second: options.refillPerSecond,
+      p_cost: options.cost ?? 1,
+    });
+
+    const row = data?.[0];
+    if (error || !row) {
+      throw new RateLimitStoreError(
+        `Rate limit bucket update failed: ${error?.message || 'no result'}`,
+        this.name,
+        error
+      );
+    }
+
+    return {
+      allowed: !!row.allowed,
+      remaining: Number(row.remaining) || 0,
+      retryAfterSeconds: Number(row.retry_after_seconds) || 0,
+    };
+  }
+}
+
+/**
+ * Create the rate limit store configured in the environment
+ * (RATE_LIMIT_STORE=postgres|memory)
+ */
+export function getRateLimitStoreFromEnv(): RateLimitStore {
+  const store = (process.env.RATE_LIMIT_STORE || 'postgres').toLowerCase();
+
+  switch (store) {
+    case 'postgres':
+      return new PostgresRateLimitStore();
+
+    case 'memory':
+      return new MemoryRateLimitStore();
+
+    default:
+      throw new Error(`Unsupported rate limit store: ${store}`);
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+function getDefaultStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = getRateLimitStoreFromEnv();
+  }
+  return defaultStore;
+}
+
+export interface ConsumeRateLimitOptions {
+  /** Store to use (default: getRateLimitStoreFromEnv()) */
+  store?: RateLimitStore;
+  now?: Date;
+}
+
+/**
+ * Take a request from the bucket identified by `key`.
+ *
+ * The limiter fails open: when the store is unavailable the request is
+ * allowed (and logged) rather than taking the API down with it.
+ */
+export async function consumeRateLimit(
+  key: string,
+  bucket: TokenBucketOptions,
+  options: ConsumeRateLimitOptions = {}
+): Promise<RateLimitDecision> {
+  try {
+    const store = options.store || getDefaultStore();
+    const result = await store.consume(key, bucket, options.now || new Date());
+
+    return {
+      allowed: result.allowed,
+      limit: bucket.capacity,
+      remaining: Math.max(0, Math.floor(result.remaining)),
+      retryAfterSeconds: result.allowed ? 0 : Math.max(1, Math.ceil(result.retryAfterSeconds)),
+    };
+  } catch (error) {
+    console.error(`❌ [DEBUG] Rate limit check failed for ${key}, allowing request:`, error);
+    return {
+      allowed: true,
+      limit: bucket.capacity,
+      remaining: bucket.capacity,
+      retryAfterSeconds: 0,
+    };
+  }
+}
+
+/**
+ * Rate limit headers of a decision (Retry-After only when rejected)
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+  };
+
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(decision.retryAfterSeconds);
+  }
+
+  return headers;
+}
+
+/**
+ * 429 response for a rejected request, with Retry-After and X-RateLimit-* headers
+ */
+export function apiRateLimited(decision: RateLimitDecision) {
+  const response = apiTooManyRequests(
+    `Rate limit exceeded. Try again in ${decision.retryAfterSeconds} seconds.`
+  );
+  Object.entries(rateLimitHeaders(decision)).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  return response;
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getAuthenticatedUser, AuthResult, AuthError } from './auth';
 import { apiError, apiValidationError, apiInternalError } from './responses';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { recordAuditEvent, type AuditEvent } from '@/lib/audit/audit-log';
+import type { Action, Resource } from '@/utils/rbac/permissions';
 
 /**
  * Route handler function signature
@@ -19,6 +22,31 @@ export type RouteHandlerWithValidation<TRequest = NextRequest, TBody = unknown>
   context: AuthResult & { params?: Record<string, string>; body: TBody }
 ) => Promise<NextResponse>;
 
+/**
+ * Describes the audit log entry of a request; merged into the default entry
+ * (action `${resource}.${action}`, target from the route params)
+ */
+export type AuditDescriber = (event: Partial<AuditEvent>) => void;
+
+/**
+ * Route handler signature of permission-checked routes
+ */
+export type PermissionRouteHandler<TRequest = NextRequest> = (
+  request: TRequest,
+  context: AuthResult & { params?: Record<string, string>; audit: AuditDescriber }
+) => Promise<NextResponse>;
+
+/**
+ * Permission-checked route handler with validation
+ */
+export type PermissionRouteHandlerWithValidation<TRequest = NextRequest, TBody = unknown> = (
+  request: TRequest,
+  context: AuthResult & { params?: Record<string, string>; audit: AuditDescriber; body: TBody }
+) => Promise<NextResponse>;
+
+/** Methods whose successful requests are written to the audit log */
+const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
 /**
  * Wrapper for routes that require authentication
  * Automatically extracts user and session, handles auth errors
@@ -126,6 +154,102 @@ export function withAuthAndValidation<
   };
 }
 
+/**
+ * Wrapper for routes that require a permission
+ * Authenticates like withAuth, then responds 403 unless the user's built-in
+ * role or custom role grants the action on the resource. Successful mutating
+ * requests (2xx/3xx) are written to the audit log; handlers call `audit` to
+ * name the action and pass the before/after state.
+ *
+ * @param resource - RBAC resource (boltx, b2b, billing, integrations, users, ...)
+ * @param action - Required action ('manage' grants every action)
+ * @param handler - Route handler function
+ * @returns Wrapped handler with automatic auth and permission check
+ *
+ * @example
+ * ```ts
+ * export const DELETE = withPermission('integrations', 'delete', async (request, { user, params, audit }) => {
+ *   audit({ action: 'integration.delete', before: integration });
+ *   return apiSuccess({ deleted: true });
+ * });
+ * ```
+ */
+export function withPermission<TParams extends Record<string, string> = Record<string, string>>(
+  resource: Resource,
+  action: Action,
+  handler: PermissionRouteHandler<NextRequest>
+) {
+  return withAuth<TParams>(async (request, context) => {
+    if (!(await userHasPermission(context.user, resource, action))) {
+      console.warn(
+        `⚠️ [WARN] User ${context.user.id} lacks permission to ${action} ${resource}`
+      );
+      return apiError(`Insufficient permissions to ${action} ${resource}`, 403);
+    }
+
+    let described: Partial<AuditEvent> = {};
+    const audit: AuditDescriber = (event) => {
+      described = { ...described, ...event };
+    };
+
+    const response = await handler(request, { ...context, audit });
+
+    if (AUDITED_METHODS.has(request.method) && response.status < 400) {
+      const params = context.params || {};
+      await recordAuditEvent(request, context.user, {
+        action: `${resource}.${action}`,
+        resourceType: resource,
+        resourceId: params.id ?? Object.values(params)[0] ?? null,
+        ...described,
+      });
+    }
+
+    return response;
+  });
+}
+
+/**
+ * Wrapper for routes that require a permission and request body validation
+ * The permission is checked before the body is parsed
+ *
+ * @example
+ * ```ts
+ * export const PATCH = withPermissionAndValidation(
+ *   'boltx',
+ *   'write',
+ *   updateSchema,
+ *   async (request, { user, body }) => {
+ *     return apiSuccess({ updated: true });
+ *   }
+ * );
+ * ```
+ */
+export function withPermissionAndValidation<
+  TSchema extends z.ZodType,
+  TParams extends Record<string, string> = Record<string, string>
+>(
+  resource: Resource,
+  action: Action,
+  schema: TSchema,
+  handler: PermissionRouteHandlerWithValidation<NextRequest, z.infer<TSchema>>
+) {
+  return withPermission<TParams>(resource, action, async (request, context) => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError('Invalid JSON in request body', 400);
+    }
+
+    const validationResult = schema.safeParse(body);
+    if (!validationResult.success) {
+      return apiValidationError(validationResult.error);
+    }
+
+    return handler(request, { ...context, body: validationResult.data });
+  });
+}
+
 /**
  * Wrapper for routes that only require request body validation (no auth)
  * Useful for public endpoints like signup
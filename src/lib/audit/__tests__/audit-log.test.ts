@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  diffChanges,
+  getAuditLogs,
+  getAuditRetentionDays,
+  purgeExpiredAuditLogs,
+  recordAuditEvent,
+  toAuditCsv,
+  type AuditLogEntry,
+} from '../audit-log';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const USER = { id: 'user-1', email: 'ana@store.com', account_id: ACCOUNT_ID };
+
+describe('diffChanges', () => {
+  it('should keep only changed fields', () => {
+    expect(
+      diffChanges(
+        { threshold: 70, message: 'Hi', updated_at: '2026-01-01' },
+        { threshold: 55, message: 'Hi', updated_at: '2026-02-01' }
+      )
+    ).toEqual({ threshold: { before: 70, after: 55 } });
+  });
+
+  it('should record added and removed fields as null', () => {
+    expect(diffChanges(undefined, { name: 'Dark' })).toEqual({
+      name: { before: null, after: 'Dark' },
+    });
+    expect(diffChanges({ name: 'Dark' }, undefined)).toEqual({
+      name: { before: 'Dark', after: null },
+    });
+  });
+
+  it('should compare nested values structurally', () => {
+    expect(
+      diffChanges(
+        { discount: { type: 'discount', threshold: 70 } },
+        { discount: { type: 'discount', threshold: 70 } }
+      )
+    ).toEqual({});
+  });
+
+  it('should redact secret fields', () => {
+    expect(
+      diffChanges(
+        { openai_api_key_encrypted: 'v1:abc', rate_limit: 60 },
+        { openai_api_key_encrypted: 'v1:def', rate_limit: 60 }
+      )
+    ).toEqual({ openai_api_key_encrypted: { before: '[redacted]', after: '[redacted]' } });
+  });
+});
+
+describe('getAuditRetentionDays', () => {
+  it('should keep entries longer on higher plans', () => {
+    expect(getAuditRetentionDays('basic')).toBe(30);
+    expect(getAuditRetentionDays('pro')).toBe(90);
+    expect(getAuditRetentionDays('enterprise')).toBe(365);
+    expect(getAuditRetentionDays(null)).toBe(30);
+  });
+});
+
+describe('recordAuditEvent', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should store actor, target, diff, IP and user agent', async () => {
+    mockRpc.mockResolvedValueOnce({ data: 'log-1', error: null });
+    const request = new NextRequest('https://dashboard.isbolt.com/api/dashboard/themes/t1', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0' },
+    });
+
+    await recordAuditEvent(request, USER, {
+      action: 'theme.activate',
+      resourceType: 'themes',
+      resourceId: 't1',
+      before: { active_theme_id: 't0' },
+      after: { active_theme_id: 't1' },
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('insert_audit_log', {
+      p_account_id: ACCOUNT_ID,
+      p_actor_id: 'user-1',
+      p_actor_email: 'ana@store.com',
+      p_action: 'theme.activate',
+      p_resource_type: 'themes',
+      p_resource_id: 't1',
+      p_changes: { active_theme_id: { before: 't0', after: 't1' } },
+      p_metadata: { method: 'POST', path: '/api/dashboard/themes/t1' },
+      p_ip_address: '203.0.113.7',
+      p_user_agent: 'Mozilla/5.0',
+    });
+  });
+
+  it('should not throw when the entry cannot be written', async () => {
+    mockRpc.mockRejectedValueOnce(new Error('connection refused'));
+    const request = new NextRequest('https://dashboard.isbolt.com/api/dashboard/roles', {
+      method: 'POST',
+    });
+
+    await expect(
+      recordAuditEvent(request, USER, { action: 'users.manage', resourceType: 'users' })
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('getAuditLogs', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should pass filters and return the total count', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: [{ id: 'log-1', action: 'api_key.delete', total_count: '12' }],
+      error: null,
+    });
+
+    const { entries, total } = await getAuditLogs(ACCOUNT_ID, {
+      action: 'api_key.delete',
+      limit: 1,
+    });
+
+    expect(total).toBe(12);
+    expect(entries).toEqual([{ id: 'log-1', action: 'api_key.delete' }]);
+    expect(mockRpc).toHaveBeenCalledWith('get_audit_logs', {
+      p_account_id: ACCOUNT_ID,
+      p_action: 'api_key.delete',
+      p_resource_type: null,
+      p_actor_id: null,
+      p_from: null,
+      p_to: null,
+      p_limit: 1,
+      p_offset: 0,
+    });
+  });
+});
+
+describe('purgeExpiredAuditLogs', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should return the number of purged entries', async () => {
+    mockRpc.mockResolvedValueOnce({ data: 42, error: null });
+
+    await expect(purgeExpiredAuditLogs()).resolves.toEqual({ deleted: 42, error: null });
+    expect(mockRpc).toHaveBeenCalledWith('purge_expired_audit_logs');
+  });
+
+  it('should return the error when the purge fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'timeout' } });
+
+    await expect(purgeExpiredAuditLogs()).resolves.toEqual({
+      deleted: 0,
+      error: { message: 'timeout' },
+    });
+  });
+});
+
+describe('toAuditCsv', () => {
+  it('should quote fields and neutralize formulas', () => {
+    const csv = toAuditCsv([
+      {
+        id: 'log-1',
+        account_id: ACCOUNT_ID,
+        actor_id: 'user-1',
+        actor_email: '=HYPERLINK("evil")',
+        action: 'theme.update',
+        resource_type: 'themes',
+        resource_id: 't1',
+        changes: { name: { before: 'A', after: 'B' } },
+        metadata: {},
+        ip_address: null,
+        user_agent: null,
+        created_at: '2026-10-01T12:00:00Z',
+      } as AuditLogEntry,
+    ]);
+
+    const [header, row] = csv.split('\n');
+    expect(header).toBe(
+      'created_at,actor_email,actor_id,action,resource_type,resource_id,changes,ip_address,user_agent'
+    );
+    expect(row).toContain(`"'=HYPERLINK(""evil"")"`);
+    expect(row).toContain('"{""name"":{""before"":""A"",""after"":""B""}}"');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of dashboard changes (migration 094). withPermission
+ * (src/lib/api/route-handler.ts) writes an entry for every successful
+ * mutating request; handlers describe the change through the `audit`
+ * callback of their context (action, target, before/after state). Routes
+ * outside withPermission call recordAuditEvent directly.
+ *
+ * Writing an entry never fails the request: errors are logged and dropped.
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { User } from '@/lib/api/auth';
+import type { PlanType } from '@/utils/users';
+
+/** Days entries are kept per plan (get_audit_retention_days in migration 094) */
+export const AUDIT_RETENTION_DAYS: Record<PlanType, number> = {
+  basic: 30,
+  pro: 90,
+  enterprise: 365,
+};
+
+/**
+ * Days entries are kept for a plan (unknown plans get the basic retention)
+ */
+export function getAuditRetentionDays(planType: string | null | undefined): number {
+  return AUDIT_RETENTION_DAYS[planType as PlanType] ?? AUDIT_RETENTION_DAYS.basic;
+}
+
+/** Most entries returned by one export */
+export const AUDIT_EXPORT_LIMIT = 5000;
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEvent {
+  /** e.g. theme.activate, boltx.settings.update, api_key.create */
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  /** State before the change (diffed against after) */
+  before?: unknown;
+  /** State after the change */
+  after?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  account_id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  changes: AuditChanges;
+  metadata: Record<string, unknown>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export const AuditLogFiltersSchema = z.object({
+  action: z.string().trim().min(1).max(100).optional(),
+  resourceType: z.string().trim().min(1).max(100).optional(),
+  actorId: z.uuid().optional(),
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditLogFilters = z.infer<typeof AuditLogFiltersSchema>;
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['updated_at', 'updatedAt']);
+
+// Values of these fields are never stored, only the fact that they changed
+const SECRET_FIELD_PATTERN = /(secret|token|password|credential|api_?key|app_?key)/i;
+
+const REDACTED = '[redacted]';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Fields that differ between two states, as { field: { before, after } }
+ * Objects are compared by their top-level fields; other values are stored
+ * whole under "value". Secret fields are redacted.
+ */
+export function diffChanges(before: unknown, after: unknown): AuditChanges {
+  if (before === undefined && after === undefined) {
+    return {};
+  }
+
+  if (!isPlainObject(before) && !isPlainObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after)
+      ? {}
+      : { value: { before: before ?? null, after: after ?? null } };
+  }
+
+  const previous = isPlainObject(before) ? before : {};
+  const next = isPlainObject(after) ? after : {};
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const oldValue = previous[field];
+    const newValue = next[field];
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      continue;
+    }
+
+    const secret = SECRET_FIELD_PATTERN.test(field);
+    changes[field] = {
+      before: oldValue === undefined ? null : secret ? REDACTED : oldValue,
+      after: newValue === undefined ? null : secret ? REDACTED : newValue,
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * Client IP address and user agent of a request
+ */
+export function getRequestMeta(request: NextRequest): {
+  ipAddress: string | null;
+  userAgent: string | null;
+} {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const ipAddress = forwarded?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || null;
+
+  return {
+    ipAddress,
+    userAgent: request.headers.get('user-agent')?.slice(0, 500) || null,
+  };
+}
+
+/**
+ * Append an entry to the audit log of the user's account
+ */
+export async function recordAuditEvent(
+  request: NextRequest,
+  user: Pick<User, 'id' | 'email' | 'account_id'>,
+  event: AuditEvent
+): Promise<void> {
+  if (!user.account_id) {
+    return;
+  }
+
+  try {
+    const { ipAddress, userAgent } = getRequestMeta(request);
+    const { error } = await getSupabaseAdmin().rpc('insert_audit_log', {
+      p_account_id: user.account_id,
+      p_actor_id: user.id,
+      p_actor_email: user.email,
+      p_action: event.action,
+      p_resource_type: event.resourceType,
+      p_resource_id: event.resourceId ?? null,
+      p_changes: diffChanges(event.before, event.after),
+      p_metadata: {
+        method: request.method,
+        path: request.nextUrl?.pathname,
+        ...event.metadata,
+      },
+      p_ip_address: ipAddress,
+      p_user_agent: userAgent,
+    });
+
+    if (error) {
+      console.error('❌ [DEBUG] Error recording audit event:', error);
+    }
+  } catch (error) {
+    console.error('❌ [DEBUG] Error recording audit event:', error);
+  }
+}
+
+/**
+ * Audit log of an account (within its plan retention), newest first
+ */
+export async function getAuditLogs(
+  accountId: string,
+  filters: Partial<AuditLogFilters> = {}
+): Promise<{ entries: AuditLogEntry[]; total: number; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_audit_logs', {
+    p_account_id: accountId,
+    p_action: filters.action ?? null,
+    p_resource_type: filters.resourceType ?? null,
+    p_actor_id: filters.actorId ?? null,
+    p_from: filters.from ?? null,
+    p_to: filters.to ?? null,
+    p_limit: filters.limit ?? 50,
+    p_offset: filters.offset ?? 0,
+  });
+
+  if (error) {
+    return { entries: [], total: 0, error };
+  }
+
+  const rows = (data || []) as (AuditLogEntry & { total_count: number | string })[];
+  const entries = rows.map(({ total_count: _total, ...entry }) => entry);
+
+  return { entries, total: rows.length > 0 ? Number(rows[0].total_count) : 0, error: null };
+}
+
+/**
+ * Delete entries older than the retention of each account's plan (daily job)
+ */
+export async function purgeExpiredAuditLogs(): Promise<{ deleted: number; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('purge_expired_audit_logs');
+
+  if (error) {
+    console.error('❌ [DEBUG] Error purging expired audit logs:', error);
+    return { deleted: 0, error };
+  }
+
+  return { deleted: Number(data ?? 0), error: null };
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  // Quote every field; a leading =, +, - or @ would run as a spreadsheet formula
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Audit entries as CSV (one row per entry, changes as JSON)
+ */
+export function toAuditCsv(entries: AuditLogEntry[]): string {
+  const header = [
+    'created_at',
+    'actor_email',
+    'actor_id',
+    'action',
+    'resource_type',
+    'resource_id',
+    'changes',
+    'ip_address',
+    'user_agent',
+  ];
+
+  const rows = entries.map((entry) =>
+    [
+      entry.created_at,
+      entry.actor_email,
+      entry.actor_id,
+      entry.action,
+      entry.resource_type,
+      entry.resource_id,
+      entry.changes,
+      entry.ip_address,
+      entry.user_agent,
+    ]
+      .map(toCsvField)
+      .join(',')
+  );
+
+  return [header.join(','), ...rows].join('\n');
+}
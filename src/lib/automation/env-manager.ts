@@ -6,6 +6,7 @@
  */
 
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { rotateStoredSecrets, type SecretRotationResult } from '@/lib/secrets/rotation';
 
 /**
  * Generate environment variables for an account
@@ -146,16 +147,16 @@ export async function syncEnvVarsToNetlify(
 
 /**
  * Rotate secrets (for security)
- * This would regenerate API keys and update them in Netlify
+ * Re-encrypts the account's stored secrets (OpenAI API key, VTEX credentials)
+ * under the active master key. Throws if any secret could not be rotated.
  */
-export async function rotateSecrets(_accountId: string): Promise<void> {
-  // This would:
-  // 1. Generate new API keys
-  // 2. Update them in database
-  // 3. Update them in Netlify env vars
-  // 4. Invalidate old keys
-
-  // Implementation deferred - can be added later
-  console.warn('⚠️ [DEBUG] Secret rotation not yet implemented');
-}
+export async function rotateSecrets(accountId: string): Promise<SecretRotationResult> {
+  const result = await rotateStoredSecrets({ accountId });
+
+  if (result.failed.length > 0) {
+    const fields = result.failed.map((failure) => `${failure.source}.${failure.field}`);
+    throw new Error(`Failed to rotate secrets: ${fields.join(', ')}`);
+  }
 
+  return result;
+}
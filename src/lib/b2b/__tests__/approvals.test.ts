@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAuthenticatedUser } from '@/lib/api/auth';
+import { userHasPermission } from '@/lib/rbac/roles';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+import { createApprovalActionHandler, emitApprovalRequired } from '../approvals';
+import { toPurchaseOrder, type PurchaseOrderRow } from '../records';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  getAuthenticatedUser: vi.fn(),
+}));
+
+vi.mock('@/lib/rbac/roles', () => ({
+  userHasPermission: vi.fn(),
+}));
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/webhooks/events', () => ({
+  emitWebhookEvent: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const ORDER_ID = '22222222-2222-2222-2222-222222222222';
+const USER = {
+  id: 'approver-1',
+  email: 'ana@store.com',
+  account_id: ACCOUNT_ID,
+  role: 'admin',
+};
+
+function order(overrides: Partial<PurchaseOrderRow> = {}): PurchaseOrderRow {
+  return {
+    id: ORDER_ID,
+    account_id: ACCOUNT_ID,
+    po_number: 'PO-000042',
+    buyer_id: 'buyer-1',
+    amount: '12500.00',
+    status: 'pending_approval',
+    items: [],
+    workflow_id: 'workflow-large',
+    workflow_name: 'Orders over 10k',
+    required_approvals: 2,
+    approvals_count: 0,
+    current_approver_id: 'approver-1',
+    decided_at: null,
+    created_at: '2026-10-19T10:00:00Z',
+    updated_at: '2026-10-19T10:00:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * decide_b2b_purchase_order returns `decision`, get_b2b_purchase_orders the
+ * order as it is after the decision
+ */
+function mockRpc(
+  decision: { error: { code?: string; message: string } | null },
+  after: PurchaseOrderRow | null = order()
+) {
+  const rpc = vi.fn((fn: string) =>
+    Promise.resolve(
+      fn === 'decide_b2b_purchase_order'
+        ? { data: null, ...decision }
+        : { data: after ? [after] : [], error: null }
+    )
+  );
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+async function post(action: 'approve' | 'reject' | 'escalate', body?: unknown) {
+  const request = new NextRequest(
+    `https://dashboard.isbolt.com/api/dashboard/b2b/purchase-orders/${ORDER_ID}/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }
+  );
+  const response = await createApprovalActionHandler(action)(request, {
+    params: Promise.resolve({ id: ORDER_ID }),
+  });
+  return { status: response.status, data: await response.json() };
+}
+
+describe('createApprovalActionHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getAuthenticatedUser).mockResolvedValue({ user: USER } as never);
+    vi.mocked(userHasPermission).mockResolvedValue(true);
+    vi.mocked(emitWebhookEvent).mockResolvedValue({ queued: 1, error: null });
+  });
+
+  it('should record the first of two approvals and route to the next approver', async () => {
+    const rpc = mockRpc(
+      { error: null },
+      order({ approvals_count: 1, current_approver_id: 'approver-2' })
+    );
+
+    const { status, data } = await post('approve', { comment: 'Budget confirmed' });
+
+    expect(status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith('decide_b2b_purchase_order', {
+      p_account_id: ACCOUNT_ID,
+      p_order_id: ORDER_ID,
+      p_action: 'approve',
+      p_user_id: 'approver-1',
+      p_user_email: 'ana@store.com',
+      p_comment: 'Budget confirmed',
+    });
+    expect(data.order).toMatchObject({
+      status: 'pending_approval',
+      requiredApprovals: 2,
+      approvals: 1,
+      currentApproverId: 'approver-2',
+      amount: 12500,
+    });
+    // Still waiting for an approver
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      ACCOUNT_ID,
+      'b2b.purchase_order.approval_required',
+      expect.objectContaining({
+        purchase_order_id: ORDER_ID,
+        required_approvals: 2,
+        approvals: 1,
+        current_approver_id: 'approver-2',
+      })
+    );
+  });
+
+  it('should approve the order once the required approvals are reached', async () => {
+    mockRpc(
+      { error: null },
+      order({
+        status: 'approved',
+        approvals_count: 2,
+        current_approver_id: null,
+        decided_at: '2026-10-19T11:00:00Z',
+      })
+    );
+
+    const { status, data } = await post('approve');
+
+    expect(status).toBe(200);
+    expect(data.order).toMatchObject({ status: 'approved', approvals: 2 });
+    expect(emitWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should reject the order', async () => {
+    const rpc = mockRpc(
+      { error: null },
+      order({ status: 'rejected', current_approver_id: null, decided_at: '2026-10-19T11:00:00Z' })
+    );
+
+    const { status, data } = await post('reject', { comment: '  Over budget  ' });
+
+    expect(status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith(
+      'decide_b2b_purchase_order',
+      expect.objectContaining({ p_action: 'reject', p_comment: 'Over budget' })
+    );
+    expect(data.order.status).toBe('rejected');
+    expect(emitWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should escalate the order to the next approver', async () => {
+    const rpc = mockRpc({ error: null }, order({ current_approver_id: 'approver-3' }));
+
+    const { status, data } = await post('escalate');
+
+    expect(status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith(
+      'decide_b2b_purchase_order',
+      expect.objectContaining({ p_action: 'escalate', p_comment: null })
+    );
+    expect(data.order.currentApproverId).toBe('approver-3');
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      ACCOUNT_ID,
+      'b2b.purchase_order.approval_required',
+      expect.objectContaining({ current_approver_id: 'approver-3' })
+    );
+  });
+
+  it('should refuse a user who is not the current approver', async () => {
+    mockRpc({
+      error: {
+        code: '42501',
+        message: 'You are not the current approver of this purchase order',
+      },
+    });
+
+    const { status, data } = await post('approve');
+
+    expect(status).toBe(403);
+    expect(data.error).toBe('You are not the current approver of this purchase order');
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+    expect(emitWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an order that was already decided', async () => {
+    mockRpc({
+      error: { code: '55000', message: 'Purchase order is not pending approval' },
+    });
+
+    const { status, data } = await post('reject');
+
+    expect(status).toBe(409);
+    expect(data.error).toBe('Purchase order is not pending approval');
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to escalate when no approver is left', async () => {
+    mockRpc({
+      error: { code: '55000', message: 'No approver left to escalate to' },
+    });
+
+    const { status } = await post('escalate');
+
+    expect(status).toBe(409);
+  });
+
+  it('should return 404 for an unknown order', async () => {
+    mockRpc({ error: { code: 'P0002', message: 'Purchase order not found' } });
+
+    const { status } = await post('approve');
+
+    expect(status).toBe(404);
+  });
+
+  it('should require the b2b write grant', async () => {
+    const rpc = mockRpc({ error: null });
+    vi.mocked(userHasPermission).mockResolvedValue(false);
+
+    const { status } = await post('approve');
+
+    expect(status).toBe(403);
+    expect(userHasPermission).toHaveBeenCalledWith(USER, 'b2b', 'write');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject a comment that is too long', async () => {
+    const rpc = mockRpc({ error: null });
+
+    const { status } = await post('approve', { comment: 'x'.repeat(1001) });
+
+    expect(status).toBe(400);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should record the decision in the audit log', async () => {
+    mockRpc({ error: null }, order({ approvals_count: 1, current_approver_id: 'approver-2' }));
+
+    await post('approve', { comment: 'Budget confirmed' });
+
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.any(NextRequest),
+      USER,
+      expect.objectContaining({
+        action: 'b2b.purchase_order.approve',
+        resourceType: 'purchase_order',
+        resourceId: ORDER_ID,
+        after: { status: 'pending_approval', approvals: 1 },
+        metadata: { po_number: 'PO-000042', comment: 'Budget confirmed' },
+      })
+    );
+  });
+});
+
+describe('emitApprovalRequired', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not notify for orders approved without an approver', async () => {
+    // Auto-approve workflow, or no workflow matching the amount
+    await emitApprovalRequired(
+      toPurchaseOrder(
+        order({ status: 'approved', required_approvals: 0, current_approver_id: null })
+      )
+    );
+
+    expect(emitWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should notify with the workflow matched by the amount', async () => {
+    await emitApprovalRequired(toPurchaseOrder(order()));
+
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      ACCOUNT_ID,
+      'b2b.purchase_order.approval_required',
+      {
+        purchase_order_id: ORDER_ID,
+        po_number: 'PO-000042',
+        buyer_id: 'buyer-1',
+        amount: 12500,
+        workflow_id: 'workflow-large',
+        workflow_name: 'Orders over 10k',
+        required_approvals: 2,
+        approvals: 0,
+        current_approver_id: 'approver-1',
+      }
+    );
+  });
+});
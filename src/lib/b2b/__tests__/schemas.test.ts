@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { ApprovalWorkflowSchema, ApprovalDecisionSchema, PurchaseOrderSchema } from '../schemas';
+import { getMissingPurchaseOrderFields, toCreditLimit } from '../records';
+
+const approverId = '6f1c2a9e-3b4d-4c5e-8f70-1a2b3c4d5e6f';
+
+describe('ApprovalWorkflowSchema', () => {
+  const workflow = {
+    name: 'Standard Approval',
+    enabled: true,
+    minAmount: 1000,
+    maxAmount: 10000,
+    approvers: [approverId],
+    requiredApprovals: 1,
+  };
+
+  it('should accept a valid workflow', () => {
+    expect(ApprovalWorkflowSchema.safeParse(workflow).success).toBe(true);
+  });
+
+  it('should reject a maximum amount below the minimum amount', () => {
+    const result = ApprovalWorkflowSchema.safeParse({ ...workflow, maxAmount: 500 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['maxAmount']);
+  });
+
+  it('should reject more required approvals than approvers', () => {
+    const result = ApprovalWorkflowSchema.safeParse({ ...workflow, requiredApprovals: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['requiredApprovals']);
+  });
+
+  it('should reject duplicate approvers', () => {
+    const result = ApprovalWorkflowSchema.safeParse({
+      ...workflow,
+      approvers: [approverId, approverId],
+      requiredApprovals: 2,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['approvers']);
+  });
+});
+
+describe('ApprovalDecisionSchema', () => {
+  it('should accept an empty decision', () => {
+    expect(ApprovalDecisionSchema.safeParse({}).success).toBe(true);
+  });
+
+  it('should reject comments longer than 1000 characters', () => {
+    expect(ApprovalDecisionSchema.safeParse({ comment: 'x'.repeat(1001) }).success).toBe(false);
+  });
+});
+
+describe('getMissingPurchaseOrderFields', () => {
+  const order = PurchaseOrderSchema.parse({ buyerId: approverId, amount: 100 });
+
+  it('should not require a PO number when numbers are generated', () => {
+    const missing = getMissingPurchaseOrderFields(order, {
+      prefix: 'PO',
+      autoGenerate: true,
+      requiredFields: ['poNumber', 'buyerId', 'amount'],
+    });
+
+    expect(missing).toEqual([]);
+  });
+
+  it('should report required PO number and items', () => {
+    const missing = getMissingPurchaseOrderFields(order, {
+      prefix: 'PO',
+      autoGenerate: false,
+      requiredFields: ['poNumber', 'buyerId', 'amount', 'items'],
+    });
+
+    expect(missing).toEqual(['poNumber', 'items']);
+  });
+});
+
+describe('toCreditLimit', () => {
+  it('should compute available credit from numeric strings', () => {
+    const limit = toCreditLimit({
+      id: 'limit-1',
+      account_id: 'account-1',
+      buyer_id: approverId,
+      limit_amount: '10000.00',
+      used_amount: '3500.50',
+      period: 'monthly',
+      period_start: '2025-01-01T00:00:00+00:00',
+      reset_at: '2025-02-01T00:00:00+00:00',
+      created_at: '2025-01-01T00:00:00+00:00',
+      updated_at: '2025-01-01T00:00:00+00:00',
+    });
+
+    expect(limit.used).toBe(3500.5);
+    expect(limit.available).toBe(6499.5);
+    expect(limit.resetDate).toBe('2025-02-01T00:00:00+00:00');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Purchase Order Approvals
+ *
+ * Shared handler for the approve / reject / escalate endpoints (b2b write grant).
+ * Routing, the approver check and the order's audit trail live in decide_b2b_purchase_order
+ * (migration 083) so each decision is applied atomically.
+ * Orders still waiting for an approver after a submission or decision are sent
+ * to the account's webhook endpoints (b2b.purchase_order.approval_required).
+ */
+
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/api/responses';
+import { withPermission } from '@/lib/api/route-handler';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { ApprovalDecisionSchema, type ApprovalAction } from './schemas';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+import { toPurchaseOrder, b2bDatabaseError, type PurchaseOrderRow } from './records';
+
+/**
+ * Notify the account's webhook endpoints when an order waits for an approver
+ */
+export async function emitApprovalRequired(order: ReturnType<typeof toPurchaseOrder>) {
+  if (order.status !== 'pending_approval') {
+    return;
+  }
+
+  await emitWebhookEvent(order.account_id, 'b2b.purchase_order.approval_required', {
+    purchase_order_id: order.id,
+    po_number: order.poNumber,
+    buyer_id: order.buyerId,
+    amount: order.amount,
+    workflow_id: order.workflowId,
+    workflow_name: order.workflowName,
+    required_approvals: order.requiredApprovals,
+    approvals: order.approvals,
+    current_approver_id: order.currentApproverId,
+  });
+}
+
+/**
+ * Create the POST handler of an approval action endpoint
+ * Requires the b2b write grant; the decision is recorded in the audit log
+ *
+ * @example
+ * // app/api/dashboard/b2b/purchase-orders/[id]/approve/route.ts
+ * export const POST = createApprovalActionHandler('approve');
+ */
+export function createApprovalActionHandler(action: ApprovalAction) {
+  return withPermission<{ id: string }>(
+    'b2b',
+    'write',
+    async (request: NextRequest, { user, params, audit }) => {
+      try {
+        if (!user.account_id) {
+          return apiError('User account not found', 404);
+        }
+
+        const id = params?.id;
+        if (!id) {
+          return apiError('Purchase order ID is required', 400);
+        }
+
+        // The body is optional ({ comment })
+        const body = await request.json().catch(() => ({}));
+        const validationResult = ApprovalDecisionSchema.safeParse(body);
+
+        if (!validationResult.success) {
+          return apiValidationError(validationResult.error);
+        }
+
+        const comment = validationResult.data.comment || null;
+        const supabaseAdmin = getSupabaseAdmin();
+        const { error: decisionError } = await supabaseAdmin.rpc('decide_b2b_purchase_order', {
+          p_account_id: user.account_id,
+          p_order_id: id,
+          p_action: action,
+          p_user_id: user.id,
+          p_user_email: user.email,
+          p_comment: comment,
+        });
+
+        if (decisionError) {
+          console.error(`❌ [DEBUG] Error applying ${action} to purchase order:`, decisionError);
+          return b2bDatabaseError(decisionError, 'Failed to update purchase order');
+        }
+
+        const { data, error } = await supabaseAdmin.rpc('get_b2b_purchase_orders', {
+          p_account_id: user.account_id,
+          p_order_id: id,
+        });
+
+        if (error || !data || data.length === 0) {
+          console.error('❌ [DEBUG] Error fetching purchase order:', error);
+          return apiError('Failed to fetch purchase order', 500);
+        }
+
+        console.log(`✅ [DEBUG] Purchase order ${id} ${action} by ${user.email}`);
+
+        const order = toPurchaseOrder(data[0] as PurchaseOrderRow);
+
+        audit({
+          action: `b2b.purchase_order.${action}`,
+          resourceType: 'purchase_order',
+          after: { status: order.status, approvals: order.approvals },
+          metadata: { po_number: order.poNumber, comment },
+        });
+
+        await emitApprovalRequired(order);
+
+        return apiSuccess({ order });
+      } catch (error) {
+        console.error(`❌ [DEBUG] Error applying ${action} to purchase order:`, error);
+        return apiError('Failed to update purchase order', 500);
+      }
+    }
+  );
+}
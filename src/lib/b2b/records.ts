@@ -0,0 +1,269 @@
+/**
+ * B2B Records
+ *
+ * Row types returned by the B2B RPC functions (migration 082) and their
+ * mapping to the API format used by the B2B pages.
+ */
+
+import { apiError } from '@/lib/api/responses';
+import type {
+  BuyerRole,
+  CreditLimitPeriod,
+  PurchaseOrderConfig,
+  PurchaseOrderInput,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+} from './schemas';
+
+type Numeric = number | string;
+
+export interface BuyerRow {
+  id: string;
+  account_id: string;
+  email: string;
+  name: string;
+  role: BuyerRole;
+  cost_center: string | null;
+  department: string | null;
+  project_code: string | null;
+  credit_limit: Numeric | null;
+  available_credit: Numeric | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ApprovalWorkflowRow {
+  id: string;
+  account_id: string;
+  name: string;
+  enabled: boolean;
+  min_amount: Numeric;
+  max_amount: Numeric | null;
+  approvers: string[];
+  required_approvals: number;
+  auto_approve: boolean;
+  conditions: {
+    costCenter?: string[];
+    department?: string[];
+    projectCode?: string[];
+  } | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreditLimitRow {
+  id: string;
+  account_id: string;
+  buyer_id: string;
+  limit_amount: Numeric;
+  used_amount: Numeric;
+  period: CreditLimitPeriod;
+  period_start: string;
+  reset_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderRow {
+  id: string;
+  account_id: string;
+  po_number: string;
+  buyer_id: string;
+  amount: Numeric;
+  status: PurchaseOrderStatus;
+  items: PurchaseOrderItem[] | null;
+  workflow_id: string | null;
+  workflow_name: string | null;
+  required_approvals: number;
+  approvals_count: number;
+  current_approver_id: string | null;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ApprovalAuditRow {
+  id: string;
+  purchase_order_id: string;
+  po_number: string;
+  amount: Numeric;
+  workflow_id: string | null;
+  workflow_name: string | null;
+  action: 'submitted' | 'routed' | 'auto_approved' | 'no_workflow' | 'approved' | 'rejected' | 'escalated';
+  step: number | null;
+  actor_user_id: string | null;
+  actor_buyer_id: string | null;
+  actor_email: string | null;
+  comment: string | null;
+  status_after: PurchaseOrderStatus;
+  created_at: string;
+}
+
+export interface PurchaseOrderConfigRow {
+  prefix: string;
+  auto_generate: boolean;
+  required_fields: string[];
+}
+
+function toNumber(value: Numeric | null): number {
+  const numValue = typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+  return isNaN(numValue) ? 0 : numValue;
+}
+
+export function toBuyer(row: BuyerRow) {
+  return {
+    id: row.id,
+    account_id: row.account_id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    costCenter: row.cost_center || undefined,
+    department: row.department || undefined,
+    projectCode: row.project_code || undefined,
+    creditLimit: row.credit_limit === null ? undefined : toNumber(row.credit_limit),
+    availableCredit: row.available_credit === null ? undefined : toNumber(row.available_credit),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function toApprovalWorkflow(row: ApprovalWorkflowRow) {
+  return {
+    id: row.id,
+    account_id: row.account_id,
+    name: row.name,
+    enabled: row.enabled,
+    minAmount: toNumber(row.min_amount),
+    maxAmount: row.max_amount === null ? undefined : toNumber(row.max_amount),
+    approvers: row.approvers || [],
+    requiredApprovals: row.required_approvals,
+    autoApprove: row.auto_approve,
+    conditions: row.conditions || {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function toCreditLimit(row: CreditLimitRow) {
+  const limit = toNumber(row.limit_amount);
+  const used = toNumber(row.used_amount);
+
+  return {
+    id: row.id,
+    account_id: row.account_id,
+    userId: row.buyer_id,
+    limit,
+    used,
+    available: Math.max(limit - used, 0),
+    period: row.period,
+    periodStart: row.period_start,
+    resetDate: row.reset_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function toPurchaseOrder(row: PurchaseOrderRow) {
+  return {
+    id: row.id,
+    account_id: row.account_id,
+    poNumber: row.po_number,
+    buyerId: row.buyer_id,
+    amount: toNumber(row.amount),
+    status: row.status,
+    items: row.items || [],
+    workflowId: row.workflow_id,
+    workflowName: row.workflow_name,
+    requiredApprovals: row.required_approvals,
+    approvals: row.approvals_count,
+    currentApproverId: row.current_approver_id,
+    decidedAt: row.decided_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toApprovalAuditEntry(row: ApprovalAuditRow) {
+  return {
+    id: row.id,
+    purchaseOrderId: row.purchase_order_id,
+    poNumber: row.po_number,
+    amount: toNumber(row.amount),
+    workflowId: row.workflow_id,
+    workflowName: row.workflow_name,
+    action: row.action,
+    step: row.step,
+    actorUserId: row.actor_user_id,
+    actorBuyerId: row.actor_buyer_id,
+    actorEmail: row.actor_email,
+    comment: row.comment,
+    statusAfter: row.status_after,
+    createdAt: row.created_at,
+  };
+}
+
+export function toPurchaseOrderConfig(row: PurchaseOrderConfigRow): PurchaseOrderConfig {
+  return {
+    prefix: row.prefix,
+    autoGenerate: row.auto_generate,
+    requiredFields: (row.required_fields || []) as PurchaseOrderConfig['requiredFields'],
+  };
+}
+
+/**
+ * Get the fields required by the account configuration that are missing from a purchase order
+ * (poNumber is never missing when PO numbers are generated automatically)
+ */
+export function getMissingPurchaseOrderFields(
+  order: PurchaseOrderInput,
+  config: PurchaseOrderConfig
+): string[] {
+  return config.requiredFields.filter((field) => {
+    switch (field) {
+      case 'poNumber':
+        return !order.poNumber && !config.autoGenerate;
+      case 'items':
+        return order.items.length === 0;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Map errors raised by the B2B RPC functions to API responses
+ * - 22P02: malformed identifier
+ * - 22023: invalid parameter (unsupported approval action)
+ * - 23502: required value missing (PO number when numbers are not generated)
+ * - 23505: unique violation (duplicate email / PO number)
+ * - 23503: foreign key violation (unknown buyer or approver, buyer with purchase orders)
+ * - 23514: check violation (credit limit exceeded, invalid amounts)
+ * - 42501: not allowed (not the current approver of a purchase order)
+ * - 55000: invalid state (purchase order not pending approval, no approver left to escalate to)
+ * - P0002: referenced record not found
+ */
+export function b2bDatabaseError(
+  error: { code?: string; message: string },
+  fallbackMessage: string
+) {
+  switch (error.code) {
+    case '22P02':
+      return apiError('Invalid identifier', 400);
+    case '22023':
+    case '23502':
+      return apiError(error.message, 400);
+    case '23505':
+      return apiError(error.message, 409);
+    case '23503':
+    case '23514':
+      return apiError(error.message, 422);
+    case '42501':
+      return apiError(error.message, 403);
+    case '55000':
+      return apiError(error.message, 409);
+    case 'P0002':
+      return apiError(error.message, 404);
+    default:
+      return apiError(fallbackMessage, 500);
+  }
+}
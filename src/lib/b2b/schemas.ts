@@ -0,0 +1,193 @@
+import { z } from 'zod';
+
+/**
+ * Validation schemas for B2B entities
+ * Enforced on every write (create and update) by the B2B API routes
+ */
+
+export const BUYER_ROLES = ['buyer', 'approver', 'admin'] as const;
+
+export const CREDIT_LIMIT_PERIODS = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+
+/**
+ * Purchase order statuses
+ * - draft: not submitted, does not use credit
+ * - pending_approval / approved: reserve the amount on the buyer's credit limit
+ * - rejected / cancelled: credit released
+ */
+export const PURCHASE_ORDER_STATUSES = [
+  'draft',
+  'pending_approval',
+  'approved',
+  'rejected',
+  'cancelled',
+] as const;
+
+/**
+ * Fields that can be required on purchase orders
+ */
+export const PURCHASE_ORDER_FIELDS = ['poNumber', 'buyerId', 'amount', 'items'] as const;
+
+/**
+ * Schema for approval workflows
+ */
+export const ApprovalWorkflowSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(200, 'Name is too long'),
+    enabled: z.boolean(),
+    minAmount: z.number().min(0),
+    maxAmount: z.number().min(0).optional(),
+    approvers: z
+      .array(z.string().uuid('Invalid approver'))
+      .min(1, 'At least one approver is required'),
+    requiredApprovals: z.number().int().min(1).max(10),
+    autoApprove: z.boolean().optional(),
+    conditions: z
+      .object({
+        costCenter: z.array(z.string()).optional(),
+        department: z.array(z.string()).optional(),
+        projectCode: z.array(z.string()).optional(),
+      })
+      .optional(),
+  })
+  .refine(
+    (workflow) => workflow.maxAmount === undefined || workflow.maxAmount >= workflow.minAmount,
+    {
+      message: 'Maximum amount must be greater than or equal to minimum amount',
+      path: ['maxAmount'],
+    }
+  )
+  .refine((workflow) => workflow.requiredApprovals <= workflow.approvers.length, {
+    message: 'Required approvals cannot exceed number of approvers',
+    path: ['requiredApprovals'],
+  })
+  .refine((workflow) => new Set(workflow.approvers).size === workflow.approvers.length, {
+    message: 'Approvers must be unique',
+    path: ['approvers'],
+  });
+
+/**
+ * Schema for approval workflow updates
+ * Updates are merged into the stored workflow and validated again with ApprovalWorkflowSchema
+ */
+export const ApprovalWorkflowUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().optional(),
+  minAmount: z.number().min(0).optional(),
+  maxAmount: z.number().min(0).optional().nullable(),
+  approvers: z.array(z.string()).optional(),
+  requiredApprovals: z.number().min(1).max(10).optional(),
+  autoApprove: z.boolean().optional(),
+  conditions: z
+    .object({
+      costCenter: z.array(z.string()).optional(),
+      department: z.array(z.string()).optional(),
+      projectCode: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Schema for credit limits
+ */
+export const CreditLimitSchema = z.object({
+  userId: z.string().uuid('Invalid buyer'),
+  limit: z.number().min(0, 'Limit must be positive'),
+  period: z.enum(CREDIT_LIMIT_PERIODS),
+});
+
+/**
+ * Schema for buyers
+ * creditLimit creates or updates the buyer's credit limit
+ */
+export const BuyerSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name is too long'),
+  role: z.enum(BUYER_ROLES),
+  costCenter: z.string().optional(),
+  department: z.string().optional(),
+  projectCode: z.string().optional(),
+  creditLimit: z.number().min(0).optional(),
+});
+
+/**
+ * Schema for buyer updates
+ * Updates are merged into the stored buyer and validated again with BuyerSchema
+ */
+export const BuyerUpdateSchema = z.object({
+  email: z.string().email().optional(),
+  name: z.string().min(1).optional(),
+  role: z.enum(BUYER_ROLES).optional(),
+  costCenter: z.string().optional(),
+  department: z.string().optional(),
+  projectCode: z.string().optional(),
+  creditLimit: z.number().min(0).optional(),
+});
+
+/**
+ * Schema for purchase order line items
+ */
+export const PurchaseOrderItemSchema = z.object({
+  productId: z.string().min(1, 'Product ID is required'),
+  name: z.string().min(1, 'Product name is required'),
+  quantity: z.number().int().positive('Quantity must be positive'),
+  price: z.number().min(0, 'Price must be positive'),
+});
+
+/**
+ * Schema for purchase orders
+ * poNumber is generated from the account configuration when omitted
+ */
+export const PurchaseOrderSchema = z.object({
+  poNumber: z.string().trim().min(1).max(100).optional(),
+  buyerId: z.string().uuid('Invalid buyer'),
+  amount: z.number().positive('Amount must be positive'),
+  items: z.array(PurchaseOrderItemSchema).default([]),
+  status: z.enum(['draft', 'pending_approval']).default('draft'),
+});
+
+/**
+ * Schema for the purchase order configuration
+ */
+export const PurchaseOrderConfigSchema = z.object({
+  prefix: z
+    .string()
+    .trim()
+    .min(1, 'Prefix is required')
+    .max(20, 'Prefix is too long')
+    .regex(
+      /^[a-zA-Z0-9\-_]+$/,
+      'Prefix can only contain alphanumeric characters, hyphens, and underscores'
+    ),
+  autoGenerate: z.boolean(),
+  requiredFields: z.array(z.enum(PURCHASE_ORDER_FIELDS)).default(['buyerId', 'amount']),
+});
+
+/**
+ * Actions an approver can take on a pending purchase order
+ * - approve: counts towards the required approvals, then routes to the next approver
+ * - reject: rejects the order and releases the reserved credit
+ * - escalate: passes the order to the next approver without approving it
+ */
+export const APPROVAL_ACTIONS = ['approve', 'reject', 'escalate'] as const;
+
+/**
+ * Schema for approval decisions
+ */
+export const ApprovalDecisionSchema = z.object({
+  comment: z.string().trim().max(1000, 'Comment is too long').optional(),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type BuyerRole = (typeof BUYER_ROLES)[number];
+export type CreditLimitPeriod = (typeof CREDIT_LIMIT_PERIODS)[number];
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+export type ApprovalAction = (typeof APPROVAL_ACTIONS)[number];
+export type ApprovalWorkflowInput = z.infer<typeof ApprovalWorkflowSchema>;
+export type CreditLimitInput = z.infer<typeof CreditLimitSchema>;
+export type BuyerInput = z.infer<typeof BuyerSchema>;
+export type PurchaseOrderInput = z.infer<typeof PurchaseOrderSchema>;
+export type PurchaseOrderItem = z.infer<typeof PurchaseOrderItemSchema>;
+export type PurchaseOrderConfig = z.infer<typeof PurchaseOrderConfigSchema>;
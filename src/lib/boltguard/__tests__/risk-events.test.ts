@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRiskTrendBucket,
+  toRiskTrendPoint,
+  toSecurityAlert,
+  toSecuritySummary,
+  type RiskAlertRow,
+} from '../risk-events';
+
+function alertRow(overrides: Partial<RiskAlertRow>): RiskAlertRow {
+  return {
+    id: 'risk-1',
+    kind: 'assessment',
+    severity: 'high',
+    risk_score: null,
+    decision: null,
+    transaction_id: null,
+    session_id: 'session-1',
+    details: {},
+    occurred_at: '2026-10-01T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('toSecuritySummary', () => {
+  it('should map summary rows and parse numeric strings', () => {
+    const summary = toSecuritySummary({
+      total_transactions: 120,
+      high_risk_transactions: 9,
+      blocked_transactions: 3,
+      fraud_detected: 1,
+      avg_risk_score: '27.4',
+      validation_errors: 5,
+      sca_required: 14,
+      anomalies_detected: 2,
+      velocity_violations: 4,
+      risk_low: 90,
+      risk_medium: 21,
+      risk_high: 7,
+      risk_critical: 2,
+    });
+
+    expect(summary.metrics.avgRiskScore).toBe(27.4);
+    expect(summary.metrics.scaRequired).toBe(14);
+    expect(summary.riskDistribution).toEqual({ low: 90, medium: 21, high: 7, critical: 2 });
+  });
+
+  it('should return zeros without a summary row', () => {
+    const summary = toSecuritySummary(null);
+
+    expect(summary.metrics.totalTransactions).toBe(0);
+    expect(summary.riskDistribution.critical).toBe(0);
+  });
+});
+
+describe('toSecurityAlert', () => {
+  it('should describe blocked assessments', () => {
+    const alert = toSecurityAlert(
+      alertRow({
+        risk_score: '91.00',
+        decision: 'block',
+        transaction_id: 'tx-42',
+        severity: 'critical',
+      })
+    );
+
+    expect(alert).toEqual({
+      id: 'risk-1',
+      type: 'Blocked Transaction',
+      severity: 'critical',
+      description: 'Transaction tx-42 with risk score 91 was blocked',
+      timestamp: '2026-10-01T12:00:00.000Z',
+    });
+  });
+
+  it('should describe velocity violations from their details', () => {
+    const alert = toSecurityAlert(
+      alertRow({ kind: 'velocity_violation', details: { count: 10, windowMinutes: 5 } })
+    );
+
+    expect(alert.type).toBe('Velocity Violation');
+    expect(alert.description).toBe('10 transactions detected in last 5 minutes');
+  });
+
+  it('should fall back to a generic description when details are missing', () => {
+    expect(
+      toSecurityAlert(alertRow({ kind: 'velocity_violation', details: null })).description
+    ).toBe('Transaction velocity limit exceeded');
+    expect(
+      toSecurityAlert(alertRow({ kind: 'anomaly', details: { field: 'amount' } })).description
+    ).toBe('Statistical anomaly in amount');
+  });
+});
+
+describe('getRiskTrendBucket', () => {
+  it('should bucket short periods per hour and longer ones per day', () => {
+    const start = new Date('2026-10-01T00:00:00.000Z');
+
+    expect(getRiskTrendBucket({ start, end: new Date('2026-10-01T18:00:00.000Z') })).toBe('hour');
+    expect(getRiskTrendBucket({ start, end: new Date('2026-10-08T00:00:00.000Z') })).toBe('day');
+  });
+});
+
+describe('toRiskTrendPoint', () => {
+  it('should map trend rows to the dashboard format', () => {
+    expect(
+      toRiskTrendPoint({
+        bucket: '2026-10-01T00:00:00+00:00',
+        transactions: 40,
+        high_risk: 3,
+        blocked: 1,
+      })
+    ).toEqual({ date: '2026-10-01T00:00:00.000Z', transactions: 40, highRisk: 3, blocked: 1 });
+  });
+});
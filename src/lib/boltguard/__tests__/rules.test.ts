@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BoltGuardRuleSchema,
+  evaluateBoltGuardRules,
+  summarizeRuleHits,
+  toBoltGuardTransactions,
+  toRuleHitAlert,
+  type BoltGuardRule,
+  type BoltGuardTransactionRow,
+} from '../rules';
+
+const START = Date.parse('2026-10-01T12:00:00.000Z');
+
+function row(
+  index: number,
+  overrides: Partial<BoltGuardTransactionRow> = {},
+  details: Record<string, unknown> = {}
+): BoltGuardTransactionRow {
+  return {
+    id: `risk-${index}`,
+    source_event_id: `event-${index}`,
+    transaction_id: `tx-${index}`,
+    session_id: `session-${index}`,
+    amount: 100,
+    details: { cardFingerprint: 'card-1', email: 'buyer@example.com', ip: '10.0.0.1', ...details },
+    occurred_at: new Date(START + index * 60 * 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+const velocityRule: BoltGuardRule = {
+  id: 'rule-velocity',
+  name: 'Card velocity',
+  type: 'velocity',
+  config: { key: 'card', maxTransactions: 3, windowMinutes: 10 },
+  severity: 'high',
+  action: 'block',
+  enabled: true,
+};
+
+describe('toBoltGuardTransactions', () => {
+  it('should sort by time and keep the first assessment per transaction', () => {
+    const transactions = toBoltGuardTransactions([
+      row(2, { transaction_id: 'tx-1' }),
+      row(1),
+      row(3, { transaction_id: null }),
+    ]);
+
+    expect(transactions.map((transaction) => transaction.id)).toEqual(['risk-1', 'risk-3']);
+    expect(transactions[0]).toMatchObject({
+      card: 'card-1',
+      email: 'buyer@example.com',
+      amount: 100,
+    });
+  });
+});
+
+describe('evaluateBoltGuardRules', () => {
+  it('should report velocity hits once the limit is exceeded within the window', () => {
+    const transactions = toBoltGuardTransactions([0, 1, 2, 3, 20].map((index) => row(index)));
+    const hits = evaluateBoltGuardRules([velocityRule], transactions);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      ruleId: 'rule-velocity',
+      kind: 'velocity_violation',
+      action: 'block',
+      details: { key: 'card', count: 4, maxTransactions: 3, windowMinutes: 10 },
+    });
+    expect(hits[0].transaction.id).toBe('risk-3');
+  });
+
+  it('should use earlier transactions as history without reporting them', () => {
+    const transactions = toBoltGuardTransactions([0, 1, 2, 3, 4].map((index) => row(index)));
+    const hits = evaluateBoltGuardRules(
+      [velocityRule],
+      transactions,
+      (transaction) => transaction.id === 'risk-4'
+    );
+
+    expect(hits.map((hit) => hit.transaction.id)).toEqual(['risk-4']);
+    expect(hits[0].details.count).toBe(5);
+  });
+
+  it('should flag amounts above the z-score threshold once enough samples exist', () => {
+    const rule: BoltGuardRule = {
+      name: 'Large orders',
+      type: 'amount_anomaly',
+      config: { zScoreThreshold: 3, lookbackDays: 30, minSamples: 5 },
+      severity: 'medium',
+      action: 'require_sca',
+      enabled: true,
+    };
+    const amounts = [90, 110, 90, 110, 90, 110, 1000];
+    const transactions = toBoltGuardTransactions(
+      amounts.map((amount, index) => row(index, { amount: String(amount) }))
+    );
+
+    const hits = evaluateBoltGuardRules([rule], transactions);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].transaction.amount).toBe(1000);
+    expect(hits[0].details).toMatchObject({ mean: 100, stdDev: 10, zScoreThreshold: 3 });
+
+    const tooFewSamples = evaluateBoltGuardRules(
+      [{ ...rule, config: { ...rule.config, minSamples: 10 } }],
+      transactions
+    );
+    expect(tooFewSamples).toHaveLength(0);
+  });
+
+  it('should flag billing/shipping country mismatches except for exempt countries', () => {
+    const rule: BoltGuardRule = {
+      name: 'Geo mismatch',
+      type: 'geo_mismatch',
+      config: { exemptCountries: ['CA'] },
+      severity: 'low',
+      action: 'flag',
+      enabled: true,
+    };
+    const transactions = toBoltGuardTransactions([
+      row(0, {}, { billingCountry: 'us', shippingCountry: 'br' }),
+      row(1, {}, { billingCountry: 'US', shippingCountry: 'CA' }),
+      row(2, {}, { billingCountry: 'US', shippingCountry: 'US' }),
+      row(3, {}, { billingCountry: 'US' }),
+    ]);
+
+    const hits = evaluateBoltGuardRules([rule], transactions);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      kind: 'geo_mismatch',
+      details: { billingCountry: 'US', shippingCountry: 'BR' },
+    });
+  });
+});
+
+describe('summarizeRuleHits', () => {
+  it('should count hits per rule and each transaction under its strongest action', () => {
+    const geoRule: BoltGuardRule = {
+      name: 'Geo mismatch',
+      type: 'geo_mismatch',
+      config: { exemptCountries: [] },
+      severity: 'low',
+      action: 'flag',
+      enabled: true,
+    };
+    const transactions = toBoltGuardTransactions(
+      [0, 1, 2, 3].map((index) => row(index, {}, { billingCountry: 'US', shippingCountry: 'BR' }))
+    );
+
+    const summary = summarizeRuleHits(
+      [velocityRule, geoRule],
+      evaluateBoltGuardRules([velocityRule, geoRule], transactions)
+    );
+
+    expect(summary.rules.map((rule) => rule.hits)).toEqual([1, 4]);
+    expect(summary.transactions).toEqual({ flagged: 3, scaRequired: 0, blocked: 1 });
+  });
+});
+
+describe('toRuleHitAlert', () => {
+  it('should describe the hit and name the rule', () => {
+    const [hit] = evaluateBoltGuardRules(
+      [velocityRule],
+      toBoltGuardTransactions([0, 1, 2, 3].map((index) => row(index)))
+    );
+
+    expect(toRuleHitAlert(hit)).toMatchObject({
+      id: 'rule-velocity:risk-3',
+      severity: 'high',
+      timestamp: '2026-10-01T12:03:00.000Z',
+    });
+    expect(toRuleHitAlert(hit).description).toContain('(Card velocity)');
+  });
+});
+
+describe('BoltGuardRuleSchema', () => {
+  it('should validate the config of the rule type', () => {
+    expect(BoltGuardRuleSchema.safeParse(velocityRule).success).toBe(true);
+    expect(
+      BoltGuardRuleSchema.safeParse({
+        ...velocityRule,
+        config: { key: 'phone', maxTransactions: 3, windowMinutes: 10 },
+      }).success
+    ).toBe(false);
+    expect(BoltGuardRuleSchema.safeParse({ ...velocityRule, type: 'amount_anomaly' }).success).toBe(
+      false
+    );
+  });
+
+  it('should normalize exempt country codes', () => {
+    const result = BoltGuardRuleSchema.parse({
+      name: 'Geo mismatch',
+      type: 'geo_mismatch',
+      config: { exemptCountries: ['ca'] },
+      severity: 'low',
+      action: 'flag',
+      enabled: true,
+    });
+
+    expect(result.config).toEqual({ exemptCountries: ['CA'] });
+  });
+});
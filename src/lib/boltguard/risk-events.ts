@@ -0,0 +1,196 @@
+/**
+ * BoltGuard Risk Events
+ *
+ * Row types returned by the BoltGuard RPC functions (migration 085) and their
+ * mapping to the security dashboard format. Risk events are captured from the
+ * boltguard_* checkout events; see the migration header for the event contract.
+ */
+
+import type { DateRange } from '@/utils/date-ranges';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type RiskEventKind =
+  | 'assessment'
+  | 'velocity_violation'
+  | 'anomaly'
+  | 'geo_mismatch'
+  | 'validation_error'
+  | 'fraud';
+
+export type RiskTrendBucket = 'hour' | 'day';
+
+/**
+ * Checkout event carrying a transaction risk assessment (the input of BoltGuard rules)
+ */
+export const BOLTGUARD_ASSESSMENT_EVENT = 'boltguard_risk_assessed';
+
+// Periods up to this long are bucketed per hour in the trend
+const HOURLY_TREND_MAX_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface SecuritySummaryRow {
+  total_transactions: number;
+  high_risk_transactions: number;
+  blocked_transactions: number;
+  fraud_detected: number;
+  avg_risk_score: number | string;
+  validation_errors: number;
+  sca_required: number;
+  anomalies_detected: number;
+  velocity_violations: number;
+  risk_low: number;
+  risk_medium: number;
+  risk_high: number;
+  risk_critical: number;
+}
+
+export interface RiskTrendRow {
+  bucket: string;
+  transactions: number;
+  high_risk: number;
+  blocked: number;
+}
+
+export interface RiskAlertRow {
+  id: string;
+  kind: RiskEventKind;
+  severity: RiskLevel;
+  risk_score: number | string | null;
+  decision: string | null;
+  transaction_id: string | null;
+  session_id: string;
+  details: Record<string, unknown> | null;
+  occurred_at: string;
+}
+
+export interface SecurityAlert {
+  id: string;
+  type: string;
+  severity: RiskLevel;
+  description: string;
+  timestamp: string;
+}
+
+export function getRiskTrendBucket(range: DateRange): RiskTrendBucket {
+  return range.end.getTime() - range.start.getTime() <= HOURLY_TREND_MAX_MS ? 'hour' : 'day';
+}
+
+export function toSecuritySummary(row: SecuritySummaryRow | null) {
+  return {
+    metrics: {
+      totalTransactions: Number(row?.total_transactions ?? 0),
+      highRiskTransactions: Number(row?.high_risk_transactions ?? 0),
+      blockedTransactions: Number(row?.blocked_transactions ?? 0),
+      fraudDetected: Number(row?.fraud_detected ?? 0),
+      avgRiskScore: Number(row?.avg_risk_score ?? 0),
+      validationErrors: Number(row?.validation_errors ?? 0),
+      scaRequired: Number(row?.sca_required ?? 0),
+      anomaliesDetected: Number(row?.anomalies_detected ?? 0),
+    },
+    riskDistribution: {
+      low: Number(row?.risk_low ?? 0),
+      medium: Number(row?.risk_medium ?? 0),
+      high: Number(row?.risk_high ?? 0),
+      critical: Number(row?.risk_critical ?? 0),
+    },
+  };
+}
+
+export function toRiskTrendPoint(row: RiskTrendRow) {
+  return {
+    date: new Date(row.bucket).toISOString(),
+    transactions: Number(row.transactions),
+    highRisk: Number(row.high_risk),
+    blocked: Number(row.blocked),
+  };
+}
+
+function detailText(details: Record<string, unknown> | null, key: string): string | null {
+  const value = details?.[key];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+function describeAlert(row: RiskAlertRow): { type: string; description: string } {
+  const transaction = row.transaction_id ? ` ${row.transaction_id}` : '';
+
+  switch (row.kind) {
+    case 'assessment': {
+      const score = row.risk_score === null ? null : Number(row.risk_score);
+      const scoreText = score === null ? '' : ` with risk score ${score}`;
+      return row.decision === 'block'
+        ? {
+            type: 'Blocked Transaction',
+            description: `Transaction${transaction}${scoreText} was blocked`,
+          }
+        : {
+            type: 'High Risk Transaction',
+            description: `Transaction${transaction}${scoreText} detected`,
+          };
+    }
+    case 'velocity_violation': {
+      const count = detailText(row.details, 'count');
+      const windowMinutes = detailText(row.details, 'windowMinutes');
+      const key = detailText(row.details, 'key');
+      return {
+        type: 'Velocity Violation',
+        description:
+          count && windowMinutes
+            ? `${count} transactions ${key ? `from the same ${key} ` : ''}detected in last ${windowMinutes} minutes`
+            : 'Transaction velocity limit exceeded',
+      };
+    }
+    case 'anomaly': {
+      const field = detailText(row.details, 'field');
+      return {
+        type: 'Anomaly Detected',
+        description:
+          detailText(row.details, 'description') ||
+          (field ? `Statistical anomaly in ${field}` : 'Anomalous checkout behavior detected'),
+      };
+    }
+    case 'geo_mismatch': {
+      const billingCountry = detailText(row.details, 'billingCountry');
+      const shippingCountry = detailText(row.details, 'shippingCountry');
+      return {
+        type: 'Geo Mismatch',
+        description:
+          billingCountry && shippingCountry
+            ? `Billing country ${billingCountry} does not match shipping country ${shippingCountry}`
+            : 'Billing and shipping countries do not match',
+      };
+    }
+    case 'validation_error': {
+      const field = detailText(row.details, 'field');
+      const code = detailText(row.details, 'code');
+      return {
+        type: 'Validation Error',
+        description: `Validation failed${field ? ` for ${field}` : ''}${code ? ` (${code})` : ''}`,
+      };
+    }
+    case 'fraud': {
+      const source = detailText(row.details, 'source');
+      return {
+        type: 'Fraud Detected',
+        description: `Fraud confirmed for transaction${transaction}${source ? ` by ${source}` : ''}`,
+      };
+    }
+    default:
+      return { type: 'Security Alert', description: 'BoltGuard signal recorded' };
+  }
+}
+
+/**
+ * Alert of a risk event (rule hits name the rule that produced them)
+ */
+export function toSecurityAlert(row: RiskAlertRow): SecurityAlert {
+  const { type, description } = describeAlert(row);
+  const ruleName = detailText(row.details, 'ruleName');
+
+  return {
+    id: row.id,
+    type,
+    description: ruleName ? `${description} (${ruleName})` : description,
+    severity: row.severity,
+    timestamp: row.occurred_at,
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * BoltGuard Rule Runner
+ *
+ * Loads rules and risk assessments (migration 086) and runs the rules engine
+ * (rules.ts) on them:
+ * - on ingestion, for the assessments of the batch; hits are recorded as
+ *   risk events and show up in the security alerts, and transactions with a
+ *   high or critical hit are sent to the account's webhook endpoints
+ * - as a dry run over the last DRY_RUN_DAYS days; nothing is recorded
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+import {
+  BoltGuardRuleSchema,
+  evaluateBoltGuardRules,
+  getRuleHistoryMs,
+  summarizeRuleHits,
+  toBoltGuardRule,
+  toBoltGuardTransactions,
+  toRuleHitAlert,
+  type BoltGuardRule,
+  type BoltGuardRuleHit,
+  type BoltGuardRuleRow,
+  type BoltGuardTransactionRow,
+} from './rules';
+
+export const DRY_RUN_DAYS = 7;
+
+// Alerts returned by a dry run (most recent first)
+const DRY_RUN_ALERTS_LIMIT = 20;
+
+// Page size of the RPC calls (PostgREST max rows) and the most assessments loaded
+const PAGE_SIZE = 1000;
+const MAX_TRANSACTIONS = 20000;
+
+/**
+ * Load the rules of an account
+ * Stored rules that no longer pass validation are skipped when `enabledOnly`
+ * is set (i.e. when they are about to be evaluated)
+ */
+export async function loadBoltGuardRules(
+  accountId: string,
+  options: { ruleId?: string; enabledOnly?: boolean } = {}
+): Promise<{ rules: BoltGuardRule[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_boltguard_rules', {
+    p_account_id: accountId,
+    p_rule_id: options.ruleId ?? null,
+    p_enabled_only: options.enabledOnly ?? false,
+  });
+
+  if (error) {
+    return { rules: [], error };
+  }
+
+  const rules = ((data || []) as BoltGuardRuleRow[]).map(toBoltGuardRule);
+  if (!options.enabledOnly) {
+    return { rules, error: null };
+  }
+
+  return {
+    rules: rules.filter((rule) => {
+      const result = BoltGuardRuleSchema.safeParse(rule);
+      if (!result.success) {
+        console.warn(`⚠️ [WARN] Skipping invalid BoltGuard rule ${rule.id}:`, result.error.message);
+      }
+      return result.success;
+    }),
+    error: null,
+  };
+}
+
+/**
+ * Load the risk assessments of a period (the most recent MAX_TRANSACTIONS)
+ */
+async function loadAssessments(
+  accountId: string,
+  start: Date,
+  end: Date
+): Promise<{ rows: BoltGuardTransactionRow[]; truncated: boolean; error: Error | null }> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const rows: BoltGuardTransactionRow[] = [];
+
+  for (let from = 0; from < MAX_TRANSACTIONS; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .rpc('get_boltguard_transactions', {
+        p_customer_id: accountId,
+        p_start_date: start.toISOString(),
+        p_end_date: end.toISOString(),
+        p_limit: MAX_TRANSACTIONS,
+      })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      return { rows: [], truncated: false, error };
+    }
+
+    const page = (data || []) as BoltGuardTransactionRow[];
+    rows.push(...page);
+
+    if (page.length < PAGE_SIZE) {
+      return { rows, truncated: false, error: null };
+    }
+  }
+
+  return { rows, truncated: true, error: null };
+}
+
+const FLAGGED_SEVERITIES = new Set(['high', 'critical']);
+
+/**
+ * Send a security.transaction.flagged webhook event per transaction with a
+ * high or critical rule hit
+ */
+async function emitFlaggedTransactions(accountId: string, hits: BoltGuardRuleHit[]) {
+  const hitsByTransaction = new Map<string, BoltGuardRuleHit[]>();
+
+  for (const hit of hits) {
+    if (FLAGGED_SEVERITIES.has(hit.severity)) {
+      const transactionHits = hitsByTransaction.get(hit.transaction.id) || [];
+      transactionHits.push(hit);
+      hitsByTransaction.set(hit.transaction.id, transactionHits);
+    }
+  }
+
+  for (const transactionHits of Array.from(hitsByTransaction.values())) {
+    const { transaction } = transactionHits[0];
+    const actions = transactionHits.map((hit) => hit.action);
+
+    await emitWebhookEvent(accountId, 'security.transaction.flagged', {
+      transaction_id: transaction.transactionId,
+      session_id: transaction.sessionId,
+      amount: transaction.amount,
+      severity: transactionHits.some((hit) => hit.severity === 'critical') ? 'critical' : 'high',
+      // Strongest action of the rules hit
+      action: actions.includes('block')
+        ? 'block'
+        : actions.includes('require_sca')
+          ? 'require_sca'
+          : 'flag',
+      rules: transactionHits.map((hit) => ({
+        id: hit.ruleId,
+        name: hit.ruleName,
+        type: hit.ruleType,
+        severity: hit.severity,
+        action: hit.action,
+      })),
+      occurred_at: transaction.occurredAt.toISOString(),
+    });
+  }
+}
+
+/**
+ * Evaluate the enabled rules of an account against newly ingested assessments
+ *
+ * @param eventIds - analytics.events ids of the ingested batch
+ * @param period - Time span of the assessments in the batch
+ * @returns Number of rule hits recorded
+ */
+export async function evaluateIngestedAssessments(
+  accountId: string,
+  eventIds: string[],
+  period: { start: Date; end: Date }
+): Promise<{ recorded: number; error: Error | null }> {
+  const { rules, error: rulesError } = await loadBoltGuardRules(accountId, { enabledOnly: true });
+
+  if (rulesError || rules.length === 0) {
+    return { recorded: 0, error: rulesError };
+  }
+
+  const historyStart = new Date(period.start.getTime() - getRuleHistoryMs(rules));
+  const { rows, error: assessmentsError } = await loadAssessments(
+    accountId,
+    historyStart,
+    period.end
+  );
+
+  if (assessmentsError) {
+    return { recorded: 0, error: assessmentsError };
+  }
+
+  const ingested = new Set(eventIds);
+  const hits = evaluateBoltGuardRules(
+    rules,
+    toBoltGuardTransactions(rows),
+    (transaction) => transaction.sourceEventId !== null && ingested.has(transaction.sourceEventId)
+  );
+
+  if (hits.length === 0) {
+    return { recorded: 0, error: null };
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('record_boltguard_rule_hits', {
+    p_customer_id: accountId,
+    p_hits: hits.map((hit) => ({
+      ruleId: hit.ruleId,
+      assessmentId: hit.transaction.id,
+      kind: hit.kind,
+      details: hit.details,
+    })),
+  });
+
+  if (error) {
+    return { recorded: 0, error };
+  }
+
+  await emitFlaggedTransactions(accountId, hits);
+
+  return { recorded: Number(data) || 0, error: null };
+}
+
+/**
+ * Run rules over the assessments of the last DRY_RUN_DAYS days without recording hits
+ */
+export async function dryRunBoltGuardRules(
+  accountId: string,
+  rules: BoltGuardRule[],
+  now: Date = new Date()
+) {
+  const start = new Date(now.getTime() - DRY_RUN_DAYS * 24 * 60 * 60 * 1000);
+  const historyStart = new Date(start.getTime() - getRuleHistoryMs(rules));
+
+  const { rows, truncated, error } = await loadAssessments(accountId, historyStart, now);
+
+  if (error) {
+    return { result: null, error };
+  }
+
+  const transactions = toBoltGuardTransactions(rows);
+  const inPeriod = (transaction: { occurredAt: Date }) => transaction.occurredAt >= start;
+  const hits = evaluateBoltGuardRules(rules, transactions, inPeriod);
+
+  return {
+    result: {
+      period: { start: start.toISOString(), end: now.toISOString() },
+      transactionsEvaluated: transactions.filter(inPeriod).length,
+      truncated,
+      ...summarizeRuleHits(rules, hits),
+      alerts: hits.slice(-DRY_RUN_ALERTS_LIMIT).reverse().map(toRuleHitAlert),
+    },
+    error: null,
+  };
+}
+
+export type BoltGuardDryRunResult = NonNullable<
+  Awaited<ReturnType<typeof dryRunBoltGuardRules>>['result']
+>;
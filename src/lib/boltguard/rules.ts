@@ -0,0 +1,460 @@
+/**
+ * BoltGuard Rules
+ *
+ * Merchant-defined rules evaluated against the risk assessments captured from
+ * the checkout (migration 086):
+ * - velocity: more than N transactions per card, email or IP within a window
+ * - amount_anomaly: amount more than `zScoreThreshold` standard deviations
+ *   above the average of the previous `lookbackDays`
+ * - geo_mismatch: billing and shipping countries differ
+ *
+ * Evaluation is a single chronological pass over the transactions, so the
+ * same code serves live evaluation (ingestion) and the dry run.
+ */
+
+import { z } from 'zod';
+import { apiError } from '@/lib/api/responses';
+import {
+  toSecurityAlert,
+  type RiskEventKind,
+  type RiskLevel,
+  type SecurityAlert,
+} from './risk-events';
+
+export const BOLTGUARD_RULE_TYPES = ['velocity', 'amount_anomaly', 'geo_mismatch'] as const;
+
+/**
+ * Rule actions
+ * - flag: recorded as an alert only
+ * - require_sca: the transaction counts as requiring SCA
+ * - block: the transaction counts as blocked
+ */
+export const BOLTGUARD_RULE_ACTIONS = ['flag', 'require_sca', 'block'] as const;
+
+export const RISK_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export const VELOCITY_KEYS = ['card', 'email', 'ip'] as const;
+
+// Longest history a rule can look at: the velocity window and the amount
+// lookback are capped so live evaluation only loads a bounded history
+export const MAX_VELOCITY_WINDOW_MINUTES = 7 * 24 * 60;
+export const MAX_AMOUNT_LOOKBACK_DAYS = 30;
+
+export type BoltGuardRuleType = (typeof BOLTGUARD_RULE_TYPES)[number];
+export type BoltGuardRuleAction = (typeof BOLTGUARD_RULE_ACTIONS)[number];
+export type VelocityKey = (typeof VELOCITY_KEYS)[number];
+
+const VelocityConfigSchema = z.object({
+  key: z.enum(VELOCITY_KEYS),
+  maxTransactions: z.number().int().min(1).max(1000),
+  windowMinutes: z.number().int().min(1).max(MAX_VELOCITY_WINDOW_MINUTES),
+});
+
+const AmountAnomalyConfigSchema = z.object({
+  zScoreThreshold: z.number().min(1).max(10),
+  lookbackDays: z.number().int().min(1).max(MAX_AMOUNT_LOOKBACK_DAYS),
+  minSamples: z.number().int().min(2).max(10000),
+});
+
+const GeoMismatchConfigSchema = z.object({
+  exemptCountries: z
+    .array(
+      z
+        .string()
+        .regex(/^[A-Za-z]{2}$/, 'Use ISO 3166-1 alpha-2 country codes')
+        .transform((code) => code.toUpperCase())
+    )
+    .max(250)
+    .default([]),
+});
+
+const ruleFields = {
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name is too long'),
+  severity: z.enum(RISK_SEVERITIES),
+  action: z.enum(BOLTGUARD_RULE_ACTIONS),
+  enabled: z.boolean(),
+};
+
+/**
+ * Schema for BoltGuard rules
+ * Enforced on create, on update (after merging with the stored rule) and on dry runs
+ */
+export const BoltGuardRuleSchema = z.discriminatedUnion('type', [
+  z.object({ ...ruleFields, type: z.literal('velocity'), config: VelocityConfigSchema }),
+  z.object({
+    ...ruleFields,
+    type: z.literal('amount_anomaly'),
+    config: AmountAnomalyConfigSchema,
+  }),
+  z.object({ ...ruleFields, type: z.literal('geo_mismatch'), config: GeoMismatchConfigSchema }),
+]);
+
+/**
+ * Schema for rule updates (the type cannot change; config is merged into the stored one)
+ */
+export const BoltGuardRuleUpdateSchema = z.object({
+  name: ruleFields.name.optional(),
+  severity: ruleFields.severity.optional(),
+  action: ruleFields.action.optional(),
+  enabled: ruleFields.enabled.optional(),
+  config: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const BoltGuardDryRunSchema = z.object({
+  // Rules to test (e.g. an unsaved draft); defaults to the enabled rules of the account
+  rules: z.array(BoltGuardRuleSchema).min(1).max(50).optional(),
+});
+
+export type BoltGuardRuleInput = z.infer<typeof BoltGuardRuleSchema>;
+
+export type BoltGuardRule = BoltGuardRuleInput & {
+  id?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export interface BoltGuardRuleRow {
+  id: string;
+  account_id: string;
+  name: string;
+  rule_type: BoltGuardRuleType;
+  config: Record<string, unknown> | null;
+  severity: RiskLevel;
+  action: BoltGuardRuleAction;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toBoltGuardRule(row: BoltGuardRuleRow): BoltGuardRule {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.rule_type,
+    config: row.config || {},
+    severity: row.severity,
+    action: row.action,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  } as BoltGuardRule;
+}
+
+/**
+ * Row returned by get_boltguard_transactions
+ */
+export interface BoltGuardTransactionRow {
+  id: string;
+  source_event_id: string | null;
+  transaction_id: string | null;
+  session_id: string;
+  amount: number | string | null;
+  details: Record<string, unknown> | null;
+  occurred_at: string;
+}
+
+export interface BoltGuardTransaction {
+  // risk_events id of the assessment
+  id: string;
+  sourceEventId: string | null;
+  transactionId: string | null;
+  sessionId: string;
+  amount: number | null;
+  occurredAt: Date;
+  card: string | null;
+  email: string | null;
+  ip: string | null;
+  billingCountry: string | null;
+  shippingCountry: string | null;
+}
+
+function detailString(details: Record<string, unknown> | null, key: string): string | null {
+  const value = details?.[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Map assessment rows to transactions sorted by time.
+ * A transaction assessed more than once is kept at its first assessment.
+ */
+export function toBoltGuardTransactions(rows: BoltGuardTransactionRow[]): BoltGuardTransaction[] {
+  const seen = new Set<string>();
+
+  return rows
+    .map((row) => ({
+      id: row.id,
+      sourceEventId: row.source_event_id,
+      transactionId: row.transaction_id,
+      sessionId: row.session_id,
+      amount: row.amount === null ? null : Number(row.amount),
+      occurredAt: new Date(row.occurred_at),
+      card: detailString(row.details, 'cardFingerprint'),
+      email: detailString(row.details, 'email')?.toLowerCase() ?? null,
+      ip: detailString(row.details, 'ip'),
+      billingCountry: detailString(row.details, 'billingCountry')?.toUpperCase() ?? null,
+      shippingCountry: detailString(row.details, 'shippingCountry')?.toUpperCase() ?? null,
+    }))
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || a.id.localeCompare(b.id))
+    .filter((transaction) => {
+      if (!transaction.transactionId) return true;
+      if (seen.has(transaction.transactionId)) return false;
+      seen.add(transaction.transactionId);
+      return true;
+    });
+}
+
+export interface BoltGuardRuleHit {
+  ruleId: string | null;
+  // Position of the rule in the evaluated list (identifies unsaved rules)
+  ruleIndex: number;
+  ruleName: string;
+  ruleType: BoltGuardRuleType;
+  kind: Extract<RiskEventKind, 'velocity_violation' | 'anomaly' | 'geo_mismatch'>;
+  severity: RiskLevel;
+  action: BoltGuardRuleAction;
+  transaction: BoltGuardTransaction;
+  details: Record<string, unknown>;
+}
+
+/**
+ * How far back before the first evaluated transaction the rules need history
+ */
+export function getRuleHistoryMs(rules: BoltGuardRuleInput[]): number {
+  return Math.max(
+    0,
+    ...rules.map((rule) => {
+      switch (rule.type) {
+        case 'velocity':
+          return rule.config.windowMinutes * 60 * 1000;
+        case 'amount_anomaly':
+          return rule.config.lookbackDays * 24 * 60 * 60 * 1000;
+        default:
+          return 0;
+      }
+    })
+  );
+}
+
+type RuleEvaluator = (transaction: BoltGuardTransaction) => Record<string, unknown> | null;
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Velocity: transactions sharing the key value within the window (sliding window per value)
+ */
+function createVelocityEvaluator(
+  config: Extract<BoltGuardRuleInput, { type: 'velocity' }>['config']
+): RuleEvaluator {
+  const windowMs = config.windowMinutes * 60 * 1000;
+  const timesByValue = new Map<string, number[]>();
+
+  return (transaction) => {
+    const value = transaction[config.key];
+    if (!value) return null;
+
+    const now = transaction.occurredAt.getTime();
+    const times = (timesByValue.get(value) || []).filter((time) => time > now - windowMs);
+    times.push(now);
+    timesByValue.set(value, times);
+
+    if (times.length <= config.maxTransactions) return null;
+
+    return {
+      key: config.key,
+      count: times.length,
+      maxTransactions: config.maxTransactions,
+      windowMinutes: config.windowMinutes,
+    };
+  };
+}
+
+/**
+ * Amount anomaly: z-score of the amount against the amounts of the lookback window
+ * (running sums over a sliding window; only amounts above the average are anomalies)
+ */
+function createAmountAnomalyEvaluator(
+  config: Extract<BoltGuardRuleInput, { type: 'amount_anomaly' }>['config']
+): RuleEvaluator {
+  const lookbackMs = config.lookbackDays * 24 * 60 * 60 * 1000;
+  const window: Array<{ time: number; amount: number }> = [];
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  return (transaction) => {
+    if (transaction.amount === null) return null;
+
+    const now = transaction.occurredAt.getTime();
+    while (window.length > 0 && window[0].time <= now - lookbackMs) {
+      const expired = window.shift()!;
+      sum -= expired.amount;
+      sumOfSquares -= expired.amount ** 2;
+    }
+
+    const samples = window.length;
+    const mean = samples > 0 ? sum / samples : 0;
+    const variance = samples > 0 ? Math.max(0, sumOfSquares / samples - mean ** 2) : 0;
+    const stdDev = Math.sqrt(variance);
+
+    window.push({ time: now, amount: transaction.amount });
+    sum += transaction.amount;
+    sumOfSquares += transaction.amount ** 2;
+
+    if (samples < config.minSamples || stdDev === 0) return null;
+
+    const zScore = (transaction.amount - mean) / stdDev;
+    if (zScore < config.zScoreThreshold) return null;
+
+    return {
+      amount: transaction.amount,
+      mean: round(mean),
+      stdDev: round(stdDev),
+      zScore: round(zScore),
+      zScoreThreshold: config.zScoreThreshold,
+      description: `Amount ${transaction.amount.toFixed(2)} is ${round(zScore, 1)} standard deviations above the average of ${mean.toFixed(2)}`,
+    };
+  };
+}
+
+function createGeoMismatchEvaluator(
+  config: Extract<BoltGuardRuleInput, { type: 'geo_mismatch' }>['config']
+): RuleEvaluator {
+  const exempt = new Set(config.exemptCountries.map((code) => code.toUpperCase()));
+
+  return (transaction) => {
+    const { billingCountry, shippingCountry } = transaction;
+    if (!billingCountry || !shippingCountry || billingCountry === shippingCountry) return null;
+    if (exempt.has(billingCountry) || exempt.has(shippingCountry)) return null;
+
+    return { billingCountry, shippingCountry };
+  };
+}
+
+const HIT_KINDS: Record<BoltGuardRuleType, BoltGuardRuleHit['kind']> = {
+  velocity: 'velocity_violation',
+  amount_anomaly: 'anomaly',
+  geo_mismatch: 'geo_mismatch',
+};
+
+function createEvaluator(rule: BoltGuardRuleInput): RuleEvaluator {
+  switch (rule.type) {
+    case 'velocity':
+      return createVelocityEvaluator(rule.config);
+    case 'amount_anomaly':
+      return createAmountAnomalyEvaluator(rule.config);
+    case 'geo_mismatch':
+      return createGeoMismatchEvaluator(rule.config);
+  }
+}
+
+/**
+ * Evaluate rules over transactions sorted by time
+ *
+ * Every transaction feeds the rule state (velocity windows, amount statistics);
+ * hits are only reported for the transactions accepted by `shouldReport`, so
+ * earlier transactions can be passed as history.
+ */
+export function evaluateBoltGuardRules(
+  rules: BoltGuardRule[],
+  transactions: BoltGuardTransaction[],
+  shouldReport: (transaction: BoltGuardTransaction) => boolean = () => true
+): BoltGuardRuleHit[] {
+  const evaluators = rules.map((rule) => ({ rule, evaluate: createEvaluator(rule) }));
+  const hits: BoltGuardRuleHit[] = [];
+
+  for (const transaction of transactions) {
+    const report = shouldReport(transaction);
+
+    evaluators.forEach(({ rule, evaluate }, ruleIndex) => {
+      const details = evaluate(transaction);
+      if (!details || !report) return;
+
+      hits.push({
+        ruleId: rule.id ?? null,
+        ruleIndex,
+        ruleName: rule.name,
+        ruleType: rule.type,
+        kind: HIT_KINDS[rule.type],
+        severity: rule.severity,
+        action: rule.action,
+        transaction,
+        details,
+      });
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Alert of a rule hit, as it appears in the security alerts once recorded
+ */
+export function toRuleHitAlert(hit: BoltGuardRuleHit): SecurityAlert {
+  return toSecurityAlert({
+    id: `${hit.ruleId ?? hit.ruleName}:${hit.transaction.id}`,
+    kind: hit.kind,
+    severity: hit.severity,
+    risk_score: null,
+    decision: null,
+    transaction_id: hit.transaction.transactionId,
+    session_id: hit.transaction.sessionId,
+    details: { ...hit.details, ruleName: hit.ruleName },
+    occurred_at: hit.transaction.occurredAt.toISOString(),
+  });
+}
+
+/**
+ * Hits per rule and transactions affected per action (a transaction counts
+ * once, under the strongest action of the rules it hit)
+ */
+export function summarizeRuleHits(rules: BoltGuardRule[], hits: BoltGuardRuleHit[]) {
+  const actionRank: Record<BoltGuardRuleAction, number> = { flag: 0, require_sca: 1, block: 2 };
+  const strongestAction = new Map<string, BoltGuardRuleAction>();
+
+  for (const hit of hits) {
+    const current = strongestAction.get(hit.transaction.id);
+    if (!current || actionRank[hit.action] > actionRank[current]) {
+      strongestAction.set(hit.transaction.id, hit.action);
+    }
+  }
+
+  const actions = Array.from(strongestAction.values());
+
+  return {
+    rules: rules.map((rule, index) => {
+      const ruleHits = hits.filter((hit) => hit.ruleIndex === index);
+      return {
+        ruleId: rule.id ?? null,
+        index,
+        name: rule.name,
+        type: rule.type,
+        action: rule.action,
+        severity: rule.severity,
+        hits: ruleHits.length,
+      };
+    }),
+    transactions: {
+      flagged: actions.filter((action) => action === 'flag').length,
+      scaRequired: actions.filter((action) => action === 'require_sca').length,
+      blocked: actions.filter((action) => action === 'block').length,
+    },
+  };
+}
+
+export function boltGuardRuleDatabaseError(
+  error: { code?: string; message: string },
+  fallbackMessage: string
+) {
+  switch (error.code) {
+    case '22P02':
+      return apiError('Invalid identifier', 400);
+    case '23514':
+      return apiError(error.message, 422);
+    case 'P0002':
+      return apiError(error.message, 404);
+    default:
+      return apiError(fallbackMessage, 500);
+  }
+}
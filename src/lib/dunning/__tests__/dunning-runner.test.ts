@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
+import { getEmailService } from '@/utils/auth/email-service';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+import { runSubscriptionDunning, type ClaimedDunningSubscription } from '../dunning-runner';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/payments/payment-gateway-factory', () => ({
+  getPaymentGatewayFromEnv: vi.fn(),
+}));
+
+vi.mock('@/utils/auth/email-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth/email-service')>()),
+  getEmailService: vi.fn(),
+}));
+
+vi.mock('@/lib/webhooks/events', () => ({
+  emitWebhookEvent: vi.fn(),
+}));
+
+const NOW = new Date('2026-10-22T12:00:00Z');
+
+function subscription(
+  overrides: Partial<ClaimedDunningSubscription> = {}
+): ClaimedDunningSubscription {
+  return {
+    id: 'subscription-1',
+    account_id: 'account-1',
+    plan_id: 'plan-1',
+    gateway_subscription_id: 'sub_123',
+    dunning_state: 'past_due',
+    dunning_started_at: '2026-10-19T12:00:00Z',
+    dunning_retries: 1,
+    dunning_invoice_id: 'in_123',
+    ...overrides,
+  };
+}
+
+function mockRpc(claimed: ClaimedDunningSubscription[]) {
+  const rpc = vi.fn(async (name: string) => {
+    switch (name) {
+      case 'claim_subscription_dunning':
+        return { data: claimed, error: null };
+      case 'advance_subscription_dunning':
+        return { data: claimed[0]?.dunning_state ?? null, error: null };
+      case 'clear_subscription_dunning':
+        return { data: 'past_due', error: null };
+      case 'get_dunning_recipients':
+        return {
+          data: [{ email: 'owner@example.com', first_name: 'Ana', locale: 'pt-BR' }],
+          error: null,
+        };
+      default:
+        return { data: null, error: null };
+    }
+  });
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+function mockGateway(retry: () => Promise<{ status: string }>) {
+  const retryInvoicePayment = vi.fn(retry);
+  vi.mocked(getPaymentGatewayFromEnv).mockReturnValue({ retryInvoicePayment } as never);
+  return retryInvoicePayment;
+}
+
+describe('runSubscriptionDunning', () => {
+  const sendEmail = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendEmail.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({ sendEmail } as never);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should restore access when a retry collects the invoice', async () => {
+    const rpc = mockRpc([subscription()]);
+    const retry = mockGateway(async () => ({ status: 'completed' }));
+
+    const { result, error } = await runSubscriptionDunning({ now: NOW });
+
+    expect(error).toBeNull();
+    expect(result).toMatchObject({ claimed: 1, recovered: 1, failed: 0 });
+    expect(retry).toHaveBeenCalledWith('in_123');
+    expect(rpc).toHaveBeenCalledWith('clear_subscription_dunning', {
+      p_subscription_id: 'subscription-1',
+      p_now: NOW.toISOString(),
+    });
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'owner@example.com',
+        subject: '✅ Sua assinatura BOLT está ativa novamente',
+      })
+    );
+  });
+
+  it('should schedule the next retry after a failed retry', async () => {
+    const rpc = mockRpc([subscription()]);
+    mockGateway(async () => {
+      throw new Error('Your card was declined.');
+    });
+
+    const { result } = await runSubscriptionDunning({ now: NOW });
+
+    expect(result).toMatchObject({ claimed: 1, retrying: 1, grace: 0 });
+    expect(rpc).toHaveBeenCalledWith('advance_subscription_dunning', {
+      p_subscription_id: 'subscription-1',
+      p_state: 'past_due',
+      p_retries: 2,
+      p_next_dunning_at: '2026-10-24T12:00:00.000Z',
+      p_error: 'Your card was declined.',
+      p_now: NOW.toISOString(),
+    });
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should start the grace period after the last failed retry', async () => {
+    const rpc = mockRpc([subscription({ dunning_retries: 2 })]);
+    mockGateway(async () => ({ status: 'open' }));
+
+    const { result } = await runSubscriptionDunning({ now: NOW });
+
+    expect(result).toMatchObject({ retrying: 0, grace: 1 });
+    expect(rpc).toHaveBeenCalledWith(
+      'advance_subscription_dunning',
+      expect.objectContaining({
+        p_state: 'grace',
+        p_retries: 3,
+        p_next_dunning_at: '2026-10-29T12:00:00.000Z',
+        p_error: 'Invoice is open',
+      })
+    );
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      'account-1',
+      'subscription.updated',
+      expect.objectContaining({ change: 'dunning', dunning_state: 'grace' })
+    );
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should suspend the subscription at the end of the grace period without retrying', async () => {
+    const rpc = mockRpc([subscription({ dunning_state: 'grace', dunning_retries: 3 })]);
+    const retry = mockGateway(async () => ({ status: 'completed' }));
+
+    const { result } = await runSubscriptionDunning({ now: NOW });
+
+    expect(result).toMatchObject({ suspended: 1, recovered: 0 });
+    expect(retry).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith(
+      'advance_subscription_dunning',
+      expect.objectContaining({ p_state: 'suspended', p_next_dunning_at: null })
+    );
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: '🔒 Sua assinatura BOLT foi suspensa' })
+    );
+  });
+
+  it('should count a failed retry without an open invoice', async () => {
+    const rpc = mockRpc([subscription({ dunning_invoice_id: null })]);
+    const retry = mockGateway(async () => ({ status: 'completed' }));
+
+    const { result } = await runSubscriptionDunning({ now: NOW });
+
+    expect(result.retrying).toBe(1);
+    expect(retry).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith(
+      'advance_subscription_dunning',
+      expect.objectContaining({ p_error: 'No open invoice to retry' })
+    );
+  });
+
+  it('should return the error when subscriptions cannot be claimed', async () => {
+    const rpc = vi.fn(async () => ({ data: null, error: new Error('connection refused') }));
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { result, error } = await runSubscriptionDunning({ now: NOW });
+
+    expect(error?.message).toBe('connection refused');
+    expect(result.claimed).toBe(0);
+  });
+});
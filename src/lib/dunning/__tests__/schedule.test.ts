@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_DUNNING_SCHEDULE,
+  getDunningSchedule,
+  getFirstDunningAt,
+  getNextDunningStep,
+} from '../schedule';
+
+const STARTED_AT = new Date('2026-10-19T12:00:00Z');
+
+describe('getDunningSchedule', () => {
+  it('should use the default schedule when nothing is configured', () => {
+    expect(getDunningSchedule({} as NodeJS.ProcessEnv)).toEqual(DEFAULT_DUNNING_SCHEDULE);
+  });
+
+  it('should read the retry days and grace period from the environment', () => {
+    expect(
+      getDunningSchedule({
+        DUNNING_RETRY_DAYS: '2, 4',
+        DUNNING_GRACE_DAYS: '10',
+      } as unknown as NodeJS.ProcessEnv)
+    ).toEqual({ retryDays: [2, 4], graceDays: 10 });
+  });
+
+  it('should allow disabling retries', () => {
+    expect(
+      getDunningSchedule({ DUNNING_RETRY_DAYS: '' } as unknown as NodeJS.ProcessEnv).retryDays
+    ).toEqual([]);
+  });
+
+  it('should fall back to the defaults for invalid values', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(
+      getDunningSchedule({
+        DUNNING_RETRY_DAYS: '3,1',
+        DUNNING_GRACE_DAYS: '-2',
+      } as unknown as NodeJS.ProcessEnv)
+    ).toEqual(DEFAULT_DUNNING_SCHEDULE);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    warn.mockRestore();
+  });
+});
+
+describe('getFirstDunningAt', () => {
+  it('should schedule the first retry after the failed payment', () => {
+    expect(getFirstDunningAt(DEFAULT_DUNNING_SCHEDULE, STARTED_AT)).toEqual(
+      new Date('2026-10-20T12:00:00Z')
+    );
+  });
+
+  it('should act right away without retries', () => {
+    expect(getFirstDunningAt({ retryDays: [], graceDays: 7 }, STARTED_AT)).toEqual(STARTED_AT);
+  });
+});
+
+describe('getNextDunningStep', () => {
+  it('should schedule the next retry from the first failed payment', () => {
+    const now = new Date('2026-10-20T12:05:00Z');
+
+    expect(
+      getNextDunningStep(
+        { state: 'past_due', startedAt: STARTED_AT, retries: 1 },
+        DEFAULT_DUNNING_SCHEDULE,
+        now
+      )
+    ).toEqual({ state: 'past_due', retries: 1, nextAt: new Date('2026-10-22T12:00:00Z') });
+  });
+
+  it('should never schedule a retry in the past', () => {
+    const now = new Date('2026-10-30T00:00:00Z');
+
+    expect(
+      getNextDunningStep(
+        { state: 'past_due', startedAt: STARTED_AT, retries: 1 },
+        DEFAULT_DUNNING_SCHEDULE,
+        now
+      ).nextAt
+    ).toEqual(now);
+  });
+
+  it('should start the grace period once every retry failed', () => {
+    const now = new Date('2026-10-24T12:00:00Z');
+
+    expect(
+      getNextDunningStep(
+        { state: 'past_due', startedAt: STARTED_AT, retries: 3 },
+        DEFAULT_DUNNING_SCHEDULE,
+        now
+      )
+    ).toEqual({ state: 'grace', retries: 3, nextAt: new Date('2026-10-31T12:00:00Z') });
+  });
+
+  it('should suspend the subscription at the end of the grace period', () => {
+    expect(
+      getNextDunningStep(
+        { state: 'grace', startedAt: STARTED_AT, retries: 3 },
+        DEFAULT_DUNNING_SCHEDULE,
+        new Date('2026-10-31T12:00:00Z')
+      )
+    ).toEqual({ state: 'suspended', retries: 3, nextAt: null });
+  });
+});
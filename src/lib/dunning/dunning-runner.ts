@@ -0,0 +1,196 @@
+/**
+ * Dunning Runner
+ *
+ * Takes the scheduled dunning steps of the subscriptions with a failed
+ * renewal payment. Run by the jobs endpoint (POST /api/jobs/subscription-dunning) hourly,
+ * or locally with `npm run dunning:run`. Subscriptions are claimed (leased)
+ * in the database before they are processed, so concurrent runs never retry
+ * the same invoice twice.
+ *
+ * - past_due: the open invoice is charged again. A successful retry restores
+ *   access; after the last failed retry the subscription enters its grace
+ *   period (reminder email).
+ * - grace: the grace period is over; the subscription is suspended
+ *   (reminder email) until a payment succeeds.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
+import type { DunningState } from '@/utils/plans';
+import { restoreSubscriptionAccess } from './dunning';
+import { sendDunningNotice } from './notifications';
+import { getDunningSchedule, getNextDunningStep, type DunningSchedule } from './schedule';
+
+/**
+ * Subscriptions claimed per run, and how long they stay leased to the run
+ */
+const DEFAULT_BATCH_SIZE = 100;
+const LEASE_MS = 15 * 60 * 1000;
+
+/**
+ * Subscription as returned by claim_subscription_dunning
+ */
+export interface ClaimedDunningSubscription {
+  id: string;
+  account_id: string;
+  plan_id: string;
+  gateway_subscription_id: string | null;
+  dunning_state: Exclude<DunningState, 'suspended'>;
+  dunning_started_at: string;
+  /** Retries made before this run */
+  dunning_retries: number;
+  dunning_invoice_id: string | null;
+}
+
+export interface DunningRunResult {
+  claimed: number;
+  /** Retries that collected the invoice */
+  recovered: number;
+  /** Failed retries with retries left */
+  retrying: number;
+  /** Subscriptions that entered their grace period */
+  grace: number;
+  suspended: number;
+  /** Steps that could not be recorded */
+  failed: number;
+}
+
+/**
+ * Charge the open invoice again; returns the failure (null when paid)
+ */
+async function retryPayment(subscription: ClaimedDunningSubscription): Promise<string | null> {
+  if (!subscription.dunning_invoice_id) {
+    return 'No open invoice to retry';
+  }
+
+  try {
+    const invoice = await getPaymentGatewayFromEnv().retryInvoicePayment(
+      subscription.dunning_invoice_id
+    );
+    return invoice.status === 'completed' ? null : `Invoice is ${invoice.status}`;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function processSubscription(
+  subscription: ClaimedDunningSubscription,
+  schedule: DunningSchedule,
+  now: Date,
+  result: DunningRunResult
+): Promise<void> {
+  let retries = subscription.dunning_retries;
+  let paymentError: string | null = null;
+
+  if (subscription.dunning_state === 'past_due' && retries < schedule.retryDays.length) {
+    paymentError = await retryPayment(subscription);
+    retries++;
+
+    if (!paymentError) {
+      const { error } = await restoreSubscriptionAccess(subscription, now);
+      if (error) {
+        console.error(`❌ [DEBUG] Failed to restore subscription ${subscription.id}:`, error);
+        result.failed++;
+      } else {
+        result.recovered++;
+      }
+      return;
+    }
+  }
+
+  const step = getNextDunningStep(
+    {
+      state: subscription.dunning_state,
+      startedAt: new Date(subscription.dunning_started_at),
+      retries,
+    },
+    schedule,
+    now
+  );
+
+  const { data: previousState, error } = await getSupabaseAdmin().rpc(
+    'advance_subscription_dunning',
+    {
+      p_subscription_id: subscription.id,
+      p_state: step.state,
+      p_retries: step.retries,
+      p_next_dunning_at: step.nextAt?.toISOString() ?? null,
+      p_error: paymentError,
+      p_now: now.toISOString(),
+    }
+  );
+
+  if (error) {
+    console.error(`❌ [DEBUG] Failed to record dunning step of ${subscription.id}:`, error);
+    result.failed++;
+    return;
+  }
+
+  // Paid while the step ran: access was already restored
+  if (!previousState) {
+    return;
+  }
+
+  if (step.state === 'past_due') {
+    result.retrying++;
+    return;
+  }
+
+  if (step.state === 'grace') {
+    result.grace++;
+  } else {
+    console.warn(`⚠️ [WARN] Subscription ${subscription.id} suspended after failed payments`);
+    result.suspended++;
+  }
+
+  const { error: noticeError } = await sendDunningNotice(subscription, {
+    stage: step.state,
+    nextRetryAt: null,
+    suspendAt: step.state === 'grace' ? (step.nextAt?.toISOString() ?? null) : null,
+  });
+
+  if (noticeError) {
+    console.warn(
+      `⚠️ [WARN] Failed to send ${step.state} notice for ${subscription.id}:`,
+      noticeError
+    );
+  }
+}
+
+/**
+ * Take the dunning steps due at `now`
+ */
+export async function runSubscriptionDunning(
+  options: { now?: Date; limit?: number } = {}
+): Promise<{ result: DunningRunResult; error: Error | null }> {
+  const now = options.now ?? new Date();
+  const schedule = getDunningSchedule();
+  const result: DunningRunResult = {
+    claimed: 0,
+    recovered: 0,
+    retrying: 0,
+    grace: 0,
+    suspended: 0,
+    failed: 0,
+  };
+
+  const { data, error } = await getSupabaseAdmin().rpc('claim_subscription_dunning', {
+    p_now: now.toISOString(),
+    p_lease_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Failed to claim subscriptions in dunning:', error);
+    return { result, error };
+  }
+
+  const subscriptions = (data || []) as ClaimedDunningSubscription[];
+  result.claimed = subscriptions.length;
+
+  for (const subscription of subscriptions) {
+    await processSubscription(subscription, schedule, now, result);
+  }
+
+  return { result, error: null };
+}
@@ -0,0 +1,150 @@
+/**
+ * Subscription Dunning
+ *
+ * Entry points of the dunning state machine (migration 102) for payment
+ * events: a failed renewal payment starts dunning (past_due), a later
+ * successful payment ends it and restores access. The scheduled steps in
+ * between (retries, grace period, suspension) are taken by the dunning job
+ * (dunning-runner.ts).
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getPaymentGatewayFromEnv } from '@/lib/payments/payment-gateway-factory';
+import type { DunningState } from '@/utils/plans';
+import { sendDunningNotice, type DunningSubscription } from './notifications';
+import { getDunningSchedule, getFirstDunningAt } from './schedule';
+
+export const UpdatePaymentMethodSchema = z.object({
+  payment_method_id: z.string().trim().min(1, 'Payment method is required').max(255),
+});
+
+/**
+ * Record a failed renewal payment. A subscription not in dunning yet enters
+ * past_due and its owners and admins are told; one already in dunning keeps
+ * its schedule.
+ */
+export async function startSubscriptionDunning(
+  subscription: DunningSubscription,
+  failure: { invoiceId: string | null; error: string | null },
+  now: Date = new Date()
+): Promise<{ state: DunningState | null; started: boolean; error: Error | null }> {
+  const schedule = getDunningSchedule();
+  const firstRetryAt = getFirstDunningAt(schedule, now);
+
+  const { data, error } = await getSupabaseAdmin().rpc('start_subscription_dunning', {
+    p_subscription_id: subscription.id,
+    p_invoice_id: failure.invoiceId,
+    p_error: failure.error,
+    p_next_dunning_at: firstRetryAt.toISOString(),
+    p_now: now.toISOString(),
+  });
+
+  if (error) {
+    return { state: null, started: false, error };
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as {
+    dunning_state: DunningState;
+    started: boolean;
+  } | null;
+
+  if (!row) {
+    return { state: null, started: false, error: new Error('Subscription not found') };
+  }
+
+  if (row.started) {
+    const { error: noticeError } = await sendDunningNotice(subscription, {
+      stage: 'past_due',
+      nextRetryAt: schedule.retryDays.length > 0 ? firstRetryAt.toISOString() : null,
+      suspendAt: null,
+    });
+
+    if (noticeError) {
+      console.warn(`⚠️ [WARN] Failed to send past due notice for ${subscription.id}:`, noticeError);
+    }
+  }
+
+  return { state: row.dunning_state, started: row.started, error: null };
+}
+
+/**
+ * End dunning after a successful payment. When the subscription was in
+ * dunning its owners and admins are told that access is restored.
+ *
+ * @returns The dunning state the subscription was in (null when paid up)
+ */
+export async function restoreSubscriptionAccess(
+  subscription: DunningSubscription,
+  now: Date = new Date()
+): Promise<{ previousState: DunningState | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('clear_subscription_dunning', {
+    p_subscription_id: subscription.id,
+    p_now: now.toISOString(),
+  });
+
+  if (error) {
+    return { previousState: null, error };
+  }
+
+  const previousState = (data as DunningState | null) ?? null;
+
+  if (previousState) {
+    const { error: noticeError } = await sendDunningNotice(subscription, {
+      stage: 'restored',
+      nextRetryAt: null,
+      suspendAt: null,
+    });
+
+    if (noticeError) {
+      console.warn(`⚠️ [WARN] Failed to send restored notice for ${subscription.id}:`, noticeError);
+    }
+  }
+
+  return { previousState, error: null };
+}
+
+/**
+ * Make a payment method the default of a subscription. When the subscription
+ * is in dunning its open invoice is charged again right away, and a
+ * successful payment restores access.
+ *
+ * @returns Whether access was restored, and why the charge failed otherwise
+ * @throws PaymentGatewayError when the payment method cannot be attached
+ */
+export async function updateSubscriptionPaymentMethod(
+  subscription: DunningSubscription & {
+    gateway_subscription_id: string;
+    dunning_invoice_id?: string | null;
+  },
+  paymentMethodId: string,
+  now: Date = new Date()
+): Promise<{ recovered: boolean; paymentError: string | null; error: Error | null }> {
+  const paymentGateway = getPaymentGatewayFromEnv();
+
+  await paymentGateway.updateSubscription(subscription.gateway_subscription_id, {
+    paymentMethodId,
+  });
+
+  if (!subscription.dunning_invoice_id) {
+    return { recovered: false, paymentError: null, error: null };
+  }
+
+  try {
+    const invoice = await paymentGateway.retryInvoicePayment(subscription.dunning_invoice_id);
+
+    if (invoice.status !== 'completed') {
+      return { recovered: false, paymentError: `Invoice is ${invoice.status}`, error: null };
+    }
+  } catch (retryError) {
+    return {
+      recovered: false,
+      paymentError: retryError instanceof Error ? retryError.message : String(retryError),
+      error: null,
+    };
+  }
+
+  const { error } = await restoreSubscriptionAccess(subscription, now);
+
+  return { recovered: !error, paymentError: null, error };
+}
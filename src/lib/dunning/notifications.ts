@@ -0,0 +1,84 @@
+/**
+ * Dunning Notifications
+ *
+ * Reminder emails sent to the owners and admins of an account at each
+ * dunning stage (payment failed, grace period, suspended) and when access is
+ * restored. The change is also sent to the account's webhook endpoints as a
+ * subscription.updated event.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { generateDunningEmail, getEmailService } from '@/utils/auth/email-service';
+import { emitWebhookEvent } from '@/lib/webhooks/events';
+
+export const DUNNING_NOTICE_STAGES = ['past_due', 'grace', 'suspended', 'restored'] as const;
+export type DunningNoticeStage = (typeof DUNNING_NOTICE_STAGES)[number];
+
+export interface DunningNotice {
+  stage: DunningNoticeStage;
+  /** Next payment retry (past_due) */
+  nextRetryAt: string | null;
+  /** When access will be suspended (grace) */
+  suspendAt: string | null;
+}
+
+/**
+ * Subscription a notice is about
+ */
+export interface DunningSubscription {
+  id: string;
+  account_id: string;
+  plan_id: string;
+}
+
+interface DunningRecipient {
+  email: string;
+  first_name: string | null;
+  locale: string;
+}
+
+/**
+ * Email the account's owners and admins and notify its webhook endpoints.
+ * Every recipient is attempted; the first failure is returned.
+ */
+export async function sendDunningNotice(
+  subscription: DunningSubscription,
+  notice: DunningNotice
+): Promise<{ sent: number; error: Error | null }> {
+  await emitWebhookEvent(subscription.account_id, 'subscription.updated', {
+    subscription_id: subscription.id,
+    plan_id: subscription.plan_id,
+    status: 'active',
+    change: 'dunning',
+    dunning_state: notice.stage === 'restored' ? null : notice.stage,
+  });
+
+  const { data, error } = await getSupabaseAdmin().rpc('get_dunning_recipients', {
+    p_account_id: subscription.account_id,
+  });
+
+  if (error) {
+    return { sent: 0, error };
+  }
+
+  let sent = 0;
+  let firstError: Error | null = null;
+
+  for (const recipient of (data || []) as DunningRecipient[]) {
+    try {
+      const { html, text, subject } = generateDunningEmail(notice, {
+        firstName: recipient.first_name,
+        locale: recipient.locale,
+      });
+      await getEmailService().sendEmail({ to: recipient.email, subject, html, text });
+      sent++;
+    } catch (sendError) {
+      console.error(`❌ [DEBUG] Failed to send dunning email to ${recipient.email}:`, sendError);
+      if (!firstError) {
+        firstError = sendError instanceof Error ? sendError : new Error(String(sendError));
+      }
+    }
+  }
+
+  return { sent, error: firstError };
+}
@@ -0,0 +1,114 @@
+/**
+ * Dunning Schedule
+ *
+ * When a subscription in dunning (migration 102) moves to its next step:
+ * - past_due: the open invoice is retried DUNNING_RETRY_DAYS after the first
+ *   failed payment (default 1, 3 and 5 days)
+ * - grace: once every retry failed, access is kept for DUNNING_GRACE_DAYS
+ *   (default 7) before the subscription is suspended
+ */
+
+import type { DunningState } from '@/utils/plans';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DunningSchedule {
+  /** Days after the first failed payment at which the invoice is retried */
+  retryDays: number[];
+  /** Days between the last failed retry and the suspension */
+  graceDays: number;
+}
+
+export const DEFAULT_DUNNING_SCHEDULE: DunningSchedule = {
+  retryDays: [1, 3, 5],
+  graceDays: 7,
+};
+
+/**
+ * Next state of a subscription in dunning and when the job acts on it again
+ * (null once suspended: only a payment ends the suspension)
+ */
+export interface DunningStep {
+  state: DunningState;
+  retries: number;
+  nextAt: Date | null;
+}
+
+/**
+ * Schedule from the environment; invalid values fall back to the defaults
+ */
+export function getDunningSchedule(env: NodeJS.ProcessEnv = process.env): DunningSchedule {
+  const schedule = { ...DEFAULT_DUNNING_SCHEDULE };
+
+  if (env.DUNNING_RETRY_DAYS !== undefined) {
+    const retryDays = env.DUNNING_RETRY_DAYS.split(',')
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map(Number);
+    const ascending = retryDays.every((days, i) => i === 0 || days > retryDays[i - 1]);
+
+    if (retryDays.every((days) => Number.isFinite(days) && days >= 0) && ascending) {
+      schedule.retryDays = retryDays;
+    } else {
+      console.warn(
+        `⚠️ [WARN] Invalid DUNNING_RETRY_DAYS "${env.DUNNING_RETRY_DAYS}", using the default schedule`
+      );
+    }
+  }
+
+  if (env.DUNNING_GRACE_DAYS !== undefined) {
+    const graceDays = Number(env.DUNNING_GRACE_DAYS);
+
+    if (Number.isFinite(graceDays) && graceDays >= 0) {
+      schedule.graceDays = graceDays;
+    } else {
+      console.warn(
+        `⚠️ [WARN] Invalid DUNNING_GRACE_DAYS "${env.DUNNING_GRACE_DAYS}", using the default of ${DEFAULT_DUNNING_SCHEDULE.graceDays}`
+      );
+    }
+  }
+
+  return schedule;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * When the first retry is due after the first failed payment at `now`
+ * (right away without retries: the job moves the subscription to grace)
+ */
+export function getFirstDunningAt(schedule: DunningSchedule, now: Date): Date {
+  return addDays(now, schedule.retryDays[0] ?? 0);
+}
+
+/**
+ * Step after the job acted on a subscription:
+ * - past_due with retries left: the next retry (never in the past)
+ * - past_due without retries left: grace until the suspension
+ * - grace: suspended
+ *
+ * @param subscription.retries - Retries made so far, including the one just made
+ */
+export function getNextDunningStep(
+  subscription: { state: DunningState; startedAt: Date; retries: number },
+  schedule: DunningSchedule,
+  now: Date
+): DunningStep {
+  const { state, startedAt, retries } = subscription;
+
+  if (state === 'past_due') {
+    if (retries < schedule.retryDays.length) {
+      const retryAt = addDays(startedAt, schedule.retryDays[retries]);
+      return {
+        state: 'past_due',
+        retries,
+        nextAt: retryAt > now ? retryAt : now,
+      };
+    }
+    return { state: 'grace', retries, nextAt: addDays(now, schedule.graceDays) };
+  }
+
+  return { state: 'suspended', retries, nextAt: null };
+}
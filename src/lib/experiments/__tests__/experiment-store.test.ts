@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getExperimentResults } from '../experiment-store';
+import type { Experiment } from '../experiments';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+
+const EXPERIMENT: Experiment = {
+  id: 'experiment-1',
+  name: 'New checkout theme',
+  description: null,
+  type: 'theme',
+  status: 'running',
+  variants: [
+    { key: 'control', name: 'Control', weight: 50 },
+    { key: 'treatment', name: 'Treatment', weight: 50 },
+  ],
+  significanceLevel: 0.05,
+  minSessionsPerVariant: 1000,
+  winnerVariantKey: null,
+  baselineConversionRate: 0.1,
+  startedAt: '2026-10-01T00:00:00Z',
+  stoppedAt: null,
+  createdAt: '2026-09-30T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+} as Experiment;
+
+function metricsRow(variantKey: string, sessions: number, conversions: number) {
+  return {
+    variant_key: variantKey,
+    sessions: String(sessions),
+    converted_sessions: String(conversions),
+    revenue: '0',
+    revenue_squares: '0',
+  };
+}
+
+function mockRpc(metrics: unknown[], minPValues: Record<string, number>) {
+  const rpc = vi.fn((fn: string) =>
+    Promise.resolve(
+      fn === 'get_experiment_variant_metrics'
+        ? { data: metrics, error: null }
+        : { data: minPValues, error: null }
+    )
+  );
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+describe('getExperimentResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record the p-values of the look and show the running minimum', async () => {
+    const rpc = mockRpc([metricsRow('control', 5000, 500), metricsRow('treatment', 5000, 560)], {
+      treatment: 0.02,
+    });
+
+    const { result, error } = await getExperimentResults(ACCOUNT_ID, EXPERIMENT);
+
+    expect(error).toBeNull();
+    expect(rpc).toHaveBeenCalledWith('record_experiment_p_values', {
+      p_account_id: ACCOUNT_ID,
+      p_experiment_id: 'experiment-1',
+      p_p_values: { treatment: expect.closeTo(0.5992, 3) },
+    });
+    expect(result?.variants[1].pValue).toBe(0.02);
+    expect(result?.verdict).toBe('significant');
+  });
+
+  it('should not record looks while collecting data', async () => {
+    const rpc = mockRpc([metricsRow('control', 500, 50), metricsRow('treatment', 500, 90)], {});
+
+    const { result } = await getExperimentResults(ACCOUNT_ID, EXPERIMENT);
+
+    expect(result?.verdict).toBe('collecting');
+    expect(rpc).not.toHaveBeenCalledWith('record_experiment_p_values', expect.anything());
+  });
+
+  it('should fail when the running minimum cannot be recorded', async () => {
+    const rpc = vi.fn((fn: string) =>
+      Promise.resolve(
+        fn === 'get_experiment_variant_metrics'
+          ? { data: [metricsRow('control', 5000, 500), metricsRow('treatment', 5000, 560)] }
+          : { data: null, error: { message: 'Experiment not found' } }
+      )
+    );
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    const { result, error } = await getExperimentResults(ACCOUNT_ID, EXPERIMENT);
+
+    expect(result).toBeNull();
+    expect(error).toEqual({ message: 'Experiment not found' });
+  });
+});
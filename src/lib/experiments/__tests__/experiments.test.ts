@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExperimentSchema,
+  assignVariant,
+  getAssignmentBucket,
+  getControlVariant,
+  type ExperimentInput,
+} from '../experiments';
+
+const THEME_A = '4f1c2d7e-8a1b-4c3d-9e2f-1a2b3c4d5e6f';
+const THEME_B = '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d';
+
+function themeExperiment(overrides: Partial<ExperimentInput> = {}): ExperimentInput {
+  return {
+    name: 'New checkout theme',
+    type: 'theme',
+    significanceLevel: 0.05,
+    minSessionsPerVariant: 100,
+    variants: [
+      { key: 'control', name: 'Control', weight: 50, themeId: THEME_A },
+      { key: 'dark', name: 'Dark', weight: 50, themeId: THEME_B },
+    ],
+    ...overrides,
+  };
+}
+
+describe('ExperimentSchema', () => {
+  it('should accept a valid theme experiment', () => {
+    expect(ExperimentSchema.safeParse(themeExperiment()).success).toBe(true);
+  });
+
+  it('should reject weights that do not add up to 100', () => {
+    const result = ExperimentSchema.safeParse(
+      themeExperiment({
+        variants: [
+          { key: 'control', name: 'Control', weight: 50, themeId: THEME_A },
+          { key: 'dark', name: 'Dark', weight: 40, themeId: THEME_B },
+        ],
+      })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('Variant weights must add up to 100');
+  });
+
+  it('should reject duplicate variant keys', () => {
+    const result = ExperimentSchema.safeParse(
+      themeExperiment({
+        variants: [
+          { key: 'control', name: 'Control', weight: 50, themeId: THEME_A },
+          { key: 'control', name: 'Dark', weight: 50, themeId: THEME_B },
+        ],
+      })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['variants', 1, 'key']);
+  });
+
+  it('should require the config matching the experiment type', () => {
+    const missingTheme = ExperimentSchema.safeParse(
+      themeExperiment({
+        variants: [
+          { key: 'control', name: 'Control', weight: 50, themeId: THEME_A },
+          { key: 'dark', name: 'Dark', weight: 50 },
+        ],
+      })
+    );
+    const missingBoltX = ExperimentSchema.safeParse(
+      themeExperiment({
+        type: 'boltx',
+        variants: [
+          { key: 'control', name: 'Control', weight: 50, boltx: { interventionsEnabled: false } },
+          { key: 'boltx', name: 'BoltX', weight: 50 },
+        ],
+      })
+    );
+
+    expect(missingTheme.success).toBe(false);
+    expect(missingBoltX.success).toBe(false);
+    expect(missingBoltX.error?.issues[0].path).toEqual(['variants', 1, 'boltx']);
+  });
+
+  it('should require at least two variants', () => {
+    const result = ExperimentSchema.safeParse(
+      themeExperiment({
+        variants: [{ key: 'control', name: 'Control', weight: 100, themeId: THEME_A }],
+      })
+    );
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('assignVariant', () => {
+  const experiment = {
+    id: 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e',
+    variants: [
+      { key: 'control', name: 'Control', weight: 20 },
+      { key: 'a', name: 'A', weight: 30 },
+      { key: 'b', name: 'B', weight: 50 },
+    ],
+  };
+
+  it('should assign the same session to the same variant', () => {
+    const first = assignVariant(experiment, 'session-42');
+    for (let i = 0; i < 5; i++) {
+      expect(assignVariant(experiment, 'session-42')).toBe(first);
+    }
+  });
+
+  it('should bucket sessions independently per experiment', () => {
+    expect(getAssignmentBucket('experiment-1', 'session-1')).not.toBe(
+      getAssignmentBucket('experiment-2', 'session-1')
+    );
+    expect(getAssignmentBucket('experiment-1', 'session-1')).toBeLessThan(10000);
+  });
+
+  it('should split traffic according to the weights', () => {
+    const counts: Record<string, number> = { control: 0, a: 0, b: 0 };
+    const sessions = 20000;
+
+    for (let i = 0; i < sessions; i++) {
+      counts[assignVariant(experiment, `session-${i}`).key]++;
+    }
+
+    expect(counts.control / sessions).toBeCloseTo(0.2, 1);
+    expect(counts.a / sessions).toBeCloseTo(0.3, 1);
+    expect(counts.b / sessions).toBeCloseTo(0.5, 1);
+  });
+
+  it('should never assign variants with zero weight', () => {
+    const paused = {
+      ...experiment,
+      variants: [
+        { key: 'control', name: 'Control', weight: 100 },
+        { key: 'a', name: 'A', weight: 0 },
+      ],
+    };
+
+    for (let i = 0; i < 500; i++) {
+      expect(assignVariant(paused, `session-${i}`).key).toBe('control');
+    }
+  });
+
+  it('should treat the first variant as the control', () => {
+    expect(getControlVariant(experiment).key).toBe('control');
+  });
+});
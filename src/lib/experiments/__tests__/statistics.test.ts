@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeExperiment,
+  getMixtureVariance,
+  meanInterval,
+  msprtConfidenceInterval,
+  msprtPValue,
+  normalQuantile,
+  wilsonInterval,
+  type VariantMetrics,
+} from '../statistics';
+
+const experiment = {
+  significanceLevel: 0.05,
+  minSessionsPerVariant: 1000,
+  baselineConversionRate: 0.1,
+  variants: [
+    { key: 'control', name: 'Control', weight: 50 },
+    { key: 'treatment', name: 'Treatment', weight: 50 },
+  ],
+};
+
+function metrics(variantKey: string, sessions: number, conversions: number): VariantMetrics {
+  // Every conversion is worth 50
+  return {
+    variantKey,
+    sessions,
+    conversions,
+    revenue: conversions * 50,
+    revenueSquares: conversions * 2500,
+  };
+}
+
+describe('normalQuantile', () => {
+  it('should return the usual critical values', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 8);
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 5);
+  });
+});
+
+describe('wilsonInterval', () => {
+  it('should match the reference interval', () => {
+    // 10 successes out of 100 at 95%: [0.0552, 0.1744]
+    const interval = wilsonInterval(10, 100, 0.05);
+    expect(interval.lower).toBeCloseTo(0.0552, 4);
+    expect(interval.upper).toBeCloseTo(0.1744, 4);
+  });
+
+  it('should stay within [0, 1] at the extremes', () => {
+    expect(wilsonInterval(0, 20, 0.05).lower).toBe(0);
+    expect(wilsonInterval(20, 20, 0.05).upper).toBe(1);
+    expect(wilsonInterval(0, 0, 0.05)).toEqual({ lower: 0, upper: 0 });
+  });
+});
+
+describe('meanInterval', () => {
+  it('should compute the interval from the sum and sum of squares', () => {
+    // Values 1..5: mean 3, sample variance 2.5
+    const interval = meanInterval(15, 55, 5, 0.05);
+    const margin = 1.959964 * Math.sqrt(2.5 / 5);
+    expect(interval.lower).toBeCloseTo(3 - margin, 4);
+    expect(interval.upper).toBeCloseTo(3 + margin, 4);
+  });
+});
+
+describe('msprtPValue', () => {
+  it('should be 1 without a difference', () => {
+    expect(msprtPValue(0, 0.0001, 0.0004)).toBe(1);
+  });
+
+  it('should decrease as the difference grows', () => {
+    const small = msprtPValue(0.01, 0.0001, 0.0004);
+    const large = msprtPValue(0.05, 0.0001, 0.0004);
+    expect(large).toBeLessThan(small);
+    expect(large).toBeLessThan(0.05);
+  });
+
+  it('should be 1 when the variance is unknown', () => {
+    expect(msprtPValue(0.1, 0, 0.0004)).toBe(1);
+  });
+});
+
+describe('msprtConfidenceInterval', () => {
+  it('should be wider than the fixed-horizon interval', () => {
+    const interval = msprtConfidenceInterval(0.02, 0.0001, 0.0004, 0.05);
+    const fixedMargin = 1.959964 * Math.sqrt(0.0001);
+
+    expect(interval.lower).toBeLessThan(0.02 - fixedMargin);
+    expect(interval.upper).toBeGreaterThan(0.02 + fixedMargin);
+    expect((interval.lower + interval.upper) / 2).toBeCloseTo(0.02, 10);
+  });
+
+  it('should exclude 0 exactly when the p-value is below the significance level', () => {
+    for (const difference of [0.01, 0.02, 0.03, 0.04, 0.05]) {
+      const interval = msprtConfidenceInterval(difference, 0.0001, 0.0004, 0.05);
+      const pValue = msprtPValue(difference, 0.0001, 0.0004);
+      expect(interval.lower > 0).toBe(pValue < 0.05);
+    }
+  });
+
+  it('should collapse to the difference when the variance is unknown', () => {
+    expect(msprtConfidenceInterval(0.1, 0, 0.0004, 0.05)).toEqual({ lower: 0.1, upper: 0.1 });
+  });
+});
+
+describe('getMixtureVariance', () => {
+  it('should scale with the baseline conversion rate', () => {
+    expect(getMixtureVariance(0.1)).toBeCloseTo(0.0004, 12);
+  });
+
+  it('should fall back to a default baseline without pre-experiment sessions', () => {
+    expect(getMixtureVariance(null)).toBeCloseTo(0.000016, 12);
+    expect(getMixtureVariance(0)).toBe(getMixtureVariance(null));
+  });
+});
+
+describe('analyzeExperiment', () => {
+  it('should keep collecting until every variant has enough sessions', () => {
+    const analysis = analyzeExperiment(experiment, [
+      metrics('control', 5000, 500),
+      metrics('treatment', 900, 200),
+    ]);
+
+    expect(analysis.verdict).toBe('collecting');
+    expect(analysis.winnerKey).toBeNull();
+    expect(analysis.variants[1].significant).toBe(false);
+  });
+
+  it('should declare a significantly better treatment the winner', () => {
+    const analysis = analyzeExperiment(experiment, [
+      metrics('control', 5000, 500),
+      metrics('treatment', 5000, 700),
+    ]);
+    const treatment = analysis.variants[1];
+
+    expect(analysis.verdict).toBe('significant');
+    expect(analysis.winnerKey).toBe('treatment');
+    expect(treatment.conversionRate).toBeCloseTo(0.14, 6);
+    expect(treatment.relativeLift).toBeCloseTo(0.4, 6);
+    expect(treatment.pValue).toBeLessThan(0.05);
+    expect(treatment.revenuePerSession).toBeCloseTo(7, 6);
+  });
+
+  it('should not declare a winner for a small difference', () => {
+    const analysis = analyzeExperiment(experiment, [
+      metrics('control', 5000, 500),
+      metrics('treatment', 5000, 510),
+    ]);
+
+    expect(analysis.verdict).toBe('running');
+    expect(analysis.winnerKey).toBeNull();
+  });
+
+  it('should declare the control the winner when every treatment is worse', () => {
+    const analysis = analyzeExperiment(experiment, [
+      metrics('control', 5000, 700),
+      metrics('treatment', 5000, 450),
+    ]);
+
+    expect(analysis.winnerKey).toBe('control');
+  });
+
+  it('should split the significance level between the comparisons', () => {
+    const analysis = analyzeExperiment(
+      {
+        ...experiment,
+        variants: [
+          ...experiment.variants,
+          { key: 'other', name: 'Other', weight: 0 },
+          { key: 'third', name: 'Third', weight: 0 },
+        ],
+      },
+      []
+    );
+
+    expect(analysis.adjustedSignificanceLevel).toBeCloseTo(0.05 / 3, 10);
+    expect(analysis.variants.every((variant) => variant.sessions === 0)).toBe(true);
+  });
+
+  it('should keep the lowest p-value of the previous looks', () => {
+    const data = [metrics('control', 5000, 500), metrics('treatment', 5000, 560)];
+    const current = analyzeExperiment(experiment, data).variants[1].pValue as number;
+
+    const analysis = analyzeExperiment(experiment, data, { treatment: 0.01 });
+
+    expect(current).toBeGreaterThan(0.05);
+    expect(analysis.variants[1].pValue).toBe(0.01);
+    expect(analysis.variants[1].significant).toBe(true);
+    expect(analysis.winnerKey).toBe('treatment');
+
+    // A higher previous p-value does not replace the current one
+    expect(analyzeExperiment(experiment, data, { treatment: 0.9 }).variants[1].pValue).toBe(
+      current
+    );
+  });
+
+  it('should test with the mixture fixed at the start, not the pooled rate', () => {
+    const treatment = analyzeExperiment(experiment, [
+      metrics('control', 5000, 500),
+      metrics('treatment', 5000, 700),
+    ]).variants[1];
+    const variance = (0.14 * 0.86) / 5000 + (0.1 * 0.9) / 5000;
+
+    expect(treatment.pValue).toBeCloseTo(msprtPValue(0.04, variance, 0.0004), 12);
+
+    // Another baseline changes the test; the experiment data alone does not
+    const other = analyzeExperiment({ ...experiment, baselineConversionRate: 0.3 }, [
+      metrics('control', 5000, 500),
+      metrics('treatment', 5000, 700),
+    ]).variants[1];
+    expect(other.pValue).toBeCloseTo(msprtPValue(0.04, variance, getMixtureVariance(0.3)), 12);
+  });
+
+  it('should use a confidence sequence for the difference', () => {
+    const analysis = analyzeExperiment(experiment, [
+      metrics('control', 5000, 500),
+      metrics('treatment', 5000, 700),
+    ]);
+    const treatment = analysis.variants[1];
+    const variance = (0.14 * 0.86) / 5000 + (0.1 * 0.9) / 5000;
+
+    expect(treatment.conversionRateDifferenceInterval?.lower).toBeLessThan(
+      0.04 - 1.959964 * Math.sqrt(variance)
+    );
+    expect(treatment.conversionRateDifferenceInterval?.lower).toBeGreaterThan(0);
+  });
+});
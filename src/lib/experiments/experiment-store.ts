@@ -0,0 +1,293 @@
+/**
+ * Experiment Store
+ *
+ * Database side of the checkout experiments (migration 088):
+ * - loading experiments
+ * - assigning checkout sessions to the running experiments
+ * - tagging ingested events with the variants of their session
+ * - loading the variant metrics and analyzing them (statistics.ts), keeping
+ *   the running minimum p-value of each treatment (migration 103)
+ * - applying a promoted variant to the account (theme or BoltX config)
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  assignVariant,
+  getControlVariant,
+  toExperiment,
+  type Experiment,
+  type ExperimentRow,
+  type ExperimentStatus,
+  type ExperimentVariant,
+} from './experiments';
+import { analyzeExperiment, type VariantMetrics } from './statistics';
+
+/**
+ * Load the experiments of an account (most recent first)
+ */
+export async function loadExperiments(
+  accountId: string,
+  options: { experimentId?: string; status?: ExperimentStatus } = {}
+): Promise<{ experiments: Experiment[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_experiments', {
+    p_account_id: accountId,
+    p_experiment_id: options.experimentId ?? null,
+    p_status: options.status ?? null,
+  });
+
+  if (error) {
+    return { experiments: [], error };
+  }
+
+  return { experiments: ((data || []) as ExperimentRow[]).map(toExperiment), error: null };
+}
+
+/**
+ * Check that the themes of a theme experiment belong to the account
+ * @returns Ids of the variants' themes that were not found
+ */
+export async function findMissingThemes(
+  accountId: string,
+  variants: ExperimentVariant[]
+): Promise<{ missing: string[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_themes_by_account', {
+    p_account_id: accountId,
+  });
+
+  if (error) {
+    return { missing: [], error };
+  }
+
+  const themeIds = new Set(((data || []) as Array<{ id: string }>).map((theme) => theme.id));
+  const missing = variants
+    .map((variant) => variant.themeId)
+    .filter((themeId): themeId is string => !!themeId && !themeIds.has(themeId));
+
+  return { missing: Array.from(new Set(missing)), error: null };
+}
+
+/**
+ * Variant served to a checkout session
+ */
+export interface SessionAssignment {
+  experimentId: string;
+  type: Experiment['type'];
+  variantKey: string;
+  isControl: boolean;
+  themeId?: string;
+  theme?: Record<string, unknown> | null;
+  boltx?: ExperimentVariant['boltx'];
+  assignedAt: string;
+}
+
+/**
+ * Assign a checkout session to every running experiment of the account
+ * A session keeps its first assignment (stored by assign_experiment_variants)
+ */
+export async function assignSession(
+  accountId: string,
+  sessionId: string
+): Promise<{ assignments: SessionAssignment[]; error: Error | null }> {
+  const { experiments, error: loadError } = await loadExperiments(accountId, {
+    status: 'running',
+  });
+
+  if (loadError || experiments.length === 0) {
+    return { assignments: [], error: loadError };
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin.rpc('assign_experiment_variants', {
+    p_account_id: accountId,
+    p_session_id: sessionId,
+    p_assignments: experiments.map((experiment) => ({
+      experimentId: experiment.id,
+      variantKey: assignVariant(experiment, sessionId).key,
+    })),
+  });
+
+  if (error) {
+    return { assignments: [], error };
+  }
+
+  const byId = new Map(experiments.map((experiment) => [experiment.id, experiment]));
+  const assignments: SessionAssignment[] = [];
+
+  for (const row of (data || []) as Array<{
+    experiment_id: string;
+    variant_key: string;
+    assigned_at: string;
+  }>) {
+    const experiment = byId.get(row.experiment_id);
+    const variant = experiment?.variants.find((item) => item.key === row.variant_key);
+    if (!experiment || !variant) continue;
+
+    assignments.push({
+      experimentId: experiment.id,
+      type: experiment.type,
+      variantKey: variant.key,
+      isControl: variant.key === getControlVariant(experiment).key,
+      ...(experiment.type === 'theme' ? { themeId: variant.themeId } : { boltx: variant.boltx }),
+      assignedAt: row.assigned_at,
+    });
+  }
+
+  // The checkout applies the theme config directly
+  await Promise.all(
+    assignments
+      .filter((assignment) => assignment.themeId)
+      .map(async (assignment) => {
+        const { data: themes, error: themeError } = await supabaseAdmin.rpc('get_theme_by_id', {
+          p_theme_id: assignment.themeId,
+          p_account_id: accountId,
+        });
+        if (themeError) {
+          console.warn('⚠️ [WARN] Could not load experiment theme:', themeError);
+        }
+        assignment.theme = themes?.[0]?.config ?? null;
+      })
+  );
+
+  return { assignments, error: null };
+}
+
+/**
+ * Tag events with the variants of their session: metadata.experiments is set
+ * to { [experimentId]: variantKey } for the running experiments the session
+ * is assigned to. Events of unassigned sessions are returned unchanged.
+ */
+export async function tagEventsWithExperiments<
+  T extends { session_id: string; metadata: Record<string, unknown> },
+>(accountId: string, events: T[]): Promise<{ events: T[]; error: Error | null }> {
+  const sessionIds = Array.from(new Set(events.map((event) => event.session_id)));
+
+  const { data, error } = await getSupabaseAdmin().rpc('get_experiment_assignments', {
+    p_account_id: accountId,
+    p_session_ids: sessionIds,
+  });
+
+  if (error) {
+    return { events, error };
+  }
+
+  const variantsBySession = new Map<string, Record<string, string>>();
+  for (const row of (data || []) as Array<{
+    session_id: string;
+    experiment_id: string;
+    variant_key: string;
+  }>) {
+    const variants = variantsBySession.get(row.session_id) || {};
+    variants[row.experiment_id] = row.variant_key;
+    variantsBySession.set(row.session_id, variants);
+  }
+
+  if (variantsBySession.size === 0) {
+    return { events, error: null };
+  }
+
+  return {
+    events: events.map((event) => {
+      const variants = variantsBySession.get(event.session_id);
+      return variants
+        ? { ...event, metadata: { ...event.metadata, experiments: variants } }
+        : event;
+    }),
+    error: null,
+  };
+}
+
+/**
+ * Load the variant metrics of an experiment and analyze them
+ */
+export async function getExperimentResults(accountId: string, experiment: Experiment) {
+  if (!experiment.startedAt) {
+    return { result: { experiment, ...analyzeExperiment(experiment, []) }, error: null };
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('get_experiment_variant_metrics', {
+    p_account_id: accountId,
+    p_experiment_id: experiment.id,
+  });
+
+  if (error) {
+    return { result: null, error };
+  }
+
+  const metrics: VariantMetrics[] = (
+    (data || []) as Array<{
+      variant_key: string;
+      sessions: number | string;
+      converted_sessions: number | string;
+      revenue: number | string;
+      revenue_squares: number | string;
+    }>
+  ).map((row) => ({
+    variantKey: row.variant_key,
+    sessions: Number(row.sessions) || 0,
+    conversions: Number(row.converted_sessions) || 0,
+    revenue: Number(row.revenue) || 0,
+    revenueSquares: Number(row.revenue_squares) || 0,
+  }));
+
+  let analysis = analyzeExperiment(experiment, metrics);
+
+  // The sequential test is only always valid with the lowest p-value seen so
+  // far: merge this look into the stored running minimum (migration 103)
+  if (analysis.verdict !== 'collecting') {
+    const pValues: Record<string, number> = {};
+    for (const variant of analysis.variants) {
+      if (variant.pValue !== null) {
+        pValues[variant.key] = variant.pValue;
+      }
+    }
+
+    const { data: minPValues, error: recordError } = await getSupabaseAdmin().rpc(
+      'record_experiment_p_values',
+      {
+        p_account_id: accountId,
+        p_experiment_id: experiment.id,
+        p_p_values: pValues,
+      }
+    );
+
+    if (recordError) {
+      return { result: null, error: recordError };
+    }
+
+    analysis = analyzeExperiment(experiment, metrics, (minPValues || {}) as Record<string, number>);
+  }
+
+  return { result: { experiment, ...analysis }, error: null };
+}
+
+export type ExperimentResults = NonNullable<
+  Awaited<ReturnType<typeof getExperimentResults>>['result']
+>;
+
+/**
+ * Apply a variant to the whole checkout: activate its theme or save its
+ * BoltX features in the account configuration
+ */
+export async function applyVariant(
+  accountId: string,
+  experiment: Experiment,
+  variant: ExperimentVariant
+): Promise<{ error: Error | null }> {
+  const supabaseAdmin = getSupabaseAdmin();
+
+  if (experiment.type === 'theme') {
+    const { error } = await supabaseAdmin.rpc('activate_theme', {
+      p_theme_id: variant.themeId,
+      p_account_id: accountId,
+    });
+    return { error };
+  }
+
+  const { error } = await supabaseAdmin.rpc('upsert_boltx_configuration', {
+    p_customer_id: accountId,
+    p_interventions_enabled: variant.boltx?.interventionsEnabled ?? null,
+    p_personalization_enabled: variant.boltx?.personalizationEnabled ?? null,
+    p_optimizations_enabled: variant.boltx?.optimizationsEnabled ?? null,
+  });
+  return { error };
+}
@@ -0,0 +1,238 @@
+/**
+ * Checkout Experiments
+ *
+ * A/B experiments on the checkout (migration 088). Each variant carries the
+ * theme or BoltX config the checkout applies and a traffic weight; the first
+ * variant is the control. Sessions are assigned deterministically by hashing
+ * the experiment id and the session id, and the first assignment is stored so
+ * it stays sticky even if the experiment is later edited.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { apiError } from '@/lib/api/responses';
+
+export const EXPERIMENT_TYPES = ['theme', 'boltx'] as const;
+
+/**
+ * Lifecycle: draft -> running -> stopped -> completed (winner promoted)
+ */
+export const EXPERIMENT_STATUSES = ['draft', 'running', 'stopped', 'completed'] as const;
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 5;
+
+// Traffic weights are whole percentages summing to 100
+export const TOTAL_WEIGHT = 100;
+
+export type ExperimentType = (typeof EXPERIMENT_TYPES)[number];
+export type ExperimentStatus = (typeof EXPERIMENT_STATUSES)[number];
+
+/**
+ * BoltX features toggled by a variant (unset = keep the account configuration)
+ */
+const BoltXVariantConfigSchema = z
+  .object({
+    interventionsEnabled: z.boolean().optional(),
+    personalizationEnabled: z.boolean().optional(),
+    optimizationsEnabled: z.boolean().optional(),
+  })
+  .refine((config) => Object.values(config).some((value) => value !== undefined), {
+    message: 'Set at least one BoltX feature',
+  });
+
+const VariantSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z0-9_-]{1,40}$/, 'Use lowercase letters, numbers, "-" and "_" (max 40)'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  weight: z.number().int().min(0).max(TOTAL_WEIGHT),
+  themeId: z.uuid().optional(),
+  boltx: BoltXVariantConfigSchema.optional(),
+});
+
+const experimentFields = {
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name is too long'),
+  description: z.string().trim().max(2000, 'Description is too long').nullable().optional(),
+  variants: z.array(VariantSchema).min(MIN_VARIANTS).max(MAX_VARIANTS),
+  significanceLevel: z.number().min(0.001).max(0.2),
+  minSessionsPerVariant: z.number().int().min(10).max(1_000_000),
+};
+
+type ExperimentShape = {
+  type: ExperimentType;
+  variants: Array<z.infer<typeof VariantSchema>>;
+};
+
+function validateVariants(experiment: ExperimentShape, ctx: z.RefinementCtx) {
+  const keys = new Set<string>();
+  let totalWeight = 0;
+
+  experiment.variants.forEach((variant, index) => {
+    if (keys.has(variant.key)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Duplicate variant key "${variant.key}"`,
+        path: ['variants', index, 'key'],
+      });
+    }
+    keys.add(variant.key);
+    totalWeight += variant.weight;
+
+    if (experiment.type === 'theme' && !variant.themeId) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Theme experiments need a theme per variant',
+        path: ['variants', index, 'themeId'],
+      });
+    }
+    if (experiment.type === 'boltx' && !variant.boltx) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'BoltX experiments need a BoltX config per variant',
+        path: ['variants', index, 'boltx'],
+      });
+    }
+  });
+
+  if (totalWeight !== TOTAL_WEIGHT) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `Variant weights must add up to ${TOTAL_WEIGHT}`,
+      path: ['variants'],
+    });
+  }
+}
+
+/**
+ * Schema for experiments
+ * Enforced on create and on update (after merging with the stored experiment)
+ */
+export const ExperimentSchema = z
+  .object({ ...experimentFields, type: z.enum(EXPERIMENT_TYPES) })
+  .superRefine(validateVariants);
+
+/**
+ * Schema for experiment updates (the type cannot change)
+ */
+export const ExperimentUpdateSchema = z.object({
+  name: experimentFields.name.optional(),
+  description: experimentFields.description,
+  variants: experimentFields.variants.optional(),
+  significanceLevel: experimentFields.significanceLevel.optional(),
+  minSessionsPerVariant: experimentFields.minSessionsPerVariant.optional(),
+});
+
+export const PromoteVariantSchema = z.object({
+  variantKey: z.string().min(1, 'variantKey is required'),
+});
+
+export type ExperimentInput = z.infer<typeof ExperimentSchema>;
+export type ExperimentVariant = ExperimentInput['variants'][number];
+export type BoltXVariantConfig = NonNullable<ExperimentVariant['boltx']>;
+
+export type Experiment = ExperimentInput & {
+  id: string;
+  status: ExperimentStatus;
+  winnerVariantKey: string | null;
+  /** Account conversion rate before the start (fixes the sequential test's mixture) */
+  baselineConversionRate: number | null;
+  startedAt: string | null;
+  stoppedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface ExperimentRow {
+  id: string;
+  account_id: string;
+  name: string;
+  description: string | null;
+  experiment_type: ExperimentType;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  significance_level: number | string;
+  min_sessions_per_variant: number;
+  winner_variant_key: string | null;
+  baseline_conversion_rate: number | null;
+  started_at: string | null;
+  stopped_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toExperiment(row: ExperimentRow): Experiment {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    type: row.experiment_type,
+    status: row.status,
+    variants: row.variants || [],
+    significanceLevel: Number(row.significance_level),
+    minSessionsPerVariant: row.min_sessions_per_variant,
+    winnerVariantKey: row.winner_variant_key,
+    baselineConversionRate:
+      row.baseline_conversion_rate === null ? null : Number(row.baseline_conversion_rate),
+    startedAt: row.started_at,
+    stoppedAt: row.stopped_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The first variant is the control
+ */
+export function getControlVariant(experiment: Pick<Experiment, 'variants'>): ExperimentVariant {
+  return experiment.variants[0];
+}
+
+/**
+ * Bucket of a session within an experiment, in [0, 10000)
+ * Stable across requests and servers (hash of experiment id and session id)
+ */
+export function getAssignmentBucket(experimentId: string, sessionId: string): number {
+  const digest = createHash('sha256').update(`${experimentId}:${sessionId}`).digest();
+  return digest.readUInt32BE(0) % 10000;
+}
+
+/**
+ * Pick the variant of a session according to the traffic weights
+ */
+export function assignVariant(
+  experiment: Pick<Experiment, 'id' | 'variants'>,
+  sessionId: string
+): ExperimentVariant {
+  const bucket = getAssignmentBucket(experiment.id, sessionId);
+  const scale = 10000 / TOTAL_WEIGHT;
+  let threshold = 0;
+
+  for (const variant of experiment.variants) {
+    threshold += variant.weight * scale;
+    if (bucket < threshold) {
+      return variant;
+    }
+  }
+
+  // Only reached if the weights add up to less than 100
+  return getControlVariant(experiment);
+}
+
+export function experimentDatabaseError(
+  error: { code?: string; message: string },
+  fallbackMessage: string
+) {
+  switch (error.code) {
+    case '22P02':
+      return apiError('Invalid identifier', 400);
+    case '23514':
+      return apiError(error.message, 422);
+    case '55000':
+      return apiError(error.message, 409);
+    case 'P0002':
+      return apiError(error.message, 404);
+    default:
+      return apiError(fallbackMessage, 500);
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Experiment Statistics
+ *
+ * Compares each variant of an experiment with its control:
+ * - conversion rate with a Wilson confidence interval
+ * - revenue per session with a normal confidence interval
+ * - difference in conversion rate tested with a sequential test (mSPRT,
+ *   normal mixture), with a confidence sequence as its interval. The mixture
+ *   is fixed when the experiment starts, from the account's conversion rate
+ *   before it (migration 105), so it doesn't depend on the data. The p-value
+ *   is the running minimum over every look at the results (stored per
+ *   experiment, see experiment-store.ts), which makes it always valid: the
+ *   results can be checked any number of times without inflating false
+ *   positives, so an experiment can be stopped as soon as it is significant.
+ *
+ * With more than one treatment the significance level is split between the
+ * comparisons (Bonferroni).
+ */
+
+import { getControlVariant, type Experiment } from './experiments';
+
+/**
+ * Metrics of a variant (get_experiment_variant_metrics)
+ * revenue / revenueSquares: sum and sum of squares of the revenue per session
+ */
+export interface VariantMetrics {
+  variantKey: string;
+  sessions: number;
+  conversions: number;
+  revenue: number;
+  revenueSquares: number;
+}
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface VariantResult {
+  key: string;
+  name: string;
+  isControl: boolean;
+  sessions: number;
+  conversions: number;
+  conversionRate: number;
+  conversionRateInterval: Interval;
+  revenue: number;
+  revenuePerSession: number;
+  revenuePerSessionInterval: Interval;
+  // Comparison with the control (null for the control)
+  conversionRateDifference: number | null;
+  /** Confidence sequence: valid whenever the results are looked at */
+  conversionRateDifferenceInterval: Interval | null;
+  relativeLift: number | null;
+  /** Always-valid p-value (running minimum over the looks) */
+  pValue: number | null;
+  significant: boolean;
+}
+
+/**
+ * - collecting: a variant has fewer sessions than minSessionsPerVariant
+ * - running: enough data, no significant difference yet
+ * - significant: a winner can be promoted
+ */
+export type ExperimentVerdict = 'collecting' | 'running' | 'significant';
+
+export interface ExperimentAnalysis {
+  variants: VariantResult[];
+  winnerKey: string | null;
+  verdict: ExperimentVerdict;
+  significanceLevel: number;
+  adjustedSignificanceLevel: number;
+}
+
+// Prior spread of the effect used by the mSPRT mixture, relative to the
+// baseline conversion rate (effects around ±20% are expected to be common)
+const MIXTURE_RELATIVE_EFFECT = 0.2;
+const MIN_MIXTURE_VARIANCE = 1e-8;
+// Baseline of accounts without sessions before the experiment started
+const DEFAULT_BASELINE_CONVERSION_RATE = 0.02;
+
+/**
+ * Inverse of the standard normal CDF (Acklam's approximation, |error| < 1.2e-9)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Two-sided critical value for a significance level (0.05 -> 1.96)
+ */
+function criticalValue(alpha: number): number {
+  return normalQuantile(1 - alpha / 2);
+}
+
+/**
+ * Wilson score interval of a proportion
+ */
+export function wilsonInterval(successes: number, trials: number, alpha: number): Interval {
+  if (trials <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const z = criticalValue(alpha);
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin =
+    (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) };
+}
+
+/**
+ * Normal interval of a mean from its sum and sum of squares over n samples
+ */
+export function meanInterval(sum: number, sumSquares: number, n: number, alpha: number): Interval {
+  if (n <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const mean = sum / n;
+  if (n < 2) {
+    return { lower: mean, upper: mean };
+  }
+
+  const variance = Math.max(0, (sumSquares - n * mean * mean) / (n - 1));
+  const margin = criticalValue(alpha) * Math.sqrt(variance / n);
+
+  return { lower: Math.max(0, mean - margin), upper: mean + margin };
+}
+
+/**
+ * P-value of the mixture sequential probability ratio test at one look.
+ * The always-valid p-value is its running minimum over the looks.
+ *
+ * @param difference - Observed difference between treatment and control
+ * @param variance - Variance of the observed difference
+ * @param mixtureVariance - Variance of the normal mixture over the true effect
+ */
+export function msprtPValue(difference: number, variance: number, mixtureVariance: number): number {
+  if (!(variance > 0) || !(mixtureVariance > 0)) {
+    return 1;
+  }
+
+  const total = variance + mixtureVariance;
+  const logLikelihoodRatio =
+    0.5 * Math.log(variance / total) +
+    (mixtureVariance * difference * difference) / (2 * variance * total);
+
+  return Math.min(1, Math.exp(-logLikelihoodRatio));
+}
+
+/**
+ * Confidence sequence of the mSPRT: the effects its test would not reject at
+ * this look. Unlike a fixed-horizon interval it keeps its coverage however
+ * often the results are looked at.
+ *
+ * @param difference - Observed difference between treatment and control
+ * @param variance - Variance of the observed difference
+ * @param mixtureVariance - Variance of the normal mixture over the true effect
+ * @param alpha - Significance level
+ */
+export function msprtConfidenceInterval(
+  difference: number,
+  variance: number,
+  mixtureVariance: number,
+  alpha: number
+): Interval {
+  if (!(variance > 0) || !(mixtureVariance > 0)) {
+    return { lower: difference, upper: difference };
+  }
+
+  const total = variance + mixtureVariance;
+  const margin = Math.sqrt(
+    ((variance * total) / mixtureVariance) * (Math.log(total / variance) - 2 * Math.log(alpha))
+  );
+
+  return { lower: difference - margin, upper: difference + margin };
+}
+
+/**
+ * Variance of the mSPRT mixture over the true difference in conversion rate.
+ * Depends on the baseline stored when the experiment started only, never on
+ * the experiment's own data: a prior that moves with the data would break
+ * the always-valid p-value.
+ */
+export function getMixtureVariance(baselineConversionRate: number | null): number {
+  const baseline =
+    baselineConversionRate !== null && baselineConversionRate > 0
+      ? baselineConversionRate
+      : DEFAULT_BASELINE_CONVERSION_RATE;
+  return Math.max(MIN_MIXTURE_VARIANCE, (MIXTURE_RELATIVE_EFFECT * baseline) ** 2);
+}
+
+function emptyMetrics(variantKey: string): VariantMetrics {
+  return { variantKey, sessions: 0, conversions: 0, revenue: 0, revenueSquares: 0 };
+}
+
+/**
+ * Analyze the metrics of an experiment against its control
+ *
+ * @param minPValues - Lowest p-value of each treatment at the previous looks
+ */
+export function analyzeExperiment(
+  experiment: Pick<
+    Experiment,
+    'variants' | 'significanceLevel' | 'minSessionsPerVariant' | 'baselineConversionRate'
+  >,
+  metrics: VariantMetrics[],
+  minPValues: Record<string, number> = {}
+): ExperimentAnalysis {
+  const alpha = experiment.significanceLevel;
+  const comparisons = Math.max(1, experiment.variants.length - 1);
+  const adjustedAlpha = alpha / comparisons;
+  const mixtureVariance = getMixtureVariance(experiment.baselineConversionRate);
+
+  const byKey = new Map(metrics.map((row) => [row.variantKey, row]));
+  const control = getControlVariant(experiment);
+  const controlMetrics = byKey.get(control.key) || emptyMetrics(control.key);
+  const controlRate =
+    controlMetrics.sessions > 0 ? controlMetrics.conversions / controlMetrics.sessions : 0;
+
+  const hasEnoughData = experiment.variants.every(
+    (variant) => (byKey.get(variant.key)?.sessions ?? 0) >= experiment.minSessionsPerVariant
+  );
+
+  const variants: VariantResult[] = experiment.variants.map((variant) => {
+    const row = byKey.get(variant.key) || emptyMetrics(variant.key);
+    const rate = row.sessions > 0 ? row.conversions / row.sessions : 0;
+    const isControl = variant.key === control.key;
+
+    const result: VariantResult = {
+      key: variant.key,
+      name: variant.name,
+      isControl,
+      sessions: row.sessions,
+      conversions: row.conversions,
+      conversionRate: rate,
+      conversionRateInterval: wilsonInterval(row.conversions, row.sessions, alpha),
+      revenue: row.revenue,
+      revenuePerSession: row.sessions > 0 ? row.revenue / row.sessions : 0,
+      revenuePerSessionInterval: meanInterval(row.revenue, row.revenueSquares, row.sessions, alpha),
+      conversionRateDifference: null,
+      conversionRateDifferenceInterval: null,
+      relativeLift: null,
+      pValue: null,
+      significant: false,
+    };
+
+    if (isControl || row.sessions === 0 || controlMetrics.sessions === 0) {
+      return result;
+    }
+
+    const difference = rate - controlRate;
+    const variance =
+      (rate * (1 - rate)) / row.sessions +
+      (controlRate * (1 - controlRate)) / controlMetrics.sessions;
+    const previousPValue = minPValues[variant.key];
+    const pValue = Math.min(
+      msprtPValue(difference, variance, mixtureVariance),
+      typeof previousPValue === 'number' ? previousPValue : 1
+    );
+
+    return {
+      ...result,
+      conversionRateDifference: difference,
+      conversionRateDifferenceInterval: msprtConfidenceInterval(
+        difference,
+        variance,
+        mixtureVariance,
+        adjustedAlpha
+      ),
+      relativeLift: controlRate > 0 ? difference / controlRate : null,
+      pValue,
+      significant: hasEnoughData && pValue < adjustedAlpha,
+    };
+  });
+
+  const treatments = variants.filter((variant) => !variant.isControl);
+  const winners = treatments
+    .filter((variant) => variant.significant && (variant.conversionRateDifference ?? 0) > 0)
+    .sort((a, b) => b.conversionRate - a.conversionRate);
+
+  let winnerKey: string | null = null;
+  if (winners.length > 0) {
+    winnerKey = winners[0].key;
+  } else if (
+    treatments.length > 0 &&
+    treatments.every(
+      (variant) => variant.significant && (variant.conversionRateDifference ?? 0) < 0
+    )
+  ) {
+    // Every treatment is significantly worse: the control wins
+    winnerKey = control.key;
+  }
+
+  return {
+    variants,
+    winnerKey,
+    verdict: !hasEnoughData ? 'collecting' : winnerKey ? 'significant' : 'running',
+    significanceLevel: alpha,
+    adjustedSignificanceLevel: adjustedAlpha,
+  };
+}
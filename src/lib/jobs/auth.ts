@@ -0,0 +1,30 @@
+/**
+ * Jobs Authentication
+ *
+ * Scheduled jobs (/api/jobs/*) are triggered by a scheduler rather than a
+ * signed-in user; they authenticate with the shared JOBS_SECRET as a bearer
+ * token. Jobs are disabled while JOBS_SECRET is not configured.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Whether the request carries the jobs secret (constant-time comparison)
+ */
+export function isAuthorizedJobRequest(request: NextRequest): boolean {
+  const secret = process.env.JOBS_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  // Hashed so both sides have the same length
+  return timingSafeEqual(digest(token), digest(secret));
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  encryptSecret,
+  generateMasterKey,
+  resetKeyringCache,
+  secretContext,
+} from '@/lib/secrets/envelope';
+import {
+  RECOVERY_CODE_COUNT,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  redeemTotpCode,
+  type MfaFactor,
+  type MfaUser,
+} from '../factors';
+import { generateTotpSecret, getTotpCode, getTotpStep } from '../totp';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const user: MfaUser = {
+  id: 'user-1',
+  email: 'ana@acme.com',
+  account_id: '11111111-1111-1111-1111-111111111111',
+};
+
+describe('recovery codes', () => {
+  it('should generate unique codes in groups of five', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    codes.forEach((code) => expect(code).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/));
+  });
+
+  it('should hash codes ignoring case and separators', () => {
+    expect(hashRecoveryCode('7kq2m xw9pd')).toBe(hashRecoveryCode('7KQ2M-XW9PD'));
+    expect(hashRecoveryCode('7KQ2M-XW9PD')).not.toBe(hashRecoveryCode('7KQ2M-XW9PE'));
+    expect(hashRecoveryCode('7KQ2M-XW9PD')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('redeemTotpCode', () => {
+  const secret = generateTotpSecret();
+  let factor: MfaFactor;
+  let rpc: ReturnType<typeof vi.fn>;
+
+  beforeAll(() => {
+    process.env.SECRETS_MASTER_KEYS = `test:${generateMasterKey()}`;
+    resetKeyringCache();
+  });
+
+  beforeEach(() => {
+    factor = {
+      id: 'factor-1',
+      user_id: user.id,
+      type: 'totp',
+      name: 'Authenticator app',
+      totp_secret_encrypted: encryptSecret(secret, {
+        context: secretContext('mfa_factors', 'totp_secret', user.account_id),
+      }).ciphertext,
+      totp_last_step: null,
+      webauthn_credential_id: null,
+      webauthn_public_key: null,
+      webauthn_counter: 0,
+      webauthn_transports: [],
+      verified_at: '2026-10-01T00:00:00Z',
+      last_used_at: null,
+      created_at: '2026-10-01T00:00:00Z',
+    };
+
+    rpc = vi.fn().mockResolvedValue({ data: true, error: null });
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  });
+
+  it('should accept the current code and record its step', async () => {
+    const step = getTotpStep();
+
+    await expect(redeemTotpCode(user, factor, getTotpCode(secret, step))).resolves.toBe(true);
+    expect(rpc).toHaveBeenCalledWith('use_totp_factor', {
+      p_factor_id: 'factor-1',
+      p_user_id: 'user-1',
+      p_step: step,
+    });
+  });
+
+  it('should reject a code whose step was already used', async () => {
+    const step = getTotpStep();
+    factor.totp_last_step = step;
+
+    await expect(redeemTotpCode(user, factor, getTotpCode(secret, step))).resolves.toBe(false);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject wrong codes', async () => {
+    const wrong = getTotpCode(secret, getTotpStep() + 5);
+
+    await expect(redeemTotpCode(user, factor, wrong)).resolves.toBe(false);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should not decrypt a secret bound to another account', async () => {
+    const otherUser = { ...user, account_id: '22222222-2222-2222-2222-222222222222' };
+
+    await expect(
+      redeemTotpCode(otherUser, factor, getTotpCode(secret, getTotpStep()))
+    ).rejects.toThrow();
+  });
+
+  it('should report a replay caught by the database', async () => {
+    rpc.mockResolvedValue({ data: false, error: null });
+
+    await expect(redeemTotpCode(user, factor, getTotpCode(secret, getTotpStep()))).resolves.toBe(
+      false
+    );
+  });
+});
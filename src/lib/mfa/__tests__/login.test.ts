@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { MfaError } from '../factors';
+import {
+  MFA_CHALLENGE_COOKIE,
+  MFA_MAX_ATTEMPTS,
+  getMfaLogin,
+  getMfaLoginRequirement,
+  startMfaLogin,
+} from '../login';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+
+const user = { id: 'user-1', role: 'editor', account_id: ACCOUNT_ID };
+
+function factor(type: 'totp' | 'webauthn', verified = true) {
+  return {
+    id: `factor-${type}`,
+    user_id: user.id,
+    type,
+    name: type,
+    totp_secret_encrypted: null,
+    totp_last_step: null,
+    webauthn_credential_id: null,
+    webauthn_public_key: null,
+    webauthn_counter: 0,
+    webauthn_transports: null,
+    verified_at: verified ? '2026-10-01T00:00:00Z' : null,
+    last_used_at: null,
+    created_at: '2026-10-01T00:00:00Z',
+  };
+}
+
+/**
+ * Supabase admin client whose RPCs return the given data by function name
+ */
+function mockRpc(results: Record<string, unknown>) {
+  const rpc = vi.fn(async (name: string) => ({ data: results[name] ?? null, error: null }));
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+function requestWithCookie(token?: string) {
+  return new NextRequest('http://localhost:3000/api/dashboard/auth/mfa/verify', {
+    method: 'POST',
+    headers: token ? { cookie: `${MFA_CHALLENGE_COOKIE}=${token}` } : {},
+  });
+}
+
+describe('getMfaLoginRequirement', () => {
+  beforeEach(() => {
+    vi.mocked(getSupabaseAdmin).mockReset();
+  });
+
+  it('should return the methods of the verified factors', async () => {
+    mockRpc({
+      get_mfa_factors: [factor('totp'), factor('webauthn'), factor('webauthn', false)],
+    });
+
+    await expect(getMfaLoginRequirement(user)).resolves.toEqual({
+      methods: ['totp', 'webauthn'],
+      enrollmentRequired: false,
+    });
+  });
+
+  it('should require enrollment when the role requires a second factor', async () => {
+    mockRpc({
+      get_mfa_factors: [factor('totp', false)],
+      get_mfa_policy: [{ required_roles: ['editor', 'admin'], updated_by: null, updated_at: null }],
+    });
+
+    await expect(getMfaLoginRequirement(user)).resolves.toEqual({
+      methods: [],
+      enrollmentRequired: true,
+    });
+  });
+
+  it('should let the login complete without factors or policy', async () => {
+    mockRpc({
+      get_mfa_factors: [],
+      get_mfa_policy: [{ required_roles: ['owner'], updated_by: null, updated_at: null }],
+    });
+
+    await expect(getMfaLoginRequirement(user)).resolves.toBeNull();
+  });
+});
+
+describe('startMfaLogin', () => {
+  it('should store the pending login and set its cookie', async () => {
+    const rpc = mockRpc({});
+    const response = NextResponse.json({ success: true });
+
+    const { error } = await startMfaLogin(user.id, response);
+
+    expect(error).toBeNull();
+    const cookie = response.cookies.get(MFA_CHALLENGE_COOKIE);
+    expect(cookie?.httpOnly).toBe(true);
+    expect(cookie?.path).toBe('/api/dashboard/auth/mfa');
+    expect(rpc).toHaveBeenCalledWith(
+      'create_mfa_challenge',
+      expect.objectContaining({ p_token: cookie?.value, p_user_id: user.id, p_purpose: 'login' })
+    );
+  });
+});
+
+describe('getMfaLogin', () => {
+  it('should fail without the cookie', async () => {
+    mockRpc({});
+
+    await expect(getMfaLogin(requestWithCookie())).rejects.toMatchObject({ code: 'expired' });
+  });
+
+  it('should fail when the pending login expired', async () => {
+    mockRpc({ get_mfa_challenge: [] });
+
+    await expect(getMfaLogin(requestWithCookie('token-1'))).rejects.toBeInstanceOf(MfaError);
+  });
+
+  it('should drop the pending login after too many attempts', async () => {
+    const rpc = mockRpc({
+      get_mfa_challenge: [
+        { user_id: user.id, webauthn_challenge: null, attempts: MFA_MAX_ATTEMPTS },
+      ],
+    });
+
+    await expect(getMfaLogin(requestWithCookie('token-1'))).rejects.toMatchObject({
+      code: 'too_many_attempts',
+    });
+    expect(rpc).toHaveBeenCalledWith('delete_mfa_challenge', { p_token: 'token-1' });
+  });
+
+  it('should load the user and factors of the pending login', async () => {
+    mockRpc({
+      get_mfa_challenge: [{ user_id: user.id, webauthn_challenge: 'challenge', attempts: 1 }],
+      get_user_by_id: [
+        { id: user.id, email: 'ana@acme.com', name: 'Ana', role: 'editor', account_id: ACCOUNT_ID },
+      ],
+      get_mfa_factors: [factor('totp')],
+    });
+
+    const login = await getMfaLogin(requestWithCookie('token-1'));
+
+    expect(login).toMatchObject({
+      token: 'token-1',
+      webauthnChallenge: 'challenge',
+      user: { id: user.id, email: 'ana@acme.com', account_id: ACCOUNT_ID, role: 'editor' },
+    });
+    expect(login.factors).toHaveLength(1);
+  });
+});
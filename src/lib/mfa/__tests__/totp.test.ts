@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  getTotpCode,
+  getTotpStep,
+  getTotpUri,
+  verifyTotpCode,
+} from '../totp';
+
+// RFC 6238 appendix B (SHA1 secret), truncated to 6 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('should encode RFC 4648 test vectors', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Encode(Buffer.from('f'))).toBe('MY');
+  });
+
+  it('should round-trip and ignore case, padding and spaces', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    const encoded = base32Encode(bytes);
+
+    expect(base32Decode(encoded)).toEqual(bytes);
+    expect(base32Decode('mzxw 6ytb oi======')).toEqual(Buffer.from('foobar'));
+  });
+
+  it('should reject invalid characters', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('getTotpCode', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    expect(getTotpCode(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+    expect(getTotpCode(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(getTotpCode(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924');
+    expect(getTotpCode(RFC_SECRET, getTotpStep(2000000000 * 1000))).toBe('279037');
+  });
+});
+
+describe('verifyTotpCode', () => {
+  const now = 1234567890 * 1000;
+  const step = getTotpStep(now);
+
+  it('should return the step of a valid code', () => {
+    expect(verifyTotpCode(RFC_SECRET, '005924', now)).toBe(step);
+    expect(verifyTotpCode(RFC_SECRET, '005 924', now)).toBe(step);
+  });
+
+  it('should accept one step of clock drift either way', () => {
+    expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+  });
+
+  it('should reject codes outside the window and malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '12345', now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('should generate 160-bit base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('getTotpUri', () => {
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = new URL(getTotpUri('JBSWY3DPEHPK3PXP', 'ana@acme.com'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/BOLT:ana@acme.com');
+    expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(uri.searchParams.get('issuer')).toBe('BOLT');
+    expect(uri.searchParams.get('digits')).toBe('6');
+    expect(uri.searchParams.get('period')).toBe('30');
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * MFA Factors
+ *
+ * Second factors of dashboard users (migration 096): TOTP authenticator apps
+ * and WebAuthn credentials (src/lib/mfa/webauthn.ts), plus one-time recovery
+ * codes for users who lose their device. A TOTP factor stays pending until
+ * its first code is confirmed.
+ *
+ * TOTP secrets are envelope encrypted (src/lib/secrets/envelope.ts) and only
+ * shown once, while enrolling.
+ */
+
+import { createHash, randomInt } from 'crypto';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { decryptSecret, encryptSecret, secretContext } from '@/lib/secrets/envelope';
+import { generateTotpSecret, getTotpUri, verifyTotpCode } from './totp';
+
+export const MFA_FACTOR_TYPES = ['totp', 'webauthn'] as const;
+export type MfaFactorType = (typeof MFA_FACTOR_TYPES)[number];
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export type MfaErrorCode =
+  | 'invalid_code'
+  | 'expired'
+  | 'too_many_attempts'
+  | 'not_enrolled'
+  | 'required';
+
+export class MfaError extends Error {
+  constructor(
+    message: string,
+    public code: MfaErrorCode
+  ) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+export interface MfaFactor {
+  id: string;
+  user_id: string;
+  type: MfaFactorType;
+  name: string;
+  totp_secret_encrypted: string | null;
+  totp_last_step: number | null;
+  webauthn_credential_id: string | null;
+  webauthn_public_key: string | null;
+  webauthn_counter: number;
+  webauthn_transports: string[];
+  verified_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+/** Factor as listed in the profile (without secrets or keys) */
+export interface MfaFactorSummary {
+  id: string;
+  type: MfaFactorType;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+/** User a factor belongs to (TOTP secrets are bound to the account) */
+export interface MfaUser {
+  id: string;
+  email: string;
+  account_id: string;
+}
+
+/**
+ * MFA user of an authenticated dashboard user (null without an account)
+ */
+export function toMfaUser(user: {
+  id: string;
+  email: string;
+  account_id?: string | null;
+}): MfaUser | null {
+  return user.account_id ? { id: user.id, email: user.email, account_id: user.account_id } : null;
+}
+
+export const MfaCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const FactorNameSchema = z.string().trim().min(1).max(60);
+
+export const ConfirmTotpSchema = z.object({
+  factorId: z.uuid(),
+  code: MfaCodeSchema,
+});
+
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function totpSecretContext(accountId: string): string {
+  return secretContext('mfa_factors', 'totp_secret', accountId);
+}
+
+/**
+ * Second factors of a user, including a pending TOTP enrollment
+ */
+export async function getMfaFactors(
+  userId: string
+): Promise<{ factors: MfaFactor[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_mfa_factors', {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    return { factors: [], error };
+  }
+
+  return {
+    factors: ((data || []) as MfaFactor[]).map((factor) => ({
+      ...factor,
+      totp_last_step: factor.totp_last_step === null ? null : Number(factor.totp_last_step),
+      webauthn_counter: Number(factor.webauthn_counter || 0),
+      webauthn_transports: factor.webauthn_transports || [],
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Factors that can be used to sign in (enrollment confirmed)
+ */
+export function getVerifiedFactors(factors: MfaFactor[]): MfaFactor[] {
+  return factors.filter((factor) => !!factor.verified_at);
+}
+
+export function toMfaFactorSummary(factor: MfaFactor): MfaFactorSummary {
+  return {
+    id: factor.id,
+    type: factor.type,
+    name: factor.name,
+    created_at: factor.created_at,
+    last_used_at: factor.last_used_at,
+  };
+}
+
+/**
+ * Start a TOTP enrollment: a pending factor with a new secret, confirmed by
+ * the first code of the authenticator app (redeemTotpCode)
+ */
+export async function startTotpEnrollment(
+  user: MfaUser,
+  name = 'Authenticator app'
+): Promise<{ factorId: string | null; secret: string; otpauthUrl: string; error: Error | null }> {
+  const secret = generateTotpSecret();
+  const otpauthUrl = getTotpUri(secret, user.email);
+
+  const { data, error } = await getSupabaseAdmin().rpc('create_mfa_factor', {
+    p_user_id: user.id,
+    p_type: 'totp',
+    p_name: name,
+    p_totp_secret_encrypted: encryptSecret(secret, {
+      context: totpSecretContext(user.account_id),
+    }).ciphertext,
+    p_webauthn_credential_id: null,
+    p_webauthn_public_key: null,
+    p_webauthn_counter: null,
+    p_webauthn_transports: null,
+    p_verified: false,
+  });
+
+  if (error) {
+    return { factorId: null, secret, otpauthUrl, error };
+  }
+
+  return { factorId: data as string, secret, otpauthUrl, error: null };
+}
+
+/**
+ * Check a code against a TOTP factor and record it; each code is accepted
+ * once. Confirms the factor when its enrollment is pending.
+ */
+export async function redeemTotpCode(
+  user: MfaUser,
+  factor: MfaFactor,
+  code: string
+): Promise<boolean> {
+  if (factor.type !== 'totp' || !factor.totp_secret_encrypted) {
+    return false;
+  }
+
+  const secret = decryptSecret(factor.totp_secret_encrypted, {
+    context: totpSecretContext(user.account_id),
+  });
+  const step = verifyTotpCode(secret, code);
+
+  if (step === null || (factor.totp_last_step !== null && step <= factor.totp_last_step)) {
+    return false;
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('use_totp_factor', {
+    p_factor_id: factor.id,
+    p_user_id: user.id,
+    p_step: step,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data;
+}
+
+/**
+ * Remove a second factor of a user
+ */
+export async function deleteMfaFactor(
+  userId: string,
+  factorId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_mfa_factor', {
+    p_factor_id: factorId,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    return { deleted: false, error };
+  }
+
+  return { deleted: !!data, error: null };
+}
+
+/**
+ * New random recovery codes, e.g. 7KQ2M-XW9PD
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(
+      { length: 10 },
+      () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+    );
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+}
+
+/**
+ * Stored form of a recovery code (case and separators ignored)
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Replace the recovery codes of a user; the codes are only returned here
+ */
+export async function replaceRecoveryCodes(
+  userId: string
+): Promise<{ codes: string[]; error: Error | null }> {
+  const codes = generateRecoveryCodes();
+
+  const { error } = await getSupabaseAdmin().rpc('replace_mfa_recovery_codes', {
+    p_user_id: userId,
+    p_code_hashes: codes.map(hashRecoveryCode),
+  });
+
+  if (error) {
+    return { codes: [], error };
+  }
+
+  return { codes, error: null };
+}
+
+/**
+ * Use up a recovery code; false when unknown or already used
+ */
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin().rpc('consume_mfa_recovery_code', {
+    p_user_id: userId,
+    p_code_hash: hashRecoveryCode(code),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data;
+}
+
+/**
+ * Number of unused recovery codes of a user
+ */
+export async function getRecoveryCodeCount(
+  userId: string
+): Promise<{ count: number; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_mfa_recovery_code_count', {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    return { count: 0, error };
+  }
+
+  return { count: Number(data || 0), error: null };
+}
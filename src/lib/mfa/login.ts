@@ -0,0 +1,239 @@
+/**
+ * MFA Login
+ *
+ * Second step of email code logins (migration 096). When the user has a
+ * second factor, or their role requires one, verify-code does not start a
+ * session: it stores a pending login in dashboard.mfa_challenges and sets
+ * the httpOnly dashboard_mfa cookie. The /api/dashboard/auth/mfa routes
+ * check the factor (or enroll an authenticator app when the policy requires
+ * one) and only then start the session.
+ *
+ * SSO logins skip this step: the identity provider is responsible for the
+ * second factor.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { generateSessionToken } from '@/utils/auth/code-generator';
+import { startDashboardSession } from '@/utils/auth/session';
+import {
+  MfaError,
+  getMfaFactors,
+  getVerifiedFactors,
+  type MfaErrorCode,
+  type MfaFactor,
+  type MfaFactorType,
+  type MfaUser,
+} from './factors';
+import { isMfaRequiredForUser } from './policy';
+
+export const MFA_CHALLENGE_COOKIE = 'dashboard_mfa';
+
+/** How long a user has to complete the second factor after the email code */
+export const MFA_CHALLENGE_TTL_MINUTES = 10;
+
+/** Wrong codes before the pending login is dropped */
+export const MFA_MAX_ATTEMPTS = 5;
+
+/** HTTP status of MFA errors */
+export const MFA_ERROR_STATUS: Record<MfaErrorCode, number> = {
+  invalid_code: 401,
+  expired: 401,
+  too_many_attempts: 429,
+  not_enrolled: 400,
+  required: 403,
+};
+
+export interface MfaLoginUser extends MfaUser {
+  name: string | null;
+  role: string;
+}
+
+/** Second factor step of a login, as returned by verify-code */
+export interface MfaLoginRequirement {
+  /** Factor types the user can sign in with */
+  methods: MfaFactorType[];
+  /** The user has no factor but their role requires one */
+  enrollmentRequired: boolean;
+}
+
+export interface MfaLogin {
+  token: string;
+  /** Challenge of the pending WebAuthn assertion */
+  webauthnChallenge: string | null;
+  user: MfaLoginUser;
+  factors: MfaFactor[];
+}
+
+/**
+ * Second factor step required for a user whose email code was verified;
+ * null when the login can complete right away
+ */
+export async function getMfaLoginRequirement(user: {
+  id: string;
+  role: string;
+  account_id?: string | null;
+}): Promise<MfaLoginRequirement | null> {
+  const { factors, error } = await getMfaFactors(user.id);
+  if (error) {
+    throw error;
+  }
+
+  const verified = getVerifiedFactors(factors);
+  if (verified.length > 0) {
+    return {
+      methods: Array.from(new Set(verified.map((factor) => factor.type))),
+      enrollmentRequired: false,
+    };
+  }
+
+  if (await isMfaRequiredForUser(user)) {
+    return { methods: [], enrollmentRequired: true };
+  }
+
+  return null;
+}
+
+/**
+ * Store the pending login and set its cookie on the response
+ */
+export async function startMfaLogin(
+  userId: string,
+  response: NextResponse
+): Promise<{ error: Error | null }> {
+  const token = generateSessionToken();
+
+  const { error } = await getSupabaseAdmin().rpc('create_mfa_challenge', {
+    p_token: token,
+    p_user_id: userId,
+    p_purpose: 'login',
+    p_webauthn_challenge: null,
+    p_expires_at: new Date(Date.now() + MFA_CHALLENGE_TTL_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  if (error) {
+    return { error };
+  }
+
+  response.cookies.set(MFA_CHALLENGE_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: MFA_CHALLENGE_TTL_MINUTES * 60,
+    path: '/api/dashboard/auth/mfa',
+  });
+
+  return { error: null };
+}
+
+/**
+ * Pending login of the request's dashboard_mfa cookie, with the user's factors
+ */
+export async function getMfaLogin(request: NextRequest): Promise<MfaLogin> {
+  const token = request.cookies.get(MFA_CHALLENGE_COOKIE)?.value;
+  if (!token) {
+    throw new MfaError('Your login expired. Please sign in again.', 'expired');
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin.rpc('get_mfa_challenge', {
+    p_token: token,
+    p_purpose: 'login',
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const challenge = (
+    (data || []) as {
+      user_id: string;
+      webauthn_challenge: string | null;
+      attempts: number;
+    }[]
+  )[0];
+
+  if (!challenge) {
+    throw new MfaError('Your login expired. Please sign in again.', 'expired');
+  }
+
+  if (challenge.attempts >= MFA_MAX_ATTEMPTS) {
+    await supabaseAdmin.rpc('delete_mfa_challenge', { p_token: token });
+    throw new MfaError('Too many attempts. Please sign in again.', 'too_many_attempts');
+  }
+
+  const { data: users, error: userError } = await supabaseAdmin.rpc('get_user_by_id', {
+    p_user_id: challenge.user_id,
+  });
+
+  const user = users && users.length > 0 ? users[0] : null;
+  if (userError || !user?.account_id) {
+    throw userError || new MfaError('Your login expired. Please sign in again.', 'expired');
+  }
+
+  const { factors, error: factorsError } = await getMfaFactors(user.id);
+  if (factorsError) {
+    throw factorsError;
+  }
+
+  return {
+    token,
+    webauthnChallenge: challenge.webauthn_challenge,
+    user: {
+      id: user.id,
+      email: user.email,
+      account_id: user.account_id,
+      name: user.name ?? null,
+      role: user.role,
+    },
+    factors,
+  };
+}
+
+/**
+ * Count a wrong code; the pending login is dropped after MFA_MAX_ATTEMPTS
+ */
+export async function recordFailedMfaAttempt(login: MfaLogin): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: attempts } = await supabaseAdmin.rpc('increment_mfa_challenge_attempts', {
+    p_token: login.token,
+  });
+
+  if (Number(attempts || 0) >= MFA_MAX_ATTEMPTS) {
+    await supabaseAdmin.rpc('delete_mfa_challenge', { p_token: login.token });
+  }
+}
+
+/**
+ * Finish a login whose second factor was verified: drop the pending login and
+ * start the session
+ */
+export async function completeMfaLogin(
+  request: NextRequest,
+  login: MfaLogin,
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  await getSupabaseAdmin().rpc('delete_mfa_challenge', { p_token: login.token });
+
+  const response = NextResponse.json({
+    success: true,
+    user: {
+      id: login.user.id,
+      email: login.user.email,
+      name: login.user.name,
+      role: login.user.role,
+    },
+    ...extra,
+  });
+
+  const { error } = await startDashboardSession(request, login.user, response);
+  if (error) {
+    console.error('❌ [DEBUG] Session creation error:', error);
+    return NextResponse.json({ error: 'Failed to create session' }, { status: 500 });
+  }
+
+  response.cookies.delete({ name: MFA_CHALLENGE_COOKIE, path: '/api/dashboard/auth/mfa' });
+
+  console.info(`✅ [DEBUG] MFA login completed for user ${login.user.email}`);
+  return response;
+}
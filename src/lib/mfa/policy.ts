@@ -0,0 +1,90 @@
+/**
+ * MFA Policy
+ *
+ * Roles of an account whose users must use a second factor (migration 096),
+ * set by account owners. Users of a required role without a factor enroll an
+ * authenticator app during their next email code login.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { ROLE_HIERARCHY, type Role } from '@/utils/rbac/permissions';
+
+export interface MfaPolicy {
+  requiredRoles: Role[];
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export const MfaPolicySchema = z.object({
+  requiredRoles: z
+    .array(z.enum(ROLE_HIERARCHY as [Role, ...Role[]]))
+    .max(ROLE_HIERARCHY.length)
+    .transform((roles) => ROLE_HIERARCHY.filter((role) => roles.includes(role))),
+});
+
+export type MfaPolicyInput = z.infer<typeof MfaPolicySchema>;
+
+/**
+ * MFA policy of an account (no roles required when never set)
+ */
+export async function getMfaPolicy(
+  accountId: string
+): Promise<{ policy: MfaPolicy; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_mfa_policy', {
+    p_account_id: accountId,
+  });
+
+  const row = (
+    (data || []) as {
+      required_roles: Role[] | null;
+      updated_by: string | null;
+      updated_at: string | null;
+    }[]
+  )[0];
+
+  return {
+    policy: {
+      requiredRoles: row?.required_roles || [],
+      updatedBy: row?.updated_by ?? null,
+      updatedAt: row?.updated_at ?? null,
+    },
+    error,
+  };
+}
+
+/**
+ * Set the roles of an account whose users must use a second factor
+ */
+export async function saveMfaPolicy(
+  accountId: string,
+  input: MfaPolicyInput,
+  updatedBy: string
+): Promise<{ error: Error | null }> {
+  const { error } = await getSupabaseAdmin().rpc('upsert_mfa_policy', {
+    p_account_id: accountId,
+    p_required_roles: input.requiredRoles,
+    p_updated_by: updatedBy,
+  });
+
+  return { error };
+}
+
+/**
+ * Whether a user must use a second factor under their account's policy
+ */
+export async function isMfaRequiredForUser(user: {
+  role: string;
+  account_id?: string | null;
+}): Promise<boolean> {
+  if (!user.account_id) {
+    return false;
+  }
+
+  const { policy, error } = await getMfaPolicy(user.account_id);
+  if (error) {
+    throw error;
+  }
+
+  return policy.requiredRoles.includes(user.role as Role);
+}
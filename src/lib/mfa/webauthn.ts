@@ -0,0 +1,255 @@
+/**
+ * WebAuthn
+ *
+ * Security keys and passkeys as second factors (migration 096). The relying
+ * party is the dashboard host (NEXT_PUBLIC_BASE_URL or the request origin).
+ * Registration challenges are stored in dashboard.mfa_challenges under a
+ * random token the browser sends back; login challenges are stored on the
+ * pending MFA login (src/lib/mfa/login.ts).
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { generateSessionToken } from '@/utils/auth/code-generator';
+import { FactorNameSchema, MfaError, type MfaFactor, type MfaUser } from './factors';
+
+const RP_NAME = 'BOLT Dashboard';
+const REGISTRATION_TTL_MINUTES = 5;
+
+/** Credential JSON from @simplewebauthn/browser (verified by the server library) */
+const CredentialResponseSchema = z.looseObject({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal('public-key'),
+  response: z.record(z.string(), z.unknown()),
+});
+
+export const WebAuthnRegistrationSchema = z.object({
+  challengeToken: z.string().min(1),
+  name: FactorNameSchema,
+  response: CredentialResponseSchema,
+});
+
+export const WebAuthnAuthenticationSchema = CredentialResponseSchema;
+
+export interface RelyingParty {
+  rpID: string;
+  rpName: string;
+  origin: string;
+}
+
+/**
+ * Relying party of the dashboard
+ */
+export function getRelyingParty(request: NextRequest): RelyingParty {
+  const origin = new URL(process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin).origin;
+  return { rpID: new URL(origin).hostname, rpName: RP_NAME, origin };
+}
+
+function getWebAuthnFactors(factors: MfaFactor[]): MfaFactor[] {
+  return factors.filter(
+    (factor) =>
+      factor.type === 'webauthn' && !!factor.verified_at && !!factor.webauthn_credential_id
+  );
+}
+
+function toCredentialDescriptor(factor: MfaFactor) {
+  return {
+    id: factor.webauthn_credential_id as string,
+    transports: factor.webauthn_transports as AuthenticatorTransportFuture[],
+  };
+}
+
+/**
+ * Options to register a new credential; the user's credentials are excluded
+ */
+export async function createRegistrationOptions(
+  request: NextRequest,
+  user: MfaUser,
+  factors: MfaFactor[]
+): Promise<{
+  options: PublicKeyCredentialCreationOptionsJSON;
+  challengeToken: string;
+  error: Error | null;
+}> {
+  const { rpID, rpName } = getRelyingParty(request);
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: user.email,
+    userID: new TextEncoder().encode(user.id),
+    attestationType: 'none',
+    excludeCredentials: getWebAuthnFactors(factors).map(toCredentialDescriptor),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: 'preferred',
+    },
+  });
+
+  const challengeToken = generateSessionToken();
+  const { error } = await getSupabaseAdmin().rpc('create_mfa_challenge', {
+    p_token: challengeToken,
+    p_user_id: user.id,
+    p_purpose: 'webauthn_registration',
+    p_webauthn_challenge: options.challenge,
+    p_expires_at: new Date(Date.now() + REGISTRATION_TTL_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  return { options, challengeToken, error };
+}
+
+/**
+ * Verify a new credential against its registration challenge and store it
+ * as a factor of the user
+ */
+export async function registerCredential(
+  request: NextRequest,
+  user: MfaUser,
+  registration: z.infer<typeof WebAuthnRegistrationSchema>
+): Promise<{ factorId: string | null; error: Error | null }> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error: challengeError } = await supabaseAdmin.rpc('get_mfa_challenge', {
+    p_token: registration.challengeToken,
+    p_purpose: 'webauthn_registration',
+  });
+
+  if (challengeError) {
+    return { factorId: null, error: challengeError };
+  }
+
+  const challenge = ((data || []) as { user_id: string; webauthn_challenge: string | null }[])[0];
+  // Single use
+  await supabaseAdmin.rpc('delete_mfa_challenge', { p_token: registration.challengeToken });
+
+  if (!challenge?.webauthn_challenge || challenge.user_id !== user.id) {
+    throw new MfaError('Registration expired. Please try again.', 'expired');
+  }
+
+  const { rpID, origin } = getRelyingParty(request);
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: registration.response as unknown as RegistrationResponseJSON,
+      expectedChallenge: challenge.webauthn_challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    throw new MfaError(
+      `Security key registration failed: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_code'
+    );
+  }
+
+  if (!verification.verified) {
+    throw new MfaError('Security key registration failed', 'invalid_code');
+  }
+
+  const { credential } = verification.registrationInfo;
+  const { data: factorId, error } = await supabaseAdmin.rpc('create_mfa_factor', {
+    p_user_id: user.id,
+    p_type: 'webauthn',
+    p_name: registration.name,
+    p_totp_secret_encrypted: null,
+    p_webauthn_credential_id: credential.id,
+    p_webauthn_public_key: Buffer.from(credential.publicKey).toString('base64url'),
+    p_webauthn_counter: credential.counter,
+    p_webauthn_transports: credential.transports || [],
+    p_verified: true,
+  });
+
+  if (error) {
+    return { factorId: null, error };
+  }
+
+  return { factorId: factorId as string, error: null };
+}
+
+/**
+ * Options to sign in with one of the user's credentials
+ */
+export async function createAuthenticationOptions(
+  request: NextRequest,
+  factors: MfaFactor[]
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  const credentials = getWebAuthnFactors(factors);
+  if (credentials.length === 0) {
+    throw new MfaError('No security key is registered', 'not_enrolled');
+  }
+
+  return generateAuthenticationOptions({
+    rpID: getRelyingParty(request).rpID,
+    allowCredentials: credentials.map(toCredentialDescriptor),
+    userVerification: 'preferred',
+  });
+}
+
+/**
+ * Verify an assertion of one of the user's credentials and record the new
+ * signature counter; false when it does not verify
+ */
+export async function verifyCredential(
+  request: NextRequest,
+  user: MfaUser,
+  factors: MfaFactor[],
+  expectedChallenge: string,
+  response: z.infer<typeof WebAuthnAuthenticationSchema>
+): Promise<boolean> {
+  const factor = getWebAuthnFactors(factors).find(
+    (candidate) => candidate.webauthn_credential_id === response.id
+  );
+  if (!factor?.webauthn_public_key) {
+    return false;
+  }
+
+  const { rpID, origin } = getRelyingParty(request);
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: response as unknown as AuthenticationResponseJSON,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      credential: {
+        id: factor.webauthn_credential_id as string,
+        publicKey: new Uint8Array(Buffer.from(factor.webauthn_public_key, 'base64url')),
+        counter: factor.webauthn_counter,
+        transports: factor.webauthn_transports as AuthenticatorTransportFuture[],
+      },
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    console.warn('⚠️ [WARN] WebAuthn assertion rejected:', error);
+    return false;
+  }
+
+  if (!verification.verified) {
+    return false;
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('use_webauthn_factor', {
+    p_factor_id: factor.id,
+    p_user_id: user.id,
+    p_counter: verification.authenticationInfo.newCounter,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data;
+}
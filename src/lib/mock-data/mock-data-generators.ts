@@ -31,6 +31,7 @@ import type {
   MockPersonalizationMetrics,
   MockOptimization,
   MockInsight,
+  MockSecurityData,
 } from './types';
 
 import {
@@ -1171,6 +1172,62 @@ export function generateMockInsights(params: MockDataParams): MockInsight[] {
   }));
 }
 
+/**
+ * Generate mock BoltGuard security data
+ */
+export function generateMockSecurityData(params: MockDataParams): MockSecurityData {
+  const { accountId, period, startDate, endDate } = params;
+  const { start, end } = getMockDateRange(period, startDate, endDate);
+
+  const dailyTransactions = generateTimeSeriesData(`${accountId}-security`, start, end, 180, 0.25, 0);
+  const trendData = dailyTransactions.map((day, index) => {
+    const transactions = Math.round(day.value);
+    return {
+      date: new Date(day.date).toISOString(),
+      transactions,
+      highRisk: Math.round(transactions * generateRandomInRange(`${accountId}-security-high`, 0.02, 0.05, index)),
+      blocked: Math.round(transactions * generateRandomInRange(`${accountId}-security-blocked`, 0.005, 0.015, index)),
+    };
+  });
+
+  const totalTransactions = trendData.reduce((sum, day) => sum + day.transactions, 0);
+  const highRiskTransactions = trendData.reduce((sum, day) => sum + day.highRisk, 0);
+  const critical = Math.round(highRiskTransactions * 0.25);
+  const medium = Math.round(totalTransactions * generateRandomInRange(accountId, 0.15, 0.22, 1));
+
+  const alerts = [
+    { type: 'High Risk Transaction', severity: 'high' as const, description: 'Transaction with risk score 75 detected' },
+    { type: 'Velocity Violation', severity: 'critical' as const, description: '10 transactions detected in last 5 minutes' },
+    { type: 'Anomaly Detected', severity: 'medium' as const, description: 'Statistical anomaly in amount' },
+    { type: 'Blocked Transaction', severity: 'high' as const, description: 'Transaction with risk score 82 was blocked' },
+  ];
+
+  return {
+    metrics: {
+      totalTransactions,
+      highRiskTransactions,
+      blockedTransactions: trendData.reduce((sum, day) => sum + day.blocked, 0),
+      fraudDetected: Math.round(highRiskTransactions * generateRandomInRange(accountId, 0.1, 0.2, 2)),
+      avgRiskScore: Math.round(generateRandomInRange(accountId, 25, 40, 3) * 10) / 10,
+      validationErrors: Math.round(totalTransactions * generateRandomInRange(accountId, 0.01, 0.03, 4)),
+      scaRequired: Math.round(totalTransactions * generateRandomInRange(accountId, 0.1, 0.15, 5)),
+      anomaliesDetected: Math.round(totalTransactions * generateRandomInRange(accountId, 0.03, 0.06, 6)),
+    },
+    riskDistribution: {
+      low: totalTransactions - medium - highRiskTransactions,
+      medium,
+      high: highRiskTransactions - critical,
+      critical,
+    },
+    recentAlerts: alerts.map((alert, index) => ({
+      id: generateConsistentId(accountId, index, 'alert-'),
+      ...alert,
+      timestamp: new Date(end.getTime() - generateIntInRange(accountId, 5, 60, index) * (index + 1) * 60 * 1000).toISOString(),
+    })),
+    trendData,
+  };
+}
+
 /**
  * Generate mock analytics events data
  * Creates realistic checkout flow events with proper distribution
@@ -33,6 +33,7 @@ import {
   generateMockOptimizations,
   generateMockInsights,
   generateMockAnalyticsEvents,
+  generateMockSecurityData,
 } from './mock-data-generators';
 import { generateRandomInRange, generateIntInRange, getMockDateRange } from './mock-data-helpers';
 
@@ -904,6 +905,9 @@ export function getMockDataForEndpoint(
         optimizations: generateMockOptimizations(params),
       };
 
+    case 'security':
+      return generateMockSecurityData(params);
+
     case 'analytics-events':
       {
         const page = Math.max(1, parseInt(queryParams?.page || '1', 10));
@@ -232,6 +232,28 @@ export interface MockInsight {
   impact: number;
 }
 
+export interface MockSecurityData {
+  metrics: {
+    totalTransactions: number;
+    highRiskTransactions: number;
+    blockedTransactions: number;
+    fraudDetected: number;
+    avgRiskScore: number;
+    validationErrors: number;
+    scaRequired: number;
+    anomaliesDetected: number;
+  };
+  riskDistribution: { low: number; medium: number; high: number; critical: number };
+  recentAlerts: Array<{
+    id: string;
+    type: string;
+    severity: 'low' | 'medium' | 'high' | 'critical';
+    description: string;
+    timestamp: string;
+  }>;
+  trendData: Array<{ date: string; transactions: number; highRisk: number; blocked: number }>;
+}
+
 export interface MockTimeSeriesPoint {
   date: string;
   value: number;
@@ -83,11 +83,15 @@ describe('Currency Service', () => {
     it('should return true for supported currencies', () => {
       expect(isCurrencySupported('USD')).toBe(true);
       expect(isCurrencySupported('BRL')).toBe(true);
+      expect(isCurrencySupported('EUR')).toBe(true);
+      expect(isCurrencySupported('MXN')).toBe(true);
+      expect(isCurrencySupported('ARS')).toBe(true);
+      expect(isCurrencySupported('COP')).toBe(true);
     });
 
     it('should return false for unsupported currencies', () => {
-      expect(isCurrencySupported('EUR')).toBe(false);
       expect(isCurrencySupported('GBP')).toBe(false);
+      expect(isCurrencySupported('JPY')).toBe(false);
     });
   });
 
@@ -0,0 +1,276 @@
+/**
+ * Exchange Rates Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'path';
+import {
+  FixtureExchangeRateProvider,
+  HttpExchangeRateProvider,
+  ExchangeRateProviderError,
+  ExchangeRateProvider,
+  loadExchangeRates,
+  clearExchangeRateCache,
+} from '../exchange-rates';
+import { getCurrencyConversion, getExchangeRates } from '../currency-service';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'exchange-rates.json');
+const FIXTURE_FETCHED_AT = '2026-10-01T12:00:00.000Z';
+
+/**
+ * Supabase stub backed by an in-memory exchange_rates table
+ */
+function mockRateStore(rows: any[] = [], options: { failReads?: boolean } = {}) {
+  const rpc = vi.fn(async (fn: string, params: any) => {
+    if (fn === 'get_latest_exchange_rates') {
+      if (options.failReads) return { data: null, error: { message: 'boom' } };
+      const base = rows.filter((row) => row.base_currency === params.p_base_currency);
+      const latest = base.reduce((max, row) => (row.fetched_at > max ? row.fetched_at : max), '');
+      return { data: base.filter((row) => row.fetched_at === latest), error: null };
+    }
+    if (fn === 'save_exchange_rates') {
+      for (const [currency, rate] of Object.entries(params.p_rates)) {
+        rows.push({
+          base_currency: params.p_base_currency,
+          currency,
+          rate: String(rate),
+          provider: params.p_provider,
+          fetched_at: params.p_fetched_at,
+        });
+      }
+      return { data: Object.keys(params.p_rates).length, error: null };
+    }
+    return { data: null, error: { message: `unexpected rpc ${fn}` } };
+  });
+  return { rows, rpc };
+}
+
+async function useRateStore(store: ReturnType<typeof mockRateStore>) {
+  const { getSupabaseAdmin } = await import('@/lib/supabase');
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc: store.rpc } as any);
+}
+
+function failingProvider(): ExchangeRateProvider {
+  return {
+    name: 'failing',
+    fetchRates: vi.fn(async () => {
+      throw new ExchangeRateProviderError('unavailable', 'failing');
+    }),
+  };
+}
+
+describe('Exchange Rates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearExchangeRateCache();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('FixtureExchangeRateProvider', () => {
+    it('should load rates from a JSON file', async () => {
+      const snapshot = await new FixtureExchangeRateProvider(FIXTURE_PATH).fetchRates('USD');
+
+      expect(snapshot.base).toBe('USD');
+      expect(snapshot.provider).toBe('fixture');
+      expect(snapshot.fetchedAt).toBe(FIXTURE_FETCHED_AT);
+      expect(snapshot.rates.BRL).toBe(5.6123);
+    });
+
+    it('should reject a fixture with a different base currency', async () => {
+      const provider = new FixtureExchangeRateProvider({ base: 'EUR', rates: { USD: 1.08 } });
+
+      await expect(provider.fetchRates('USD')).rejects.toThrow(ExchangeRateProviderError);
+    });
+
+    it('should fail with a provider error when the file is missing', async () => {
+      const provider = new FixtureExchangeRateProvider('/does/not/exist.json');
+
+      await expect(provider.fetchRates('USD')).rejects.toThrow(ExchangeRateProviderError);
+    });
+  });
+
+  describe('HttpExchangeRateProvider', () => {
+    it('should fetch rates for the base currency', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            result: 'success',
+            base_code: 'USD',
+            rates: { USD: 1, BRL: 5.61, EUR: 0.92, XYZ: 'n/a' },
+          })
+        )
+      );
+
+      const provider = new HttpExchangeRateProvider('https://rates.example.com/latest/{base}');
+      const snapshot = await provider.fetchRates('USD');
+
+      expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://rates.example.com/latest/USD');
+      expect(snapshot.provider).toBe('http');
+      expect(snapshot.rates).toEqual({ USD: 1, BRL: 5.61, EUR: 0.92 });
+    });
+
+    it('should throw a provider error when the API reports an error', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ result: 'error', 'error-type': 'unsupported-code' }))
+      );
+
+      const provider = new HttpExchangeRateProvider('https://rates.example.com/latest/{base}');
+
+      await expect(provider.fetchRates('USD')).rejects.toThrow('unsupported-code');
+    });
+  });
+
+  describe('loadExchangeRates', () => {
+    it('should fetch from the provider and store the rates when nothing is cached', async () => {
+      const store = mockRateStore();
+      await useRateStore(store);
+
+      const snapshot = await loadExchangeRates('USD', {
+        provider: new FixtureExchangeRateProvider(FIXTURE_PATH),
+        currencies: ['BRL', 'EUR', 'MXN', 'ARS', 'COP'],
+        now: new Date('2026-10-01T12:30:00.000Z'),
+      });
+
+      expect(snapshot?.rates.BRL).toBe(5.6123);
+      expect(snapshot?.rates.JPY).toBeUndefined();
+      expect(store.rpc).toHaveBeenCalledWith(
+        'save_exchange_rates',
+        expect.objectContaining({ p_base_currency: 'USD', p_fetched_at: FIXTURE_FETCHED_AT })
+      );
+      expect(store.rows).toHaveLength(6);
+    });
+
+    it('should reuse stored rates within the TTL without calling the provider', async () => {
+      const store = mockRateStore([
+        {
+          base_currency: 'USD',
+          currency: 'BRL',
+          rate: '5.5',
+          provider: 'http',
+          fetched_at: '2026-10-01T12:00:00+00:00',
+        },
+      ]);
+      await useRateStore(store);
+      const provider = failingProvider();
+
+      const snapshot = await loadExchangeRates('USD', {
+        provider,
+        ttlMinutes: 60,
+        now: new Date('2026-10-01T12:30:00.000Z'),
+      });
+
+      expect(snapshot?.rates.BRL).toBe(5.5);
+      expect(snapshot?.fetchedAt).toBe(FIXTURE_FETCHED_AT);
+      expect(provider.fetchRates).not.toHaveBeenCalled();
+    });
+
+    it('should refresh expired rates from the provider', async () => {
+      const store = mockRateStore([
+        {
+          base_currency: 'USD',
+          currency: 'BRL',
+          rate: '5.0',
+          provider: 'http',
+          fetched_at: '2026-09-30T00:00:00+00:00',
+        },
+      ]);
+      await useRateStore(store);
+
+      const snapshot = await loadExchangeRates('USD', {
+        provider: new FixtureExchangeRateProvider({
+          base: 'USD',
+          rates: { USD: 1, BRL: 5.6 },
+          fetchedAt: '2026-10-01T12:00:00.000Z',
+        }),
+        ttlMinutes: 60,
+        now: new Date('2026-10-01T12:30:00.000Z'),
+      });
+
+      expect(snapshot?.rates.BRL).toBe(5.6);
+      expect(store.rpc).toHaveBeenCalledWith('save_exchange_rates', expect.anything());
+    });
+
+    it('should fall back to stale stored rates when the provider fails', async () => {
+      const store = mockRateStore([
+        {
+          base_currency: 'USD',
+          currency: 'BRL',
+          rate: '5.2',
+          provider: 'http',
+          fetched_at: '2026-09-30T00:00:00+00:00',
+        },
+      ]);
+      await useRateStore(store);
+
+      const snapshot = await loadExchangeRates('USD', {
+        provider: failingProvider(),
+        ttlMinutes: 60,
+        now: new Date('2026-10-01T12:30:00.000Z'),
+      });
+
+      expect(snapshot?.rates.BRL).toBe(5.2);
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('should return null when neither the provider nor the store have rates', async () => {
+      await useRateStore(mockRateStore([], { failReads: true }));
+
+      const snapshot = await loadExchangeRates('USD', { provider: failingProvider() });
+
+      expect(snapshot).toBeNull();
+    });
+  });
+
+  describe('getCurrencyConversion', () => {
+    it('should convert with the current rates and record the rate used', async () => {
+      await useRateStore(mockRateStore());
+      process.env.EXCHANGE_RATE_PROVIDER = 'fixture';
+      process.env.EXCHANGE_RATE_FIXTURE_PATH = FIXTURE_PATH;
+      process.env.EXCHANGE_RATE_TTL_MINUTES = String(60 * 24 * 365 * 10);
+
+      try {
+        const conversion = await getCurrencyConversion(100, 'USD', 'MXN');
+
+        expect(conversion).toEqual({
+          baseAmount: 100,
+          baseCurrency: 'USD',
+          amount: 1987.4,
+          currency: 'MXN',
+          rate: 19.874,
+          provider: 'fixture',
+          fetchedAt: FIXTURE_FETCHED_AT,
+        });
+      } finally {
+        delete process.env.EXCHANGE_RATE_PROVIDER;
+        delete process.env.EXCHANGE_RATE_FIXTURE_PATH;
+        delete process.env.EXCHANGE_RATE_TTL_MINUTES;
+      }
+    });
+
+    it('should fall back to the default rates when no rates are available', async () => {
+      await useRateStore(mockRateStore([], { failReads: true }));
+      vi.mocked(fetch).mockRejectedValueOnce(new Error('offline'));
+
+      const rates = await getExchangeRates();
+      const conversion = await getCurrencyConversion(100, 'USD', 'BRL', rates);
+
+      expect(rates.provider).toBe('default');
+      expect(conversion.provider).toBe('default');
+      expect(conversion.fetchedAt).toBeNull();
+      expect(conversion.amount).toBeGreaterThan(100);
+    });
+
+    it('should not convert when the currencies match', async () => {
+      const conversion = await getCurrencyConversion(49.9, 'USD', 'USD');
+
+      expect(conversion.amount).toBe(49.9);
+      expect(conversion.rate).toBe(1);
+    });
+  });
+});
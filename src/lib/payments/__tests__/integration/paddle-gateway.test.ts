@@ -0,0 +1,349 @@
+/**
+ * Paddle Gateway Integration Tests
+ *
+ * Runs the Paddle gateway against a local mock of the Paddle Billing API
+ */
+
+import { createHmac } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { PaddleGateway, toWebhookEventData } from '../../gateways/paddle-gateway';
+import { getPaymentGatewayFromEnv } from '../../payment-gateway-factory';
+import { PaymentGatewayError, PaymentValidationError } from '../../types';
+import {
+  startPaddleMockServer,
+  httpFetch,
+  MOCK_PADDLE_API_KEY,
+  PaddleMockServer,
+} from './paddle-mock-server';
+
+const WEBHOOK_SECRET = 'pdl_ntfset_test_secret';
+
+describe('Paddle Gateway Integration', () => {
+  let server: PaddleMockServer;
+  let gateway: PaddleGateway;
+
+  beforeAll(async () => {
+    server = await startPaddleMockServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(fetch).mockImplementation(httpFetch);
+    server.requests.length = 0;
+
+    gateway = new PaddleGateway({
+      provider: 'paddle',
+      secretKey: MOCK_PADDLE_API_KEY,
+      webhookSecret: WEBHOOK_SECRET,
+      apiBaseUrl: server.url,
+    });
+  });
+
+  describe('Customers', () => {
+    it('should create a customer with address and read it back', async () => {
+      const customer = await gateway.createCustomer({
+        email: 'test@example.com',
+        name: 'Test User',
+        phone: '+5511999999999',
+        metadata: { account_id: 'acc_123' },
+        address: { line1: 'Rua A, 1', city: 'São Paulo', postal_code: '01000-000', country: 'br' },
+      });
+
+      expect(customer.customerId).toMatch(/^ctm_/);
+      expect(customer.email).toBe('test@example.com');
+      expect(customer.metadata).toEqual({ account_id: 'acc_123' });
+      expect(server.requests[0].body.custom_data).toEqual({
+        account_id: 'acc_123',
+        phone: '+5511999999999',
+      });
+
+      const stored = await gateway.getCustomer(customer.customerId);
+      expect(stored).toMatchObject({
+        id: customer.customerId,
+        name: 'Test User',
+        phone: '+5511999999999',
+        metadata: { account_id: 'acc_123' },
+        address: { line1: 'Rua A, 1', city: 'São Paulo', country: 'BR' },
+      });
+    });
+
+    it('should update customer fields and keep untouched custom data', async () => {
+      const { customerId } = await gateway.createCustomer({
+        email: 'test@example.com',
+        phone: '+15550000000',
+        metadata: { account_id: 'acc_123' },
+      });
+
+      await gateway.updateCustomer(customerId, {
+        name: 'Renamed',
+        metadata: { account_id: 'acc_456' },
+        address: { country: 'US', postal_code: '10001' },
+      });
+
+      const stored = await gateway.getCustomer(customerId);
+      expect(stored.name).toBe('Renamed');
+      expect(stored.phone).toBe('+15550000000');
+      expect(stored.metadata).toEqual({ account_id: 'acc_456' });
+      expect(stored.address).toMatchObject({ country: 'US', postal_code: '10001' });
+    });
+
+    it('should map validation errors to PaymentValidationError', async () => {
+      const error = await gateway.createCustomer({ email: '' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PaymentValidationError);
+      expect((error as PaymentValidationError).field).toBe('email');
+    });
+
+    it('should map missing customers to a 404 error', async () => {
+      const error = await gateway.getCustomer('ctm_missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(PaymentGatewayError);
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('entity_not_found');
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should create a checkout transaction and resolve it to the subscription once paid', async () => {
+      const { customerId } = await gateway.createCustomer({ email: 'test@example.com' });
+
+      const pending = await gateway.createSubscription({
+        customerId,
+        planId: 'plan_123',
+        amount: 200,
+        currency: 'usd',
+        billingCycle: 'yearly',
+        trialPeriodDays: 14,
+      });
+
+      expect(pending.subscriptionId).toMatch(/^txn_/);
+      expect(pending.status).toBe('incomplete');
+      expect(pending.metadata).toMatchObject({
+        plan_id: 'plan_123',
+        transaction_id: pending.subscriptionId,
+      });
+      expect(pending.metadata?.checkout_url).toBeDefined();
+
+      const price = server.requests.at(-1)!.body.items[0].price;
+      expect(price.unit_price).toEqual({ amount: '20000', currency_code: 'USD' });
+      expect(price.billing_cycle).toEqual({ interval: 'year', frequency: 1 });
+      expect(price.trial_period).toEqual({ interval: 'day', frequency: 14 });
+
+      expect((await gateway.getSubscription(pending.subscriptionId)).status).toBe('incomplete');
+
+      const paid = server.completeTransaction(pending.subscriptionId);
+      const subscription = await gateway.getSubscription(pending.subscriptionId);
+
+      expect(subscription.subscriptionId).toBe(paid.id);
+      expect(subscription.customerId).toBe(customerId);
+      expect(subscription.status).toBe('active');
+      expect(subscription.currentPeriodEnd).toBeGreaterThan(subscription.currentPeriodStart);
+    });
+
+    it('should use catalog prices when a price ID is provided', async () => {
+      await gateway.createSubscription({
+        customerId: 'ctm_123',
+        planId: 'plan_123',
+        priceId: 'pri_123',
+        amount: 200,
+        currency: 'USD',
+        billingCycle: 'monthly',
+      });
+
+      expect(server.requests.at(-1)!.body.items).toEqual([{ price_id: 'pri_123', quantity: 1 }]);
+    });
+
+    it('should change the plan with proration and cancel at period end', async () => {
+      const { subscriptionId } = await gateway.createSubscription({
+        customerId: 'ctm_123',
+        planId: 'plan_123',
+        amount: 200,
+        currency: 'USD',
+        billingCycle: 'monthly',
+      });
+      const { id } = server.completeTransaction(subscriptionId);
+
+      await gateway.updateSubscription(id, {
+        priceId: 'pri_pro',
+        metadata: { plan_id: 'plan_pro' },
+      });
+      expect(server.requests.at(-1)!.body).toEqual({
+        items: [{ price_id: 'pri_pro', quantity: 1 }],
+        proration_billing_mode: 'prorated_immediately',
+        custom_data: { plan_id: 'plan_pro' },
+      });
+
+      await gateway.cancelSubscription(id);
+      expect(server.requests.at(-1)!.body).toEqual({ effective_from: 'next_billing_period' });
+      expect(server.subscriptions.get(id)!.status).toBe('active');
+
+      await gateway.cancelSubscription(id, true);
+      expect(server.subscriptions.get(id)!.status).toBe('canceled');
+    });
+
+    it('should reject payment method IDs without calling Paddle', async () => {
+      await expect(
+        gateway.updateSubscription('sub_123', { paymentMethodId: 'pm_123' })
+      ).rejects.toBeInstanceOf(PaymentValidationError);
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe('Transactions and invoices', () => {
+    it('should create a one-time transaction as payment intent', async () => {
+      const intent = await gateway.createPaymentIntent(49.9, 'brl', 'ctm_123', undefined, {
+        order_id: 'order_1',
+      });
+
+      expect(intent.paymentIntentId).toMatch(/^txn_/);
+      expect(intent.clientSecret).toBe(intent.paymentIntentId);
+      expect(intent.amount).toBe(49.9);
+      expect(intent.currency).toBe('BRL');
+    });
+
+    it('should return completed transactions with their invoice PDF', async () => {
+      const { subscriptionId } = await gateway.createSubscription({
+        customerId: 'ctm_123',
+        planId: 'plan_123',
+        amount: 200,
+        currency: 'USD',
+        billingCycle: 'monthly',
+      });
+
+      const ready = await gateway.getInvoice(subscriptionId);
+      expect(ready.status).toBe('ready');
+      expect(ready.invoiceUrl).toBeUndefined();
+
+      server.completeTransaction(subscriptionId);
+
+      const invoice = await gateway.getInvoice(subscriptionId);
+      expect(invoice).toMatchObject({ amount: 200, currency: 'USD', status: 'completed' });
+      expect(invoice.invoiceUrl).toContain(subscriptionId);
+
+      const transaction = await gateway.getTransaction(subscriptionId);
+      expect(transaction.status).toBe('completed');
+    });
+
+    it('should map server errors and authentication failures', async () => {
+      server.failNext(500, { type: 'api_error', code: 'internal_error', detail: 'Internal error' });
+      const serverError = await gateway.getTransaction('txn_123').catch((e) => e);
+      expect(serverError.statusCode).toBe(500);
+      expect(serverError.code).toBe('api_error');
+
+      const unauthorized = new PaddleGateway({
+        provider: 'paddle',
+        secretKey: 'pdl_sdbx_apikey_wrong',
+        apiBaseUrl: server.url,
+      });
+      const authError = await unauthorized.getTransaction('txn_123').catch((e) => e);
+      expect(authError.statusCode).toBe(401);
+      expect(authError.code).toBe('authentication_error');
+    });
+  });
+
+  describe('Webhooks', () => {
+    const sign = (payload: string, timestamp = Math.floor(Date.now() / 1000)) =>
+      `ts=${timestamp};h1=${createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}:${payload}`).digest('hex')}`;
+
+    const payload = JSON.stringify({
+      event_id: 'evt_123',
+      event_type: 'transaction.completed',
+      occurred_at: '2026-10-01T12:00:00.000Z',
+      data: {
+        id: 'txn_123',
+        subscription_id: 'sub_123',
+        customer_id: 'ctm_123',
+        currency_code: 'USD',
+        details: { totals: { total: '20000', grand_total: '20000' } },
+      },
+    });
+
+    it('should verify Paddle signatures', () => {
+      expect(gateway.verifyWebhookSignature(payload, sign(payload))).toBe(true);
+      expect(gateway.verifyWebhookSignature(Buffer.from(payload), sign(payload))).toBe(true);
+      expect(gateway.verifyWebhookSignature(`${payload} `, sign(payload))).toBe(false);
+      expect(gateway.verifyWebhookSignature(payload, 'h1=abc')).toBe(false);
+    });
+
+    it('should accept any of the signatures sent during secret rotation', () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = `ts=${timestamp};h1=${'0'.repeat(64)};${sign(payload, timestamp).split(';')[1]}`;
+
+      expect(gateway.verifyWebhookSignature(payload, signature)).toBe(true);
+    });
+
+    it('should reject signatures outside the replay tolerance', () => {
+      const stale = Math.floor(Date.now() / 1000) - 600;
+      expect(gateway.verifyWebhookSignature(payload, sign(payload, stale))).toBe(false);
+    });
+
+    it('should process payment succeeded webhook', async () => {
+      const result = await gateway.handleWebhook(toWebhookEventData(JSON.parse(payload)));
+
+      expect(result.processed).toBe(true);
+      expect(result.type).toBe('payment_succeeded');
+      expect(result.data).toMatchObject({
+        subscriptionId: 'sub_123',
+        amount: 200,
+        currency: 'USD',
+      });
+    });
+
+    it('should process subscription cancelled webhook', async () => {
+      const result = await gateway.handleWebhook(
+        toWebhookEventData({
+          event_id: 'evt_124',
+          event_type: 'subscription.canceled',
+          occurred_at: '2026-10-01T12:00:00.000Z',
+          data: { id: 'sub_123', customer_id: 'ctm_123', status: 'canceled' },
+        })
+      );
+
+      expect(result.processed).toBe(true);
+      expect(result.type).toBe('subscription_cancelled');
+    });
+
+    it('should only process approved refund adjustments', async () => {
+      const adjustment = (status: string) =>
+        toWebhookEventData({
+          event_id: 'evt_125',
+          event_type: 'adjustment.updated',
+          occurred_at: '2026-10-01T12:00:00.000Z',
+          data: {
+            action: 'refund',
+            status,
+            transaction_id: 'txn_123',
+            currency_code: 'USD',
+            totals: { total: '5000' },
+          },
+        });
+
+      expect((await gateway.handleWebhook(adjustment('pending_approval'))).processed).toBe(false);
+
+      const result = await gateway.handleWebhook(adjustment('approved'));
+      expect(result.type).toBe('refund_processed');
+      expect(result.data).toMatchObject({ chargeId: 'txn_123', amount: 50 });
+    });
+  });
+
+  describe('getPaymentGatewayFromEnv', () => {
+    it('should create the Paddle gateway from Paddle credentials', () => {
+      const originalEnv = { ...process.env };
+      process.env.PAYMENT_GATEWAY_PROVIDER = 'paddle';
+      process.env.PADDLE_API_KEY = MOCK_PADDLE_API_KEY;
+      delete process.env.STRIPE_SECRET_KEY;
+
+      try {
+        expect(getPaymentGatewayFromEnv().getProvider()).toBe('paddle');
+
+        delete process.env.PADDLE_API_KEY;
+        expect(() => getPaymentGatewayFromEnv()).toThrow('Missing PADDLE_API_KEY');
+      } finally {
+        process.env = originalEnv;
+      }
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Paddle Mock Server
+ *
+ * In-memory stand-in for the Paddle Billing API used by the Paddle gateway
+ * tests. Implements the endpoints the gateway calls and Paddle's
+ * `{ data, meta }` / `{ error, meta }` response envelopes.
+ */
+
+import { createServer, request as httpRequest, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export const MOCK_PADDLE_API_KEY = 'pdl_sdbx_apikey_test_123';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+type Entity = Record<string, any>;
+
+export interface PaddleMockServer {
+  url: string;
+  requests: RecordedRequest[];
+  customers: Map<string, Entity>;
+  transactions: Map<string, Entity>;
+  subscriptions: Map<string, Entity>;
+  /** Make the next request fail with the given status and Paddle error */
+  failNext(status: number, error: Entity): void;
+  /** Simulate the customer paying a checkout transaction (creates the subscription) */
+  completeTransaction(transactionId: string): Entity;
+  close(): Promise<void>;
+}
+
+export async function startPaddleMockServer(): Promise<PaddleMockServer> {
+  const requests: RecordedRequest[] = [];
+  const customers = new Map<string, Entity>();
+  const addresses = new Map<string, Entity[]>();
+  const transactions = new Map<string, Entity>();
+  const subscriptions = new Map<string, Entity>();
+  let nextFailure: { status: number; error: Entity } | null = null;
+  let sequence = 0;
+
+  const newId = (prefix: string) => `${prefix}_${String(++sequence).padStart(26, '0')}`;
+  const now = () => new Date().toISOString();
+
+  const send = (res: ServerResponse, status: number, payload: Entity) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ...payload, meta: { request_id: `req_${sequence}` } }));
+  };
+
+  const notFound = (res: ServerResponse, entity: string, id: string) =>
+    send(res, 404, {
+      error: {
+        type: 'request_error',
+        code: 'entity_not_found',
+        detail: `${entity} ${id} not found`,
+      },
+    });
+
+  const routes: Array<
+    [string, RegExp, (res: ServerResponse, params: string[], body: any) => void]
+  > = [
+    [
+      'POST',
+      /^\/customers$/,
+      (res, _params, body) => {
+        if (!body?.email) {
+          return send(res, 400, {
+            error: {
+              type: 'request_error',
+              code: 'bad_request',
+              detail: 'Invalid request.',
+              errors: [{ field: 'email', message: 'email is required' }],
+            },
+          });
+        }
+        const customer = {
+          id: newId('ctm'),
+          email: body.email,
+          name: body.name ?? null,
+          custom_data: body.custom_data ?? null,
+          status: 'active',
+        };
+        customers.set(customer.id, customer);
+        send(res, 201, { data: customer });
+      },
+    ],
+    [
+      'GET',
+      /^\/customers\/([^/]+)$/,
+      (res, [id]) => {
+        const customer = customers.get(id);
+        return customer ? send(res, 200, { data: customer }) : notFound(res, 'customer', id);
+      },
+    ],
+    [
+      'PATCH',
+      /^\/customers\/([^/]+)$/,
+      (res, [id], body) => {
+        const customer = customers.get(id);
+        if (!customer) return notFound(res, 'customer', id);
+        Object.assign(customer, body);
+        send(res, 200, { data: customer });
+      },
+    ],
+    [
+      'GET',
+      /^\/customers\/([^/]+)\/addresses$/,
+      (res, [id]) => {
+        send(res, 200, { data: addresses.get(id) || [] });
+      },
+    ],
+    [
+      'POST',
+      /^\/customers\/([^/]+)\/addresses$/,
+      (res, [id], body) => {
+        const address = { id: newId('add'), ...body };
+        addresses.set(id, [...(addresses.get(id) || []), address]);
+        send(res, 201, { data: address });
+      },
+    ],
+    [
+      'PATCH',
+      /^\/customers\/([^/]+)\/addresses\/([^/]+)$/,
+      (res, [id, addressId], body) => {
+        const address = (addresses.get(id) || []).find((item) => item.id === addressId);
+        if (!address) return notFound(res, 'address', addressId);
+        Object.assign(address, body);
+        send(res, 200, { data: address });
+      },
+    ],
+    [
+      'POST',
+      /^\/transactions$/,
+      (res, _params, body) => {
+        const item = body?.items?.[0];
+        const unitPrice = item?.price?.unit_price;
+        const total = unitPrice ? Number(unitPrice.amount) * item.quantity : 2000;
+        const transaction = {
+          id: newId('txn'),
+          status: body.customer_id ? 'ready' : 'draft',
+          customer_id: body.customer_id ?? null,
+          subscription_id: null,
+          currency_code: unitPrice?.currency_code ?? 'USD',
+          created_at: now(),
+          billing_period: null,
+          custom_data: body.custom_data ?? null,
+          items: body.items,
+          details: { totals: { total: String(total), grand_total: String(total) } },
+          checkout: { url: `https://checkout.example.com/?_ptxn=${sequence}` },
+        };
+        transactions.set(transaction.id, transaction);
+        send(res, 201, { data: transaction });
+      },
+    ],
+    [
+      'GET',
+      /^\/transactions\/([^/]+)$/,
+      (res, [id]) => {
+        const transaction = transactions.get(id);
+        return transaction
+          ? send(res, 200, { data: transaction })
+          : notFound(res, 'transaction', id);
+      },
+    ],
+    [
+      'GET',
+      /^\/transactions\/([^/]+)\/invoice$/,
+      (res, [id]) => {
+        send(res, 200, { data: { url: `https://invoices.example.com/${id}.pdf` } });
+      },
+    ],
+    [
+      'GET',
+      /^\/subscriptions\/([^/]+)$/,
+      (res, [id]) => {
+        const subscription = subscriptions.get(id);
+        return subscription
+          ? send(res, 200, { data: subscription })
+          : notFound(res, 'subscription', id);
+      },
+    ],
+    [
+      'PATCH',
+      /^\/subscriptions\/([^/]+)$/,
+      (res, [id], body) => {
+        const subscription = subscriptions.get(id);
+        if (!subscription) return notFound(res, 'subscription', id);
+        if (body.items) subscription.items = body.items;
+        if (body.custom_data) subscription.custom_data = body.custom_data;
+        send(res, 200, { data: subscription });
+      },
+    ],
+    [
+      'POST',
+      /^\/subscriptions\/([^/]+)\/cancel$/,
+      (res, [id], body) => {
+        const subscription = subscriptions.get(id);
+        if (!subscription) return notFound(res, 'subscription', id);
+        if (body?.effective_from === 'immediately') {
+          subscription.status = 'canceled';
+        } else {
+          subscription.scheduled_change = {
+            action: 'cancel',
+            effective_at: subscription.next_billed_at,
+          };
+        }
+        send(res, 200, { data: subscription });
+      },
+    ],
+  ];
+
+  const handle = (req: IncomingMessage, res: ServerResponse, rawBody: string) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = rawBody ? JSON.parse(rawBody) : undefined;
+    requests.push({ method: req.method || 'GET', path: url.pathname + url.search, body });
+
+    if (req.headers.authorization !== `Bearer ${MOCK_PADDLE_API_KEY}`) {
+      return send(res, 403, {
+        error: {
+          type: 'request_error',
+          code: 'forbidden',
+          detail: 'You are not permitted to access this resource',
+        },
+      });
+    }
+
+    if (nextFailure) {
+      const { status, error } = nextFailure;
+      nextFailure = null;
+      return send(res, status, { error });
+    }
+
+    for (const [method, pattern, route] of routes) {
+      const match = req.method === method ? url.pathname.match(pattern) : null;
+      if (match) return route(res, match.slice(1), body);
+    }
+
+    send(res, 404, {
+      error: { type: 'request_error', code: 'not_found', detail: 'Route not found' },
+    });
+  };
+
+  const server = createServer((req, res) => {
+    let rawBody = '';
+    req.on('data', (chunk) => (rawBody += chunk));
+    req.on('end', () => handle(req, res, rawBody));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    customers,
+    transactions,
+    subscriptions,
+    failNext(status, error) {
+      nextFailure = { status, error };
+    },
+    completeTransaction(transactionId) {
+      const transaction = transactions.get(transactionId)!;
+      const interval = transaction.items[0]?.price?.billing_cycle?.interval === 'year' ? 365 : 30;
+      const startsAt = new Date();
+      const endsAt = new Date(startsAt.getTime() + interval * 24 * 60 * 60 * 1000);
+      const subscription = {
+        id: newId('sub'),
+        status: 'active',
+        customer_id: transaction.customer_id,
+        started_at: startsAt.toISOString(),
+        next_billed_at: endsAt.toISOString(),
+        created_at: startsAt.toISOString(),
+        current_billing_period: {
+          starts_at: startsAt.toISOString(),
+          ends_at: endsAt.toISOString(),
+        },
+        custom_data: transaction.custom_data,
+        items: transaction.items,
+      };
+      subscriptions.set(subscription.id, subscription);
+      Object.assign(transaction, { status: 'completed', subscription_id: subscription.id });
+      return subscription;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * fetch implementation over node:http (the test setup replaces global fetch with a mock)
+ */
+export function httpFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = new URL(String(input));
+
+  return new Promise((resolve, reject) => {
+    const req = httpRequest(
+      url,
+      { method: init?.method || 'GET', headers: init?.headers as Record<string, string> },
+      (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve(new Response(body || null, { status: res.statusCode })));
+      }
+    );
+    req.on('error', reject);
+    if (init?.body) req.write(init.body);
+    req.end();
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * Paddle Error Mapper Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapPaddleError, extractPaddleErrorDetails } from '../gateways/paddle-error-mapper';
+import { PaddleApiError, PaddleConnectionError } from '../gateways/paddle-client';
+import { PaymentValidationError, PaymentGatewayError, PaymentProcessingError } from '../types';
+
+describe('Paddle Error Mapper', () => {
+  describe('mapPaddleError', () => {
+    it('should map request errors to PaymentValidationError with the invalid field', () => {
+      const paddleError = new PaddleApiError(400, {
+        type: 'request_error',
+        code: 'bad_request',
+        detail: 'Invalid request.',
+        errors: [{ field: 'items[0].price.unit_price.amount', message: 'must be positive' }],
+      });
+
+      const error = mapPaddleError(paddleError, 'test');
+      expect(error).toBeInstanceOf(PaymentValidationError);
+      expect(error.message).toBe('Invalid request.');
+      expect((error as PaymentValidationError).field).toBe('items[0].price.unit_price.amount');
+    });
+
+    it('should map not found errors to PaymentGatewayError with 404', () => {
+      const paddleError = new PaddleApiError(404, {
+        type: 'request_error',
+        code: 'entity_not_found',
+        detail: 'Entity not found',
+      });
+
+      const error = mapPaddleError(paddleError, 'test');
+      expect(error).toBeInstanceOf(PaymentGatewayError);
+      expect(error).not.toBeInstanceOf(PaymentValidationError);
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('entity_not_found');
+    });
+
+    it('should map conflicts to PaymentProcessingError', () => {
+      const paddleError = new PaddleApiError(409, {
+        type: 'request_error',
+        code: 'subscription_locked_pending_changes',
+        detail: 'Subscription has pending changes',
+      });
+
+      const error = mapPaddleError(paddleError, 'test');
+      expect(error).toBeInstanceOf(PaymentProcessingError);
+      expect(error.code).toBe('subscription_locked_pending_changes');
+    });
+
+    it('should map API errors to PaymentGatewayError', () => {
+      const paddleError = new PaddleApiError(502, { type: 'api_error', code: 'internal_error' });
+
+      const error = mapPaddleError(paddleError, 'test');
+      expect(error).toBeInstanceOf(PaymentGatewayError);
+      expect(error.code).toBe('api_error');
+      expect(error.statusCode).toBe(502);
+    });
+
+    it('should map connection errors to PaymentGatewayError with 503', () => {
+      const error = mapPaddleError(new PaddleConnectionError('fetch failed'), 'test');
+      expect(error).toBeInstanceOf(PaymentGatewayError);
+      expect(error.statusCode).toBe(503);
+      expect(error.message).toContain('Connection');
+    });
+
+    it('should map authentication errors to PaymentGatewayError with 401', () => {
+      const paddleError = new PaddleApiError(403, { type: 'request_error', code: 'forbidden' });
+
+      const error = mapPaddleError(paddleError, 'test');
+      expect(error.statusCode).toBe(401);
+      expect(error.code).toBe('authentication_error');
+    });
+
+    it('should map rate limit errors to PaymentGatewayError with 429', () => {
+      const paddleError = new PaddleApiError(429, {
+        type: 'request_error',
+        code: 'too_many_requests',
+      });
+
+      const error = mapPaddleError(paddleError, 'test');
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toContain('wait');
+    });
+  });
+
+  describe('extractPaddleErrorDetails', () => {
+    it('should extract details from a request error', () => {
+      const paddleError = new PaddleApiError(
+        400,
+        {
+          type: 'request_error',
+          code: 'bad_request',
+          detail: 'Invalid request.',
+          errors: [{ field: 'email', message: 'email is required' }],
+        },
+        'req_123'
+      );
+
+      const details = extractPaddleErrorDetails(paddleError);
+      expect(details).toEqual({
+        code: 'bad_request',
+        message: 'Invalid request.',
+        type: 'request_error',
+        statusCode: 400,
+        field: 'email',
+        requestId: 'req_123',
+      });
+    });
+
+    it('should handle errors without optional fields', () => {
+      const details = extractPaddleErrorDetails(new PaddleApiError(500, {}));
+      expect(details.code).toBe('unknown');
+      expect(details.type).toBe('api_error');
+      expect(details.message).toContain('500');
+      expect(details.field).toBeUndefined();
+      expect(details.requestId).toBeUndefined();
+    });
+  });
+});
@@ -34,6 +34,7 @@ export abstract class BasePaymentGateway implements IPaymentGateway {
   ): Promise<any>;
   abstract getTransaction(transactionId: string): Promise<any>;
   abstract getInvoice(invoiceId: string): Promise<any>;
+  abstract retryInvoicePayment(invoiceId: string): Promise<any>;
   abstract handleWebhook(event: any): Promise<any>;
   abstract verifyWebhookSignature(payload: string | Buffer, signature: string): boolean;
 
@@ -4,41 +4,57 @@
  * Handles currency conversion and regional pricing
  */
 
-export type CurrencyCode = 'USD' | 'BRL' | string;
+import { loadExchangeRates, LoadExchangeRatesOptions } from './exchange-rates';
+
+export type CurrencyCode = 'USD' | 'BRL' | 'EUR' | 'MXN' | 'ARS' | 'COP' | string;
+
+/**
+ * Base currency of plan prices and of the stored exchange rates
+ */
+export const BASE_CURRENCY: CurrencyCode = 'USD';
 
 /**
- * Exchange rates (can be updated from external API)
- * Default rates are approximate - in production, fetch from a currency API
+ * Fallback exchange rates (1 USD = rate), used only when neither the rate
+ * provider nor the stored rates are available
  */
 const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
   USD: 1.0,
-  BRL: 5.0, // Example: 1 USD = 5 BRL (update with real rates)
+  BRL: 5.4,
+  EUR: 0.92,
+  MXN: 18.5,
+  ARS: 1000.0,
+  COP: 4000.0,
 };
 
 /**
  * Supported currencies
  */
-export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['USD', 'BRL'];
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['USD', 'BRL', 'EUR', 'MXN', 'ARS', 'COP'];
 
 /**
  * Get exchange rate from base currency to target currency
+ * (rates are "1 USD = rate", defaults to the fallback rates)
  */
-export function getExchangeRate(from: CurrencyCode, to: CurrencyCode): number {
+export function getExchangeRate(
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: Record<string, number> = DEFAULT_EXCHANGE_RATES
+): number {
   if (from === to) return 1.0;
 
   // If converting from USD, use direct rate
   if (from === 'USD') {
-    return DEFAULT_EXCHANGE_RATES[to] || 1.0;
+    return rates[to] || 1.0;
   }
 
   // If converting to USD, use inverse rate
   if (to === 'USD') {
-    return 1.0 / (DEFAULT_EXCHANGE_RATES[from] || 1.0);
+    return 1.0 / (rates[from] || 1.0);
   }
 
   // Convert via USD
-  const toUsd = 1.0 / (DEFAULT_EXCHANGE_RATES[from] || 1.0);
-  const fromUsd = DEFAULT_EXCHANGE_RATES[to] || 1.0;
+  const toUsd = 1.0 / (rates[from] || 1.0);
+  const fromUsd = rates[to] || 1.0;
   return toUsd * fromUsd;
 }
 
@@ -48,14 +64,144 @@ export function getExchangeRate(from: CurrencyCode, to: CurrencyCode): number {
 export function convertCurrency(
   amount: number,
   from: CurrencyCode,
-  to: CurrencyCode
+  to: CurrencyCode,
+  rates: Record<string, number> = DEFAULT_EXCHANGE_RATES
 ): number {
   if (from === to) return amount;
 
-  const rate = getExchangeRate(from, to);
+  const rate = getExchangeRate(from, to, rates);
   return Math.round(amount * rate * 100) / 100; // Round to 2 decimal places
 }
 
+/**
+ * Rates used for a conversion, with their source
+ */
+export interface ExchangeRates {
+  rates: Record<string, number>;
+  provider: string;
+  fetchedAt: string | null;
+}
+
+/**
+ * Get the current exchange rates (1 USD = rate).
+ * Uses the cached provider rates, falling back to DEFAULT_EXCHANGE_RATES.
+ */
+export async function getExchangeRates(
+  options: Omit<LoadExchangeRatesOptions, 'currencies'> = {}
+): Promise<ExchangeRates> {
+  const snapshot = await loadExchangeRates(BASE_CURRENCY, {
+    ...options,
+    currencies: SUPPORTED_CURRENCIES,
+  });
+
+  if (!snapshot) {
+    console.warn('⚠️ [WARN] No exchange rates available, using default rates');
+    return { rates: DEFAULT_EXCHANGE_RATES, provider: 'default', fetchedAt: null };
+  }
+
+  return {
+    rates: { ...DEFAULT_EXCHANGE_RATES, ...snapshot.rates, [BASE_CURRENCY]: 1.0 },
+    provider: snapshot.provider,
+    fetchedAt: snapshot.fetchedAt,
+  };
+}
+
+/**
+ * A recorded conversion: enough to reproduce the converted amount
+ */
+export interface CurrencyConversion {
+  baseAmount: number;
+  baseCurrency: CurrencyCode;
+  amount: number;
+  currency: CurrencyCode;
+  rate: number;
+  provider: string;
+  fetchedAt: string | null;
+}
+
+/**
+ * Convert amount with the current exchange rates and record the rate used
+ */
+export async function getCurrencyConversion(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  exchangeRates?: ExchangeRates
+): Promise<CurrencyConversion> {
+  if (from === to) {
+    return {
+      baseAmount: amount,
+      baseCurrency: from,
+      amount,
+      currency: to,
+      rate: 1.0,
+      provider: 'none',
+      fetchedAt: null,
+    };
+  }
+
+  const { rates, provider, fetchedAt } = exchangeRates || (await getExchangeRates());
+
+  return {
+    baseAmount: amount,
+    baseCurrency: from,
+    amount: convertCurrency(amount, from, to, rates),
+    currency: to,
+    rate: getExchangeRate(from, to, rates),
+    provider,
+    fetchedAt,
+  };
+}
+
+/**
+ * Conversion as payment metadata (gateway metadata values are strings)
+ */
+export function toConversionMetadata(conversion: CurrencyConversion): Record<string, string> {
+  return {
+    base_amount: String(conversion.baseAmount),
+    base_currency: conversion.baseCurrency,
+    exchange_rate: String(conversion.rate),
+    exchange_rate_provider: conversion.provider,
+    exchange_rate_fetched_at: conversion.fetchedAt || '',
+  };
+}
+
+/**
+ * Read a conversion back from payment metadata (null when not recorded)
+ */
+export function fromConversionMetadata(
+  metadata: Record<string, any> | undefined,
+  currency: CurrencyCode,
+  amount: number
+): CurrencyConversion | null {
+  if (!metadata?.base_currency || !metadata?.exchange_rate) {
+    return null;
+  }
+
+  return {
+    baseAmount: Number(metadata.base_amount),
+    baseCurrency: metadata.base_currency,
+    amount,
+    currency,
+    rate: Number(metadata.exchange_rate),
+    provider: metadata.exchange_rate_provider || 'unknown',
+    fetchedAt: metadata.exchange_rate_fetched_at || null,
+  };
+}
+
+/**
+ * Conversion as subscription_transactions columns
+ */
+export function toTransactionConversionColumns(conversion: CurrencyConversion) {
+  return {
+    base_amount: conversion.baseAmount,
+    base_currency: conversion.baseCurrency,
+    exchange_rate: conversion.rate,
+    exchange_rate_provider: conversion.provider,
+    exchange_rate_fetched_at: conversion.fetchedAt,
+  };
+}
+
 /**
  * Get default currency from environment or user preference
  */
@@ -114,6 +260,9 @@ export function getCurrencySymbol(currency: CurrencyCode): string {
     BRL: 'R$',
     EUR: '€',
     GBP: '£',
+    MXN: 'MX$',
+    ARS: 'AR$',
+    COP: 'COL$',
   };
 
   return symbols[currency] || currency;
@@ -137,7 +286,8 @@ export function getRegionalPrice(
   baseAmount: number,
   baseCurrency: CurrencyCode,
   targetCurrency: CurrencyCode,
-  regionalPricing?: RegionalPricing[]
+  regionalPricing?: RegionalPricing[],
+  rates?: Record<string, number>
 ): number {
   // If regional pricing is provided, use it
   if (regionalPricing) {
@@ -148,17 +298,5 @@ export function getRegionalPrice(
   }
 
   // Otherwise, convert from base currency
-  return convertCurrency(baseAmount, baseCurrency, targetCurrency);
+  return convertCurrency(baseAmount, baseCurrency, targetCurrency, rates);
 }
-
-/**
- * Fetch exchange rates from external API (optional)
- * In production, implement this to fetch real-time rates
- */
-export async function fetchExchangeRates(): Promise<Record<string, number>> {
-  // TODO: Implement API call to fetch real exchange rates
-  // Example: https://api.exchangerate-api.com/v4/latest/USD
-  // For now, return default rates
-  return DEFAULT_EXCHANGE_RATES;
-}
-
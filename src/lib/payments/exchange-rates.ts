@@ -0,0 +1,312 @@
+/**
+ * Exchange Rates
+ *
+ * Pluggable exchange-rate providers and the database-backed rate cache used
+ * by the currency service. Rates are expressed as "1 base = rate currency".
+ */
+
+import { readFile } from 'fs/promises';
+import { getSupabaseAdmin } from '@/lib/supabase';
+
+export interface ExchangeRateSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  /** When the rates were fetched from the provider (ISO 8601) */
+  fetchedAt: string;
+  provider: string;
+}
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(base: string): Promise<ExchangeRateSnapshot>;
+}
+
+export class ExchangeRateProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'ExchangeRateProviderError';
+  }
+}
+
+/**
+ * Default HTTP endpoint ({base} is replaced with the base currency).
+ * Response format: { result, base_code, rates: { [currency]: rate } }
+ */
+export const DEFAULT_EXCHANGE_RATE_API_URL = 'https://open.er-api.com/v6/latest/{base}';
+
+/**
+ * Fetches rates from an HTTP API
+ */
+export class HttpExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'http';
+
+  constructor(
+    private url: string = DEFAULT_EXCHANGE_RATE_API_URL,
+    private timeoutMs: number = 5000
+  ) {}
+
+  async fetchRates(base: string): Promise<ExchangeRateSnapshot> {
+    const url = this.url.replace('{base}', encodeURIComponent(base));
+
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error: any) {
+      throw new ExchangeRateProviderError(
+        `Exchange rate request failed: ${error?.message || error}`,
+        this.name,
+        error
+      );
+    }
+
+    const body: any = await response.json().catch(() => null);
+
+    if (!response.ok || !body || body.result === 'error' || !body.rates) {
+      const reason = body?.['error-type'] || `status ${response.status}`;
+      throw new ExchangeRateProviderError(`Exchange rate API error: ${reason}`, this.name);
+    }
+
+    const responseBase = body.base_code || body.base || base;
+    if (responseBase !== base) {
+      throw new ExchangeRateProviderError(
+        `Exchange rate API returned base ${responseBase}, expected ${base}`,
+        this.name
+      );
+    }
+
+    return {
+      base,
+      rates: sanitizeRates(body.rates),
+      fetchedAt: new Date().toISOString(),
+      provider: this.name,
+    };
+  }
+}
+
+export interface ExchangeRateFixture {
+  base: string;
+  rates: Record<string, number>;
+  fetchedAt?: string;
+}
+
+/**
+ * Serves rates from a fixture object or a JSON file (tests and local development)
+ */
+export class FixtureExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixture';
+
+  constructor(private source: ExchangeRateFixture | string) {}
+
+  async fetchRates(base: string): Promise<ExchangeRateSnapshot> {
+    const fixture = await this.loadFixture();
+
+    if (fixture.base !== base) {
+      throw new ExchangeRateProviderError(
+        `Fixture rates are based on ${fixture.base}, expected ${base}`,
+        this.name
+      );
+    }
+
+    return {
+      base,
+      rates: sanitizeRates(fixture.rates),
+      fetchedAt: fixture.fetchedAt || new Date().toISOString(),
+      provider: this.name,
+    };
+  }
+
+  private async loadFixture(): Promise<ExchangeRateFixture> {
+    if (typeof this.source !== 'string') {
+      return this.source;
+    }
+
+    try {
+      return JSON.parse(await readFile(this.source, 'utf8'));
+    } catch (error: any) {
+      throw new ExchangeRateProviderError(
+        `Could not read exchange rate fixture ${this.source}: ${error?.message || error}`,
+        this.name,
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Create the exchange-rate provider configured in the environment
+ * (EXCHANGE_RATE_PROVIDER=http|fixture)
+ */
+export function getExchangeRateProviderFromEnv(): ExchangeRateProvider {
+  const provider = (process.env.EXCHANGE_RATE_PROVIDER || 'http').toLowerCase();
+
+  switch (provider) {
+    case 'http':
+      return new HttpExchangeRateProvider(
+        process.env.EXCHANGE_RATE_API_URL || DEFAULT_EXCHANGE_RATE_API_URL
+      );
+
+    case 'fixture': {
+      const fixturePath = process.env.EXCHANGE_RATE_FIXTURE_PATH;
+      if (!fixturePath) {
+        throw new Error('Missing EXCHANGE_RATE_FIXTURE_PATH environment variable');
+      }
+      return new FixtureExchangeRateProvider(fixturePath);
+    }
+
+    default:
+      throw new Error(`Unsupported exchange rate provider: ${provider}`);
+  }
+}
+
+/**
+ * Keep only positive numeric rates, with upper-case currency codes
+ */
+function sanitizeRates(rates: Record<string, unknown>): Record<string, number> {
+  const sanitized: Record<string, number> = {};
+
+  for (const [currency, rate] of Object.entries(rates || {})) {
+    const value = Number(rate);
+    if (/^[A-Za-z]{3}$/.test(currency) && Number.isFinite(value) && value > 0) {
+      sanitized[currency.toUpperCase()] = value;
+    }
+  }
+
+  return sanitized;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const DEFAULT_TTL_MINUTES = 60;
+
+const memoryCache = new Map<string, ExchangeRateSnapshot>();
+
+export interface LoadExchangeRatesOptions {
+  /** Provider to refresh from (default: getExchangeRateProviderFromEnv()) */
+  provider?: ExchangeRateProvider;
+  /** Currencies to keep (default: every currency returned by the provider) */
+  currencies?: string[];
+  /** How long rates are reused before refreshing (default: EXCHANGE_RATE_TTL_MINUTES or 60) */
+  ttlMinutes?: number;
+  now?: Date;
+}
+
+function getTtlMinutes(options: LoadExchangeRatesOptions): number {
+  if (options.ttlMinutes !== undefined) return options.ttlMinutes;
+  const fromEnv = Number(process.env.EXCHANGE_RATE_TTL_MINUTES);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_TTL_MINUTES;
+}
+
+function isFresh(snapshot: ExchangeRateSnapshot, ttlMinutes: number, now: Date): boolean {
+  return now.getTime() - new Date(snapshot.fetchedAt).getTime() < ttlMinutes * 60 * 1000;
+}
+
+async function readStoredRates(base: string): Promise<ExchangeRateSnapshot | null> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_latest_exchange_rates', {
+    p_base_currency: base,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Error fetching stored exchange rates:', error);
+    return null;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const rates: Record<string, number> = {};
+  for (const row of data) {
+    rates[row.currency] = Number(row.rate);
+  }
+
+  return {
+    base,
+    rates,
+    fetchedAt: new Date(data[0].fetched_at).toISOString(),
+    provider: data[0].provider,
+  };
+}
+
+async function storeRates(snapshot: ExchangeRateSnapshot): Promise<void> {
+  const { error } = await getSupabaseAdmin().rpc('save_exchange_rates', {
+    p_base_currency: snapshot.base,
+    p_provider: snapshot.provider,
+    p_fetched_at: snapshot.fetchedAt,
+    p_rates: snapshot.rates,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Error saving exchange rates:', error);
+  }
+}
+
+/**
+ * Load the current rates for a base currency.
+ *
+ * Order: in-memory cache, then the latest stored rates while they are within
+ * the TTL, then the provider (stored for the next requests). When the provider
+ * fails, stale stored rates are used. Returns null when no rates are available.
+ */
+export async function loadExchangeRates(
+  base: string,
+  options: LoadExchangeRatesOptions = {}
+): Promise<ExchangeRateSnapshot | null> {
+  const ttlMinutes = getTtlMinutes(options);
+  const now = options.now || new Date();
+
+  const cached = memoryCache.get(base);
+  if (cached && isFresh(cached, ttlMinutes, now)) {
+    return cached;
+  }
+
+  const stored = await readStoredRates(base);
+  if (stored && isFresh(stored, ttlMinutes, now)) {
+    memoryCache.set(base, stored);
+    return stored;
+  }
+
+  try {
+    const provider = options.provider || getExchangeRateProviderFromEnv();
+    const fetched = await provider.fetchRates(base);
+    const snapshot = options.currencies
+      ? { ...fetched, rates: pickRates(fetched.rates, [base, ...options.currencies]) }
+      : fetched;
+
+    await storeRates(snapshot);
+    memoryCache.set(base, snapshot);
+    console.log(`✅ [DEBUG] Exchange rates refreshed from ${snapshot.provider} (${base})`);
+    return snapshot;
+  } catch (error) {
+    console.error('❌ [DEBUG] Error refreshing exchange rates:', error);
+  }
+
+  if (stored) {
+    console.warn(`⚠️ [WARN] Using stale exchange rates from ${stored.fetchedAt} (${base})`);
+    return stored;
+  }
+
+  return cached || null;
+}
+
+function pickRates(rates: Record<string, number>, currencies: string[]): Record<string, number> {
+  const picked: Record<string, number> = {};
+  for (const currency of currencies) {
+    if (rates[currency] !== undefined) {
+      picked[currency] = rates[currency];
+    }
+  }
+  return picked;
+}
+
+/**
+ * Clear the in-memory rate cache (tests)
+ */
+export function clearExchangeRateCache(): void {
+  memoryCache.clear();
+}
@@ -0,0 +1,105 @@
+/**
+ * Paddle API Client
+ *
+ * Minimal client for the Paddle Billing API (https://developer.paddle.com/api-reference)
+ * Responses are unwrapped from their `data` envelope; failures are thrown as
+ * PaddleApiError / PaddleConnectionError and mapped by paddle-error-mapper.ts
+ */
+
+export const PADDLE_API_URLS = {
+  production: 'https://api.paddle.com',
+  sandbox: 'https://sandbox-api.paddle.com',
+} as const;
+
+export type PaddleEnvironment = keyof typeof PADDLE_API_URLS;
+
+/**
+ * Error object returned by the Paddle API
+ */
+export interface PaddleErrorBody {
+  type?: 'request_error' | 'api_error';
+  code?: string;
+  detail?: string;
+  documentation_url?: string;
+  errors?: Array<{ field: string; message: string }>;
+}
+
+/**
+ * Paddle API error (non-2xx response)
+ */
+export class PaddleApiError extends Error {
+  constructor(
+    public status: number,
+    public error: PaddleErrorBody,
+    public requestId?: string
+  ) {
+    super(error.detail || `Paddle API request failed with status ${status}`);
+    this.name = 'PaddleApiError';
+  }
+
+  get type(): string {
+    return this.error.type || 'api_error';
+  }
+
+  get code(): string {
+    return this.error.code || 'unknown';
+  }
+}
+
+/**
+ * Network failure while calling the Paddle API
+ */
+export class PaddleConnectionError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'PaddleConnectionError';
+  }
+}
+
+export class PaddleClient {
+  constructor(
+    private apiKey: string,
+    private baseUrl: string
+  ) {}
+
+  get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  patch<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+          'Paddle-Version': '1',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error: any) {
+      throw new PaddleConnectionError(error?.message || 'Failed to reach the Paddle API', error);
+    }
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new PaddleApiError(response.status, payload?.error || {}, payload?.meta?.request_id);
+    }
+
+    return payload?.data as T;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Paddle Error Mapper
+ *
+ * Maps Paddle API errors to our internal error types
+ */
+
+import { PaymentGatewayError, PaymentValidationError, PaymentProcessingError } from '../types';
+import { PaddleApiError, PaddleConnectionError } from './paddle-client';
+
+/**
+ * Map Paddle error to our internal error types
+ */
+export function mapPaddleError(
+  error: PaddleApiError | PaddleConnectionError,
+  _context: string
+): PaymentGatewayError {
+  if (error instanceof PaddleConnectionError) {
+    // Connection errors - retryable
+    return new PaymentGatewayError(
+      'Connection error. Please check your internet connection and try again.',
+      'connection_error',
+      503,
+      error
+    );
+  }
+
+  if (error.status === 401 || error.status === 403) {
+    // Authentication errors - configuration issue (invalid or unauthorized API key)
+    return new PaymentGatewayError(
+      'Authentication failed. Please contact support.',
+      'authentication_error',
+      401,
+      error
+    );
+  }
+
+  if (error.status === 429) {
+    // Rate limit errors - retryable with backoff
+    return new PaymentGatewayError(
+      'Too many requests. Please wait a moment and try again.',
+      'rate_limit_error',
+      429,
+      error
+    );
+  }
+
+  if (error.status === 404) {
+    return new PaymentGatewayError(error.message || 'Resource not found', error.code, 404, error);
+  }
+
+  if (error.status === 409) {
+    // Conflicts - the entity cannot change in its current state
+    // (e.g. subscription_locked_pending_changes, transaction_immutable)
+    return new PaymentProcessingError(
+      error.message || 'Request conflicts with the current state',
+      error.code,
+      error
+    );
+  }
+
+  if (error.type === 'request_error' && error.status < 500) {
+    // Invalid request - validation error
+    return new PaymentValidationError(
+      error.message || 'Invalid request',
+      error.error.errors?.[0]?.field || error.code
+    );
+  }
+
+  if (error.type === 'api_error' || error.status >= 500) {
+    // API errors - may be retryable
+    return new PaymentGatewayError(
+      error.message || 'API error occurred',
+      'api_error',
+      error.status || 500,
+      error
+    );
+  }
+
+  // Generic Paddle error
+  return new PaymentGatewayError(
+    error.message || 'Paddle error occurred',
+    error.code || 'paddle_error',
+    error.status || 500,
+    error
+  );
+}
+
+/**
+ * Extract specific error details from Paddle error
+ */
+export function extractPaddleErrorDetails(error: PaddleApiError): {
+  code: string;
+  message: string;
+  type: string;
+  statusCode: number;
+  field?: string;
+  requestId?: string;
+} {
+  const details: any = {
+    code: error.code,
+    message: error.message || 'Unknown error',
+    type: error.type,
+    statusCode: error.status,
+  };
+
+  if (error.error.errors?.length) {
+    details.field = error.error.errors[0].field;
+  }
+
+  if (error.requestId) {
+    details.requestId = error.requestId;
+  }
+
+  return details;
+}
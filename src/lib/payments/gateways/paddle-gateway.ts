@@ -0,0 +1,701 @@
+/**
+ * Paddle Payment Gateway Implementation
+ *
+ * Implements IPaymentGateway interface for Paddle Billing (merchant of record)
+ *
+ * Differences from Stripe:
+ * - Subscriptions cannot be created directly: createSubscription creates a
+ *   transaction that the customer pays through Paddle Checkout, and Paddle
+ *   creates the subscription once it is paid. Until then the transaction ID
+ *   stands in for the subscription ID (getSubscription resolves it).
+ * - Payment intents are transactions too; the transaction ID is what
+ *   Paddle.js needs to open the checkout.
+ * - Payment methods are collected by Paddle Checkout only, so payment method
+ *   IDs are rejected.
+ * - The API has no idempotency keys, so calls are not retried.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BasePaymentGateway } from '../base-gateway';
+import {
+  IPaymentGateway,
+  PaymentGatewayType,
+  PaymentGatewayConfig,
+  CustomerData,
+  SubscriptionData,
+  CreateCustomerResult,
+  CreateSubscriptionResult,
+  CreatePaymentIntentResult,
+  GetTransactionResult,
+  WebhookEventData,
+  PaymentGatewayError,
+  PaymentValidationError,
+} from '../types';
+import {
+  PaddleApiError,
+  PaddleClient,
+  PaddleConnectionError,
+  PADDLE_API_URLS,
+  type PaddleEnvironment,
+} from './paddle-client';
+import { mapPaddleError } from './paddle-error-mapper';
+
+// Maximum age of a webhook signature timestamp (replay protection)
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// Paddle customers have no phone field; it is kept in custom_data under this key
+const PHONE_CUSTOM_DATA_KEY = 'phone';
+
+interface PaddleCustomer {
+  id: string;
+  email: string;
+  name: string | null;
+  custom_data: Record<string, string> | null;
+}
+
+interface PaddleAddress {
+  id: string;
+  first_line: string | null;
+  second_line: string | null;
+  city: string | null;
+  region: string | null;
+  postal_code: string | null;
+  country_code: string;
+}
+
+interface PaddleSubscription {
+  id: string;
+  status: string;
+  customer_id: string;
+  started_at: string | null;
+  next_billed_at: string | null;
+  created_at: string;
+  current_billing_period: { starts_at: string; ends_at: string } | null;
+  custom_data: Record<string, string> | null;
+}
+
+interface PaddleTransaction {
+  id: string;
+  status: string;
+  customer_id: string | null;
+  subscription_id: string | null;
+  currency_code: string;
+  created_at: string;
+  billing_period: { starts_at: string; ends_at: string } | null;
+  custom_data: Record<string, any> | null;
+  details: { totals: { total: string; grand_total?: string } } | null;
+  checkout: { url: string | null } | null;
+}
+
+/**
+ * Paddle webhook notification payload
+ */
+export interface PaddleNotification {
+  event_id: string;
+  event_type: string;
+  occurred_at: string;
+  notification_id?: string;
+  data: any;
+}
+
+/**
+ * Convert a Paddle notification to the generic webhook event shape
+ */
+export function toWebhookEventData(notification: PaddleNotification): WebhookEventData {
+  return {
+    id: notification.event_id,
+    type: notification.event_type,
+    data: { object: notification.data },
+    created: toUnixTimestamp(notification.occurred_at),
+  };
+}
+
+function toUnixTimestamp(date: string | null | undefined): number {
+  return date ? Math.floor(new Date(date).getTime() / 1000) : Math.floor(Date.now() / 1000);
+}
+
+export class PaddleGateway extends BasePaymentGateway implements IPaymentGateway {
+  private paddle: PaddleClient;
+
+  constructor(config: PaymentGatewayConfig) {
+    super(config);
+
+    if (!config.secretKey) {
+      throw new Error('Paddle API key is required');
+    }
+
+    // Sandbox keys are prefixed with pdl_sdbx_; apiBaseUrl overrides the environment (e.g. in tests)
+    const environment: PaddleEnvironment =
+      config.environment || (config.secretKey.startsWith('pdl_sdbx_') ? 'sandbox' : 'production');
+
+    this.paddle = new PaddleClient(
+      config.secretKey,
+      config.apiBaseUrl || PADDLE_API_URLS[environment]
+    );
+  }
+
+  getProvider(): PaymentGatewayType {
+    return 'paddle';
+  }
+
+  async createCustomer(data: CustomerData): Promise<CreateCustomerResult> {
+    try {
+      this.log('info', 'Creating Paddle customer', { email: data.email });
+
+      const customer = await this.paddle.post<PaddleCustomer>('/customers', {
+        email: data.email,
+        name: data.name,
+        custom_data: this.toCustomData(data.metadata, data.phone),
+      });
+
+      if (data.address?.country) {
+        await this.paddle.post(`/customers/${customer.id}/addresses`, this.toAddress(data.address));
+      }
+
+      this.log('info', 'Paddle customer created', { customerId: customer.id });
+
+      return {
+        customerId: customer.id,
+        email: customer.email || data.email,
+        metadata: this.fromCustomData(customer.custom_data).metadata,
+      };
+    } catch (error: any) {
+      this.handlePaddleError(error, 'createCustomer');
+    }
+  }
+
+  async getCustomer(customerId: string): Promise<CustomerData & { id: string }> {
+    try {
+      const [customer, addresses] = await Promise.all([
+        this.paddle.get<PaddleCustomer>(`/customers/${customerId}`),
+        this.paddle.get<PaddleAddress[]>(`/customers/${customerId}/addresses?status=active`),
+      ]);
+      const address = addresses?.[0];
+      const { metadata, phone } = this.fromCustomData(customer.custom_data);
+
+      return {
+        id: customer.id,
+        email: customer.email || '',
+        name: customer.name || undefined,
+        phone,
+        metadata,
+        address: address
+          ? {
+              line1: address.first_line || undefined,
+              line2: address.second_line || undefined,
+              city: address.city || undefined,
+              state: address.region || undefined,
+              postal_code: address.postal_code || undefined,
+              country: address.country_code || undefined,
+            }
+          : undefined,
+      };
+    } catch (error: any) {
+      this.handlePaddleError(error, 'getCustomer');
+    }
+  }
+
+  async updateCustomer(customerId: string, data: Partial<CustomerData>): Promise<void> {
+    try {
+      const updates: Record<string, unknown> = {};
+      if (data.email !== undefined) updates.email = data.email;
+      if (data.name !== undefined) updates.name = data.name;
+
+      if (data.metadata !== undefined || data.phone !== undefined) {
+        // custom_data is replaced as a whole, so keep the values that are not updated
+        const current = await this.paddle.get<PaddleCustomer>(`/customers/${customerId}`);
+        const existing = this.fromCustomData(current.custom_data);
+        updates.custom_data = this.toCustomData(
+          data.metadata ?? existing.metadata,
+          data.phone ?? existing.phone
+        );
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await this.paddle.patch(`/customers/${customerId}`, updates);
+      }
+
+      if (data.address) {
+        const addresses = await this.paddle.get<PaddleAddress[]>(
+          `/customers/${customerId}/addresses?status=active`
+        );
+
+        if (addresses?.[0]) {
+          await this.paddle.patch(
+            `/customers/${customerId}/addresses/${addresses[0].id}`,
+            this.toAddress(data.address)
+          );
+        } else if (data.address.country) {
+          await this.paddle.post(
+            `/customers/${customerId}/addresses`,
+            this.toAddress(data.address)
+          );
+        } else {
+          throw new PaymentValidationError(
+            'Country is required to add an address',
+            'address.country'
+          );
+        }
+      }
+
+      this.log('info', 'Paddle customer updated', { customerId });
+    } catch (error: any) {
+      this.handlePaddleError(error, 'updateCustomer');
+    }
+  }
+
+  async createSubscription(data: SubscriptionData): Promise<CreateSubscriptionResult> {
+    try {
+      this.validateAmount(data.amount);
+      this.validateCurrency(data.currency);
+      this.rejectPaymentMethod(data.paymentMethodId);
+
+      this.log('info', 'Creating Paddle subscription checkout', {
+        customerId: data.customerId,
+        amount: data.amount,
+        currency: data.currency,
+      });
+
+      // Use the catalog price when provided, otherwise a non-catalog price
+      // (the trial period only applies to non-catalog prices)
+      const item = data.priceId
+        ? { price_id: data.priceId, quantity: 1 }
+        : {
+            quantity: 1,
+            price: {
+              description: `Plan ${data.planId} (${data.billingCycle})`,
+              product: {
+                name: `Plan ${data.planId}`,
+                tax_category: 'standard',
+                custom_data: { plan_id: data.planId },
+              },
+              unit_price: {
+                amount: String(this.convertToSmallestUnit(data.amount)),
+                currency_code: data.currency.toUpperCase(),
+              },
+              billing_cycle: {
+                interval: data.billingCycle === 'yearly' ? 'year' : 'month',
+                frequency: 1,
+              },
+              trial_period: data.trialPeriodDays
+                ? { interval: 'day', frequency: data.trialPeriodDays }
+                : null,
+            },
+          };
+
+      const transaction = await this.paddle.post<PaddleTransaction>('/transactions', {
+        customer_id: data.customerId,
+        items: [item],
+        collection_mode: 'automatic',
+        custom_data: {
+          plan_id: data.planId,
+          ...data.metadata,
+        },
+      });
+
+      this.log('info', 'Paddle subscription checkout created', {
+        transactionId: transaction.id,
+        customerId: data.customerId,
+      });
+
+      return this.toPendingSubscription(transaction);
+    } catch (error: any) {
+      this.handlePaddleError(error, 'createSubscription');
+    }
+  }
+
+  async getSubscription(subscriptionId: string): Promise<CreateSubscriptionResult> {
+    try {
+      // Checkout transaction returned by createSubscription
+      if (subscriptionId.startsWith('txn_')) {
+        const transaction = await this.paddle.get<PaddleTransaction>(
+          `/transactions/${subscriptionId}`
+        );
+        if (!transaction.subscription_id) {
+          return this.toPendingSubscription(transaction);
+        }
+        subscriptionId = transaction.subscription_id;
+      }
+
+      const subscription = await this.paddle.get<PaddleSubscription>(
+        `/subscriptions/${subscriptionId}`
+      );
+      return this.toSubscriptionResult(subscription);
+    } catch (error: any) {
+      this.handlePaddleError(error, 'getSubscription');
+    }
+  }
+
+  async updateSubscription(
+    subscriptionId: string,
+    updates: {
+      planId?: string;
+      priceId?: string;
+      paymentMethodId?: string;
+      metadata?: Record<string, string>;
+    }
+  ): Promise<CreateSubscriptionResult> {
+    try {
+      this.rejectPaymentMethod(updates.paymentMethodId);
+
+      const updateParams: Record<string, unknown> = {};
+
+      if (updates.priceId) {
+        updateParams.items = [{ price_id: updates.priceId, quantity: 1 }];
+        updateParams.proration_billing_mode = 'prorated_immediately';
+      }
+
+      if (updates.metadata) {
+        updateParams.custom_data = updates.metadata;
+      }
+
+      if (Object.keys(updateParams).length === 0) {
+        return this.getSubscription(subscriptionId);
+      }
+
+      const subscription = await this.paddle.patch<PaddleSubscription>(
+        `/subscriptions/${subscriptionId}`,
+        updateParams
+      );
+
+      this.log('info', 'Paddle subscription updated', { subscriptionId });
+
+      return this.toSubscriptionResult(subscription);
+    } catch (error: any) {
+      this.handlePaddleError(error, 'updateSubscription');
+    }
+  }
+
+  async cancelSubscription(subscriptionId: string, immediately: boolean = false): Promise<void> {
+    try {
+      await this.paddle.post(`/subscriptions/${subscriptionId}/cancel`, {
+        effective_from: immediately ? 'immediately' : 'next_billing_period',
+      });
+
+      this.log('info', 'Paddle subscription cancelled', { subscriptionId, immediately });
+    } catch (error: any) {
+      this.handlePaddleError(error, 'cancelSubscription');
+    }
+  }
+
+  async createPaymentIntent(
+    amount: number,
+    currency: string,
+    customerId?: string,
+    paymentMethodId?: string,
+    metadata?: Record<string, string>
+  ): Promise<CreatePaymentIntentResult> {
+    try {
+      this.validateAmount(amount);
+      this.validateCurrency(currency);
+      this.rejectPaymentMethod(paymentMethodId);
+
+      const transaction = await this.paddle.post<PaddleTransaction>('/transactions', {
+        customer_id: customerId,
+        items: [
+          {
+            quantity: 1,
+            price: {
+              description: 'One-time payment',
+              product: { name: 'One-time payment', tax_category: 'standard' },
+              unit_price: {
+                amount: String(this.convertToSmallestUnit(amount)),
+                currency_code: currency.toUpperCase(),
+              },
+            },
+          },
+        ],
+        custom_data: metadata || {},
+      });
+
+      this.log('info', 'Paddle transaction created', {
+        transactionId: transaction.id,
+        amount,
+        currency,
+      });
+
+      return {
+        clientSecret: transaction.id,
+        paymentIntentId: transaction.id,
+        amount: transaction.details
+          ? this.convertFromSmallestUnit(Number(transaction.details.totals.total))
+          : amount,
+        currency: transaction.currency_code.toUpperCase(),
+      };
+    } catch (error: any) {
+      this.handlePaddleError(error, 'createPaymentIntent');
+    }
+  }
+
+  async getTransaction(transactionId: string): Promise<GetTransactionResult> {
+    try {
+      const transaction = await this.paddle.get<PaddleTransaction>(
+        `/transactions/${transactionId}`
+      );
+      return this.toTransactionResult(transaction);
+    } catch (error: any) {
+      this.handlePaddleError(error, 'getTransaction');
+    }
+  }
+
+  /**
+   * Paddle invoices are billed transactions; the PDF link is only available
+   * once the transaction is billed or completed
+   */
+  async getInvoice(invoiceId: string): Promise<GetTransactionResult> {
+    try {
+      const transaction = await this.paddle.get<PaddleTransaction>(`/transactions/${invoiceId}`);
+      const result = this.toTransactionResult(transaction);
+
+      if (['billed', 'paid', 'completed'].includes(transaction.status)) {
+        const invoice = await this.paddle.get<{ url: string }>(
+          `/transactions/${invoiceId}/invoice`
+        );
+        result.invoiceUrl = invoice?.url || undefined;
+      }
+
+      return result;
+    } catch (error: any) {
+      this.handlePaddleError(error, 'getInvoice');
+    }
+  }
+
+  /**
+   * Paddle collects failed renewals itself (its own payment recovery
+   * schedule); a past due transaction cannot be charged on demand
+   */
+  async retryInvoicePayment(invoiceId: string): Promise<GetTransactionResult> {
+    throw new PaymentGatewayError(
+      `Paddle retries failed renewal payments automatically; transaction ${invoiceId} cannot be charged on demand`,
+      'UNSUPPORTED_OPERATION',
+      400
+    );
+  }
+
+  async handleWebhook(event: WebhookEventData): Promise<{
+    type: string;
+    data: any;
+    processed: boolean;
+  }> {
+    try {
+      this.log('info', 'Processing Paddle webhook', { type: event.type, id: event.id });
+
+      const totalOf = (transaction: any) =>
+        this.convertFromSmallestUnit(
+          Number(
+            transaction.details?.totals?.grand_total ?? transaction.details?.totals?.total ?? 0
+          )
+        );
+
+      // Map Paddle event types to our internal event types
+      const eventHandlers: Record<string, (data: any) => Promise<any>> = {
+        'transaction.completed': async (data) => {
+          return {
+            type: 'payment_succeeded',
+            invoiceId: data.object.id,
+            subscriptionId: data.object.subscription_id,
+            customerId: data.object.customer_id,
+            amount: totalOf(data.object),
+            currency: data.object.currency_code.toUpperCase(),
+          };
+        },
+        'transaction.payment_failed': async (data) => {
+          return {
+            type: 'payment_failed',
+            invoiceId: data.object.id,
+            subscriptionId: data.object.subscription_id,
+            customerId: data.object.customer_id,
+            amount: totalOf(data.object),
+            currency: data.object.currency_code.toUpperCase(),
+          };
+        },
+        'subscription.updated': async (data) => {
+          return {
+            type: 'subscription_updated',
+            subscriptionId: data.object.id,
+            customerId: data.object.customer_id,
+            status: data.object.status,
+          };
+        },
+        'subscription.canceled': async (data) => {
+          return {
+            type: 'subscription_cancelled',
+            subscriptionId: data.object.id,
+            customerId: data.object.customer_id,
+          };
+        },
+        // Refunds are adjustments; they take effect once approved
+        'adjustment.updated': async (data) => {
+          if (data.object.action !== 'refund' || data.object.status !== 'approved') {
+            return null;
+          }
+          return {
+            type: 'refund_processed',
+            chargeId: data.object.transaction_id,
+            amount: this.convertFromSmallestUnit(Number(data.object.totals?.total ?? 0)),
+            currency: data.object.currency_code.toUpperCase(),
+          };
+        },
+      };
+
+      const handler = eventHandlers[event.type];
+      const result = handler ? await handler(event.data) : null;
+
+      if (result) {
+        return {
+          type: result.type,
+          data: result,
+          processed: true,
+        };
+      }
+
+      // Event type not handled
+      return {
+        type: event.type,
+        data: event.data.object,
+        processed: false,
+      };
+    } catch (error: any) {
+      this.handlePaddleError(error, 'handleWebhook');
+    }
+  }
+
+  /**
+   * Verify the Paddle-Signature header (`ts=<unix>;h1=<hmac>`): HMAC-SHA256 of
+   * `<ts>:<raw body>` with the notification destination secret. Several h1
+   * values are sent while a secret is being rotated.
+   */
+  verifyWebhookSignature(payload: string | Buffer, signature: string): boolean {
+    if (!this.config.webhookSecret) {
+      this.log('warn', 'Webhook secret not configured, skipping signature verification');
+      return true; // In development, allow without secret
+    }
+
+    const parts = signature.split(';').map((part) => part.split('='));
+    const timestamp = parts.find(([key]) => key === 'ts')?.[1];
+    const hashes = parts.filter(([key]) => key === 'h1').map(([, value]) => value);
+
+    if (!timestamp || hashes.length === 0) {
+      this.log('error', 'Webhook signature verification failed', {
+        error: 'Malformed signature header',
+      });
+      return false;
+    }
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+      this.log('error', 'Webhook signature verification failed', {
+        error: 'Timestamp outside tolerance',
+      });
+      return false;
+    }
+
+    const expected = createHmac('sha256', this.config.webhookSecret)
+      .update(`${timestamp}:${payload.toString()}`)
+      .digest();
+
+    const valid = hashes.some((hash) => {
+      const received = Buffer.from(hash || '', 'hex');
+      return received.length === expected.length && timingSafeEqual(received, expected);
+    });
+
+    if (!valid) {
+      this.log('error', 'Webhook signature verification failed', { error: 'Signature mismatch' });
+    }
+    return valid;
+  }
+
+  private handlePaddleError(error: any, context: string): never {
+    if (error instanceof PaddleApiError || error instanceof PaddleConnectionError) {
+      this.handleError(mapPaddleError(error, context), context);
+    }
+    this.handleError(error, context);
+  }
+
+  private rejectPaymentMethod(paymentMethodId?: string): void {
+    if (paymentMethodId) {
+      throw new PaymentValidationError(
+        'Paddle collects payment methods through Paddle Checkout; payment method IDs are not supported',
+        'paymentMethodId'
+      );
+    }
+  }
+
+  private toCustomData(metadata?: Record<string, string>, phone?: string): Record<string, string> {
+    return phone ? { ...metadata, [PHONE_CUSTOM_DATA_KEY]: phone } : { ...metadata };
+  }
+
+  private fromCustomData(customData: Record<string, string> | null): {
+    metadata: Record<string, string>;
+    phone?: string;
+  } {
+    const { [PHONE_CUSTOM_DATA_KEY]: phone, ...metadata } = customData || {};
+    return { metadata, phone: phone || undefined };
+  }
+
+  private toAddress(address: NonNullable<CustomerData['address']>) {
+    return {
+      first_line: address.line1,
+      second_line: address.line2,
+      city: address.city,
+      region: address.state,
+      postal_code: address.postal_code,
+      country_code: address.country?.toUpperCase(),
+    };
+  }
+
+  private toSubscriptionResult(subscription: PaddleSubscription): CreateSubscriptionResult {
+    const periodStart =
+      subscription.current_billing_period?.starts_at ||
+      subscription.started_at ||
+      subscription.created_at;
+    const periodEnd =
+      subscription.current_billing_period?.ends_at || subscription.next_billed_at || periodStart;
+
+    return {
+      subscriptionId: subscription.id,
+      customerId: subscription.customer_id,
+      status: subscription.status,
+      currentPeriodStart: toUnixTimestamp(periodStart),
+      currentPeriodEnd: toUnixTimestamp(periodEnd),
+      metadata: subscription.custom_data || {},
+    };
+  }
+
+  /**
+   * Subscription result for a checkout transaction that has not been paid yet
+   */
+  private toPendingSubscription(transaction: PaddleTransaction): CreateSubscriptionResult {
+    const metadata: Record<string, string> = {
+      ...transaction.custom_data,
+      transaction_id: transaction.id,
+    };
+    if (transaction.checkout?.url) {
+      metadata.checkout_url = transaction.checkout.url;
+    }
+
+    return {
+      subscriptionId: transaction.subscription_id || transaction.id,
+      customerId: transaction.customer_id || '',
+      status: 'incomplete',
+      currentPeriodStart: toUnixTimestamp(
+        transaction.billing_period?.starts_at || transaction.created_at
+      ),
+      currentPeriodEnd: toUnixTimestamp(
+        transaction.billing_period?.ends_at || transaction.created_at
+      ),
+      metadata,
+    };
+  }
+
+  private toTransactionResult(transaction: PaddleTransaction): GetTransactionResult {
+    return {
+      id: transaction.id,
+      amount: this.convertFromSmallestUnit(
+        Number(transaction.details?.totals.grand_total ?? transaction.details?.totals.total ?? 0)
+      ),
+      currency: transaction.currency_code.toUpperCase(),
+      status: ['paid', 'completed'].includes(transaction.status) ? 'completed' : transaction.status,
+      metadata: transaction.custom_data || undefined,
+    };
+  }
+}
@@ -258,6 +258,15 @@ export class StripeGateway extends BasePaymentGateway implements IPaymentGateway
       }
 
       if (updates.paymentMethodId) {
+        // The payment method has to belong to the customer before it can be
+        // the default of the subscription and of its future invoices
+        const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+        const customerId = subscription.customer as string;
+
+        await this.stripe.paymentMethods.attach(updates.paymentMethodId, { customer: customerId });
+        await this.stripe.customers.update(customerId, {
+          invoice_settings: { default_payment_method: updates.paymentMethodId },
+        });
         updateParams.default_payment_method = updates.paymentMethodId;
       }
 
@@ -381,22 +390,39 @@ export class StripeGateway extends BasePaymentGateway implements IPaymentGateway
   async getInvoice(invoiceId: string): Promise<GetTransactionResult> {
     try {
       const invoice = await this.stripe.invoices.retrieve(invoiceId);
-
-      return {
-        id: invoice.id,
-        amount: this.convertFromSmallestUnit(invoice.amount_paid || invoice.amount_due),
-        currency: invoice.currency.toUpperCase(),
-        status: invoice.status === 'paid' ? 'completed' : invoice.status || 'pending',
-        receiptUrl: invoice.hosted_invoice_url || undefined,
-        invoiceUrl: invoice.invoice_pdf || undefined,
-        metadata: invoice.metadata || undefined,
-      };
+      return this.toInvoiceResult(invoice);
     } catch (error: any) {
       this.handleError(error, 'getInvoice');
       throw error;
     }
   }
 
+  async retryInvoicePayment(invoiceId: string): Promise<GetTransactionResult> {
+    try {
+      // Charges the invoice with the customer's default payment method
+      const invoice = await this.stripe.invoices.pay(invoiceId);
+
+      this.log('info', 'Stripe invoice payment retried', { invoiceId, status: invoice.status });
+
+      return this.toInvoiceResult(invoice);
+    } catch (error: any) {
+      this.handleError(error, 'retryInvoicePayment');
+      throw error;
+    }
+  }
+
+  private toInvoiceResult(invoice: Stripe.Invoice): GetTransactionResult {
+    return {
+      id: invoice.id,
+      amount: this.convertFromSmallestUnit(invoice.amount_paid || invoice.amount_due),
+      currency: invoice.currency.toUpperCase(),
+      status: invoice.status === 'paid' ? 'completed' : invoice.status || 'pending',
+      receiptUrl: invoice.hosted_invoice_url || undefined,
+      invoiceUrl: invoice.invoice_pdf || undefined,
+      metadata: invoice.metadata || undefined,
+    };
+  }
+
   async handleWebhook(event: WebhookEventData): Promise<{
     type: string;
     data: any;
@@ -6,6 +6,7 @@
 
 import { IPaymentGateway, PaymentGatewayType, PaymentGatewayConfig } from './types';
 import { StripeGateway } from './gateways/stripe-gateway';
+import { PaddleGateway } from './gateways/paddle-gateway';
 
 /**
  * Create a payment gateway instance based on provider type
@@ -18,8 +19,7 @@ export function createPaymentGateway(
     case 'stripe':
       return new StripeGateway(config);
     case 'paddle':
-      // TODO: Implement Paddle gateway when needed
-      throw new Error('Paddle gateway not yet implemented');
+      return new PaddleGateway(config);
     default:
       throw new Error(`Unsupported payment gateway provider: ${type}`);
   }
@@ -30,6 +30,23 @@ export function createPaymentGateway(
  */
 export function getPaymentGatewayFromEnv(): IPaymentGateway {
   const provider = (process.env.PAYMENT_GATEWAY_PROVIDER || 'stripe') as PaymentGatewayType;
+
+  if (provider === 'paddle') {
+    const apiKey = process.env.PADDLE_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('Missing PADDLE_API_KEY environment variable');
+    }
+
+    return createPaymentGateway(provider, {
+      provider,
+      secretKey: apiKey,
+      publishableKey: process.env.NEXT_PUBLIC_PADDLE_CLIENT_TOKEN,
+      webhookSecret: process.env.PADDLE_WEBHOOK_SECRET,
+      environment: process.env.PADDLE_ENVIRONMENT,
+    });
+  }
+
   const secretKey = process.env.STRIPE_SECRET_KEY;
   const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
@@ -47,4 +64,3 @@ export function getPaymentGatewayFromEnv(): IPaymentGateway {
 
   return createPaymentGateway(provider, config);
 }
-
@@ -208,6 +208,11 @@ export interface IPaymentGateway {
    */
   getInvoice(invoiceId: string): Promise<GetTransactionResult>;
 
+  /**
+   * Attempt to collect an open (past due) invoice again
+   */
+  retryInvoicePayment(invoiceId: string): Promise<GetTransactionResult>;
+
   /**
    * Handle webhook events from payment gateway
    */
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  clearRoleCache,
+  createAccountRole,
+  normalizePermissions,
+  UpdateRoleSchema,
+  userHasPermission,
+} from '../roles';
+import { getEffectivePermissions, hasPermission } from '@/utils/rbac/permissions';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const ROLE_ID = '22222222-2222-2222-2222-222222222222';
+
+describe('built-in roles', () => {
+  it('should keep billing and users management with owners', () => {
+    expect(hasPermission('owner', 'billing', 'manage')).toBe(true);
+    expect(hasPermission('admin', 'billing', 'write')).toBe(false);
+    expect(hasPermission('admin', 'users', 'manage')).toBe(false);
+    expect(hasPermission('editor', 'boltx', 'write')).toBe(false);
+    expect(hasPermission('viewer', 'dashboard', 'read')).toBe(true);
+  });
+
+  it('should add custom grants to the built-in role', () => {
+    const custom = [{ resource: 'boltx', action: 'write' as const }];
+
+    expect(hasPermission('viewer', 'boltx', 'write', custom)).toBe(true);
+    expect(hasPermission('viewer', 'boltx', 'delete', custom)).toBe(false);
+    expect(getEffectivePermissions('viewer', custom)).toHaveLength(3);
+  });
+});
+
+describe('normalizePermissions', () => {
+  it('should drop duplicates and grants implied by manage', () => {
+    expect(
+      normalizePermissions([
+        { resource: 'boltx', action: 'write' },
+        { resource: 'boltx', action: 'write' },
+        { resource: 'b2b', action: 'read' },
+        { resource: 'b2b', action: 'manage' },
+      ])
+    ).toEqual([
+      { resource: 'boltx', action: 'write' },
+      { resource: 'b2b', action: 'manage' },
+    ]);
+  });
+});
+
+describe('UpdateRoleSchema', () => {
+  it('should reject empty updates and unknown resources', () => {
+    expect(UpdateRoleSchema.safeParse({}).success).toBe(false);
+    expect(
+      UpdateRoleSchema.safeParse({ permissions: [{ resource: 'root', action: 'write' }] }).success
+    ).toBe(false);
+    expect(UpdateRoleSchema.safeParse({ name: 'BoltX operator' }).success).toBe(true);
+  });
+});
+
+describe('createAccountRole', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should store normalized grants', async () => {
+    mockRpc.mockResolvedValueOnce({ data: ROLE_ID, error: null });
+
+    const { id, error } = await createAccountRole(
+      ACCOUNT_ID,
+      {
+        name: 'BoltX operator',
+        permissions: [
+          { resource: 'boltx', action: 'write' },
+          { resource: 'boltx', action: 'write' },
+        ],
+      },
+      'user-1'
+    );
+
+    expect(error).toBeNull();
+    expect(id).toBe(ROLE_ID);
+    expect(mockRpc).toHaveBeenCalledWith('create_account_role', {
+      p_account_id: ACCOUNT_ID,
+      p_name: 'BoltX operator',
+      p_description: null,
+      p_permissions: [{ resource: 'boltx', action: 'write' }],
+      p_created_by: 'user-1',
+    });
+  });
+});
+
+describe('userHasPermission', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    clearRoleCache();
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should not load the custom role when the built-in role allows the action', async () => {
+    const allowed = await userHasPermission(
+      { role: 'admin', account_id: ACCOUNT_ID, custom_role_id: ROLE_ID },
+      'boltx',
+      'write'
+    );
+
+    expect(allowed).toBe(true);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('should allow actions granted by the custom role (cached)', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        { resource: 'boltx', action: 'write' },
+        { resource: 'unknown', action: 'write' },
+      ],
+      error: null,
+    });
+    const viewer = { role: 'viewer' as const, account_id: ACCOUNT_ID, custom_role_id: ROLE_ID };
+
+    expect(await userHasPermission(viewer, 'boltx', 'write')).toBe(true);
+    expect(await userHasPermission(viewer, 'billing', 'write')).toBe(false);
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(mockRpc).toHaveBeenCalledWith('get_account_role_permissions', {
+      p_account_id: ACCOUNT_ID,
+      p_role_id: ROLE_ID,
+    });
+  });
+
+  it('should deny when the custom role cannot be loaded', async () => {
+    mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'boom' } });
+
+    const allowed = await userHasPermission(
+      { role: 'editor', account_id: ACCOUNT_ID, custom_role_id: ROLE_ID },
+      'integrations',
+      'write'
+    );
+
+    expect(allowed).toBe(false);
+  });
+
+  it('should deny users without a custom role', async () => {
+    const allowed = await userHasPermission(
+      { role: 'viewer', account_id: ACCOUNT_ID, custom_role_id: null },
+      'boltx',
+      'write'
+    );
+
+    expect(allowed).toBe(false);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Custom Roles
+ *
+ * Account-defined roles with resource/action grants (migration 093). A user
+ * keeps one of the four built-in roles and can be assigned one custom role,
+ * whose grants are added to the built-in ones; e.g. a viewer assigned a
+ * "BoltX operator" role that grants boltx write. withPermission
+ * (src/lib/api/route-handler.ts) enforces the combined grants on the API.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { User } from '@/lib/api/auth';
+import {
+  RBAC_ACTIONS,
+  RBAC_RESOURCES,
+  hasPermission,
+  permissionsAllow,
+  type Action,
+  type Permission,
+  type Resource,
+  type Role,
+} from '@/utils/rbac/permissions';
+
+export interface AccountRole {
+  id: string;
+  account_id: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  user_count: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** How long the grants of a custom role are cached per instance */
+const CACHE_TTL_MS = 60 * 1000;
+
+const PermissionSchema = z.object({
+  resource: z.enum(RBAC_RESOURCES),
+  action: z.enum(RBAC_ACTIONS),
+});
+
+const roleFields = {
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name is too long'),
+  description: z.string().trim().max(500, 'Description is too long').nullable().optional(),
+  permissions: z.array(PermissionSchema).max(RBAC_RESOURCES.length * RBAC_ACTIONS.length),
+};
+
+export const CreateRoleSchema = z.object(roleFields);
+
+export const UpdateRoleSchema = z
+  .object(roleFields)
+  .partial()
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export const AssignRoleSchema = z.object({
+  customRoleId: z.uuid().nullable(),
+});
+
+export type CreateRoleInput = z.infer<typeof CreateRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof UpdateRoleSchema>;
+
+/**
+ * Drop duplicate grants and grants implied by 'manage' on the same resource
+ */
+export function normalizePermissions(permissions: Permission[]): Permission[] {
+  const managed = new Set(permissions.filter((p) => p.action === 'manage').map((p) => p.resource));
+  const seen = new Set<string>();
+
+  return permissions.filter((p) => {
+    const key = `${p.resource}:${p.action}`;
+    if (seen.has(key) || (p.action !== 'manage' && managed.has(p.resource))) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parse grants stored in the database, ignoring unknown resources and actions
+ */
+function parseStoredPermissions(value: unknown): Permission[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter((p): p is Permission => PermissionSchema.safeParse(p).success);
+}
+
+function toAccountRole(row: Record<string, unknown>): AccountRole {
+  return {
+    ...(row as unknown as AccountRole),
+    permissions: parseStoredPermissions(row.permissions),
+    user_count: Number(row.user_count || 0),
+  };
+}
+
+const rolePermissionsCache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+/**
+ * Forget cached grants (after a role changes, and in tests)
+ */
+export function clearRoleCache(roleId?: string): void {
+  if (roleId) {
+    rolePermissionsCache.delete(roleId);
+  } else {
+    rolePermissionsCache.clear();
+  }
+}
+
+/**
+ * Custom roles of an account
+ */
+export async function getAccountRoles(
+  accountId: string
+): Promise<{ roles: AccountRole[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_account_roles', {
+    p_account_id: accountId,
+  });
+
+  if (error) {
+    return { roles: [], error };
+  }
+
+  return { roles: ((data || []) as Record<string, unknown>[]).map(toAccountRole), error: null };
+}
+
+/**
+ * Create a custom role
+ */
+export async function createAccountRole(
+  accountId: string,
+  input: CreateRoleInput,
+  createdBy?: string
+): Promise<{ id: string | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('create_account_role', {
+    p_account_id: accountId,
+    p_name: input.name,
+    p_description: input.description ?? null,
+    p_permissions: normalizePermissions(input.permissions),
+    p_created_by: createdBy ?? null,
+  });
+
+  if (error) {
+    return { id: null, error };
+  }
+
+  return { id: data as string, error: null };
+}
+
+/**
+ * Update the name, description or grants of a custom role
+ */
+export async function updateAccountRole(
+  accountId: string,
+  roleId: string,
+  input: UpdateRoleInput
+): Promise<{ updated: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('update_account_role', {
+    p_account_id: accountId,
+    p_role_id: roleId,
+    p_name: input.name ?? null,
+    p_description: input.description ?? null,
+    p_permissions: input.permissions ? normalizePermissions(input.permissions) : null,
+  });
+
+  clearRoleCache(roleId);
+
+  if (error) {
+    return { updated: false, error };
+  }
+
+  return { updated: !!data, error: null };
+}
+
+/**
+ * Delete a custom role (its users keep their built-in role)
+ */
+export async function deleteAccountRole(
+  accountId: string,
+  roleId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_account_role', {
+    p_account_id: accountId,
+    p_role_id: roleId,
+  });
+
+  clearRoleCache(roleId);
+
+  if (error) {
+    return { deleted: false, error };
+  }
+
+  return { deleted: !!data, error: null };
+}
+
+/**
+ * Assign a custom role to a user of the account (null removes it)
+ */
+export async function assignUserRole(
+  accountId: string,
+  userId: string,
+  roleId: string | null
+): Promise<{ assigned: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('set_user_custom_role', {
+    p_account_id: accountId,
+    p_user_id: userId,
+    p_role_id: roleId,
+  });
+
+  if (error) {
+    return { assigned: false, error };
+  }
+
+  return { assigned: !!data, error: null };
+}
+
+/**
+ * Grants of a custom role of the account (cached)
+ */
+export async function getCustomRolePermissions(
+  accountId: string,
+  roleId: string
+): Promise<Permission[]> {
+  const cached = rolePermissionsCache.get(roleId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('get_account_role_permissions', {
+    p_account_id: accountId,
+    p_role_id: roleId,
+  });
+
+  if (error) {
+    // Not cached, so the next request retries the lookup
+    console.error('❌ [DEBUG] Error loading custom role permissions:', error);
+    return [];
+  }
+
+  const permissions = parseStoredPermissions(data);
+  rolePermissionsCache.set(roleId, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+  return permissions;
+}
+
+/**
+ * Whether a user may perform an action on a resource, through their built-in
+ * role or their custom role. The custom role is only loaded when the built-in
+ * role does not already allow the action.
+ */
+export async function userHasPermission(
+  user: Pick<User, 'role' | 'account_id' | 'custom_role_id'>,
+  resource: Resource,
+  action: Action
+): Promise<boolean> {
+  const role = (user.role || 'viewer') as Role;
+  if (hasPermission(role, resource, action)) {
+    return true;
+  }
+
+  if (!user.custom_role_id || !user.account_id) {
+    return false;
+  }
+
+  const permissions = await getCustomRolePermissions(user.account_id, user.custom_role_id);
+  return permissionsAllow(permissions, resource, action);
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { queryAnalytics, queryAnalyticsTotals } from '@/lib/analytics/aggregation';
+import { buildDigestReport } from '../digest-report';
+import { getDigestPeriod, ReportDigestSchema } from '../digests';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/analytics/aggregation', () => ({
+  queryAnalytics: vi.fn(),
+  queryAnalyticsTotals: vi.fn(),
+}));
+
+const PERIOD = getDigestPeriod('weekly', new Date('2026-10-19T08:00:00Z'));
+
+function totals(sessions: number, convertedSessions: number, convertedRevenue: number) {
+  return {
+    data: { dimensions: {}, sessions, convertedSessions, convertedRevenue },
+    error: null,
+  };
+}
+
+function devices(rows: Array<[string, number, number]>) {
+  return {
+    data: rows.map(([deviceType, sessions, convertedSessions]) => ({
+      dimensions: { deviceType },
+      sessions,
+      convertedSessions,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Checkouts per device and conversions of the current and previous periods
+ */
+function mockPeriods(
+  current: { devices: Array<[string, number, number]>; conversions: number; revenue: number },
+  previous: { devices: Array<[string, number, number]>; conversions: number; revenue: number }
+) {
+  vi.mocked(queryAnalytics).mockImplementation((async (query: {
+    period: { start: Date };
+    dimensions?: string[];
+  }) => {
+    if (query.dimensions?.includes('hour')) {
+      return {
+        data: [
+          { dimensions: { hour: '2026-10-14T20:00:00Z' }, sessions: 30 },
+          { dimensions: { hour: '2026-10-15T14:00:00Z' }, sessions: 20 },
+          { dimensions: { hour: '2026-10-16T20:00:00Z' }, sessions: 25 },
+        ],
+        error: null,
+      };
+    }
+    const isCurrent = query.period.start.getTime() === PERIOD.start.getTime();
+    return devices(isCurrent ? current.devices : previous.devices);
+  }) as never);
+
+  vi.mocked(queryAnalyticsTotals).mockImplementation((async (query: {
+    period: { start: Date };
+    eventTypes: string[];
+  }) => {
+    if (query.eventTypes.includes('payment_step')) {
+      return totals(40, 30, 0);
+    }
+    const data = query.period.start.getTime() === PERIOD.start.getTime() ? current : previous;
+    return totals(data.conversions, data.conversions, data.revenue);
+  }) as never);
+}
+
+describe('getDigestPeriod', () => {
+  it('should cover the day, week or month before the send time', () => {
+    const sentAt = new Date('2026-03-01T08:00:00Z');
+
+    expect(getDigestPeriod('daily', sentAt).start.toISOString()).toBe('2026-02-28T08:00:00.000Z');
+    expect(getDigestPeriod('weekly', sentAt).start.toISOString()).toBe('2026-02-22T08:00:00.000Z');
+    expect(getDigestPeriod('monthly', sentAt).start.toISOString()).toBe('2026-02-01T08:00:00.000Z');
+    expect(getDigestPeriod('monthly', sentAt).end).toEqual(sentAt);
+  });
+});
+
+describe('ReportDigestSchema', () => {
+  it('should keep metrics in display order and require one', () => {
+    expect(
+      ReportDigestSchema.parse({
+        frequency: 'weekly',
+        metrics: ['insights', 'revenue', 'revenue'],
+        locale: 'pt-BR',
+      })
+    ).toEqual({
+      frequency: 'weekly',
+      metrics: ['revenue', 'insights'],
+      locale: 'pt-BR',
+      enabled: true,
+    });
+
+    expect(
+      ReportDigestSchema.safeParse({ frequency: 'weekly', metrics: [], locale: 'en' }).success
+    ).toBe(false);
+  });
+});
+
+describe('buildDigestReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should compare the metrics with the previous period', async () => {
+    mockPeriods(
+      {
+        devices: [
+          ['desktop', 60, 15],
+          ['mobile', 40, 5],
+        ],
+        conversions: 20,
+        revenue: 2000,
+      },
+      {
+        devices: [
+          ['desktop', 50, 10],
+          ['mobile', 30, 6],
+        ],
+        conversions: 16,
+        revenue: 2000,
+      }
+    );
+
+    const { report, error } = await buildDigestReport(
+      'account-1',
+      'weekly',
+      ['conversion_rate', 'revenue', 'avg_order_value', 'abandonment_rate'],
+      PERIOD
+    );
+
+    expect(error).toBeNull();
+    expect(report?.previousPeriod.end).toEqual(PERIOD.start);
+    expect(report?.metrics).toEqual([
+      { metric: 'conversion_rate', value: 20, previous: 20, change: 0 },
+      { metric: 'revenue', value: 2000, previous: 2000, change: 0 },
+      { metric: 'avg_order_value', value: 100, previous: 125, change: -20 },
+      { metric: 'abandonment_rate', value: 80, previous: 80, change: 0 },
+    ]);
+    expect(report?.insights).toEqual([]);
+    expect(queryAnalytics).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report no change when the previous period has no data', async () => {
+    mockPeriods(
+      { devices: [['desktop', 10, 2]], conversions: 2, revenue: 300 },
+      { devices: [], conversions: 0, revenue: 0 }
+    );
+
+    const { report } = await buildDigestReport('account-1', 'weekly', ['revenue'], PERIOD);
+
+    expect(report?.metrics).toEqual([{ metric: 'revenue', value: 300, previous: 0, change: null }]);
+  });
+
+  it('should include the top insights', async () => {
+    mockPeriods(
+      {
+        devices: [
+          ['desktop', 60, 15],
+          ['mobile', 40, 2],
+        ],
+        conversions: 17,
+        revenue: 1700,
+      },
+      {
+        devices: [
+          ['desktop', 50, 20],
+          ['mobile', 50, 10],
+        ],
+        conversions: 30,
+        revenue: 3000,
+      }
+    );
+
+    const { report } = await buildDigestReport('account-1', 'weekly', ['insights'], PERIOD);
+
+    expect(report?.metrics).toEqual([]);
+    expect(report?.insights.length).toBeGreaterThan(0);
+    expect(report?.insights.length).toBeLessThanOrEqual(3);
+    expect(report?.insights[0].impact).toBe('high');
+    expect(JSON.stringify(report?.insights)).not.toContain('Infinity');
+  });
+
+  it('should return the error of a failed query', async () => {
+    vi.mocked(queryAnalytics).mockResolvedValue({ data: null, error: new Error('timeout') });
+    vi.mocked(queryAnalyticsTotals).mockResolvedValue(totals(0, 0, 0) as never);
+
+    const { report, error } = await buildDigestReport('account-1', 'daily', ['revenue'], PERIOD);
+
+    expect(report).toBeNull();
+    expect(error?.message).toBe('timeout');
+  });
+});
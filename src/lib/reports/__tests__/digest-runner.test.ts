@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { shouldUseDemoData } from '@/lib/automation/demo-mode';
+import { getEmailService } from '@/utils/auth/email-service';
+import { buildDigestReport } from '../digest-report';
+import { runDueReportDigests } from '../digest-runner';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/automation/demo-mode', () => ({
+  shouldUseDemoData: vi.fn(),
+}));
+
+vi.mock('../digest-report', () => ({
+  buildDigestReport: vi.fn(),
+}));
+
+vi.mock('@/utils/auth/email-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth/email-service')>()),
+  getEmailService: vi.fn(),
+}));
+
+const DIGEST = {
+  id: 'digest-1',
+  user_id: 'user-1',
+  account_id: 'account-1',
+  frequency: 'weekly',
+  metrics: ['revenue', 'conversion_rate'],
+  locale: 'pt-BR',
+  scheduled_for: '2026-10-19T08:00:00Z',
+  email: 'ana@example.com',
+  first_name: 'Ana',
+};
+
+function mockRpc(digests: Array<Partial<typeof DIGEST>>) {
+  const rpc = vi.fn(async (name: string) => {
+    switch (name) {
+      case 'claim_due_report_digests':
+        return { data: digests.map((digest) => ({ ...DIGEST, ...digest })), error: null };
+      case 'get_user_settings':
+        return { data: { general: { currency: 'BRL' } }, error: null };
+      default:
+        return { data: null, error: null };
+    }
+  });
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+describe('runDueReportDigests', () => {
+  const sendEmail = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendEmail.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({ sendEmail });
+    vi.mocked(shouldUseDemoData).mockResolvedValue(false);
+    vi.mocked(buildDigestReport).mockImplementation(
+      async (_accountId, frequency, _metrics, period) => ({
+        report: {
+          frequency,
+          period,
+          previousPeriod: period,
+          metrics: [
+            { metric: 'revenue', value: 1234.5, previous: 1000, change: 23.5 },
+            { metric: 'conversion_rate', value: 2.5, previous: 0, change: null },
+          ],
+          insights: [],
+        },
+        error: null,
+      })
+    );
+  });
+
+  it('should send the period ending at the scheduled time in the digest locale', async () => {
+    const rpc = mockRpc([{}]);
+    const now = new Date('2026-10-19T09:30:00Z');
+
+    const { result, error } = await runDueReportDigests({ now });
+
+    expect(error).toBeNull();
+    expect(result).toEqual({ claimed: 1, sent: 1, skipped: 0, failed: 0 });
+    expect(rpc).toHaveBeenCalledWith('claim_due_report_digests', {
+      p_now: now.toISOString(),
+      p_limit: 100,
+    });
+    expect(buildDigestReport).toHaveBeenCalledWith('account-1', 'weekly', DIGEST.metrics, {
+      start: new Date('2026-10-12T08:00:00Z'),
+      end: new Date('2026-10-19T08:00:00Z'),
+    });
+
+    const email = sendEmail.mock.calls[0][0];
+    expect(email.to).toBe('ana@example.com');
+    expect(email.subject).toBe('📊 Seu relatório semanal do BOLT');
+    expect(email.text).toContain('Olá, Ana!');
+    expect(email.text).toContain('Receita: R$');
+    expect(email.text).toContain('▲ 23,5%');
+    expect(email.text).toContain('Sem dados no período anterior');
+    expect(rpc).toHaveBeenCalledWith('complete_report_digest', {
+      p_digest_id: 'digest-1',
+      p_error: null,
+    });
+  });
+
+  it('should record failures and skip demo accounts', async () => {
+    const rpc = mockRpc([{ id: 'digest-1' }, { id: 'digest-2', account_id: 'demo-account' }]);
+    vi.mocked(shouldUseDemoData).mockImplementation(
+      async (accountId) => accountId === 'demo-account'
+    );
+    sendEmail.mockRejectedValueOnce(new Error('Resend API error'));
+
+    const { result } = await runDueReportDigests();
+
+    expect(result).toEqual({ claimed: 2, sent: 0, skipped: 1, failed: 1 });
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('complete_report_digest', {
+      p_digest_id: 'digest-1',
+      p_error: 'Resend API error',
+    });
+    expect(rpc).toHaveBeenCalledWith('complete_report_digest', {
+      p_digest_id: 'digest-2',
+      p_error: 'Account is in demo mode',
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Digest Report
+ *
+ * Metrics of a report digest for a period and their change against the
+ * previous period of the same length (getPreviousDateRange), plus the top
+ * insights of insights-generator.ts. Aggregated in the database with the
+ * analytics query builder.
+ */
+
+import { queryAnalytics, queryAnalyticsTotals } from '@/lib/analytics/aggregation';
+import { getPreviousDateRange, type DateRange } from '@/utils/date-ranges';
+import {
+  generateBenchmarkInsights,
+  generateInsightsFromMetrics,
+  type CheckoutMetrics,
+} from '@/utils/dashboard/insights-generator';
+import type { Insight } from '@/app/dashboard/insights/page';
+import type { DigestFrequency, DigestMetric } from './digests';
+
+const CHECKOUT_START_EVENTS = ['checkout_start', 'checkout_started'];
+const CHECKOUT_COMPLETE_EVENTS = ['checkout_complete', 'order_confirmed'];
+
+/**
+ * Insights included in a digest
+ */
+const MAX_INSIGHTS = 3;
+
+export type DigestValueMetric = Exclude<DigestMetric, 'insights'>;
+
+export interface DigestMetricValue {
+  metric: DigestValueMetric;
+  value: number;
+  previous: number;
+  /** Percentage change (null when the previous period had no data) */
+  change: number | null;
+}
+
+export interface DigestReport {
+  frequency: DigestFrequency;
+  period: DateRange;
+  previousPeriod: DateRange;
+  metrics: DigestMetricValue[];
+  insights: Insight[];
+}
+
+interface PeriodSummary {
+  checkouts: number;
+  conversions: number;
+  revenue: number;
+  conversionRate: number;
+  abandonmentRate: number;
+  avgOrderValue: number;
+  /** Conversion rate of checkouts started per device type */
+  deviceConversionRates: Record<string, number>;
+}
+
+function clampPercentage(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+/**
+ * Checkouts, conversions and revenue of a period
+ * Revenue is the highest conversion revenue per session, so stores sending
+ * both checkout_complete and order_confirmed are not counted twice
+ */
+async function summarizePeriod(
+  accountId: string,
+  period: DateRange
+): Promise<{ summary: PeriodSummary | null; error: Error | null }> {
+  const [checkoutsResult, conversionsResult] = await Promise.all([
+    queryAnalytics({
+      accountId,
+      period,
+      eventTypes: CHECKOUT_START_EVENTS,
+      dimensions: ['deviceType'],
+      conversionEventTypes: CHECKOUT_COMPLETE_EVENTS,
+      attribution: 'session',
+    }),
+    queryAnalyticsTotals({
+      accountId,
+      period,
+      eventTypes: CHECKOUT_COMPLETE_EVENTS,
+      conversionEventTypes: CHECKOUT_COMPLETE_EVENTS,
+    }),
+  ]);
+
+  const error = checkoutsResult.error || conversionsResult.error;
+  if (error || !checkoutsResult.data || !conversionsResult.data) {
+    return { summary: null, error: error || new Error('No analytics returned') };
+  }
+
+  const deviceConversionRates: Record<string, number> = {};
+  let checkouts = 0;
+  checkoutsResult.data.forEach((row) => {
+    checkouts += row.sessions;
+    deviceConversionRates[row.dimensions.deviceType] =
+      row.sessions > 0 ? clampPercentage((row.convertedSessions / row.sessions) * 100) : 0;
+  });
+
+  const conversions = conversionsResult.data.convertedSessions;
+  const revenue = conversionsResult.data.convertedRevenue;
+  const conversionRate = checkouts > 0 ? clampPercentage((conversions / checkouts) * 100) : 0;
+
+  return {
+    summary: {
+      checkouts,
+      conversions,
+      revenue,
+      conversionRate,
+      abandonmentRate: checkouts > 0 ? clampPercentage(100 - conversionRate) : 0,
+      avgOrderValue: conversions > 0 ? revenue / conversions : 0,
+      deviceConversionRates,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Payment step abandonment and the two busiest hours (UTC) of a period
+ */
+async function getInsightSignals(
+  accountId: string,
+  period: DateRange
+): Promise<{ paymentAbandonmentRate: number; peakHours: string[] }> {
+  const [paymentResult, hourlyResult] = await Promise.all([
+    queryAnalyticsTotals({
+      accountId,
+      period,
+      eventTypes: ['payment_step'],
+      conversionEventTypes: CHECKOUT_COMPLETE_EVENTS,
+    }),
+    queryAnalytics({
+      accountId,
+      period,
+      eventTypes: CHECKOUT_START_EVENTS,
+      dimensions: ['hour'],
+    }),
+  ]);
+
+  const payment = paymentResult.data;
+  const paymentAbandonmentRate =
+    payment && payment.sessions > 0
+      ? clampPercentage(((payment.sessions - payment.convertedSessions) / payment.sessions) * 100)
+      : 0;
+
+  const hourCounts: Record<number, number> = {};
+  (hourlyResult.data || []).forEach((row) => {
+    const hour = new Date(row.dimensions.hour).getUTCHours();
+    hourCounts[hour] = (hourCounts[hour] || 0) + row.sessions;
+  });
+
+  const peakHours = Object.entries(hourCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 2)
+    .map(([hour]) => `${hour}:00 UTC`);
+
+  return { paymentAbandonmentRate, peakHours };
+}
+
+function percentageChange(value: number, previous: number): number | null {
+  if (previous === 0) {
+    return value === 0 ? 0 : null;
+  }
+  return Math.round(((value - previous) / previous) * 1000) / 10;
+}
+
+const METRIC_VALUES: Record<DigestValueMetric, (summary: PeriodSummary) => number> = {
+  conversion_rate: (summary) => summary.conversionRate,
+  revenue: (summary) => summary.revenue,
+  avg_order_value: (summary) => summary.avgOrderValue,
+  abandonment_rate: (summary) => summary.abandonmentRate,
+};
+
+/**
+ * Build the report of a digest for a period
+ */
+export async function buildDigestReport(
+  accountId: string,
+  frequency: DigestFrequency,
+  metrics: readonly DigestMetric[],
+  period: DateRange
+): Promise<{ report: DigestReport | null; error: Error | null }> {
+  const previousPeriod = getPreviousDateRange(period);
+
+  const [currentResult, previousResult] = await Promise.all([
+    summarizePeriod(accountId, period),
+    summarizePeriod(accountId, previousPeriod),
+  ]);
+
+  const current = currentResult.summary;
+  const previous = previousResult.summary;
+  if (!current || !previous) {
+    return { report: null, error: currentResult.error || previousResult.error };
+  }
+
+  const values = metrics
+    .filter((metric): metric is DigestValueMetric => metric !== 'insights')
+    .map((metric) => {
+      const value = METRIC_VALUES[metric](current);
+      const previousValue = METRIC_VALUES[metric](previous);
+      return {
+        metric,
+        value,
+        previous: previousValue,
+        change: percentageChange(value, previousValue),
+      };
+    });
+
+  let insights: Insight[] = [];
+  if (metrics.includes('insights') && current.checkouts > 0) {
+    const signals = await getInsightSignals(accountId, period);
+
+    // Without a previous period there is nothing to compare against
+    const checkoutMetrics: CheckoutMetrics = {
+      conversionRate: current.conversionRate,
+      previousConversionRate:
+        previous.checkouts > 0 ? previous.conversionRate : current.conversionRate,
+      abandonmentRate: current.abandonmentRate,
+      mobileConversionRate: current.deviceConversionRates.mobile ?? 0,
+      desktopConversionRate: current.deviceConversionRates.desktop ?? 0,
+      avgOrderValue: current.avgOrderValue,
+      previousAOV: previous.conversions > 0 ? previous.avgOrderValue : current.avgOrderValue,
+      paymentAbandonmentRate: signals.paymentAbandonmentRate,
+      avgCheckoutTime: 0,
+      peakHours: signals.peakHours,
+    };
+
+    const impactOrder = { high: 3, medium: 2, low: 1 };
+    insights = [
+      ...generateInsightsFromMetrics(checkoutMetrics),
+      ...generateBenchmarkInsights(checkoutMetrics),
+    ]
+      .sort((a, b) => impactOrder[b.impact] - impactOrder[a.impact])
+      .slice(0, MAX_INSIGHTS);
+  }
+
+  return {
+    report: { frequency, period, previousPeriod, metrics: values, insights },
+    error: null,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Report Digest Runner
+ *
+ * Sends the report digests that are due. Run by the jobs endpoint
+ * (POST /api/jobs/report-digests) on a schedule, or locally with
+ * `npm run digests:send`. Subscriptions are claimed in the database before
+ * they are sent, so concurrent runs never send the same digest twice; a
+ * failed send is recorded on the subscription and retried next period.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { shouldUseDemoData } from '@/lib/automation/demo-mode';
+import { generateReportDigestEmail, getEmailService } from '@/utils/auth/email-service';
+import { buildDigestReport } from './digest-report';
+import { getDigestPeriod, type DigestFrequency, type DigestMetric } from './digests';
+
+/**
+ * Subscriptions claimed per run
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface DueReportDigest {
+  id: string;
+  user_id: string;
+  account_id: string;
+  frequency: DigestFrequency;
+  metrics: DigestMetric[];
+  locale: string;
+  scheduled_for: string;
+  email: string;
+  first_name: string | null;
+}
+
+export interface DigestRunResult {
+  claimed: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Display currency of a user (general settings), USD by default
+ */
+async function getUserCurrency(userId: string): Promise<string> {
+  const { data } = await getSupabaseAdmin().rpc('get_user_settings', { p_user_id: userId });
+  return data?.general?.currency || 'USD';
+}
+
+/**
+ * Build and send one digest for the period ending at `sentAt`
+ */
+export async function sendReportDigest(
+  digest: Pick<
+    DueReportDigest,
+    'user_id' | 'account_id' | 'frequency' | 'metrics' | 'locale' | 'email' | 'first_name'
+  >,
+  sentAt: Date
+): Promise<{ error: Error | null }> {
+  const period = getDigestPeriod(digest.frequency, sentAt);
+  const { report, error } = await buildDigestReport(
+    digest.account_id,
+    digest.frequency,
+    digest.metrics,
+    period
+  );
+
+  if (error || !report) {
+    return { error: error || new Error('Failed to build report') };
+  }
+
+  try {
+    const currency = await getUserCurrency(digest.user_id);
+    const { html, text, subject } = generateReportDigestEmail(report, {
+      firstName: digest.first_name,
+      currency,
+      locale: digest.locale,
+    });
+
+    await getEmailService().sendEmail({ to: digest.email, subject, html, text });
+    return { error: null };
+  } catch (sendError) {
+    return { error: sendError instanceof Error ? sendError : new Error(String(sendError)) };
+  }
+}
+
+/**
+ * Claim the digests due at `now` and send them
+ * Each digest reports on the period ending at its scheduled time, so a late
+ * run still sends the period the subscriber expects
+ */
+export async function runDueReportDigests(
+  options: { now?: Date; limit?: number } = {}
+): Promise<{ result: DigestRunResult; error: Error | null }> {
+  const result: DigestRunResult = { claimed: 0, sent: 0, skipped: 0, failed: 0 };
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase.rpc('claim_due_report_digests', {
+    p_now: (options.now || new Date()).toISOString(),
+    p_limit: options.limit || DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Failed to claim report digests:', error);
+    return { result, error };
+  }
+
+  const digests = (data || []) as DueReportDigest[];
+  result.claimed = digests.length;
+
+  for (const digest of digests) {
+    let sendError: string | null = null;
+
+    // Demo accounts have no real data to report
+    if (await shouldUseDemoData(digest.account_id)) {
+      sendError = 'Account is in demo mode';
+      result.skipped++;
+    } else {
+      const { error: digestError } = await sendReportDigest(digest, new Date(digest.scheduled_for));
+      if (digestError) {
+        console.error(`❌ [DEBUG] Failed to send report digest ${digest.id}:`, digestError);
+        sendError = digestError.message;
+        result.failed++;
+      } else {
+        result.sent++;
+      }
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_report_digest', {
+      p_digest_id: digest.id,
+      p_error: sendError,
+    });
+
+    if (completeError) {
+      console.error(`⚠️ [WARN] Failed to record report digest ${digest.id}:`, completeError);
+    }
+  }
+
+  return { result, error: null };
+}
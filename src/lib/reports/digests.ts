@@ -0,0 +1,128 @@
+/**
+ * Report Digests
+ *
+ * Email digests of dashboard metrics that users subscribe to (migration 099):
+ * one subscription per frequency (daily, weekly, monthly) with the metrics to
+ * include and the locale to render them in. Digests are sent at 08:00 UTC by
+ * the job runner (see digest-runner.ts) and cover the period that just ended.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { DateRange } from '@/utils/date-ranges';
+
+export const DIGEST_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+/**
+ * Metrics a digest can include
+ * Keep in sync with report_digests_metrics_check (migration 099)
+ */
+export const DIGEST_METRICS = [
+  'conversion_rate',
+  'revenue',
+  'avg_order_value',
+  'abandonment_rate',
+  'insights',
+] as const;
+export type DigestMetric = (typeof DIGEST_METRICS)[number];
+
+/**
+ * Locales digests are rendered in (same as src/i18n/routing.ts)
+ */
+export const DIGEST_LOCALES = ['en', 'pt-BR', 'es'] as const;
+export type DigestLocale = (typeof DIGEST_LOCALES)[number];
+
+export interface ReportDigest {
+  id: string;
+  frequency: DigestFrequency;
+  metrics: DigestMetric[];
+  locale: DigestLocale;
+  enabled: boolean;
+  next_run_at: string;
+  last_sent_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const ReportDigestSchema = z.object({
+  frequency: z.enum(DIGEST_FREQUENCIES),
+  metrics: z
+    .array(z.enum(DIGEST_METRICS))
+    .min(1, 'Select at least one metric')
+    .transform((metrics) => DIGEST_METRICS.filter((metric) => metrics.includes(metric))),
+  locale: z.enum(DIGEST_LOCALES),
+  enabled: z.boolean().default(true),
+});
+
+export type ReportDigestInput = z.infer<typeof ReportDigestSchema>;
+
+/**
+ * Digest subscriptions of a user (daily, weekly, monthly)
+ */
+export async function getUserDigests(
+  userId: string
+): Promise<{ digests: ReportDigest[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_user_report_digests', {
+    p_user_id: userId,
+  });
+
+  return { digests: (data || []) as ReportDigest[], error };
+}
+
+/**
+ * Create or update the subscription of a user for a frequency
+ */
+export async function saveDigest(
+  userId: string,
+  input: ReportDigestInput
+): Promise<{ digest: ReportDigest | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('upsert_report_digest', {
+    p_user_id: userId,
+    p_frequency: input.frequency,
+    p_metrics: input.metrics,
+    p_locale: input.locale,
+    p_enabled: input.enabled,
+  });
+
+  const digest = (Array.isArray(data) ? data[0] : data) as ReportDigest | null;
+  return { digest: digest || null, error };
+}
+
+/**
+ * Delete a subscription of a user
+ */
+export async function deleteDigest(
+  userId: string,
+  digestId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_report_digest', {
+    p_user_id: userId,
+    p_digest_id: digestId,
+  });
+
+  return { deleted: !!data, error };
+}
+
+/**
+ * Period a digest sent at `sentAt` reports on (the day, 7 days or month
+ * before it); compared with the period of the same length before it
+ */
+export function getDigestPeriod(frequency: DigestFrequency, sentAt: Date): DateRange {
+  const start = new Date(sentAt);
+
+  switch (frequency) {
+    case 'daily':
+      start.setUTCDate(start.getUTCDate() - 1);
+      break;
+    case 'weekly':
+      start.setUTCDate(start.getUTCDate() - 7);
+      break;
+    case 'monthly':
+      start.setUTCMonth(start.getUTCMonth() - 1);
+      break;
+  }
+
+  return { start, end: new Date(sentAt) };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  Keyring,
+  SecretsError,
+  decryptSecret,
+  encryptSecret,
+  generateMasterKey,
+  getKeyringFromEnv,
+  getSecretKeyId,
+  isEncryptedSecret,
+  parseMasterKeys,
+  resetKeyringCache,
+  rotateSecret,
+  secretContext,
+} from '../envelope';
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const context = secretContext('boltx_configurations', 'openai_api_key', ACCOUNT_ID);
+
+const oldKey = generateMasterKey();
+const newKey = generateMasterKey();
+const oldKeyring = new Keyring({ k1: oldKey }, 'k1');
+const rotatedKeyring = new Keyring({ k1: oldKey, k2: newKey }, 'k2');
+
+describe('encryptSecret / decryptSecret', () => {
+  it('should round-trip a secret under the active key', () => {
+    const secret = encryptSecret('sk-test-1234', { keyring: oldKeyring, context });
+
+    expect(secret.keyId).toBe('k1');
+    expect(isEncryptedSecret(secret.ciphertext)).toBe(true);
+    expect(getSecretKeyId(secret.ciphertext)).toBe('k1');
+    expect(secret.ciphertext).not.toContain('sk-test-1234');
+    expect(decryptSecret(secret.ciphertext, { keyring: oldKeyring, context })).toBe('sk-test-1234');
+  });
+
+  it('should use a fresh data key and IV for every value', () => {
+    const a = encryptSecret('same', { keyring: oldKeyring, context });
+    const b = encryptSecret('same', { keyring: oldKeyring, context });
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it('should reject a ciphertext copied to another context', () => {
+    const { ciphertext } = encryptSecret('token', { keyring: oldKeyring, context });
+    const otherContext = secretContext('vtex_credentials', 'app_token', ACCOUNT_ID);
+
+    expect(() => decryptSecret(ciphertext, { keyring: oldKeyring, context: otherContext })).toThrow(
+      SecretsError
+    );
+  });
+
+  it('should reject a tampered ciphertext', () => {
+    const { ciphertext } = encryptSecret('token', { keyring: oldKeyring, context });
+    const parts = ciphertext.split(':');
+    const body = Buffer.from(parts[6], 'base64url');
+    body[0] ^= 0xff;
+    parts[6] = body.toString('base64url');
+
+    expect(() => decryptSecret(parts.join(':'), { keyring: oldKeyring, context })).toThrow(
+      expect.objectContaining({ code: 'decrypt_failed' })
+    );
+  });
+
+  it('should fail when the master key is not in the keyring', () => {
+    const { ciphertext } = encryptSecret('token', { keyring: rotatedKeyring, context });
+    expect(() => decryptSecret(ciphertext, { keyring: oldKeyring, context })).toThrow(
+      expect.objectContaining({ code: 'unknown_key' })
+    );
+  });
+
+  it('should still decode legacy base64 values', () => {
+    const legacy = Buffer.from('sk-legacy').toString('base64');
+    expect(isEncryptedSecret(legacy)).toBe(false);
+    expect(getSecretKeyId(legacy)).toBeNull();
+    expect(decryptSecret(legacy, { keyring: oldKeyring, context })).toBe('sk-legacy');
+  });
+});
+
+describe('rotateSecret', () => {
+  it('should re-wrap a value under the new active key', () => {
+    const { ciphertext } = encryptSecret('sk-rotate', { keyring: oldKeyring, context });
+    const rotated = rotateSecret(ciphertext, { keyring: rotatedKeyring, context });
+
+    expect(rotated.keyId).toBe('k2');
+    // The value itself is unchanged, only its data key is re-wrapped
+    expect(rotated.ciphertext.split(':').slice(4)).toEqual(ciphertext.split(':').slice(4));
+    expect(decryptSecret(rotated.ciphertext, { keyring: rotatedKeyring, context })).toBe(
+      'sk-rotate'
+    );
+    expect(() =>
+      decryptSecret(rotated.ciphertext, { keyring: new Keyring({ k1: oldKey }, 'k1'), context })
+    ).toThrow(SecretsError);
+  });
+
+  it('should encrypt legacy base64 values', () => {
+    const legacy = Buffer.from('sk-legacy').toString('base64');
+    const rotated = rotateSecret(legacy, { keyring: rotatedKeyring, context });
+
+    expect(rotated.keyId).toBe('k2');
+    expect(decryptSecret(rotated.ciphertext, { keyring: rotatedKeyring, context })).toBe(
+      'sk-legacy'
+    );
+  });
+
+  it('should leave values under the active key unchanged', () => {
+    const { ciphertext } = encryptSecret('sk-current', { keyring: rotatedKeyring, context });
+    expect(rotateSecret(ciphertext, { keyring: rotatedKeyring, context }).ciphertext).toBe(
+      ciphertext
+    );
+  });
+});
+
+describe('getKeyringFromEnv', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    resetKeyringCache();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    resetKeyringCache();
+    vi.restoreAllMocks();
+  });
+
+  it('should parse the keyring and default to the last key', () => {
+    process.env.SECRETS_MASTER_KEYS = `k1:${oldKey}, k2:${newKey}`;
+    delete process.env.SECRETS_ACTIVE_KEY_ID;
+
+    const keyring = getKeyringFromEnv();
+    expect(keyring.keyIds).toEqual(['k1', 'k2']);
+    expect(keyring.activeKeyId).toBe('k2');
+  });
+
+  it('should use SECRETS_ACTIVE_KEY_ID', () => {
+    process.env.SECRETS_MASTER_KEYS = `k1:${oldKey},k2:${newKey}`;
+    process.env.SECRETS_ACTIVE_KEY_ID = 'k1';
+    expect(getKeyringFromEnv().activeKeyId).toBe('k1');
+  });
+
+  it('should fail without master keys', () => {
+    delete process.env.SECRETS_MASTER_KEYS;
+    expect(() => getKeyringFromEnv()).toThrow(expect.objectContaining({ code: 'not_configured' }));
+  });
+
+  it('should reject keys that are not 32 bytes', () => {
+    expect(() => new Keyring(parseMasterKeys('k1:c2hvcnQ='), 'k1')).toThrow(
+      expect.objectContaining({ code: 'invalid_key' })
+    );
+  });
+});
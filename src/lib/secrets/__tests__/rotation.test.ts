@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  Keyring,
+  decryptSecret,
+  encryptSecret,
+  generateMasterKey,
+  secretContext,
+} from '../envelope';
+import { rotateStoredSecrets } from '../rotation';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const oldKey = generateMasterKey();
+const oldKeyring = new Keyring({ k1: oldKey }, 'k1');
+const keyring = new Keyring({ k1: oldKey, k2: generateMasterKey() }, 'k2');
+
+const apiKeyContext = secretContext('boltx_configurations', 'openai_api_key', ACCOUNT_ID);
+const appTokenContext = secretContext('vtex_credentials', 'app_token', ACCOUNT_ID);
+
+describe('rotateStoredSecrets', () => {
+  const mockRpc = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (getSupabaseAdmin as any).mockReturnValue({ rpc: mockRpc });
+  });
+
+  it('should re-encrypt legacy and old-key secrets under the active key', async () => {
+    const apiKey = encryptSecret('sk-old', { keyring: oldKeyring, context: apiKeyContext });
+    const legacyToken = Buffer.from('vtex-token').toString('base64');
+
+    mockRpc
+      .mockResolvedValueOnce({
+        data: [
+          {
+            source: 'boltx_configurations',
+            account_id: ACCOUNT_ID,
+            field: 'openai_api_key',
+            ciphertext: apiKey.ciphertext,
+            key_id: 'k1',
+          },
+          {
+            source: 'vtex_credentials',
+            account_id: ACCOUNT_ID,
+            field: 'app_token',
+            ciphertext: legacyToken,
+            key_id: null,
+          },
+        ],
+        error: null,
+      })
+      .mockResolvedValueOnce({ data: true, error: null })
+      .mockResolvedValueOnce({ data: false, error: null });
+
+    const result = await rotateStoredSecrets({ keyring, accountId: ACCOUNT_ID });
+
+    expect(result).toEqual({ activeKeyId: 'k2', rotated: 1, skipped: 1, failed: [] });
+    expect(mockRpc).toHaveBeenNthCalledWith(1, 'get_secrets_for_rotation', {
+      p_active_key_id: 'k2',
+      p_account_id: ACCOUNT_ID,
+    });
+
+    const [, apiKeyUpdate] = mockRpc.mock.calls[1];
+    expect(apiKeyUpdate.p_old_ciphertext).toBe(apiKey.ciphertext);
+    expect(apiKeyUpdate.p_ciphertext.startsWith('enc:v1:k2:')).toBe(true);
+    expect(decryptSecret(apiKeyUpdate.p_ciphertext, { keyring, context: apiKeyContext })).toBe(
+      'sk-old'
+    );
+
+    const [, tokenUpdate] = mockRpc.mock.calls[2];
+    expect(tokenUpdate.p_field).toBe('app_token');
+    expect(decryptSecret(tokenUpdate.p_ciphertext, { keyring, context: appTokenContext })).toBe(
+      'vtex-token'
+    );
+  });
+
+  it('should report secrets that cannot be rotated and continue', async () => {
+    const unknownKeyring = new Keyring({ k9: generateMasterKey() }, 'k9');
+    const orphan = encryptSecret('sk-orphan', { keyring: unknownKeyring, context: apiKeyContext });
+
+    mockRpc.mockResolvedValueOnce({
+      data: [
+        {
+          source: 'boltx_configurations',
+          account_id: ACCOUNT_ID,
+          field: 'openai_api_key',
+          ciphertext: orphan.ciphertext,
+          key_id: 'k9',
+        },
+      ],
+      error: null,
+    });
+
+    const result = await rotateStoredSecrets({ keyring });
+
+    expect(result.rotated).toBe(0);
+    expect(result.failed).toEqual([
+      expect.objectContaining({ source: 'boltx_configurations', field: 'openai_api_key' }),
+    ]);
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw when the secrets cannot be listed', async () => {
+    mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'boom' } });
+
+    await expect(rotateStoredSecrets({ keyring })).rejects.toThrow(
+      'Failed to list secrets for rotation: boom'
+    );
+  });
+});
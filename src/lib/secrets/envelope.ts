@@ -0,0 +1,380 @@
+/**
+ * Secrets Envelope Encryption
+ *
+ * Secrets stored in the database (OpenAI API keys, VTEX credentials, OIDC client
+ * secrets, TOTP secrets) are encrypted with AES-256-GCM envelope encryption:
+ * - every secret gets its own random data key, which encrypts the value
+ * - the data key is encrypted ("wrapped") with a master key from the keyring
+ * - the master key ID travels with the ciphertext, so values encrypted under
+ *   an older master key stay readable until they are rotated
+ *
+ * Payload format (base64url parts):
+ *   enc:v1:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+ *
+ * The optional context (e.g. the table, column and account of the value) is
+ * bound as additional authenticated data: a ciphertext copied to another row
+ * fails to decrypt.
+ *
+ * Master keys come from SECRETS_MASTER_KEYS ("keyId:base64key,...", 32-byte
+ * keys) and SECRETS_ACTIVE_KEY_ID selects the key used for new values.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+export const SECRET_PAYLOAD_PREFIX = 'enc:v1';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type SecretsErrorCode =
+  | 'not_configured'
+  | 'invalid_key'
+  | 'unknown_key'
+  | 'invalid_payload'
+  | 'decrypt_failed';
+
+export class SecretsError extends Error {
+  constructor(
+    message: string,
+    public code: SecretsErrorCode
+  ) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+export interface EncryptedSecret {
+  /** Serialized payload to store */
+  ciphertext: string;
+  /** Master key that wraps the data key */
+  keyId: string;
+}
+
+/** Where a stored secret lives (table, column) */
+export type SecretSource =
+  | 'boltx_configurations'
+  | 'vtex_credentials'
+  | 'sso_connections'
+  | 'mfa_factors'
+  | 'alert_channels'
+  | 'webhook_endpoints';
+export type SecretField =
+  | 'openai_api_key'
+  | 'app_key'
+  | 'app_token'
+  | 'oidc_client_secret'
+  | 'totp_secret'
+  | 'channel_secret'
+  | 'endpoint_secret';
+
+export interface SecretOptions {
+  /** Keyring to use (default: getKeyringFromEnv()) */
+  keyring?: Keyring;
+  /** Where the value is stored; must be the same to decrypt */
+  context?: string;
+}
+
+/**
+ * Master keys by ID, with the active key used for new values
+ */
+export class Keyring {
+  private keys = new Map<string, Buffer>();
+
+  constructor(
+    keys: Record<string, Buffer | string>,
+    readonly activeKeyId: string
+  ) {
+    for (const [id, value] of Object.entries(keys)) {
+      if (!KEY_ID_PATTERN.test(id)) {
+        throw new SecretsError(`Invalid master key ID: ${id}`, 'invalid_key');
+      }
+      const key = typeof value === 'string' ? Buffer.from(value, 'base64') : value;
+      if (key.length !== KEY_LENGTH) {
+        throw new SecretsError(`Master key ${id} must be ${KEY_LENGTH} bytes`, 'invalid_key');
+      }
+      this.keys.set(id, key);
+    }
+
+    if (!this.keys.has(activeKeyId)) {
+      throw new SecretsError(
+        `Active master key ${activeKeyId} is not in the keyring`,
+        'unknown_key'
+      );
+    }
+  }
+
+  get(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new SecretsError(`Master key ${keyId} is not in the keyring`, 'unknown_key');
+    }
+    return key;
+  }
+
+  get activeKey(): Buffer {
+    return this.get(this.activeKeyId);
+  }
+
+  get keyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+}
+
+/**
+ * Generate a random master key (base64), e.g. for SECRETS_MASTER_KEYS
+ */
+export function generateMasterKey(): string {
+  return randomBytes(KEY_LENGTH).toString('base64');
+}
+
+/**
+ * Parse a SECRETS_MASTER_KEYS value ("keyId:base64key,...")
+ */
+export function parseMasterKeys(value: string): Record<string, string> {
+  const keys: Record<string, string> = {};
+
+  for (const entry of value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new SecretsError(
+        'SECRETS_MASTER_KEYS entries must be "keyId:base64key"',
+        'invalid_key'
+      );
+    }
+    keys[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+
+  return keys;
+}
+
+let envKeyring: Keyring | null = null;
+
+/**
+ * Keyring configured in the environment (SECRETS_MASTER_KEYS, SECRETS_ACTIVE_KEY_ID)
+ * When SECRETS_ACTIVE_KEY_ID is not set, the last listed key is active.
+ */
+export function getKeyringFromEnv(): Keyring {
+  if (envKeyring) {
+    return envKeyring;
+  }
+
+  const value = process.env.SECRETS_MASTER_KEYS;
+  if (!value) {
+    throw new SecretsError('Missing SECRETS_MASTER_KEYS environment variable', 'not_configured');
+  }
+
+  const keys = parseMasterKeys(value);
+  const keyIds = Object.keys(keys);
+  const activeKeyId = process.env.SECRETS_ACTIVE_KEY_ID || keyIds[keyIds.length - 1];
+
+  envKeyring = new Keyring(keys, activeKeyId);
+  return envKeyring;
+}
+
+/**
+ * Forget the cached environment keyring (tests)
+ */
+export function resetKeyringCache(): void {
+  envKeyring = null;
+}
+
+/**
+ * Encryption context of a stored secret, e.g.
+ * "vtex_credentials.app_token:<account id>"
+ */
+export function secretContext(source: SecretSource, field: SecretField, accountId: string): string {
+  return `${source}.${field}:${accountId}`;
+}
+
+function encode(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+function decode(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: Buffer) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad: Buffer): Buffer {
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+    decipher.setAAD(aad);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new SecretsError(
+      'Secret could not be decrypted (wrong key or context)',
+      'decrypt_failed'
+    );
+  }
+}
+
+// The wrapped data key is bound to its master key ID, the value to its context
+function wrapAad(keyId: string): Buffer {
+  return Buffer.from(`${SECRET_PAYLOAD_PREFIX}:${keyId}`);
+}
+
+function valueAad(context?: string): Buffer {
+  return Buffer.from(`${SECRET_PAYLOAD_PREFIX}:${context ?? ''}`);
+}
+
+function wrapDataKey(keyring: Keyring, dataKey: Buffer): string {
+  const keyId = keyring.activeKeyId;
+  const wrapped = seal(keyring.activeKey, dataKey, wrapAad(keyId));
+  return encode(Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]));
+}
+
+function unwrapDataKey(keyring: Keyring, keyId: string, wrappedKey: string): Buffer {
+  const wrapped = decode(wrappedKey);
+  if (wrapped.length !== IV_LENGTH + TAG_LENGTH + KEY_LENGTH) {
+    throw new SecretsError('Invalid wrapped data key', 'invalid_payload');
+  }
+  return open(
+    keyring.get(keyId),
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+    wrapped.subarray(IV_LENGTH + TAG_LENGTH),
+    wrapAad(keyId)
+  );
+}
+
+interface ParsedPayload {
+  keyId: string;
+  wrappedKey: string;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+function parsePayload(payload: string): ParsedPayload {
+  const parts = payload.split(':');
+  if (parts.length !== 7 || `${parts[0]}:${parts[1]}` !== SECRET_PAYLOAD_PREFIX) {
+    throw new SecretsError('Invalid encrypted secret payload', 'invalid_payload');
+  }
+
+  const [, , keyId, wrappedKey, iv, tag, ciphertext] = parts;
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    throw new SecretsError('Invalid encrypted secret payload', 'invalid_payload');
+  }
+
+  return { keyId, wrappedKey, iv: decode(iv), tag: decode(tag), ciphertext: decode(ciphertext) };
+}
+
+/**
+ * Whether a stored value is an envelope-encrypted payload
+ * (older values are base64-encoded plaintext)
+ */
+export function isEncryptedSecret(value: string | null | undefined): value is string {
+  return !!value && value.startsWith(`${SECRET_PAYLOAD_PREFIX}:`);
+}
+
+/**
+ * Master key ID of a stored value (null for legacy base64 values)
+ */
+export function getSecretKeyId(value: string): string | null {
+  return isEncryptedSecret(value) ? parsePayload(value).keyId : null;
+}
+
+/**
+ * Encrypt a secret under the active master key
+ */
+export function encryptSecret(plaintext: string, options: SecretOptions = {}): EncryptedSecret {
+  const keyring = options.keyring || getKeyringFromEnv();
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  try {
+    const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'), valueAad(options.context));
+    const ciphertext = [
+      SECRET_PAYLOAD_PREFIX,
+      keyring.activeKeyId,
+      wrapDataKey(keyring, dataKey),
+      encode(sealed.iv),
+      encode(sealed.tag),
+      encode(sealed.ciphertext),
+    ].join(':');
+
+    return { ciphertext, keyId: keyring.activeKeyId };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a stored secret
+ *
+ * Legacy values (base64-encoded plaintext written before envelope encryption)
+ * are still decoded so they keep working until the rotation command
+ * re-encrypts them.
+ */
+export function decryptSecret(value: string, options: SecretOptions = {}): string {
+  if (!isEncryptedSecret(value)) {
+    return Buffer.from(value, 'base64').toString('utf-8');
+  }
+
+  const keyring = options.keyring || getKeyringFromEnv();
+  const payload = parsePayload(value);
+  const dataKey = unwrapDataKey(keyring, payload.keyId, payload.wrappedKey);
+
+  try {
+    return open(
+      dataKey,
+      payload.iv,
+      payload.tag,
+      payload.ciphertext,
+      valueAad(options.context)
+    ).toString('utf8');
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Re-encrypt a stored secret under the active master key
+ *
+ * Envelope payloads only get their data key re-wrapped (the encrypted value
+ * is kept as is); legacy base64 values are encrypted from scratch.
+ */
+export function rotateSecret(value: string, options: SecretOptions = {}): EncryptedSecret {
+  const keyring = options.keyring || getKeyringFromEnv();
+
+  if (!isEncryptedSecret(value)) {
+    return encryptSecret(Buffer.from(value, 'base64').toString('utf-8'), { ...options, keyring });
+  }
+
+  const payload = parsePayload(value);
+  if (payload.keyId === keyring.activeKeyId) {
+    return { ciphertext: value, keyId: payload.keyId };
+  }
+
+  const dataKey = unwrapDataKey(keyring, payload.keyId, payload.wrappedKey);
+  try {
+    // Ensure the payload is intact before rewriting it
+    open(dataKey, payload.iv, payload.tag, payload.ciphertext, valueAad(options.context)).fill(0);
+
+    const ciphertext = [
+      SECRET_PAYLOAD_PREFIX,
+      keyring.activeKeyId,
+      wrapDataKey(keyring, dataKey),
+      encode(payload.iv),
+      encode(payload.tag),
+      encode(payload.ciphertext),
+    ].join(':');
+
+    return { ciphertext, keyId: keyring.activeKeyId };
+  } finally {
+    dataKey.fill(0);
+  }
+}
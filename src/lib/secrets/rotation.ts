@@ -0,0 +1,144 @@
+/**
+ * Secret Rotation
+ *
+ * Re-encrypts the stored secrets (migrations 091, 095, 096, 100 and 101) under the active master key:
+ * - envelope payloads wrapped by an older master key get their data key
+ *   re-wrapped
+ * - legacy base64 values are encrypted
+ *
+ * To rotate the master key, add a new key to SECRETS_MASTER_KEYS, make it
+ * SECRETS_ACTIVE_KEY_ID, run `npm run secrets:rotate` and remove the old key
+ * once no value uses it anymore.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  getKeyringFromEnv,
+  rotateSecret,
+  secretContext,
+  type Keyring,
+  type SecretField,
+  type SecretSource,
+} from './envelope';
+
+export interface StoredSecret {
+  source: SecretSource;
+  accountId: string;
+  field: SecretField;
+  ciphertext: string;
+  /** Master key ID (null for legacy base64 values) */
+  keyId: string | null;
+}
+
+export interface SecretRotationFailure {
+  source: SecretSource;
+  accountId: string;
+  field: SecretField;
+  error: string;
+}
+
+export interface SecretRotationResult {
+  activeKeyId: string;
+  rotated: number;
+  /** Values changed while rotating (left as saved) */
+  skipped: number;
+  failed: SecretRotationFailure[];
+}
+
+export interface RotateStoredSecretsOptions {
+  /** Only rotate the secrets of one account */
+  accountId?: string;
+  /** Keyring to use (default: getKeyringFromEnv()) */
+  keyring?: Keyring;
+}
+
+/**
+ * Stored secrets not encrypted under the active master key
+ */
+export async function getSecretsForRotation(
+  activeKeyId: string,
+  accountId?: string
+): Promise<{ secrets: StoredSecret[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_secrets_for_rotation', {
+    p_active_key_id: activeKeyId,
+    p_account_id: accountId ?? null,
+  });
+
+  if (error) {
+    return { secrets: [], error };
+  }
+
+  const secrets: StoredSecret[] = (data || []).map((row: any) => ({
+    source: row.source,
+    accountId: row.account_id,
+    field: row.field,
+    ciphertext: row.ciphertext,
+    keyId: row.key_id ?? null,
+  }));
+
+  return { secrets, error: null };
+}
+
+/**
+ * Re-encrypt every stored secret under the active master key
+ */
+export async function rotateStoredSecrets(
+  options: RotateStoredSecretsOptions = {}
+): Promise<SecretRotationResult> {
+  const keyring = options.keyring || getKeyringFromEnv();
+  const { secrets, error } = await getSecretsForRotation(keyring.activeKeyId, options.accountId);
+
+  if (error) {
+    throw new Error(`Failed to list secrets for rotation: ${error.message}`);
+  }
+
+  const result: SecretRotationResult = {
+    activeKeyId: keyring.activeKeyId,
+    rotated: 0,
+    skipped: 0,
+    failed: [],
+  };
+
+  for (const secret of secrets) {
+    try {
+      const { ciphertext } = rotateSecret(secret.ciphertext, {
+        keyring,
+        context: secretContext(secret.source, secret.field, secret.accountId),
+      });
+
+      const { data: updated, error: updateError } = await getSupabaseAdmin().rpc(
+        'update_rotated_secret',
+        {
+          p_source: secret.source,
+          p_account_id: secret.accountId,
+          p_field: secret.field,
+          p_old_ciphertext: secret.ciphertext,
+          p_ciphertext: ciphertext,
+        }
+      );
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      if (updated) {
+        result.rotated++;
+      } else {
+        result.skipped++;
+      }
+    } catch (rotationError: any) {
+      console.error(
+        `❌ [DEBUG] Error rotating ${secret.source}.${secret.field} of account ${secret.accountId}:`,
+        rotationError
+      );
+      result.failed.push({
+        source: secret.source,
+        accountId: secret.accountId,
+        field: secret.field,
+        error: rotationError?.message || String(rotationError),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getActiveSessions, getRequestLocation, parseUserAgent } from '../active-sessions';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const EDGE_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0';
+const FIREFOX_ANDROID_TABLET =
+  'Mozilla/5.0 (Android 14; Tablet; rv:131.0) Gecko/131.0 Firefox/131.0';
+
+function request(headers: Record<string, string>) {
+  return new NextRequest('http://localhost:3000/api/dashboard/auth/verify-code', { headers });
+}
+
+describe('parseUserAgent', () => {
+  it('should identify browser, system and device', () => {
+    expect(parseUserAgent(CHROME_MAC)).toEqual({
+      browser: 'Chrome',
+      os: 'macOS',
+      device: 'desktop',
+    });
+    expect(parseUserAgent(SAFARI_IPHONE)).toEqual({
+      browser: 'Safari',
+      os: 'iOS',
+      device: 'mobile',
+    });
+    expect(parseUserAgent(EDGE_WINDOWS)).toEqual({
+      browser: 'Edge',
+      os: 'Windows',
+      device: 'desktop',
+    });
+    expect(parseUserAgent(FIREFOX_ANDROID_TABLET)).toEqual({
+      browser: 'Firefox',
+      os: 'Android',
+      device: 'tablet',
+    });
+  });
+
+  it('should handle unknown user agents', () => {
+    expect(parseUserAgent('unknown')).toEqual({ browser: null, os: null, device: 'desktop' });
+    expect(parseUserAgent(null)).toEqual({ browser: null, os: null, device: 'desktop' });
+  });
+});
+
+describe('getRequestLocation', () => {
+  it('should read the Netlify geolocation header', () => {
+    const geo = Buffer.from(
+      JSON.stringify({
+        city: 'São Paulo',
+        country: { code: 'BR', name: 'Brazil' },
+        subdivision: { code: 'SP', name: 'São Paulo' },
+      })
+    ).toString('base64');
+
+    expect(getRequestLocation(request({ 'x-nf-geo': geo }))).toBe('São Paulo, SP, BR');
+  });
+
+  it('should read Vercel and Cloudflare headers', () => {
+    expect(
+      getRequestLocation(
+        request({
+          'x-vercel-ip-city': 'Buenos%20Aires',
+          'x-vercel-ip-country-region': 'C',
+          'x-vercel-ip-country': 'AR',
+        })
+      )
+    ).toBe('Buenos Aires, C, AR');
+    expect(getRequestLocation(request({ 'cf-ipcountry': 'MX' }))).toBe('MX');
+  });
+
+  it('should return null when the location is unknown', () => {
+    expect(getRequestLocation(request({}))).toBeNull();
+    expect(getRequestLocation(request({ 'cf-ipcountry': 'XX' }))).toBeNull();
+    expect(getRequestLocation(request({ 'x-nf-geo': 'not-json' }))).toBeNull();
+  });
+});
+
+describe('getActiveSessions', () => {
+  it('should describe the sessions and flag the current one', async () => {
+    const rpc = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: 'session-1',
+          created_at: '2026-10-18T10:00:00Z',
+          last_seen_at: '2026-10-19T09:00:00Z',
+          expires_at: '2026-10-20T10:00:00Z',
+          ip_address: '203.0.113.7',
+          user_agent: CHROME_MAC,
+          location: 'São Paulo, SP, BR',
+        },
+        {
+          id: 'session-2',
+          created_at: '2026-10-17T10:00:00Z',
+          last_seen_at: '2026-10-17T11:00:00Z',
+          expires_at: '2026-10-19T10:00:00Z',
+          ip_address: 'unknown',
+          user_agent: SAFARI_IPHONE,
+          location: null,
+        },
+      ],
+      error: null,
+    });
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    const { sessions, error } = await getActiveSessions('user-1', 'session-2');
+
+    expect(error).toBeNull();
+    expect(rpc).toHaveBeenCalledWith('get_user_sessions', { p_user_id: 'user-1' });
+    expect(sessions[0]).toMatchObject({
+      id: 'session-1',
+      browser: 'Chrome',
+      os: 'macOS',
+      ip_address: '203.0.113.7',
+      current: false,
+    });
+    expect(sessions[1]).toMatchObject({ device: 'mobile', ip_address: null, current: true });
+    expect(sessions[0]).not.toHaveProperty('user_agent');
+  });
+});
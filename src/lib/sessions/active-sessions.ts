@@ -0,0 +1,199 @@
+/**
+ * Active Sessions
+ *
+ * Dashboard sessions of a user (migration 097): where and with what they
+ * signed in, when each session was last used, and revocation by the user
+ * (one session or all others) or by an account owner/admin (force logout).
+ * Sessions are also revoked by the database when the user's role changes,
+ * and removed with the user.
+ */
+
+import { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+
+export type SessionDevice = 'desktop' | 'mobile' | 'tablet';
+
+export interface ClientInfo {
+  browser: string | null;
+  os: string | null;
+  device: SessionDevice;
+}
+
+/** Session as listed in the profile (without tokens) */
+export interface ActiveSession extends ClientInfo {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  ip_address: string | null;
+  location: string | null;
+  /** The session of the request */
+  current: boolean;
+}
+
+interface SessionRow {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  location: string | null;
+}
+
+// Order matters: Edge and Opera also report Chrome, Chrome also reports Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/[\d.]+.*Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Browser, operating system and device type of a user agent
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ClientInfo {
+  const ua = userAgent && userAgent !== 'unknown' ? userAgent : '';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+
+  let device: SessionDevice = 'desktop';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    device = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(ua)) {
+    device = 'mobile';
+  }
+
+  return { browser, os, device };
+}
+
+function decodeHeader(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Approximate location of a request ("City, Region, Country") from the
+ * geolocation headers of Netlify, Vercel or Cloudflare; null when unknown
+ */
+export function getRequestLocation(request: NextRequest): string | null {
+  let parts: (string | null | undefined)[] = [];
+
+  const netlifyGeo = request.headers.get('x-nf-geo');
+  if (netlifyGeo) {
+    try {
+      const geo = JSON.parse(Buffer.from(netlifyGeo, 'base64').toString('utf8'));
+      parts = [geo.city, geo.subdivision?.code, geo.country?.code];
+    } catch {
+      parts = [];
+    }
+  }
+
+  if (parts.filter(Boolean).length === 0) {
+    parts = [
+      decodeHeader(request.headers.get('x-vercel-ip-city')),
+      request.headers.get('x-vercel-ip-country-region'),
+      request.headers.get('x-vercel-ip-country') || request.headers.get('cf-ipcountry'),
+    ];
+  }
+
+  // Cloudflare uses XX for unknown and T1 for Tor
+  const location = parts
+    .filter((part): part is string => !!part && part !== 'XX' && part !== 'T1')
+    .join(', ');
+
+  return location ? location.slice(0, 120) : null;
+}
+
+/**
+ * Active sessions of a user, most recently used first
+ */
+export async function getActiveSessions(
+  userId: string,
+  currentSessionId: string
+): Promise<{ sessions: ActiveSession[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_user_sessions', {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    return { sessions: [], error };
+  }
+
+  const sessions = ((data || []) as SessionRow[]).map((row) => ({
+    id: row.id,
+    created_at: row.created_at,
+    last_seen_at: row.last_seen_at,
+    expires_at: row.expires_at,
+    ip_address: row.ip_address && row.ip_address !== 'unknown' ? row.ip_address : null,
+    location: row.location,
+    ...parseUserAgent(row.user_agent),
+    current: row.id === currentSessionId,
+  }));
+
+  return { sessions, error: null };
+}
+
+/**
+ * Revoke one session of a user
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string
+): Promise<{ revoked: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('revoke_user_session', {
+    p_user_id: userId,
+    p_session_id: sessionId,
+  });
+
+  return { revoked: !!data, error };
+}
+
+/**
+ * Revoke all sessions of a user except the current one
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  currentSessionId: string
+): Promise<{ count: number; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('revoke_user_sessions', {
+    p_user_id: userId,
+    p_except_session_id: currentSessionId,
+  });
+
+  return { count: Number(data || 0), error };
+}
+
+/**
+ * Force logout of an account member (validated by the database: same
+ * account, admins cannot sign out owners)
+ */
+export async function revokeMemberSessions(
+  userId: string,
+  revokerUserId: string
+): Promise<{ count: number; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('revoke_member_sessions', {
+    p_user_id: userId,
+    p_revoker_user_id: revokerUserId,
+  });
+
+  return { count: Number(data || 0), error };
+}
@@ -0,0 +1,294 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { resolveTxt } from 'dns/promises';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  SsoConnectionSchema,
+  emailDomain,
+  isSsoEnforcedForEmail,
+  verifySsoDomain,
+  type SsoConnection,
+} from '../connections';
+import { getSafeRedirect, provisionSsoUser } from '../login';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('dns/promises', () => ({
+  resolveTxt: vi.fn(),
+}));
+
+const connection: SsoConnection = {
+  id: 'connection-1',
+  account_id: '11111111-1111-1111-1111-111111111111',
+  protocol: 'oidc',
+  enabled: true,
+  enforce_sso: false,
+  default_role: 'editor',
+  domains: ['acme.com'],
+  verified_domains: ['acme.com'],
+  domain_verification_token: 'token-1',
+  oidc_issuer: 'https://acme.okta.com',
+  oidc_client_id: 'bolt',
+  oidc_client_secret_encrypted: null,
+  saml_entry_point: null,
+  saml_idp_issuer: null,
+  saml_idp_certificate: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+};
+
+describe('SsoConnectionSchema', () => {
+  const oidc = {
+    protocol: 'oidc',
+    domains: ['Acme.com'],
+    oidcIssuer: 'https://acme.okta.com',
+    oidcClientId: 'bolt',
+  };
+
+  it('should accept an OIDC connection and normalize the domains', () => {
+    const result = SsoConnectionSchema.safeParse(oidc);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ domains: ['acme.com'], defaultRole: 'viewer' });
+  });
+
+  it('should reject public email domains', () => {
+    expect(SsoConnectionSchema.safeParse({ ...oidc, domains: ['gmail.com'] }).success).toBe(false);
+  });
+
+  it('should reject identity provider URLs without https', () => {
+    expect(
+      SsoConnectionSchema.safeParse({ ...oidc, oidcIssuer: 'http://acme.okta.com' }).success
+    ).toBe(false);
+  });
+
+  describe('identity provider hosts', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should only accept a local identity provider outside production', () => {
+      const local = { ...oidc, oidcIssuer: 'http://localhost:4010' };
+
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(SsoConnectionSchema.safeParse(local).success).toBe(false);
+      expect(
+        SsoConnectionSchema.safeParse({ ...oidc, oidcIssuer: 'http://127.0.0.1:4010' }).success
+      ).toBe(false);
+
+      vi.stubEnv('NODE_ENV', 'development');
+      expect(SsoConnectionSchema.safeParse(local).success).toBe(true);
+    });
+
+    it('should reject identity provider URLs on private addresses', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(
+        SsoConnectionSchema.safeParse({ ...oidc, oidcIssuer: 'https://169.254.169.254' }).success
+      ).toBe(false);
+      expect(
+        SsoConnectionSchema.safeParse({
+          protocol: 'saml',
+          domains: ['acme.com'],
+          samlEntryPoint: 'https://10.0.0.1/sso',
+          samlIdpCertificate: 'MIIC',
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  it('should require the fields of the protocol', () => {
+    const result = SsoConnectionSchema.safeParse({ protocol: 'saml', domains: ['acme.com'] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path[0])).toEqual([
+      'samlEntryPoint',
+      'samlIdpCertificate',
+    ]);
+  });
+});
+
+describe('emailDomain', () => {
+  it('should return the lowercased domain of an email', () => {
+    expect(emailDomain('Jane@ACME.com')).toBe('acme.com');
+    expect(emailDomain('not-an-email')).toBeNull();
+  });
+});
+
+describe('getSafeRedirect', () => {
+  it('should only allow local paths', () => {
+    expect(getSafeRedirect('/dashboard/analytics')).toBe('/dashboard/analytics');
+    expect(getSafeRedirect('https://evil.example.com')).toBe('/dashboard');
+    expect(getSafeRedirect('//evil.example.com')).toBe('/dashboard');
+    expect(getSafeRedirect('/\\evil.example.com')).toBe('/dashboard');
+    expect(getSafeRedirect(null)).toBe('/dashboard');
+  });
+});
+
+describe('provisionSsoUser', () => {
+  const identity = {
+    email: 'jane@acme.com',
+    firstName: 'Jane',
+    lastName: null,
+    subject: 'okta-42',
+  };
+
+  it('should provision the user with the default role of the connection', async () => {
+    const rpc = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: 'user-1',
+          email: 'jane@acme.com',
+          account_id: connection.account_id,
+          role: 'editor',
+          name: 'Jane',
+          created: true,
+        },
+      ],
+      error: null,
+    });
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    await expect(provisionSsoUser(connection, identity)).resolves.toMatchObject({
+      id: 'user-1',
+      created: true,
+    });
+    expect(rpc).toHaveBeenCalledWith('provision_sso_user', {
+      p_account_id: connection.account_id,
+      p_email: 'jane@acme.com',
+      p_first_name: 'Jane',
+      p_last_name: null,
+      p_role: 'editor',
+    });
+  });
+
+  it('should reject emails outside the domains of the connection', async () => {
+    const rpc = vi.fn();
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    await expect(
+      provisionSsoUser(connection, { ...identity, email: 'jane@other.com' })
+    ).rejects.toMatchObject({ code: 'domain_mismatch' });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject emails of a domain that is not verified', async () => {
+    const rpc = vi.fn();
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    await expect(
+      provisionSsoUser({ ...connection, verified_domains: [] }, identity)
+    ).rejects.toMatchObject({ code: 'domain_mismatch' });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject users of another account', async () => {
+    vi.mocked(getSupabaseAdmin).mockReturnValue({
+      rpc: vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'User belongs to another account' },
+      }),
+    } as never);
+
+    await expect(provisionSsoUser(connection, identity)).rejects.toMatchObject({
+      code: 'account_mismatch',
+    });
+  });
+});
+
+describe('isSsoEnforcedForEmail', () => {
+  /**
+   * get_sso_account_by_domain returns the account that verified the domain,
+   * get_user_by_email the user signing in
+   */
+  function mockRpc(domainAccountId: string | null, user: { account_id: string } | null) {
+    const rpc = vi.fn((fn: string) =>
+      Promise.resolve(
+        fn === 'get_sso_account_by_domain'
+          ? { data: domainAccountId, error: null }
+          : fn === 'get_sso_connection'
+            ? { data: [{ ...connection, enforce_sso: true }], error: null }
+            : { data: user ? [user] : [], error: null }
+      )
+    );
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+    return rpc;
+  }
+
+  it('should enforce SSO for users of the connection account', async () => {
+    mockRpc(connection.account_id, { account_id: connection.account_id });
+
+    await expect(isSsoEnforcedForEmail('jane@acme.com')).resolves.toBe(true);
+  });
+
+  it('should not enforce SSO for users of another account', async () => {
+    mockRpc(connection.account_id, { account_id: '22222222-2222-2222-2222-222222222222' });
+
+    await expect(isSsoEnforcedForEmail('jane@acme.com')).resolves.toBe(false);
+  });
+
+  it('should not enforce SSO for domains no account verified', async () => {
+    const rpc = mockRpc(null, { account_id: connection.account_id });
+
+    await expect(isSsoEnforcedForEmail('jane@acme.com')).resolves.toBe(false);
+    expect(rpc).not.toHaveBeenCalledWith('get_sso_connection', expect.anything());
+  });
+});
+
+describe('verifySsoDomain', () => {
+  const pending = { ...connection, domains: ['acme.com', 'acme.com.br'], verified_domains: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should verify a domain publishing the verification record', async () => {
+    const rpc = vi.fn().mockResolvedValue({ data: '2026-10-19T10:00:00Z', error: null });
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+    vi.mocked(resolveTxt).mockResolvedValue([
+      ['v=spf1 include:_spf.google.com ~all'],
+      ['bolt-sso-verification=', 'token-1'],
+    ]);
+
+    await expect(verifySsoDomain(pending, 'acme.com.br')).resolves.toEqual({
+      verified: true,
+      error: null,
+    });
+    expect(resolveTxt).toHaveBeenCalledWith('acme.com.br');
+    expect(rpc).toHaveBeenCalledWith('verify_sso_domain', {
+      p_account_id: connection.account_id,
+      p_domain: 'acme.com.br',
+    });
+  });
+
+  it('should not verify a domain without the record', async () => {
+    const rpc = vi.fn();
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+    vi.mocked(resolveTxt).mockResolvedValue([['bolt-sso-verification=other-token']]);
+
+    await expect(verifySsoDomain(pending, 'acme.com')).resolves.toEqual({
+      verified: false,
+      error: null,
+    });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should not verify a domain whose TXT lookup fails', async () => {
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc: vi.fn() } as never);
+    vi.mocked(resolveTxt).mockRejectedValue(new Error('queryTxt ENODATA'));
+
+    await expect(verifySsoDomain(pending, 'acme.com')).resolves.toEqual({
+      verified: false,
+      error: null,
+    });
+  });
+
+  it('should refuse domains of other connections without a lookup', async () => {
+    const { verified, error } = await verifySsoDomain(pending, 'somecorp.com');
+
+    expect(verified).toBe(false);
+    expect(error).toMatchObject({ code: 'not_configured' });
+    expect(resolveTxt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Local mock identity providers for the SSO tests
+ *
+ * - OIDC: discovery document, JWKS and token endpoint served through a fetch
+ *   implementation; the token endpoint checks the client credentials and the
+ *   PKCE verifier, and issues RS256 ID tokens
+ * - SAML: reads AuthnRequests from the redirect URL and issues responses with
+ *   an RSA-SHA256 signed assertion
+ */
+
+import { createHash, generateKeyPairSync, randomUUID } from 'crypto';
+import { inflateRawSync } from 'zlib';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { SignedXml } from 'xml-crypto';
+
+export const MOCK_OIDC_ISSUER = 'http://localhost:4010';
+export const MOCK_OIDC_CLIENT_ID = 'bolt-dashboard';
+export const MOCK_OIDC_CLIENT_SECRET = 'mock-client-secret';
+
+export interface MockUserClaims {
+  sub?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface PendingCode {
+  codeChallenge: string;
+  nonce: string;
+  redirectUri: string;
+  claims: MockUserClaims;
+}
+
+export async function createMockOidcProvider() {
+  const { privateKey, publicKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'mock-key', alg: 'RS256', use: 'sig' };
+  const codes = new Map<string, PendingCode>();
+
+  /** Overrides of the next ID token (tests of invalid tokens) */
+  let tokenOverrides: { issuer?: string; audience?: string; expiresIn?: string; nonce?: string } =
+    {};
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  async function handleToken(init?: RequestInit): Promise<Response> {
+    const expected = `Basic ${Buffer.from(
+      `${MOCK_OIDC_CLIENT_ID}:${MOCK_OIDC_CLIENT_SECRET}`
+    ).toString('base64')}`;
+    if (new Headers(init?.headers).get('Authorization') !== expected) {
+      return json({ error: 'invalid_client' }, 401);
+    }
+
+    const params = new URLSearchParams(String(init?.body));
+    const pending = codes.get(params.get('code') || '');
+    codes.delete(params.get('code') || '');
+
+    const challenge = createHash('sha256')
+      .update(params.get('code_verifier') || '')
+      .digest('base64url');
+
+    if (
+      !pending ||
+      pending.codeChallenge !== challenge ||
+      pending.redirectUri !== params.get('redirect_uri')
+    ) {
+      return json({ error: 'invalid_grant' }, 400);
+    }
+
+    const idToken = await new SignJWT({
+      email_verified: true,
+      ...pending.claims,
+      nonce: tokenOverrides.nonce ?? pending.nonce,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: jwk.kid })
+      .setIssuer(tokenOverrides.issuer ?? MOCK_OIDC_ISSUER)
+      .setAudience(tokenOverrides.audience ?? MOCK_OIDC_CLIENT_ID)
+      .setSubject(pending.claims.sub ?? 'user-123')
+      .setIssuedAt()
+      .setExpirationTime(tokenOverrides.expiresIn ?? '5m')
+      .sign(privateKey);
+
+    return json({ access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+  }
+
+  return {
+    /** fetch implementation serving the provider's endpoints */
+    fetch: async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      const url = String(input instanceof Request ? input.url : input);
+
+      switch (url) {
+        case `${MOCK_OIDC_ISSUER}/.well-known/openid-configuration`:
+          return json({
+            issuer: MOCK_OIDC_ISSUER,
+            authorization_endpoint: `${MOCK_OIDC_ISSUER}/authorize`,
+            token_endpoint: `${MOCK_OIDC_ISSUER}/token`,
+            jwks_uri: `${MOCK_OIDC_ISSUER}/jwks`,
+          });
+        case `${MOCK_OIDC_ISSUER}/jwks`:
+          return json({ keys: [jwk] });
+        case `${MOCK_OIDC_ISSUER}/token`:
+          return handleToken(init);
+        default:
+          return json({ error: 'not_found' }, 404);
+      }
+    },
+
+    /**
+     * Sign the user in at the authorization endpoint; returns the callback
+     * parameters the provider redirects with
+     */
+    authorize(authorizationUrl: string, claims: MockUserClaims) {
+      const url = new URL(authorizationUrl);
+      const code = randomUUID();
+
+      codes.set(code, {
+        codeChallenge: url.searchParams.get('code_challenge') || '',
+        nonce: url.searchParams.get('nonce') || '',
+        redirectUri: url.searchParams.get('redirect_uri') || '',
+        claims,
+      });
+
+      return { code, state: url.searchParams.get('state') || '' };
+    },
+
+    setTokenOverrides(overrides: typeof tokenOverrides) {
+      tokenOverrides = overrides;
+    },
+  };
+}
+
+export const MOCK_SAML_ENTRY_POINT = 'http://localhost:4011/sso';
+export const MOCK_SAML_ISSUER = 'http://localhost:4011/metadata';
+
+export interface MockSamlAssertion {
+  inResponseTo: string;
+  audience: string;
+  acsUrl: string;
+  email: string;
+  attributes?: Record<string, string>;
+  /** Seconds the assertion is valid for (negative: already expired) */
+  validForSeconds?: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function createMockSamlProvider() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  return {
+    /** Verification key to configure as the IdP certificate */
+    certificate: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+
+    /** AuthnRequest ID and RelayState of an HTTP-Redirect login URL */
+    readRequest(loginUrl: string) {
+      const url = new URL(loginUrl);
+      const xml = inflateRawSync(
+        Buffer.from(url.searchParams.get('SAMLRequest') || '', 'base64')
+      ).toString();
+
+      return {
+        id: /\sID="([^"]+)"/.exec(xml)?.[1] ?? null,
+        relayState: url.searchParams.get('RelayState'),
+        xml,
+      };
+    },
+
+    /** Base64 SAMLResponse with a signed assertion */
+    respond(assertion: MockSamlAssertion): string {
+      const now = new Date();
+      const until = new Date(now.getTime() + (assertion.validForSeconds ?? 300) * 1000);
+      const notBefore = new Date(Math.min(now.getTime(), until.getTime()) - 60 * 1000);
+      const attributes = { email: assertion.email, ...assertion.attributes };
+
+      const assertionXml =
+        `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_${randomUUID()}" Version="2.0" IssueInstant="${now.toISOString()}">` +
+        `<saml:Issuer>${MOCK_SAML_ISSUER}</saml:Issuer>` +
+        `<saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${escapeXml(assertion.email)}</saml:NameID>` +
+        `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">` +
+        `<saml:SubjectConfirmationData InResponseTo="${assertion.inResponseTo}" NotOnOrAfter="${until.toISOString()}" Recipient="${assertion.acsUrl}"/>` +
+        `</saml:SubjectConfirmation></saml:Subject>` +
+        `<saml:Conditions NotBefore="${notBefore.toISOString()}" NotOnOrAfter="${until.toISOString()}">` +
+        `<saml:AudienceRestriction><saml:Audience>${assertion.audience}</saml:Audience></saml:AudienceRestriction></saml:Conditions>` +
+        `<saml:AuthnStatement AuthnInstant="${now.toISOString()}" SessionIndex="_session"/>` +
+        `<saml:AttributeStatement>` +
+        Object.entries(attributes)
+          .map(
+            ([name, value]) =>
+              `<saml:Attribute Name="${name}"><saml:AttributeValue>${escapeXml(value)}</saml:AttributeValue></saml:Attribute>`
+          )
+          .join('') +
+        `</saml:AttributeStatement></saml:Assertion>`;
+
+      const signature = new SignedXml({
+        privateKey: privateKeyPem,
+        signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+        canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+      });
+      signature.addReference({
+        xpath: "//*[local-name(.)='Assertion']",
+        digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+        transforms: [
+          'http://www.w3.org/2000/09/xmldsig#enveloped-signature',
+          'http://www.w3.org/2001/10/xml-exc-c14n#',
+        ],
+      });
+      signature.computeSignature(assertionXml, {
+        location: { reference: "//*[local-name(.)='Issuer']", action: 'after' },
+      });
+
+      const response =
+        `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_${randomUUID()}" Version="2.0" IssueInstant="${now.toISOString()}" Destination="${assertion.acsUrl}" InResponseTo="${assertion.inResponseTo}">` +
+        `<saml:Issuer xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">${MOCK_SAML_ISSUER}</saml:Issuer>` +
+        `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>` +
+        signature.getSignedXml() +
+        `</samlp:Response>`;
+
+      return Buffer.from(response).toString('base64');
+    },
+  };
+}
@@ -0,0 +1,315 @@
+import { describe, it, expect, afterEach, beforeAll, beforeEach, vi } from 'vitest';
+import { lookup } from 'dns/promises';
+import {
+  encryptSecret,
+  generateMasterKey,
+  resetKeyringCache,
+  secretContext,
+} from '@/lib/secrets/envelope';
+import type { SsoConnection } from '../connections';
+import {
+  clearOidcCache,
+  exchangeOidcCode,
+  generateSsoToken,
+  getOidcAuthorizationUrl,
+  getPkceChallenge,
+} from '../oidc';
+import {
+  MOCK_OIDC_CLIENT_ID,
+  MOCK_OIDC_CLIENT_SECRET,
+  MOCK_OIDC_ISSUER,
+  createMockOidcProvider,
+} from './mock-idp';
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+const ACCOUNT_ID = '11111111-1111-1111-1111-111111111111';
+const REDIRECT_URI = 'http://localhost:3000/api/dashboard/auth/sso/oidc/callback';
+
+let idp: Awaited<ReturnType<typeof createMockOidcProvider>>;
+let connection: SsoConnection;
+
+beforeAll(async () => {
+  process.env.SECRETS_MASTER_KEYS = `test:${generateMasterKey()}`;
+  resetKeyringCache();
+
+  idp = await createMockOidcProvider();
+  connection = {
+    id: 'connection-1',
+    account_id: ACCOUNT_ID,
+    protocol: 'oidc',
+    enabled: true,
+    enforce_sso: false,
+    default_role: 'viewer',
+    domains: ['acme.com'],
+    verified_domains: ['acme.com'],
+    domain_verification_token: 'token-1',
+    oidc_issuer: MOCK_OIDC_ISSUER,
+    oidc_client_id: MOCK_OIDC_CLIENT_ID,
+    oidc_client_secret_encrypted: encryptSecret(MOCK_OIDC_CLIENT_SECRET, {
+      context: secretContext('sso_connections', 'oidc_client_secret', ACCOUNT_ID),
+    }).ciphertext,
+    saml_entry_point: null,
+    saml_idp_issuer: null,
+    saml_idp_certificate: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+  };
+});
+
+beforeEach(() => {
+  clearOidcCache();
+  idp.setTokenOverrides({});
+  vi.mocked(fetch).mockImplementation(idp.fetch);
+});
+
+/**
+ * Run a login against the mock provider up to the token exchange
+ */
+async function login(
+  claims: Parameters<typeof idp.authorize>[1],
+  options: { nonce?: string } = {}
+) {
+  const state = generateSsoToken();
+  const nonce = generateSsoToken();
+  const codeVerifier = generateSsoToken();
+
+  const authorizationUrl = await getOidcAuthorizationUrl(connection, {
+    state,
+    nonce,
+    codeVerifier,
+    redirectUri: REDIRECT_URI,
+    loginHint: claims.email,
+  });
+  const callback = idp.authorize(authorizationUrl, claims);
+
+  return {
+    authorizationUrl,
+    callback,
+    exchange: () =>
+      exchangeOidcCode(connection, {
+        code: callback.code,
+        codeVerifier,
+        nonce: options.nonce ?? nonce,
+        redirectUri: REDIRECT_URI,
+      }),
+  };
+}
+
+describe('getOidcAuthorizationUrl', () => {
+  it('should build an authorization code request with PKCE', async () => {
+    const codeVerifier = generateSsoToken();
+    const url = new URL(
+      await getOidcAuthorizationUrl(connection, {
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeVerifier,
+        redirectUri: REDIRECT_URI,
+        loginHint: 'jane@acme.com',
+      })
+    );
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${MOCK_OIDC_ISSUER}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: MOCK_OIDC_CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: 'openid email profile',
+      state: 'state-1',
+      nonce: 'nonce-1',
+      code_challenge: getPkceChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+      login_hint: 'jane@acme.com',
+    });
+  });
+
+  it('should reject a discovery document of another issuer', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          issuer: 'https://evil.example.com',
+          authorization_endpoint: 'https://evil.example.com/authorize',
+          token_endpoint: 'https://evil.example.com/token',
+          jwks_uri: 'https://evil.example.com/jwks',
+        })
+      )
+    );
+
+    await expect(
+      getOidcAuthorizationUrl(connection, {
+        state: 's',
+        nonce: 'n',
+        codeVerifier: 'v',
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ code: 'not_configured' });
+  });
+});
+
+describe('exchangeOidcCode', () => {
+  it('should return the identity of a verified ID token', async () => {
+    const { exchange } = await login({
+      sub: 'okta-42',
+      email: 'Jane@Acme.com',
+      given_name: 'Jane',
+      family_name: 'Doe',
+    });
+
+    await expect(exchange()).resolves.toEqual({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      subject: 'okta-42',
+    });
+  });
+
+  it('should reject an ID token with another nonce', async () => {
+    const { exchange } = await login({ email: 'jane@acme.com' }, { nonce: 'replayed-nonce' });
+
+    await expect(exchange()).rejects.toMatchObject({ code: 'invalid_response' });
+  });
+
+  it('should reject an ID token issued for another client', async () => {
+    idp.setTokenOverrides({ audience: 'another-client' });
+    const { exchange } = await login({ email: 'jane@acme.com' });
+
+    await expect(exchange()).rejects.toThrow(/Invalid OIDC ID token/);
+  });
+
+  it('should reject an ID token from another issuer', async () => {
+    idp.setTokenOverrides({ issuer: 'https://evil.example.com' });
+    const { exchange } = await login({ email: 'jane@acme.com' });
+
+    await expect(exchange()).rejects.toThrow(/Invalid OIDC ID token/);
+  });
+
+  it('should reject an expired ID token', async () => {
+    idp.setTokenOverrides({ expiresIn: '-5m' });
+    const { exchange } = await login({ email: 'jane@acme.com' });
+
+    await expect(exchange()).rejects.toThrow(/Invalid OIDC ID token/);
+  });
+
+  it('should reject an unverified email address', async () => {
+    const { exchange } = await login({ email: 'jane@acme.com', email_verified: false });
+
+    await expect(exchange()).rejects.toThrow(/not verified/);
+  });
+
+  it('should fail when the provider rejects the PKCE verifier', async () => {
+    const { callback } = await login({ email: 'jane@acme.com' });
+
+    await expect(
+      exchangeOidcCode(connection, {
+        code: callback.code,
+        codeVerifier: 'wrong-verifier',
+        nonce: 'n',
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toThrow(/token exchange failed with status 400/);
+  });
+});
+
+describe('OIDC provider requests', () => {
+  const PUBLIC_ISSUER = 'https://idp.example.com';
+
+  function publicConnection(): SsoConnection {
+    return { ...connection, oidc_issuer: PUBLIC_ISSUER };
+  }
+
+  function discoveryResponse(overrides: Record<string, string> = {}) {
+    return new Response(
+      JSON.stringify({
+        issuer: PUBLIC_ISSUER,
+        authorization_endpoint: `${PUBLIC_ISSUER}/authorize`,
+        token_endpoint: `${PUBLIC_ISSUER}/token`,
+        jwks_uri: `${PUBLIC_ISSUER}/jwks`,
+        ...overrides,
+      })
+    );
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should fetch the discovery document with a timeout and without redirects', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(discoveryResponse());
+
+    await getOidcAuthorizationUrl(publicConnection(), {
+      state: 's',
+      nonce: 'n',
+      codeVerifier: 'v',
+      redirectUri: REDIRECT_URI,
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      `${PUBLIC_ISSUER}/.well-known/openid-configuration`,
+      expect.objectContaining({ redirect: 'manual', signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it('should refuse an issuer resolving to a private address', async () => {
+    vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as never);
+
+    await expect(
+      getOidcAuthorizationUrl(publicConnection(), {
+        state: 's',
+        nonce: 'n',
+        codeVerifier: 'v',
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ code: 'not_configured' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a local issuer in production', async () => {
+    await expect(
+      getOidcAuthorizationUrl(connection, {
+        state: 's',
+        nonce: 'n',
+        codeVerifier: 'v',
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ code: 'not_configured' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a discovery document pointing at the metadata endpoint', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      discoveryResponse({ token_endpoint: 'https://169.254.169.254/latest/meta-data' })
+    );
+
+    await expect(
+      exchangeOidcCode(publicConnection(), {
+        code: 'code',
+        codeVerifier: 'v',
+        nonce: 'n',
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ code: 'not_configured' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse a JWKS URL on a private address', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      discoveryResponse({ jwks_uri: 'https://192.168.0.10/jwks' })
+    );
+
+    await expect(
+      getOidcAuthorizationUrl(publicConnection(), {
+        state: 's',
+        nonce: 'n',
+        codeVerifier: 'v',
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ code: 'not_configured' });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import type { SsoConnection } from '../connections';
+import {
+  getSamlIdentity,
+  getSamlLoginUrl,
+  getSamlMetadata,
+  getSamlServiceProvider,
+  validateSamlResponse,
+} from '../saml';
+import { MOCK_SAML_ENTRY_POINT, MOCK_SAML_ISSUER, createMockSamlProvider } from './mock-idp';
+
+const BASE_URL = 'http://localhost:3000';
+const { entityId, acsUrl } = getSamlServiceProvider(BASE_URL);
+
+const idp = createMockSamlProvider();
+const otherIdp = createMockSamlProvider();
+
+const connection: SsoConnection = {
+  id: 'connection-1',
+  account_id: '11111111-1111-1111-1111-111111111111',
+  protocol: 'saml',
+  enabled: true,
+  enforce_sso: true,
+  default_role: 'viewer',
+  domains: ['acme.com'],
+  verified_domains: ['acme.com'],
+  domain_verification_token: 'token-1',
+  oidc_issuer: null,
+  oidc_client_id: null,
+  oidc_client_secret_encrypted: null,
+  saml_entry_point: MOCK_SAML_ENTRY_POINT,
+  saml_idp_issuer: MOCK_SAML_ISSUER,
+  saml_idp_certificate: idp.certificate,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+};
+
+/**
+ * Start a login and read the AuthnRequest at the mock IdP
+ */
+async function startLogin() {
+  const { url, requestId } = await getSamlLoginUrl(connection, {
+    relayState: 'state-1',
+    baseUrl: BASE_URL,
+  });
+  return { url, requestId, request: idp.readRequest(url) };
+}
+
+describe('getSamlLoginUrl', () => {
+  it('should redirect to the IdP with an AuthnRequest and the RelayState', async () => {
+    const { url, requestId, request } = await startLogin();
+
+    expect(url.startsWith(`${MOCK_SAML_ENTRY_POINT}?`)).toBe(true);
+    expect(request.id).toBe(requestId);
+    expect(request.relayState).toBe('state-1');
+    expect(request.xml).toContain(`AssertionConsumerServiceURL="${acsUrl}"`);
+    expect(request.xml).toContain(entityId);
+  });
+});
+
+describe('validateSamlResponse', () => {
+  it('should return the identity of a signed assertion for the login', async () => {
+    const { requestId } = await startLogin();
+    const samlResponse = idp.respond({
+      inResponseTo: requestId,
+      audience: entityId,
+      acsUrl,
+      email: 'Jane@acme.com',
+      attributes: { firstName: 'Jane', lastName: 'Doe' },
+    });
+
+    await expect(
+      validateSamlResponse(connection, { samlResponse, requestId, baseUrl: BASE_URL })
+    ).resolves.toEqual({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      subject: 'Jane@acme.com',
+    });
+  });
+
+  it('should reject a response to another AuthnRequest', async () => {
+    const { requestId } = await startLogin();
+    const samlResponse = idp.respond({
+      inResponseTo: '_another-request',
+      audience: entityId,
+      acsUrl,
+      email: 'jane@acme.com',
+    });
+
+    await expect(
+      validateSamlResponse(connection, { samlResponse, requestId, baseUrl: BASE_URL })
+    ).rejects.toMatchObject({ code: 'invalid_response' });
+  });
+
+  it('should reject an assertion signed by another key', async () => {
+    const { requestId } = await startLogin();
+    const samlResponse = otherIdp.respond({
+      inResponseTo: requestId,
+      audience: entityId,
+      acsUrl,
+      email: 'jane@acme.com',
+    });
+
+    await expect(
+      validateSamlResponse(connection, { samlResponse, requestId, baseUrl: BASE_URL })
+    ).rejects.toThrow(/Invalid SAML response/);
+  });
+
+  it('should reject an assertion altered after signing', async () => {
+    const { requestId } = await startLogin();
+    const signed = Buffer.from(
+      idp.respond({ inResponseTo: requestId, audience: entityId, acsUrl, email: 'jane@acme.com' }),
+      'base64'
+    ).toString();
+    const samlResponse = Buffer.from(signed.replace(/jane@acme\.com/g, 'ceo@acme.com')).toString(
+      'base64'
+    );
+
+    await expect(
+      validateSamlResponse(connection, { samlResponse, requestId, baseUrl: BASE_URL })
+    ).rejects.toThrow(/Invalid SAML response/);
+  });
+
+  it('should reject an assertion for another service provider', async () => {
+    const { requestId } = await startLogin();
+    const samlResponse = idp.respond({
+      inResponseTo: requestId,
+      audience: 'https://other-app.example.com',
+      acsUrl,
+      email: 'jane@acme.com',
+    });
+
+    await expect(
+      validateSamlResponse(connection, { samlResponse, requestId, baseUrl: BASE_URL })
+    ).rejects.toThrow(/Invalid SAML response/);
+  });
+
+  it('should reject an expired assertion', async () => {
+    const { requestId } = await startLogin();
+    const samlResponse = idp.respond({
+      inResponseTo: requestId,
+      audience: entityId,
+      acsUrl,
+      email: 'jane@acme.com',
+      validForSeconds: -600,
+    });
+
+    await expect(
+      validateSamlResponse(connection, { samlResponse, requestId, baseUrl: BASE_URL })
+    ).rejects.toThrow(/Invalid SAML response/);
+  });
+});
+
+describe('getSamlIdentity', () => {
+  it('should read the email and name from common attribute names', () => {
+    expect(
+      getSamlIdentity({
+        issuer: MOCK_SAML_ISSUER,
+        nameID: 'a1b2c3',
+        nameIDFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+        'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress': 'Ana@Acme.com',
+        'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname': 'Ana',
+        sn: 'Silva',
+      })
+    ).toEqual({ email: 'ana@acme.com', firstName: 'Ana', lastName: 'Silva', subject: 'a1b2c3' });
+  });
+
+  it('should fail without an email address', () => {
+    expect(() =>
+      getSamlIdentity({
+        issuer: MOCK_SAML_ISSUER,
+        nameID: 'a1b2c3',
+        nameIDFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+      })
+    ).toThrow(/no email address/);
+  });
+});
+
+describe('getSamlMetadata', () => {
+  it('should describe the entity ID and assertion consumer service', () => {
+    const metadata = getSamlMetadata(BASE_URL);
+
+    expect(metadata).toContain(`entityID="${entityId}"`);
+    expect(metadata).toContain(`Location="${acsUrl}"`);
+  });
+});
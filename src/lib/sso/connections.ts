@@ -0,0 +1,384 @@
+/**
+ * SSO Connections
+ *
+ * Per-account OIDC or SAML 2.0 identity provider (migration 095). Users sign
+ * in through the provider of the account that owns their email domain (domain
+ * discovery on the login page), and are provisioned on their first login with
+ * the connection's default role. With enforce_sso, email codes are rejected
+ * for the account's users on the connection's domains.
+ *
+ * A domain is only used for discovery, enforcement and provisioning once the
+ * account proved it owns it with a DNS TXT record (migration 104): otherwise
+ * any account could claim another company's domain.
+ *
+ * The OIDC client secret is envelope encrypted (src/lib/secrets/envelope.ts)
+ * and never returned to the browser.
+ */
+
+import { resolveTxt } from 'dns/promises';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { decryptSecret, encryptSecret, secretContext } from '@/lib/secrets/envelope';
+import { isAllowedWebhookUrl } from '@/lib/webhooks/outbound';
+
+export const SSO_PROTOCOLS = ['oidc', 'saml'] as const;
+export type SsoProtocol = (typeof SSO_PROTOCOLS)[number];
+
+/** Built-in roles SSO users can be provisioned with (never owner) */
+export const SSO_DEFAULT_ROLES = ['admin', 'editor', 'viewer'] as const;
+export type SsoDefaultRole = (typeof SSO_DEFAULT_ROLES)[number];
+
+export type SsoErrorCode =
+  | 'not_configured'
+  | 'disabled'
+  | 'invalid_state'
+  | 'invalid_response'
+  | 'domain_mismatch'
+  | 'account_mismatch';
+
+export class SsoError extends Error {
+  constructor(
+    message: string,
+    public code: SsoErrorCode
+  ) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+export interface SsoConnection {
+  id: string;
+  account_id: string;
+  protocol: SsoProtocol;
+  enabled: boolean;
+  enforce_sso: boolean;
+  default_role: SsoDefaultRole;
+  domains: string[];
+  /** Domains whose ownership was verified (discovery, enforcement, provisioning) */
+  verified_domains: string[];
+  domain_verification_token: string;
+  oidc_issuer: string | null;
+  oidc_client_id: string | null;
+  oidc_client_secret_encrypted: string | null;
+  saml_entry_point: string | null;
+  saml_idp_issuer: string | null;
+  saml_idp_certificate: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Connection as shown in settings (without the client secret) */
+export type SsoConnectionSettings = Omit<SsoConnection, 'oidc_client_secret_encrypted'> & {
+  has_client_secret: boolean;
+};
+
+/** User returned by an identity provider */
+export interface SsoIdentity {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  /** OIDC sub or SAML NameID */
+  subject: string;
+}
+
+// Consumer mailbox domains cannot be claimed by an account
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'uol.com.br',
+  'bol.com.br',
+  'terra.com.br',
+]);
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export const SSO_DOMAIN_VERIFICATION_PREFIX = 'bolt-sso-verification=';
+
+const DomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(DOMAIN_PATTERN, 'Invalid domain')
+  .refine((domain) => !PUBLIC_EMAIL_DOMAINS.has(domain), {
+    message: 'Public email domains cannot use SSO',
+  });
+
+// Identity provider URLs must use HTTPS and a public host (a local mock IdP
+// only outside production), like webhook URLs
+const IdpUrlSchema = z.url().refine((value) => isAllowedWebhookUrl(new URL(value)), {
+  message: 'URL must use HTTPS and a public host',
+});
+
+export const SsoConnectionSchema = z
+  .object({
+    protocol: z.enum(SSO_PROTOCOLS),
+    enabled: z.boolean().default(true),
+    enforceSso: z.boolean().default(false),
+    defaultRole: z.enum(SSO_DEFAULT_ROLES).default('viewer'),
+    domains: z.array(DomainSchema).min(1, 'Add at least one domain').max(20),
+    oidcIssuer: IdpUrlSchema.optional(),
+    oidcClientId: z.string().trim().min(1).max(255).optional(),
+    // Omit to keep the stored secret
+    oidcClientSecret: z.string().min(1).max(1000).optional(),
+    samlEntryPoint: IdpUrlSchema.optional(),
+    samlIdpIssuer: z.string().trim().max(500).optional(),
+    samlIdpCertificate: z.string().trim().min(1).max(20000).optional(),
+  })
+  .superRefine((body, ctx) => {
+    const required: (keyof typeof body)[] =
+      body.protocol === 'oidc'
+        ? ['oidcIssuer', 'oidcClientId']
+        : ['samlEntryPoint', 'samlIdpCertificate'];
+
+    for (const field of required) {
+      if (!body[field]) {
+        ctx.addIssue({ code: 'custom', path: [field], message: 'Required' });
+      }
+    }
+  });
+
+export type SsoConnectionInput = z.infer<typeof SsoConnectionSchema>;
+
+export const SsoDomainVerificationSchema = z.object({
+  domain: DomainSchema,
+});
+
+export const SsoDiscoverySchema = z.object({
+  email: z.email('Invalid email address'),
+});
+
+/**
+ * Lowercase domain of an email address (null when malformed)
+ */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  if (at <= 0 || at === email.length - 1) {
+    return null;
+  }
+  return email
+    .slice(at + 1)
+    .trim()
+    .toLowerCase();
+}
+
+function clientSecretContext(accountId: string): string {
+  return secretContext('sso_connections', 'oidc_client_secret', accountId);
+}
+
+function toSsoConnection(row: Record<string, unknown>): SsoConnection {
+  return {
+    ...(row as unknown as SsoConnection),
+    domains: Array.isArray(row.domains) ? (row.domains as string[]) : [],
+    verified_domains: Array.isArray(row.verified_domains) ? (row.verified_domains as string[]) : [],
+  };
+}
+
+/**
+ * Connection without its client secret (settings)
+ */
+export function toSsoConnectionSettings(connection: SsoConnection): SsoConnectionSettings {
+  const { oidc_client_secret_encrypted, ...settings } = connection;
+  return { ...settings, has_client_secret: !!oidc_client_secret_encrypted };
+}
+
+/**
+ * SSO connection of an account (null when not configured)
+ */
+export async function getSsoConnection(
+  accountId: string
+): Promise<{ connection: SsoConnection | null; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_sso_connection', {
+    p_account_id: accountId,
+  });
+
+  if (error) {
+    return { connection: null, error };
+  }
+
+  const row = ((data || []) as Record<string, unknown>[])[0];
+  return { connection: row ? toSsoConnection(row) : null, error: null };
+}
+
+/**
+ * Enabled SSO connection of the account that verified an email's domain
+ */
+export async function findSsoConnectionForEmail(
+  email: string
+): Promise<{ connection: SsoConnection | null; error: Error | null }> {
+  const domain = emailDomain(email);
+  if (!domain) {
+    return { connection: null, error: null };
+  }
+
+  const { data: accountId, error } = await getSupabaseAdmin().rpc('get_sso_account_by_domain', {
+    p_domain: domain,
+  });
+
+  if (error) {
+    return { connection: null, error };
+  }
+
+  if (!accountId) {
+    return { connection: null, error: null };
+  }
+
+  const result = await getSsoConnection(accountId as string);
+  if (result.connection && !result.connection.enabled) {
+    return { connection: null, error: null };
+  }
+
+  return result;
+}
+
+/**
+ * Whether email codes are disabled for an email because its account enforces SSO
+ * Only users of the connection's account are affected (a user of another
+ * account keeps email codes). Lookup errors don't block email codes.
+ */
+export async function isSsoEnforcedForEmail(email: string): Promise<boolean> {
+  const { connection, error } = await findSsoConnectionForEmail(email);
+
+  if (error) {
+    console.error('⚠️ [WARN] SSO discovery failed, allowing email code:', error);
+    return false;
+  }
+
+  if (!connection?.enforce_sso) {
+    return false;
+  }
+
+  const { data: users, error: userError } = await getSupabaseAdmin().rpc('get_user_by_email', {
+    p_email: email,
+  });
+
+  if (userError) {
+    console.error('⚠️ [WARN] SSO user lookup failed, allowing email code:', userError);
+    return false;
+  }
+
+  const user = ((users || []) as { account_id: string | null }[])[0];
+  return user?.account_id === connection.account_id;
+}
+
+/**
+ * Value of the TXT record proving ownership of a connection's domains
+ */
+export function getDomainVerificationRecord(connection: SsoConnection): string {
+  return `${SSO_DOMAIN_VERIFICATION_PREFIX}${connection.domain_verification_token}`;
+}
+
+/**
+ * Verify ownership of a domain of an account's connection: its TXT records
+ * must include the connection's verification record. Returns false when the
+ * record is not published (yet).
+ */
+export async function verifySsoDomain(
+  connection: SsoConnection,
+  domain: string
+): Promise<{ verified: boolean; error: Error | null }> {
+  if (!connection.domains.includes(domain)) {
+    return { verified: false, error: new SsoError('Domain is not configured', 'not_configured') };
+  }
+
+  let records: string[][];
+  try {
+    records = await resolveTxt(domain);
+  } catch (error) {
+    // ENOTFOUND / ENODATA: no TXT record yet
+    console.error(`⚠️ [WARN] TXT lookup failed for ${domain}:`, error);
+    return { verified: false, error: null };
+  }
+
+  const expected = getDomainVerificationRecord(connection);
+  if (!records.some((chunks) => chunks.join('').trim() === expected)) {
+    return { verified: false, error: null };
+  }
+
+  const { error } = await getSupabaseAdmin().rpc('verify_sso_domain', {
+    p_account_id: connection.account_id,
+    p_domain: domain,
+  });
+
+  if (error) {
+    return { verified: false, error };
+  }
+
+  return { verified: true, error: null };
+}
+
+/**
+ * Create or replace the SSO connection of an account
+ */
+export async function saveSsoConnection(
+  accountId: string,
+  input: SsoConnectionInput,
+  createdBy?: string
+): Promise<{ id: string | null; error: Error | null }> {
+  const isOidc = input.protocol === 'oidc';
+  const clientSecret =
+    isOidc && input.oidcClientSecret
+      ? encryptSecret(input.oidcClientSecret, { context: clientSecretContext(accountId) })
+          .ciphertext
+      : null;
+
+  const { data, error } = await getSupabaseAdmin().rpc('upsert_sso_connection', {
+    p_account_id: accountId,
+    p_protocol: input.protocol,
+    p_enabled: input.enabled,
+    p_enforce_sso: input.enforceSso,
+    p_default_role: input.defaultRole,
+    p_domains: input.domains,
+    p_oidc_issuer: isOidc ? input.oidcIssuer : null,
+    p_oidc_client_id: isOidc ? input.oidcClientId : null,
+    p_oidc_client_secret_encrypted: clientSecret,
+    p_saml_entry_point: isOidc ? null : input.samlEntryPoint,
+    p_saml_idp_issuer: isOidc ? null : input.samlIdpIssuer || null,
+    p_saml_idp_certificate: isOidc ? null : input.samlIdpCertificate,
+    p_created_by: createdBy ?? null,
+  });
+
+  if (error) {
+    return { id: null, error };
+  }
+
+  return { id: data as string, error: null };
+}
+
+/**
+ * Delete the SSO connection of an account
+ */
+export async function deleteSsoConnection(
+  accountId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_sso_connection', {
+    p_account_id: accountId,
+  });
+
+  if (error) {
+    return { deleted: false, error };
+  }
+
+  return { deleted: !!data, error: null };
+}
+
+/**
+ * Decrypted OIDC client secret of a connection
+ */
+export function getOidcClientSecret(connection: SsoConnection): string {
+  if (!connection.oidc_client_secret_encrypted) {
+    throw new SsoError('OIDC client secret is not configured', 'not_configured');
+  }
+
+  return decryptSecret(connection.oidc_client_secret_encrypted, {
+    context: clientSecretContext(connection.account_id),
+  });
+}
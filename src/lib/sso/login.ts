@@ -0,0 +1,195 @@
+/**
+ * SSO Login
+ *
+ * Shared steps of OIDC and SAML logins: the one-time login state that
+ * travels through the identity provider (migration 095), just-in-time
+ * provisioning of the user, and the dashboard session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { startDashboardSession } from '@/utils/auth/session';
+import { SsoError, emailDomain, type SsoConnection, type SsoIdentity } from './connections';
+
+/** How long a user has to complete the login at the identity provider */
+export const SSO_LOGIN_STATE_TTL_MINUTES = 10;
+
+const DEFAULT_REDIRECT = '/dashboard';
+
+export interface SsoLoginState {
+  state: string;
+  connection_id: string;
+  account_id: string;
+  nonce: string | null;
+  code_verifier: string | null;
+  request_id: string | null;
+  redirect_to: string | null;
+}
+
+export interface SsoUser {
+  id: string;
+  email: string;
+  account_id: string;
+  role: string;
+  name: string | null;
+  /** Whether the user was provisioned by this login */
+  created: boolean;
+}
+
+/**
+ * Public base URL of the dashboard (IdP redirect and ACS URLs)
+ */
+export function getSsoBaseUrl(request: NextRequest): string {
+  return (process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin).replace(/\/+$/, '');
+}
+
+/**
+ * Dashboard path to open after login; anything but a local path falls back
+ * to the dashboard (no open redirects)
+ */
+export function getSafeRedirect(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.includes('\\')) {
+    return DEFAULT_REDIRECT;
+  }
+  return value;
+}
+
+/**
+ * Store the state of a login until the identity provider redirects back
+ */
+export async function saveLoginState(
+  connection: SsoConnection,
+  login: {
+    state: string;
+    nonce?: string;
+    codeVerifier?: string;
+    requestId?: string;
+    redirectTo?: string;
+  }
+): Promise<{ error: Error | null }> {
+  const expiresAt = new Date(Date.now() + SSO_LOGIN_STATE_TTL_MINUTES * 60 * 1000);
+
+  const { error } = await getSupabaseAdmin().rpc('create_sso_login_state', {
+    p_state: login.state,
+    p_connection_id: connection.id,
+    p_nonce: login.nonce ?? null,
+    p_code_verifier: login.codeVerifier ?? null,
+    p_request_id: login.requestId ?? null,
+    p_redirect_to: getSafeRedirect(login.redirectTo),
+    p_expires_at: expiresAt.toISOString(),
+  });
+
+  return { error };
+}
+
+/**
+ * Take back the state of a login; fails when it is unknown, expired or
+ * already used
+ */
+export async function consumeLoginState(state: string | null | undefined): Promise<SsoLoginState> {
+  if (!state) {
+    throw new SsoError('Missing SSO login state', 'invalid_state');
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('consume_sso_login_state', {
+    p_state: state,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const loginState = ((data || []) as SsoLoginState[])[0];
+  if (!loginState) {
+    throw new SsoError('SSO login expired or was already used', 'invalid_state');
+  }
+
+  return loginState;
+}
+
+/**
+ * User of an SSO login, provisioned with the connection's default role on
+ * their first login. The email must belong to one of the connection's
+ * verified domains.
+ */
+export async function provisionSsoUser(
+  connection: SsoConnection,
+  identity: SsoIdentity
+): Promise<SsoUser> {
+  const domain = emailDomain(identity.email);
+  if (!domain || !connection.verified_domains.includes(domain)) {
+    throw new SsoError(
+      `Email domain ${domain ?? ''} is not verified for this SSO connection`,
+      'domain_mismatch'
+    );
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('provision_sso_user', {
+    p_account_id: connection.account_id,
+    p_email: identity.email,
+    p_first_name: identity.firstName,
+    p_last_name: identity.lastName,
+    p_role: connection.default_role,
+  });
+
+  if (error) {
+    if (error.message?.includes('another account')) {
+      throw new SsoError('User belongs to another account', 'account_mismatch');
+    }
+    throw error;
+  }
+
+  const user = ((data || []) as SsoUser[])[0];
+  if (!user) {
+    throw new Error('SSO user provisioning returned no user');
+  }
+
+  return user;
+}
+
+/**
+ * Finish a login whose identity the provider vouched for: provision the user,
+ * start the session and redirect to the dashboard
+ */
+export async function completeSsoLogin(
+  request: NextRequest,
+  connection: SsoConnection,
+  loginState: SsoLoginState,
+  identity: SsoIdentity
+): Promise<NextResponse> {
+  const user = await provisionSsoUser(connection, identity);
+
+  if (user.created) {
+    await recordAuditEvent(request, user, {
+      action: 'user.provision',
+      resourceType: 'user',
+      resourceId: user.id,
+      after: { email: user.email, role: user.role },
+      metadata: { protocol: connection.protocol, subject: identity.subject },
+    });
+  }
+
+  const response = NextResponse.redirect(
+    new URL(getSafeRedirect(loginState.redirect_to), getSsoBaseUrl(request)),
+    303
+  );
+  const { error } = await startDashboardSession(request, user, response);
+
+  if (error) {
+    console.error('❌ [DEBUG] SSO session creation error:', error);
+    return ssoErrorRedirect(request, 'unavailable');
+  }
+
+  console.info(`✅ [DEBUG] SSO login (${connection.protocol}) for user ${user.email}`);
+  return response;
+}
+
+/**
+ * Redirect back to the login page with an SSO error code
+ */
+export function ssoErrorRedirect(request: NextRequest, code: string): NextResponse {
+  const url = new URL('/login', getSsoBaseUrl(request));
+  url.searchParams.set('sso_error', code);
+  return NextResponse.redirect(url, 303);
+}
@@ -0,0 +1,257 @@
+/**
+ * OIDC Single Sign-On
+ *
+ * Authorization code flow with PKCE against the account's OpenID provider:
+ * the provider is configured by its issuer URL (endpoints come from its
+ * discovery document), the client authenticates with client_secret_basic,
+ * and the ID token is verified against the provider's JWKS (signature,
+ * issuer, audience, expiry and the nonce of the login).
+ *
+ * The issuer and the endpoints of its discovery document are entered by
+ * tenants, so requests to them go through the outbound webhook guard
+ * (src/lib/webhooks/outbound.ts): no private addresses, no redirects, and a
+ * timeout so that a hung provider doesn't stall the login.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createRemoteJWKSet, jwtVerify, type JWTVerifyGetKey } from 'jose';
+import { WebhookUrlError, assertPublicWebhookUrl, fetchWebhookUrl } from '@/lib/webhooks/outbound';
+import { SsoError, getOidcClientSecret, type SsoConnection, type SsoIdentity } from './connections';
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** How long discovery documents are cached per instance */
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Timeout of requests to the provider (discovery, token exchange) */
+const OIDC_REQUEST_TIMEOUT_MS = 10_000;
+
+/** Allowed difference between our clock and the provider's */
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; expiresAt: number }>();
+const jwksCache = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * Forget cached discovery documents and key sets (tests)
+ */
+export function clearOidcCache(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
+
+function normalizeIssuer(issuer: string): string {
+  return issuer.replace(/\/+$/, '');
+}
+
+/**
+ * Random URL-safe value (state, nonce, PKCE verifier)
+ */
+export function generateSsoToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * S256 PKCE challenge of a code verifier
+ */
+export function getPkceChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Request to the provider; URLs resolving to private addresses are refused
+ */
+async function fetchProvider(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetchWebhookUrl(url, {
+      ...init,
+      signal: AbortSignal.timeout(OIDC_REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof WebhookUrlError) {
+      throw new SsoError(`OIDC provider URL refused: ${error.message}`, 'not_configured');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Discovery document of an OpenID provider (cached)
+ */
+export async function getOidcDiscovery(issuer: string): Promise<OidcDiscoveryDocument> {
+  const key = normalizeIssuer(issuer);
+  const cached = discoveryCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.document;
+  }
+
+  const response = await fetchProvider(`${key}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+  });
+
+  if (!response.ok) {
+    throw new SsoError(`OIDC discovery failed with status ${response.status}`, 'not_configured');
+  }
+
+  const document = (await response.json()) as Partial<OidcDiscoveryDocument>;
+
+  if (
+    !document.issuer ||
+    !document.authorization_endpoint ||
+    !document.token_endpoint ||
+    !document.jwks_uri
+  ) {
+    throw new SsoError('OIDC discovery document is incomplete', 'not_configured');
+  }
+
+  if (normalizeIssuer(document.issuer) !== key) {
+    throw new SsoError('OIDC discovery issuer does not match', 'not_configured');
+  }
+
+  // The key set is fetched by jose: check its host before it is used
+  try {
+    await assertPublicWebhookUrl(document.jwks_uri);
+  } catch (error) {
+    if (error instanceof WebhookUrlError) {
+      throw new SsoError(`OIDC JWKS URL refused: ${error.message}`, 'not_configured');
+    }
+    throw error;
+  }
+
+  const complete = document as OidcDiscoveryDocument;
+  discoveryCache.set(key, { document: complete, expiresAt: Date.now() + DISCOVERY_CACHE_TTL_MS });
+  return complete;
+}
+
+function getJwks(jwksUri: string): JWTVerifyGetKey {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+function requireOidc(connection: SsoConnection): { issuer: string; clientId: string } {
+  if (connection.protocol !== 'oidc' || !connection.oidc_issuer || !connection.oidc_client_id) {
+    throw new SsoError('OIDC is not configured for this account', 'not_configured');
+  }
+  return { issuer: connection.oidc_issuer, clientId: connection.oidc_client_id };
+}
+
+/**
+ * URL of the provider's authorization endpoint for a login
+ */
+export async function getOidcAuthorizationUrl(
+  connection: SsoConnection,
+  options: {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    redirectUri: string;
+    loginHint?: string;
+  }
+): Promise<string> {
+  const { issuer, clientId } = requireOidc(connection);
+  const discovery = await getOidcDiscovery(issuer);
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', clientId);
+  url.searchParams.set('redirect_uri', options.redirectUri);
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', options.state);
+  url.searchParams.set('nonce', options.nonce);
+  url.searchParams.set('code_challenge', getPkceChallenge(options.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (options.loginHint) {
+    url.searchParams.set('login_hint', options.loginHint);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code and verify the ID token
+ */
+export async function exchangeOidcCode(
+  connection: SsoConnection,
+  options: {
+    code: string;
+    codeVerifier: string;
+    nonce: string;
+    redirectUri: string;
+  }
+): Promise<SsoIdentity> {
+  const { issuer, clientId } = requireOidc(connection);
+  const discovery = await getOidcDiscovery(issuer);
+  const clientSecret = getOidcClientSecret(connection);
+
+  const response = await fetchProvider(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      Authorization: `Basic ${Buffer.from(
+        `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`
+      ).toString('base64')}`,
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: options.code,
+      redirect_uri: options.redirectUri,
+      code_verifier: options.codeVerifier,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new SsoError(
+      `OIDC token exchange failed with status ${response.status}`,
+      'invalid_response'
+    );
+  }
+
+  const tokens = (await response.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new SsoError('OIDC token response has no ID token', 'invalid_response');
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    ({ payload } = await jwtVerify(tokens.id_token, getJwks(discovery.jwks_uri), {
+      issuer: discovery.issuer,
+      audience: clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }));
+  } catch (error) {
+    throw new SsoError(
+      `Invalid OIDC ID token: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_response'
+    );
+  }
+
+  if (payload.nonce !== options.nonce) {
+    throw new SsoError('OIDC ID token nonce does not match', 'invalid_response');
+  }
+
+  if (typeof payload.email !== 'string' || !payload.email) {
+    throw new SsoError('OIDC ID token has no email claim', 'invalid_response');
+  }
+
+  // Providers that report the address as unverified can't prove domain ownership
+  if (payload.email_verified === false) {
+    throw new SsoError('OIDC email address is not verified', 'invalid_response');
+  }
+
+  return {
+    email: payload.email.toLowerCase(),
+    firstName: typeof payload.given_name === 'string' ? payload.given_name : null,
+    lastName: typeof payload.family_name === 'string' ? payload.family_name : null,
+    subject: String(payload.sub),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * SAML 2.0 Single Sign-On
+ *
+ * SP-initiated login with the HTTP-Redirect binding and responses posted to
+ * the assertion consumer service (HTTP-POST binding). Assertions must be
+ * signed by the certificate configured for the account, addressed to our
+ * entity ID, and answer the AuthnRequest of the login (InResponseTo).
+ *
+ * The AuthnRequest ID is stored with the login state (migration 095) instead
+ * of node-saml's in-memory cache, so the response can be validated by any
+ * instance.
+ */
+
+import {
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+  type CacheItem,
+  type CacheProvider,
+  type Profile,
+} from '@node-saml/node-saml';
+import { SsoError, type SsoConnection, type SsoIdentity } from './connections';
+
+const NAME_ID_FORMAT_EMAIL = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+/** Allowed difference between our clock and the provider's */
+const ACCEPTED_CLOCK_SKEW_MS = 60 * 1000;
+
+// Attribute names providers use for the email and name
+const EMAIL_ATTRIBUTES = [
+  'email',
+  'mail',
+  'urn:oid:0.9.2342.19200300.100.1.3',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+];
+const FIRST_NAME_ATTRIBUTES = [
+  'firstName',
+  'givenName',
+  'urn:oid:2.5.4.42',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+];
+const LAST_NAME_ATTRIBUTES = [
+  'lastName',
+  'surname',
+  'sn',
+  'urn:oid:2.5.4.4',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+];
+
+/** Entity ID and assertion consumer service URL of the dashboard */
+export interface SamlServiceProvider {
+  entityId: string;
+  acsUrl: string;
+}
+
+/**
+ * Service provider URLs for a dashboard base URL
+ */
+export function getSamlServiceProvider(baseUrl: string): SamlServiceProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+  return {
+    entityId: `${base}/api/dashboard/auth/sso/saml/metadata`,
+    acsUrl: `${base}/api/dashboard/auth/sso/saml/acs`,
+  };
+}
+
+/**
+ * Request ID cache for a single login: records the ID of the AuthnRequest
+ * being created, or knows the ID stored with the login state
+ */
+class LoginRequestCache implements CacheProvider {
+  requestId: string | null;
+
+  constructor(requestId: string | null = null) {
+    this.requestId = requestId;
+  }
+
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    this.requestId = key;
+    return { value, createdAt: Date.now() };
+  }
+
+  async getAsync(key: string): Promise<string | null> {
+    return key === this.requestId ? new Date().toISOString() : null;
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (key && key === this.requestId) {
+      this.requestId = null;
+      return key;
+    }
+    return null;
+  }
+}
+
+function createSamlClient(
+  connection: SsoConnection,
+  serviceProvider: SamlServiceProvider,
+  cache: LoginRequestCache
+): SAML {
+  if (
+    connection.protocol !== 'saml' ||
+    !connection.saml_entry_point ||
+    !connection.saml_idp_certificate
+  ) {
+    throw new SsoError('SAML is not configured for this account', 'not_configured');
+  }
+
+  return new SAML({
+    entryPoint: connection.saml_entry_point,
+    issuer: serviceProvider.entityId,
+    callbackUrl: serviceProvider.acsUrl,
+    audience: serviceProvider.entityId,
+    idpCert: connection.saml_idp_certificate,
+    idpIssuer: connection.saml_idp_issuer || undefined,
+    identifierFormat: NAME_ID_FORMAT_EMAIL,
+    // Providers differ in the authentication context they report
+    disableRequestedAuthnContext: true,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    acceptedClockSkewMs: ACCEPTED_CLOCK_SKEW_MS,
+    validateInResponseTo: ValidateInResponseTo.always,
+    cacheProvider: cache,
+  });
+}
+
+function firstAttribute(profile: Profile, names: string[]): string | null {
+  for (const name of names) {
+    const value = profile[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string' && first.trim()) {
+      return first.trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Identity of a validated SAML assertion
+ */
+export function getSamlIdentity(profile: Profile): SsoIdentity {
+  const email =
+    firstAttribute(profile, EMAIL_ATTRIBUTES) ||
+    (profile.nameID?.includes('@') ? profile.nameID : null);
+
+  if (!email) {
+    throw new SsoError('SAML assertion has no email address', 'invalid_response');
+  }
+
+  return {
+    email: email.toLowerCase(),
+    firstName: firstAttribute(profile, FIRST_NAME_ATTRIBUTES),
+    lastName: firstAttribute(profile, LAST_NAME_ATTRIBUTES),
+    subject: profile.nameID,
+  };
+}
+
+/**
+ * Redirect URL of an AuthnRequest, with the ID to check InResponseTo against
+ */
+export async function getSamlLoginUrl(
+  connection: SsoConnection,
+  options: { relayState: string; baseUrl: string }
+): Promise<{ url: string; requestId: string }> {
+  const cache = new LoginRequestCache();
+  const saml = createSamlClient(connection, getSamlServiceProvider(options.baseUrl), cache);
+  const url = await saml.getAuthorizeUrlAsync(options.relayState, undefined, {});
+
+  if (!cache.requestId) {
+    throw new SsoError('SAML request ID was not generated', 'invalid_response');
+  }
+
+  return { url, requestId: cache.requestId };
+}
+
+/**
+ * Validate a SAML response posted to the assertion consumer service
+ */
+export async function validateSamlResponse(
+  connection: SsoConnection,
+  options: { samlResponse: string; requestId: string | null; baseUrl: string }
+): Promise<SsoIdentity> {
+  const cache = new LoginRequestCache(options.requestId);
+  const saml = createSamlClient(connection, getSamlServiceProvider(options.baseUrl), cache);
+
+  let profile: Profile | null;
+  try {
+    ({ profile } = await saml.validatePostResponseAsync({ SAMLResponse: options.samlResponse }));
+  } catch (error) {
+    if (error instanceof SsoError) {
+      throw error;
+    }
+    throw new SsoError(
+      `Invalid SAML response: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_response'
+    );
+  }
+
+  if (!profile) {
+    throw new SsoError('SAML response has no assertion', 'invalid_response');
+  }
+
+  return getSamlIdentity(profile);
+}
+
+/**
+ * Service provider metadata XML to register the dashboard with an IdP
+ */
+export function getSamlMetadata(baseUrl: string): string {
+  const serviceProvider = getSamlServiceProvider(baseUrl);
+
+  return generateServiceProviderMetadata({
+    issuer: serviceProvider.entityId,
+    callbackUrl: serviceProvider.acsUrl,
+    identifierFormat: NAME_ID_FORMAT_EMAIL,
+    wantAssertionsSigned: true,
+  });
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { getDefaultThemeConfig } from '@/components/Dashboard/ThemeEditor/defaults';
+import { buildThemeExport, parseThemeImport } from '../import';
+import { THEME_EXPORT_VERSION, migrateThemeExport } from '../migrations';
+
+describe('parseThemeImport', () => {
+  it('should accept the current export of a default config', () => {
+    const file = buildThemeExport({
+      name: 'Checkout',
+      config: { ...getDefaultThemeConfig('single-page'), name: 'Checkout' },
+    });
+
+    const result = parseThemeImport(file);
+
+    expect(file.version).toBe(THEME_EXPORT_VERSION);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.name).toBe('Checkout');
+      expect(result.config.layout.type).toBe('single-page');
+    }
+  });
+
+  it('should fill missing sections from the base theme defaults', () => {
+    const result = parseThemeImport({
+      name: 'Partial',
+      version: '2.0',
+      config: {
+        name: 'Partial',
+        baseTheme: 'liquid-glass',
+        visual: { colors: { accent: '#123456' } },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.config.visual.colors.accent).toBe('#123456');
+      expect(result.config.visual.colors.primary).toEqual(
+        getDefaultThemeConfig('liquid-glass').visual.colors.primary
+      );
+      expect(result.config.layout.components.appHeader.transparent).toBe(true);
+      expect(result.config.features.checkout.couponCode).toBe(true);
+    }
+  });
+
+  it('should upgrade 1.0 exports of legacy configs', () => {
+    const result = parseThemeImport({
+      name: 'Legacy',
+      exportedAt: '2024-06-01T00:00:00.000Z',
+      version: '1.0',
+      config: {
+        name: 'Legacy',
+        layout: 'single-page',
+        colors: { primary: '#111111', accent: '#222222' },
+        fonts: { heading: 'Poppins' },
+        logo: 'https://example.com/logo.svg',
+      },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.sourceVersion).toBe('1.0');
+      expect(result.config.baseTheme).toBe('single-page');
+      expect(result.config.visual.colors.primary.from).toBe('#111111');
+      expect(result.config.visual.colors.accent).toBe('#222222');
+      expect(result.config.visual.typography.heading.family).toBe('Poppins');
+      expect(result.config.branding.logo.url).toBe('https://example.com/logo.svg');
+    }
+  });
+
+  it('should treat files without a version as 1.0', () => {
+    const result = parseThemeImport({ name: 'Old', config: { layout: 'default' } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.sourceVersion).toBe('1.0');
+    }
+  });
+
+  it('should return field-level errors for invalid values', () => {
+    const result = parseThemeImport({
+      name: 'Broken',
+      version: '2.0',
+      config: {
+        name: 'Broken',
+        layout: { type: 'carousel' },
+        features: { cart: { quantityControl: 'yes' } },
+      },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((error) => error.path)).toEqual([
+        'config.layout.type',
+        'config.features.cart.quantityControl',
+      ]);
+    }
+  });
+
+  it('should reject unknown export versions', () => {
+    const result = parseThemeImport({ name: 'Future', version: '9.0', config: {} });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [{ path: 'version', message: 'Unsupported theme export version: 9.0' }],
+    });
+  });
+
+  it('should reject files without a config', () => {
+    const result = parseThemeImport({ name: 'Empty', version: '2.0' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0].path).toBe('config');
+    }
+  });
+
+  it('should import under the requested name', () => {
+    const file = buildThemeExport({ name: 'Staging', config: getDefaultThemeConfig() });
+
+    const result = parseThemeImport(file, 'Production');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.name).toBe('Production');
+    }
+  });
+});
+
+describe('migrateThemeExport', () => {
+  it('should leave current files unchanged', () => {
+    const file = { name: 'Current', version: THEME_EXPORT_VERSION, config: { name: 'Current' } };
+
+    expect(migrateThemeExport(file)).toBe(file);
+  });
+});
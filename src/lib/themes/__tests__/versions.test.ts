@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { diffThemeConfigs, getThemeConfigSection, toThemeVersion } from '../versions';
+
+describe('getThemeConfigSection', () => {
+  it('should group visual paths one level deeper', () => {
+    expect(getThemeConfigSection('visual.colors.primary.from')).toBe('visual.colors');
+    expect(getThemeConfigSection('visual.typography.mono.size')).toBe('visual.typography');
+  });
+
+  it('should group other paths by their top-level key', () => {
+    expect(getThemeConfigSection('texts.interface.buttons.next')).toBe('texts');
+    expect(getThemeConfigSection('layout.type')).toBe('layout');
+    expect(getThemeConfigSection('name')).toBe('name');
+  });
+});
+
+describe('diffThemeConfigs', () => {
+  const base = {
+    name: 'Checkout',
+    visual: {
+      colors: { accent: '#ff0000', primary: { from: '#000000', to: '#ffffff' } },
+      typography: { primary: { weights: [400, 600] } },
+    },
+    layout: { type: 'step-by-step', showStepper: true },
+  };
+
+  it('should report no changes for identical configs', () => {
+    expect(diffThemeConfigs(base, structuredClone(base))).toEqual({ changes: [], sections: [] });
+  });
+
+  it('should report changed, added and removed leaf paths', () => {
+    const next = structuredClone(base) as Record<string, any>;
+    next.visual.colors.accent = '#00ff00';
+    next.visual.colors.primary.to = '#eeeeee';
+    delete next.layout.showStepper;
+    next.texts = { interface: { next: 'Continue' } };
+
+    const { changes, sections } = diffThemeConfigs(base, next);
+
+    expect(changes).toEqual([
+      { path: 'layout.showStepper', section: 'layout', type: 'removed', from: true },
+      { path: 'texts.interface.next', section: 'texts', type: 'added', to: 'Continue' },
+      {
+        path: 'visual.colors.accent',
+        section: 'visual.colors',
+        type: 'changed',
+        from: '#ff0000',
+        to: '#00ff00',
+      },
+      {
+        path: 'visual.colors.primary.to',
+        section: 'visual.colors',
+        type: 'changed',
+        from: '#ffffff',
+        to: '#eeeeee',
+      },
+    ]);
+    expect(sections).toEqual([
+      { section: 'layout', changes: 1 },
+      { section: 'texts', changes: 1 },
+      { section: 'visual.colors', changes: 2 },
+    ]);
+  });
+
+  it('should compare arrays as a whole', () => {
+    const next = structuredClone(base);
+    next.visual.typography.primary.weights = [400, 700];
+
+    expect(diffThemeConfigs(base, next).changes).toEqual([
+      {
+        path: 'visual.typography.primary.weights',
+        section: 'visual.typography',
+        type: 'changed',
+        from: [400, 600],
+        to: [400, 700],
+      },
+    ]);
+  });
+});
+
+describe('toThemeVersion', () => {
+  it('should map the author when the version has one', () => {
+    const version = toThemeVersion({
+      id: 'version-1',
+      theme_id: 'theme-1',
+      version_number: 3,
+      name: 'Checkout',
+      created_at: '2025-01-01T00:00:00+00:00',
+      created_by: 'user-1',
+      author_email: 'designer@example.com',
+      author_name: null,
+      restored_from_version: 1,
+    });
+
+    expect(version.version).toBe(3);
+    expect(version.author).toEqual({ id: 'user-1', email: 'designer@example.com', name: null });
+    expect(version.restoredFromVersion).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Theme Import
+ *
+ * Validates a theme file produced by GET /api/dashboard/themes/[id]/export:
+ * the file envelope is checked, its config is upgraded to the current export
+ * version (migrations.ts), missing sections are filled from the base theme
+ * defaults, and the result is validated against ExpandedThemeConfigSchema.
+ */
+
+import { z } from 'zod';
+import type { ExpandedThemeConfig } from '@/components/Dashboard/ThemeEditor/types';
+import { ExpandedThemeConfigSchema } from './schema';
+import {
+  THEME_EXPORT_VERSION,
+  ThemeMigrationError,
+  fillThemeDefaults,
+  migrateThemeExport,
+} from './migrations';
+
+export const ThemeExportFileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  config: z.record(z.string(), z.unknown()),
+  exportedAt: z.string().optional(),
+  // Files without a version predate versioned exports and use the 1.0 format
+  version: z.string().default('1.0'),
+});
+
+export interface ThemeImportFieldError {
+  path: string;
+  message: string;
+}
+
+export type ThemeImportResult =
+  | {
+      success: true;
+      name: string;
+      config: ExpandedThemeConfig;
+      sourceVersion: string;
+    }
+  | {
+      success: false;
+      errors: ThemeImportFieldError[];
+    };
+
+function toFieldErrors(error: z.ZodError, prefix?: string): ThemeImportFieldError[] {
+  return error.issues.map((issue) => ({
+    path: [prefix, ...issue.path.map(String)].filter(Boolean).join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Parse and validate an exported theme file
+ *
+ * @param file - Parsed JSON body of the import request
+ * @param nameOverride - Name to import the theme under (defaults to the name in the file)
+ */
+export function parseThemeImport(file: unknown, nameOverride?: string): ThemeImportResult {
+  const fileResult = ThemeExportFileSchema.safeParse(file);
+  if (!fileResult.success) {
+    return { success: false, errors: toFieldErrors(fileResult.error) };
+  }
+
+  let migrated;
+  try {
+    migrated = migrateThemeExport(fileResult.data);
+  } catch (error) {
+    if (error instanceof ThemeMigrationError) {
+      return { success: false, errors: [{ path: 'version', message: error.message }] };
+    }
+    throw error;
+  }
+
+  const config = fillThemeDefaults(migrated.config);
+  config.name = nameOverride || config.name || migrated.name;
+
+  const configResult = ExpandedThemeConfigSchema.safeParse(config);
+  if (!configResult.success) {
+    return { success: false, errors: toFieldErrors(configResult.error, 'config') };
+  }
+
+  return {
+    success: true,
+    name: configResult.data.name,
+    config: configResult.data,
+    sourceVersion: fileResult.data.version,
+  };
+}
+
+/**
+ * Build the export file of a stored theme in the current export version
+ */
+export function buildThemeExport(theme: { name: string; config: unknown }) {
+  const migrated = migrateThemeExport({
+    name: theme.name,
+    config: (theme.config || {}) as Record<string, unknown>,
+    version: '1.0',
+  });
+
+  return {
+    name: theme.name,
+    config: fillThemeDefaults(migrated.config),
+    exportedAt: new Date().toISOString(),
+    version: THEME_EXPORT_VERSION,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Theme Export Migrations
+ *
+ * Exported theme files carry a format version. Older files are upgraded one
+ * version at a time through THEME_EXPORT_MIGRATIONS until they reach
+ * THEME_EXPORT_VERSION, then missing sections are filled from the defaults of
+ * their base theme.
+ *
+ * Versions:
+ * - 1.0: `config` is whatever was stored, including the legacy editor format
+ *        ({ layout, colors, fonts, logo })
+ * - 2.0: `config` is always an ExpandedThemeConfig with its baseTheme set
+ */
+
+import { getDefaultThemeConfig } from '@/components/Dashboard/ThemeEditor/defaults';
+import {
+  defaultThemeConfigs,
+  type CheckoutThemeId,
+  type ExpandedThemeConfig,
+} from '@/components/Dashboard/ThemeEditor/types';
+import { CHECKOUT_THEME_IDS } from './schema';
+
+export const THEME_EXPORT_VERSION = '2.0';
+
+export interface ThemeExportFile {
+  name?: string;
+  config: Record<string, unknown>;
+  exportedAt?: string;
+  version: string;
+}
+
+export class ThemeMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeMigrationError';
+  }
+}
+
+/**
+ * Theme config saved by the original editor (before ExpandedThemeConfig)
+ */
+export interface LegacyThemeConfig {
+  name?: string;
+  layout?: 'default' | 'single-page' | 'liquid-glass';
+  colors?: {
+    primary?: string;
+    secondary?: string;
+    accent?: string;
+    background?: string;
+    text?: string;
+  };
+  fonts?: {
+    heading?: string;
+    body?: string;
+  };
+  logo?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCheckoutThemeId(value: unknown): value is CheckoutThemeId {
+  return CHECKOUT_THEME_IDS.includes(value as CheckoutThemeId);
+}
+
+/**
+ * Whether a stored config uses the expanded format (as opposed to the legacy one)
+ */
+export function isExpandedThemeConfig(config: unknown): boolean {
+  return (
+    isPlainObject(config) &&
+    isPlainObject(config.visual) &&
+    isPlainObject(config.layout) &&
+    isPlainObject(config.features)
+  );
+}
+
+/**
+ * Convert a legacy theme config to the expanded format
+ */
+export function upgradeLegacyThemeConfig(
+  legacy: LegacyThemeConfig,
+  fallbackName = ''
+): ExpandedThemeConfig {
+  const baseTheme: CheckoutThemeId =
+    legacy.layout === 'single-page'
+      ? 'single-page'
+      : legacy.layout === 'liquid-glass'
+        ? 'liquid-glass'
+        : 'default';
+  const expanded = getDefaultThemeConfig(baseTheme);
+  const { colors: visualColors, typography } = expanded.visual;
+
+  expanded.name = legacy.name || fallbackName;
+  if (legacy.colors) {
+    visualColors.primary.from = legacy.colors.primary || visualColors.primary.from;
+    visualColors.secondary.from = legacy.colors.secondary || visualColors.secondary.from;
+    visualColors.accent = legacy.colors.accent || visualColors.accent;
+    visualColors.background.primary = legacy.colors.background || visualColors.background.primary;
+    visualColors.text.primary = legacy.colors.text || visualColors.text.primary;
+  }
+  if (legacy.fonts) {
+    typography.heading.family = legacy.fonts.heading || typography.heading.family;
+    typography.primary.family = legacy.fonts.body || typography.primary.family;
+  }
+  if (legacy.logo) {
+    expanded.branding.logo.url = legacy.logo;
+  }
+
+  return expanded;
+}
+
+/**
+ * Each entry upgrades a file from its key version to `to`
+ */
+export const THEME_EXPORT_MIGRATIONS: Record<
+  string,
+  { to: string; migrate: (file: ThemeExportFile) => ThemeExportFile }
+> = {
+  '1.0': {
+    to: '2.0',
+    migrate: (file) => {
+      const config = isExpandedThemeConfig(file.config)
+        ? { ...file.config }
+        : (upgradeLegacyThemeConfig(
+            file.config as LegacyThemeConfig,
+            file.name
+          ) as unknown as Record<string, unknown>);
+
+      if (!isCheckoutThemeId(config.baseTheme)) {
+        config.baseTheme = null;
+      }
+      if (!config.name && file.name) {
+        config.name = file.name;
+      }
+
+      return { ...file, config, version: '2.0' };
+    },
+  },
+};
+
+/**
+ * Upgrade an export file to THEME_EXPORT_VERSION
+ *
+ * @throws ThemeMigrationError when the version is unknown (or newer than this server)
+ */
+export function migrateThemeExport(file: ThemeExportFile): ThemeExportFile {
+  let current = file;
+
+  while (current.version !== THEME_EXPORT_VERSION) {
+    const migration = THEME_EXPORT_MIGRATIONS[current.version];
+    if (!migration) {
+      throw new ThemeMigrationError(`Unsupported theme export version: ${current.version}`);
+    }
+    current = migration.migrate(current);
+  }
+
+  return current;
+}
+
+function mergeDeep(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeDeep(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Fill the sections and fields missing from a config with the defaults of its base theme
+ * (getDefaultThemeConfig, overridden by defaultThemeConfigs). Arrays are not merged.
+ */
+export function fillThemeDefaults(config: Record<string, unknown>): Record<string, unknown> {
+  const baseTheme = isCheckoutThemeId(config.baseTheme) ? config.baseTheme : 'default';
+  const defaults = mergeDeep(getDefaultThemeConfig(baseTheme), defaultThemeConfigs[baseTheme]);
+
+  return mergeDeep(defaults, config) as Record<string, unknown>;
+}
@@ -0,0 +1,338 @@
+/**
+ * Theme Config Schema
+ *
+ * Zod schema mirroring ExpandedThemeConfig (ThemeEditor/types.ts), used to
+ * validate imported themes. The `satisfies` clause keeps the schema in sync
+ * with the editor types: a field added to the types without the schema (or
+ * with a different type) fails the type-check.
+ */
+
+import { z } from 'zod';
+import type { ExpandedThemeConfig } from '@/components/Dashboard/ThemeEditor/types';
+
+export const CHECKOUT_THEME_IDS = ['default', 'single-page', 'liquid-glass'] as const;
+
+const textRecord = z.record(z.string(), z.string());
+
+const gradientSchema = z.object({ from: z.string(), to: z.string() });
+
+const elementStyleSchema = z.object({ size: z.string(), weight: z.number() });
+
+const stepTextsSchema = z.object({
+  cart: z.string(),
+  login: z.string(),
+  profile: z.string(),
+  shipping: z.string(),
+  payment: z.string(),
+});
+
+const VisualConfigSchema = z.object({
+  colors: z.object({
+    primary: gradientSchema,
+    secondary: gradientSchema,
+    accent: z.string(),
+    success: z.string(),
+    warning: z.string(),
+    error: z.string(),
+    info: z.string(),
+    neutral: z.object({
+      50: z.string(),
+      100: z.string(),
+      200: z.string(),
+      300: z.string(),
+      400: z.string(),
+      500: z.string(),
+      600: z.string(),
+      700: z.string(),
+      800: z.string(),
+      900: z.string(),
+    }),
+    background: z.object({ primary: z.string(), secondary: z.string(), overlay: z.string() }),
+    text: z.object({
+      primary: z.string(),
+      secondary: z.string(),
+      tertiary: z.string(),
+      placeholder: z.string(),
+    }),
+    border: z.object({
+      default: z.string(),
+      hover: z.string(),
+      focus: z.string(),
+      error: z.string(),
+    }),
+    glassmorphism: z
+      .object({
+        opacity: z.number().min(0).max(1),
+        blur: z.number().min(0),
+        borderColor: z.string(),
+      })
+      .optional(),
+  }),
+  typography: z.object({
+    primary: z.object({
+      family: z.string(),
+      weights: z.array(z.number()),
+      sizes: z.object({
+        base: z.string(),
+        sm: z.string(),
+        lg: z.string(),
+        xl: z.string(),
+        '2xl': z.string(),
+        '3xl': z.string(),
+      }),
+    }),
+    heading: z.object({
+      family: z.string(),
+      weights: z.array(z.number()),
+      sizes: z.object({
+        base: z.string(),
+        lg: z.string(),
+        xl: z.string(),
+        '2xl': z.string(),
+        '3xl': z.string(),
+      }),
+    }),
+    mono: z.object({ family: z.string(), size: z.string() }),
+    lineHeight: z.object({ tight: z.string(), normal: z.string(), relaxed: z.string() }),
+    letterSpacing: z.object({ tight: z.string(), normal: z.string(), wide: z.string() }),
+    elementStyles: z.object({
+      labels: elementStyleSchema,
+      inputs: elementStyleSchema,
+      buttons: elementStyleSchema,
+      cards: elementStyleSchema,
+    }),
+  }),
+  spacing: z.object({
+    cardPadding: z.enum(['p-4', 'p-6', 'p-8', 'p-10', 'p-12']),
+    gap: z.enum(['gap-2', 'gap-4', 'gap-6', 'gap-8', 'gap-10']),
+    borderRadius: z.enum(['rounded-lg', 'rounded-xl', 'rounded-2xl', 'rounded-3xl']),
+    shadows: z.object({
+      sm: z.string(),
+      md: z.string(),
+      lg: z.string(),
+      xl: z.string(),
+      '2xl': z.string(),
+    }),
+    containerMaxWidth: z.string(),
+    spacingScale: z.object({
+      mb: z.array(z.string()),
+      mt: z.array(z.string()),
+      mx: z.array(z.string()),
+      my: z.array(z.string()),
+    }),
+  }),
+  animations: z.object({
+    transitionDuration: z.enum(['duration-200', 'duration-300', 'duration-500']),
+    easing: z.enum(['ease-in', 'ease-out', 'ease-in-out']),
+    hoverEffects: z.object({ scale: z.number(), translate: z.string() }),
+    loading: z.object({ spinnerSpeed: z.number(), skeletonPulse: z.boolean() }),
+    scrollBehavior: z.enum(['smooth', 'auto']),
+    animatedBackground: z.boolean(),
+  }),
+});
+
+const LayoutConfigSchema = z.object({
+  type: z.enum(['step-by-step', 'single-page', 'liquid-glass']),
+  showStepper: z.boolean(),
+  stepperPosition: z.enum(['top', 'inline', 'hidden']),
+  orderSummaryPosition: z.enum(['sidebar', 'top-sticky', 'bottom-sticky']),
+  containerType: z.string(),
+  breakpoints: z.object({ sm: z.string(), md: z.string(), lg: z.string(), xl: z.string() }),
+  mobileLayout: z.enum(['stack', 'side-by-side']),
+  hiddenElements: z.object({
+    mobile: z.array(z.string()),
+    tablet: z.array(z.string()),
+    desktop: z.array(z.string()),
+  }),
+  components: z.object({
+    appHeader: z.object({ show: z.boolean(), sticky: z.boolean(), transparent: z.boolean() }),
+    appFooter: z.object({ show: z.boolean(), content: z.string().optional() }),
+    userProfile: z.object({
+      position: z.enum(['header', 'sidebar', 'inline']),
+      style: z.enum(['minimal', 'detailed']),
+      showInfo: z.array(z.string()),
+    }),
+    modernStepper: z.object({
+      style: z.enum(['dots', 'lines', 'numbers']),
+      activeColor: z.string(),
+    }),
+    checkoutHeader: z.object({
+      gradient: z.enum(['orange', 'blue', 'purple', 'none']),
+      showIcons: z.boolean(),
+      position: z.enum(['top', 'inline']),
+    }),
+  }),
+});
+
+const BrandingConfigSchema = z.object({
+  logo: z.object({
+    url: z.string(),
+    altText: z.string(),
+    homeLink: z.string(),
+    width: z.number().positive().optional(),
+    height: z.number().positive().optional(),
+    position: z.array(z.enum(['header', 'footer'])),
+  }),
+  favicon: z.string().optional(),
+  contact: z.object({
+    phone: z.string(),
+    email: z.string(),
+    businessHours: z.string().optional(),
+  }),
+  legal: z.object({
+    privacyPolicyUrl: z.string(),
+    termsUrl: z.string(),
+    returnPolicyUrl: z.string(),
+    shippingPolicyUrl: z.string().optional(),
+    cookiesPolicyUrl: z.string().optional(),
+  }),
+  messages: z.object({
+    success: textRecord,
+    error: textRecord,
+    placeholders: textRecord,
+    tooltips: textRecord,
+  }),
+});
+
+const FeaturesConfigSchema = z.object({
+  checkout: z.object({
+    couponCode: z.boolean(),
+    giftMessage: z.boolean(),
+    giftWrap: z.boolean(),
+    newsletterSignup: z.boolean(),
+    orderNotes: z.boolean(),
+    saveAddress: z.boolean(),
+    loginStep: z.boolean(),
+    customData: z.boolean(),
+    giftRegistry: z.boolean(),
+    openTextField: z.boolean(),
+    clientPreferences: z.boolean(),
+  }),
+  cart: z.object({
+    quantityControl: z.boolean(),
+    removeItems: z.boolean(),
+    editItems: z.boolean(),
+    imageDisplay: z.boolean(),
+    discountDisplay: z.boolean(),
+    undeliverableWarnings: z.boolean(),
+    itemAttachments: z.boolean(),
+  }),
+  profile: z.object({
+    autofillFromVTEX: z.boolean(),
+    corporateFields: z.boolean(),
+    companyName: z.boolean(),
+    taxId: z.boolean(),
+    userFoundModal: z.boolean(),
+  }),
+  shipping: z.object({
+    postalCodeLookup: z.boolean(),
+    addressSuggestions: z.boolean(),
+    multipleAddresses: z.boolean(),
+    shippingOptionsDisplay: z.boolean(),
+    deliveryEstimate: z.boolean(),
+  }),
+  payment: z.object({
+    multiplePaymentMethods: z.boolean(),
+    creditCardIcons: z.boolean(),
+    installments: z.boolean(),
+    savedCards: z.boolean(),
+    boleto: z.boolean(),
+    pix: z.boolean(),
+    walletOptions: z.boolean(),
+    cancelTransaction: z.boolean(),
+  }),
+  ux: z.object({
+    smoothScroll: z.boolean(),
+    stepValidation: z.boolean(),
+    autoAdvance: z.boolean(),
+    confettiAnimation: z.boolean(),
+    loadingOverlays: z.boolean(),
+    toastNotifications: z.boolean(),
+  }),
+  analytics: z.object({
+    eventTracking: z.boolean(),
+    gtmIntegration: z.boolean(),
+    ga4Integration: z.boolean(),
+    boltMetrics: z.boolean(),
+    consolePlugin: z.boolean(),
+    conversionTracking: z.boolean(),
+  }),
+  security: z.object({
+    sslBadge: z.boolean(),
+    securityBadges: z.boolean(),
+    trustSeals: z.boolean(),
+    pciComplianceInfo: z.boolean(),
+  }),
+});
+
+const TextsConfigSchema = z.object({
+  interface: z.object({
+    stepTitles: stepTextsSchema,
+    stepDescriptions: stepTextsSchema,
+    labels: textRecord,
+    placeholders: textRecord,
+    buttonTexts: textRecord,
+    errorMessages: textRecord,
+    successMessages: textRecord,
+    helpText: textRecord,
+  }),
+  pages: z.object({
+    emptyCartMessage: z.string(),
+    confirmationPage: z.string(),
+    thankYouMessage: z.string(),
+    orderSummaryText: z.string(),
+    termsAndConditions: z.string(),
+    privacyPolicyPreview: z.string(),
+  }),
+  notifications: z.object({
+    toastMessages: textRecord,
+    validationMessages: textRecord,
+    warningMessages: textRecord,
+    infoMessages: textRecord,
+  }),
+});
+
+const ComponentsConfigSchema = z.object({
+  orderSummary: z.object({
+    showItemsList: z.boolean(),
+    showSubtotal: z.boolean(),
+    showShipping: z.boolean(),
+    showDiscount: z.boolean(),
+    showTax: z.boolean(),
+    showTotal: z.boolean(),
+    showCouponField: z.boolean(),
+    stickyBehavior: z.enum(['top', 'sidebar', 'none']),
+  }),
+  payment: z.object({
+    showCardIcons: z.boolean(),
+    showInstallments: z.boolean(),
+    showSaveCardOption: z.boolean(),
+    cardNumberFormat: z.enum(['spaced', 'dashed', 'none']),
+    expiryFormat: z.enum(['MM/YY', 'MM-YY', 'MM YY']),
+    cvvRequired: z.boolean(),
+  }),
+  cart: z.object({
+    showImages: z.boolean(),
+    showQuantityControls: z.boolean(),
+    showRemoveButton: z.boolean(),
+    showDiscountBadge: z.boolean(),
+    showUndeliverableWarning: z.boolean(),
+  }),
+  shipping: z.object({
+    showPostalCodeLookup: z.boolean(),
+    showAddressFields: z.boolean(),
+    showDeliveryOptions: z.boolean(),
+    showDeliveryEstimate: z.boolean(),
+  }),
+});
+
+export const ExpandedThemeConfigSchema = z.object({
+  name: z.string().trim().min(1, 'Theme name is required').max(100),
+  baseTheme: z.enum(CHECKOUT_THEME_IDS).nullable().optional(),
+  visual: VisualConfigSchema,
+  layout: LayoutConfigSchema,
+  branding: BrandingConfigSchema,
+  features: FeaturesConfigSchema,
+  texts: TextsConfigSchema,
+  components: ComponentsConfigSchema,
+}) satisfies z.ZodType<ExpandedThemeConfig>;
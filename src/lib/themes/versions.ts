@@ -0,0 +1,160 @@
+/**
+ * Theme Versions
+ *
+ * Row types returned by the theme version RPC functions (migration 084),
+ * their mapping to the API format, and the path-level diff between two
+ * theme configs used by the version history.
+ */
+
+import { apiError } from '@/lib/api/responses';
+
+export interface ThemeVersionRow {
+  id: string;
+  theme_id: string;
+  version_number: number;
+  name: string | null;
+  created_at: string;
+  created_by: string | null;
+  author_email: string | null;
+  author_name: string | null;
+  restored_from_version: number | null;
+}
+
+export interface ThemeVersionConfigRow {
+  version_number: number;
+  name: string | null;
+  config: unknown;
+  created_at: string;
+}
+
+export function toThemeVersion(row: ThemeVersionRow) {
+  return {
+    id: row.id,
+    themeId: row.theme_id,
+    version: row.version_number,
+    name: row.name,
+    createdAt: row.created_at,
+    author: row.created_by
+      ? { id: row.created_by, email: row.author_email, name: row.author_name }
+      : null,
+    restoredFromVersion: row.restored_from_version,
+  };
+}
+
+export type ThemeConfigChangeType = 'added' | 'removed' | 'changed';
+
+export interface ThemeConfigChange {
+  path: string;
+  section: string;
+  type: ThemeConfigChangeType;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ThemeConfigDiff {
+  changes: ThemeConfigChange[];
+  sections: Array<{ section: string; changes: number }>;
+}
+
+// Top-level config keys large enough to be grouped one level deeper
+// (visual.colors, visual.typography, ... instead of a single "visual" section)
+const NESTED_SECTIONS = ['visual', 'features', 'components'];
+
+/**
+ * Section of a config path, e.g. "visual.colors.primary.from" -> "visual.colors"
+ * and "texts.interface.buttons.next" -> "texts"
+ */
+export function getThemeConfigSection(path: string): string {
+  const segments = path.split('.');
+  if (segments.length > 1 && NESTED_SECTIONS.includes(segments[0])) {
+    return `${segments[0]}.${segments[1]}`;
+  }
+  return segments[0];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function collectChanges(from: unknown, to: unknown, path: string, changes: ThemeConfigChange[]) {
+  // Objects are compared key by key (including objects only present on one side,
+  // so added/removed sections list their leaf paths); arrays and scalars as a whole
+  const fromIsObject = isPlainObject(from);
+  const toIsObject = isPlainObject(to);
+
+  if (
+    (fromIsObject || toIsObject) &&
+    (fromIsObject || from === undefined) &&
+    (toIsObject || to === undefined)
+  ) {
+    const fromObject = (from ?? {}) as Record<string, unknown>;
+    const toObject = (to ?? {}) as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(fromObject), ...Object.keys(toObject)])).sort();
+    for (const key of keys) {
+      collectChanges(fromObject[key], toObject[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (from === undefined && to === undefined) {
+    return;
+  }
+
+  if (from === undefined) {
+    changes.push({ path, section: getThemeConfigSection(path), type: 'added', to });
+  } else if (to === undefined) {
+    changes.push({ path, section: getThemeConfigSection(path), type: 'removed', from });
+  } else if (!isEqual(from, to)) {
+    changes.push({ path, section: getThemeConfigSection(path), type: 'changed', from, to });
+  }
+}
+
+/**
+ * Diff two theme configs at the level of config paths
+ *
+ * @example
+ * diffThemeConfigs(v1.config, v2.config)
+ * // { changes: [{ path: 'visual.colors.accent', section: 'visual.colors', type: 'changed', from: '#f00', to: '#0f0' }],
+ * //   sections: [{ section: 'visual.colors', changes: 1 }] }
+ */
+export function diffThemeConfigs(from: unknown, to: unknown): ThemeConfigDiff {
+  const changes: ThemeConfigChange[] = [];
+  collectChanges(from ?? {}, to ?? {}, '', changes);
+
+  const counts = new Map<string, number>();
+  for (const change of changes) {
+    counts.set(change.section, (counts.get(change.section) || 0) + 1);
+  }
+
+  return {
+    changes,
+    sections: Array.from(counts, ([section, count]) => ({ section, changes: count })),
+  };
+}
+
+/**
+ * Map an error raised by the theme version functions to an API response
+ *
+ * - 22P02: malformed theme id
+ * - 42501: readonly theme
+ * - P0002: theme or version not found
+ */
+export function themeVersionDatabaseError(
+  error: { code?: string; message: string },
+  fallbackMessage: string
+) {
+  switch (error.code) {
+    case '22P02':
+      return apiError('Invalid identifier', 400);
+    case '42501':
+      return apiError(error.message, 403);
+    case 'P0002':
+      return apiError(error.message, 404);
+    default:
+      return apiError(fallbackMessage, 500);
+  }
+}
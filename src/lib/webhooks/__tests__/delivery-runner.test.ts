@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { lookup } from 'dns/promises';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  encryptSecret,
+  generateMasterKey,
+  resetKeyringCache,
+  secretContext,
+} from '@/lib/secrets/envelope';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '../signature';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  getNextAttemptAt,
+  getRetryDelayMs,
+  runWebhookDeliveries,
+  sendWebhookTestEvent,
+} from '../delivery-runner';
+import type { WebhookEndpoint } from '../endpoints';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const ENDPOINT_SECRET = 'whsec_endpoint';
+
+function delivery(attempts: number) {
+  return {
+    id: 'delivery-1',
+    endpoint_id: 'endpoint-1',
+    account_id: 'account-1',
+    event_id: 'event-1',
+    event_type: 'theme.activated',
+    payload: {
+      id: 'event-1',
+      type: 'theme.activated',
+      created_at: NOW.toISOString(),
+      account_id: 'account-1',
+      data: { theme: { id: 'theme-1' } },
+    },
+    attempts,
+    url: 'https://hooks.example.com/bolt',
+    secret_encrypted: encryptSecret(ENDPOINT_SECRET, {
+      context: secretContext('webhook_endpoints', 'endpoint_secret', 'account-1'),
+    }).ciphertext,
+  };
+}
+
+function mockRpc(claimed: ReturnType<typeof delivery>[]) {
+  const rpc = vi.fn(async (name: string, args: Record<string, unknown>) => {
+    switch (name) {
+      case 'claim_webhook_deliveries':
+        return { data: claimed, error: null };
+      case 'create_webhook_delivery':
+        return {
+          data: [{ ...delivery(0), event_id: args.p_event_id, payload: args.p_payload }],
+          error: null,
+        };
+      case 'record_webhook_attempt':
+        return {
+          data: args.p_succeeded ? 'succeeded' : args.p_next_attempt_at ? 'pending' : 'dead',
+          error: null,
+        };
+      default:
+        return { data: null, error: null };
+    }
+  });
+  vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+  return rpc;
+}
+
+beforeAll(() => {
+  process.env.SECRETS_MASTER_KEYS = `test:${generateMasterKey()}`;
+  resetKeyringCache();
+});
+
+describe('getRetryDelayMs', () => {
+  it('should double the delay after every failed attempt up to 6 hours', () => {
+    expect(getRetryDelayMs(1)).toBe(60_000);
+    expect(getRetryDelayMs(2)).toBe(120_000);
+    expect(getRetryDelayMs(5)).toBe(16 * 60_000);
+    expect(getRetryDelayMs(9)).toBe(256 * 60_000);
+    expect(getRetryDelayMs(10)).toBe(6 * 60 * 60_000);
+  });
+
+  it('should stop retrying once the delivery has run out of attempts', () => {
+    expect(getNextAttemptAt(1, NOW)).toEqual(new Date('2026-10-19T12:01:00Z'));
+    expect(getNextAttemptAt(MAX_DELIVERY_ATTEMPTS, NOW)).toBeNull();
+  });
+});
+
+describe('runWebhookDeliveries', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+    vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send signed deliveries and record the attempt', async () => {
+    const rpc = mockRpc([delivery(0)]);
+
+    const { result, error } = await runWebhookDeliveries({ now: NOW });
+
+    expect(error).toBeNull();
+    expect(result).toEqual({ claimed: 1, succeeded: 1, retrying: 0, dead: 0, failed: 0 });
+    expect(rpc).toHaveBeenCalledWith('claim_webhook_deliveries', {
+      p_now: NOW.toISOString(),
+      p_lease_until: '2026-10-19T12:15:00.000Z',
+      p_limit: 50,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/bolt');
+    expect(init.redirect).toBe('manual');
+    expect(JSON.parse(init.body)).toMatchObject({ id: 'event-1', type: 'theme.activated' });
+    expect(
+      verifyWebhookSignature(
+        ENDPOINT_SECRET,
+        Number(init.headers[WEBHOOK_TIMESTAMP_HEADER]),
+        init.body,
+        init.headers[WEBHOOK_SIGNATURE_HEADER]
+      )
+    ).toBe(true);
+
+    expect(rpc).toHaveBeenCalledWith(
+      'record_webhook_attempt',
+      expect.objectContaining({
+        p_delivery_id: 'delivery-1',
+        p_response_status: 200,
+        p_response_body: 'ok',
+        p_error: null,
+        p_succeeded: true,
+        p_next_attempt_at: null,
+      })
+    );
+  });
+
+  it('should schedule a retry with backoff when the endpoint fails', async () => {
+    const rpc = mockRpc([delivery(2)]);
+    fetchMock.mockResolvedValue(new Response('down', { status: 503 }));
+
+    const { result } = await runWebhookDeliveries({ now: NOW });
+
+    expect(result.retrying).toBe(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'record_webhook_attempt',
+      expect.objectContaining({
+        p_response_status: 503,
+        p_error: 'Endpoint responded with 503',
+        p_succeeded: false,
+        // Third failed attempt: 4 minutes
+        p_next_attempt_at: '2026-10-19T12:04:00.000Z',
+      })
+    );
+  });
+
+  it('should not send to a hostname resolving to a private address', async () => {
+    const rpc = mockRpc([delivery(0)]);
+    vi.mocked(lookup).mockResolvedValue([{ address: '169.254.169.254', family: 4 }] as never);
+
+    const { result } = await runWebhookDeliveries({ now: NOW });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.retrying).toBe(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'record_webhook_attempt',
+      expect.objectContaining({
+        p_response_status: null,
+        p_response_body: null,
+        p_error: 'Webhook URL resolves to a private address (hooks.example.com)',
+        p_succeeded: false,
+      })
+    );
+  });
+
+  it('should report a redirect as a failed attempt', async () => {
+    const rpc = mockRpc([delivery(0)]);
+    fetchMock.mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: 'http://10.0.0.1/' } })
+    );
+
+    const { result } = await runWebhookDeliveries({ now: NOW });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.retrying).toBe(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'record_webhook_attempt',
+      expect.objectContaining({
+        p_response_status: 302,
+        p_error: 'Endpoint responded with 302',
+      })
+    );
+  });
+
+  it('should give up after the last attempt', async () => {
+    const rpc = mockRpc([delivery(MAX_DELIVERY_ATTEMPTS - 1)]);
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const { result } = await runWebhookDeliveries({ now: NOW });
+
+    expect(result.dead).toBe(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'record_webhook_attempt',
+      expect.objectContaining({
+        p_response_status: null,
+        p_error: 'connect ECONNREFUSED',
+        p_next_attempt_at: null,
+      })
+    );
+  });
+});
+
+describe('sendWebhookTestEvent', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send a test event right away without retrying it', async () => {
+    const rpc = mockRpc([]);
+    fetchMock.mockResolvedValue(new Response('nope', { status: 500 }));
+    const endpoint = { id: 'endpoint-1', account_id: 'account-1' } as WebhookEndpoint;
+
+    const { result, error } = await sendWebhookTestEvent(endpoint, NOW);
+
+    expect(error).toBeNull();
+    expect(result).toEqual({
+      status: 'dead',
+      responseStatus: 500,
+      error: 'Endpoint responded with 500',
+    });
+    expect(rpc).toHaveBeenCalledWith(
+      'create_webhook_delivery',
+      expect.objectContaining({
+        p_endpoint_id: 'endpoint-1',
+        p_event_type: 'webhook.test',
+        p_lease_until: '2026-10-19T12:15:00.000Z',
+      })
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).type).toBe('webhook.test');
+    expect(rpc).toHaveBeenCalledWith(
+      'record_webhook_attempt',
+      expect.objectContaining({ p_succeeded: false, p_next_attempt_at: null })
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { emitWebhookEvent } from '../events';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('emitWebhookEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should queue the event envelope for the subscribed endpoints', async () => {
+    const rpc = vi.fn().mockResolvedValue({ data: 2, error: null });
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    const { queued, error } = await emitWebhookEvent(
+      'account-1',
+      'theme.activated',
+      { theme: { id: 'theme-1' } },
+      NOW
+    );
+
+    expect(error).toBeNull();
+    expect(queued).toBe(2);
+
+    const [name, args] = rpc.mock.calls[0];
+    expect(name).toBe('enqueue_webhook_event');
+    expect(args).toMatchObject({
+      p_account_id: 'account-1',
+      p_event_type: 'theme.activated',
+      p_now: NOW.toISOString(),
+    });
+    expect(args.p_payload).toEqual({
+      id: args.p_event_id,
+      type: 'theme.activated',
+      created_at: NOW.toISOString(),
+      account_id: 'account-1',
+      data: { theme: { id: 'theme-1' } },
+    });
+  });
+
+  it('should never throw when the event cannot be queued', async () => {
+    const rpc = vi.fn().mockRejectedValue(new Error('connection reset'));
+    vi.mocked(getSupabaseAdmin).mockReturnValue({ rpc } as never);
+
+    const { queued, error } = await emitWebhookEvent('account-1', 'subscription.updated', {});
+
+    expect(queued).toBe(0);
+    expect(error?.message).toBe('connection reset');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { lookup } from 'dns/promises';
+import { WebhookUrlSchema } from '../endpoints';
+import {
+  WebhookUrlError,
+  assertPublicWebhookUrl,
+  fetchWebhookUrl,
+  isAllowedWebhookUrl,
+  isPrivateAddress,
+} from '../outbound';
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+function resolvesTo(...addresses: string[]) {
+  vi.mocked(lookup).mockResolvedValue(
+    addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })) as never
+  );
+}
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '127.0.0.1',
+    '127.255.0.1',
+    '0.0.0.0',
+    '100.64.0.1',
+    '::1',
+    '::',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'febf::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    'not-an-ip',
+  ])('should refuse %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '172.32.0.1', '172.15.255.255', '8.8.8.8', '2606:4700::1111'])(
+    'should allow %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('isAllowedWebhookUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should allow HTTPS to a public host', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(isAllowedWebhookUrl(new URL('https://hooks.example.com/bolt'))).toBe(true);
+  });
+
+  it('should refuse HTTP and private IP literals', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(isAllowedWebhookUrl(new URL('http://hooks.example.com/bolt'))).toBe(false);
+    expect(isAllowedWebhookUrl(new URL('https://169.254.169.254/latest'))).toBe(false);
+    expect(isAllowedWebhookUrl(new URL('https://10.0.0.1/'))).toBe(false);
+    expect(isAllowedWebhookUrl(new URL('https://[fe80::1]/'))).toBe(false);
+    // Alternative IPv4 notations are normalized by the URL parser
+    expect(isAllowedWebhookUrl(new URL('https://2130706433/'))).toBe(false);
+  });
+
+  it('should only allow a local receiver outside production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(isAllowedWebhookUrl(new URL('http://localhost:4000/hooks'))).toBe(false);
+    expect(isAllowedWebhookUrl(new URL('https://127.0.0.1/hooks'))).toBe(false);
+
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(isAllowedWebhookUrl(new URL('http://localhost:4000/hooks'))).toBe(true);
+    expect(isAllowedWebhookUrl(new URL('http://[::1]:4000/hooks'))).toBe(true);
+    expect(isAllowedWebhookUrl(new URL('http://192.168.1.10/hooks'))).toBe(false);
+  });
+
+  it('should be applied by WebhookUrlSchema', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(WebhookUrlSchema.safeParse('https://hooks.example.com/bolt').success).toBe(true);
+    expect(WebhookUrlSchema.safeParse('http://localhost:4000/hooks').success).toBe(false);
+    expect(WebhookUrlSchema.safeParse('https://192.168.0.1/hooks').success).toBe(false);
+  });
+});
+
+describe('assertPublicWebhookUrl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NODE_ENV', 'production');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should accept a hostname resolving to public addresses', async () => {
+    resolvesTo('93.184.216.34', '2606:4700::1111');
+
+    await expect(assertPublicWebhookUrl('https://hooks.example.com/bolt')).resolves.toBeUndefined();
+    expect(lookup).toHaveBeenCalledWith('hooks.example.com', { all: true });
+  });
+
+  it('should refuse a hostname with any private address', async () => {
+    resolvesTo('93.184.216.34', '10.0.0.5');
+
+    await expect(assertPublicWebhookUrl('https://hooks.example.com/bolt')).rejects.toThrow(
+      WebhookUrlError
+    );
+  });
+
+  it('should refuse a hostname resolving to the metadata endpoint', async () => {
+    resolvesTo('169.254.169.254');
+
+    await expect(assertPublicWebhookUrl('https://metadata.example.com/')).rejects.toThrow(
+      'private address'
+    );
+  });
+
+  it('should refuse a hostname that does not resolve', async () => {
+    vi.mocked(lookup).mockRejectedValue(new Error('ENOTFOUND'));
+
+    await expect(assertPublicWebhookUrl('https://missing.example.com/')).rejects.toThrow(
+      'Could not resolve missing.example.com'
+    );
+  });
+
+  it('should allow a local receiver outside production without a lookup', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+
+    await expect(assertPublicWebhookUrl('http://localhost:4000/hooks')).resolves.toBeUndefined();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchWebhookUrl', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send without following redirects', async () => {
+    resolvesTo('93.184.216.34');
+
+    await fetchWebhookUrl('https://hooks.example.com/bolt', { method: 'POST', body: '{}' });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://hooks.example.com/bolt', {
+      method: 'POST',
+      body: '{}',
+      redirect: 'manual',
+    });
+  });
+
+  it('should not send to a private address', async () => {
+    resolvesTo('127.0.0.1');
+
+    await expect(
+      fetchWebhookUrl('https://hooks.example.com/bolt', { method: 'POST' })
+    ).rejects.toThrow(WebhookUrlError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  generateWebhookSecret,
+  getWebhookHeaders,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../signature';
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ type: 'alert.fired' });
+
+  it('should sign the timestamp and the raw body', () => {
+    const expected = createHmac('sha256', 'whsec_test').update(`1760875200.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1760875200, body)).toBe(`sha256=${expected}`);
+  });
+
+  it('should send the timestamp and signature headers', () => {
+    const headers = getWebhookHeaders('whsec_test', body, new Date('2025-10-19T12:00:00.900Z'));
+
+    expect(headers[WEBHOOK_TIMESTAMP_HEADER]).toBe('1760875200');
+    expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(
+      signWebhookPayload('whsec_test', 1760875200, body)
+    );
+  });
+
+  it('should reject signatures of another secret, timestamp or body', () => {
+    const signature = signWebhookPayload('whsec_test', 1760875200, body);
+
+    expect(verifyWebhookSignature('whsec_test', 1760875200, body, signature)).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', 1760875200, body, signature)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', 1760875201, body, signature)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', 1760875200, `${body} `, signature)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', 1760875200, body, 'sha256=')).toBe(false);
+  });
+
+  it('should generate distinct prefixed secrets', () => {
+    const secret = generateWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Webhook Deliveries
+ *
+ * Delivery log of the webhook endpoints (migration 101): one delivery per
+ * event and endpoint, with every attempt's request headers and response.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { WebhookEvent } from './events';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'dead'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  account_id: string;
+  event_id: string;
+  event_type: WebhookEvent['type'];
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  delivery_id: string;
+  attempt: number;
+  request_headers: Record<string, string>;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  attempted_at: string;
+}
+
+/**
+ * Deliveries of an endpoint, newest first
+ */
+export async function getWebhookDeliveries(
+  accountId: string,
+  endpointId: string,
+  options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<{ deliveries: WebhookDelivery[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_webhook_deliveries', {
+    p_account_id: accountId,
+    p_endpoint_id: endpointId,
+    p_status: options.status ?? null,
+    p_limit: options.limit ?? 50,
+  });
+
+  return { deliveries: (data || []) as WebhookDelivery[], error };
+}
+
+/**
+ * Attempts of a delivery, in order
+ */
+export async function getWebhookDeliveryAttempts(
+  accountId: string,
+  deliveryId: string
+): Promise<{ attempts: WebhookDeliveryAttempt[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_webhook_delivery_attempts', {
+    p_account_id: accountId,
+    p_delivery_id: deliveryId,
+  });
+
+  return { attempts: (data || []) as WebhookDeliveryAttempt[], error };
+}
+
+/**
+ * Queue a succeeded or dead delivery again; the deliveries job attempts it on
+ * its next run. Returns false when the delivery is not found or still pending.
+ */
+export async function redeliverWebhookDelivery(
+  accountId: string,
+  deliveryId: string
+): Promise<{ queued: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('redeliver_webhook_delivery', {
+    p_account_id: accountId,
+    p_delivery_id: deliveryId,
+  });
+
+  return { queued: !!data, error };
+}
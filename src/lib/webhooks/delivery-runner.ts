@@ -0,0 +1,274 @@
+/**
+ * Webhook Delivery Runner
+ *
+ * Sends the queued webhook deliveries. Run by the jobs endpoint
+ * (POST /api/jobs/webhook-deliveries) every minute, or locally with
+ * `npm run webhooks:deliver`. Deliveries are claimed (leased) in the database
+ * before they are sent, so concurrent runs never send the same attempt twice.
+ *
+ * A delivery succeeds on a 2xx response. Any other response (redirects are
+ * not followed), a timeout, a network error or a URL resolving to a private
+ * address (outbound.ts) is retried with exponential backoff (1 min, 2 min,
+ * 4 min, ... capped at 6 h) until MAX_DELIVERY_ATTEMPTS attempts were made;
+ * the delivery is then dead and can only be redelivered from the dashboard.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { createWebhookEvent, WEBHOOK_TEST_EVENT, type WebhookEvent } from './events';
+import { getEndpointSecret, type WebhookEndpoint } from './endpoints';
+import { fetchWebhookUrl } from './outbound';
+import type { WebhookDeliveryStatus } from './deliveries';
+import { getWebhookHeaders } from './signature';
+
+export const MAX_DELIVERY_ATTEMPTS = 10;
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Requests taking longer are reported as failed
+ */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Deliveries claimed per run, and how long they stay leased to the run
+ * (longer than a run sending every delivery up to its timeout)
+ */
+const DEFAULT_BATCH_SIZE = 50;
+const LEASE_MS = 15 * 60 * 1000;
+
+/**
+ * Longest response body kept in the delivery log
+ */
+const MAX_RESPONSE_BODY_LENGTH = 4096;
+
+/**
+ * Delivery with its endpoint, as returned by claim_webhook_deliveries and
+ * create_webhook_delivery
+ */
+export interface ClaimedWebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  account_id: string;
+  event_id: string;
+  event_type: WebhookEvent['type'];
+  payload: WebhookEvent;
+  /** Attempts made before this one */
+  attempts: number;
+  url: string;
+  secret_encrypted: string;
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export interface WebhookRunResult {
+  claimed: number;
+  succeeded: number;
+  /** Failed attempts that will be retried */
+  retrying: number;
+  dead: number;
+  /** Attempts that could not be recorded */
+  failed: number;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Time of the next attempt after `attempts` failed attempts (null when the
+ * delivery has run out of attempts)
+ */
+export function getNextAttemptAt(attempts: number, now: Date): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return null;
+  }
+  return new Date(now.getTime() + getRetryDelayMs(attempts));
+}
+
+async function send(delivery: ClaimedWebhookDelivery, now: Date) {
+  const body = JSON.stringify(delivery.payload);
+  const headers = getWebhookHeaders(getEndpointSecret(delivery), body, now);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetchWebhookUrl(delivery.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+    return {
+      headers,
+      succeeded: response.ok,
+      responseStatus: response.status,
+      responseBody,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      headers,
+      succeeded: false,
+      responseStatus: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Attempt a claimed delivery and record the attempt in the delivery log
+ *
+ * @param options.retry - Schedule a retry when the attempt fails (default true)
+ */
+export async function attemptWebhookDelivery(
+  delivery: ClaimedWebhookDelivery,
+  options: { now?: Date; retry?: boolean } = {}
+): Promise<{ result: WebhookAttemptResult; error: Error | null }> {
+  const now = options.now ?? new Date();
+  const retry = options.retry ?? true;
+
+  let outcome: Awaited<ReturnType<typeof send>>;
+  try {
+    outcome = await send(delivery, now);
+  } catch (error) {
+    // The secret could not be decrypted: nothing was sent
+    outcome = {
+      headers: {},
+      succeeded: false,
+      responseStatus: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: 0,
+    };
+  }
+
+  const nextAttemptAt =
+    outcome.succeeded || !retry ? null : getNextAttemptAt(delivery.attempts + 1, now);
+
+  const { data, error } = await getSupabaseAdmin().rpc('record_webhook_attempt', {
+    p_delivery_id: delivery.id,
+    p_request_headers: outcome.headers,
+    p_response_status: outcome.responseStatus,
+    p_response_body: outcome.responseBody,
+    p_error: outcome.error,
+    p_duration_ms: outcome.durationMs,
+    p_succeeded: outcome.succeeded,
+    p_next_attempt_at: nextAttemptAt?.toISOString() ?? null,
+    p_now: now.toISOString(),
+  });
+
+  const status: WebhookDeliveryStatus = outcome.succeeded
+    ? 'succeeded'
+    : nextAttemptAt
+      ? 'pending'
+      : 'dead';
+
+  return {
+    result: {
+      status: (data as WebhookDeliveryStatus | null) ?? status,
+      responseStatus: outcome.responseStatus,
+      error: outcome.error,
+    },
+    error,
+  };
+}
+
+/**
+ * Send a test event to an endpoint right away (not retried; it shows up in
+ * the delivery log like any other delivery)
+ */
+export async function sendWebhookTestEvent(
+  endpoint: WebhookEndpoint,
+  now: Date = new Date()
+): Promise<{ result: WebhookAttemptResult | null; error: Error | null }> {
+  const event = createWebhookEvent(
+    endpoint.account_id,
+    WEBHOOK_TEST_EVENT,
+    {
+      message: 'This is a test event sent from the BOLT dashboard.',
+      endpoint_id: endpoint.id,
+    },
+    now
+  );
+
+  const { data, error } = await getSupabaseAdmin().rpc('create_webhook_delivery', {
+    p_account_id: endpoint.account_id,
+    p_endpoint_id: endpoint.id,
+    p_event_id: event.id,
+    p_event_type: event.type,
+    p_payload: event,
+    p_lease_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+  });
+
+  const delivery = (Array.isArray(data) ? data[0] : data) as ClaimedWebhookDelivery | null;
+  if (error || !delivery) {
+    return { result: null, error: error ?? new Error('Webhook endpoint not found') };
+  }
+
+  return attemptWebhookDelivery(delivery, { now, retry: false });
+}
+
+/**
+ * Send the deliveries due at `now`
+ */
+export async function runWebhookDeliveries(
+  options: { now?: Date; limit?: number } = {}
+): Promise<{ result: WebhookRunResult; error: Error | null }> {
+  const now = options.now ?? new Date();
+  const result: WebhookRunResult = { claimed: 0, succeeded: 0, retrying: 0, dead: 0, failed: 0 };
+
+  const { data, error } = await getSupabaseAdmin().rpc('claim_webhook_deliveries', {
+    p_now: now.toISOString(),
+    p_lease_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  if (error) {
+    console.error('❌ [DEBUG] Failed to claim webhook deliveries:', error);
+    return { result, error };
+  }
+
+  const deliveries = (data || []) as ClaimedWebhookDelivery[];
+  result.claimed = deliveries.length;
+
+  for (const delivery of deliveries) {
+    const { result: attempt, error: recordError } = await attemptWebhookDelivery(delivery, {
+      now,
+    });
+
+    if (recordError) {
+      console.error(`❌ [DEBUG] Failed to record webhook delivery ${delivery.id}:`, recordError);
+      result.failed++;
+      continue;
+    }
+
+    switch (attempt.status) {
+      case 'succeeded':
+        result.succeeded++;
+        break;
+      case 'pending':
+        result.retrying++;
+        break;
+      case 'dead':
+        console.warn(
+          `⚠️ [WARN] Webhook delivery ${delivery.id} (${delivery.event_type}) is dead: ${attempt.error}`
+        );
+        result.dead++;
+        break;
+    }
+  }
+
+  return { result, error: null };
+}
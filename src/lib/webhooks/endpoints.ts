@@ -0,0 +1,151 @@
+/**
+ * Webhook Endpoints
+ *
+ * HTTPS endpoints of an account receiving the webhook events they subscribe
+ * to (migration 101). Each endpoint has its own signing secret, envelope
+ * encrypted and only shown when it is created or rotated.
+ */
+
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { decryptSecret, encryptSecret, secretContext } from '@/lib/secrets/envelope';
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from './events';
+import { isAllowedWebhookUrl } from './outbound';
+import { generateWebhookSecret } from './signature';
+
+export interface WebhookEndpoint {
+  id: string;
+  account_id: string;
+  url: string;
+  description: string;
+  event_types: WebhookEventType[];
+  enabled: boolean;
+  secret_encrypted: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Endpoint as shown in the dashboard (without its secret) */
+export type WebhookEndpointSettings = Omit<WebhookEndpoint, 'secret_encrypted'>;
+
+/**
+ * Outgoing webhook URL: HTTPS to a public host (HTTP only for a local
+ * receiver outside production)
+ */
+export const WebhookUrlSchema = z.url().refine((value) => isAllowedWebhookUrl(new URL(value)), {
+  message: 'URL must use HTTPS and a public host',
+});
+
+export const WebhookEndpointSchema = z.object({
+  url: WebhookUrlSchema,
+  description: z.string().trim().max(200).default(''),
+  eventTypes: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES))
+    .min(1, 'Select at least one event type')
+    .transform((types) => Array.from(new Set(types))),
+  enabled: z.boolean().default(true),
+  // Generate a new signing secret (always done on creation)
+  rotateSecret: z.boolean().default(false),
+});
+
+export type WebhookEndpointInput = z.infer<typeof WebhookEndpointSchema>;
+
+function endpointSecretContext(accountId: string): string {
+  return secretContext('webhook_endpoints', 'endpoint_secret', accountId);
+}
+
+function toWebhookEndpoint(row: Record<string, unknown>): WebhookEndpoint {
+  return {
+    ...(row as unknown as WebhookEndpoint),
+    event_types: Array.isArray(row.event_types) ? (row.event_types as WebhookEventType[]) : [],
+  };
+}
+
+/**
+ * Endpoint without its secret (dashboard)
+ */
+export function toWebhookEndpointSettings(endpoint: WebhookEndpoint): WebhookEndpointSettings {
+  const { secret_encrypted, ...settings } = endpoint;
+  return settings;
+}
+
+/**
+ * Webhook endpoints of an account
+ */
+export async function getWebhookEndpoints(
+  accountId: string
+): Promise<{ endpoints: WebhookEndpoint[]; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_webhook_endpoints', {
+    p_account_id: accountId,
+  });
+
+  return { endpoints: ((data || []) as Record<string, unknown>[]).map(toWebhookEndpoint), error };
+}
+
+/**
+ * Webhook endpoint of an account (null when not found)
+ */
+export async function getWebhookEndpoint(
+  accountId: string,
+  endpointId: string
+): Promise<{ endpoint: WebhookEndpoint | null; error: Error | null }> {
+  const { endpoints, error } = await getWebhookEndpoints(accountId);
+  return { endpoint: endpoints.find((endpoint) => endpoint.id === endpointId) ?? null, error };
+}
+
+/**
+ * Create an endpoint, or update it when endpointId is given. Returns the new
+ * signing secret when one was generated.
+ */
+export async function saveWebhookEndpoint(
+  accountId: string,
+  input: WebhookEndpointInput,
+  options: { endpointId?: string; createdBy?: string } = {}
+): Promise<{ endpoint: WebhookEndpoint | null; secret: string | null; error: Error | null }> {
+  const secret = !options.endpointId || input.rotateSecret ? generateWebhookSecret() : null;
+
+  const { data, error } = await getSupabaseAdmin().rpc('save_webhook_endpoint', {
+    p_account_id: accountId,
+    p_endpoint_id: options.endpointId ?? null,
+    p_url: input.url,
+    p_description: input.description,
+    p_event_types: input.eventTypes,
+    p_enabled: input.enabled,
+    p_secret_encrypted: secret
+      ? encryptSecret(secret, { context: endpointSecretContext(accountId) }).ciphertext
+      : null,
+    p_created_by: options.createdBy ?? null,
+  });
+
+  const row = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | null;
+  if (error || !row) {
+    return { endpoint: null, secret: null, error };
+  }
+
+  return { endpoint: toWebhookEndpoint(row), secret, error: null };
+}
+
+/**
+ * Delete an endpoint of an account (and its delivery log)
+ */
+export async function deleteWebhookEndpoint(
+  accountId: string,
+  endpointId: string
+): Promise<{ deleted: boolean; error: Error | null }> {
+  const { data, error } = await getSupabaseAdmin().rpc('delete_webhook_endpoint', {
+    p_account_id: accountId,
+    p_endpoint_id: endpointId,
+  });
+
+  return { deleted: !!data, error };
+}
+
+/**
+ * Decrypted signing secret of an endpoint
+ */
+export function getEndpointSecret(endpoint: { account_id: string; secret_encrypted: string }) {
+  return decryptSecret(endpoint.secret_encrypted, {
+    context: endpointSecretContext(endpoint.account_id),
+  });
+}
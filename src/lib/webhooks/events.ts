@@ -0,0 +1,91 @@
+/**
+ * Webhook Events
+ *
+ * Account events delivered to the webhook endpoints subscribed to them
+ * (migration 101). Every event has the same envelope as the alert webhooks:
+ *
+ *   { id, type, created_at, account_id, data }
+ *
+ * Emitting an event only queues one delivery per subscribed endpoint; the
+ * webhook deliveries job sends them and retries failures
+ * (src/lib/webhooks/delivery-runner.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'boltx.intervention.triggered',
+  'security.transaction.flagged',
+  'b2b.purchase_order.approval_required',
+  'theme.activated',
+  'subscription.updated',
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Sent to a single endpoint from the dashboard (cannot be subscribed to)
+ */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType | typeof WEBHOOK_TEST_EVENT;
+  created_at: string;
+  account_id: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Envelope of an event
+ */
+export function createWebhookEvent(
+  accountId: string,
+  type: WebhookEvent['type'],
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): WebhookEvent {
+  return {
+    id: randomUUID(),
+    type,
+    created_at: now.toISOString(),
+    account_id: accountId,
+    data,
+  };
+}
+
+/**
+ * Queue an event for the endpoints of the account subscribed to its type.
+ * Failures are logged and never thrown, so emitting never fails the action
+ * that triggered the event.
+ *
+ * @returns Number of deliveries queued
+ */
+export async function emitWebhookEvent(
+  accountId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): Promise<{ queued: number; error: Error | null }> {
+  const event = createWebhookEvent(accountId, type, data, now);
+
+  try {
+    const { data: queued, error } = await getSupabaseAdmin().rpc('enqueue_webhook_event', {
+      p_account_id: accountId,
+      p_event_id: event.id,
+      p_event_type: type,
+      p_payload: event,
+      p_now: now.toISOString(),
+    });
+
+    if (error) {
+      console.warn(`⚠️ [WARN] Failed to queue webhook event ${type}:`, error);
+      return { queued: 0, error };
+    }
+
+    return { queued: Number(queued) || 0, error: null };
+  } catch (error) {
+    console.warn(`⚠️ [WARN] Failed to queue webhook event ${type}:`, error);
+    return { queued: 0, error: error instanceof Error ? error : new Error(String(error)) };
+  }
+}
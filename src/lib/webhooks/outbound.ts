@@ -0,0 +1,190 @@
+/**
+ * Outbound Webhook Requests
+ *
+ * Webhook URLs are entered by tenants, so requests to them must never reach
+ * the dashboard's own network. Private, loopback and link-local addresses
+ * (including the cloud metadata endpoint 169.254.169.254) are refused when a
+ * URL is saved (IP literals) and again when a request is sent: the hostname
+ * is resolved at send time, since its DNS records can change after the URL
+ * was saved. Redirects are never followed.
+ *
+ * Outside production a local receiver (http://localhost) is allowed, for
+ * testing webhooks during development.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+/**
+ * IPv4 ranges requests are refused to, as [network, prefix length]
+ */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.168.0.0', 16], // private
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+];
+
+function parseIPv4(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isInIPv4Range(address: string, [network, prefixLength]: [string, number]): boolean {
+  const size = 2 ** (32 - prefixLength);
+  return Math.floor(parseIPv4(address) / size) === Math.floor(parseIPv4(network) / size);
+}
+
+/**
+ * The 8 16-bit groups of an IPv6 address (an embedded IPv4 address is
+ * converted to its 2 groups)
+ */
+function parseIPv6(address: string): number[] {
+  let normalized = address.toLowerCase();
+
+  const dotted = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = parseIPv4(dotted[1]);
+    normalized =
+      normalized.slice(0, -dotted[1].length) +
+      `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const [head, tail] = normalized.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+  return headGroups
+    .concat(Array(missing).fill('0'), tailGroups)
+    .map((group) => parseInt(group, 16));
+}
+
+function isLoopbackAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    return isInIPv4Range(address, ['127.0.0.0', 8]);
+  }
+  const groups = parseIPv6(address);
+  return groups.slice(0, 7).every((group) => group === 0) && groups[7] === 1;
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    return BLOCKED_IPV4_RANGES.some((range) => isInIPv4Range(address, range));
+  }
+  if (version !== 6) {
+    return true;
+  }
+
+  const groups = parseIPv6(address);
+
+  // IPv4-mapped (::ffff:a.b.c.d): check the embedded IPv4 address
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    const embedded = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+    return isPrivateAddress(embedded.join('.'));
+  }
+
+  return (
+    groups.slice(0, 7).every((group) => group === 0) || // :: and ::1
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (groups[0] & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/**
+ * Whether local receivers (http://localhost) are allowed
+ */
+export function isLocalWebhookAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+function getHostname(url: URL): string {
+  // IPv6 literals keep their brackets in URL.hostname
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+function isLocalHostname(hostname: string): boolean {
+  return hostname === 'localhost' || (isIP(hostname) !== 0 && isLoopbackAddress(hostname));
+}
+
+/**
+ * Whether a webhook URL may be saved: HTTPS to a public host, or a local
+ * receiver outside production. Hostnames are checked again when a request is
+ * sent (fetchWebhookUrl).
+ */
+export function isAllowedWebhookUrl(url: URL): boolean {
+  const hostname = getHostname(url);
+
+  if (isLocalWebhookAllowed() && isLocalHostname(hostname)) {
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  }
+
+  return (
+    url.protocol === 'https:' &&
+    hostname !== 'localhost' &&
+    !(isIP(hostname) !== 0 && isPrivateAddress(hostname))
+  );
+}
+
+/**
+ * Check a webhook URL and the addresses its hostname resolves to
+ *
+ * @throws {WebhookUrlError} When the URL is not allowed or resolves to a private address
+ */
+export async function assertPublicWebhookUrl(value: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new WebhookUrlError('Invalid webhook URL');
+  }
+
+  if (!isAllowedWebhookUrl(url)) {
+    throw new WebhookUrlError('Webhook URL must use HTTPS and a public host');
+  }
+
+  const hostname = getHostname(url);
+  if (isLocalWebhookAllowed() && isLocalHostname(hostname)) {
+    return;
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true });
+  } catch {
+    throw new WebhookUrlError(`Could not resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new WebhookUrlError(`Webhook URL resolves to a private address (${hostname})`);
+  }
+}
+
+/**
+ * Send a request to a webhook URL once its hostname resolves to public
+ * addresses only. Redirects are not followed: a 3xx response is returned as is.
+ *
+ * @throws {WebhookUrlError} When the URL is not allowed or resolves to a private address
+ */
+export async function fetchWebhookUrl(url: string, init: RequestInit): Promise<Response> {
+  await assertPublicWebhookUrl(url);
+  return fetch(url, { ...init, redirect: 'manual' });
+}
@@ -0,0 +1,68 @@
+/**
+ * Webhook Signatures
+ *
+ * Outgoing webhooks are signed with a per-endpoint secret so receivers can
+ * check they come from BOLT and were not replayed:
+ *
+ *   X-Bolt-Timestamp: <unix seconds>
+ *   X-Bolt-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * Receivers recompute the HMAC over the raw body with their secret, compare
+ * it in constant time and reject timestamps older than a few minutes.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { generateApiKey } from '@/utils/auth/api-key-generator';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Bolt-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Bolt-Timestamp';
+
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * New signing secret of an endpoint (shown once to the user)
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${generateApiKey(32)}`;
+}
+
+/**
+ * Signature header value of a payload
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Headers of a signed webhook request
+ */
+export function getWebhookHeaders(
+  secret: string,
+  body: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'BOLT-Webhooks/1.0',
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+  };
+}
+
+/**
+ * Check a signature received with a payload (as a receiver would)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
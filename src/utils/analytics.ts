@@ -3,6 +3,7 @@ import type { AnalyticsEvent } from '@/hooks/useDashboardData';
 /**
  * Extract revenue from event metadata with multiple fallbacks
  * Tries different field names and validates the value
+ * Keep in sync with analytics.extract_revenue (migration 081)
  */
 export function extractRevenue(event: AnalyticsEvent): number {
   const metadata = event.metadata || {};
@@ -32,3 +33,32 @@ export function extractRevenue(event: AnalyticsEvent): number {
 
   return numValue;
 }
+
+/**
+ * Extract discount amount from event metadata with multiple fallbacks
+ * discount_applied events carry the amount in metricValue
+ * Keep in sync with analytics.extract_discount (migration 081)
+ */
+export function extractDiscount(event: AnalyticsEvent): number {
+  const metadata = event.metadata || {};
+
+  const discountValue =
+    metadata.discountAmount ??
+    metadata.discountValue ??
+    metadata.metricValue ??
+    null;
+
+  if (discountValue === null || discountValue === undefined) {
+    return 0;
+  }
+
+  const numValue = typeof discountValue === 'number'
+    ? discountValue
+    : parseFloat(String(discountValue));
+
+  if (isNaN(numValue) || numValue < 0) {
+    return 0;
+  }
+
+  return numValue;
+}
@@ -0,0 +1,45 @@
+/**
+ * API key scopes
+ * Shared between the Integrations page and server-side API key authentication
+ */
+
+/**
+ * All scopes an API key can be granted
+ * - ingest: send checkout events to /api/bolt/metrics/events
+ * - read-metrics: read aggregated metrics
+ * - boltx: call public BoltX endpoints from the checkout
+ */
+export const API_KEY_SCOPES = ['ingest', 'read-metrics', 'boltx'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Scopes granted to the account metrics key (used by the checkout plugin)
+ */
+export const METRICS_KEY_SCOPES: ApiKeyScope[] = ['ingest', 'boltx'];
+
+/**
+ * Expiry options offered when creating a custom API key (in days, null = never)
+ */
+export const API_KEY_EXPIRY_OPTIONS: Array<number | null> = [30, 90, 180, 365, null];
+
+/**
+ * Check whether a key's scopes include the required scope
+ */
+export function hasApiKeyScope(
+  scopes: readonly string[] | null | undefined,
+  scope: ApiKeyScope
+): boolean {
+  return !!scopes && scopes.includes(scope);
+}
+
+/**
+ * Check whether an API key is expired
+ *
+ * @param expiresAt - Expiration date as ISO string (null/undefined = never expires)
+ * @returns true if the key has an expiration date in the past
+ */
+export function isApiKeyExpired(expiresAt: string | null | undefined): boolean {
+  if (!expiresAt) return false;
+  return new Date(expiresAt).getTime() <= Date.now();
+}
@@ -3,6 +3,10 @@
  * Supports multiple providers: Resend, SendGrid, AWS SES
  */
 
+import type { AlertNotification } from '@/lib/alerts/notifications';
+import type { DunningNotice } from '@/lib/dunning/notifications';
+import type { DigestMetricValue, DigestReport } from '@/lib/reports/digest-report';
+
 interface SendEmailOptions {
   to: string;
   subject: string;
@@ -854,3 +858,936 @@ Powered by BCKSTG
   return { html, text, subject };
 }
 
+
+/**
+ * Generate HTML email template for a scheduled report digest
+ * Metrics of the period with their change against the previous period
+ */
+export function generateReportDigestEmail(
+  report: DigestReport,
+  options: {
+    firstName?: string | null;
+    currency?: string;
+    locale?: string;
+  } = {}
+): { html: string; text: string; subject: string } {
+  const locale = options.locale || 'en';
+  const currency = options.currency || 'USD';
+
+  const translations: Record<string, {
+    subject: Record<DigestReport['frequency'], string>;
+    greeting: string;
+    intro: string;
+    metricNames: Record<DigestMetricValue['metric'], string>;
+    previous: string;
+    noPreviousData: string;
+    insightsTitle: string;
+    buttonText: string;
+    footer: string;
+    manageLink: string;
+  }> = {
+    en: {
+      subject: {
+        daily: '📊 Your daily BOLT report',
+        weekly: '📊 Your weekly BOLT report',
+        monthly: '📊 Your monthly BOLT report',
+      },
+      greeting: options.firstName ? `Hello, ${options.firstName}! 👋` : 'Hello! 👋',
+      intro: 'Here is how your checkout performed',
+      metricNames: {
+        conversion_rate: 'Conversion rate',
+        revenue: 'Revenue',
+        avg_order_value: 'Average order value',
+        abandonment_rate: 'Abandonment rate',
+      },
+      previous: 'Previous period',
+      noPreviousData: 'No data in the previous period',
+      insightsTitle: '💡 Top insights',
+      buttonText: 'Open Dashboard',
+      footer: 'You receive this email because you subscribed to report digests.',
+      manageLink: 'Manage digests',
+    },
+    'pt-BR': {
+      subject: {
+        daily: '📊 Seu relatório diário do BOLT',
+        weekly: '📊 Seu relatório semanal do BOLT',
+        monthly: '📊 Seu relatório mensal do BOLT',
+      },
+      greeting: options.firstName ? `Olá, ${options.firstName}! 👋` : 'Olá! 👋',
+      intro: 'Veja como foi o desempenho do seu checkout',
+      metricNames: {
+        conversion_rate: 'Taxa de conversão',
+        revenue: 'Receita',
+        avg_order_value: 'Ticket médio',
+        abandonment_rate: 'Taxa de abandono',
+      },
+      previous: 'Período anterior',
+      noPreviousData: 'Sem dados no período anterior',
+      insightsTitle: '💡 Principais insights',
+      buttonText: 'Abrir Dashboard',
+      footer: 'Você recebe este email porque assinou os relatórios por email.',
+      manageLink: 'Gerenciar relatórios',
+    },
+    es: {
+      subject: {
+        daily: '📊 Tu informe diario de BOLT',
+        weekly: '📊 Tu informe semanal de BOLT',
+        monthly: '📊 Tu informe mensual de BOLT',
+      },
+      greeting: options.firstName ? `¡Hola, ${options.firstName}! 👋` : '¡Hola! 👋',
+      intro: 'Así fue el rendimiento de tu checkout',
+      metricNames: {
+        conversion_rate: 'Tasa de conversión',
+        revenue: 'Ingresos',
+        avg_order_value: 'Ticket promedio',
+        abandonment_rate: 'Tasa de abandono',
+      },
+      previous: 'Período anterior',
+      noPreviousData: 'Sin datos en el período anterior',
+      insightsTitle: '💡 Principales insights',
+      buttonText: 'Abrir Dashboard',
+      footer: 'Recibes este correo porque te suscribiste a los informes por correo.',
+      manageLink: 'Gestionar informes',
+    },
+  };
+
+  const t = translations[locale] || translations.en;
+  const subject = t.subject[report.frequency];
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  const dashboardUrl = `${baseUrl}/dashboard`;
+  const settingsUrl = `${baseUrl}/dashboard/settings`;
+
+  // The period ends at the send time (exclusive), so the last day shown is the day before
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const lastDay = new Date(report.period.end.getTime() - 1);
+  const periodLabel =
+    report.frequency === 'daily'
+      ? formatDay(lastDay)
+      : `${formatDay(report.period.start)} – ${formatDay(lastDay)}`;
+
+  const formatValue = (metric: DigestMetricValue['metric'], value: number) => {
+    if (metric === 'revenue' || metric === 'avg_order_value') {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(value);
+    }
+    return `${new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(value)}%`;
+  };
+
+  const formatChange = (change: number) =>
+    `${change > 0 ? '▲' : change < 0 ? '▼' : '•'} ${new Intl.NumberFormat(locale, {
+      maximumFractionDigits: 1,
+    }).format(Math.abs(change))}%`;
+
+  // A lower abandonment rate is an improvement
+  const changeColor = (metric: DigestMetricValue['metric'], change: number) => {
+    const improvement = metric === 'abandonment_rate' ? change < 0 : change > 0;
+    if (change === 0) return '#64748b';
+    return improvement ? '#16a34a' : '#dc2626';
+  };
+
+  const metricRows = report.metrics
+    .map(
+      ({ metric, value, previous, change }) => `
+      <tr>
+        <td class="metric-cell" style="padding: 16px; border-bottom: 1px solid #e5e7eb;">
+          <p class="info-label" style="font-size: 12px; color: #64748b; margin: 0 0 4px 0; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">
+            ${t.metricNames[metric]}
+          </p>
+          <p class="info-value" style="font-size: 22px; font-weight: 700; color: #111827; margin: 0;">
+            ${formatValue(metric, value)}
+          </p>
+        </td>
+        <td class="metric-cell" style="padding: 16px; border-bottom: 1px solid #e5e7eb; text-align: right;">
+          ${
+            change === null
+              ? `<p style="font-size: 12px; color: #64748b; margin: 0;">${t.noPreviousData}</p>`
+              : `<p style="font-size: 16px; font-weight: 600; color: ${changeColor(metric, change)}; margin: 0 0 4px 0;">${formatChange(change)}</p>
+          <p style="font-size: 12px; color: #64748b; margin: 0;">${t.previous}: ${formatValue(metric, previous)}</p>`
+          }
+        </td>
+      </tr>`
+    )
+    .join('');
+
+  const insightItems = report.insights
+    .map(
+      (insight) => `
+      <li style="margin: 0 0 12px 0;">
+        <p class="info-value" style="font-size: 14px; font-weight: 600; color: #111827; margin: 0 0 2px 0;">${insight.title}</p>
+        <p class="email-text" style="font-size: 13px; color: #4b5563; margin: 0; line-height: 1.5;">${insight.description}</p>
+      </li>`
+    )
+    .join('');
+
+  // SVG Logo (same as other email templates)
+  const boltLogoSvg = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 670 120" fill="none" style="width: 180px; height: auto; max-width: 100%;">
+  <g transform="matrix(2.19 0 0 2.19 335 60)">
+    <g transform="translate(-122.724,-0.108)">
+      <path fill="#111827" style="fill: #111827;"
+        d="M24.516-2.412c1.44-2.304 2.304-5.04 2.304-7.92 0-8.28-6.696-14.904-14.904-14.976H-30.636v50.616h45.792c8.568 0 15.48-6.912 15.48-15.408 0-5.04-2.448-9.504-6.12-12.312zm-44.856-12.744h32.256c2.592 0 4.752 2.16 4.752 4.824 0 2.592-2.16 4.752-4.752 4.752h-32.256zm35.496 30.312H-20.34v-10.584h35.136c2.952-.072 5.4 2.232 5.472 5.112.144 2.952-2.16 5.4-5.112 5.472z" />
+    </g>
+    <g transform="translate(-35.028,0.108)">
+      <path fill="#111827" style="fill: #111827;"
+        d="M28.836-25.308H-28.908C-42.876-25.308-54.18-14.004-54.18-.036s11.304 25.344 25.272 25.344H28.836C42.804 25.308 54.18 13.932 54.18-.036S42.804-25.308 28.836-25.308zm0 40.464H-28.908c-8.352 0-15.12-6.768-15.12-15.192 0-8.352 6.768-15.12 15.12-15.12H28.836c8.424 0 15.192 6.768 15.192 15.12 0 8.424-6.768 15.192-15.192 15.192z" />
+    </g>
+    <g transform="translate(54.828,-0.108)">
+      <path fill="#111827" style="fill: #111827;" d="M30.636 15.156H-20.34v-40.464H-30.636v50.616H30.636z" />
+    </g>
+    <g transform="translate(119.52,-0.108)">
+      <path fill="#111827" style="fill: #111827;" d="M33.804-15.156v-10.152H-33.876v10.152h29.232v40.464h10.296v-40.464z" />
+    </g>
+  </g>
+</svg>`;
+
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="color-scheme" content="light dark">
+  <meta name="supported-color-schemes" content="light dark">
+  <title>${subject}</title>
+  <style>
+    /* Dark mode support for email clients */
+    @media (prefers-color-scheme: dark) {
+      .email-body {
+        background-color: #0f172a !important;
+        color: #f1f5f9 !important;
+      }
+      .email-container {
+        background-color: #1e293b !important;
+        border-color: #334155 !important;
+      }
+      .email-heading {
+        color: #f1f5f9 !important;
+      }
+      .email-text {
+        color: #cbd5e1 !important;
+      }
+      .email-subtitle {
+        color: #94a3b8 !important;
+      }
+      .button-container {
+        background: linear-gradient(135deg, #2563eb 0%, #9333ea 100%) !important;
+      }
+      .info-section {
+        background-color: #1e293b !important;
+        border-color: #334155 !important;
+      }
+      .metric-cell {
+        border-color: #334155 !important;
+      }
+      .info-label {
+        color: #94a3b8 !important;
+      }
+      .info-value {
+        color: #f1f5f9 !important;
+      }
+      .divider {
+        border-color: #334155 !important;
+      }
+      .footer-text {
+        color: #64748b !important;
+      }
+      .logo-container svg path {
+        fill: #FEFEFE !important;
+      }
+    }
+  </style>
+</head>
+<body class="email-body" style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #111827; background-color: #f9fafb; padding: 20px; margin: 0;">
+  <div class="email-container" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 16px; padding: 40px; box-shadow: 0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04); border: 1px solid #e5e7eb;">
+    
+    <!-- Logo Section -->
+    <div class="logo-container" style="text-align: center; margin-bottom: 32px;">
+      ${boltLogoSvg}
+    </div>
+    
+    <!-- Greeting -->
+    <h1 class="email-heading" style="font-size: 28px; font-weight: 700; color: #111827; margin: 0 0 12px 0; text-align: center; line-height: 1.2;">
+      ${t.greeting}
+    </h1>
+    
+    <!-- Period -->
+    <p class="email-text" style="font-size: 16px; color: #4b5563; margin: 0 0 4px 0; text-align: center;">
+      ${t.intro}
+    </p>
+    <p class="email-subtitle" style="font-size: 14px; color: #6b7280; margin: 0 0 24px 0; text-align: center; font-weight: 500;">
+      ${periodLabel}
+    </p>
+    
+    <!-- Metrics -->
+    ${
+      metricRows
+        ? `<div class="info-section" style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; margin: 24px 0; overflow: hidden;">
+      <table role="presentation" style="width: 100%; border-collapse: collapse;">${metricRows}
+      </table>
+    </div>`
+        : ''
+    }
+    
+    <!-- Insights -->
+    ${
+      insightItems
+        ? `<div class="info-section" style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; padding: 20px; margin: 24px 0;">
+      <p class="info-value" style="font-size: 16px; font-weight: 700; color: #111827; margin: 0 0 12px 0;">${t.insightsTitle}</p>
+      <ul style="list-style: none; padding: 0; margin: 0;">${insightItems}
+      </ul>
+    </div>`
+        : ''
+    }
+    
+    <!-- Dashboard Button -->
+    <div style="text-align: center; margin: 32px 0;">
+      <a href="${dashboardUrl}" class="button-container" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #9333ea 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 12px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 14px 0 rgba(37, 99, 235, 0.39); transition: all 0.2s ease;">
+        ${t.buttonText}
+      </a>
+    </div>
+    
+    <!-- Divider -->
+    <hr class="divider" style="border: none; border-top: 1px solid #e5e7eb; margin: 32px 0;">
+    
+    <!-- Footer -->
+    <p class="footer-text" style="font-size: 12px; color: #9ca3af; margin: 0; text-align: center; line-height: 1.5;">
+      ${t.footer} <a href="${settingsUrl}" style="color: #2563eb;">${t.manageLink}</a>
+    </p>
+    
+    <!-- Brand Footer -->
+    <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #e5e7eb; text-align: center;">
+      <p style="font-size: 11px; color: #d1d5db; margin: 0;">
+        Powered by <span style="font-weight: 600; background: linear-gradient(to right, #2563eb, #9333ea); -webkit-background-clip: text; -webkit-text-fill-color: transparent; background-clip: text;">BOLT</span>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  const metricLines = report.metrics
+    .map(({ metric, value, previous, change }) =>
+      change === null
+        ? `${t.metricNames[metric]}: ${formatValue(metric, value)} (${t.noPreviousData})`
+        : `${t.metricNames[metric]}: ${formatValue(metric, value)} (${formatChange(change)}, ${t.previous}: ${formatValue(metric, previous)})`
+    )
+    .join('\n');
+
+  const insightLines = report.insights
+    .map((insight) => `- ${insight.title}: ${insight.description}`)
+    .join('\n');
+
+  const text = `
+${t.greeting}
+
+${t.intro} (${periodLabel})
+
+${metricLines}
+${insightLines ? `\n${t.insightsTitle}\n${insightLines}\n` : ''}
+${t.buttonText}: ${dashboardUrl}
+
+${t.footer}
+${t.manageLink}: ${settingsUrl}
+
+---
+Powered by BCKSTG
+  `.trim();
+
+  return { html, text, subject };
+}
+
+
+/**
+ * Generate HTML email template for a metric alert
+ * Sent to the recipients of email alert channels when an alert fires or resolves
+ */
+export function generateMetricAlertEmail(
+  notification: AlertNotification,
+  locale: string = 'en'
+): { html: string; text: string; subject: string } {
+  const { rule, alert } = notification;
+
+  const translations: Record<string, {
+    subject: Record<AlertNotification['event'], string>;
+    heading: Record<AlertNotification['event'], string>;
+    metricNames: Record<AlertNotification['rule']['metric'], string>;
+    windowLabel: string;
+    currentValue: string;
+    threshold: string;
+    baseline: string;
+    deviation: string;
+    conditions: Record<AlertNotification['rule']['direction'], string>;
+    buttonText: string;
+    footer: string;
+    manageLink: string;
+  }> = {
+    en: {
+      subject: {
+        'alert.fired': `🚨 Alert: ${rule.name}`,
+        'alert.resolved': `✅ Resolved: ${rule.name}`,
+        'alert.test': `🧪 Test alert: ${rule.name}`,
+      },
+      heading: {
+        'alert.fired': 'An alert is firing',
+        'alert.resolved': 'An alert was resolved',
+        'alert.test': 'This is a test alert',
+      },
+      metricNames: {
+        conversion_rate: 'Conversion rate',
+        abandonment_rate: 'Abandonment rate',
+        avg_order_value: 'Average order value',
+        total_revenue: 'Revenue',
+        total_sessions: 'Checkout sessions',
+        total_conversions: 'Conversions',
+      },
+      windowLabel: `Over the last ${rule.window_minutes} minutes`,
+      currentValue: 'Current value',
+      threshold: 'Threshold',
+      baseline: 'Baseline',
+      deviation: 'Deviation',
+      conditions: { above: 'above', below: 'below' },
+      buttonText: 'View Alerts',
+      footer: 'You receive this email because this address is an alert channel of a BOLT account.',
+      manageLink: 'Manage alerts',
+    },
+    'pt-BR': {
+      subject: {
+        'alert.fired': `🚨 Alerta: ${rule.name}`,
+        'alert.resolved': `✅ Resolvido: ${rule.name}`,
+        'alert.test': `🧪 Alerta de teste: ${rule.name}`,
+      },
+      heading: {
+        'alert.fired': 'Um alerta foi disparado',
+        'alert.resolved': 'Um alerta foi resolvido',
+        'alert.test': 'Este é um alerta de teste',
+      },
+      metricNames: {
+        conversion_rate: 'Taxa de conversão',
+        abandonment_rate: 'Taxa de abandono',
+        avg_order_value: 'Ticket médio',
+        total_revenue: 'Receita',
+        total_sessions: 'Sessões de checkout',
+        total_conversions: 'Conversões',
+      },
+      windowLabel: `Nos últimos ${rule.window_minutes} minutos`,
+      currentValue: 'Valor atual',
+      threshold: 'Limite',
+      baseline: 'Linha de base',
+      deviation: 'Desvio',
+      conditions: { above: 'acima de', below: 'abaixo de' },
+      buttonText: 'Ver Alertas',
+      footer: 'Você recebe este email porque este endereço é um canal de alertas de uma conta BOLT.',
+      manageLink: 'Gerenciar alertas',
+    },
+    es: {
+      subject: {
+        'alert.fired': `🚨 Alerta: ${rule.name}`,
+        'alert.resolved': `✅ Resuelta: ${rule.name}`,
+        'alert.test': `🧪 Alerta de prueba: ${rule.name}`,
+      },
+      heading: {
+        'alert.fired': 'Se disparó una alerta',
+        'alert.resolved': 'Se resolvió una alerta',
+        'alert.test': 'Esta es una alerta de prueba',
+      },
+      metricNames: {
+        conversion_rate: 'Tasa de conversión',
+        abandonment_rate: 'Tasa de abandono',
+        avg_order_value: 'Ticket promedio',
+        total_revenue: 'Ingresos',
+        total_sessions: 'Sesiones de checkout',
+        total_conversions: 'Conversiones',
+      },
+      windowLabel: `En los últimos ${rule.window_minutes} minutos`,
+      currentValue: 'Valor actual',
+      threshold: 'Umbral',
+      baseline: 'Línea base',
+      deviation: 'Desviación',
+      conditions: { above: 'por encima de', below: 'por debajo de' },
+      buttonText: 'Ver Alertas',
+      footer: 'Recibes este correo porque esta dirección es un canal de alertas de una cuenta BOLT.',
+      manageLink: 'Gestionar alertas',
+    },
+  };
+
+  const t = translations[locale] || translations.en;
+  const subject = t.subject[notification.event];
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  const alertsUrl = `${baseUrl}/dashboard/alerts`;
+
+  const formatValue = (value: number) => {
+    const formatted = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+    return rule.metric === 'conversion_rate' || rule.metric === 'abandonment_rate'
+      ? `${formatted}%`
+      : formatted;
+  };
+
+  const details: Array<{ label: string; value: string }> = [
+    { label: t.currentValue, value: formatValue(alert.value) },
+  ];
+
+  if (rule.condition_type === 'threshold') {
+    details.push({
+      label: t.threshold,
+      value: `${t.conditions[rule.direction]} ${formatValue(rule.threshold)}`,
+    });
+  } else {
+    if (alert.expected !== null) {
+      details.push({ label: t.baseline, value: formatValue(alert.expected) });
+    }
+    if (alert.deviation !== null) {
+      details.push({
+        label: t.deviation,
+        value: `${alert.deviation > 0 ? '▲' : '▼'} ${new Intl.NumberFormat(locale, {
+          maximumFractionDigits: 1,
+        }).format(Math.abs(alert.deviation))}%`,
+      });
+    }
+  }
+
+  const accentColor = notification.event === 'alert.resolved' ? '#16a34a' : '#dc2626';
+
+  const detailRows = details
+    .map(
+      ({ label, value }) => `
+      <tr>
+        <td class="metric-cell" style="padding: 12px 16px; border-bottom: 1px solid #e5e7eb;">
+          <p class="info-label" style="font-size: 12px; color: #64748b; margin: 0; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">${label}</p>
+        </td>
+        <td class="metric-cell" style="padding: 12px 16px; border-bottom: 1px solid #e5e7eb; text-align: right;">
+          <p class="info-value" style="font-size: 16px; font-weight: 700; color: #111827; margin: 0;">${value}</p>
+        </td>
+      </tr>`
+    )
+    .join('');
+
+  // SVG Logo (same as other email templates)
+  const boltLogoSvg = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 670 120" fill="none" style="width: 180px; height: auto; max-width: 100%;">
+  <g transform="matrix(2.19 0 0 2.19 335 60)">
+    <g transform="translate(-122.724,-0.108)">
+      <path fill="#111827" style="fill: #111827;"
+        d="M24.516-2.412c1.44-2.304 2.304-5.04 2.304-7.92 0-8.28-6.696-14.904-14.904-14.976H-30.636v50.616h45.792c8.568 0 15.48-6.912 15.48-15.408 0-5.04-2.448-9.504-6.12-12.312zm-44.856-12.744h32.256c2.592 0 4.752 2.16 4.752 4.824 0 2.592-2.16 4.752-4.752 4.752h-32.256zm35.496 30.312H-20.34v-10.584h35.136c2.952-.072 5.4 2.232 5.472 5.112.144 2.952-2.16 5.4-5.112 5.472z" />
+    </g>
+    <g transform="translate(-35.028,0.108)">
+      <path fill="#111827" style="fill: #111827;"
+        d="M28.836-25.308H-28.908C-42.876-25.308-54.18-14.004-54.18-.036s11.304 25.344 25.272 25.344H28.836C42.804 25.308 54.18 13.932 54.18-.036S42.804-25.308 28.836-25.308zm0 40.464H-28.908c-8.352 0-15.12-6.768-15.12-15.192 0-8.352 6.768-15.12 15.12-15.12H28.836c8.424 0 15.192 6.768 15.192 15.12 0 8.424-6.768 15.192-15.192 15.192z" />
+    </g>
+    <g transform="translate(54.828,-0.108)">
+      <path fill="#111827" style="fill: #111827;" d="M30.636 15.156H-20.34v-40.464H-30.636v50.616H30.636z" />
+    </g>
+    <g transform="translate(119.52,-0.108)">
+      <path fill="#111827" style="fill: #111827;" d="M33.804-15.156v-10.152H-33.876v10.152h29.232v40.464h10.296v-40.464z" />
+    </g>
+  </g>
+</svg>`;
+
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="color-scheme" content="light dark">
+  <meta name="supported-color-schemes" content="light dark">
+  <title>${subject}</title>
+  <style>
+    /* Dark mode support for email clients */
+    @media (prefers-color-scheme: dark) {
+      .email-body {
+        background-color: #0f172a !important;
+        color: #f1f5f9 !important;
+      }
+      .email-container {
+        background-color: #1e293b !important;
+        border-color: #334155 !important;
+      }
+      .email-heading {
+        color: #f1f5f9 !important;
+      }
+      .email-text {
+        color: #cbd5e1 !important;
+      }
+      .email-subtitle {
+        color: #94a3b8 !important;
+      }
+      .button-container {
+        background: linear-gradient(135deg, #2563eb 0%, #9333ea 100%) !important;
+      }
+      .info-section {
+        background-color: #1e293b !important;
+        border-color: #334155 !important;
+      }
+      .metric-cell {
+        border-color: #334155 !important;
+      }
+      .info-label {
+        color: #94a3b8 !important;
+      }
+      .info-value {
+        color: #f1f5f9 !important;
+      }
+      .divider {
+        border-color: #334155 !important;
+      }
+      .footer-text {
+        color: #64748b !important;
+      }
+      .logo-container svg path {
+        fill: #FEFEFE !important;
+      }
+    }
+  </style>
+</head>
+<body class="email-body" style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #111827; background-color: #f9fafb; padding: 20px; margin: 0;">
+  <div class="email-container" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 16px; padding: 40px; box-shadow: 0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04); border: 1px solid #e5e7eb;">
+    
+    <!-- Logo Section -->
+    <div class="logo-container" style="text-align: center; margin-bottom: 32px;">
+      ${boltLogoSvg}
+    </div>
+    
+    <!-- Heading -->
+    <h1 class="email-heading" style="font-size: 28px; font-weight: 700; color: ${accentColor}; margin: 0 0 12px 0; text-align: center; line-height: 1.2;">
+      ${t.heading[notification.event]}
+    </h1>
+    
+    <!-- Rule -->
+    <p class="email-text" style="font-size: 18px; font-weight: 600; color: #111827; margin: 0 0 4px 0; text-align: center;">
+      ${rule.name}
+    </p>
+    <p class="email-subtitle" style="font-size: 14px; color: #6b7280; margin: 0 0 24px 0; text-align: center; font-weight: 500;">
+      ${t.metricNames[rule.metric]} · ${t.windowLabel}
+    </p>
+    
+    <!-- Details -->
+    <div class="info-section" style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; margin: 24px 0; overflow: hidden;">
+      <table role="presentation" style="width: 100%; border-collapse: collapse;">${detailRows}
+      </table>
+    </div>
+    
+    <!-- Alerts Button -->
+    <div style="text-align: center; margin: 32px 0;">
+      <a href="${alertsUrl}" class="button-container" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #9333ea 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 12px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 14px 0 rgba(37, 99, 235, 0.39); transition: all 0.2s ease;">
+        ${t.buttonText}
+      </a>
+    </div>
+    
+    <!-- Divider -->
+    <hr class="divider" style="border: none; border-top: 1px solid #e5e7eb; margin: 32px 0;">
+    
+    <!-- Footer -->
+    <p class="footer-text" style="font-size: 12px; color: #9ca3af; margin: 0; text-align: center; line-height: 1.5;">
+      ${t.footer} <a href="${alertsUrl}" style="color: #2563eb;">${t.manageLink}</a>
+    </p>
+    
+    <!-- Brand Footer -->
+    <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #e5e7eb; text-align: center;">
+      <p style="font-size: 11px; color: #d1d5db; margin: 0;">
+        Powered by <span style="font-weight: 600; background: linear-gradient(to right, #2563eb, #9333ea); -webkit-background-clip: text; -webkit-text-fill-color: transparent; background-clip: text;">BOLT</span>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  const detailLines = details.map(({ label, value }) => `${label}: ${value}`).join('\n');
+
+  const text = `
+${t.heading[notification.event]}
+
+${rule.name}
+${t.metricNames[rule.metric]} · ${t.windowLabel}
+
+${detailLines}
+
+${t.buttonText}: ${alertsUrl}
+
+${t.footer}
+
+---
+Powered by BCKSTG
+  `.trim();
+
+  return { html, text, subject };
+}
+
+
+/**
+ * Generate HTML email template for a dunning notice
+ * Sent to the owners and admins of an account at each stage of a failed subscription payment
+ */
+export function generateDunningEmail(
+  notice: DunningNotice,
+  options: {
+    firstName?: string | null;
+    locale?: string;
+  } = {}
+): { html: string; text: string; subject: string } {
+  const locale = options.locale || 'en';
+
+  const formatDate = (value: string) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(new Date(value));
+  const nextRetry = notice.nextRetryAt ? formatDate(notice.nextRetryAt) : null;
+  const suspendAt = notice.suspendAt ? formatDate(notice.suspendAt) : null;
+
+  const translations: Record<string, {
+    subject: Record<DunningNotice['stage'], string>;
+    greeting: string;
+    heading: Record<DunningNotice['stage'], string>;
+    body: Record<DunningNotice['stage'], string>;
+    nextRetry: string;
+    buttonText: Record<DunningNotice['stage'], string>;
+    footer: string;
+  }> = {
+    en: {
+      subject: {
+        past_due: '⚠️ Your BOLT subscription payment failed',
+        grace: '⏳ Update your payment method to keep your BOLT access',
+        suspended: '🔒 Your BOLT subscription has been suspended',
+        restored: '✅ Your BOLT subscription is active again',
+      },
+      greeting: options.firstName ? `Hello, ${options.firstName}! 👋` : 'Hello! 👋',
+      heading: {
+        past_due: 'Your payment failed',
+        grace: 'Your grace period has started',
+        suspended: 'Your subscription is suspended',
+        restored: 'Your access is restored',
+      },
+      body: {
+        past_due: 'We could not collect the latest payment of your subscription. We will retry it automatically, but you can update your payment method now to avoid any interruption.',
+        grace: `Every payment retry failed. Your account keeps full access${suspendAt ? ` until ${suspendAt}` : ' for a few more days'}, after which it will be suspended unless the payment succeeds.`,
+        suspended: 'We could not collect the payment of your subscription, so access to your dashboard is now limited. Update your payment method to restore it right away.',
+        restored: 'Your payment succeeded and full access to your dashboard has been restored. Thank you!',
+      },
+      nextRetry: nextRetry ? `Next payment attempt: ${nextRetry}` : '',
+      buttonText: {
+        past_due: 'Update Payment Method',
+        grace: 'Update Payment Method',
+        suspended: 'Update Payment Method',
+        restored: 'Go to Dashboard',
+      },
+      footer: 'You receive this email because you are an owner or admin of a BOLT account.',
+    },
+    'pt-BR': {
+      subject: {
+        past_due: '⚠️ O pagamento da sua assinatura BOLT falhou',
+        grace: '⏳ Atualize seu método de pagamento para manter seu acesso ao BOLT',
+        suspended: '🔒 Sua assinatura BOLT foi suspensa',
+        restored: '✅ Sua assinatura BOLT está ativa novamente',
+      },
+      greeting: options.firstName ? `Olá, ${options.firstName}! 👋` : 'Olá! 👋',
+      heading: {
+        past_due: 'Seu pagamento falhou',
+        grace: 'Seu período de carência começou',
+        suspended: 'Sua assinatura está suspensa',
+        restored: 'Seu acesso foi restaurado',
+      },
+      body: {
+        past_due: 'Não conseguimos cobrar o último pagamento da sua assinatura. Tentaremos novamente de forma automática, mas você pode atualizar seu método de pagamento agora para evitar qualquer interrupção.',
+        grace: `Todas as tentativas de pagamento falharam. Sua conta mantém acesso completo${suspendAt ? ` até ${suspendAt}` : ' por mais alguns dias'}; depois disso, será suspensa caso o pagamento não seja concluído.`,
+        suspended: 'Não conseguimos cobrar o pagamento da sua assinatura, por isso o acesso ao seu dashboard agora está limitado. Atualize seu método de pagamento para restaurá-lo imediatamente.',
+        restored: 'Seu pagamento foi concluído e o acesso completo ao seu dashboard foi restaurado. Obrigado!',
+      },
+      nextRetry: nextRetry ? `Próxima tentativa de pagamento: ${nextRetry}` : '',
+      buttonText: {
+        past_due: 'Atualizar Método de Pagamento',
+        grace: 'Atualizar Método de Pagamento',
+        suspended: 'Atualizar Método de Pagamento',
+        restored: 'Ir para o Dashboard',
+      },
+      footer: 'Você recebe este email porque é proprietário ou administrador de uma conta BOLT.',
+    },
+    es: {
+      subject: {
+        past_due: '⚠️ El pago de tu suscripción BOLT falló',
+        grace: '⏳ Actualiza tu método de pago para mantener tu acceso a BOLT',
+        suspended: '🔒 Tu suscripción BOLT fue suspendida',
+        restored: '✅ Tu suscripción BOLT está activa de nuevo',
+      },
+      greeting: options.firstName ? `¡Hola, ${options.firstName}! 👋` : '¡Hola! 👋',
+      heading: {
+        past_due: 'Tu pago falló',
+        grace: 'Tu período de gracia comenzó',
+        suspended: 'Tu suscripción está suspendida',
+        restored: 'Tu acceso fue restaurado',
+      },
+      body: {
+        past_due: 'No pudimos cobrar el último pago de tu suscripción. Lo reintentaremos automáticamente, pero puedes actualizar tu método de pago ahora para evitar cualquier interrupción.',
+        grace: `Todos los reintentos de pago fallaron. Tu cuenta mantiene el acceso completo${suspendAt ? ` hasta el ${suspendAt}` : ' unos días más'}; después será suspendida si el pago no se completa.`,
+        suspended: 'No pudimos cobrar el pago de tu suscripción, por lo que el acceso a tu dashboard ahora está limitado. Actualiza tu método de pago para restaurarlo de inmediato.',
+        restored: 'Tu pago se completó y el acceso completo a tu dashboard fue restaurado. ¡Gracias!',
+      },
+      nextRetry: nextRetry ? `Próximo intento de pago: ${nextRetry}` : '',
+      buttonText: {
+        past_due: 'Actualizar Método de Pago',
+        grace: 'Actualizar Método de Pago',
+        suspended: 'Actualizar Método de Pago',
+        restored: 'Ir al Dashboard',
+      },
+      footer: 'Recibes este correo porque eres propietario o administrador de una cuenta BOLT.',
+    },
+  };
+
+  const t = translations[locale] || translations.en;
+  const subject = t.subject[notice.stage];
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  const actionUrl = notice.stage === 'restored' ? `${baseUrl}/dashboard` : `${baseUrl}/dashboard/plans`;
+
+  const accentColor = {
+    past_due: '#d97706',
+    grace: '#ea580c',
+    suspended: '#dc2626',
+    restored: '#16a34a',
+  }[notice.stage];
+
+  // SVG Logo (same as other email templates)
+  const boltLogoSvg = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 670 120" fill="none" style="width: 180px; height: auto; max-width: 100%;">
+  <g transform="matrix(2.19 0 0 2.19 335 60)">
+    <g transform="translate(-122.724,-0.108)">
+      <path fill="#111827" style="fill: #111827;"
+        d="M24.516-2.412c1.44-2.304 2.304-5.04 2.304-7.92 0-8.28-6.696-14.904-14.904-14.976H-30.636v50.616h45.792c8.568 0 15.48-6.912 15.48-15.408 0-5.04-2.448-9.504-6.12-12.312zm-44.856-12.744h32.256c2.592 0 4.752 2.16 4.752 4.824 0 2.592-2.16 4.752-4.752 4.752h-32.256zm35.496 30.312H-20.34v-10.584h35.136c2.952-.072 5.4 2.232 5.472 5.112.144 2.952-2.16 5.4-5.112 5.472z" />
+    </g>
+    <g transform="translate(-35.028,0.108)">
+      <path fill="#111827" style="fill: #111827;"
+        d="M28.836-25.308H-28.908C-42.876-25.308-54.18-14.004-54.18-.036s11.304 25.344 25.272 25.344H28.836C42.804 25.308 54.18 13.932 54.18-.036S42.804-25.308 28.836-25.308zm0 40.464H-28.908c-8.352 0-15.12-6.768-15.12-15.192 0-8.352 6.768-15.12 15.12-15.12H28.836c8.424 0 15.192 6.768 15.192 15.12 0 8.424-6.768 15.192-15.192 15.192z" />
+    </g>
+    <g transform="translate(54.828,-0.108)">
+      <path fill="#111827" style="fill: #111827;" d="M30.636 15.156H-20.34v-40.464H-30.636v50.616H30.636z" />
+    </g>
+    <g transform="translate(119.52,-0.108)">
+      <path fill="#111827" style="fill: #111827;" d="M33.804-15.156v-10.152H-33.876v10.152h29.232v40.464h10.296v-40.464z" />
+    </g>
+  </g>
+</svg>`;
+
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="color-scheme" content="light dark">
+  <meta name="supported-color-schemes" content="light dark">
+  <title>${subject}</title>
+  <style>
+    /* Dark mode support for email clients */
+    @media (prefers-color-scheme: dark) {
+      .email-body {
+        background-color: #0f172a !important;
+        color: #f1f5f9 !important;
+      }
+      .email-container {
+        background-color: #1e293b !important;
+        border-color: #334155 !important;
+      }
+      .email-heading {
+        color: #f1f5f9 !important;
+      }
+      .email-text {
+        color: #cbd5e1 !important;
+      }
+      .email-subtitle {
+        color: #94a3b8 !important;
+      }
+      .button-container {
+        background: linear-gradient(135deg, #2563eb 0%, #9333ea 100%) !important;
+      }
+      .info-section {
+        background-color: #1e293b !important;
+        border-color: #334155 !important;
+      }
+      .metric-cell {
+        border-color: #334155 !important;
+      }
+      .info-label {
+        color: #94a3b8 !important;
+      }
+      .info-value {
+        color: #f1f5f9 !important;
+      }
+      .divider {
+        border-color: #334155 !important;
+      }
+      .footer-text {
+        color: #64748b !important;
+      }
+      .logo-container svg path {
+        fill: #FEFEFE !important;
+      }
+    }
+  </style>
+</head>
+<body class="email-body" style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #111827; background-color: #f9fafb; padding: 20px; margin: 0;">
+  <div class="email-container" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 16px; padding: 40px; box-shadow: 0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04); border: 1px solid #e5e7eb;">
+    
+    <!-- Logo Section -->
+    <div class="logo-container" style="text-align: center; margin-bottom: 32px;">
+      ${boltLogoSvg}
+    </div>
+    
+    <!-- Heading -->
+    <h1 class="email-heading" style="font-size: 28px; font-weight: 700; color: ${accentColor}; margin: 0 0 24px 0; text-align: center; line-height: 1.2;">
+      ${t.heading[notice.stage]}
+    </h1>
+    
+    <!-- Body -->
+    <p class="email-text" style="font-size: 16px; color: #374151; margin: 0 0 16px 0;">
+      ${t.greeting}
+    </p>
+    <p class="email-text" style="font-size: 16px; color: #374151; margin: 0 0 16px 0;">
+      ${t.body[notice.stage]}
+    </p>
+    ${t.nextRetry ? `
+    <div class="info-section" style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; margin: 24px 0; padding: 16px; text-align: center;">
+      <p class="info-value" style="font-size: 14px; font-weight: 600; color: #111827; margin: 0;">${t.nextRetry}</p>
+    </div>` : ''}
+    
+    <!-- Action Button -->
+    <div style="text-align: center; margin: 32px 0;">
+      <a href="${actionUrl}" class="button-container" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #9333ea 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 12px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 14px 0 rgba(37, 99, 235, 0.39); transition: all 0.2s ease;">
+        ${t.buttonText[notice.stage]}
+      </a>
+    </div>
+    
+    <!-- Divider -->
+    <hr class="divider" style="border: none; border-top: 1px solid #e5e7eb; margin: 32px 0;">
+    
+    <!-- Footer -->
+    <p class="footer-text" style="font-size: 12px; color: #9ca3af; margin: 0; text-align: center; line-height: 1.5;">
+      ${t.footer}
+    </p>
+    
+    <!-- Brand Footer -->
+    <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #e5e7eb; text-align: center;">
+      <p style="font-size: 11px; color: #d1d5db; margin: 0;">
+        Powered by <span style="font-weight: 600; background: linear-gradient(to right, #2563eb, #9333ea); -webkit-background-clip: text; -webkit-text-fill-color: transparent; background-clip: text;">BOLT</span>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  const text = `
+${t.heading[notice.stage]}
+
+${t.greeting}
+
+${t.body[notice.stage]}
+${t.nextRetry ? `\n${t.nextRetry}\n` : ''}
+${t.buttonText[notice.stage]}: ${actionUrl}
+
+${t.footer}
+
+---
+Powered by BCKSTG
+  `.trim();
+
+  return { html, text, subject };
+}
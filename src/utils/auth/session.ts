@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getRequestLocation } from '@/lib/sessions/active-sessions';
+import { generateSessionToken } from './code-generator';
+import {
+  calculateRefreshTokenExpiration,
+  calculateSessionExpiration,
+  getRefreshTokenDurationSeconds,
+  getSessionDurationSeconds,
+} from './session-config';
+
+/**
+ * Create a dashboard session for a user and set its cookies on the response
+ * (email code, SSO and second factor logins)
+ */
+export async function startDashboardSession(
+  request: NextRequest,
+  user: { id: string },
+  response: NextResponse
+): Promise<{ error: Error | null }> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const sessionToken = generateSessionToken();
+  const refreshToken = generateSessionToken();
+
+  const { error } = await supabaseAdmin.rpc('create_session', {
+    p_user_id: user.id,
+    p_token: sessionToken,
+    p_refresh_token: refreshToken,
+    p_expires_at: calculateSessionExpiration().toISOString(),
+    p_refresh_expires_at: calculateRefreshTokenExpiration().toISOString(),
+    p_ip_address: request.headers.get('x-forwarded-for') || 'unknown',
+    p_user_agent: request.headers.get('user-agent') || 'unknown',
+    p_location: getRequestLocation(request),
+  });
+
+  if (error) {
+    return { error };
+  }
+
+  await supabaseAdmin.rpc('update_user_last_login', { p_user_id: user.id });
+
+  const secure = process.env.NODE_ENV === 'production';
+  response.cookies.set('dashboard_session', sessionToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    maxAge: getSessionDurationSeconds(),
+    path: '/',
+  });
+  response.cookies.set('dashboard_refresh', refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    maxAge: getRefreshTokenDurationSeconds(),
+    path: '/',
+  });
+
+  return { error: null };
+}
@@ -34,6 +34,7 @@ const routeToTranslationKey: Record<string, string> = {
   '/dashboard/analytics/browsers': 'dashboard.analytics.browsers.title',
   '/dashboard/themes': 'dashboard.themes.title',
   '/dashboard/insights': 'dashboard.insights.title',
+  '/dashboard/alerts': 'dashboard.alerts.title',
   '/dashboard/plans': 'dashboard.plans.title',
   '/dashboard/integrations': 'dashboard.integrations.title',
   '/dashboard/settings': 'dashboard.settings.title',
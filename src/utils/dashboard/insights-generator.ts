@@ -5,7 +5,7 @@
 
 import type { Insight } from '@/app/dashboard/insights/page';
 
-interface CheckoutMetrics {
+export interface CheckoutMetrics {
   conversionRate: number;
   previousConversionRate: number;
   abandonmentRate: number;
@@ -18,6 +18,7 @@ export const FEATURE_ROUTE_MAP: Record<string, string | null> = {
   '/dashboard/dashboards': 'boltmetrics', // Dashboards - Professional and Enterprise
   '/dashboard/themes': 'boltflow_complete', // Themes - Professional and Enterprise
   '/dashboard/insights': 'boltmetrics', // Insights - Professional and Enterprise
+  '/dashboard/alerts': 'bolt_core', // Metric alerts - available to all plans
   '/dashboard/security': 'boltguard', // Security - Professional and Enterprise (BoltGuard)
   '/dashboard/b2b': 'b2b', // B2B - Professional and Enterprise
   '/dashboard/boltx': 'boltx', // BoltX - Enterprise only
@@ -57,9 +58,15 @@ export function getRouteRequiredFeature(route: string): string | null | undefine
  * Check if a plan can access a specific route
  * @param plan - The plan to check
  * @param route - The route path to check
+ * @param options.suspended - Subscription suspended for failed payments: only
+ *   the routes that require no feature (plans, settings) stay available
  * @returns true if the plan has access to the route, false otherwise
  */
-export function canAccessRoute(plan: Plan | null, route: string): boolean {
+export function canAccessRoute(
+  plan: Plan | null,
+  route: string,
+  options: { suspended?: boolean } = {}
+): boolean {
   const requiredFeature = getRouteRequiredFeature(route);
   
   // If route is unknown (undefined), deny access by default
@@ -72,8 +79,8 @@ export function canAccessRoute(plan: Plan | null, route: string): boolean {
     return true;
   }
   
-  // If no plan, deny access (feature is required but no plan available)
-  if (!plan) {
+  // If no plan or suspended, deny access (feature is required but no plan available)
+  if (!plan || options.suspended) {
     return false;
   }
   
@@ -7,6 +7,8 @@ export type PlanCode = 'starter' | 'professional' | 'enterprise';
 export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'pending';
 export type TransactionStatus = 'completed' | 'pending' | 'failed' | 'refunded';
 export type BillingCycle = 'monthly' | 'yearly';
+/** Dunning after a failed renewal payment (migration 102) */
+export type DunningState = 'past_due' | 'grace' | 'suspended';
 
 export interface Plan {
   id: string;
@@ -33,6 +35,12 @@ export interface Subscription {
   payment_provider?: string;
   gateway_subscription_id?: string;
   gateway_customer_id?: string;
+  // Dunning fields (null when paid up)
+  dunning_state?: DunningState | null;
+  dunning_started_at?: string | null;
+  dunning_state_changed_at?: string | null;
+  dunning_invoice_id?: string | null;
+  next_dunning_at?: string | null;
 }
 
 export interface SubscriptionTransaction {
@@ -53,6 +61,12 @@ export interface SubscriptionTransaction {
   gateway_invoice_id?: string;
   receipt_url?: string;
   invoice_url?: string;
+  // Currency conversion used for the charged amount (null when not converted)
+  base_amount?: number | null;
+  base_currency?: string | null;
+  exchange_rate?: number | null;
+  exchange_rate_provider?: string | null;
+  exchange_rate_fetched_at?: string | null;
 }
 
 /**
@@ -1,13 +1,38 @@
 /**
  * Role-Based Access Control (RBAC) Permissions
  * Defines what each role can do in the dashboard
+ *
+ * Users have one of the four built-in roles. Accounts can also define custom
+ * roles (migration 093) whose grants are added to the built-in role of the
+ * users they are assigned to, e.g. a viewer with a "BoltX operator" role.
  */
 
 export type Role = 'owner' | 'admin' | 'editor' | 'viewer';
 
+/** Built-in roles from least to most privileged */
+export const ROLE_HIERARCHY: Role[] = ['viewer', 'editor', 'admin', 'owner'];
+
+export const RBAC_RESOURCES = [
+  'dashboard',
+  'analytics',
+  'themes',
+  'settings',
+  'boltx',
+  'b2b',
+  'billing',
+  'integrations',
+  'users',
+] as const;
+
+export type Resource = (typeof RBAC_RESOURCES)[number];
+
+export const RBAC_ACTIONS = ['read', 'write', 'delete', 'manage'] as const;
+
+export type Action = (typeof RBAC_ACTIONS)[number];
+
 export interface Permission {
   resource: string;
-  action: 'read' | 'write' | 'delete' | 'manage';
+  action: Action;
 }
 
 export const rolePermissions: Record<Role, Permission[]> = {
@@ -19,6 +44,7 @@ export const rolePermissions: Record<Role, Permission[]> = {
     // Can read and write most things, but not manage users or billing
     { resource: 'dashboard', action: 'read' },
     { resource: 'dashboard', action: 'write' },
+    { resource: 'dashboard', action: 'delete' },
     { resource: 'analytics', action: 'read' },
     { resource: 'analytics', action: 'write' },
     { resource: 'themes', action: 'read' },
@@ -26,14 +52,30 @@ export const rolePermissions: Record<Role, Permission[]> = {
     { resource: 'themes', action: 'delete' },
     { resource: 'settings', action: 'read' },
     { resource: 'settings', action: 'write' },
-    // Cannot manage users or billing
+    { resource: 'settings', action: 'delete' },
+    { resource: 'boltx', action: 'read' },
+    { resource: 'boltx', action: 'write' },
+    { resource: 'b2b', action: 'read' },
+    { resource: 'b2b', action: 'write' },
+    { resource: 'b2b', action: 'delete' },
+    { resource: 'integrations', action: 'read' },
+    { resource: 'integrations', action: 'write' },
+    { resource: 'integrations', action: 'delete' },
+    { resource: 'billing', action: 'read' },
+    // Can invite and remove users (the database prevents removing owners)
+    { resource: 'users', action: 'read' },
+    { resource: 'users', action: 'write' },
+    { resource: 'users', action: 'delete' },
   ],
   editor: [
-    // Can edit themes and view analytics
+    // Can edit themes and dashboards and view analytics
     { resource: 'dashboard', action: 'read' },
+    { resource: 'dashboard', action: 'write' },
     { resource: 'analytics', action: 'read' },
     { resource: 'themes', action: 'read' },
     { resource: 'themes', action: 'write' },
+    { resource: 'boltx', action: 'read' },
+    { resource: 'b2b', action: 'read' },
   ],
   viewer: [
     // Read-only access
@@ -43,21 +85,14 @@ export const rolePermissions: Record<Role, Permission[]> = {
 };
 
 /**
- * Check if a role has permission for a specific resource and action
+ * Check if a list of grants allows an action on a resource
+ * ('manage' implies every action, '*' every resource)
  */
-export function hasPermission(
-  role: Role,
+export function permissionsAllow(
+  permissions: Permission[],
   resource: string,
   action: Permission['action']
 ): boolean {
-  const permissions = rolePermissions[role] || [];
-
-  // Owner has access to everything
-  if (permissions.some((p) => p.resource === '*' && p.action === 'manage')) {
-    return true;
-  }
-
-  // Check for specific permission
   return permissions.some(
     (p) =>
       (p.resource === resource || p.resource === '*') &&
@@ -65,35 +100,73 @@ export function hasPermission(
   );
 }
 
+/**
+ * Grants of a built-in role combined with the grants of a custom role
+ */
+export function getEffectivePermissions(
+  role: Role,
+  customPermissions: Permission[] = []
+): Permission[] {
+  return [...(rolePermissions[role] || []), ...customPermissions];
+}
+
+/**
+ * Check if a role has permission for a specific resource and action
+ * Pass the grants of the user's custom role, if any, as customPermissions.
+ */
+export function hasPermission(
+  role: Role,
+  resource: string,
+  action: Permission['action'],
+  customPermissions: Permission[] = []
+): boolean {
+  return permissionsAllow(getEffectivePermissions(role, customPermissions), resource, action);
+}
+
 /**
  * Check if a role can write to a resource
  */
-export function canWrite(role: Role, resource: string): boolean {
-  return (
-    hasPermission(role, resource, 'write') ||
-    hasPermission(role, resource, 'manage')
-  );
+export function canWrite(
+  role: Role,
+  resource: string,
+  customPermissions: Permission[] = []
+): boolean {
+  return hasPermission(role, resource, 'write', customPermissions);
 }
 
 /**
  * Check if a role can delete a resource
  */
-export function canDelete(role: Role, resource: string): boolean {
-  return hasPermission(role, resource, 'delete') || hasPermission(role, resource, 'manage');
+export function canDelete(
+  role: Role,
+  resource: string,
+  customPermissions: Permission[] = []
+): boolean {
+  return hasPermission(role, resource, 'delete', customPermissions);
 }
 
 /**
  * Check if a role can manage (full control) a resource
  */
-export function canManage(role: Role, resource: string): boolean {
-  return hasPermission(role, resource, 'manage');
+export function canManage(
+  role: Role,
+  resource: string,
+  customPermissions: Permission[] = []
+): boolean {
+  return hasPermission(role, resource, 'manage', customPermissions);
+}
+
+/**
+ * Check if a built-in role is at least as privileged as another
+ */
+export function isRoleAtLeast(role: Role, required: Role): boolean {
+  return ROLE_HIERARCHY.indexOf(role) >= ROLE_HIERARCHY.indexOf(required);
 }
 
 /**
  * Get all allowed resources for a role
  */
-export function getAllowedResources(role: Role): string[] {
-  const permissions = rolePermissions[role] || [];
+export function getAllowedResources(role: Role, customPermissions: Permission[] = []): string[] {
+  const permissions = getEffectivePermissions(role, customPermissions);
   return Array.from(new Set(permissions.map((p) => p.resource)));
 }
-
@@ -0,0 +1,291 @@
+-- ============================================================================
+-- Migration: Scoped, per-account API keys
+-- ============================================================================
+-- Problem: The checkout metrics ingestion endpoint authenticates against a
+--          single global METRICS_API_KEY env var, so one leaked secret allows
+--          writing events into any tenant. Keys stored in dashboard.api_keys
+--          have no scopes and never expire.
+-- Solution: Add scopes and expires_at to dashboard.api_keys, expose a lookup
+--           function that resolves a presented key (by prefix/suffix) to its
+--           account so the hash can be verified in application code, and
+--           track last_used_at on every authenticated request.
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA CHANGES
+-- ============================================================================
+
+ALTER TABLE dashboard.api_keys
+  ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['ingest']::TEXT[],
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+ALTER TABLE dashboard.api_keys
+  DROP CONSTRAINT IF EXISTS check_api_key_scopes;
+
+ALTER TABLE dashboard.api_keys
+  ADD CONSTRAINT check_api_key_scopes CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['ingest', 'read-metrics', 'boltx']::TEXT[]
+  );
+
+-- The metrics key is used by the checkout for ingestion and BoltX calls
+UPDATE dashboard.api_keys
+SET scopes = ARRAY['ingest', 'boltx']::TEXT[]
+WHERE key_type = 'metrics';
+
+-- The original constraint allowed a single custom key per account.
+-- Only the metrics key must be unique per account.
+ALTER TABLE dashboard.api_keys
+  DROP CONSTRAINT IF EXISTS unique_metrics_key_per_account;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_unique_metrics_per_account
+  ON dashboard.api_keys (account_id)
+  WHERE key_type = 'metrics';
+
+-- Lookup by prefix/suffix happens on every ingestion request
+CREATE INDEX IF NOT EXISTS idx_api_keys_prefix_suffix
+  ON dashboard.api_keys (key_prefix, key_suffix);
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Drop functions whose signature or return type changes
+DROP FUNCTION IF EXISTS public.get_api_keys_by_account(UUID);
+DROP FUNCTION IF EXISTS public.create_custom_api_key(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID);
+
+-- Get API keys by account_id (now with scopes and expiry)
+CREATE FUNCTION public.get_api_keys_by_account(p_account_id UUID)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  key_type TEXT,
+  name TEXT,
+  description TEXT,
+  key_prefix TEXT,
+  key_suffix TEXT,
+  scopes TEXT[],
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  created_by UUID
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    k.id,
+    k.account_id,
+    k.key_type,
+    k.name,
+    k.description,
+    k.key_prefix,
+    k.key_suffix,
+    k.scopes,
+    k.expires_at,
+    k.last_used_at,
+    k.created_at,
+    k.updated_at,
+    k.created_by
+  FROM dashboard.api_keys k
+  WHERE k.account_id = p_account_id
+  ORDER BY
+    CASE k.key_type
+      WHEN 'metrics' THEN 0
+      ELSE 1
+    END,
+    k.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create custom API key with scopes and optional expiry
+CREATE FUNCTION public.create_custom_api_key(
+  p_account_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_key_hash TEXT,
+  p_key_prefix TEXT,
+  p_key_suffix TEXT,
+  p_created_by UUID,
+  p_scopes TEXT[],
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  key_type TEXT,
+  name TEXT,
+  description TEXT,
+  key_prefix TEXT,
+  key_suffix TEXT,
+  scopes TEXT[],
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  created_by UUID
+) AS $$
+DECLARE
+  v_key_id UUID;
+BEGIN
+  INSERT INTO dashboard.api_keys (
+    account_id,
+    key_type,
+    name,
+    description,
+    key_hash,
+    key_prefix,
+    key_suffix,
+    scopes,
+    expires_at,
+    created_by
+  )
+  VALUES (
+    p_account_id,
+    'custom',
+    p_name,
+    p_description,
+    p_key_hash,
+    p_key_prefix,
+    p_key_suffix,
+    p_scopes,
+    p_expires_at,
+    p_created_by
+  )
+  RETURNING dashboard.api_keys.id INTO v_key_id;
+
+  RETURN QUERY
+  SELECT
+    k.id,
+    k.account_id,
+    k.key_type,
+    k.name,
+    k.description,
+    k.key_prefix,
+    k.key_suffix,
+    k.scopes,
+    k.expires_at,
+    k.created_at,
+    k.updated_at,
+    k.created_by
+  FROM dashboard.api_keys k
+  WHERE k.id = v_key_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Metrics keys are created with ingestion and BoltX scopes
+CREATE OR REPLACE FUNCTION public.upsert_metrics_api_key(
+  p_account_id UUID,
+  p_key_hash TEXT,
+  p_key_prefix TEXT,
+  p_key_suffix TEXT,
+  p_created_by UUID
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  key_type TEXT,
+  key_prefix TEXT,
+  key_suffix TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_key_id UUID;
+BEGIN
+  UPDATE dashboard.api_keys AS k
+  SET
+    key_hash = p_key_hash,
+    key_prefix = p_key_prefix,
+    key_suffix = p_key_suffix,
+    updated_at = NOW()
+  WHERE k.account_id = p_account_id
+    AND k.key_type = 'metrics'
+  RETURNING k.id INTO v_key_id;
+
+  IF v_key_id IS NULL THEN
+    INSERT INTO dashboard.api_keys (
+      account_id,
+      key_type,
+      key_hash,
+      key_prefix,
+      key_suffix,
+      scopes,
+      created_by
+    )
+    VALUES (
+      p_account_id,
+      'metrics',
+      p_key_hash,
+      p_key_prefix,
+      p_key_suffix,
+      ARRAY['ingest', 'boltx']::TEXT[],
+      p_created_by
+    )
+    RETURNING dashboard.api_keys.id INTO v_key_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    k.id,
+    k.account_id,
+    k.key_type,
+    k.key_prefix,
+    k.key_suffix,
+    k.created_at,
+    k.updated_at
+  FROM dashboard.api_keys k
+  WHERE k.id = v_key_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Find candidate keys for a presented API key value (any account)
+-- Returns the stored hash: verification must be done in application code
+-- using verifyApiKey(). Only exposed to service_role.
+CREATE OR REPLACE FUNCTION public.get_api_key_for_auth(
+  p_key_prefix TEXT,
+  p_key_suffix TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  key_type TEXT,
+  key_hash TEXT,
+  scopes TEXT[],
+  expires_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    k.id,
+    k.account_id,
+    k.key_type,
+    k.key_hash,
+    k.scopes,
+    k.expires_at
+  FROM dashboard.api_keys k
+  WHERE k.key_prefix = p_key_prefix
+    AND k.key_suffix = p_key_suffix;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Record usage of an API key
+CREATE OR REPLACE FUNCTION public.touch_api_key_last_used(p_key_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE dashboard.api_keys AS k
+  SET last_used_at = NOW()
+  WHERE k.id = p_key_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_api_keys_by_account(UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_custom_api_key(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT[], TIMESTAMPTZ) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_api_key_for_auth(TEXT, TEXT) TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.touch_api_key_last_used(UUID) TO service_role, postgres;
+
+REVOKE EXECUTE ON FUNCTION public.get_api_key_for_auth(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.touch_api_key_last_used(UUID) FROM PUBLIC, anon, authenticated;
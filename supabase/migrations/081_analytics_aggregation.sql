@@ -0,0 +1,358 @@
+-- ============================================================================
+-- Migration: Server-side analytics aggregation
+-- ============================================================================
+-- Problem: Analytics routes pull raw events into Node with
+--          get_analytics_events_by_types and aggregate them in memory, each
+--          with its own copy of the revenue extraction logic. Results are
+--          silently truncated by the PostgREST row limit on busy stores.
+-- Solution: Canonical revenue/discount extraction functions in SQL and a
+--           single aggregation function (metrics grouped by whitelisted
+--           dimensions) that the application query builder calls. Only
+--           aggregated rows cross the wire.
+-- ============================================================================
+
+-- ============================================================================
+-- VALUE EXTRACTION
+-- ============================================================================
+-- These SQL functions only reference built-ins and schema-qualified objects and
+-- have no SET search_path so the planner can inline them into aggregations.
+
+-- Parse a JSONB scalar as a number (mirrors parseFloat for strings)
+-- Returns NULL when the value is missing or not numeric
+CREATE OR REPLACE FUNCTION analytics.jsonb_to_number(p_value JSONB)
+RETURNS NUMERIC AS $$
+  SELECT CASE jsonb_typeof(p_value)
+    WHEN 'number' THEN (p_value #>> '{}')::NUMERIC
+    WHEN 'string' THEN substring(
+      p_value #>> '{}'
+      FROM '^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)'
+    )::NUMERIC
+    ELSE NULL
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Revenue of an event (same fallbacks as extractRevenue in src/utils/analytics.ts)
+-- revenue -> value -> orderValue -> totalValue -> amount; invalid or negative = 0
+CREATE OR REPLACE FUNCTION analytics.extract_revenue(p_metadata JSONB)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(GREATEST(analytics.jsonb_to_number(COALESCE(
+    NULLIF(p_metadata -> 'revenue', 'null'::JSONB),
+    NULLIF(p_metadata -> 'value', 'null'::JSONB),
+    NULLIF(p_metadata -> 'orderValue', 'null'::JSONB),
+    NULLIF(p_metadata -> 'totalValue', 'null'::JSONB),
+    NULLIF(p_metadata -> 'amount', 'null'::JSONB)
+  )), 0), 0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discount of an event (same fallbacks as extractDiscount in src/utils/analytics.ts)
+-- discountAmount -> discountValue -> metricValue; invalid or negative = 0
+CREATE OR REPLACE FUNCTION analytics.extract_discount(p_metadata JSONB)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(GREATEST(analytics.jsonb_to_number(COALESCE(
+    NULLIF(p_metadata -> 'discountAmount', 'null'::JSONB),
+    NULLIF(p_metadata -> 'discountValue', 'null'::JSONB),
+    NULLIF(p_metadata -> 'metricValue', 'null'::JSONB)
+  )), 0), 0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- SQL expression (over analytics.events aliased as e) for a dimension name
+-- Keep in sync with ANALYTICS_DIMENSIONS in src/lib/analytics/aggregation.ts
+CREATE OR REPLACE FUNCTION analytics.aggregation_dimension_expression(p_dimension TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_expr TEXT;
+BEGIN
+  v_expr := CASE p_dimension
+    WHEN 'eventType' THEN 'e.event_type'
+    WHEN 'category' THEN 'e.category'
+    WHEN 'step' THEN 'e.step'
+    WHEN 'session' THEN 'e.session_id'
+    WHEN 'orderForm' THEN 'e.order_form_id'
+    -- metadata.customer_id historically held the tenant id, ignore it in that case
+    WHEN 'customer' THEN 'COALESCE(NULLIF(NULLIF(e.metadata ->> ''customer_id'', e.customer_id::TEXT), ''''), e.order_form_id, e.session_id)'
+    WHEN 'hour' THEN 'to_char(date_trunc(''hour'', e.timestamp AT TIME ZONE ''UTC''), ''YYYY-MM-DD"T"HH24:00:00"Z"'')'
+    WHEN 'day' THEN 'to_char(e.timestamp AT TIME ZONE ''UTC'', ''YYYY-MM-DD'')'
+    WHEN 'week' THEN 'to_char(date_trunc(''week'', e.timestamp AT TIME ZONE ''UTC''), ''YYYY-MM-DD'')'
+    WHEN 'month' THEN 'to_char(e.timestamp AT TIME ZONE ''UTC'', ''YYYY-MM'')'
+    WHEN 'deviceType' THEN 'e.metadata ->> ''deviceType'''
+    WHEN 'browser' THEN 'COALESCE(NULLIF(e.metadata ->> ''browserName'', ''''), e.metadata ->> ''browser'')'
+    WHEN 'platform' THEN 'e.metadata ->> ''platform'''
+    WHEN 'paymentMethod' THEN 'e.metadata ->> ''paymentMethod'''
+    WHEN 'shippingMethod' THEN 'e.metadata ->> ''shippingMethod'''
+    WHEN 'couponCode' THEN 'COALESCE(NULLIF(e.metadata ->> ''couponCode'', ''''), e.metadata ->> ''discountCode'')'
+    WHEN 'country' THEN 'e.metadata ->> ''country'''
+    WHEN 'state' THEN 'e.metadata ->> ''state'''
+    WHEN 'channel' THEN 'regexp_replace(lower(COALESCE(NULLIF(e.metadata ->> ''utm_source'', ''''), NULLIF(e.metadata ->> ''referrer'', ''''), NULLIF(e.metadata ->> ''channel'', ''''), ''direct'')), ''[^a-z0-9]'', ''_'', ''g'')'
+    ELSE NULL
+  END;
+
+  IF v_expr IS NULL THEN
+    RAISE EXCEPTION 'Unsupported analytics dimension: %', p_dimension
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN format('COALESCE(NULLIF(%s, ''''), ''Unknown'')', v_expr);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Aggregate analytics events grouped by dimensions
+--
+-- p_dimensions: dimension names (see analytics.aggregation_dimension_expression)
+-- p_filters: { categories?: TEXT[], steps?: TEXT[], sessionIds?: TEXT[],
+--              metadata?: JSONB (containment), hasRevenue?: BOOLEAN }
+-- p_conversion_event_types: sessions with any of these events in the range
+--                           count as converted (revenue = max per session)
+-- p_value_fields: numeric metadata fields summarized as { sum, max, count }
+-- p_attribution: 'event' groups each event by its own dimension values,
+--                'session' attributes every event of a session to the first
+--                known (non 'Unknown') value of each dimension in that session
+--
+-- Rows are ordered deterministically so callers can page with .range()
+CREATE OR REPLACE FUNCTION public.aggregate_analytics_events(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_event_types TEXT[] DEFAULT NULL,
+  p_dimensions TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_filters JSONB DEFAULT '{}'::JSONB,
+  p_conversion_event_types TEXT[] DEFAULT NULL,
+  p_value_fields TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_attribution TEXT DEFAULT 'event'
+)
+RETURNS TABLE (
+  dimensions JSONB,
+  event_count BIGINT,
+  session_count BIGINT,
+  order_count BIGINT,
+  revenue NUMERIC,
+  discount NUMERIC,
+  converted_sessions BIGINT,
+  converted_revenue NUMERIC,
+  "values" JSONB,
+  first_seen TIMESTAMPTZ,
+  last_seen TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_categories TEXT[];
+  v_steps TEXT[];
+  v_session_ids TEXT[];
+  v_metadata JSONB;
+  v_has_revenue BOOLEAN := COALESCE((v_filters ->> 'hasRevenue')::BOOLEAN, FALSE);
+  v_dimension TEXT;
+  v_field TEXT;
+  v_index INT := 0;
+  v_columns TEXT[] := ARRAY['d0'];
+  v_base_columns TEXT := '0 AS d0';
+  v_session_columns TEXT := '0 AS d0';
+  v_json_pairs TEXT[] := ARRAY[]::TEXT[];
+  v_values TEXT[] := ARRAY[]::TEXT[];
+  v_attributed TEXT;
+  v_sql TEXT;
+BEGIN
+  IF p_attribution NOT IN ('event', 'session') THEN
+    RAISE EXCEPTION 'Unsupported attribution: %', p_attribution
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(v_filters -> 'categories') = 'array' THEN
+    v_categories := ARRAY(SELECT jsonb_array_elements_text(v_filters -> 'categories'));
+  END IF;
+  IF jsonb_typeof(v_filters -> 'steps') = 'array' THEN
+    v_steps := ARRAY(SELECT jsonb_array_elements_text(v_filters -> 'steps'));
+  END IF;
+  IF jsonb_typeof(v_filters -> 'sessionIds') = 'array' THEN
+    v_session_ids := ARRAY(SELECT jsonb_array_elements_text(v_filters -> 'sessionIds'));
+  END IF;
+  IF jsonb_typeof(v_filters -> 'metadata') = 'object' THEN
+    v_metadata := v_filters -> 'metadata';
+  END IF;
+
+  -- Dimension columns d1..dn (d0 is a constant so totals work without dimensions)
+  FOREACH v_dimension IN ARRAY COALESCE(p_dimensions, ARRAY[]::TEXT[]) LOOP
+    v_index := v_index + 1;
+    v_columns := v_columns || ('d' || v_index);
+    v_base_columns := v_base_columns || format(
+      ', %s AS d%s',
+      analytics.aggregation_dimension_expression(v_dimension),
+      v_index
+    );
+    v_session_columns := v_session_columns || format(
+      ', COALESCE((array_agg(d%1$s ORDER BY ts) FILTER (WHERE d%1$s <> ''Unknown''))[1], ''Unknown'') AS d%1$s',
+      v_index
+    );
+    v_json_pairs := v_json_pairs || format('%L, g.d%s', v_dimension, v_index);
+  END LOOP;
+
+  FOREACH v_field IN ARRAY COALESCE(p_value_fields, ARRAY[]::TEXT[]) LOOP
+    v_values := v_values || format(
+      'jsonb_build_object(%1$L, jsonb_build_object('
+      || '''sum'', COALESCE(SUM(analytics.jsonb_to_number(a.metadata -> %1$L)), 0), '
+      || '''max'', MAX(analytics.jsonb_to_number(a.metadata -> %1$L)), '
+      || '''count'', COUNT(analytics.jsonb_to_number(a.metadata -> %1$L))))',
+      v_field
+    );
+  END LOOP;
+
+  IF p_attribution = 'session' THEN
+    v_attributed := format(
+      'SELECT b.session_id, b.ts, b.metadata, s.%s
+       FROM base b
+       JOIN (SELECT session_id, %s FROM base GROUP BY session_id) s
+         ON s.session_id = b.session_id',
+      array_to_string(v_columns, ', s.'),
+      v_session_columns
+    );
+  ELSE
+    v_attributed := 'SELECT * FROM base';
+  END IF;
+
+  v_sql := format(
+    'WITH base AS (
+       SELECT e.session_id, e.timestamp AS ts, e.metadata, %1$s
+       FROM analytics.events e
+       WHERE e.customer_id = $1
+         AND e.timestamp >= $2
+         AND e.timestamp <= $3
+         AND ($4::TEXT[] IS NULL OR e.event_type = ANY($4))
+         AND ($6::TEXT[] IS NULL OR e.category = ANY($6))
+         AND ($7::TEXT[] IS NULL OR e.step = ANY($7))
+         AND ($8::TEXT[] IS NULL OR e.session_id = ANY($8))
+         AND ($9::JSONB IS NULL OR e.metadata @> $9)
+         AND (NOT $10 OR analytics.extract_revenue(e.metadata) > 0)
+     ),
+     attributed AS (%2$s),
+     conv AS (
+       SELECT c.session_id, MAX(analytics.extract_revenue(c.metadata)) AS revenue
+       FROM analytics.events c
+       WHERE c.customer_id = $1
+         AND c.timestamp >= $2
+         AND c.timestamp <= $3
+         AND c.event_type = ANY($5)
+       GROUP BY c.session_id
+     ),
+     grouped AS (
+       SELECT
+         %3$s,
+         COUNT(*) AS event_count,
+         COUNT(DISTINCT a.session_id) AS session_count,
+         COUNT(*) FILTER (WHERE analytics.extract_revenue(a.metadata) > 0) AS order_count,
+         COALESCE(SUM(analytics.extract_revenue(a.metadata)), 0) AS revenue,
+         COALESCE(SUM(analytics.extract_discount(a.metadata)), 0) AS discount,
+         %4$s AS vals,
+         MIN(a.ts) AS first_seen,
+         MAX(a.ts) AS last_seen
+       FROM attributed a
+       GROUP BY %3$s
+     ),
+     converted AS (
+       SELECT %3$s, COUNT(*) AS converted_sessions, SUM(c.revenue) AS converted_revenue
+       FROM (SELECT DISTINCT %3$s, a.session_id FROM attributed a) s
+       JOIN conv c ON c.session_id = s.session_id
+       GROUP BY %3$s
+     )
+     SELECT
+       jsonb_build_object(%5$s),
+       g.event_count,
+       g.session_count,
+       g.order_count,
+       g.revenue,
+       g.discount,
+       COALESCE(v.converted_sessions, 0),
+       COALESCE(v.converted_revenue, 0),
+       g.vals,
+       g.first_seen,
+       g.last_seen
+     FROM grouped g
+     LEFT JOIN converted v ON %6$s
+     ORDER BY g.event_count DESC, g.%7$s',
+    v_base_columns,
+    v_attributed,
+    array_to_string(v_columns, ', '),
+    CASE
+      WHEN cardinality(v_values) = 0 THEN '''{}''::JSONB'
+      ELSE array_to_string(v_values, ' || ')
+    END,
+    array_to_string(v_json_pairs, ', '),
+    (SELECT string_agg(format('v.%1$s = g.%1$s', c), ' AND ') FROM unnest(v_columns) AS c),
+    array_to_string(v_columns, ', g.')
+  );
+
+  RETURN QUERY EXECUTE v_sql
+    USING
+      p_customer_id,
+      p_start_date,
+      p_end_date,
+      p_event_types,
+      p_conversion_event_types,
+      v_categories,
+      v_steps,
+      v_session_ids,
+      v_metadata,
+      v_has_revenue;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Page through raw events (filters applied in the database, newest first)
+CREATE OR REPLACE FUNCTION public.list_analytics_events(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_event_types TEXT[] DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_steps TEXT[] DEFAULT NULL,
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  session_id TEXT,
+  order_form_id TEXT,
+  event_type TEXT,
+  category TEXT,
+  step TEXT,
+  metadata JSONB,
+  "timestamp" TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.session_id,
+    e.order_form_id,
+    e.event_type,
+    e.category,
+    e.step,
+    e.metadata,
+    e.timestamp
+  FROM analytics.events e
+  WHERE e.customer_id = p_customer_id
+    AND e.timestamp >= p_start_date
+    AND e.timestamp <= p_end_date
+    AND (p_event_types IS NULL OR e.event_type = ANY(p_event_types))
+    AND (p_categories IS NULL OR e.category = ANY(p_categories))
+    AND (p_steps IS NULL OR e.step = ANY(p_steps))
+  ORDER BY e.timestamp DESC, e.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Aggregations filter by customer, type and time on every call
+CREATE INDEX IF NOT EXISTS idx_events_customer_type_time
+  ON analytics.events (customer_id, event_type, timestamp DESC);
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION analytics.jsonb_to_number(JSONB) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION analytics.extract_revenue(JSONB) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION analytics.extract_discount(JSONB) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION analytics.aggregation_dimension_expression(TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.aggregate_analytics_events(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], JSONB, TEXT[], TEXT[], TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_analytics_events(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], TEXT[], INT, INT) TO service_role, postgres, authenticated;
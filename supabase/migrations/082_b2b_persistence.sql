@@ -0,0 +1,1056 @@
+-- ============================================================================
+-- Migration: Persist B2B buyers, approval workflows, credit limits and POs
+-- ============================================================================
+-- Problem: The B2B API routes (workflows, credit-limits, buyers and
+--          purchase-orders) return hard-coded mock data, so nothing a
+--          customer configures on the B2B pages is saved.
+-- Solution: Add account-scoped tables with RLS and RPC functions for buyers,
+--           approval workflows, credit limits, purchase orders and the
+--           purchase order configuration. Credit limits track used credit,
+--           which is reserved by submitted purchase orders and reset at the
+--           start of every period (daily, weekly, monthly or yearly, UTC).
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Buyers, approvers and admins of a B2B account
+CREATE TABLE IF NOT EXISTS dashboard.b2b_buyers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'buyer',
+  cost_center TEXT,
+  department TEXT,
+  project_code TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT b2b_buyers_role_check CHECK (role IN ('buyer', 'approver', 'admin')),
+  CONSTRAINT b2b_buyers_email_not_empty CHECK (length(email) > 0),
+  CONSTRAINT b2b_buyers_name_not_empty CHECK (length(name) > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_b2b_buyers_account_email
+  ON dashboard.b2b_buyers (account_id, lower(email));
+
+-- Approval workflows applied to purchase orders by amount range
+CREATE TABLE IF NOT EXISTS dashboard.b2b_approval_workflows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  min_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  max_amount NUMERIC(14, 2),
+  approvers UUID[] NOT NULL,
+  required_approvals INTEGER NOT NULL DEFAULT 1,
+  auto_approve BOOLEAN NOT NULL DEFAULT false,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT b2b_workflows_name_not_empty CHECK (length(name) > 0),
+  CONSTRAINT b2b_workflows_amount_range CHECK (
+    min_amount >= 0 AND (max_amount IS NULL OR max_amount >= min_amount)
+  ),
+  CONSTRAINT b2b_workflows_required_approvals CHECK (
+    required_approvals BETWEEN 1 AND 10
+    AND required_approvals <= cardinality(approvers)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_workflows_account_id
+  ON dashboard.b2b_approval_workflows (account_id);
+
+-- Credit limit per buyer; used_amount is reset when reset_at is reached
+CREATE TABLE IF NOT EXISTS dashboard.b2b_credit_limits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  buyer_id UUID NOT NULL REFERENCES dashboard.b2b_buyers(id) ON DELETE CASCADE,
+  limit_amount NUMERIC(14, 2) NOT NULL,
+  used_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  period TEXT NOT NULL DEFAULT 'monthly',
+  period_start TIMESTAMPTZ NOT NULL,
+  reset_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT b2b_credit_limits_buyer_unique UNIQUE (buyer_id),
+  CONSTRAINT b2b_credit_limits_period_check CHECK (period IN ('daily', 'weekly', 'monthly', 'yearly')),
+  CONSTRAINT b2b_credit_limits_amounts_check CHECK (limit_amount >= 0 AND used_amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_credit_limits_account_id
+  ON dashboard.b2b_credit_limits (account_id);
+
+-- Purchase order configuration per account (next_number backs generated PO numbers)
+CREATE TABLE IF NOT EXISTS dashboard.b2b_purchase_order_settings (
+  account_id UUID PRIMARY KEY REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  prefix TEXT NOT NULL DEFAULT 'PO',
+  auto_generate BOOLEAN NOT NULL DEFAULT true,
+  required_fields TEXT[] NOT NULL DEFAULT ARRAY['buyerId', 'amount']::TEXT[],
+  next_number BIGINT NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT b2b_po_settings_prefix_not_empty CHECK (length(prefix) > 0),
+  CONSTRAINT b2b_po_settings_required_fields CHECK (
+    required_fields <@ ARRAY['poNumber', 'buyerId', 'amount', 'items']::TEXT[]
+  )
+);
+
+-- Purchase orders; credit_reserved_at is set while the amount is reserved on the buyer's credit limit
+CREATE TABLE IF NOT EXISTS dashboard.b2b_purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  po_number TEXT NOT NULL,
+  buyer_id UUID NOT NULL REFERENCES dashboard.b2b_buyers(id) ON DELETE RESTRICT,
+  amount NUMERIC(14, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  credit_reserved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT b2b_purchase_orders_number_unique UNIQUE (account_id, po_number),
+  CONSTRAINT b2b_purchase_orders_amount_positive CHECK (amount > 0),
+  CONSTRAINT b2b_purchase_orders_status_check CHECK (
+    status IN ('draft', 'pending_approval', 'approved', 'rejected', 'cancelled')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_purchase_orders_account_created
+  ON dashboard.b2b_purchase_orders (account_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_purchase_orders_buyer_id
+  ON dashboard.b2b_purchase_orders (buyer_id);
+
+-- Grant permissions for service_role to access the tables
+GRANT ALL ON dashboard.b2b_buyers TO service_role, postgres;
+GRANT ALL ON dashboard.b2b_approval_workflows TO service_role, postgres;
+GRANT ALL ON dashboard.b2b_credit_limits TO service_role, postgres;
+GRANT ALL ON dashboard.b2b_purchase_order_settings TO service_role, postgres;
+GRANT ALL ON dashboard.b2b_purchase_orders TO service_role, postgres;
+
+-- Triggers for updated_at
+CREATE TRIGGER update_b2b_buyers_updated_at
+  BEFORE UPDATE ON dashboard.b2b_buyers
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.update_updated_at_column();
+
+CREATE TRIGGER update_b2b_approval_workflows_updated_at
+  BEFORE UPDATE ON dashboard.b2b_approval_workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.update_updated_at_column();
+
+CREATE TRIGGER update_b2b_credit_limits_updated_at
+  BEFORE UPDATE ON dashboard.b2b_credit_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.update_updated_at_column();
+
+CREATE TRIGGER update_b2b_purchase_order_settings_updated_at
+  BEFORE UPDATE ON dashboard.b2b_purchase_order_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.update_updated_at_column();
+
+CREATE TRIGGER update_b2b_purchase_orders_updated_at
+  BEFORE UPDATE ON dashboard.b2b_purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+-- Users can view B2B data of their account; admins and owners can manage it.
+-- The API accesses these tables via SECURITY DEFINER functions.
+
+ALTER TABLE dashboard.b2b_buyers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dashboard.b2b_approval_workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dashboard.b2b_credit_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dashboard.b2b_purchase_order_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dashboard.b2b_purchase_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view account B2B buyers"
+  ON dashboard.b2b_buyers
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+CREATE POLICY "Admin and owner can manage B2B buyers"
+  ON dashboard.b2b_buyers
+  FOR ALL
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  )
+  WITH CHECK (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  );
+
+CREATE POLICY "Users can view account B2B approval workflows"
+  ON dashboard.b2b_approval_workflows
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+CREATE POLICY "Admin and owner can manage B2B approval workflows"
+  ON dashboard.b2b_approval_workflows
+  FOR ALL
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  )
+  WITH CHECK (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  );
+
+CREATE POLICY "Users can view account B2B credit limits"
+  ON dashboard.b2b_credit_limits
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+CREATE POLICY "Admin and owner can manage B2B credit limits"
+  ON dashboard.b2b_credit_limits
+  FOR ALL
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  )
+  WITH CHECK (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  );
+
+CREATE POLICY "Users can view account B2B purchase order settings"
+  ON dashboard.b2b_purchase_order_settings
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+CREATE POLICY "Admin and owner can manage B2B purchase order settings"
+  ON dashboard.b2b_purchase_order_settings
+  FOR ALL
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  )
+  WITH CHECK (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  );
+
+CREATE POLICY "Users can view account B2B purchase orders"
+  ON dashboard.b2b_purchase_orders
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+CREATE POLICY "Admin and owner can manage B2B purchase orders"
+  ON dashboard.b2b_purchase_orders
+  FOR ALL
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  )
+  WITH CHECK (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+      AND role IN ('admin', 'owner')
+    )
+  );
+
+-- ============================================================================
+-- INTERNAL FUNCTIONS (credit limit periods)
+-- ============================================================================
+
+-- Start of the credit period containing p_at (UTC calendar day/week/month/year)
+CREATE OR REPLACE FUNCTION dashboard.b2b_credit_period_start(p_period TEXT, p_at TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT date_trunc(
+    CASE p_period
+      WHEN 'daily' THEN 'day'
+      WHEN 'weekly' THEN 'week'
+      WHEN 'monthly' THEN 'month'
+      ELSE 'year'
+    END,
+    p_at AT TIME ZONE 'UTC'
+  ) AT TIME ZONE 'UTC';
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- Length of a credit period
+CREATE OR REPLACE FUNCTION dashboard.b2b_credit_period_interval(p_period TEXT)
+RETURNS INTERVAL AS $$
+  SELECT CASE p_period
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '1 week'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    ELSE INTERVAL '1 year'
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- Reset used credit of every limit whose period has ended
+CREATE OR REPLACE FUNCTION dashboard.reset_expired_b2b_credit_limits(p_account_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE dashboard.b2b_credit_limits AS l
+  SET
+    used_amount = 0,
+    period_start = dashboard.b2b_credit_period_start(l.period, NOW()),
+    reset_at = dashboard.b2b_credit_period_start(l.period, NOW())
+      + dashboard.b2b_credit_period_interval(l.period)
+  WHERE l.account_id = p_account_id
+    AND l.reset_at <= NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Reserve an amount on a buyer's credit limit (buyers without a limit are unlimited)
+CREATE OR REPLACE FUNCTION dashboard.reserve_b2b_credit(
+  p_account_id UUID,
+  p_buyer_id UUID,
+  p_amount NUMERIC
+)
+RETURNS VOID AS $$
+DECLARE
+  v_limit NUMERIC;
+  v_used NUMERIC;
+BEGIN
+  PERFORM dashboard.reset_expired_b2b_credit_limits(p_account_id);
+
+  UPDATE dashboard.b2b_credit_limits AS l
+  SET used_amount = l.used_amount + p_amount
+  WHERE l.account_id = p_account_id
+    AND l.buyer_id = p_buyer_id
+  RETURNING l.limit_amount, l.used_amount INTO v_limit, v_used;
+
+  IF FOUND AND v_used > v_limit THEN
+    RAISE EXCEPTION 'Purchase order exceeds the buyer''s available credit'
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Release an amount reserved at p_reserved_at (no-op when reserved in a previous, already reset period)
+CREATE OR REPLACE FUNCTION dashboard.release_b2b_credit(
+  p_account_id UUID,
+  p_buyer_id UUID,
+  p_amount NUMERIC,
+  p_reserved_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM dashboard.reset_expired_b2b_credit_limits(p_account_id);
+
+  UPDATE dashboard.b2b_credit_limits AS l
+  SET used_amount = GREATEST(l.used_amount - p_amount, 0)
+  WHERE l.account_id = p_account_id
+    AND l.buyer_id = p_buyer_id
+    AND l.period_start <= p_reserved_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Approvers must be approvers or admins of the account
+CREATE OR REPLACE FUNCTION dashboard.assert_b2b_approvers(p_account_id UUID, p_approvers UUID[])
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_approvers) AS a(buyer_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM dashboard.b2b_buyers b
+      WHERE b.id = a.buyer_id
+        AND b.account_id = p_account_id
+        AND b.role IN ('approver', 'admin')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Approvers must be approvers or admins of this account'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: BUYERS
+-- ============================================================================
+
+-- Get buyers by account_id (with their credit limit and available credit)
+CREATE OR REPLACE FUNCTION public.get_b2b_buyers(
+  p_account_id UUID,
+  p_buyer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  email TEXT,
+  name TEXT,
+  role TEXT,
+  cost_center TEXT,
+  department TEXT,
+  project_code TEXT,
+  credit_limit NUMERIC,
+  available_credit NUMERIC,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  PERFORM dashboard.reset_expired_b2b_credit_limits(p_account_id);
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.account_id,
+    b.email,
+    b.name,
+    b.role,
+    b.cost_center,
+    b.department,
+    b.project_code,
+    l.limit_amount,
+    GREATEST(l.limit_amount - l.used_amount, 0),
+    b.created_at,
+    b.updated_at
+  FROM dashboard.b2b_buyers b
+  LEFT JOIN dashboard.b2b_credit_limits l ON l.buyer_id = b.id
+  WHERE b.account_id = p_account_id
+    AND (p_buyer_id IS NULL OR b.id = p_buyer_id)
+  ORDER BY b.name, b.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create buyer
+CREATE OR REPLACE FUNCTION public.create_b2b_buyer(
+  p_account_id UUID,
+  p_email TEXT,
+  p_name TEXT,
+  p_role TEXT,
+  p_cost_center TEXT DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_project_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_buyer_id UUID;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM dashboard.b2b_buyers b
+    WHERE b.account_id = p_account_id
+      AND lower(b.email) = lower(p_email)
+  ) THEN
+    RAISE EXCEPTION 'A buyer with this email already exists'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO dashboard.b2b_buyers (
+    account_id,
+    email,
+    name,
+    role,
+    cost_center,
+    department,
+    project_code
+  )
+  VALUES (
+    p_account_id,
+    p_email,
+    p_name,
+    p_role,
+    p_cost_center,
+    p_department,
+    p_project_code
+  )
+  RETURNING dashboard.b2b_buyers.id INTO v_buyer_id;
+
+  RETURN v_buyer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Update buyer (all fields are replaced)
+CREATE OR REPLACE FUNCTION public.update_b2b_buyer(
+  p_account_id UUID,
+  p_buyer_id UUID,
+  p_email TEXT,
+  p_name TEXT,
+  p_role TEXT,
+  p_cost_center TEXT,
+  p_department TEXT,
+  p_project_code TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM dashboard.b2b_buyers b
+    WHERE b.account_id = p_account_id
+      AND b.id <> p_buyer_id
+      AND lower(b.email) = lower(p_email)
+  ) THEN
+    RAISE EXCEPTION 'A buyer with this email already exists'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF p_role = 'buyer' AND EXISTS (
+    SELECT 1 FROM dashboard.b2b_approval_workflows w
+    WHERE w.account_id = p_account_id
+      AND p_buyer_id = ANY (w.approvers)
+  ) THEN
+    RAISE EXCEPTION 'Buyer is an approver in an approval workflow'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  UPDATE dashboard.b2b_buyers AS b
+  SET
+    email = p_email,
+    name = p_name,
+    role = p_role,
+    cost_center = p_cost_center,
+    department = p_department,
+    project_code = p_project_code
+  WHERE b.id = p_buyer_id
+    AND b.account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete buyer (not allowed while referenced by purchase orders or workflows)
+CREATE OR REPLACE FUNCTION public.delete_b2b_buyer(
+  p_account_id UUID,
+  p_buyer_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM dashboard.b2b_purchase_orders po
+    WHERE po.account_id = p_account_id
+      AND po.buyer_id = p_buyer_id
+  ) THEN
+    RAISE EXCEPTION 'Buyer has purchase orders and cannot be deleted'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM dashboard.b2b_approval_workflows w
+    WHERE w.account_id = p_account_id
+      AND p_buyer_id = ANY (w.approvers)
+  ) THEN
+    RAISE EXCEPTION 'Buyer is an approver in an approval workflow'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  DELETE FROM dashboard.b2b_buyers AS b
+  WHERE b.id = p_buyer_id
+    AND b.account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: APPROVAL WORKFLOWS
+-- ============================================================================
+
+-- Get approval workflows by account_id
+CREATE OR REPLACE FUNCTION public.get_b2b_workflows(
+  p_account_id UUID,
+  p_workflow_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  enabled BOOLEAN,
+  min_amount NUMERIC,
+  max_amount NUMERIC,
+  approvers UUID[],
+  required_approvals INTEGER,
+  auto_approve BOOLEAN,
+  conditions JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    w.id,
+    w.account_id,
+    w.name,
+    w.enabled,
+    w.min_amount,
+    w.max_amount,
+    w.approvers,
+    w.required_approvals,
+    w.auto_approve,
+    w.conditions,
+    w.created_at,
+    w.updated_at
+  FROM dashboard.b2b_approval_workflows w
+  WHERE w.account_id = p_account_id
+    AND (p_workflow_id IS NULL OR w.id = p_workflow_id)
+  ORDER BY w.min_amount, w.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create approval workflow
+CREATE OR REPLACE FUNCTION public.create_b2b_workflow(
+  p_account_id UUID,
+  p_name TEXT,
+  p_enabled BOOLEAN,
+  p_min_amount NUMERIC,
+  p_max_amount NUMERIC,
+  p_approvers UUID[],
+  p_required_approvals INTEGER,
+  p_auto_approve BOOLEAN,
+  p_conditions JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_workflow_id UUID;
+BEGIN
+  PERFORM dashboard.assert_b2b_approvers(p_account_id, p_approvers);
+
+  INSERT INTO dashboard.b2b_approval_workflows (
+    account_id,
+    name,
+    enabled,
+    min_amount,
+    max_amount,
+    approvers,
+    required_approvals,
+    auto_approve,
+    conditions
+  )
+  VALUES (
+    p_account_id,
+    p_name,
+    p_enabled,
+    p_min_amount,
+    p_max_amount,
+    p_approvers,
+    p_required_approvals,
+    COALESCE(p_auto_approve, false),
+    COALESCE(p_conditions, '{}'::jsonb)
+  )
+  RETURNING dashboard.b2b_approval_workflows.id INTO v_workflow_id;
+
+  RETURN v_workflow_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Update approval workflow (all fields are replaced)
+CREATE OR REPLACE FUNCTION public.update_b2b_workflow(
+  p_account_id UUID,
+  p_workflow_id UUID,
+  p_name TEXT,
+  p_enabled BOOLEAN,
+  p_min_amount NUMERIC,
+  p_max_amount NUMERIC,
+  p_approvers UUID[],
+  p_required_approvals INTEGER,
+  p_auto_approve BOOLEAN,
+  p_conditions JSONB
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM dashboard.assert_b2b_approvers(p_account_id, p_approvers);
+
+  UPDATE dashboard.b2b_approval_workflows AS w
+  SET
+    name = p_name,
+    enabled = p_enabled,
+    min_amount = p_min_amount,
+    max_amount = p_max_amount,
+    approvers = p_approvers,
+    required_approvals = p_required_approvals,
+    auto_approve = COALESCE(p_auto_approve, false),
+    conditions = COALESCE(p_conditions, '{}'::jsonb)
+  WHERE w.id = p_workflow_id
+    AND w.account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete approval workflow
+CREATE OR REPLACE FUNCTION public.delete_b2b_workflow(
+  p_account_id UUID,
+  p_workflow_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.b2b_approval_workflows AS w
+  WHERE w.id = p_workflow_id
+    AND w.account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: CREDIT LIMITS
+-- ============================================================================
+
+-- Get credit limits by account_id (expired periods are reset first)
+CREATE OR REPLACE FUNCTION public.get_b2b_credit_limits(
+  p_account_id UUID,
+  p_buyer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  buyer_id UUID,
+  limit_amount NUMERIC,
+  used_amount NUMERIC,
+  period TEXT,
+  period_start TIMESTAMPTZ,
+  reset_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  PERFORM dashboard.reset_expired_b2b_credit_limits(p_account_id);
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.account_id,
+    l.buyer_id,
+    l.limit_amount,
+    l.used_amount,
+    l.period,
+    l.period_start,
+    l.reset_at,
+    l.created_at,
+    l.updated_at
+  FROM dashboard.b2b_credit_limits l
+  WHERE l.account_id = p_account_id
+    AND (p_buyer_id IS NULL OR l.buyer_id = p_buyer_id)
+  ORDER BY l.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create or update a buyer's credit limit
+-- p_period NULL keeps the current period (monthly for new limits).
+-- Changing the period starts a new window but keeps the credit already used.
+CREATE OR REPLACE FUNCTION public.upsert_b2b_credit_limit(
+  p_account_id UUID,
+  p_buyer_id UUID,
+  p_limit NUMERIC,
+  p_period TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_limit_id UUID;
+  v_period TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM dashboard.b2b_buyers b
+    WHERE b.id = p_buyer_id
+      AND b.account_id = p_account_id
+  ) THEN
+    RAISE EXCEPTION 'Buyer not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM dashboard.reset_expired_b2b_credit_limits(p_account_id);
+
+  SELECT l.period INTO v_period
+  FROM dashboard.b2b_credit_limits l
+  WHERE l.buyer_id = p_buyer_id;
+
+  v_period := COALESCE(p_period, v_period, 'monthly');
+
+  INSERT INTO dashboard.b2b_credit_limits (
+    account_id,
+    buyer_id,
+    limit_amount,
+    period,
+    period_start,
+    reset_at
+  )
+  VALUES (
+    p_account_id,
+    p_buyer_id,
+    p_limit,
+    v_period,
+    dashboard.b2b_credit_period_start(v_period, NOW()),
+    dashboard.b2b_credit_period_start(v_period, NOW()) + dashboard.b2b_credit_period_interval(v_period)
+  )
+  ON CONFLICT ON CONSTRAINT b2b_credit_limits_buyer_unique DO UPDATE SET
+    limit_amount = EXCLUDED.limit_amount,
+    period = EXCLUDED.period,
+    period_start = CASE
+      WHEN dashboard.b2b_credit_limits.period = EXCLUDED.period THEN dashboard.b2b_credit_limits.period_start
+      ELSE EXCLUDED.period_start
+    END,
+    reset_at = CASE
+      WHEN dashboard.b2b_credit_limits.period = EXCLUDED.period THEN dashboard.b2b_credit_limits.reset_at
+      ELSE EXCLUDED.reset_at
+    END
+  RETURNING dashboard.b2b_credit_limits.id INTO v_limit_id;
+
+  RETURN v_limit_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: PURCHASE ORDERS
+-- ============================================================================
+
+-- Get purchase order configuration (defaults when not configured)
+CREATE OR REPLACE FUNCTION public.get_b2b_purchase_order_settings(p_account_id UUID)
+RETURNS TABLE (
+  prefix TEXT,
+  auto_generate BOOLEAN,
+  required_fields TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.prefix, s.auto_generate, s.required_fields
+  FROM dashboard.b2b_purchase_order_settings s
+  WHERE s.account_id = p_account_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT 'PO'::TEXT, true, ARRAY['buyerId', 'amount']::TEXT[];
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create or update purchase order configuration
+CREATE OR REPLACE FUNCTION public.upsert_b2b_purchase_order_settings(
+  p_account_id UUID,
+  p_prefix TEXT,
+  p_auto_generate BOOLEAN,
+  p_required_fields TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO dashboard.b2b_purchase_order_settings (
+    account_id,
+    prefix,
+    auto_generate,
+    required_fields
+  )
+  VALUES (
+    p_account_id,
+    p_prefix,
+    p_auto_generate,
+    p_required_fields
+  )
+  ON CONFLICT ON CONSTRAINT b2b_purchase_order_settings_pkey DO UPDATE SET
+    prefix = EXCLUDED.prefix,
+    auto_generate = EXCLUDED.auto_generate,
+    required_fields = EXCLUDED.required_fields;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Get purchase orders by account_id
+CREATE OR REPLACE FUNCTION public.get_b2b_purchase_orders(
+  p_account_id UUID,
+  p_buyer_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  po_number TEXT,
+  buyer_id UUID,
+  amount NUMERIC,
+  status TEXT,
+  items JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    po.id,
+    po.account_id,
+    po.po_number,
+    po.buyer_id,
+    po.amount,
+    po.status,
+    po.items,
+    po.created_at,
+    po.updated_at
+  FROM dashboard.b2b_purchase_orders po
+  WHERE po.account_id = p_account_id
+    AND (p_buyer_id IS NULL OR po.buyer_id = p_buyer_id)
+    AND (p_status IS NULL OR po.status = p_status)
+    AND (p_order_id IS NULL OR po.id = p_order_id)
+  ORDER BY po.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create purchase order
+-- p_po_number NULL generates the number from the account configuration (prefix + sequence).
+-- Orders created as pending_approval reserve their amount on the buyer's credit limit.
+CREATE OR REPLACE FUNCTION public.create_b2b_purchase_order(
+  p_account_id UUID,
+  p_buyer_id UUID,
+  p_po_number TEXT,
+  p_amount NUMERIC,
+  p_items JSONB,
+  p_status TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_po_number TEXT := p_po_number;
+  v_prefix TEXT;
+  v_auto_generate BOOLEAN;
+  v_number BIGINT;
+  v_reserved_at TIMESTAMPTZ;
+BEGIN
+  IF p_status NOT IN ('draft', 'pending_approval') THEN
+    RAISE EXCEPTION 'Purchase orders must be created as draft or pending_approval'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM dashboard.b2b_buyers b
+    WHERE b.id = p_buyer_id
+      AND b.account_id = p_account_id
+  ) THEN
+    RAISE EXCEPTION 'Buyer not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_po_number IS NULL THEN
+    INSERT INTO dashboard.b2b_purchase_order_settings (account_id, next_number)
+    VALUES (p_account_id, 2)
+    ON CONFLICT ON CONSTRAINT b2b_purchase_order_settings_pkey DO UPDATE SET
+      next_number = dashboard.b2b_purchase_order_settings.next_number + 1
+    RETURNING
+      dashboard.b2b_purchase_order_settings.prefix,
+      dashboard.b2b_purchase_order_settings.auto_generate,
+      dashboard.b2b_purchase_order_settings.next_number - 1
+    INTO v_prefix, v_auto_generate, v_number;
+
+    IF NOT v_auto_generate THEN
+      RAISE EXCEPTION 'PO number is required'
+        USING ERRCODE = 'not_null_violation';
+    END IF;
+
+    v_po_number := v_prefix || '-' || lpad(v_number::TEXT, 6, '0');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM dashboard.b2b_purchase_orders po
+    WHERE po.account_id = p_account_id
+      AND po.po_number = v_po_number
+  ) THEN
+    RAISE EXCEPTION 'A purchase order with this number already exists'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF p_status = 'pending_approval' THEN
+    PERFORM dashboard.reserve_b2b_credit(p_account_id, p_buyer_id, p_amount);
+    v_reserved_at := NOW();
+  END IF;
+
+  INSERT INTO dashboard.b2b_purchase_orders (
+    account_id,
+    po_number,
+    buyer_id,
+    amount,
+    status,
+    items,
+    credit_reserved_at
+  )
+  VALUES (
+    p_account_id,
+    v_po_number,
+    p_buyer_id,
+    p_amount,
+    p_status,
+    COALESCE(p_items, '[]'::jsonb),
+    v_reserved_at
+  )
+  RETURNING dashboard.b2b_purchase_orders.id INTO v_order_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_b2b_buyers(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_b2b_buyer(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_b2b_buyer(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_b2b_buyer(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_b2b_workflows(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_b2b_workflow(UUID, TEXT, BOOLEAN, NUMERIC, NUMERIC, UUID[], INTEGER, BOOLEAN, JSONB) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_b2b_workflow(UUID, UUID, TEXT, BOOLEAN, NUMERIC, NUMERIC, UUID[], INTEGER, BOOLEAN, JSONB) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_b2b_workflow(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_b2b_credit_limits(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.upsert_b2b_credit_limit(UUID, UUID, NUMERIC, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_b2b_purchase_order_settings(UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.upsert_b2b_purchase_order_settings(UUID, TEXT, BOOLEAN, TEXT[]) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_b2b_purchase_orders(UUID, UUID, TEXT, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_b2b_purchase_order(UUID, UUID, TEXT, NUMERIC, JSONB, TEXT) TO service_role, postgres, authenticated;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+COMMENT ON TABLE dashboard.b2b_buyers IS 'B2B buyers, approvers and admins per customer account';
+COMMENT ON TABLE dashboard.b2b_approval_workflows IS 'Purchase order approval workflows per customer account';
+COMMENT ON TABLE dashboard.b2b_credit_limits IS 'Per-buyer credit limits with used credit reset every period';
+COMMENT ON TABLE dashboard.b2b_purchase_order_settings IS 'Purchase order numbering and required fields per customer account';
+COMMENT ON TABLE dashboard.b2b_purchase_orders IS 'B2B purchase orders';
+COMMENT ON COLUMN dashboard.b2b_credit_limits.reset_at IS 'End of the current period; used_amount is reset on the first access after it';
+COMMENT ON COLUMN dashboard.b2b_purchase_orders.credit_reserved_at IS 'When the amount was reserved on the buyer''s credit limit (NULL = not reserved)';
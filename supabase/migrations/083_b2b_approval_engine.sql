@@ -0,0 +1,676 @@
+-- ============================================================================
+-- Migration: Purchase order approval engine and audit trail
+-- ============================================================================
+-- Problem: Approval workflows are stored but never applied. Submitted
+--          purchase orders stay in pending_approval forever and there is no
+--          record of who approved or rejected an order.
+-- Solution: Route every submitted purchase order through the matching
+--           workflow (amount range + buyer cost center/department/project
+--           conditions). Approvers act one step at a time, in workflow order,
+--           until required_approvals is reached; they can also reject or
+--           escalate to the next approver. Every step is written to an
+--           append-only audit log that cannot be updated or deleted.
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA CHANGES
+-- ============================================================================
+
+-- Routing state (approvers and required approvals are copied from the workflow
+-- when the order is routed, so editing a workflow never changes in-flight orders)
+ALTER TABLE dashboard.b2b_purchase_orders
+  ADD COLUMN IF NOT EXISTS workflow_id UUID REFERENCES dashboard.b2b_approval_workflows(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approvers UUID[] NOT NULL DEFAULT ARRAY[]::UUID[],
+  ADD COLUMN IF NOT EXISTS required_approvals INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approvals_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS current_step INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS decided_at TIMESTAMPTZ;
+
+-- RESTRICT is checked immediately and blocked account deletion when buyers were
+-- cascaded before their orders; delete_b2b_buyer already refuses buyers with orders.
+ALTER TABLE dashboard.b2b_purchase_orders
+  DROP CONSTRAINT IF EXISTS b2b_purchase_orders_buyer_id_fkey;
+
+ALTER TABLE dashboard.b2b_purchase_orders
+  ADD CONSTRAINT b2b_purchase_orders_buyer_id_fkey
+  FOREIGN KEY (buyer_id) REFERENCES dashboard.b2b_buyers(id);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_purchase_orders_pending
+  ON dashboard.b2b_purchase_orders (account_id)
+  WHERE status = 'pending_approval';
+
+-- Approvers of a workflow must be distinct (each approval is a different person)
+ALTER TABLE dashboard.b2b_approval_workflows
+  DROP CONSTRAINT IF EXISTS b2b_workflows_distinct_approvers;
+
+ALTER TABLE dashboard.b2b_approval_workflows
+  ADD CONSTRAINT b2b_workflows_distinct_approvers CHECK (
+    cardinality(approvers) = cardinality(ARRAY(SELECT DISTINCT unnest(approvers)))
+  );
+
+-- Approval audit log (append-only)
+CREATE TABLE IF NOT EXISTS dashboard.b2b_approval_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES dashboard.b2b_purchase_orders(id),
+  po_number TEXT NOT NULL,
+  amount NUMERIC(14, 2) NOT NULL,
+  workflow_id UUID,
+  workflow_name TEXT,
+  action TEXT NOT NULL,
+  step INTEGER,
+  actor_user_id UUID,
+  actor_buyer_id UUID,
+  actor_email TEXT,
+  comment TEXT,
+  status_after TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT b2b_approval_audit_action_check CHECK (
+    action IN ('submitted', 'routed', 'auto_approved', 'no_workflow', 'approved', 'rejected', 'escalated')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_approval_audit_order
+  ON dashboard.b2b_approval_audit_log (purchase_order_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_b2b_approval_audit_account_created
+  ON dashboard.b2b_approval_audit_log (account_id, created_at DESC);
+
+-- Entries can only be inserted and read
+GRANT SELECT, INSERT ON dashboard.b2b_approval_audit_log TO service_role, postgres;
+REVOKE UPDATE, DELETE, TRUNCATE ON dashboard.b2b_approval_audit_log FROM PUBLIC, anon, authenticated, service_role;
+
+-- Reject updates and deletes, except deletes cascaded from a deleted account
+CREATE OR REPLACE FUNCTION dashboard.prevent_b2b_approval_audit_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (
+    SELECT 1 FROM customer.accounts a WHERE a.id = OLD.account_id
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'The approval audit log is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+CREATE TRIGGER prevent_b2b_approval_audit_changes
+  BEFORE UPDATE OR DELETE ON dashboard.b2b_approval_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.prevent_b2b_approval_audit_changes();
+
+CREATE TRIGGER prevent_b2b_approval_audit_truncate
+  BEFORE TRUNCATE ON dashboard.b2b_approval_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION dashboard.prevent_b2b_approval_audit_changes();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE dashboard.b2b_approval_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the approval audit log of their account
+CREATE POLICY "Users can view account B2B approval audit log"
+  ON dashboard.b2b_approval_audit_log
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- Entries are written only by SECURITY DEFINER functions
+CREATE POLICY "Deny direct insert to B2B approval audit log"
+  ON dashboard.b2b_approval_audit_log
+  FOR INSERT
+  WITH CHECK (false);
+
+-- ============================================================================
+-- INTERNAL FUNCTIONS
+-- ============================================================================
+
+-- A workflow condition matches when it is empty or contains the buyer's value
+CREATE OR REPLACE FUNCTION dashboard.b2b_condition_matches(p_condition JSONB, p_value TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT
+    p_condition IS NULL
+    OR jsonb_typeof(p_condition) <> 'array'
+    OR jsonb_array_length(p_condition) = 0
+    OR (p_value IS NOT NULL AND p_condition ? p_value);
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- Append an entry to the approval audit log
+CREATE OR REPLACE FUNCTION dashboard.log_b2b_approval(
+  p_order dashboard.b2b_purchase_orders,
+  p_action TEXT,
+  p_actor_user_id UUID,
+  p_actor_buyer_id UUID,
+  p_actor_email TEXT,
+  p_comment TEXT DEFAULT NULL,
+  p_workflow_name TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO dashboard.b2b_approval_audit_log (
+    account_id,
+    purchase_order_id,
+    po_number,
+    amount,
+    workflow_id,
+    workflow_name,
+    action,
+    step,
+    actor_user_id,
+    actor_buyer_id,
+    actor_email,
+    comment,
+    status_after
+  )
+  VALUES (
+    p_order.account_id,
+    p_order.id,
+    p_order.po_number,
+    p_order.amount,
+    p_order.workflow_id,
+    COALESCE(
+      p_workflow_name,
+      (SELECT w.name FROM dashboard.b2b_approval_workflows w WHERE w.id = p_order.workflow_id)
+    ),
+    p_action,
+    CASE WHEN p_order.workflow_id IS NULL THEN NULL ELSE p_order.current_step + 1 END,
+    p_actor_user_id,
+    p_actor_buyer_id,
+    p_actor_email,
+    p_comment,
+    p_order.status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Log that an order was routed to the approver of its current step
+CREATE OR REPLACE FUNCTION dashboard.log_b2b_routing(p_order dashboard.b2b_purchase_orders)
+RETURNS VOID AS $$
+DECLARE
+  v_approver_id UUID := p_order.approvers[p_order.current_step + 1];
+BEGIN
+  PERFORM dashboard.log_b2b_approval(
+    p_order,
+    'routed',
+    NULL,
+    v_approver_id,
+    (SELECT b.email FROM dashboard.b2b_buyers b WHERE b.id = v_approver_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Match a submitted (pending_approval) order against the enabled workflows and route it
+-- The most specific workflow wins: highest minimum amount, then most conditions.
+-- Orders without a matching workflow, or matched by an auto-approve workflow, are approved.
+CREATE OR REPLACE FUNCTION dashboard.route_b2b_purchase_order(
+  p_order_id UUID,
+  p_user_id UUID,
+  p_user_email TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_order dashboard.b2b_purchase_orders;
+  v_workflow dashboard.b2b_approval_workflows;
+BEGIN
+  SELECT * INTO v_order
+  FROM dashboard.b2b_purchase_orders po
+  WHERE po.id = p_order_id
+  FOR UPDATE;
+
+  PERFORM dashboard.log_b2b_approval(v_order, 'submitted', p_user_id, NULL, p_user_email);
+
+  SELECT w.* INTO v_workflow
+  FROM dashboard.b2b_approval_workflows w
+  JOIN dashboard.b2b_buyers b ON b.id = v_order.buyer_id
+  WHERE w.account_id = v_order.account_id
+    AND w.enabled
+    AND v_order.amount >= w.min_amount
+    AND (w.max_amount IS NULL OR v_order.amount <= w.max_amount)
+    AND dashboard.b2b_condition_matches(w.conditions->'costCenter', b.cost_center)
+    AND dashboard.b2b_condition_matches(w.conditions->'department', b.department)
+    AND dashboard.b2b_condition_matches(w.conditions->'projectCode', b.project_code)
+  ORDER BY
+    w.min_amount DESC,
+    (
+      (CASE WHEN jsonb_array_length(COALESCE(w.conditions->'costCenter', '[]'::jsonb)) > 0 THEN 1 ELSE 0 END)
+      + (CASE WHEN jsonb_array_length(COALESCE(w.conditions->'department', '[]'::jsonb)) > 0 THEN 1 ELSE 0 END)
+      + (CASE WHEN jsonb_array_length(COALESCE(w.conditions->'projectCode', '[]'::jsonb)) > 0 THEN 1 ELSE 0 END)
+    ) DESC,
+    w.created_at
+  LIMIT 1;
+
+  IF v_workflow.id IS NULL THEN
+    UPDATE dashboard.b2b_purchase_orders AS po
+    SET status = 'approved', decided_at = NOW()
+    WHERE po.id = p_order_id
+    RETURNING * INTO v_order;
+
+    PERFORM dashboard.log_b2b_approval(v_order, 'no_workflow', NULL, NULL, NULL);
+    RETURN;
+  END IF;
+
+  IF v_workflow.auto_approve THEN
+    UPDATE dashboard.b2b_purchase_orders AS po
+    SET
+      status = 'approved',
+      workflow_id = v_workflow.id,
+      decided_at = NOW()
+    WHERE po.id = p_order_id
+    RETURNING * INTO v_order;
+
+    PERFORM dashboard.log_b2b_approval(v_order, 'auto_approved', NULL, NULL, NULL, NULL, v_workflow.name);
+    RETURN;
+  END IF;
+
+  UPDATE dashboard.b2b_purchase_orders AS po
+  SET
+    workflow_id = v_workflow.id,
+    approvers = v_workflow.approvers,
+    required_approvals = v_workflow.required_approvals,
+    approvals_count = 0,
+    current_step = 0
+  WHERE po.id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM dashboard.log_b2b_routing(v_order);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Drop functions whose signature or return type changes
+DROP FUNCTION IF EXISTS public.get_b2b_purchase_orders(UUID, UUID, TEXT, UUID);
+DROP FUNCTION IF EXISTS public.create_b2b_purchase_order(UUID, UUID, TEXT, NUMERIC, JSONB, TEXT);
+
+-- Get purchase orders by account_id (with routing state)
+-- p_approver_id returns the orders waiting for that approver
+CREATE FUNCTION public.get_b2b_purchase_orders(
+  p_account_id UUID,
+  p_buyer_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_approver_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  po_number TEXT,
+  buyer_id UUID,
+  amount NUMERIC,
+  status TEXT,
+  items JSONB,
+  workflow_id UUID,
+  workflow_name TEXT,
+  required_approvals INTEGER,
+  approvals_count INTEGER,
+  current_approver_id UUID,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    po.id,
+    po.account_id,
+    po.po_number,
+    po.buyer_id,
+    po.amount,
+    po.status,
+    po.items,
+    po.workflow_id,
+    w.name,
+    po.required_approvals,
+    po.approvals_count,
+    CASE WHEN po.status = 'pending_approval' THEN po.approvers[po.current_step + 1] END,
+    po.decided_at,
+    po.created_at,
+    po.updated_at
+  FROM dashboard.b2b_purchase_orders po
+  LEFT JOIN dashboard.b2b_approval_workflows w ON w.id = po.workflow_id
+  WHERE po.account_id = p_account_id
+    AND (p_buyer_id IS NULL OR po.buyer_id = p_buyer_id)
+    AND (p_status IS NULL OR po.status = p_status)
+    AND (p_order_id IS NULL OR po.id = p_order_id)
+    AND (
+      p_approver_id IS NULL
+      OR (po.status = 'pending_approval' AND po.approvers[po.current_step + 1] = p_approver_id)
+    )
+  ORDER BY po.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create purchase order
+-- p_po_number NULL generates the number from the account configuration (prefix + sequence).
+-- Orders created as pending_approval reserve their amount on the buyer's credit limit
+-- and are routed through the matching approval workflow.
+CREATE FUNCTION public.create_b2b_purchase_order(
+  p_account_id UUID,
+  p_buyer_id UUID,
+  p_po_number TEXT,
+  p_amount NUMERIC,
+  p_items JSONB,
+  p_status TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_user_email TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_po_number TEXT := p_po_number;
+  v_prefix TEXT;
+  v_auto_generate BOOLEAN;
+  v_number BIGINT;
+  v_reserved_at TIMESTAMPTZ;
+BEGIN
+  IF p_status NOT IN ('draft', 'pending_approval') THEN
+    RAISE EXCEPTION 'Purchase orders must be created as draft or pending_approval'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM dashboard.b2b_buyers b
+    WHERE b.id = p_buyer_id
+      AND b.account_id = p_account_id
+  ) THEN
+    RAISE EXCEPTION 'Buyer not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_po_number IS NULL THEN
+    INSERT INTO dashboard.b2b_purchase_order_settings (account_id, next_number)
+    VALUES (p_account_id, 2)
+    ON CONFLICT ON CONSTRAINT b2b_purchase_order_settings_pkey DO UPDATE SET
+      next_number = dashboard.b2b_purchase_order_settings.next_number + 1
+    RETURNING
+      dashboard.b2b_purchase_order_settings.prefix,
+      dashboard.b2b_purchase_order_settings.auto_generate,
+      dashboard.b2b_purchase_order_settings.next_number - 1
+    INTO v_prefix, v_auto_generate, v_number;
+
+    IF NOT v_auto_generate THEN
+      RAISE EXCEPTION 'PO number is required'
+        USING ERRCODE = 'not_null_violation';
+    END IF;
+
+    v_po_number := v_prefix || '-' || lpad(v_number::TEXT, 6, '0');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM dashboard.b2b_purchase_orders po
+    WHERE po.account_id = p_account_id
+      AND po.po_number = v_po_number
+  ) THEN
+    RAISE EXCEPTION 'A purchase order with this number already exists'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF p_status = 'pending_approval' THEN
+    PERFORM dashboard.reserve_b2b_credit(p_account_id, p_buyer_id, p_amount);
+    v_reserved_at := NOW();
+  END IF;
+
+  INSERT INTO dashboard.b2b_purchase_orders (
+    account_id,
+    po_number,
+    buyer_id,
+    amount,
+    status,
+    items,
+    credit_reserved_at
+  )
+  VALUES (
+    p_account_id,
+    v_po_number,
+    p_buyer_id,
+    p_amount,
+    p_status,
+    COALESCE(p_items, '[]'::jsonb),
+    v_reserved_at
+  )
+  RETURNING dashboard.b2b_purchase_orders.id INTO v_order_id;
+
+  IF p_status = 'pending_approval' THEN
+    PERFORM dashboard.route_b2b_purchase_order(v_order_id, p_user_id, p_user_email);
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Submit a draft purchase order for approval
+CREATE OR REPLACE FUNCTION public.submit_b2b_purchase_order(
+  p_account_id UUID,
+  p_order_id UUID,
+  p_user_id UUID,
+  p_user_email TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_order dashboard.b2b_purchase_orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM dashboard.b2b_purchase_orders po
+  WHERE po.id = p_order_id
+    AND po.account_id = p_account_id
+  FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft purchase orders can be submitted'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  PERFORM dashboard.reserve_b2b_credit(p_account_id, v_order.buyer_id, v_order.amount);
+
+  UPDATE dashboard.b2b_purchase_orders AS po
+  SET status = 'pending_approval', credit_reserved_at = NOW()
+  WHERE po.id = p_order_id;
+
+  PERFORM dashboard.route_b2b_purchase_order(p_order_id, p_user_id, p_user_email);
+
+  RETURN (SELECT po.status FROM dashboard.b2b_purchase_orders po WHERE po.id = p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Approve, reject or escalate a pending purchase order
+-- Only the approver of the current step (the B2B approver/admin whose email matches
+-- the dashboard user) can act. Rejections release the reserved credit.
+-- Escalation passes the order to the next approver without approving it, and is only
+-- allowed while enough approvers remain to reach the required approvals.
+CREATE OR REPLACE FUNCTION public.decide_b2b_purchase_order(
+  p_account_id UUID,
+  p_order_id UUID,
+  p_action TEXT,
+  p_user_id UUID,
+  p_user_email TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_order dashboard.b2b_purchase_orders;
+  v_approver_id UUID;
+BEGIN
+  IF p_action NOT IN ('approve', 'reject', 'escalate') THEN
+    RAISE EXCEPTION 'Unsupported approval action: %', p_action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM dashboard.b2b_purchase_orders po
+  WHERE po.id = p_order_id
+    AND po.account_id = p_account_id
+  FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_order.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'Purchase order is not pending approval'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  SELECT b.id INTO v_approver_id
+  FROM dashboard.b2b_buyers b
+  WHERE b.account_id = p_account_id
+    AND lower(b.email) = lower(p_user_email)
+    AND b.role IN ('approver', 'admin');
+
+  IF v_approver_id IS NULL OR v_approver_id IS DISTINCT FROM v_order.approvers[v_order.current_step + 1] THEN
+    RAISE EXCEPTION 'You are not the current approver of this purchase order'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_action = 'reject' THEN
+    IF v_order.credit_reserved_at IS NOT NULL THEN
+      PERFORM dashboard.release_b2b_credit(p_account_id, v_order.buyer_id, v_order.amount, v_order.credit_reserved_at);
+    END IF;
+
+    UPDATE dashboard.b2b_purchase_orders AS po
+    SET status = 'rejected', decided_at = NOW(), credit_reserved_at = NULL
+    WHERE po.id = p_order_id
+    RETURNING * INTO v_order;
+
+    PERFORM dashboard.log_b2b_approval(v_order, 'rejected', p_user_id, v_approver_id, p_user_email, p_comment);
+    RETURN v_order.status;
+  END IF;
+
+  IF p_action = 'escalate' THEN
+    IF cardinality(v_order.approvers) - (v_order.current_step + 1)
+      < v_order.required_approvals - v_order.approvals_count THEN
+      RAISE EXCEPTION 'No approver left to escalate to'
+        USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    PERFORM dashboard.log_b2b_approval(v_order, 'escalated', p_user_id, v_approver_id, p_user_email, p_comment);
+
+    UPDATE dashboard.b2b_purchase_orders AS po
+    SET current_step = po.current_step + 1
+    WHERE po.id = p_order_id
+    RETURNING * INTO v_order;
+
+    PERFORM dashboard.log_b2b_routing(v_order);
+    RETURN v_order.status;
+  END IF;
+
+  -- Approve
+  UPDATE dashboard.b2b_purchase_orders AS po
+  SET
+    approvals_count = po.approvals_count + 1,
+    status = CASE WHEN po.approvals_count + 1 >= po.required_approvals THEN 'approved' ELSE po.status END,
+    decided_at = CASE WHEN po.approvals_count + 1 >= po.required_approvals THEN NOW() ELSE NULL END
+  WHERE po.id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM dashboard.log_b2b_approval(v_order, 'approved', p_user_id, v_approver_id, p_user_email, p_comment);
+
+  IF v_order.status = 'pending_approval' THEN
+    UPDATE dashboard.b2b_purchase_orders AS po
+    SET current_step = po.current_step + 1
+    WHERE po.id = p_order_id
+    RETURNING * INTO v_order;
+
+    PERFORM dashboard.log_b2b_routing(v_order);
+  END IF;
+
+  RETURN v_order.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Get the B2B approver (approver or admin) matching a dashboard user's email
+CREATE OR REPLACE FUNCTION public.get_b2b_approver_by_email(
+  p_account_id UUID,
+  p_email TEXT
+)
+RETURNS UUID AS $$
+BEGIN
+  RETURN (
+    SELECT b.id
+    FROM dashboard.b2b_buyers b
+    WHERE b.account_id = p_account_id
+      AND lower(b.email) = lower(p_email)
+      AND b.role IN ('approver', 'admin')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Get the approval audit log of a purchase order (oldest first)
+CREATE OR REPLACE FUNCTION public.get_b2b_approval_audit_log(
+  p_account_id UUID,
+  p_order_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  purchase_order_id UUID,
+  po_number TEXT,
+  amount NUMERIC,
+  workflow_id UUID,
+  workflow_name TEXT,
+  action TEXT,
+  step INTEGER,
+  actor_user_id UUID,
+  actor_buyer_id UUID,
+  actor_email TEXT,
+  comment TEXT,
+  status_after TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.purchase_order_id,
+    a.po_number,
+    a.amount,
+    a.workflow_id,
+    a.workflow_name,
+    a.action,
+    a.step,
+    a.actor_user_id,
+    a.actor_buyer_id,
+    a.actor_email,
+    a.comment,
+    a.status_after,
+    a.created_at
+  FROM dashboard.b2b_approval_audit_log a
+  WHERE a.account_id = p_account_id
+    AND a.purchase_order_id = p_order_id
+  ORDER BY a.created_at, a.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_b2b_purchase_orders(UUID, UUID, TEXT, UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_b2b_purchase_order(UUID, UUID, TEXT, NUMERIC, JSONB, TEXT, UUID, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_b2b_purchase_order(UUID, UUID, UUID, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_b2b_purchase_order(UUID, UUID, TEXT, UUID, TEXT, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_b2b_approver_by_email(UUID, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_b2b_approval_audit_log(UUID, UUID) TO service_role, postgres, authenticated;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+COMMENT ON TABLE dashboard.b2b_approval_audit_log IS 'Append-only log of purchase order approval decisions';
+COMMENT ON COLUMN dashboard.b2b_approval_audit_log.actor_user_id IS 'Dashboard user who acted (NULL for system routing)';
+COMMENT ON COLUMN dashboard.b2b_approval_audit_log.actor_buyer_id IS 'B2B approver who acted, or the approver an order was routed to';
+COMMENT ON COLUMN dashboard.b2b_purchase_orders.current_step IS 'Zero-based index into approvers of the approver the order waits for';
+COMMENT ON FUNCTION public.decide_b2b_purchase_order IS 'Approve, reject or escalate a pending purchase order as its current approver';
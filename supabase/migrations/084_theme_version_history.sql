@@ -0,0 +1,331 @@
+-- ============================================================================
+-- Migration: Theme version history and rollback
+-- ============================================================================
+-- Problem: dashboard.theme_versions exists since 001 but nothing writes to it.
+--          Saving a theme overwrites its config in place, so a broken live
+--          checkout theme cannot be rolled back.
+-- Solution: Record a version (config, name, author, timestamp) every time a
+--           theme is created or its config changes, from a trigger on
+--           theme_configs so create, duplicate, update and restore are all
+--           covered. update_theme now records who saved the theme, and new
+--           functions list versions, load a version and restore it (the
+--           restore is itself recorded as a new version).
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA CHANGES
+-- ============================================================================
+
+-- Author of the latest change (created_by only records the creator)
+ALTER TABLE dashboard.theme_configs
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES dashboard.users(id) ON DELETE SET NULL;
+
+ALTER TABLE dashboard.theme_versions
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  ADD COLUMN IF NOT EXISTS restored_from_version INTEGER;
+
+-- created_by had no ON DELETE action and blocked removing users who saved a theme
+ALTER TABLE dashboard.theme_versions
+  DROP CONSTRAINT IF EXISTS theme_versions_created_by_fkey;
+
+ALTER TABLE dashboard.theme_versions
+  ADD CONSTRAINT theme_versions_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES dashboard.users(id) ON DELETE SET NULL;
+
+-- Versions are history: they are written by the trigger only
+DROP POLICY IF EXISTS "Editors+ can create theme versions" ON dashboard.theme_versions;
+DROP POLICY IF EXISTS "Editors+ can update theme versions" ON dashboard.theme_versions;
+
+CREATE POLICY "No direct theme version inserts"
+  ON dashboard.theme_versions
+  FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "No direct theme version updates"
+  ON dashboard.theme_versions
+  FOR UPDATE
+  USING (false);
+
+-- ============================================================================
+-- VERSION RECORDING
+-- ============================================================================
+
+-- Record a version when a theme is created or its config changes.
+-- Saves that leave the config untouched (rename only, activation) do not
+-- create a version. The UPDATE holds the theme row lock, so concurrent saves
+-- of the same theme get consecutive version numbers.
+CREATE OR REPLACE FUNCTION dashboard.record_theme_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.config IS NOT DISTINCT FROM OLD.config THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO dashboard.theme_versions (
+    theme_id, version_number, config, name, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(v.version_number), 0) + 1,
+    NEW.config,
+    NEW.name,
+    CASE WHEN TG_OP = 'INSERT' THEN NEW.created_by ELSE NEW.updated_by END
+  FROM dashboard.theme_versions v
+  WHERE v.theme_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = dashboard, public, pg_catalog;
+
+DROP TRIGGER IF EXISTS record_theme_version ON dashboard.theme_configs;
+
+CREATE TRIGGER record_theme_version
+  AFTER INSERT OR UPDATE OF config ON dashboard.theme_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.record_theme_version();
+
+-- Existing themes start their history at the current config
+INSERT INTO dashboard.theme_versions (theme_id, version_number, config, name, created_by, created_at)
+SELECT t.id, 1, t.config, t.name, t.created_by, COALESCE(t.updated_at, t.created_at, NOW())
+FROM dashboard.theme_configs t
+WHERE NOT EXISTS (
+  SELECT 1 FROM dashboard.theme_versions v WHERE v.theme_id = t.id
+);
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- update_theme gains p_updated_by (recorded as the author of the new version)
+DROP FUNCTION IF EXISTS public.update_theme(UUID, UUID, TEXT, JSONB, TEXT, VARCHAR);
+
+CREATE FUNCTION public.update_theme(
+  p_theme_id UUID,
+  p_account_id UUID,
+  p_name TEXT DEFAULT NULL,
+  p_config JSONB DEFAULT NULL,
+  p_preview_image_url TEXT DEFAULT NULL,
+  p_base_theme VARCHAR(50) DEFAULT NULL,
+  p_updated_by UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  is_active BOOLEAN,
+  config JSONB,
+  preview_image_url TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  created_by UUID,
+  is_default BOOLEAN,
+  base_theme VARCHAR(50),
+  is_readonly BOOLEAN
+) AS $$
+BEGIN
+  -- Prevent updating readonly themes
+  IF EXISTS (
+    SELECT 1 FROM dashboard.theme_configs
+    WHERE dashboard.theme_configs.id = p_theme_id
+      AND dashboard.theme_configs.account_id = p_account_id
+      AND dashboard.theme_configs.is_readonly = true
+  ) THEN
+    RAISE EXCEPTION 'Cannot update readonly theme';
+  END IF;
+
+  UPDATE dashboard.theme_configs
+  SET
+    name = COALESCE(p_name, dashboard.theme_configs.name),
+    config = COALESCE(p_config, dashboard.theme_configs.config),
+    preview_image_url = COALESCE(p_preview_image_url, dashboard.theme_configs.preview_image_url),
+    base_theme = COALESCE(p_base_theme, dashboard.theme_configs.base_theme),
+    updated_by = COALESCE(p_updated_by, dashboard.theme_configs.updated_by),
+    updated_at = NOW()
+  WHERE dashboard.theme_configs.id = p_theme_id
+    AND dashboard.theme_configs.account_id = p_account_id
+    AND dashboard.theme_configs.is_readonly = false;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.account_id,
+    t.name,
+    t.is_active,
+    t.config,
+    t.preview_image_url,
+    t.created_at,
+    t.updated_at,
+    t.created_by,
+    t.is_default,
+    t.base_theme,
+    t.is_readonly
+  FROM dashboard.theme_configs t
+  WHERE t.id = p_theme_id
+    AND t.account_id = p_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- List the versions of a theme (newest first, without configs)
+CREATE OR REPLACE FUNCTION public.get_theme_versions(
+  p_theme_id UUID,
+  p_account_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  theme_id UUID,
+  version_number INTEGER,
+  name TEXT,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  author_email TEXT,
+  author_name TEXT,
+  restored_from_version INTEGER
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM dashboard.theme_configs t
+    WHERE t.id = p_theme_id AND t.account_id = p_account_id
+  ) THEN
+    RAISE EXCEPTION 'Theme not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.theme_id,
+    v.version_number,
+    v.name,
+    v.created_at,
+    v.created_by,
+    u.email::TEXT,
+    u.name::TEXT,
+    v.restored_from_version
+  FROM dashboard.theme_versions v
+  LEFT JOIN dashboard.users u ON u.id = v.created_by
+  WHERE v.theme_id = p_theme_id
+  ORDER BY v.version_number DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Load versions of a theme with their configs (used for diffs)
+CREATE OR REPLACE FUNCTION public.get_theme_version_configs(
+  p_theme_id UUID,
+  p_account_id UUID,
+  p_version_numbers INTEGER[]
+)
+RETURNS TABLE (
+  version_number INTEGER,
+  name TEXT,
+  config JSONB,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM dashboard.theme_configs t
+    WHERE t.id = p_theme_id AND t.account_id = p_account_id
+  ) THEN
+    RAISE EXCEPTION 'Theme not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN QUERY
+  SELECT v.version_number, v.name, v.config, v.created_at
+  FROM dashboard.theme_versions v
+  WHERE v.theme_id = p_theme_id
+    AND v.version_number = ANY(p_version_numbers)
+  ORDER BY v.version_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Restore a previous version as the current config of the theme.
+-- The restore is recorded as a new version pointing at the restored one.
+CREATE OR REPLACE FUNCTION public.restore_theme_version(
+  p_theme_id UUID,
+  p_account_id UUID,
+  p_version_number INTEGER,
+  p_updated_by UUID
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  is_active BOOLEAN,
+  config JSONB,
+  preview_image_url TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  created_by UUID,
+  is_default BOOLEAN,
+  base_theme VARCHAR(50),
+  is_readonly BOOLEAN
+) AS $$
+DECLARE
+  v_theme dashboard.theme_configs%ROWTYPE;
+  v_version dashboard.theme_versions%ROWTYPE;
+  v_latest INTEGER;
+BEGIN
+  SELECT * INTO v_theme
+  FROM dashboard.theme_configs t
+  WHERE t.id = p_theme_id AND t.account_id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Theme not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_theme.is_readonly THEN
+    RAISE EXCEPTION 'Cannot update readonly theme' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_version
+  FROM dashboard.theme_versions v
+  WHERE v.theme_id = p_theme_id AND v.version_number = p_version_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Theme version not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT MAX(v.version_number) INTO v_latest
+  FROM dashboard.theme_versions v
+  WHERE v.theme_id = p_theme_id;
+
+  UPDATE dashboard.theme_configs t
+  SET
+    config = v_version.config,
+    name = COALESCE(v_version.name, t.name),
+    updated_by = p_updated_by,
+    updated_at = NOW()
+  WHERE t.id = p_theme_id;
+
+  -- Mark the version the trigger just recorded (none when the config was already identical)
+  UPDATE dashboard.theme_versions v
+  SET restored_from_version = p_version_number
+  WHERE v.theme_id = p_theme_id
+    AND v.version_number > v_latest;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.account_id,
+    t.name,
+    t.is_active,
+    t.config,
+    t.preview_image_url,
+    t.created_at,
+    t.updated_at,
+    t.created_by,
+    t.is_default,
+    t.base_theme,
+    t.is_readonly
+  FROM dashboard.theme_configs t
+  WHERE t.id = p_theme_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.update_theme(UUID, UUID, TEXT, JSONB, TEXT, VARCHAR, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_theme_versions(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_theme_version_configs(UUID, UUID, INTEGER[]) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_theme_version(UUID, UUID, INTEGER, UUID) TO service_role, postgres, authenticated;
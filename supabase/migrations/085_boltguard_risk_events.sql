@@ -0,0 +1,387 @@
+-- ============================================================================
+-- Migration: BoltGuard risk event store
+-- ============================================================================
+-- Problem: The security dashboard (GET /api/dashboard/security) returns
+--          hand-written mock data. BoltGuard signals emitted by the checkout
+--          (risk assessments, velocity violations, anomalies, validation
+--          failures, confirmed fraud) land in analytics.events as untyped
+--          metadata and nothing aggregates them.
+-- Solution: Store every BoltGuard signal as a typed row in
+--           analytics.risk_events, captured by a trigger on analytics.events
+--           so the existing ingestion endpoint feeds it without changes.
+--           Public functions summarize the store for a period (metrics, risk
+--           distribution, trend buckets) and list recent alerts.
+--
+-- Checkout event contract (event_type -> metadata):
+--   boltguard_risk_assessed      { transactionId, riskScore (0-100),
+--                                  decision: allow|review|challenge|block,
+--                                  scaRequired, amount, currency, reasons[] }
+--   boltguard_velocity_violation { transactionId?, rule, count, windowMinutes }
+--   boltguard_anomaly_detected   { transactionId?, field, description, riskScore? }
+--   boltguard_validation_failed  { transactionId?, field, code }
+--   boltguard_fraud_confirmed    { transactionId, source }
+-- Any of them may set `severity` (low|medium|high|critical) to override the
+-- default severity of its kind.
+-- ============================================================================
+
+-- ============================================================================
+-- RISK LEVELS
+-- ============================================================================
+
+-- Risk level of a 0-100 score
+CREATE OR REPLACE FUNCTION analytics.boltguard_risk_level(p_score NUMERIC)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_score IS NULL THEN NULL
+    WHEN p_score >= 85 THEN 'critical'
+    WHEN p_score >= 60 THEN 'high'
+    WHEN p_score >= 30 THEN 'medium'
+    ELSE 'low'
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- RISK EVENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analytics.risk_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  -- analytics.events row the signal was captured from (no FK: events are pruned)
+  source_event_id UUID UNIQUE,
+  session_id TEXT NOT NULL,
+  order_form_id TEXT,
+  transaction_id TEXT,
+  kind TEXT NOT NULL,
+  risk_score NUMERIC(5, 2),
+  risk_level TEXT GENERATED ALWAYS AS (analytics.boltguard_risk_level(risk_score)) STORED,
+  severity TEXT NOT NULL,
+  decision TEXT,
+  sca_required BOOLEAN NOT NULL DEFAULT FALSE,
+  amount NUMERIC(12, 2),
+  details JSONB NOT NULL DEFAULT '{}'::JSONB,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_risk_event_kind CHECK (
+    kind IN ('assessment', 'velocity_violation', 'anomaly', 'validation_error', 'fraud')
+  ),
+  CONSTRAINT check_risk_event_score CHECK (risk_score IS NULL OR risk_score BETWEEN 0 AND 100),
+  CONSTRAINT check_risk_event_severity CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  CONSTRAINT check_risk_event_decision CHECK (
+    decision IS NULL OR decision IN ('allow', 'review', 'challenge', 'block')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_events_customer_time
+  ON analytics.risk_events (customer_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_events_customer_kind_time
+  ON analytics.risk_events (customer_id, kind, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_events_transaction
+  ON analytics.risk_events (customer_id, transaction_id) WHERE transaction_id IS NOT NULL;
+
+ALTER TABLE analytics.risk_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers can view their risk events" ON analytics.risk_events;
+
+CREATE POLICY "Customers can view their risk events"
+  ON analytics.risk_events
+  FOR SELECT
+  USING (
+    customer_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- ============================================================================
+-- CAPTURE FROM THE CHECKOUT EVENT STREAM
+-- ============================================================================
+
+-- Build a risk event from a boltguard_* analytics event.
+-- Metadata comes from the browser: values of the wrong type are dropped
+-- instead of raised, so a malformed signal never fails the event insert.
+-- Returns NULL for events that are not BoltGuard signals.
+CREATE OR REPLACE FUNCTION analytics.to_risk_event(p_event analytics.events)
+RETURNS analytics.risk_events AS $$
+DECLARE
+  v_metadata JSONB := COALESCE(p_event.metadata, '{}'::JSONB);
+  v_row analytics.risk_events;
+  v_score NUMERIC;
+BEGIN
+  v_row.kind := CASE p_event.event_type
+    WHEN 'boltguard_risk_assessed' THEN 'assessment'
+    WHEN 'boltguard_velocity_violation' THEN 'velocity_violation'
+    WHEN 'boltguard_anomaly_detected' THEN 'anomaly'
+    WHEN 'boltguard_validation_failed' THEN 'validation_error'
+    WHEN 'boltguard_fraud_confirmed' THEN 'fraud'
+  END;
+
+  IF v_row.kind IS NULL OR p_event.customer_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF jsonb_typeof(v_metadata -> 'riskScore') = 'number' THEN
+    v_score := LEAST(GREATEST((v_metadata ->> 'riskScore')::NUMERIC, 0), 100);
+  END IF;
+
+  v_row.id := gen_random_uuid();
+  v_row.customer_id := p_event.customer_id;
+  v_row.source_event_id := p_event.id;
+  v_row.session_id := p_event.session_id;
+  v_row.order_form_id := p_event.order_form_id;
+  v_row.transaction_id := NULLIF(v_metadata ->> 'transactionId', '');
+  v_row.risk_score := v_score;
+  v_row.decision := CASE
+    WHEN v_metadata ->> 'decision' IN ('allow', 'review', 'challenge', 'block')
+      THEN v_metadata ->> 'decision'
+  END;
+  v_row.sca_required := jsonb_typeof(v_metadata -> 'scaRequired') = 'boolean'
+    AND (v_metadata ->> 'scaRequired')::BOOLEAN;
+  v_row.amount := CASE
+    WHEN jsonb_typeof(v_metadata -> 'amount') = 'number' THEN (v_metadata ->> 'amount')::NUMERIC
+  END;
+  v_row.severity := CASE
+    WHEN v_metadata ->> 'severity' IN ('low', 'medium', 'high', 'critical')
+      THEN v_metadata ->> 'severity'
+    WHEN v_row.kind = 'assessment' THEN
+      CASE
+        WHEN v_row.decision = 'block' THEN
+          CASE WHEN v_score >= 85 THEN 'critical' ELSE 'high' END
+        ELSE COALESCE(analytics.boltguard_risk_level(v_score), 'low')
+      END
+    WHEN v_row.kind = 'fraud' THEN 'critical'
+    WHEN v_row.kind = 'velocity_violation' THEN 'high'
+    WHEN v_row.kind = 'anomaly' THEN 'medium'
+    ELSE 'low'
+  END;
+  v_row.details := v_metadata - ARRAY[
+    'transactionId', 'riskScore', 'decision', 'scaRequired', 'amount', 'severity'
+  ];
+  v_row.occurred_at := p_event.timestamp;
+  v_row.created_at := NOW();
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION analytics.capture_risk_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_risk_event analytics.risk_events;
+BEGIN
+  v_risk_event := analytics.to_risk_event(NEW);
+
+  IF v_risk_event.kind IS NOT NULL THEN
+    INSERT INTO analytics.risk_events (
+      id, customer_id, source_event_id, session_id, order_form_id, transaction_id,
+      kind, risk_score, severity, decision, sca_required, amount, details, occurred_at
+    )
+    VALUES (
+      v_risk_event.id, v_risk_event.customer_id, v_risk_event.source_event_id,
+      v_risk_event.session_id, v_risk_event.order_form_id, v_risk_event.transaction_id,
+      v_risk_event.kind, v_risk_event.risk_score, v_risk_event.severity,
+      v_risk_event.decision, v_risk_event.sca_required, v_risk_event.amount,
+      v_risk_event.details, v_risk_event.occurred_at
+    )
+    ON CONFLICT (source_event_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = analytics, public, pg_catalog;
+
+DROP TRIGGER IF EXISTS capture_risk_event ON analytics.events;
+
+-- The WHEN clause keeps the trigger function off the hot path of regular events
+CREATE TRIGGER capture_risk_event
+  AFTER INSERT ON analytics.events
+  FOR EACH ROW
+  WHEN (NEW.event_type LIKE 'boltguard\_%')
+  EXECUTE FUNCTION analytics.capture_risk_event();
+
+-- Signals already ingested before the trigger existed
+INSERT INTO analytics.risk_events (
+  id, customer_id, source_event_id, session_id, order_form_id, transaction_id,
+  kind, risk_score, severity, decision, sca_required, amount, details, occurred_at
+)
+SELECT
+  r.id, r.customer_id, r.source_event_id, r.session_id, r.order_form_id, r.transaction_id,
+  r.kind, r.risk_score, r.severity, r.decision, r.sca_required, r.amount, r.details, r.occurred_at
+FROM analytics.events e
+CROSS JOIN LATERAL analytics.to_risk_event(e) r
+WHERE e.event_type LIKE 'boltguard\_%'
+  AND r.kind IS NOT NULL
+ON CONFLICT (source_event_id) DO NOTHING;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Security metrics and risk distribution for a period.
+-- A transaction assessed more than once counts with its latest assessment;
+-- assessments without a transaction id count individually.
+CREATE OR REPLACE FUNCTION public.get_boltguard_security_summary(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_transactions BIGINT,
+  high_risk_transactions BIGINT,
+  blocked_transactions BIGINT,
+  fraud_detected BIGINT,
+  avg_risk_score NUMERIC,
+  validation_errors BIGINT,
+  sca_required BIGINT,
+  anomalies_detected BIGINT,
+  velocity_violations BIGINT,
+  risk_low BIGINT,
+  risk_medium BIGINT,
+  risk_high BIGINT,
+  risk_critical BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH period_events AS (
+    SELECT r.*
+    FROM analytics.risk_events r
+    WHERE r.customer_id = p_customer_id
+      AND r.occurred_at >= p_start_date
+      AND r.occurred_at <= p_end_date
+  ),
+  assessments AS (
+    SELECT DISTINCT ON (COALESCE(pe.transaction_id, pe.id::TEXT)) pe.*
+    FROM period_events pe
+    WHERE pe.kind = 'assessment'
+    ORDER BY COALESCE(pe.transaction_id, pe.id::TEXT), pe.occurred_at DESC
+  ),
+  signals AS (
+    SELECT
+      COUNT(DISTINCT COALESCE(pe.transaction_id, pe.id::TEXT))
+        FILTER (WHERE pe.kind = 'fraud') AS fraud_detected,
+      COUNT(*) FILTER (WHERE pe.kind = 'validation_error') AS validation_errors,
+      COUNT(*) FILTER (WHERE pe.kind = 'anomaly') AS anomalies_detected,
+      COUNT(*) FILTER (WHERE pe.kind = 'velocity_violation') AS velocity_violations
+    FROM period_events pe
+  )
+  SELECT
+    COUNT(a.id),
+    COUNT(a.id) FILTER (WHERE a.risk_level IN ('high', 'critical')),
+    COUNT(a.id) FILTER (WHERE a.decision = 'block'),
+    MAX(s.fraud_detected),
+    COALESCE(ROUND(AVG(a.risk_score), 1), 0),
+    MAX(s.validation_errors),
+    COUNT(a.id) FILTER (WHERE a.sca_required),
+    MAX(s.anomalies_detected),
+    MAX(s.velocity_violations),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'low'),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'medium'),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'high'),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'critical')
+  FROM signals s
+  LEFT JOIN assessments a ON TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Assessed, high risk and blocked transactions per bucket ('hour' or 'day').
+-- Every bucket of the period is returned, empty ones with zeros.
+CREATE OR REPLACE FUNCTION public.get_boltguard_risk_trend(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_bucket TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket TIMESTAMPTZ,
+  transactions BIGINT,
+  high_risk BIGINT,
+  blocked BIGINT
+) AS $$
+BEGIN
+  IF p_bucket NOT IN ('hour', 'day') THEN
+    RAISE EXCEPTION 'Unsupported bucket: %', p_bucket
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_start_date),
+      date_trunc(p_bucket, p_end_date),
+      ('1 ' || p_bucket)::INTERVAL
+    ) AS bucket
+  ),
+  assessments AS (
+    SELECT DISTINCT ON (COALESCE(r.transaction_id, r.id::TEXT))
+      r.id, r.risk_level, r.decision, r.occurred_at
+    FROM analytics.risk_events r
+    WHERE r.customer_id = p_customer_id
+      AND r.kind = 'assessment'
+      AND r.occurred_at >= p_start_date
+      AND r.occurred_at <= p_end_date
+    ORDER BY COALESCE(r.transaction_id, r.id::TEXT), r.occurred_at DESC
+  )
+  SELECT
+    b.bucket,
+    COUNT(a.id),
+    COUNT(a.id) FILTER (WHERE a.risk_level IN ('high', 'critical')),
+    COUNT(a.id) FILTER (WHERE a.decision = 'block')
+  FROM buckets b
+  LEFT JOIN assessments a ON date_trunc(p_bucket, a.occurred_at) = b.bucket
+  GROUP BY b.bucket
+  ORDER BY b.bucket;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Most recent signals worth an alert in a period: velocity violations,
+-- anomalies, confirmed fraud and any high/critical signal
+CREATE OR REPLACE FUNCTION public.get_boltguard_recent_alerts(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  kind TEXT,
+  severity TEXT,
+  risk_score NUMERIC,
+  decision TEXT,
+  transaction_id TEXT,
+  session_id TEXT,
+  details JSONB,
+  occurred_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.kind,
+    r.severity,
+    r.risk_score,
+    r.decision,
+    r.transaction_id,
+    r.session_id,
+    r.details,
+    r.occurred_at
+  FROM analytics.risk_events r
+  WHERE r.customer_id = p_customer_id
+    AND r.occurred_at >= p_start_date
+    AND r.occurred_at <= p_end_date
+    AND (
+      r.kind IN ('velocity_violation', 'anomaly', 'fraud')
+      OR r.severity IN ('high', 'critical')
+    )
+  ORDER BY r.occurred_at DESC, r.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON analytics.risk_events TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_boltguard_security_summary(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_boltguard_risk_trend(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_boltguard_recent_alerts(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role, postgres, authenticated;
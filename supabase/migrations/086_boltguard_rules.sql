@@ -0,0 +1,490 @@
+-- ============================================================================
+-- Migration: BoltGuard rules
+-- ============================================================================
+-- Problem: BoltGuard only reports the risk signals computed by the checkout.
+--          Merchants cannot define their own limits (velocity per card, email
+--          or IP, unusual amounts, billing/shipping country mismatch).
+-- Solution: Store merchant rules in dashboard.boltguard_rules. Rules are
+--           evaluated by the API (src/lib/boltguard/rules.ts) against the
+--           ingested risk assessments; each hit is recorded as a risk event
+--           linked to the rule and the assessment, so it shows up in the
+--           security alerts. Rule actions count in the security summary:
+--           'block' as a blocked transaction, 'require_sca' as SCA required.
+--
+-- Assessment metadata read by the rules (boltguard_risk_assessed, see 085):
+--   email, ip, cardFingerprint, billingCountry, shippingCountry (ISO 3166-1
+--   alpha-2), amount
+-- ============================================================================
+
+-- ============================================================================
+-- RULES TABLE
+-- ============================================================================
+
+-- config per rule_type:
+--   velocity:       { key: card|email|ip, maxTransactions, windowMinutes }
+--   amount_anomaly: { zScoreThreshold, lookbackDays, minSamples }
+--   geo_mismatch:   { exemptCountries: TEXT[] }
+CREATE TABLE IF NOT EXISTS dashboard.boltguard_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}'::JSONB,
+  severity TEXT NOT NULL DEFAULT 'medium',
+  action TEXT NOT NULL DEFAULT 'flag',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES dashboard.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT boltguard_rules_name_not_empty CHECK (length(name) > 0),
+  CONSTRAINT boltguard_rules_type CHECK (rule_type IN ('velocity', 'amount_anomaly', 'geo_mismatch')),
+  CONSTRAINT boltguard_rules_severity CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  CONSTRAINT boltguard_rules_action CHECK (action IN ('flag', 'require_sca', 'block'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_boltguard_rules_account_id
+  ON dashboard.boltguard_rules (account_id);
+
+ALTER TABLE dashboard.boltguard_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view account BoltGuard rules" ON dashboard.boltguard_rules;
+
+CREATE POLICY "Users can view account BoltGuard rules"
+  ON dashboard.boltguard_rules
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- ============================================================================
+-- RULE HITS
+-- ============================================================================
+
+-- A rule hit is a risk event with the rule and the assessment it was found on
+ALTER TABLE analytics.risk_events
+  ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES dashboard.boltguard_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assessment_id UUID REFERENCES analytics.risk_events(id) ON DELETE CASCADE;
+
+ALTER TABLE analytics.risk_events
+  DROP CONSTRAINT IF EXISTS check_risk_event_kind;
+
+ALTER TABLE analytics.risk_events
+  ADD CONSTRAINT check_risk_event_kind CHECK (
+    kind IN ('assessment', 'velocity_violation', 'anomaly', 'geo_mismatch', 'validation_error', 'fraud')
+  );
+
+-- Evaluating the same assessment again does not duplicate hits
+CREATE UNIQUE INDEX IF NOT EXISTS idx_risk_events_rule_assessment
+  ON analytics.risk_events (rule_id, assessment_id)
+  WHERE rule_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_risk_events_assessment
+  ON analytics.risk_events (assessment_id)
+  WHERE assessment_id IS NOT NULL;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: RULES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_boltguard_rules(
+  p_account_id UUID,
+  p_rule_id UUID DEFAULT NULL,
+  p_enabled_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  rule_type TEXT,
+  config JSONB,
+  severity TEXT,
+  action TEXT,
+  enabled BOOLEAN,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.account_id,
+    r.name,
+    r.rule_type,
+    r.config,
+    r.severity,
+    r.action,
+    r.enabled,
+    r.created_at,
+    r.updated_at
+  FROM dashboard.boltguard_rules r
+  WHERE r.account_id = p_account_id
+    AND (p_rule_id IS NULL OR r.id = p_rule_id)
+    AND (NOT p_enabled_only OR r.enabled)
+  ORDER BY r.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.create_boltguard_rule(
+  p_account_id UUID,
+  p_name TEXT,
+  p_rule_type TEXT,
+  p_config JSONB,
+  p_severity TEXT,
+  p_action TEXT,
+  p_enabled BOOLEAN DEFAULT TRUE,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_rule_id UUID;
+BEGIN
+  INSERT INTO dashboard.boltguard_rules (
+    account_id, name, rule_type, config, severity, action, enabled, created_by
+  )
+  VALUES (
+    p_account_id, p_name, p_rule_type, COALESCE(p_config, '{}'::JSONB),
+    p_severity, p_action, COALESCE(p_enabled, TRUE), p_created_by
+  )
+  RETURNING id INTO v_rule_id;
+
+  RETURN v_rule_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- The rule type cannot change: hits recorded for the rule keep their meaning
+CREATE OR REPLACE FUNCTION public.update_boltguard_rule(
+  p_account_id UUID,
+  p_rule_id UUID,
+  p_name TEXT,
+  p_config JSONB,
+  p_severity TEXT,
+  p_action TEXT,
+  p_enabled BOOLEAN
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE dashboard.boltguard_rules AS r
+  SET
+    name = p_name,
+    config = COALESCE(p_config, '{}'::JSONB),
+    severity = p_severity,
+    action = p_action,
+    enabled = p_enabled,
+    updated_at = NOW()
+  WHERE r.id = p_rule_id
+    AND r.account_id = p_account_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Hits of a deleted rule stay in the alert history (rule_id is set to NULL)
+CREATE OR REPLACE FUNCTION public.delete_boltguard_rule(
+  p_account_id UUID,
+  p_rule_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.boltguard_rules AS r
+  WHERE r.id = p_rule_id
+    AND r.account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: EVALUATION
+-- ============================================================================
+
+-- Risk assessments of a period, the input of rule evaluation.
+-- Returns the most recent p_limit assessments.
+CREATE OR REPLACE FUNCTION public.get_boltguard_transactions(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 20000
+)
+RETURNS TABLE (
+  id UUID,
+  source_event_id UUID,
+  transaction_id TEXT,
+  session_id TEXT,
+  amount NUMERIC,
+  details JSONB,
+  occurred_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.source_event_id,
+    r.transaction_id,
+    r.session_id,
+    r.amount,
+    r.details,
+    r.occurred_at
+  FROM analytics.risk_events r
+  WHERE r.customer_id = p_customer_id
+    AND r.kind = 'assessment'
+    AND r.occurred_at >= p_start_date
+    AND r.occurred_at <= p_end_date
+  ORDER BY r.occurred_at DESC, r.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20000), 1), 50000);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Record rule hits
+-- p_hits: [{ ruleId, assessmentId, kind, severity, action, details }]
+-- Hits for rules or assessments of another customer are ignored.
+-- Returns the number of hits recorded (already recorded hits are skipped).
+CREATE OR REPLACE FUNCTION public.record_boltguard_rule_hits(
+  p_customer_id UUID,
+  p_hits JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_recorded INTEGER;
+BEGIN
+  INSERT INTO analytics.risk_events (
+    customer_id, rule_id, assessment_id, session_id, order_form_id, transaction_id,
+    kind, severity, decision, sca_required, amount, details, occurred_at
+  )
+  SELECT
+    p_customer_id,
+    rule.id,
+    assessment.id,
+    assessment.session_id,
+    assessment.order_form_id,
+    assessment.transaction_id,
+    hit ->> 'kind',
+    rule.severity,
+    CASE rule.action
+      WHEN 'block' THEN 'block'
+      WHEN 'require_sca' THEN 'challenge'
+      ELSE 'review'
+    END,
+    rule.action = 'require_sca',
+    assessment.amount,
+    COALESCE(hit -> 'details', '{}'::JSONB)
+      || jsonb_build_object('ruleName', rule.name, 'ruleType', rule.rule_type, 'action', rule.action),
+    assessment.occurred_at
+  FROM jsonb_array_elements(COALESCE(p_hits, '[]'::JSONB)) AS hit
+  JOIN dashboard.boltguard_rules rule
+    ON rule.id = (hit ->> 'ruleId')::UUID
+   AND rule.account_id = p_customer_id
+  JOIN analytics.risk_events assessment
+    ON assessment.id = (hit ->> 'assessmentId')::UUID
+   AND assessment.customer_id = p_customer_id
+   AND assessment.kind = 'assessment'
+  ON CONFLICT (rule_id, assessment_id) WHERE rule_id IS NOT NULL DO NOTHING;
+
+  GET DIAGNOSTICS v_recorded = ROW_COUNT;
+  RETURN v_recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: SUMMARY (rule actions)
+-- ============================================================================
+
+-- Same as 085, with rule hits counted on their assessment: a 'block' hit makes
+-- the transaction blocked, a 'require_sca' hit makes it require SCA
+CREATE OR REPLACE FUNCTION public.get_boltguard_security_summary(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_transactions BIGINT,
+  high_risk_transactions BIGINT,
+  blocked_transactions BIGINT,
+  fraud_detected BIGINT,
+  avg_risk_score NUMERIC,
+  validation_errors BIGINT,
+  sca_required BIGINT,
+  anomalies_detected BIGINT,
+  velocity_violations BIGINT,
+  risk_low BIGINT,
+  risk_medium BIGINT,
+  risk_high BIGINT,
+  risk_critical BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH period_events AS (
+    SELECT r.*
+    FROM analytics.risk_events r
+    WHERE r.customer_id = p_customer_id
+      AND r.occurred_at >= p_start_date
+      AND r.occurred_at <= p_end_date
+  ),
+  latest_assessments AS (
+    SELECT DISTINCT ON (COALESCE(pe.transaction_id, pe.id::TEXT)) pe.*
+    FROM period_events pe
+    WHERE pe.kind = 'assessment'
+    ORDER BY COALESCE(pe.transaction_id, pe.id::TEXT), pe.occurred_at DESC
+  ),
+  assessments AS (
+    SELECT
+      la.id,
+      la.risk_score,
+      la.risk_level,
+      la.decision = 'block' OR EXISTS (
+        SELECT 1 FROM period_events h
+        WHERE h.assessment_id = la.id AND h.decision = 'block'
+      ) AS is_blocked,
+      la.sca_required OR EXISTS (
+        SELECT 1 FROM period_events h
+        WHERE h.assessment_id = la.id AND h.sca_required
+      ) AS needs_sca
+    FROM latest_assessments la
+  ),
+  signals AS (
+    SELECT
+      COUNT(DISTINCT COALESCE(pe.transaction_id, pe.id::TEXT))
+        FILTER (WHERE pe.kind = 'fraud') AS fraud_detected,
+      COUNT(*) FILTER (WHERE pe.kind = 'validation_error') AS validation_errors,
+      COUNT(*) FILTER (WHERE pe.kind = 'anomaly') AS anomalies_detected,
+      COUNT(*) FILTER (WHERE pe.kind = 'velocity_violation') AS velocity_violations
+    FROM period_events pe
+  )
+  SELECT
+    COUNT(a.id),
+    COUNT(a.id) FILTER (WHERE a.risk_level IN ('high', 'critical')),
+    COUNT(a.id) FILTER (WHERE a.is_blocked),
+    MAX(s.fraud_detected),
+    COALESCE(ROUND(AVG(a.risk_score), 1), 0),
+    MAX(s.validation_errors),
+    COUNT(a.id) FILTER (WHERE a.needs_sca),
+    MAX(s.anomalies_detected),
+    MAX(s.velocity_violations),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'low'),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'medium'),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'high'),
+    COUNT(a.id) FILTER (WHERE a.risk_level = 'critical')
+  FROM signals s
+  LEFT JOIN assessments a ON TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.get_boltguard_risk_trend(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_bucket TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket TIMESTAMPTZ,
+  transactions BIGINT,
+  high_risk BIGINT,
+  blocked BIGINT
+) AS $$
+BEGIN
+  IF p_bucket NOT IN ('hour', 'day') THEN
+    RAISE EXCEPTION 'Unsupported bucket: %', p_bucket
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_start_date),
+      date_trunc(p_bucket, p_end_date),
+      ('1 ' || p_bucket)::INTERVAL
+    ) AS bucket
+  ),
+  assessments AS (
+    SELECT DISTINCT ON (COALESCE(r.transaction_id, r.id::TEXT))
+      r.id, r.risk_level, r.decision, r.occurred_at
+    FROM analytics.risk_events r
+    WHERE r.customer_id = p_customer_id
+      AND r.kind = 'assessment'
+      AND r.occurred_at >= p_start_date
+      AND r.occurred_at <= p_end_date
+    ORDER BY COALESCE(r.transaction_id, r.id::TEXT), r.occurred_at DESC
+  )
+  SELECT
+    b.bucket,
+    COUNT(a.id),
+    COUNT(a.id) FILTER (WHERE a.risk_level IN ('high', 'critical')),
+    COUNT(a.id) FILTER (
+      WHERE a.decision = 'block' OR EXISTS (
+        SELECT 1 FROM analytics.risk_events h
+        WHERE h.assessment_id = a.id AND h.decision = 'block'
+      )
+    )
+  FROM buckets b
+  LEFT JOIN assessments a ON date_trunc(p_bucket, a.occurred_at) = b.bucket
+  GROUP BY b.bucket
+  ORDER BY b.bucket;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Same as 085, with every rule hit listed as an alert
+CREATE OR REPLACE FUNCTION public.get_boltguard_recent_alerts(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  kind TEXT,
+  severity TEXT,
+  risk_score NUMERIC,
+  decision TEXT,
+  transaction_id TEXT,
+  session_id TEXT,
+  details JSONB,
+  occurred_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.kind,
+    r.severity,
+    r.risk_score,
+    r.decision,
+    r.transaction_id,
+    r.session_id,
+    r.details,
+    r.occurred_at
+  FROM analytics.risk_events r
+  WHERE r.customer_id = p_customer_id
+    AND r.occurred_at >= p_start_date
+    AND r.occurred_at <= p_end_date
+    AND (
+      r.kind IN ('velocity_violation', 'anomaly', 'geo_mismatch', 'fraud')
+      OR r.rule_id IS NOT NULL
+      OR r.severity IN ('high', 'critical')
+    )
+  ORDER BY r.occurred_at DESC, r.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_boltguard_rules(UUID, UUID, BOOLEAN) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_boltguard_rule(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, BOOLEAN, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_boltguard_rule(UUID, UUID, TEXT, JSONB, TEXT, TEXT, BOOLEAN) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_boltguard_rule(UUID, UUID) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_boltguard_transactions(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_boltguard_rule_hits(UUID, JSONB) TO service_role, postgres, authenticated;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+COMMENT ON TABLE dashboard.boltguard_rules IS 'Merchant-defined BoltGuard rules (velocity, amount anomaly, geo mismatch)';
+COMMENT ON COLUMN analytics.risk_events.rule_id IS 'Rule that produced this event (NULL for checkout signals or deleted rules)';
+COMMENT ON COLUMN analytics.risk_events.assessment_id IS 'Risk assessment a rule hit was found on';
@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Migration: Exchange rates
+-- ============================================================================
+-- Problem: Plan prices are converted with hard-coded exchange rates
+--          (1 USD = 5.0 BRL), so LatAm customers are charged the wrong amount
+--          whenever the real rate drifts. Transactions only store the final
+--          amount, so an invoice cannot be reproduced from the rate that was
+--          used to compute it.
+-- Solution: Store the rates fetched from the exchange-rate provider in
+--           dashboard.exchange_rates (one row per currency and fetch, kept as
+--           history). The API (src/lib/payments/exchange-rates.ts) reuses the
+--           latest rates until they are older than EXCHANGE_RATE_TTL_MINUTES.
+--           Each subscription transaction records the base amount, the rate,
+--           the provider and the fetch timestamp of its conversion.
+--
+-- Rates are stored as "1 <base_currency> = <rate> <currency>".
+-- ============================================================================
+
+-- ============================================================================
+-- EXCHANGE RATES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  rate NUMERIC(20, 10) NOT NULL,
+  provider TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT exchange_rates_base_currency_format CHECK (base_currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT exchange_rates_currency_format CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT exchange_rates_rate_positive CHECK (rate > 0),
+  CONSTRAINT exchange_rates_unique_fetch UNIQUE (base_currency, currency, fetched_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_base_fetched_at
+  ON dashboard.exchange_rates (base_currency, fetched_at DESC);
+
+-- Rates are only read and written by the API through the functions below
+ALTER TABLE dashboard.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- TRANSACTION CONVERSIONS
+-- ============================================================================
+
+-- amount/currency stay the charged values; base_* is the plan price they were
+-- converted from (NULL when no conversion was needed)
+ALTER TABLE dashboard.subscription_transactions
+  ADD COLUMN IF NOT EXISTS base_amount NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS base_currency TEXT,
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(20, 10),
+  ADD COLUMN IF NOT EXISTS exchange_rate_provider TEXT,
+  ADD COLUMN IF NOT EXISTS exchange_rate_fetched_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Latest fetch for the base currency (every currency of that fetch)
+CREATE OR REPLACE FUNCTION public.get_latest_exchange_rates(p_base_currency TEXT)
+RETURNS TABLE (
+  base_currency TEXT,
+  currency TEXT,
+  rate NUMERIC,
+  provider TEXT,
+  fetched_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    er.base_currency,
+    er.currency,
+    er.rate,
+    er.provider,
+    er.fetched_at
+  FROM dashboard.exchange_rates er
+  WHERE er.base_currency = p_base_currency
+    AND er.fetched_at = (
+      SELECT MAX(latest.fetched_at)
+      FROM dashboard.exchange_rates latest
+      WHERE latest.base_currency = p_base_currency
+    )
+  ORDER BY er.currency;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- p_rates: { "<currency>": <rate>, ... }
+CREATE OR REPLACE FUNCTION public.save_exchange_rates(
+  p_base_currency TEXT,
+  p_provider TEXT,
+  p_fetched_at TIMESTAMPTZ,
+  p_rates JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_saved_count INTEGER;
+BEGIN
+  INSERT INTO dashboard.exchange_rates (base_currency, currency, rate, provider, fetched_at)
+  SELECT
+    p_base_currency,
+    r.key,
+    r.value::NUMERIC,
+    p_provider,
+    p_fetched_at
+  FROM jsonb_each_text(p_rates) AS r
+  ON CONFLICT (base_currency, currency, fetched_at) DO NOTHING;
+
+  GET DIAGNOSTICS v_saved_count = ROW_COUNT;
+  RETURN v_saved_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Return type changes (conversion columns), so the function is recreated
+DROP FUNCTION IF EXISTS public.get_subscription_transactions(UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_subscription_transactions(p_subscription_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  subscription_id UUID,
+  amount NUMERIC,
+  currency TEXT,
+  transaction_date TIMESTAMPTZ,
+  status TEXT,
+  transaction_type TEXT,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  base_amount NUMERIC,
+  base_currency TEXT,
+  exchange_rate NUMERIC,
+  exchange_rate_provider TEXT,
+  exchange_rate_fetched_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    st.id,
+    st.subscription_id,
+    st.amount,
+    st.currency,
+    st.transaction_date,
+    st.status,
+    st.transaction_type,
+    st.metadata,
+    st.created_at,
+    st.base_amount,
+    st.base_currency,
+    st.exchange_rate,
+    st.exchange_rate_provider,
+    st.exchange_rate_fetched_at
+  FROM dashboard.subscription_transactions st
+  WHERE st.subscription_id = ANY(p_subscription_ids)
+  ORDER BY st.transaction_date DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_latest_exchange_rates(TEXT)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_exchange_rates(TEXT, TEXT, TIMESTAMPTZ, JSONB)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_subscription_transactions(UUID[])
+  TO service_role, postgres, authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.exchange_rates IS
+  'Exchange rates fetched from the rate provider (1 base_currency = rate currency). Kept as history so past conversions can be audited.';
+
+COMMENT ON COLUMN dashboard.subscription_transactions.exchange_rate IS
+  'Rate used to convert base_amount (base_currency) into amount (currency).';
+
+COMMENT ON FUNCTION public.get_latest_exchange_rates(TEXT) IS
+  'Returns the rates of the most recent fetch for a base currency.';
+
+COMMENT ON FUNCTION public.save_exchange_rates(TEXT, TEXT, TIMESTAMPTZ, JSONB) IS
+  'Stores the rates of one provider fetch. Saving the same fetch twice is a no-op.';
@@ -0,0 +1,451 @@
+-- ============================================================================
+-- Migration: Checkout experiments (A/B tests)
+-- ============================================================================
+-- Problem: The optimization ROI report can only compare the metrics before
+--          and after a date, so a theme or BoltX change cannot be told apart
+--          from seasonality or traffic changes.
+-- Solution: Experiments as a first-class entity in dashboard.experiments.
+--           Each variant carries a theme or a BoltX config and a traffic
+--           weight. The checkout asks for its variants through
+--           /api/public/experiments/assign; assignments are sticky per
+--           session (dashboard.experiment_assignments). Ingested events of
+--           assigned sessions are tagged with metadata.experiments
+--           ({ "<experiment id>": "<variant key>" }), and the results compare
+--           conversion and revenue of the sessions assigned to each variant
+--           (src/lib/experiments).
+--
+-- Lifecycle: draft -> running -> stopped -> completed (winner promoted).
+-- Only draft experiments can be edited; a running experiment can be
+-- completed directly by promoting its winner.
+-- ============================================================================
+
+-- ============================================================================
+-- EXPERIMENTS TABLE
+-- ============================================================================
+
+-- variants: [{ key, name, weight, themeId?, boltx? }], the first variant is the control
+CREATE TABLE IF NOT EXISTS dashboard.experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  experiment_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',
+  variants JSONB NOT NULL,
+  significance_level NUMERIC(5, 4) NOT NULL DEFAULT 0.05,
+  min_sessions_per_variant INTEGER NOT NULL DEFAULT 100,
+  winner_variant_key TEXT,
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ,
+  created_by UUID REFERENCES dashboard.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT experiments_name_not_empty CHECK (length(name) > 0),
+  CONSTRAINT experiments_type CHECK (experiment_type IN ('theme', 'boltx')),
+  CONSTRAINT experiments_status CHECK (status IN ('draft', 'running', 'stopped', 'completed')),
+  CONSTRAINT experiments_variants_array CHECK (
+    jsonb_typeof(variants) = 'array' AND jsonb_array_length(variants) >= 2
+  ),
+  CONSTRAINT experiments_significance_level CHECK (significance_level > 0 AND significance_level < 1),
+  CONSTRAINT experiments_min_sessions CHECK (min_sessions_per_variant > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiments_account_status
+  ON dashboard.experiments (account_id, status);
+
+ALTER TABLE dashboard.experiments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view account experiments" ON dashboard.experiments;
+
+CREATE POLICY "Users can view account experiments"
+  ON dashboard.experiments
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- ============================================================================
+-- ASSIGNMENTS TABLE
+-- ============================================================================
+
+-- The first assignment of a session wins (sticky), even if the weights would
+-- now pick another variant
+CREATE TABLE IF NOT EXISTS dashboard.experiment_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id UUID NOT NULL REFERENCES dashboard.experiments(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  variant_key TEXT NOT NULL,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT experiment_assignments_unique_session UNIQUE (experiment_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_assignments_account_session
+  ON dashboard.experiment_assignments (account_id, session_id);
+
+ALTER TABLE dashboard.experiment_assignments ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: EXPERIMENTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_experiments(
+  p_account_id UUID,
+  p_experiment_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  description TEXT,
+  experiment_type TEXT,
+  status TEXT,
+  variants JSONB,
+  significance_level NUMERIC,
+  min_sessions_per_variant INTEGER,
+  winner_variant_key TEXT,
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    x.id,
+    x.account_id,
+    x.name,
+    x.description,
+    x.experiment_type,
+    x.status,
+    x.variants,
+    x.significance_level,
+    x.min_sessions_per_variant,
+    x.winner_variant_key,
+    x.started_at,
+    x.stopped_at,
+    x.created_at,
+    x.updated_at
+  FROM dashboard.experiments x
+  WHERE x.account_id = p_account_id
+    AND (p_experiment_id IS NULL OR x.id = p_experiment_id)
+    AND (p_status IS NULL OR x.status = p_status)
+  ORDER BY x.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.create_experiment(
+  p_account_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_experiment_type TEXT,
+  p_variants JSONB,
+  p_significance_level NUMERIC,
+  p_min_sessions_per_variant INTEGER,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_experiment_id UUID;
+BEGIN
+  INSERT INTO dashboard.experiments (
+    account_id, name, description, experiment_type, variants,
+    significance_level, min_sessions_per_variant, created_by
+  )
+  VALUES (
+    p_account_id, p_name, p_description, p_experiment_type, p_variants,
+    p_significance_level, p_min_sessions_per_variant, p_created_by
+  )
+  RETURNING id INTO v_experiment_id;
+
+  RETURN v_experiment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Only draft experiments can be edited: assignments and results of a started
+-- experiment refer to its variants
+CREATE OR REPLACE FUNCTION public.update_experiment(
+  p_account_id UUID,
+  p_experiment_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_variants JSONB,
+  p_significance_level NUMERIC,
+  p_min_sessions_per_variant INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT x.status INTO v_status
+  FROM dashboard.experiments x
+  WHERE x.id = p_experiment_id
+    AND x.account_id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Experiment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft experiments can be edited'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE dashboard.experiments AS x
+  SET
+    name = p_name,
+    description = p_description,
+    variants = p_variants,
+    significance_level = p_significance_level,
+    min_sessions_per_variant = p_min_sessions_per_variant,
+    updated_at = NOW()
+  WHERE x.id = p_experiment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Status transitions:
+--   running:   from draft (sets started_at)
+--   stopped:   from running (sets stopped_at, the results period ends)
+--   completed: from running or stopped, with the promoted winner
+CREATE OR REPLACE FUNCTION public.set_experiment_status(
+  p_account_id UUID,
+  p_experiment_id UUID,
+  p_status TEXT,
+  p_winner_variant_key TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT x.status INTO v_status
+  FROM dashboard.experiments x
+  WHERE x.id = p_experiment_id
+    AND x.account_id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Experiment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT (
+    (p_status = 'running' AND v_status = 'draft')
+    OR (p_status = 'stopped' AND v_status = 'running')
+    OR (p_status = 'completed' AND v_status IN ('running', 'stopped'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change experiment from % to %', v_status, p_status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE dashboard.experiments AS x
+  SET
+    status = p_status,
+    started_at = CASE WHEN p_status = 'running' THEN NOW() ELSE x.started_at END,
+    stopped_at = CASE WHEN p_status <> 'running' THEN COALESCE(x.stopped_at, NOW()) ELSE NULL END,
+    winner_variant_key = CASE WHEN p_status = 'completed' THEN p_winner_variant_key ELSE NULL END,
+    updated_at = NOW()
+  WHERE x.id = p_experiment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- A running experiment must be stopped first (the checkout is still assigning sessions)
+CREATE OR REPLACE FUNCTION public.delete_experiment(
+  p_account_id UUID,
+  p_experiment_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT x.status INTO v_status
+  FROM dashboard.experiments x
+  WHERE x.id = p_experiment_id
+    AND x.account_id = p_account_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_status = 'running' THEN
+    RAISE EXCEPTION 'Stop the experiment before deleting it'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  DELETE FROM dashboard.experiments AS x
+  WHERE x.id = p_experiment_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: ASSIGNMENTS
+-- ============================================================================
+
+-- p_assignments: [{ "experimentId": UUID, "variantKey": TEXT }] computed by the API
+-- Returns the stored assignment of the session for each running experiment
+-- (an earlier assignment wins over the computed one)
+CREATE OR REPLACE FUNCTION public.assign_experiment_variants(
+  p_account_id UUID,
+  p_session_id TEXT,
+  p_assignments JSONB
+)
+RETURNS TABLE (
+  experiment_id UUID,
+  variant_key TEXT,
+  assigned_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  INSERT INTO dashboard.experiment_assignments (experiment_id, account_id, session_id, variant_key)
+  SELECT
+    x.id,
+    p_account_id,
+    p_session_id,
+    a."variantKey"
+  FROM jsonb_to_recordset(p_assignments) AS a("experimentId" UUID, "variantKey" TEXT)
+  JOIN dashboard.experiments x
+    ON x.id = a."experimentId"
+   AND x.account_id = p_account_id
+   AND x.status = 'running'
+  ON CONFLICT ON CONSTRAINT experiment_assignments_unique_session DO NOTHING;
+
+  RETURN QUERY
+  SELECT
+    ea.experiment_id,
+    ea.variant_key,
+    ea.assigned_at
+  FROM dashboard.experiment_assignments ea
+  JOIN dashboard.experiments x ON x.id = ea.experiment_id
+  WHERE ea.account_id = p_account_id
+    AND ea.session_id = p_session_id
+    AND x.status = 'running';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Assignments of running experiments for the sessions of an ingested batch
+CREATE OR REPLACE FUNCTION public.get_experiment_assignments(
+  p_account_id UUID,
+  p_session_ids TEXT[]
+)
+RETURNS TABLE (
+  session_id TEXT,
+  experiment_id UUID,
+  variant_key TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ea.session_id,
+    ea.experiment_id,
+    ea.variant_key
+  FROM dashboard.experiment_assignments ea
+  JOIN dashboard.experiments x ON x.id = ea.experiment_id
+  WHERE ea.account_id = p_account_id
+    AND ea.session_id = ANY(p_session_ids)
+    AND x.status = 'running';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS: RESULTS
+-- ============================================================================
+
+-- Per variant, over the sessions assigned to it:
+--   sessions: assigned sessions
+--   converted_sessions: sessions with a checkout_complete / order_confirmed
+--     event tagged with the variant, between start and stop
+--   revenue / revenue_squares: sum and sum of squares of the revenue per
+--     converted session (highest conversion revenue of the session), used for
+--     the revenue per session confidence interval
+CREATE OR REPLACE FUNCTION public.get_experiment_variant_metrics(
+  p_account_id UUID,
+  p_experiment_id UUID
+)
+RETURNS TABLE (
+  variant_key TEXT,
+  sessions BIGINT,
+  converted_sessions BIGINT,
+  revenue NUMERIC,
+  revenue_squares NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH experiment AS (
+    SELECT x.id, x.started_at, COALESCE(x.stopped_at, NOW()) AS ended_at
+    FROM dashboard.experiments x
+    WHERE x.id = p_experiment_id
+      AND x.account_id = p_account_id
+      AND x.started_at IS NOT NULL
+  ),
+  conversions AS (
+    SELECT
+      e.session_id,
+      e.metadata -> 'experiments' ->> p_experiment_id::TEXT AS tagged_variant,
+      MAX(analytics.extract_revenue(e.metadata)) AS session_revenue
+    FROM analytics.events e
+    JOIN experiment x ON TRUE
+    WHERE e.customer_id = p_account_id
+      AND e.timestamp >= x.started_at
+      AND e.timestamp <= x.ended_at
+      AND e.event_type IN ('checkout_complete', 'order_confirmed')
+      AND (e.metadata -> 'experiments') ? p_experiment_id::TEXT
+    GROUP BY e.session_id, e.metadata -> 'experiments' ->> p_experiment_id::TEXT
+  )
+  SELECT
+    ea.variant_key,
+    COUNT(*)::BIGINT,
+    COUNT(c.session_id)::BIGINT,
+    COALESCE(SUM(c.session_revenue), 0)::NUMERIC,
+    COALESCE(SUM(c.session_revenue * c.session_revenue), 0)::NUMERIC
+  FROM dashboard.experiment_assignments ea
+  JOIN experiment x ON x.id = ea.experiment_id
+  LEFT JOIN conversions c
+    ON c.session_id = ea.session_id
+   AND c.tagged_variant = ea.variant_key
+  GROUP BY ea.variant_key
+  ORDER BY ea.variant_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_experiments(UUID, UUID, TEXT)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_experiment(UUID, TEXT, TEXT, TEXT, JSONB, NUMERIC, INTEGER, UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_experiment(UUID, UUID, TEXT, TEXT, JSONB, NUMERIC, INTEGER)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_experiment_status(UUID, UUID, TEXT, TEXT)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_experiment(UUID, UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_experiment_variants(UUID, TEXT, JSONB)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_experiment_assignments(UUID, TEXT[])
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_experiment_variant_metrics(UUID, UUID)
+  TO service_role, postgres, authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.experiments IS
+  'Checkout A/B experiments. Each variant carries a theme or BoltX config and a traffic weight; the first variant is the control.';
+
+COMMENT ON TABLE dashboard.experiment_assignments IS
+  'Sticky variant assignment of checkout sessions to running experiments.';
+
+COMMENT ON FUNCTION public.assign_experiment_variants(UUID, TEXT, JSONB) IS
+  'Stores the computed variants of a session (first assignment wins) and returns its assignments for running experiments.';
+
+COMMENT ON FUNCTION public.get_experiment_variant_metrics(UUID, UUID) IS
+  'Assigned sessions, conversions and revenue per variant of an experiment.';
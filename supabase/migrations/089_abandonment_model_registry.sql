@@ -0,0 +1,215 @@
+-- ============================================================================
+-- Migration: Abandonment model registry
+-- ============================================================================
+-- Problem: The abandonment predictor scores sessions with hard-coded feature
+--          weights. EnhancedAbandonmentPredictor.train() only measures how
+--          those weights perform, and the reported accuracy is computed on
+--          the same data, so nothing is learned per account and the
+--          predictionModelVersion setting selects nothing.
+-- Solution: Train a logistic regression per account on the stored abandonment
+--           predictions joined with the real outcome of each session
+--           (src/lib/ai/models/model-registry.ts) and store every trained
+--           model as a versioned artifact in analytics.abandonment_models,
+--           together with the metrics measured on its holdout set.
+--
+-- Versions: v1 is the built-in rule-based model (no row). Trained models are
+-- numbered per account from v2 upward. predictionModelVersion selects v1, a
+-- trained version, or 'latest' (newest trained model, retrained when stale).
+-- ============================================================================
+
+-- ============================================================================
+-- MODELS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analytics.abandonment_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  version TEXT NOT NULL,
+  algorithm TEXT NOT NULL,
+  -- Everything needed to score a session (weights, feature scaling, threshold)
+  artifact JSONB NOT NULL,
+  -- Holdout metrics: accuracy, precision, recall, f1Score, auc, logLoss
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  training_size INTEGER NOT NULL,
+  holdout_size INTEGER NOT NULL,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT abandonment_models_version_format CHECK (version ~ '^v[0-9]+$'),
+  CONSTRAINT abandonment_models_algorithm_check CHECK (algorithm IN ('logistic_regression')),
+  CONSTRAINT abandonment_models_unique_version UNIQUE (customer_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_abandonment_models_customer_trained_at
+  ON analytics.abandonment_models (customer_id, trained_at DESC);
+
+-- Models are only read and written by the API through the functions below
+ALTER TABLE analytics.abandonment_models ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Trained models of an account, newest first
+-- p_version: a version ('v3'), 'latest' or NULL (every model)
+CREATE OR REPLACE FUNCTION public.get_abandonment_models(
+  p_customer_id UUID,
+  p_version TEXT DEFAULT NULL,
+  p_include_artifact BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  version TEXT,
+  algorithm TEXT,
+  artifact JSONB,
+  metrics JSONB,
+  training_size INTEGER,
+  holdout_size INTEGER,
+  trained_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.version,
+    m.algorithm,
+    CASE WHEN p_include_artifact THEN m.artifact ELSE NULL END,
+    m.metrics,
+    m.training_size,
+    m.holdout_size,
+    m.trained_at
+  FROM analytics.abandonment_models m
+  WHERE m.customer_id = p_customer_id
+    AND (p_version IS NULL OR p_version = 'latest' OR m.version = p_version)
+  ORDER BY m.trained_at DESC
+  LIMIT CASE WHEN p_version = 'latest' THEN 1 ELSE 50 END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Store a trained model under the next version of the account
+CREATE OR REPLACE FUNCTION public.insert_abandonment_model(
+  p_customer_id UUID,
+  p_algorithm TEXT,
+  p_artifact JSONB,
+  p_metrics JSONB,
+  p_training_size INTEGER,
+  p_holdout_size INTEGER
+)
+RETURNS TABLE (
+  id UUID,
+  version TEXT,
+  trained_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_next INTEGER;
+BEGIN
+  -- Serialize version numbering per account
+  PERFORM pg_advisory_xact_lock(hashtext('abandonment_models:' || p_customer_id::TEXT));
+
+  SELECT COALESCE(MAX(SUBSTRING(m.version FROM 2)::INTEGER), 1) + 1
+  INTO v_next
+  FROM analytics.abandonment_models m
+  WHERE m.customer_id = p_customer_id;
+
+  RETURN QUERY
+  INSERT INTO analytics.abandonment_models AS m (
+    customer_id,
+    version,
+    algorithm,
+    artifact,
+    metrics,
+    training_size,
+    holdout_size
+  ) VALUES (
+    p_customer_id,
+    'v' || v_next,
+    p_algorithm,
+    p_artifact,
+    COALESCE(p_metrics, '{}'::jsonb),
+    p_training_size,
+    p_holdout_size
+  )
+  RETURNING m.id, m.version, m.trained_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Latest abandonment prediction of each session with the session's outcome
+-- completed: the session reached checkout_complete / order_confirmed
+-- abandoned: the session has a step_abandoned event and never completed
+-- Sessions without an outcome yet are left out
+CREATE OR REPLACE FUNCTION public.get_abandonment_training_data(
+  p_customer_id UUID,
+  p_start_date TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 5000
+)
+RETURNS TABLE (
+  session_id TEXT,
+  factors JSONB,
+  outcome TEXT,
+  predicted_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH latest_predictions AS (
+    SELECT DISTINCT ON (p.session_id)
+      p.session_id,
+      p.factors,
+      p.created_at
+    FROM analytics.ai_predictions p
+    WHERE p.customer_id = p_customer_id
+      AND p.prediction_type = 'abandonment'
+      AND (p_start_date IS NULL OR p.created_at >= p_start_date)
+    ORDER BY p.session_id, p.created_at DESC
+  ),
+  outcomes AS (
+    SELECT
+      e.session_id,
+      BOOL_OR(e.event_type IN ('checkout_complete', 'order_confirmed')) AS completed,
+      BOOL_OR(e.event_type = 'step_abandoned') AS abandoned
+    FROM analytics.events e
+    WHERE e.customer_id = p_customer_id
+      AND e.event_type IN ('checkout_complete', 'order_confirmed', 'step_abandoned')
+      AND e.session_id IN (SELECT lp.session_id FROM latest_predictions lp)
+    GROUP BY e.session_id
+  )
+  SELECT
+    lp.session_id,
+    lp.factors,
+    CASE WHEN o.completed THEN 'completed' ELSE 'abandoned' END,
+    lp.created_at
+  FROM latest_predictions lp
+  JOIN outcomes o ON o.session_id = lp.session_id
+  WHERE o.completed OR o.abandoned
+  ORDER BY lp.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_abandonment_models(UUID, TEXT, BOOLEAN)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_abandonment_model(UUID, TEXT, JSONB, JSONB, INTEGER, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_abandonment_training_data(UUID, TIMESTAMPTZ, INTEGER)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE analytics.abandonment_models IS
+  'Versioned abandonment models trained per account (v2 upward; v1 is the built-in rule-based model).';
+
+COMMENT ON COLUMN analytics.abandonment_models.metrics IS
+  'Metrics measured on the holdout set, which is not used for training.';
+
+COMMENT ON FUNCTION public.get_abandonment_models(UUID, TEXT, BOOLEAN) IS
+  'Returns the trained abandonment models of an account (one version, the latest, or all).';
+
+COMMENT ON FUNCTION public.insert_abandonment_model(UUID, TEXT, JSONB, JSONB, INTEGER, INTEGER) IS
+  'Stores a trained abandonment model under the next version of the account.';
+
+COMMENT ON FUNCTION public.get_abandonment_training_data(UUID, TIMESTAMPTZ, INTEGER) IS
+  'Latest abandonment prediction factors per session labeled with the session outcome (completed or abandoned).';
@@ -0,0 +1,363 @@
+-- ============================================================================
+-- Migration: BoltX rate limits and AI token budgets
+-- ============================================================================
+-- Problem: boltx_configurations.rate_limit is loaded by the API but never
+--          enforced, so the public BoltX endpoints (personalize, optimize,
+--          predictions, realtime) are unthrottled, and OpenAI calls are not
+--          capped or even counted per account.
+-- Solution: - dashboard.rate_limit_buckets holds token buckets shared by every
+--             API instance (src/lib/api/rate-limit.ts). A bucket is keyed by
+--             account and endpoint, holds up to rate_limit tokens and refills
+--             at rate_limit tokens per minute.
+--           - analytics.boltx_token_usage counts the OpenAI tokens used by
+--             each account per calendar month (UTC).
+--           - boltx_configurations.openai_monthly_token_budget caps that
+--             usage (0 = no budget). Once it is reached, insights fall back
+--             to the local rule-based insights until the next month.
+-- ============================================================================
+
+-- ============================================================================
+-- RATE LIMIT BUCKETS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.rate_limit_buckets (
+  bucket_key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Buckets are only read and written through consume_rate_limit_token
+ALTER TABLE dashboard.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- TOKEN USAGE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analytics.boltx_token_usage (
+  customer_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  -- First day of the month (UTC)
+  period_start DATE NOT NULL,
+  prompt_tokens BIGINT NOT NULL DEFAULT 0,
+  completion_tokens BIGINT NOT NULL DEFAULT 0,
+  total_tokens BIGINT NOT NULL DEFAULT 0,
+  requests INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (customer_id, period_start)
+);
+
+ALTER TABLE analytics.boltx_token_usage ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- MONTHLY TOKEN BUDGET
+-- ============================================================================
+
+ALTER TABLE analytics.boltx_configurations
+  ADD COLUMN IF NOT EXISTS openai_monthly_token_budget INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE analytics.boltx_configurations
+  DROP CONSTRAINT IF EXISTS boltx_configurations_token_budget_check;
+ALTER TABLE analytics.boltx_configurations
+  ADD CONSTRAINT boltx_configurations_token_budget_check CHECK (openai_monthly_token_budget >= 0);
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Take p_cost tokens from a bucket (created full on first use)
+-- The bucket refills continuously at p_refill_per_second up to p_capacity.
+-- retry_after_seconds is how long until p_cost tokens are available again
+-- (0 when the request is allowed).
+CREATE OR REPLACE FUNCTION public.consume_rate_limit_token(
+  p_bucket_key TEXT,
+  p_capacity INTEGER,
+  p_refill_per_second DOUBLE PRECISION,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining DOUBLE PRECISION,
+  retry_after_seconds DOUBLE PRECISION
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_tokens DOUBLE PRECISION;
+  v_updated_at TIMESTAMPTZ;
+BEGIN
+  INSERT INTO dashboard.rate_limit_buckets (bucket_key, tokens, updated_at)
+  VALUES (p_bucket_key, p_capacity, v_now)
+  ON CONFLICT (bucket_key) DO NOTHING;
+
+  SELECT b.tokens, b.updated_at
+  INTO v_tokens, v_updated_at
+  FROM dashboard.rate_limit_buckets b
+  WHERE b.bucket_key = p_bucket_key
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity::DOUBLE PRECISION,
+    v_tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_updated_at))) * p_refill_per_second
+  );
+
+  IF v_tokens >= p_cost THEN
+    UPDATE dashboard.rate_limit_buckets
+    SET tokens = v_tokens - p_cost, updated_at = v_now
+    WHERE bucket_key = p_bucket_key;
+
+    RETURN QUERY SELECT TRUE, v_tokens - p_cost, 0::DOUBLE PRECISION;
+  ELSE
+    UPDATE dashboard.rate_limit_buckets
+    SET tokens = v_tokens, updated_at = v_now
+    WHERE bucket_key = p_bucket_key;
+
+    RETURN QUERY SELECT FALSE, v_tokens, (p_cost - v_tokens) / p_refill_per_second;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Add the tokens of one OpenAI request to the account's monthly usage
+CREATE OR REPLACE FUNCTION public.record_boltx_token_usage(
+  p_customer_id UUID,
+  p_period_start DATE,
+  p_prompt_tokens INTEGER,
+  p_completion_tokens INTEGER,
+  p_total_tokens INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO analytics.boltx_token_usage AS u (
+    customer_id,
+    period_start,
+    prompt_tokens,
+    completion_tokens,
+    total_tokens,
+    requests
+  ) VALUES (
+    p_customer_id,
+    p_period_start,
+    GREATEST(0, p_prompt_tokens),
+    GREATEST(0, p_completion_tokens),
+    GREATEST(0, p_total_tokens),
+    1
+  )
+  ON CONFLICT (customer_id, period_start) DO UPDATE SET
+    prompt_tokens = u.prompt_tokens + EXCLUDED.prompt_tokens,
+    completion_tokens = u.completion_tokens + EXCLUDED.completion_tokens,
+    total_tokens = u.total_tokens + EXCLUDED.total_tokens,
+    requests = u.requests + 1,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- OpenAI token usage of an account for one month (no row when unused)
+CREATE OR REPLACE FUNCTION public.get_boltx_token_usage(
+  p_customer_id UUID,
+  p_period_start DATE
+)
+RETURNS TABLE (
+  period_start DATE,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  total_tokens BIGINT,
+  requests INTEGER,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.period_start,
+    u.prompt_tokens,
+    u.completion_tokens,
+    u.total_tokens,
+    u.requests,
+    u.updated_at
+  FROM analytics.boltx_token_usage u
+  WHERE u.customer_id = p_customer_id
+    AND u.period_start = p_period_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- CONFIGURATION FUNCTIONS (add openai_monthly_token_budget)
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_boltx_configuration(UUID);
+DROP FUNCTION IF EXISTS public.upsert_boltx_configuration(UUID, BOOLEAN, TEXT, TEXT, TEXT, INTEGER, DECIMAL, BOOLEAN, INTEGER, INTEGER, TEXT, BOOLEAN, BOOLEAN, BOOLEAN, JSONB);
+
+CREATE OR REPLACE FUNCTION public.get_boltx_configuration(
+  p_customer_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  customer_id UUID,
+  enabled BOOLEAN,
+  ai_provider TEXT,
+  openai_api_key_encrypted TEXT,
+  openai_model TEXT,
+  openai_max_tokens INTEGER,
+  openai_temperature DECIMAL,
+  openai_monthly_token_budget INTEGER,
+  cache_enabled BOOLEAN,
+  cache_ttl INTEGER,
+  rate_limit INTEGER,
+  prediction_model_version TEXT,
+  interventions_enabled BOOLEAN,
+  personalization_enabled BOOLEAN,
+  optimizations_enabled BOOLEAN,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.customer_id,
+    c.enabled,
+    c.ai_provider,
+    c.openai_api_key_encrypted,
+    c.openai_model,
+    c.openai_max_tokens,
+    c.openai_temperature,
+    c.openai_monthly_token_budget,
+    c.cache_enabled,
+    c.cache_ttl,
+    c.rate_limit,
+    c.prediction_model_version,
+    c.interventions_enabled,
+    c.personalization_enabled,
+    c.optimizations_enabled,
+    c.metadata,
+    c.created_at,
+    c.updated_at
+  FROM analytics.boltx_configurations c
+  WHERE c.customer_id = p_customer_id
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.upsert_boltx_configuration(
+  p_customer_id UUID,
+  p_enabled BOOLEAN DEFAULT NULL,
+  p_ai_provider TEXT DEFAULT NULL,
+  p_openai_api_key_encrypted TEXT DEFAULT NULL,
+  p_openai_model TEXT DEFAULT NULL,
+  p_openai_max_tokens INTEGER DEFAULT NULL,
+  p_openai_temperature DECIMAL DEFAULT NULL,
+  p_cache_enabled BOOLEAN DEFAULT NULL,
+  p_cache_ttl INTEGER DEFAULT NULL,
+  p_rate_limit INTEGER DEFAULT NULL,
+  p_prediction_model_version TEXT DEFAULT NULL,
+  p_interventions_enabled BOOLEAN DEFAULT NULL,
+  p_personalization_enabled BOOLEAN DEFAULT NULL,
+  p_optimizations_enabled BOOLEAN DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_openai_monthly_token_budget INTEGER DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_config_id UUID;
+BEGIN
+  INSERT INTO analytics.boltx_configurations (
+    customer_id,
+    enabled,
+    ai_provider,
+    openai_api_key_encrypted,
+    openai_model,
+    openai_max_tokens,
+    openai_temperature,
+    openai_monthly_token_budget,
+    cache_enabled,
+    cache_ttl,
+    rate_limit,
+    prediction_model_version,
+    interventions_enabled,
+    personalization_enabled,
+    optimizations_enabled,
+    metadata,
+    updated_at
+  )
+  VALUES (
+    p_customer_id,
+    COALESCE(p_enabled, false),
+    COALESCE(p_ai_provider, 'openai'),
+    p_openai_api_key_encrypted,
+    COALESCE(p_openai_model, 'gpt-4-turbo-preview'),
+    COALESCE(p_openai_max_tokens, 2000),
+    COALESCE(p_openai_temperature, 0.7),
+    COALESCE(p_openai_monthly_token_budget, 0),
+    COALESCE(p_cache_enabled, true),
+    COALESCE(p_cache_ttl, 3600),
+    COALESCE(p_rate_limit, 60),
+    COALESCE(p_prediction_model_version, 'v1'),
+    COALESCE(p_interventions_enabled, true),
+    COALESCE(p_personalization_enabled, true),
+    COALESCE(p_optimizations_enabled, true),
+    COALESCE(p_metadata, '{}'::jsonb),
+    NOW()
+  )
+  ON CONFLICT (customer_id) DO UPDATE SET
+    enabled = COALESCE(p_enabled, boltx_configurations.enabled),
+    ai_provider = COALESCE(p_ai_provider, boltx_configurations.ai_provider),
+    openai_api_key_encrypted = COALESCE(p_openai_api_key_encrypted, boltx_configurations.openai_api_key_encrypted),
+    openai_model = COALESCE(p_openai_model, boltx_configurations.openai_model),
+    openai_max_tokens = COALESCE(p_openai_max_tokens, boltx_configurations.openai_max_tokens),
+    openai_temperature = COALESCE(p_openai_temperature, boltx_configurations.openai_temperature),
+    openai_monthly_token_budget = COALESCE(p_openai_monthly_token_budget, boltx_configurations.openai_monthly_token_budget),
+    cache_enabled = COALESCE(p_cache_enabled, boltx_configurations.cache_enabled),
+    cache_ttl = COALESCE(p_cache_ttl, boltx_configurations.cache_ttl),
+    rate_limit = COALESCE(p_rate_limit, boltx_configurations.rate_limit),
+    prediction_model_version = COALESCE(p_prediction_model_version, boltx_configurations.prediction_model_version),
+    interventions_enabled = COALESCE(p_interventions_enabled, boltx_configurations.interventions_enabled),
+    personalization_enabled = COALESCE(p_personalization_enabled, boltx_configurations.personalization_enabled),
+    optimizations_enabled = COALESCE(p_optimizations_enabled, boltx_configurations.optimizations_enabled),
+    metadata = COALESCE(p_metadata, boltx_configurations.metadata),
+    updated_at = NOW()
+  RETURNING id INTO v_config_id;
+
+  RETURN v_config_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit_token(TEXT, INTEGER, DOUBLE PRECISION, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.record_boltx_token_usage(UUID, DATE, INTEGER, INTEGER, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_boltx_token_usage(UUID, DATE)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_boltx_configuration(UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.upsert_boltx_configuration(UUID, BOOLEAN, TEXT, TEXT, TEXT, INTEGER, DECIMAL, BOOLEAN, INTEGER, INTEGER, TEXT, BOOLEAN, BOOLEAN, BOOLEAN, JSONB, INTEGER)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.rate_limit_buckets IS
+  'Token buckets of the API rate limiter, shared by every API instance.';
+
+COMMENT ON TABLE analytics.boltx_token_usage IS
+  'OpenAI tokens used by BoltX per account and calendar month (UTC).';
+
+COMMENT ON COLUMN analytics.boltx_configurations.openai_monthly_token_budget IS
+  'Maximum OpenAI tokens per calendar month (0 = no budget). Insights fall back to local rules once reached.';
+
+COMMENT ON FUNCTION public.consume_rate_limit_token(TEXT, INTEGER, DOUBLE PRECISION, INTEGER) IS
+  'Atomically takes tokens from a rate limit bucket and reports whether the request is allowed.';
+
+COMMENT ON FUNCTION public.record_boltx_token_usage(UUID, DATE, INTEGER, INTEGER, INTEGER) IS
+  'Adds the tokens of one OpenAI request to the monthly BoltX usage of an account.';
+
+COMMENT ON FUNCTION public.get_boltx_token_usage(UUID, DATE) IS
+  'Returns the BoltX OpenAI token usage of an account for one month.';
+
+COMMENT ON FUNCTION public.get_boltx_configuration(UUID) IS
+  'Retrieve BoltX configuration for a customer account including feature flags and token budget';
+
+COMMENT ON FUNCTION public.upsert_boltx_configuration(UUID, BOOLEAN, TEXT, TEXT, TEXT, INTEGER, DECIMAL, BOOLEAN, INTEGER, INTEGER, TEXT, BOOLEAN, BOOLEAN, BOOLEAN, JSONB, INTEGER) IS
+  'Create or update BoltX configuration for a customer account including feature flags and token budget';
@@ -0,0 +1,199 @@
+-- ============================================================================
+-- Migration: Envelope encryption key IDs and secret rotation
+-- ============================================================================
+-- Problem: OpenAI API keys (analytics.boltx_configurations) and VTEX
+--          credentials (dashboard.vtex_credentials) are stored as base64,
+--          which is an encoding, not encryption, and there is no way to
+--          rotate the key protecting them.
+-- Solution: - Secrets are now encrypted by the API with AES-256-GCM envelope
+--             encryption (src/lib/secrets/envelope.ts). Each payload carries
+--             the ID of the master key that wraps its data key
+--             ("enc:v1:<key id>:...").
+--           - A *_key_id column next to each ciphertext holds that ID. It is
+--             filled by triggers from the payload, so the existing upsert
+--             functions keep their signatures (NULL = legacy base64 value).
+--           - get_secrets_for_rotation / update_rotated_secret let the
+--             rotation command (scripts/rotate-secrets.ts) re-encrypt every
+--             value not yet under the active master key.
+-- ============================================================================
+
+-- ============================================================================
+-- KEY ID COLUMNS
+-- ============================================================================
+
+ALTER TABLE analytics.boltx_configurations
+  ADD COLUMN IF NOT EXISTS openai_api_key_key_id TEXT;
+
+ALTER TABLE dashboard.vtex_credentials
+  ADD COLUMN IF NOT EXISTS app_key_key_id TEXT,
+  ADD COLUMN IF NOT EXISTS app_token_key_id TEXT;
+
+-- Master key ID of an envelope payload (NULL for legacy values)
+CREATE OR REPLACE FUNCTION public.secret_key_id(p_value TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_value LIKE 'enc:v1:%' THEN NULLIF(split_part(p_value, ':', 3), '')
+    ELSE NULL
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION analytics.set_boltx_configuration_key_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.openai_api_key_key_id := public.secret_key_id(NEW.openai_api_key_encrypted);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION dashboard.set_vtex_credentials_key_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.app_key_key_id := public.secret_key_id(NEW.app_key_encrypted);
+  NEW.app_token_key_id := public.secret_key_id(NEW.app_token_encrypted);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS set_boltx_configuration_key_id ON analytics.boltx_configurations;
+CREATE TRIGGER set_boltx_configuration_key_id
+  BEFORE INSERT OR UPDATE ON analytics.boltx_configurations
+  FOR EACH ROW
+  EXECUTE FUNCTION analytics.set_boltx_configuration_key_id();
+
+DROP TRIGGER IF EXISTS set_vtex_credentials_key_id ON dashboard.vtex_credentials;
+CREATE TRIGGER set_vtex_credentials_key_id
+  BEFORE INSERT OR UPDATE ON dashboard.vtex_credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.set_vtex_credentials_key_id();
+
+CREATE INDEX IF NOT EXISTS idx_boltx_configurations_key_id
+  ON analytics.boltx_configurations(openai_api_key_key_id);
+CREATE INDEX IF NOT EXISTS idx_vtex_credentials_key_ids
+  ON dashboard.vtex_credentials(app_key_key_id, app_token_key_id);
+
+-- ============================================================================
+-- ROTATION FUNCTIONS
+-- ============================================================================
+
+-- Stored secrets not encrypted under the active master key
+-- (optionally for one account)
+CREATE OR REPLACE FUNCTION public.get_secrets_for_rotation(
+  p_active_key_id TEXT,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  source TEXT,
+  account_id UUID,
+  field TEXT,
+  ciphertext TEXT,
+  key_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'boltx_configurations'::TEXT,
+    c.customer_id,
+    'openai_api_key'::TEXT,
+    c.openai_api_key_encrypted,
+    c.openai_api_key_key_id
+  FROM analytics.boltx_configurations c
+  WHERE c.openai_api_key_encrypted IS NOT NULL
+    AND c.openai_api_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR c.customer_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_key'::TEXT,
+    v.app_key_encrypted,
+    v.app_key_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_token'::TEXT,
+    v.app_token_encrypted,
+    v.app_token_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_token_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Replace a rotated secret, only if it still holds the value that was rotated
+-- (a secret saved meanwhile is left alone). Returns whether it was replaced.
+CREATE OR REPLACE FUNCTION public.update_rotated_secret(
+  p_source TEXT,
+  p_account_id UUID,
+  p_field TEXT,
+  p_old_ciphertext TEXT,
+  p_ciphertext TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_source = 'boltx_configurations' AND p_field = 'openai_api_key' THEN
+    UPDATE analytics.boltx_configurations
+    SET openai_api_key_encrypted = p_ciphertext
+    WHERE customer_id = p_account_id
+      AND openai_api_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_key' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_key_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_token' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_token_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_token_encrypted = p_old_ciphertext;
+  ELSE
+    RAISE EXCEPTION 'Unknown secret %.%', p_source, p_field;
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.secret_key_id(TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_secrets_for_rotation(TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.update_rotated_secret(TEXT, UUID, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN analytics.boltx_configurations.openai_api_key_encrypted IS
+  'OpenAI API key, AES-256-GCM envelope encrypted (decrypted server-side only)';
+
+COMMENT ON COLUMN analytics.boltx_configurations.openai_api_key_key_id IS
+  'Master key ID of openai_api_key_encrypted (NULL = legacy base64 value). Set by trigger.';
+
+COMMENT ON COLUMN dashboard.vtex_credentials.app_key_key_id IS
+  'Master key ID of app_key_encrypted (NULL = legacy base64 value). Set by trigger.';
+
+COMMENT ON COLUMN dashboard.vtex_credentials.app_token_key_id IS
+  'Master key ID of app_token_encrypted (NULL = legacy base64 value). Set by trigger.';
+
+COMMENT ON FUNCTION public.secret_key_id(TEXT) IS
+  'Returns the master key ID of an envelope-encrypted secret, or NULL for legacy values.';
+
+COMMENT ON FUNCTION public.get_secrets_for_rotation(TEXT, UUID) IS
+  'Lists stored secrets that are not encrypted under the active master key.';
+
+COMMENT ON FUNCTION public.update_rotated_secret(TEXT, UUID, TEXT, TEXT, TEXT) IS
+  'Replaces a stored secret with its re-encrypted value if it was not changed meanwhile.';
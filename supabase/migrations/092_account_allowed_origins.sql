@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Migration: Per-account allowed origins (CORS registry)
+-- ============================================================================
+-- Problem: The public BoltX and metrics endpoints each validate the request
+--          Origin against one global CORS_ALLOWED_ORIGINS env var (some also
+--          accept anything containing "localhost"). The same checkout
+--          deployment serves many stores on different domains, so every new
+--          store domain requires a redeploy.
+-- Solution: - dashboard.account_allowed_origins holds the checkout domains
+--             each account registers on the Integrations page, either exact
+--             origins (https://shop.example.com) or subdomain wildcards
+--             (https://*.example.com).
+--           - The shared CORS policy (src/lib/api/cors.ts) accepts a request
+--             only from the origins of the account that owns the API key or
+--             session; preflight requests, which carry no credentials, are
+--             accepted for origins registered by any account.
+-- ============================================================================
+
+-- ============================================================================
+-- ALLOWED ORIGINS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.account_allowed_origins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  -- Normalized origin: scheme://host[:port], lowercase, no path
+  origin TEXT NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT account_allowed_origins_unique UNIQUE (account_id, origin),
+  CONSTRAINT account_allowed_origins_format CHECK (
+    origin ~ '^https?://(\*\.)?[a-z0-9.-]+(:[0-9]{1,5})?$'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_allowed_origins_origin
+  ON dashboard.account_allowed_origins(origin);
+
+GRANT ALL ON dashboard.account_allowed_origins TO service_role, postgres;
+
+ALTER TABLE dashboard.account_allowed_origins ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the allowed origins of their account
+CREATE POLICY "Users can view account allowed origins"
+  ON dashboard.account_allowed_origins
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Whether an origin matches a registered origin or subdomain wildcard
+CREATE OR REPLACE FUNCTION public.origin_matches(p_origin TEXT, p_pattern TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_origin = p_pattern
+    OR (
+      position('://*.' IN p_pattern) > 0
+      AND split_part(p_origin, '://', 1) = split_part(p_pattern, '://', 1)
+      AND right(
+        split_part(p_origin, '://', 2),
+        length(split_part(p_pattern, '://*', 2))
+      ) = split_part(p_pattern, '://*', 2)
+      AND length(split_part(p_origin, '://', 2)) > length(split_part(p_pattern, '://*', 2))
+    );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- Allowed origins of an account
+CREATE OR REPLACE FUNCTION public.get_account_allowed_origins(
+  p_account_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  origin TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.id, o.account_id, o.origin, o.created_by, o.created_at
+  FROM dashboard.account_allowed_origins o
+  WHERE o.account_id = p_account_id
+  ORDER BY o.origin;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Register an origin for an account (no-op if already registered)
+CREATE OR REPLACE FUNCTION public.add_account_allowed_origin(
+  p_account_id UUID,
+  p_origin TEXT,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO dashboard.account_allowed_origins (account_id, origin, created_by)
+  VALUES (p_account_id, lower(p_origin), p_created_by)
+  ON CONFLICT (account_id, origin) DO UPDATE SET origin = EXCLUDED.origin
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Remove an origin from an account (returns whether it existed)
+CREATE OR REPLACE FUNCTION public.delete_account_allowed_origin(
+  p_account_id UUID,
+  p_origin_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM dashboard.account_allowed_origins
+  WHERE id = p_origin_id
+    AND account_id = p_account_id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Whether any account registered the origin (CORS preflight)
+CREATE OR REPLACE FUNCTION public.is_origin_registered(
+  p_origin TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM dashboard.account_allowed_origins o
+    WHERE public.origin_matches(lower(p_origin), o.origin)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.origin_matches(TEXT, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_account_allowed_origins(UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_account_allowed_origin(UUID, TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_account_allowed_origin(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.is_origin_registered(TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.account_allowed_origins IS
+  'Checkout origins allowed to call the public BoltX and metrics endpoints of an account (CORS).';
+
+COMMENT ON COLUMN dashboard.account_allowed_origins.origin IS
+  'Normalized origin (scheme://host[:port]) or subdomain wildcard (https://*.example.com).';
+
+COMMENT ON FUNCTION public.origin_matches(TEXT, TEXT) IS
+  'Returns whether an origin matches a registered origin or subdomain wildcard.';
+
+COMMENT ON FUNCTION public.get_account_allowed_origins(UUID) IS
+  'Lists the allowed origins registered by an account.';
+
+COMMENT ON FUNCTION public.add_account_allowed_origin(UUID, TEXT, UUID) IS
+  'Registers an allowed origin for an account.';
+
+COMMENT ON FUNCTION public.delete_account_allowed_origin(UUID, UUID) IS
+  'Removes an allowed origin from an account.';
+
+COMMENT ON FUNCTION public.is_origin_registered(TEXT) IS
+  'Returns whether any account registered the origin (used for CORS preflight requests).';
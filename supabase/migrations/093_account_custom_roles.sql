@@ -0,0 +1,335 @@
+-- ============================================================================
+-- Migration: Account-defined custom roles
+-- ============================================================================
+-- Problem: Users have one of four hard-coded roles (owner, admin, editor,
+--          viewer), whose grants only live in the frontend
+--          (src/utils/rbac/permissions.ts). API routes check roles ad hoc, and
+--          agencies cannot grant roles like "BoltX operator" that the fixed
+--          four don't cover.
+-- Solution: - dashboard.account_roles holds the custom roles of each account,
+--             with resource/action grants (boltx, b2b, billing, integrations,
+--             users, ...) stored as a JSONB array.
+--           - dashboard.users.custom_role_id assigns at most one custom role
+--             to a user; its grants are added to the user's built-in role.
+--           - get_user_by_id and get_users_by_account return custom_role_id,
+--             so the API (withPermission in src/lib/api/route-handler.ts)
+--             only loads the grants of users that have a custom role.
+-- ============================================================================
+
+-- ============================================================================
+-- CUSTOM ROLES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.account_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- [{ "resource": "boltx", "action": "write" }, ...]
+  permissions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT account_roles_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  CONSTRAINT account_roles_permissions_array CHECK (jsonb_typeof(permissions) = 'array')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_roles_account_name
+  ON dashboard.account_roles(account_id, lower(name));
+
+GRANT ALL ON dashboard.account_roles TO service_role, postgres;
+
+ALTER TABLE dashboard.account_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the custom roles of their account
+CREATE POLICY "Users can view account roles"
+  ON dashboard.account_roles
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- ============================================================================
+-- USER ASSIGNMENT
+-- ============================================================================
+
+ALTER TABLE dashboard.users
+  ADD COLUMN IF NOT EXISTS custom_role_id UUID
+  REFERENCES dashboard.account_roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_custom_role_id
+  ON dashboard.users(custom_role_id)
+  WHERE custom_role_id IS NOT NULL;
+
+-- Recreate get_user_by_id with custom_role_id
+DROP FUNCTION IF EXISTS public.get_user_by_id(UUID) CASCADE;
+
+CREATE FUNCTION public.get_user_by_id(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  account_id UUID,
+  role TEXT,
+  name TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  last_login TIMESTAMPTZ,
+  settings JSONB,
+  custom_role_id UUID
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email,
+    u.account_id,
+    u.role,
+    u.name,
+    u.first_name,
+    u.last_name,
+    u.created_at,
+    u.updated_at,
+    u.last_login,
+    u.settings,
+    u.custom_role_id
+  FROM dashboard.users u
+  WHERE u.id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Recreate get_users_by_account with custom_role_id
+DROP FUNCTION IF EXISTS public.get_users_by_account(UUID) CASCADE;
+
+CREATE FUNCTION public.get_users_by_account(p_account_id UUID)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  role TEXT,
+  name TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  created_at TIMESTAMPTZ,
+  last_login_at TIMESTAMPTZ,
+  custom_role_id UUID
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email,
+    u.role,
+    u.name,
+    u.first_name,
+    u.last_name,
+    u.created_at,
+    u.last_login,
+    u.custom_role_id
+  FROM dashboard.users u
+  WHERE u.account_id = p_account_id
+  ORDER BY u.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Custom roles of an account, with the number of users assigned to each
+CREATE OR REPLACE FUNCTION public.get_account_roles(
+  p_account_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  description TEXT,
+  permissions JSONB,
+  user_count BIGINT,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.account_id,
+    r.name,
+    r.description,
+    r.permissions,
+    (SELECT COUNT(*) FROM dashboard.users u WHERE u.custom_role_id = r.id),
+    r.created_by,
+    r.created_at,
+    r.updated_at
+  FROM dashboard.account_roles r
+  WHERE r.account_id = p_account_id
+  ORDER BY lower(r.name);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Grants of one custom role (permission checks)
+CREATE OR REPLACE FUNCTION public.get_account_role_permissions(
+  p_account_id UUID,
+  p_role_id UUID
+)
+RETURNS JSONB AS $$
+BEGIN
+  RETURN (
+    SELECT r.permissions
+    FROM dashboard.account_roles r
+    WHERE r.id = p_role_id
+      AND r.account_id = p_account_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create a custom role
+CREATE OR REPLACE FUNCTION public.create_account_role(
+  p_account_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_permissions JSONB,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO dashboard.account_roles (account_id, name, description, permissions, created_by)
+  VALUES (p_account_id, btrim(p_name), p_description, p_permissions, p_created_by)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Update a custom role (returns whether it exists in the account)
+CREATE OR REPLACE FUNCTION public.update_account_role(
+  p_account_id UUID,
+  p_role_id UUID,
+  p_name TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_permissions JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE dashboard.account_roles
+  SET
+    name = COALESCE(btrim(p_name), name),
+    description = COALESCE(p_description, description),
+    permissions = COALESCE(p_permissions, permissions),
+    updated_at = NOW()
+  WHERE id = p_role_id
+    AND account_id = p_account_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete a custom role; its users keep their built-in role
+CREATE OR REPLACE FUNCTION public.delete_account_role(
+  p_account_id UUID,
+  p_role_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM dashboard.account_roles
+  WHERE id = p_role_id
+    AND account_id = p_account_id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Assign a custom role to a user of the account (NULL removes it)
+CREATE OR REPLACE FUNCTION public.set_user_custom_role(
+  p_account_id UUID,
+  p_user_id UUID,
+  p_role_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_role_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM dashboard.account_roles r
+    WHERE r.id = p_role_id
+      AND r.account_id = p_account_id
+  ) THEN
+    RAISE EXCEPTION 'Role not found';
+  END IF;
+
+  UPDATE dashboard.users
+  SET custom_role_id = p_role_id,
+      updated_at = NOW()
+  WHERE id = p_user_id
+    AND account_id = p_account_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_user_by_id(UUID)
+  TO service_role, postgres, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_users_by_account(UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_account_roles(UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_account_role_permissions(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.create_account_role(UUID, TEXT, TEXT, JSONB, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.update_account_role(UUID, UUID, TEXT, TEXT, JSONB)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_account_role(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.set_user_custom_role(UUID, UUID, UUID)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.account_roles IS
+  'Custom roles defined by an account, with resource/action grants added to the built-in role of their users.';
+
+COMMENT ON COLUMN dashboard.account_roles.permissions IS
+  'Array of grants: [{"resource": "boltx", "action": "write"}]. Actions: read, write, delete, manage.';
+
+COMMENT ON COLUMN dashboard.users.custom_role_id IS
+  'Optional custom role whose grants are added to the built-in role.';
+
+COMMENT ON FUNCTION public.get_account_roles(UUID) IS
+  'Lists the custom roles of an account with the number of assigned users.';
+
+COMMENT ON FUNCTION public.get_account_role_permissions(UUID, UUID) IS
+  'Returns the grants of a custom role of an account (permission checks).';
+
+COMMENT ON FUNCTION public.create_account_role(UUID, TEXT, TEXT, JSONB, UUID) IS
+  'Creates a custom role for an account.';
+
+COMMENT ON FUNCTION public.update_account_role(UUID, UUID, TEXT, TEXT, JSONB) IS
+  'Updates the name, description or grants of a custom role.';
+
+COMMENT ON FUNCTION public.delete_account_role(UUID, UUID) IS
+  'Deletes a custom role; assigned users keep their built-in role.';
+
+COMMENT ON FUNCTION public.set_user_custom_role(UUID, UUID, UUID) IS
+  'Assigns a custom role to a user of the account, or removes it (NULL).';
@@ -0,0 +1,259 @@
+-- ============================================================================
+-- Migration: Account audit log
+-- ============================================================================
+-- Problem: Theme activations, BoltX config edits, intervention threshold
+--          changes, API key creation and deletion, role changes and
+--          subscription cancellations leave no trace beyond updated_at. When
+--          a checkout breaks there is no way to tell who changed what.
+-- Solution: - dashboard.audit_logs records every successful mutating
+--             dashboard API request: actor, action, target, the before/after
+--             diff of the changed fields, IP address and user agent. Entries
+--             are written by the API (src/lib/audit/audit-log.ts).
+--           - The table is append-only: a trigger rejects UPDATE and DELETE,
+--             except from purge_expired_audit_logs.
+--           - Entries are kept per plan: basic 30 days, pro 90 days,
+--             enterprise 365 days (AUDIT_RETENTION_DAYS in audit-log.ts).
+-- ============================================================================
+
+-- ============================================================================
+-- AUDIT LOG TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  -- No FK: entries outlive the users that made them
+  actor_id UUID,
+  actor_email TEXT,
+  -- e.g. theme.activate, boltx.settings.update, api_key.create
+  action TEXT NOT NULL,
+  resource_type TEXT NOT NULL,
+  resource_id TEXT,
+  -- { "field": { "before": ..., "after": ... } }
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Request method and path, and action-specific details
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT audit_logs_changes_object CHECK (jsonb_typeof(changes) = 'object'),
+  CONSTRAINT audit_logs_metadata_object CHECK (jsonb_typeof(metadata) = 'object')
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_account_time
+  ON dashboard.audit_logs(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_account_action_time
+  ON dashboard.audit_logs(account_id, action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_account_actor_time
+  ON dashboard.audit_logs(account_id, actor_id, created_at DESC);
+
+-- Entries are only written and purged through the functions below
+GRANT SELECT, INSERT ON dashboard.audit_logs TO service_role, postgres;
+
+ALTER TABLE dashboard.audit_logs ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the audit log of their account
+CREATE POLICY "Users can view account audit log"
+  ON dashboard.audit_logs
+  FOR SELECT
+  USING (
+    account_id IN (
+      SELECT account_id FROM dashboard.users
+      WHERE id = auth.uid()::UUID
+    )
+  );
+
+-- ============================================================================
+-- APPEND-ONLY
+-- ============================================================================
+
+-- Reject changes to entries; purge_expired_audit_logs sets bolt.audit_purge
+-- for its own transaction
+CREATE OR REPLACE FUNCTION dashboard.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('bolt.audit_purge', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Audit log entries cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS trg_audit_logs_append_only ON dashboard.audit_logs;
+
+CREATE TRIGGER trg_audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON dashboard.audit_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.prevent_audit_log_changes();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Days audit entries are kept for a plan
+CREATE OR REPLACE FUNCTION public.get_audit_retention_days(p_plan_type TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_plan_type
+    WHEN 'enterprise' THEN 365
+    WHEN 'pro' THEN 90
+    ELSE 30
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, pg_catalog;
+
+-- Append an entry
+CREATE OR REPLACE FUNCTION public.insert_audit_log(
+  p_account_id UUID,
+  p_actor_id UUID,
+  p_actor_email TEXT,
+  p_action TEXT,
+  p_resource_type TEXT,
+  p_resource_id TEXT DEFAULT NULL,
+  p_changes JSONB DEFAULT '{}'::jsonb,
+  p_metadata JSONB DEFAULT '{}'::jsonb,
+  p_ip_address TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO dashboard.audit_logs (
+    account_id, actor_id, actor_email, action, resource_type, resource_id,
+    changes, metadata, ip_address, user_agent
+  )
+  VALUES (
+    p_account_id, p_actor_id, p_actor_email, p_action, p_resource_type, p_resource_id,
+    COALESCE(p_changes, '{}'::jsonb), COALESCE(p_metadata, '{}'::jsonb),
+    p_ip_address, p_user_agent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Entries of an account, newest first, with the total matching the filters.
+-- Entries older than the plan's retention are hidden even before they are purged.
+CREATE OR REPLACE FUNCTION public.get_audit_logs(
+  p_account_id UUID,
+  p_action TEXT DEFAULT NULL,
+  p_resource_type TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT,
+  resource_type TEXT,
+  resource_id TEXT,
+  changes JSONB,
+  metadata JSONB,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_cutoff TIMESTAMPTZ;
+BEGIN
+  SELECT NOW() - make_interval(days => public.get_audit_retention_days(a.plan_type))
+  INTO v_cutoff
+  FROM customer.accounts a
+  WHERE a.id = p_account_id;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.account_id,
+    l.actor_id,
+    l.actor_email,
+    l.action,
+    l.resource_type,
+    l.resource_id,
+    l.changes,
+    l.metadata,
+    l.ip_address,
+    l.user_agent,
+    l.created_at,
+    COUNT(*) OVER ()
+  FROM dashboard.audit_logs l
+  WHERE l.account_id = p_account_id
+    AND l.created_at >= COALESCE(v_cutoff, '-infinity'::TIMESTAMPTZ)
+    AND (p_action IS NULL OR l.action = p_action)
+    AND (p_resource_type IS NULL OR l.resource_type = p_resource_type)
+    AND (p_actor_id IS NULL OR l.actor_id = p_actor_id)
+    AND (p_from IS NULL OR l.created_at >= p_from)
+    AND (p_to IS NULL OR l.created_at < p_to)
+  ORDER BY l.created_at DESC, l.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 5000)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete entries older than the retention of each account's plan
+-- Returns the number of deleted entries
+CREATE OR REPLACE FUNCTION public.purge_expired_audit_logs()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  PERFORM set_config('bolt.audit_purge', 'on', true);
+
+  DELETE FROM dashboard.audit_logs l
+  USING customer.accounts a
+  WHERE a.id = l.account_id
+    AND l.created_at < NOW() - make_interval(days => public.get_audit_retention_days(a.plan_type));
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  PERFORM set_config('bolt.audit_purge', 'off', true);
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Run daily by the scheduler through POST /api/jobs/audit-retention, or with
+-- pg_cron where it is available:
+-- SELECT cron.schedule('purge-audit-logs', '30 3 * * *', 'SELECT public.purge_expired_audit_logs()');
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_audit_retention_days(TEXT)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_audit_log(UUID, UUID, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_audit_logs(UUID, TEXT, TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.purge_expired_audit_logs()
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.audit_logs IS
+  'Append-only log of dashboard changes: actor, action, target, before/after diff, IP and user agent.';
+
+COMMENT ON COLUMN dashboard.audit_logs.changes IS
+  'Changed fields: {"field": {"before": ..., "after": ...}}.';
+
+COMMENT ON FUNCTION public.get_audit_retention_days(TEXT) IS
+  'Days audit entries are kept for a plan (basic 30, pro 90, enterprise 365).';
+
+COMMENT ON FUNCTION public.insert_audit_log(UUID, UUID, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT, TEXT) IS
+  'Appends an audit log entry.';
+
+COMMENT ON FUNCTION public.get_audit_logs(UUID, TEXT, TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER) IS
+  'Lists the audit log of an account within its plan retention, newest first, with filters and the total count.';
+
+COMMENT ON FUNCTION public.purge_expired_audit_logs() IS
+  'Deletes audit entries older than the retention of each account plan. Run daily.';
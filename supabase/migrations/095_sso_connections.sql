@@ -0,0 +1,546 @@
+-- ============================================================================
+-- Migration: SSO connections (OIDC and SAML 2.0)
+-- ============================================================================
+-- Problem: Users only sign in with passwordless email codes. Enterprise
+--          accounts want their staff to sign in through their own identity
+--          provider (Okta, Azure AD, Google Workspace, ...), to get access
+--          without an invitation, and to turn email codes off for their
+--          domain so that offboarding in the IdP revokes dashboard access.
+-- Solution: - dashboard.sso_connections holds one OIDC or SAML 2.0 identity
+--             provider per account, with the user role given to users
+--             provisioned on their first SSO login, and whether SSO is
+--             enforced (email codes rejected) for the account's domains.
+--           - dashboard.sso_domains maps email domains to connections for
+--             domain discovery on the login page; a domain belongs to at
+--             most one account.
+--           - dashboard.sso_login_states keeps the state of SP-initiated
+--             logins (OIDC nonce and PKCE verifier, SAML request ID) until
+--             the IdP redirects back; each state is used once.
+--           - The OIDC client secret is envelope encrypted
+--             (src/lib/secrets/envelope.ts) and included in key rotation.
+-- ============================================================================
+
+-- ============================================================================
+-- SSO CONNECTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.sso_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL UNIQUE REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  protocol TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Reject email codes for the connection's domains
+  enforce_sso BOOLEAN NOT NULL DEFAULT false,
+  -- Role of users provisioned on their first SSO login
+  default_role TEXT NOT NULL DEFAULT 'viewer',
+
+  -- OIDC
+  oidc_issuer TEXT,
+  oidc_client_id TEXT,
+  oidc_client_secret_encrypted TEXT,
+  oidc_client_secret_key_id TEXT,
+
+  -- SAML 2.0
+  saml_entry_point TEXT,
+  saml_idp_issuer TEXT,
+  saml_idp_certificate TEXT,
+
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT sso_connections_protocol CHECK (protocol IN ('oidc', 'saml')),
+  CONSTRAINT sso_connections_default_role CHECK (default_role IN ('admin', 'editor', 'viewer')),
+  CONSTRAINT sso_connections_oidc_fields CHECK (
+    protocol <> 'oidc'
+    OR (oidc_issuer IS NOT NULL AND oidc_client_id IS NOT NULL AND oidc_client_secret_encrypted IS NOT NULL)
+  ),
+  CONSTRAINT sso_connections_saml_fields CHECK (
+    protocol <> 'saml'
+    OR (saml_entry_point IS NOT NULL AND saml_idp_certificate IS NOT NULL)
+  )
+);
+
+GRANT ALL ON dashboard.sso_connections TO service_role, postgres;
+
+ALTER TABLE dashboard.sso_connections ENABLE ROW LEVEL SECURITY;
+
+-- Read and written through the functions below only (the row holds the
+-- encrypted client secret)
+
+CREATE TABLE IF NOT EXISTS dashboard.sso_domains (
+  -- Lowercase, e.g. acme.com
+  domain TEXT PRIMARY KEY,
+  connection_id UUID NOT NULL REFERENCES dashboard.sso_connections(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT sso_domains_lowercase CHECK (domain = lower(domain))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_domains_connection
+  ON dashboard.sso_domains(connection_id);
+
+GRANT ALL ON dashboard.sso_domains TO service_role, postgres;
+
+ALTER TABLE dashboard.sso_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS dashboard.sso_login_states (
+  -- Random value sent as the OIDC state / SAML RelayState
+  state TEXT PRIMARY KEY,
+  connection_id UUID NOT NULL REFERENCES dashboard.sso_connections(id) ON DELETE CASCADE,
+  -- OIDC
+  nonce TEXT,
+  code_verifier TEXT,
+  -- SAML AuthnRequest ID (checked against InResponseTo)
+  request_id TEXT,
+  -- Dashboard path to open after login
+  redirect_to TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_login_states_expires_at
+  ON dashboard.sso_login_states(expires_at);
+
+GRANT ALL ON dashboard.sso_login_states TO service_role, postgres;
+
+ALTER TABLE dashboard.sso_login_states ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- SECRET KEY ID
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dashboard.set_sso_connection_key_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.oidc_client_secret_key_id := public.secret_key_id(NEW.oidc_client_secret_encrypted);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS set_sso_connection_key_id ON dashboard.sso_connections;
+CREATE TRIGGER set_sso_connection_key_id
+  BEFORE INSERT OR UPDATE ON dashboard.sso_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.set_sso_connection_key_id();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- SSO connection of an account, with its domains
+CREATE OR REPLACE FUNCTION public.get_sso_connection(
+  p_account_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  protocol TEXT,
+  enabled BOOLEAN,
+  enforce_sso BOOLEAN,
+  default_role TEXT,
+  domains TEXT[],
+  oidc_issuer TEXT,
+  oidc_client_id TEXT,
+  oidc_client_secret_encrypted TEXT,
+  saml_entry_point TEXT,
+  saml_idp_issuer TEXT,
+  saml_idp_certificate TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.account_id,
+    c.protocol,
+    c.enabled,
+    c.enforce_sso,
+    c.default_role,
+    COALESCE(
+      (SELECT array_agg(d.domain ORDER BY d.domain) FROM dashboard.sso_domains d WHERE d.connection_id = c.id),
+      ARRAY[]::TEXT[]
+    ),
+    c.oidc_issuer,
+    c.oidc_client_id,
+    c.oidc_client_secret_encrypted,
+    c.saml_entry_point,
+    c.saml_idp_issuer,
+    c.saml_idp_certificate,
+    c.created_at,
+    c.updated_at
+  FROM dashboard.sso_connections c
+  WHERE c.account_id = p_account_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Account of the SSO connection that owns an email domain (domain discovery)
+CREATE OR REPLACE FUNCTION public.get_sso_account_by_domain(
+  p_domain TEXT
+)
+RETURNS UUID AS $$
+BEGIN
+  RETURN (
+    SELECT c.account_id
+    FROM dashboard.sso_domains d
+    JOIN dashboard.sso_connections c ON c.id = d.connection_id
+    WHERE d.domain = lower(btrim(p_domain))
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create or replace the SSO connection of an account. A NULL client secret
+-- keeps the stored one. Raises unique_violation when a domain belongs to
+-- another account.
+CREATE OR REPLACE FUNCTION public.upsert_sso_connection(
+  p_account_id UUID,
+  p_protocol TEXT,
+  p_enabled BOOLEAN,
+  p_enforce_sso BOOLEAN,
+  p_default_role TEXT,
+  p_domains TEXT[],
+  p_oidc_issuer TEXT DEFAULT NULL,
+  p_oidc_client_id TEXT DEFAULT NULL,
+  p_oidc_client_secret_encrypted TEXT DEFAULT NULL,
+  p_saml_entry_point TEXT DEFAULT NULL,
+  p_saml_idp_issuer TEXT DEFAULT NULL,
+  p_saml_idp_certificate TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO dashboard.sso_connections (
+    account_id, protocol, enabled, enforce_sso, default_role,
+    oidc_issuer, oidc_client_id, oidc_client_secret_encrypted,
+    saml_entry_point, saml_idp_issuer, saml_idp_certificate, created_by
+  )
+  VALUES (
+    p_account_id, p_protocol, p_enabled, p_enforce_sso, p_default_role,
+    p_oidc_issuer, p_oidc_client_id, p_oidc_client_secret_encrypted,
+    p_saml_entry_point, p_saml_idp_issuer, p_saml_idp_certificate, p_created_by
+  )
+  ON CONFLICT ON CONSTRAINT sso_connections_account_id_key DO UPDATE
+  SET
+    protocol = EXCLUDED.protocol,
+    enabled = EXCLUDED.enabled,
+    enforce_sso = EXCLUDED.enforce_sso,
+    default_role = EXCLUDED.default_role,
+    oidc_issuer = EXCLUDED.oidc_issuer,
+    oidc_client_id = EXCLUDED.oidc_client_id,
+    oidc_client_secret_encrypted = CASE
+      WHEN EXCLUDED.protocol <> 'oidc' THEN NULL
+      ELSE COALESCE(EXCLUDED.oidc_client_secret_encrypted, dashboard.sso_connections.oidc_client_secret_encrypted)
+    END,
+    saml_entry_point = EXCLUDED.saml_entry_point,
+    saml_idp_issuer = EXCLUDED.saml_idp_issuer,
+    saml_idp_certificate = EXCLUDED.saml_idp_certificate,
+    updated_at = NOW()
+  RETURNING id INTO v_id;
+
+  DELETE FROM dashboard.sso_domains WHERE connection_id = v_id;
+
+  INSERT INTO dashboard.sso_domains (domain, connection_id)
+  SELECT DISTINCT lower(btrim(d)), v_id
+  FROM unnest(p_domains) AS d
+  WHERE btrim(d) <> '';
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete the SSO connection of an account (email codes work again)
+CREATE OR REPLACE FUNCTION public.delete_sso_connection(
+  p_account_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM dashboard.sso_connections
+  WHERE account_id = p_account_id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Store the state of an SP-initiated login
+CREATE OR REPLACE FUNCTION public.create_sso_login_state(
+  p_state TEXT,
+  p_connection_id UUID,
+  p_nonce TEXT,
+  p_code_verifier TEXT,
+  p_request_id TEXT,
+  p_redirect_to TEXT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Expired states are dropped as new logins start
+  DELETE FROM dashboard.sso_login_states WHERE expires_at < NOW();
+
+  INSERT INTO dashboard.sso_login_states (
+    state, connection_id, nonce, code_verifier, request_id, redirect_to, expires_at
+  )
+  VALUES (
+    p_state, p_connection_id, p_nonce, p_code_verifier, p_request_id, p_redirect_to, p_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Take the state of a login back (deleted, so it cannot be replayed)
+-- Returns no row when the state is unknown or expired
+CREATE OR REPLACE FUNCTION public.consume_sso_login_state(
+  p_state TEXT
+)
+RETURNS TABLE (
+  state TEXT,
+  connection_id UUID,
+  account_id UUID,
+  nonce TEXT,
+  code_verifier TEXT,
+  request_id TEXT,
+  redirect_to TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH consumed AS (
+    DELETE FROM dashboard.sso_login_states s
+    WHERE s.state = p_state
+    RETURNING s.*
+  )
+  SELECT
+    s.state,
+    s.connection_id,
+    c.account_id,
+    s.nonce,
+    s.code_verifier,
+    s.request_id,
+    s.redirect_to
+  FROM consumed s
+  JOIN dashboard.sso_connections c ON c.id = s.connection_id
+  WHERE s.expires_at >= NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- User signing in through SSO: the existing user of the account, or a new
+-- user with the connection's default role (just-in-time provisioning).
+-- Raises when the email belongs to a user of another account.
+CREATE OR REPLACE FUNCTION public.provision_sso_user(
+  p_account_id UUID,
+  p_email TEXT,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_role TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  account_id UUID,
+  role TEXT,
+  name TEXT,
+  created BOOLEAN
+) AS $$
+DECLARE
+  v_user dashboard.users%ROWTYPE;
+  v_created BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_user
+  FROM dashboard.users u
+  WHERE u.email = lower(btrim(p_email));
+
+  IF FOUND AND v_user.account_id <> p_account_id THEN
+    RAISE EXCEPTION 'User belongs to another account';
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO dashboard.users (account_id, email, first_name, last_name, name, role)
+    VALUES (
+      p_account_id,
+      lower(btrim(p_email)),
+      p_first_name,
+      p_last_name,
+      NULLIF(btrim(concat_ws(' ', p_first_name, p_last_name)), ''),
+      p_role
+    )
+    RETURNING * INTO v_user;
+
+    v_created := true;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_user.id, v_user.email, v_user.account_id, v_user.role, v_user.name, v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- SECRET ROTATION
+-- ============================================================================
+
+-- Recreate get_secrets_for_rotation with the OIDC client secret
+CREATE OR REPLACE FUNCTION public.get_secrets_for_rotation(
+  p_active_key_id TEXT,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  source TEXT,
+  account_id UUID,
+  field TEXT,
+  ciphertext TEXT,
+  key_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'boltx_configurations'::TEXT,
+    c.customer_id,
+    'openai_api_key'::TEXT,
+    c.openai_api_key_encrypted,
+    c.openai_api_key_key_id
+  FROM analytics.boltx_configurations c
+  WHERE c.openai_api_key_encrypted IS NOT NULL
+    AND c.openai_api_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR c.customer_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_key'::TEXT,
+    v.app_key_encrypted,
+    v.app_key_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_token'::TEXT,
+    v.app_token_encrypted,
+    v.app_token_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_token_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'sso_connections'::TEXT,
+    s.account_id,
+    'oidc_client_secret'::TEXT,
+    s.oidc_client_secret_encrypted,
+    s.oidc_client_secret_key_id
+  FROM dashboard.sso_connections s
+  WHERE s.oidc_client_secret_encrypted IS NOT NULL
+    AND s.oidc_client_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR s.account_id = p_account_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Recreate update_rotated_secret with the OIDC client secret
+CREATE OR REPLACE FUNCTION public.update_rotated_secret(
+  p_source TEXT,
+  p_account_id UUID,
+  p_field TEXT,
+  p_old_ciphertext TEXT,
+  p_ciphertext TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_source = 'boltx_configurations' AND p_field = 'openai_api_key' THEN
+    UPDATE analytics.boltx_configurations
+    SET openai_api_key_encrypted = p_ciphertext
+    WHERE customer_id = p_account_id
+      AND openai_api_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_key' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_key_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_token' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_token_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_token_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'sso_connections' AND p_field = 'oidc_client_secret' THEN
+    UPDATE dashboard.sso_connections
+    SET oidc_client_secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND oidc_client_secret_encrypted = p_old_ciphertext;
+  ELSE
+    RAISE EXCEPTION 'Unknown secret %.%', p_source, p_field;
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_sso_connection(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_sso_account_by_domain(TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.upsert_sso_connection(UUID, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_sso_connection(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.create_sso_login_state(TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.consume_sso_login_state(TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.provision_sso_user(UUID, TEXT, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_secrets_for_rotation(TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.update_rotated_secret(TEXT, UUID, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.sso_connections IS
+  'OIDC or SAML 2.0 identity provider of an account, with the role of JIT-provisioned users and SSO enforcement.';
+
+COMMENT ON COLUMN dashboard.sso_connections.enforce_sso IS
+  'When true, email codes are rejected for the connection domains; users must sign in through the IdP.';
+
+COMMENT ON COLUMN dashboard.sso_connections.oidc_client_secret_encrypted IS
+  'OIDC client secret, envelope encrypted (enc:v1 payload).';
+
+COMMENT ON TABLE dashboard.sso_domains IS
+  'Email domains of SSO connections, used for domain discovery on the login page. A domain belongs to one account.';
+
+COMMENT ON TABLE dashboard.sso_login_states IS
+  'Pending SP-initiated SSO logins (OIDC nonce and PKCE verifier, SAML request ID). Consumed once.';
+
+COMMENT ON FUNCTION public.get_sso_connection(UUID) IS
+  'Returns the SSO connection of an account with its domains.';
+
+COMMENT ON FUNCTION public.get_sso_account_by_domain(TEXT) IS
+  'Returns the account whose SSO connection owns an email domain.';
+
+COMMENT ON FUNCTION public.upsert_sso_connection(UUID, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID) IS
+  'Creates or replaces the SSO connection and domains of an account. A NULL client secret keeps the stored one.';
+
+COMMENT ON FUNCTION public.delete_sso_connection(UUID) IS
+  'Deletes the SSO connection of an account.';
+
+COMMENT ON FUNCTION public.create_sso_login_state(TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) IS
+  'Stores the state of an SP-initiated SSO login and drops expired ones.';
+
+COMMENT ON FUNCTION public.consume_sso_login_state(TEXT) IS
+  'Deletes and returns the state of an SSO login; no row when unknown or expired.';
+
+COMMENT ON FUNCTION public.provision_sso_user(UUID, TEXT, TEXT, TEXT, TEXT) IS
+  'Returns the user of an SSO login, creating it with the default role on first login (JIT provisioning).';
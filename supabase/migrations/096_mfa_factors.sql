@@ -0,0 +1,647 @@
+-- ============================================================================
+-- Migration: Second factor for dashboard logins (TOTP and WebAuthn)
+-- ============================================================================
+-- Problem: The emailed 6-digit access code is the only factor of a dashboard
+--          login, so a compromised mailbox gives full access to the account,
+--          including billing and API keys.
+-- Solution: - dashboard.mfa_factors holds the TOTP authenticator apps and
+--             WebAuthn credentials (security keys, passkeys) of each user.
+--             TOTP secrets are envelope encrypted
+--             (src/lib/secrets/envelope.ts) and included in key rotation.
+--           - dashboard.mfa_recovery_codes holds the SHA-256 hashes of
+--             one-time recovery codes.
+--           - dashboard.mfa_challenges keeps logins whose email code was
+--             verified until the second factor is, and the challenges of
+--             WebAuthn registrations.
+--           - dashboard.account_mfa_policies lists the roles that must
+--             use a second factor, set by account owners.
+-- ============================================================================
+
+-- ============================================================================
+-- MFA FACTORS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.mfa_factors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES dashboard.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  -- Shown in the profile, e.g. "Authenticator app", "YubiKey"
+  name TEXT NOT NULL,
+
+  -- TOTP
+  totp_secret_encrypted TEXT,
+  totp_secret_key_id TEXT,
+  -- Time step of the last accepted code (codes are single use)
+  totp_last_step BIGINT,
+
+  -- WebAuthn (base64url)
+  webauthn_credential_id TEXT UNIQUE,
+  webauthn_public_key TEXT,
+  webauthn_counter BIGINT NOT NULL DEFAULT 0,
+  webauthn_transports TEXT[] NOT NULL DEFAULT '{}',
+
+  -- NULL until the first code is confirmed (TOTP enrollment)
+  verified_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT mfa_factors_type CHECK (type IN ('totp', 'webauthn')),
+  CONSTRAINT mfa_factors_totp_fields CHECK (
+    type <> 'totp' OR totp_secret_encrypted IS NOT NULL
+  ),
+  CONSTRAINT mfa_factors_webauthn_fields CHECK (
+    type <> 'webauthn'
+    OR (webauthn_credential_id IS NOT NULL AND webauthn_public_key IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_factors_user
+  ON dashboard.mfa_factors(user_id);
+
+GRANT ALL ON dashboard.mfa_factors TO service_role, postgres;
+
+ALTER TABLE dashboard.mfa_factors ENABLE ROW LEVEL SECURITY;
+
+-- Read and written through the functions below only (the rows hold the
+-- encrypted TOTP secrets)
+
+CREATE TABLE IF NOT EXISTS dashboard.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES dashboard.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT mfa_recovery_codes_unique UNIQUE (user_id, code_hash)
+);
+
+GRANT ALL ON dashboard.mfa_recovery_codes TO service_role, postgres;
+
+ALTER TABLE dashboard.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS dashboard.mfa_challenges (
+  -- Random value (dashboard_mfa cookie or registration token)
+  token TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES dashboard.users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL,
+  -- Challenge of the pending WebAuthn ceremony
+  webauthn_challenge TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT mfa_challenges_purpose CHECK (purpose IN ('login', 'webauthn_registration'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_expires_at
+  ON dashboard.mfa_challenges(expires_at);
+
+GRANT ALL ON dashboard.mfa_challenges TO service_role, postgres;
+
+ALTER TABLE dashboard.mfa_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS dashboard.account_mfa_policies (
+  account_id UUID PRIMARY KEY REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  -- Roles whose users must use a second factor (all four: everyone)
+  required_roles TEXT[] NOT NULL DEFAULT '{}',
+  updated_by UUID,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT account_mfa_policies_roles CHECK (
+    required_roles <@ ARRAY['owner', 'admin', 'editor', 'viewer']::TEXT[]
+  )
+);
+
+GRANT ALL ON dashboard.account_mfa_policies TO service_role, postgres;
+
+ALTER TABLE dashboard.account_mfa_policies ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- SECRET KEY ID
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dashboard.set_mfa_factor_key_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.totp_secret_key_id := public.secret_key_id(NEW.totp_secret_encrypted);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS set_mfa_factor_key_id ON dashboard.mfa_factors;
+CREATE TRIGGER set_mfa_factor_key_id
+  BEFORE INSERT OR UPDATE OF totp_secret_encrypted ON dashboard.mfa_factors
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.set_mfa_factor_key_id();
+
+-- ============================================================================
+-- FACTOR FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_mfa_factors(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  type TEXT,
+  name TEXT,
+  totp_secret_encrypted TEXT,
+  totp_last_step BIGINT,
+  webauthn_credential_id TEXT,
+  webauthn_public_key TEXT,
+  webauthn_counter BIGINT,
+  webauthn_transports TEXT[],
+  verified_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id, f.user_id, f.type, f.name,
+    f.totp_secret_encrypted, f.totp_last_step,
+    f.webauthn_credential_id, f.webauthn_public_key, f.webauthn_counter, f.webauthn_transports,
+    f.verified_at, f.last_used_at, f.created_at
+  FROM dashboard.mfa_factors f
+  WHERE f.user_id = p_user_id
+  ORDER BY f.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.create_mfa_factor(
+  p_user_id UUID,
+  p_type TEXT,
+  p_name TEXT,
+  p_totp_secret_encrypted TEXT,
+  p_webauthn_credential_id TEXT,
+  p_webauthn_public_key TEXT,
+  p_webauthn_counter BIGINT,
+  p_webauthn_transports TEXT[],
+  p_verified BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  -- Abandoned enrollments
+  DELETE FROM dashboard.mfa_factors
+  WHERE user_id = p_user_id
+    AND verified_at IS NULL;
+
+  INSERT INTO dashboard.mfa_factors (
+    user_id, type, name, totp_secret_encrypted,
+    webauthn_credential_id, webauthn_public_key, webauthn_counter, webauthn_transports,
+    verified_at
+  )
+  VALUES (
+    p_user_id, p_type, p_name, p_totp_secret_encrypted,
+    p_webauthn_credential_id, p_webauthn_public_key, COALESCE(p_webauthn_counter, 0),
+    COALESCE(p_webauthn_transports, '{}'),
+    CASE WHEN p_verified THEN NOW() ELSE NULL END
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.use_totp_factor(
+  p_factor_id UUID,
+  p_user_id UUID,
+  p_step BIGINT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  -- Confirms a pending enrollment; a code of an already used time step is
+  -- rejected (replay)
+  UPDATE dashboard.mfa_factors
+  SET
+    totp_last_step = p_step,
+    verified_at = COALESCE(verified_at, NOW()),
+    last_used_at = NOW()
+  WHERE id = p_factor_id
+    AND user_id = p_user_id
+    AND type = 'totp'
+    AND (totp_last_step IS NULL OR totp_last_step < p_step);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.use_webauthn_factor(
+  p_factor_id UUID,
+  p_user_id UUID,
+  p_counter BIGINT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE dashboard.mfa_factors
+  SET
+    webauthn_counter = p_counter,
+    last_used_at = NOW()
+  WHERE id = p_factor_id
+    AND user_id = p_user_id
+    AND type = 'webauthn'
+    AND verified_at IS NOT NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.delete_mfa_factor(
+  p_factor_id UUID,
+  p_user_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM dashboard.mfa_factors
+  WHERE id = p_factor_id
+    AND user_id = p_user_id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Recovery codes only make sense with a second factor
+  IF NOT EXISTS (
+    SELECT 1 FROM dashboard.mfa_factors
+    WHERE user_id = p_user_id AND verified_at IS NOT NULL
+  ) THEN
+    DELETE FROM dashboard.mfa_recovery_codes WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_deleted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- RECOVERY CODE FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.replace_mfa_recovery_codes(
+  p_user_id UUID,
+  p_code_hashes TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM dashboard.mfa_recovery_codes WHERE user_id = p_user_id;
+
+  INSERT INTO dashboard.mfa_recovery_codes (user_id, code_hash)
+  SELECT p_user_id, h FROM unnest(p_code_hashes) AS h;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(
+  p_user_id UUID,
+  p_code_hash TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE dashboard.mfa_recovery_codes
+  SET used_at = NOW()
+  WHERE user_id = p_user_id
+    AND code_hash = p_code_hash
+    AND used_at IS NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.get_mfa_recovery_code_count(p_user_id UUID)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN (
+    SELECT COUNT(*)::INTEGER
+    FROM dashboard.mfa_recovery_codes
+    WHERE user_id = p_user_id
+      AND used_at IS NULL
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- CHALLENGE FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_mfa_challenge(
+  p_token TEXT,
+  p_user_id UUID,
+  p_purpose TEXT,
+  p_webauthn_challenge TEXT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM dashboard.mfa_challenges WHERE expires_at <= NOW();
+
+  INSERT INTO dashboard.mfa_challenges (token, user_id, purpose, webauthn_challenge, expires_at)
+  VALUES (p_token, p_user_id, p_purpose, p_webauthn_challenge, p_expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.get_mfa_challenge(
+  p_token TEXT,
+  p_purpose TEXT
+)
+RETURNS TABLE (
+  token TEXT,
+  user_id UUID,
+  webauthn_challenge TEXT,
+  attempts INTEGER,
+  expires_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.token, c.user_id, c.webauthn_challenge, c.attempts, c.expires_at
+  FROM dashboard.mfa_challenges c
+  WHERE c.token = p_token
+    AND c.purpose = p_purpose
+    AND c.expires_at > NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.set_mfa_challenge_webauthn(
+  p_token TEXT,
+  p_webauthn_challenge TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE dashboard.mfa_challenges
+  SET webauthn_challenge = p_webauthn_challenge
+  WHERE token = p_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.increment_mfa_challenge_attempts(p_token TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_attempts INTEGER;
+BEGIN
+  UPDATE dashboard.mfa_challenges
+  SET attempts = attempts + 1
+  WHERE token = p_token
+  RETURNING attempts INTO v_attempts;
+
+  RETURN COALESCE(v_attempts, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.delete_mfa_challenge(p_token TEXT)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM dashboard.mfa_challenges WHERE token = p_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- POLICY FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_mfa_policy(p_account_id UUID)
+RETURNS TABLE (
+  required_roles TEXT[],
+  updated_by UUID,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.required_roles, p.updated_by, p.updated_at
+  FROM dashboard.account_mfa_policies p
+  WHERE p.account_id = p_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.upsert_mfa_policy(
+  p_account_id UUID,
+  p_required_roles TEXT[],
+  p_updated_by UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO dashboard.account_mfa_policies (account_id, required_roles, updated_by, updated_at)
+  VALUES (p_account_id, p_required_roles, p_updated_by, NOW())
+  ON CONFLICT (account_id) DO UPDATE
+  SET
+    required_roles = EXCLUDED.required_roles,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- SECRET ROTATION
+-- ============================================================================
+
+-- Recreate get_secrets_for_rotation with the TOTP secrets (bound to the
+-- account of their user)
+CREATE OR REPLACE FUNCTION public.get_secrets_for_rotation(
+  p_active_key_id TEXT,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  source TEXT,
+  account_id UUID,
+  field TEXT,
+  ciphertext TEXT,
+  key_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'boltx_configurations'::TEXT,
+    c.customer_id,
+    'openai_api_key'::TEXT,
+    c.openai_api_key_encrypted,
+    c.openai_api_key_key_id
+  FROM analytics.boltx_configurations c
+  WHERE c.openai_api_key_encrypted IS NOT NULL
+    AND c.openai_api_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR c.customer_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_key'::TEXT,
+    v.app_key_encrypted,
+    v.app_key_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_token'::TEXT,
+    v.app_token_encrypted,
+    v.app_token_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_token_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'sso_connections'::TEXT,
+    s.account_id,
+    'oidc_client_secret'::TEXT,
+    s.oidc_client_secret_encrypted,
+    s.oidc_client_secret_key_id
+  FROM dashboard.sso_connections s
+  WHERE s.oidc_client_secret_encrypted IS NOT NULL
+    AND s.oidc_client_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR s.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'mfa_factors'::TEXT,
+    u.account_id,
+    'totp_secret'::TEXT,
+    f.totp_secret_encrypted,
+    f.totp_secret_key_id
+  FROM dashboard.mfa_factors f
+  JOIN dashboard.users u ON u.id = f.user_id
+  WHERE f.totp_secret_encrypted IS NOT NULL
+    AND u.account_id IS NOT NULL
+    AND f.totp_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR u.account_id = p_account_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Recreate update_rotated_secret with the TOTP secrets
+CREATE OR REPLACE FUNCTION public.update_rotated_secret(
+  p_source TEXT,
+  p_account_id UUID,
+  p_field TEXT,
+  p_old_ciphertext TEXT,
+  p_ciphertext TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_source = 'boltx_configurations' AND p_field = 'openai_api_key' THEN
+    UPDATE analytics.boltx_configurations
+    SET openai_api_key_encrypted = p_ciphertext
+    WHERE customer_id = p_account_id
+      AND openai_api_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_key' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_key_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_token' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_token_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_token_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'sso_connections' AND p_field = 'oidc_client_secret' THEN
+    UPDATE dashboard.sso_connections
+    SET oidc_client_secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND oidc_client_secret_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'mfa_factors' AND p_field = 'totp_secret' THEN
+    UPDATE dashboard.mfa_factors f
+    SET totp_secret_encrypted = p_ciphertext
+    FROM dashboard.users u
+    WHERE u.id = f.user_id
+      AND u.account_id = p_account_id
+      AND f.totp_secret_encrypted = p_old_ciphertext;
+  ELSE
+    RAISE EXCEPTION 'Unknown secret %.%', p_source, p_field;
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_mfa_factors(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.create_mfa_factor(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, BIGINT, TEXT[], BOOLEAN)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.use_totp_factor(UUID, UUID, BIGINT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.use_webauthn_factor(UUID, UUID, BIGINT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_mfa_factor(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.replace_mfa_recovery_codes(UUID, TEXT[])
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_mfa_recovery_code_count(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.create_mfa_challenge(TEXT, UUID, TEXT, TEXT, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_mfa_challenge(TEXT, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.set_mfa_challenge_webauthn(TEXT, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.increment_mfa_challenge_attempts(TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_mfa_challenge(TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_mfa_policy(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.upsert_mfa_policy(UUID, TEXT[], UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_secrets_for_rotation(TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.update_rotated_secret(TEXT, UUID, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.mfa_factors IS
+  'Second factors of dashboard users: TOTP authenticator apps and WebAuthn credentials.';
+
+COMMENT ON COLUMN dashboard.mfa_factors.totp_secret_encrypted IS
+  'TOTP shared secret (base32), envelope encrypted (enc:v1 payload).';
+
+COMMENT ON COLUMN dashboard.mfa_factors.verified_at IS
+  'NULL while a TOTP enrollment waits for its first code.';
+
+COMMENT ON TABLE dashboard.mfa_recovery_codes IS
+  'SHA-256 hashes of one-time recovery codes, replaced when regenerated.';
+
+COMMENT ON TABLE dashboard.mfa_challenges IS
+  'Logins waiting for their second factor and pending WebAuthn registrations.';
+
+COMMENT ON TABLE dashboard.account_mfa_policies IS
+  'Roles of an account whose users must use a second factor.';
+
+COMMENT ON FUNCTION public.create_mfa_factor(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, BIGINT, TEXT[], BOOLEAN) IS
+  'Adds a second factor to a user and drops their unconfirmed enrollments.';
+
+COMMENT ON FUNCTION public.use_totp_factor(UUID, UUID, BIGINT) IS
+  'Records an accepted TOTP code (confirming the enrollment); false when the time step was already used.';
+
+COMMENT ON FUNCTION public.use_webauthn_factor(UUID, UUID, BIGINT) IS
+  'Records a WebAuthn authentication with the new signature counter.';
+
+COMMENT ON FUNCTION public.delete_mfa_factor(UUID, UUID) IS
+  'Removes a second factor; the recovery codes go with the last one.';
+
+COMMENT ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) IS
+  'Marks an unused recovery code as used; false when unknown or used.';
+
+COMMENT ON FUNCTION public.create_mfa_challenge(TEXT, UUID, TEXT, TEXT, TIMESTAMPTZ) IS
+  'Stores an MFA login or WebAuthn registration challenge and drops expired ones.';
+
+COMMENT ON FUNCTION public.upsert_mfa_policy(UUID, TEXT[], UUID) IS
+  'Sets the roles of an account whose users must use a second factor.';
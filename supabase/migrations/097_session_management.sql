@@ -0,0 +1,255 @@
+-- ============================================================================
+-- Migration: Active session management and remote revocation
+-- ============================================================================
+-- Problem: dashboard.sessions stores the session of every login, but users
+--          cannot see or revoke them and logout only ends the current one.
+--          A stolen cookie, or a member whose role was reduced, keeps access
+--          until the session expires.
+-- Solution: - Sessions record where they were created (approximate location)
+--             and when they were last used (updated by get_session_by_token,
+--             at most once a minute).
+--           - Functions to list the active sessions of a user, revoke one of
+--             them or all but the current one, and revoke the sessions of an
+--             account member (force logout by owners and admins).
+--           - A trigger revokes the sessions of a user whose built-in or
+--             custom role changes. Deleting a user already removes their
+--             sessions (ON DELETE CASCADE).
+-- ============================================================================
+
+SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- SESSION COLUMNS
+-- ============================================================================
+
+ALTER TABLE dashboard.sessions
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  -- e.g. "São Paulo, SP, BR", from the hosting platform's geolocation headers
+  ADD COLUMN IF NOT EXISTS location TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user
+ON dashboard.sessions (user_id, expires_at DESC);
+
+-- ============================================================================
+-- SESSION FUNCTIONS
+-- ============================================================================
+
+-- The location parameter changes the signature: drop the old one so calls
+-- without it are not ambiguous
+DROP FUNCTION IF EXISTS public.create_session(UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_session(
+  p_user_id UUID,
+  p_token TEXT,
+  p_refresh_token TEXT,
+  p_expires_at TIMESTAMPTZ,
+  p_refresh_expires_at TIMESTAMPTZ,
+  p_ip_address TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  INSERT INTO dashboard.sessions (
+    user_id, token, refresh_token, expires_at, refresh_expires_at,
+    ip_address, user_agent, location, last_seen_at
+  )
+  VALUES (
+    p_user_id, p_token, p_refresh_token, p_expires_at, p_refresh_expires_at,
+    p_ip_address, p_user_agent, p_location, NOW()
+  )
+  RETURNING id INTO v_session_id;
+
+  RETURN v_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Same result as before; also records the session as seen (throttled to one
+-- write per minute per session)
+CREATE OR REPLACE FUNCTION public.get_session_by_token(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  token TEXT,
+  refresh_token TEXT,
+  expires_at TIMESTAMPTZ,
+  refresh_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  ip_address TEXT,
+  user_agent TEXT
+) AS $$
+BEGIN
+  UPDATE dashboard.sessions s
+  SET last_seen_at = NOW()
+  WHERE s.token = p_token
+    AND s.expires_at > NOW()
+    AND (s.last_seen_at IS NULL OR s.last_seen_at < NOW() - INTERVAL '1 minute');
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    s.token,
+    s.refresh_token,
+    s.expires_at,
+    s.refresh_expires_at,
+    s.created_at,
+    s.ip_address,
+    s.user_agent
+  FROM dashboard.sessions s
+  WHERE s.token = p_token
+    AND s.expires_at > NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Active sessions of a user, most recently used first (no tokens)
+CREATE OR REPLACE FUNCTION public.get_user_sessions(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  ip_address TEXT,
+  user_agent TEXT,
+  location TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.last_seen_at, s.created_at),
+    s.expires_at,
+    s.ip_address,
+    s.user_agent,
+    s.location
+  FROM dashboard.sessions s
+  WHERE s.user_id = p_user_id
+    AND s.expires_at > NOW()
+  ORDER BY COALESCE(s.last_seen_at, s.created_at) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Revoke one session of a user
+CREATE OR REPLACE FUNCTION public.revoke_user_session(
+  p_user_id UUID,
+  p_session_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.sessions
+  WHERE id = p_session_id
+    AND user_id = p_user_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Revoke all sessions of a user, except one (the caller's) when given;
+-- returns the number of revoked sessions
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(
+  p_user_id UUID,
+  p_except_session_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_revoked INTEGER;
+BEGIN
+  DELETE FROM dashboard.sessions
+  WHERE user_id = p_user_id
+    AND (p_except_session_id IS NULL OR id <> p_except_session_id);
+
+  GET DIAGNOSTICS v_revoked = ROW_COUNT;
+  RETURN v_revoked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Force logout of an account member by an owner or admin. Admins cannot
+-- force out owners. Returns the number of revoked sessions.
+CREATE OR REPLACE FUNCTION public.revoke_member_sessions(
+  p_user_id UUID,
+  p_revoker_user_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_target dashboard.users%ROWTYPE;
+  v_revoker dashboard.users%ROWTYPE;
+BEGIN
+  SELECT * INTO v_target FROM dashboard.users WHERE id = p_user_id;
+  SELECT * INTO v_revoker FROM dashboard.users WHERE id = p_revoker_user_id;
+
+  IF v_target.id IS NULL OR v_revoker.id IS NULL
+     OR v_target.account_id IS DISTINCT FROM v_revoker.account_id THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF v_revoker.role = 'admin' AND v_target.role = 'owner' THEN
+    RAISE EXCEPTION 'Insufficient permissions to sign out this user';
+  END IF;
+
+  RETURN public.revoke_user_sessions(p_user_id, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- REVOKE SESSIONS ON ROLE CHANGE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dashboard.revoke_sessions_on_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM dashboard.sessions WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = dashboard, public, pg_catalog;
+
+DROP TRIGGER IF EXISTS revoke_sessions_on_role_change ON dashboard.users;
+CREATE TRIGGER revoke_sessions_on_role_change
+  AFTER UPDATE OF role, custom_role_id ON dashboard.users
+  FOR EACH ROW
+  WHEN (
+    OLD.role IS DISTINCT FROM NEW.role
+    OR OLD.custom_role_id IS DISTINCT FROM NEW.custom_role_id
+  )
+  EXECUTE FUNCTION dashboard.revoke_sessions_on_role_change();
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.create_session(UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_session_by_token(TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_user_sessions(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.revoke_user_session(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.revoke_member_sessions(UUID, UUID)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN dashboard.sessions.last_seen_at IS
+  'Last authenticated request of the session (updated at most once a minute).';
+
+COMMENT ON COLUMN dashboard.sessions.location IS
+  'Approximate location of the login, from the hosting platform''s geolocation headers.';
+
+COMMENT ON FUNCTION public.get_user_sessions(UUID) IS
+  'Active sessions of a user without their tokens, most recently used first.';
+
+COMMENT ON FUNCTION public.revoke_user_sessions(UUID, UUID) IS
+  'Revokes all sessions of a user except the given one; returns how many were revoked.';
+
+COMMENT ON FUNCTION public.revoke_member_sessions(UUID, UUID) IS
+  'Force logout of an account member by an owner or admin (admins cannot sign out owners).';
+
+COMMENT ON FUNCTION dashboard.revoke_sessions_on_role_change() IS
+  'Revokes the sessions of a user whose built-in or custom role changed.';
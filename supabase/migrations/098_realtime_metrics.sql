@@ -0,0 +1,129 @@
+-- ============================================================================
+-- Migration: Rolling real-time metrics for the dashboard event stream
+-- ============================================================================
+-- Problem: useRealtimeMetrics subscribes to an SSE endpoint of the checkout
+--          app, so the dashboard's live indicators depend on a service it
+--          does not control. Computing live numbers in the dashboard would
+--          mean pulling raw analytics.events into Node every few seconds.
+-- Solution: One function returning the per-account aggregates of the last
+--           window (5 minutes by default) and of the window before it, plus
+--           the latest abandonment risk of sessions that have not converted
+--           and the timestamp of the newest event (the stream cursor). The
+--           dashboard SSE route polls it and pushes changes to clients.
+-- ============================================================================
+
+SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_ai_predictions_customer_type_created
+ON analytics.ai_predictions (customer_id, prediction_type, created_at DESC);
+
+-- ============================================================================
+-- REALTIME METRICS
+-- ============================================================================
+
+-- Aggregates of the last p_window_seconds and of the previous window
+-- - active_sessions: sessions with any event
+-- - checkouts_started: sessions with a checkout start event
+-- - conversions / revenue: converted sessions and their revenue (highest
+--   conversion revenue per session, see analytics.extract_revenue)
+-- - risk_*: sessions whose latest abandonment prediction in the window has
+--   that risk level and that have not converted
+-- - last_event_at: newest event of the account in both windows
+CREATE OR REPLACE FUNCTION public.get_realtime_metrics(
+  p_customer_id UUID,
+  p_window_seconds INTEGER DEFAULT 300
+)
+RETURNS TABLE (
+  window_start TIMESTAMPTZ,
+  window_end TIMESTAMPTZ,
+  active_sessions BIGINT,
+  checkouts_started BIGINT,
+  conversions BIGINT,
+  revenue NUMERIC,
+  previous_active_sessions BIGINT,
+  previous_checkouts_started BIGINT,
+  previous_conversions BIGINT,
+  previous_revenue NUMERIC,
+  risk_medium BIGINT,
+  risk_high BIGINT,
+  risk_critical BIGINT,
+  last_event_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+  v_window INTERVAL := make_interval(secs => GREATEST(COALESCE(p_window_seconds, 300), 60));
+BEGIN
+  RETURN QUERY
+  WITH recent AS (
+    SELECT
+      e.session_id,
+      e.event_type,
+      e.metadata,
+      e.timestamp,
+      e.timestamp > v_now - v_window AS is_current
+    FROM analytics.events e
+    WHERE e.customer_id = p_customer_id
+      AND e.timestamp > v_now - 2 * v_window
+      AND e.timestamp <= v_now
+  ),
+  converted AS (
+    SELECT
+      r.session_id,
+      r.is_current,
+      MAX(analytics.extract_revenue(r.metadata)) AS revenue
+    FROM recent r
+    WHERE r.event_type IN ('checkout_complete', 'order_confirmed')
+    GROUP BY r.session_id, r.is_current
+  ),
+  risk AS (
+    SELECT DISTINCT ON (p.session_id)
+      p.session_id,
+      p.risk_level
+    FROM analytics.ai_predictions p
+    WHERE p.customer_id = p_customer_id
+      AND p.prediction_type = 'abandonment'
+      AND p.created_at > v_now - v_window
+    ORDER BY p.session_id, p.created_at DESC
+  ),
+  at_risk AS (
+    SELECT k.risk_level
+    FROM risk k
+    WHERE NOT EXISTS (SELECT 1 FROM converted c WHERE c.session_id = k.session_id)
+  )
+  SELECT
+    v_now - v_window,
+    v_now,
+    (SELECT COUNT(DISTINCT r.session_id) FROM recent r WHERE r.is_current),
+    (SELECT COUNT(DISTINCT r.session_id) FROM recent r
+      WHERE r.is_current AND r.event_type IN ('checkout_start', 'checkout_started')),
+    (SELECT COUNT(*) FROM converted c WHERE c.is_current),
+    (SELECT COALESCE(SUM(c.revenue), 0) FROM converted c WHERE c.is_current),
+    (SELECT COUNT(DISTINCT r.session_id) FROM recent r WHERE NOT r.is_current),
+    (SELECT COUNT(DISTINCT r.session_id) FROM recent r
+      WHERE NOT r.is_current AND r.event_type IN ('checkout_start', 'checkout_started')),
+    (SELECT COUNT(*) FROM converted c WHERE NOT c.is_current),
+    (SELECT COALESCE(SUM(c.revenue), 0) FROM converted c WHERE NOT c.is_current),
+    (SELECT COUNT(*) FROM at_risk a WHERE a.risk_level = 'medium'),
+    (SELECT COUNT(*) FROM at_risk a WHERE a.risk_level = 'high'),
+    (SELECT COUNT(*) FROM at_risk a WHERE a.risk_level = 'critical'),
+    (SELECT MAX(r.timestamp) FROM recent r);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_realtime_metrics(UUID, INTEGER)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION public.get_realtime_metrics(UUID, INTEGER) IS
+  'Rolling per-account metrics of the last window and the previous one, with abandonment risk counts (dashboard SSE stream).';
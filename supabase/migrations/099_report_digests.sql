@@ -0,0 +1,253 @@
+-- ============================================================================
+-- Migration: Scheduled email report digests
+-- ============================================================================
+-- Problem: The "email reports" and "weekly digest" switches in settings are
+--          saved but nothing sends them; teams open the Overview and Revenue
+--          pages by hand to follow the week.
+-- Solution: - dashboard.report_digests: per-user daily, weekly or monthly
+--             digest subscriptions with the chosen metrics and the locale
+--             they are rendered in (one subscription per frequency).
+--           - Each subscription stores its next run (08:00 UTC: every day,
+--             Mondays or the 1st of the month).
+--           - claim_due_report_digests hands due subscriptions to the job
+--             runner and moves their next run forward in the same statement,
+--             so overlapping runs never send a digest twice.
+-- ============================================================================
+
+SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.report_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES dashboard.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL,
+  metrics TEXT[] NOT NULL,
+  locale TEXT NOT NULL DEFAULT 'en',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_sent_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT report_digests_frequency_check CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  CONSTRAINT report_digests_metrics_check CHECK (
+    cardinality(metrics) > 0
+    AND metrics <@ ARRAY['conversion_rate', 'revenue', 'avg_order_value', 'abandonment_rate', 'insights']::TEXT[]
+  ),
+  CONSTRAINT report_digests_locale_check CHECK (locale IN ('en', 'es', 'pt-BR')),
+  CONSTRAINT report_digests_user_frequency_key UNIQUE (user_id, frequency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_digests_due
+ON dashboard.report_digests (next_run_at)
+WHERE enabled;
+
+-- ============================================================================
+-- SCHEDULE
+-- ============================================================================
+
+-- Next send time after p_from: 08:00 UTC every day, on Mondays or on the 1st
+CREATE OR REPLACE FUNCTION dashboard.next_report_digest_run(
+  p_frequency TEXT,
+  p_from TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_from TIMESTAMP := p_from AT TIME ZONE 'UTC';
+  v_step INTERVAL;
+  v_next TIMESTAMP;
+BEGIN
+  CASE p_frequency
+    WHEN 'daily' THEN
+      v_next := date_trunc('day', v_from) + INTERVAL '8 hours';
+      v_step := INTERVAL '1 day';
+    WHEN 'weekly' THEN
+      v_next := date_trunc('week', v_from) + INTERVAL '8 hours';
+      v_step := INTERVAL '7 days';
+    WHEN 'monthly' THEN
+      v_next := date_trunc('month', v_from) + INTERVAL '8 hours';
+      v_step := INTERVAL '1 month';
+    ELSE
+      RAISE EXCEPTION 'Invalid digest frequency: %', p_frequency;
+  END CASE;
+
+  IF v_next <= v_from THEN
+    v_next := v_next + v_step;
+  END IF;
+
+  RETURN v_next AT TIME ZONE 'UTC';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = dashboard, public, pg_catalog;
+
+-- ============================================================================
+-- SUBSCRIPTION FUNCTIONS
+-- ============================================================================
+
+-- Digest subscriptions of a user
+CREATE OR REPLACE FUNCTION public.get_user_report_digests(p_user_id UUID)
+RETURNS SETOF dashboard.report_digests AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM dashboard.report_digests d
+  WHERE d.user_id = p_user_id
+  ORDER BY array_position(ARRAY['daily', 'weekly', 'monthly'], d.frequency);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create or update the subscription of a user for a frequency
+-- The next run is only rescheduled when the subscription is new or re-enabled
+CREATE OR REPLACE FUNCTION public.upsert_report_digest(
+  p_user_id UUID,
+  p_frequency TEXT,
+  p_metrics TEXT[],
+  p_locale TEXT,
+  p_enabled BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF dashboard.report_digests AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT u.account_id INTO v_account_id FROM dashboard.users u WHERE u.id = p_user_id;
+
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO dashboard.report_digests AS d (
+    user_id, account_id, frequency, metrics, locale, enabled, next_run_at
+  )
+  VALUES (
+    p_user_id, v_account_id, p_frequency, p_metrics, p_locale, p_enabled,
+    dashboard.next_report_digest_run(p_frequency, NOW())
+  )
+  ON CONFLICT (user_id, frequency) DO UPDATE
+  SET metrics = EXCLUDED.metrics,
+      locale = EXCLUDED.locale,
+      enabled = EXCLUDED.enabled,
+      next_run_at = CASE
+        WHEN EXCLUDED.enabled AND NOT d.enabled THEN EXCLUDED.next_run_at
+        ELSE d.next_run_at
+      END,
+      updated_at = NOW()
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete a subscription of a user
+CREATE OR REPLACE FUNCTION public.delete_report_digest(
+  p_user_id UUID,
+  p_digest_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.report_digests
+  WHERE id = p_digest_id
+    AND user_id = p_user_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- JOB FUNCTIONS
+-- ============================================================================
+
+-- Claim the enabled subscriptions due at p_now (at most p_limit) and move
+-- their next run to the following period. Rows locked by a concurrent run are
+-- skipped. Suspended and cancelled accounts are not sent digests.
+CREATE OR REPLACE FUNCTION public.claim_due_report_digests(
+  p_now TIMESTAMPTZ DEFAULT NOW(),
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  account_id UUID,
+  frequency TEXT,
+  metrics TEXT[],
+  locale TEXT,
+  scheduled_for TIMESTAMPTZ,
+  email TEXT,
+  first_name TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id, d.next_run_at
+    FROM dashboard.report_digests d
+    JOIN customer.accounts a ON a.id = d.account_id
+    WHERE d.enabled
+      AND d.next_run_at <= p_now
+      AND a.status = 'active'
+    ORDER BY d.next_run_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE dashboard.report_digests d
+    SET next_run_at = dashboard.next_report_digest_run(d.frequency, p_now),
+        updated_at = NOW()
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.user_id, d.account_id, d.frequency, d.metrics, d.locale, due.next_run_at
+  )
+  SELECT c.id, c.user_id, c.account_id, c.frequency, c.metrics, c.locale, c.next_run_at,
+         u.email::TEXT, u.first_name::TEXT
+  FROM claimed c
+  JOIN dashboard.users u ON u.id = c.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Record the outcome of a digest send (error = NULL on success)
+CREATE OR REPLACE FUNCTION public.complete_report_digest(
+  p_digest_id UUID,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE dashboard.report_digests
+  SET last_sent_at = CASE WHEN p_error IS NULL THEN NOW() ELSE last_sent_at END,
+      last_error = p_error,
+      updated_at = NOW()
+  WHERE id = p_digest_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON dashboard.report_digests TO service_role, postgres;
+
+GRANT EXECUTE ON FUNCTION dashboard.next_report_digest_run(TEXT, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_user_report_digests(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.upsert_report_digest(UUID, TEXT, TEXT[], TEXT, BOOLEAN)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_report_digest(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.claim_due_report_digests(TIMESTAMPTZ, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.complete_report_digest(UUID, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.report_digests IS
+  'Per-user email report digest subscriptions (daily, weekly or monthly).';
+
+COMMENT ON COLUMN dashboard.report_digests.next_run_at IS
+  'Next send time (08:00 UTC); moved forward when the job runner claims the digest.';
+
+COMMENT ON FUNCTION public.claim_due_report_digests(TIMESTAMPTZ, INTEGER) IS
+  'Claims due digest subscriptions for the job runner and schedules their next run.';
@@ -0,0 +1,773 @@
+-- ============================================================================
+-- Migration: Metric threshold and anomaly alerts
+-- ============================================================================
+-- Problem: Nothing tells an account when conversion crashes at 2 a.m.; the
+--          "conversion alerts" switch in settings is saved but not used.
+-- Solution: - dashboard.alert_channels: where an account's alerts are
+--             delivered (email recipients, a signed generic webhook or a
+--             Slack-compatible incoming webhook). Webhook signing secrets and
+--             Slack webhook URLs (which embed their token) are envelope
+--             encrypted (src/lib/secrets/envelope.ts) and included in key
+--             rotation.
+--           - dashboard.alert_rules: a dashboard metric compared over an
+--             evaluation window with a static threshold, or with its mean
+--             over the trailing windows (anomaly), plus a cooldown between
+--             two alerts of the same rule.
+--           - dashboard.alerts: alerts of a rule with their lifecycle
+--             (firing -> acknowledged -> resolved); at most one open alert
+--             per rule.
+--           - record_alert_evaluation applies an evaluation result to the
+--             lifecycle in one transaction (fire, keep or resolve).
+-- ============================================================================
+
+-- ============================================================================
+-- ALERT CHANNELS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.alert_channels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  -- Email
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  locale TEXT NOT NULL DEFAULT 'en',
+
+  -- Webhook endpoint (Slack URLs are stored in secret_encrypted)
+  url TEXT,
+  -- Webhook signing secret, or the Slack incoming webhook URL
+  secret_encrypted TEXT,
+  secret_key_id TEXT,
+
+  last_delivery_at TIMESTAMPTZ,
+  last_delivery_error TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT alert_channels_type CHECK (type IN ('email', 'webhook', 'slack')),
+  CONSTRAINT alert_channels_locale CHECK (locale IN ('en', 'es', 'pt-BR')),
+  CONSTRAINT alert_channels_email_fields CHECK (type <> 'email' OR cardinality(recipients) > 0),
+  CONSTRAINT alert_channels_webhook_fields CHECK (
+    type <> 'webhook' OR (url IS NOT NULL AND secret_encrypted IS NOT NULL)
+  ),
+  CONSTRAINT alert_channels_slack_fields CHECK (type <> 'slack' OR secret_encrypted IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_channels_account
+ON dashboard.alert_channels (account_id);
+
+GRANT ALL ON dashboard.alert_channels TO service_role, postgres;
+
+ALTER TABLE dashboard.alert_channels ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ALERT RULES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  metric TEXT NOT NULL,
+  -- threshold: value compared with threshold
+  -- anomaly: deviation (%) from the trailing baseline compared with threshold
+  condition_type TEXT NOT NULL,
+  direction TEXT NOT NULL,
+  threshold NUMERIC NOT NULL,
+  window_minutes INTEGER NOT NULL DEFAULT 60,
+  -- Trailing windows averaged into the baseline (anomaly rules)
+  baseline_windows INTEGER NOT NULL DEFAULT 7,
+  -- Windows with fewer checkout sessions are not evaluated
+  min_sessions INTEGER NOT NULL DEFAULT 20,
+  -- Minimum time between two alerts of the rule
+  cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+  channel_ids UUID[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_evaluated_at TIMESTAMPTZ,
+  last_fired_at TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT alert_rules_metric CHECK (metric IN (
+    'conversion_rate', 'abandonment_rate', 'avg_order_value',
+    'total_revenue', 'total_sessions', 'total_conversions'
+  )),
+  CONSTRAINT alert_rules_condition_type CHECK (condition_type IN ('threshold', 'anomaly')),
+  CONSTRAINT alert_rules_direction CHECK (direction IN ('above', 'below')),
+  CONSTRAINT alert_rules_window CHECK (window_minutes BETWEEN 5 AND 10080),
+  CONSTRAINT alert_rules_baseline_windows CHECK (baseline_windows BETWEEN 1 AND 30),
+  CONSTRAINT alert_rules_min_sessions CHECK (min_sessions >= 0),
+  CONSTRAINT alert_rules_cooldown CHECK (cooldown_minutes BETWEEN 0 AND 10080)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_account
+ON dashboard.alert_rules (account_id);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_due
+ON dashboard.alert_rules (last_evaluated_at NULLS FIRST)
+WHERE enabled;
+
+GRANT ALL ON dashboard.alert_rules TO service_role, postgres;
+
+ALTER TABLE dashboard.alert_rules ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ALERTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES dashboard.alert_rules(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'firing',
+  -- Metric value when the alert fired and at the latest evaluation
+  value NUMERIC NOT NULL,
+  last_value NUMERIC NOT NULL,
+  -- Threshold or baseline the value was compared with
+  expected NUMERIC,
+  fired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by UUID REFERENCES dashboard.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  -- NULL when resolved by an evaluation
+  resolved_by UUID REFERENCES dashboard.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT alerts_status CHECK (status IN ('firing', 'acknowledged', 'resolved'))
+);
+
+-- One open (firing or acknowledged) alert per rule
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_open_rule
+ON dashboard.alerts (rule_id)
+WHERE status <> 'resolved';
+
+CREATE INDEX IF NOT EXISTS idx_alerts_account_fired
+ON dashboard.alerts (account_id, fired_at DESC);
+
+GRANT ALL ON dashboard.alerts TO service_role, postgres;
+
+ALTER TABLE dashboard.alerts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- SECRET KEY ID
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dashboard.set_alert_channel_key_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.secret_key_id := public.secret_key_id(NEW.secret_encrypted);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS set_alert_channel_key_id ON dashboard.alert_channels;
+CREATE TRIGGER set_alert_channel_key_id
+  BEFORE INSERT OR UPDATE ON dashboard.alert_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.set_alert_channel_key_id();
+
+-- ============================================================================
+-- CHANNEL FUNCTIONS
+-- ============================================================================
+
+-- Alert channels of an account
+CREATE OR REPLACE FUNCTION public.get_alert_channels(p_account_id UUID)
+RETURNS SETOF dashboard.alert_channels AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM dashboard.alert_channels c
+  WHERE c.account_id = p_account_id
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create a channel, or update it when p_channel_id is given
+-- A NULL p_secret_encrypted keeps the stored secret
+CREATE OR REPLACE FUNCTION public.save_alert_channel(
+  p_account_id UUID,
+  p_channel_id UUID,
+  p_name TEXT,
+  p_type TEXT,
+  p_enabled BOOLEAN,
+  p_recipients TEXT[],
+  p_locale TEXT,
+  p_url TEXT,
+  p_secret_encrypted TEXT,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS SETOF dashboard.alert_channels AS $$
+BEGIN
+  IF p_channel_id IS NULL THEN
+    RETURN QUERY
+    INSERT INTO dashboard.alert_channels (
+      account_id, name, type, enabled, recipients, locale, url, secret_encrypted, created_by
+    )
+    VALUES (
+      p_account_id, p_name, p_type, p_enabled, COALESCE(p_recipients, '{}'), p_locale, p_url,
+      p_secret_encrypted, p_created_by
+    )
+    RETURNING *;
+  ELSE
+    RETURN QUERY
+    UPDATE dashboard.alert_channels c
+    SET name = p_name,
+        enabled = p_enabled,
+        recipients = COALESCE(p_recipients, '{}'),
+        locale = p_locale,
+        url = p_url,
+        secret_encrypted = COALESCE(p_secret_encrypted, c.secret_encrypted),
+        updated_at = NOW()
+    WHERE c.id = p_channel_id
+      AND c.account_id = p_account_id
+      AND c.type = p_type
+    RETURNING c.*;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete a channel and remove it from the rules using it
+CREATE OR REPLACE FUNCTION public.delete_alert_channel(
+  p_account_id UUID,
+  p_channel_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.alert_channels
+  WHERE id = p_channel_id
+    AND account_id = p_account_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE dashboard.alert_rules
+  SET channel_ids = array_remove(channel_ids, p_channel_id),
+      updated_at = NOW()
+  WHERE account_id = p_account_id
+    AND p_channel_id = ANY(channel_ids);
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Record the outcome of a delivery to a channel (error = NULL on success)
+CREATE OR REPLACE FUNCTION public.record_alert_channel_delivery(
+  p_channel_id UUID,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE dashboard.alert_channels
+  SET last_delivery_at = NOW(),
+      last_delivery_error = p_error
+  WHERE id = p_channel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- RULE FUNCTIONS
+-- ============================================================================
+
+-- Alert rules of an account
+CREATE OR REPLACE FUNCTION public.get_alert_rules(p_account_id UUID)
+RETURNS SETOF dashboard.alert_rules AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM dashboard.alert_rules r
+  WHERE r.account_id = p_account_id
+  ORDER BY r.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create a rule, or update it when p_rule_id is given
+-- Channels of other accounts are dropped
+CREATE OR REPLACE FUNCTION public.save_alert_rule(
+  p_account_id UUID,
+  p_rule_id UUID,
+  p_name TEXT,
+  p_metric TEXT,
+  p_condition_type TEXT,
+  p_direction TEXT,
+  p_threshold NUMERIC,
+  p_window_minutes INTEGER,
+  p_baseline_windows INTEGER,
+  p_min_sessions INTEGER,
+  p_cooldown_minutes INTEGER,
+  p_channel_ids UUID[],
+  p_enabled BOOLEAN,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS SETOF dashboard.alert_rules AS $$
+DECLARE
+  v_channel_ids UUID[];
+BEGIN
+  SELECT COALESCE(array_agg(c.id), '{}') INTO v_channel_ids
+  FROM dashboard.alert_channels c
+  WHERE c.account_id = p_account_id
+    AND c.id = ANY(p_channel_ids);
+
+  IF p_rule_id IS NULL THEN
+    RETURN QUERY
+    INSERT INTO dashboard.alert_rules (
+      account_id, name, metric, condition_type, direction, threshold, window_minutes,
+      baseline_windows, min_sessions, cooldown_minutes, channel_ids, enabled, created_by
+    )
+    VALUES (
+      p_account_id, p_name, p_metric, p_condition_type, p_direction, p_threshold,
+      p_window_minutes, p_baseline_windows, p_min_sessions, p_cooldown_minutes, v_channel_ids,
+      p_enabled, p_created_by
+    )
+    RETURNING *;
+  ELSE
+    RETURN QUERY
+    UPDATE dashboard.alert_rules r
+    SET name = p_name,
+        metric = p_metric,
+        condition_type = p_condition_type,
+        direction = p_direction,
+        threshold = p_threshold,
+        window_minutes = p_window_minutes,
+        baseline_windows = p_baseline_windows,
+        min_sessions = p_min_sessions,
+        cooldown_minutes = p_cooldown_minutes,
+        channel_ids = v_channel_ids,
+        enabled = p_enabled,
+        updated_at = NOW()
+    WHERE r.id = p_rule_id
+      AND r.account_id = p_account_id
+    RETURNING r.*;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete a rule (its alerts go with it)
+CREATE OR REPLACE FUNCTION public.delete_alert_rule(
+  p_account_id UUID,
+  p_rule_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.alert_rules
+  WHERE id = p_rule_id
+    AND account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- ALERT FUNCTIONS
+-- ============================================================================
+
+-- Alerts of an account, newest first, with their rule
+CREATE OR REPLACE FUNCTION public.get_alerts(
+  p_account_id UUID,
+  p_status TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  rule_id UUID,
+  rule_name TEXT,
+  metric TEXT,
+  condition_type TEXT,
+  direction TEXT,
+  threshold NUMERIC,
+  window_minutes INTEGER,
+  status TEXT,
+  value NUMERIC,
+  last_value NUMERIC,
+  expected NUMERIC,
+  fired_at TIMESTAMPTZ,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by_email TEXT,
+  resolved_at TIMESTAMPTZ,
+  resolved_by_email TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.rule_id,
+    r.name,
+    r.metric,
+    r.condition_type,
+    r.direction,
+    r.threshold,
+    r.window_minutes,
+    a.status,
+    a.value,
+    a.last_value,
+    a.expected,
+    a.fired_at,
+    a.acknowledged_at,
+    ack.email::TEXT,
+    a.resolved_at,
+    res.email::TEXT
+  FROM dashboard.alerts a
+  JOIN dashboard.alert_rules r ON r.id = a.rule_id
+  LEFT JOIN dashboard.users ack ON ack.id = a.acknowledged_by
+  LEFT JOIN dashboard.users res ON res.id = a.resolved_by
+  WHERE a.account_id = p_account_id
+    AND (p_status IS NULL OR a.status = p_status)
+  ORDER BY a.fired_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Acknowledge a firing alert
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(
+  p_account_id UUID,
+  p_alert_id UUID,
+  p_user_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE dashboard.alerts
+  SET status = 'acknowledged',
+      acknowledged_at = NOW(),
+      acknowledged_by = p_user_id,
+      updated_at = NOW()
+  WHERE id = p_alert_id
+    AND account_id = p_account_id
+    AND status = 'firing';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Resolve an open alert by hand
+CREATE OR REPLACE FUNCTION public.resolve_alert(
+  p_account_id UUID,
+  p_alert_id UUID,
+  p_user_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE dashboard.alerts
+  SET status = 'resolved',
+      resolved_at = NOW(),
+      resolved_by = p_user_id,
+      updated_at = NOW()
+  WHERE id = p_alert_id
+    AND account_id = p_account_id
+    AND status <> 'resolved';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- JOB FUNCTIONS
+-- ============================================================================
+
+-- Claim the enabled rules of active accounts not evaluated in the last
+-- minute (at most p_limit) and mark them evaluated at p_now. Rows locked by a
+-- concurrent run are skipped.
+CREATE OR REPLACE FUNCTION public.claim_alert_rules(
+  p_now TIMESTAMPTZ DEFAULT NOW(),
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF dashboard.alert_rules AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT r.id
+    FROM dashboard.alert_rules r
+    JOIN customer.accounts a ON a.id = r.account_id
+    WHERE r.enabled
+      AND a.status = 'active'
+      AND (r.last_evaluated_at IS NULL OR r.last_evaluated_at <= p_now - INTERVAL '1 minute')
+    ORDER BY r.last_evaluated_at NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE OF r SKIP LOCKED
+  )
+  UPDATE dashboard.alert_rules r
+  SET last_evaluated_at = p_now
+  FROM due
+  WHERE r.id = due.id
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Apply an evaluation of a rule to its alerts:
+-- - breached, no open alert and cooldown over: a firing alert ('fired')
+-- - breached with an open alert: its latest value is updated ('open')
+-- - not breached with an open alert: it is resolved ('resolved')
+-- - otherwise nothing changes ('cooldown' or 'ok')
+CREATE OR REPLACE FUNCTION public.record_alert_evaluation(
+  p_rule_id UUID,
+  p_breached BOOLEAN,
+  p_value NUMERIC,
+  p_expected NUMERIC,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+  transition TEXT,
+  alert_id UUID,
+  fired_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_rule dashboard.alert_rules%ROWTYPE;
+  v_alert dashboard.alerts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rule FROM dashboard.alert_rules r WHERE r.id = p_rule_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert rule not found';
+  END IF;
+
+  SELECT * INTO v_alert
+  FROM dashboard.alerts a
+  WHERE a.rule_id = p_rule_id
+    AND a.status <> 'resolved'
+  FOR UPDATE;
+
+  IF v_alert.id IS NOT NULL THEN
+    IF p_breached THEN
+      UPDATE dashboard.alerts
+      SET last_value = p_value,
+          updated_at = NOW()
+      WHERE id = v_alert.id;
+
+      RETURN QUERY SELECT 'open'::TEXT, v_alert.id, v_alert.fired_at;
+    ELSE
+      UPDATE dashboard.alerts
+      SET status = 'resolved',
+          last_value = p_value,
+          resolved_at = p_now,
+          updated_at = NOW()
+      WHERE id = v_alert.id;
+
+      RETURN QUERY SELECT 'resolved'::TEXT, v_alert.id, v_alert.fired_at;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF NOT p_breached THEN
+    RETURN QUERY SELECT 'ok'::TEXT, NULL::UUID, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF v_rule.last_fired_at IS NOT NULL
+     AND v_rule.last_fired_at + make_interval(mins => v_rule.cooldown_minutes) > p_now THEN
+    RETURN QUERY SELECT 'cooldown'::TEXT, NULL::UUID, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  INSERT INTO dashboard.alerts (rule_id, account_id, status, value, last_value, expected, fired_at)
+  VALUES (p_rule_id, v_rule.account_id, 'firing', p_value, p_value, p_expected, p_now)
+  RETURNING * INTO v_alert;
+
+  UPDATE dashboard.alert_rules
+  SET last_fired_at = p_now
+  WHERE id = p_rule_id;
+
+  RETURN QUERY SELECT 'fired'::TEXT, v_alert.id, v_alert.fired_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- SECRET ROTATION
+-- ============================================================================
+
+-- Recreate get_secrets_for_rotation with the alert channel secrets
+CREATE OR REPLACE FUNCTION public.get_secrets_for_rotation(
+  p_active_key_id TEXT,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  source TEXT,
+  account_id UUID,
+  field TEXT,
+  ciphertext TEXT,
+  key_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'boltx_configurations'::TEXT,
+    c.customer_id,
+    'openai_api_key'::TEXT,
+    c.openai_api_key_encrypted,
+    c.openai_api_key_key_id
+  FROM analytics.boltx_configurations c
+  WHERE c.openai_api_key_encrypted IS NOT NULL
+    AND c.openai_api_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR c.customer_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_key'::TEXT,
+    v.app_key_encrypted,
+    v.app_key_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_token'::TEXT,
+    v.app_token_encrypted,
+    v.app_token_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_token_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'sso_connections'::TEXT,
+    s.account_id,
+    'oidc_client_secret'::TEXT,
+    s.oidc_client_secret_encrypted,
+    s.oidc_client_secret_key_id
+  FROM dashboard.sso_connections s
+  WHERE s.oidc_client_secret_encrypted IS NOT NULL
+    AND s.oidc_client_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR s.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'mfa_factors'::TEXT,
+    u.account_id,
+    'totp_secret'::TEXT,
+    f.totp_secret_encrypted,
+    f.totp_secret_key_id
+  FROM dashboard.mfa_factors f
+  JOIN dashboard.users u ON u.id = f.user_id
+  WHERE f.totp_secret_encrypted IS NOT NULL
+    AND u.account_id IS NOT NULL
+    AND f.totp_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR u.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'alert_channels'::TEXT,
+    ch.account_id,
+    'channel_secret'::TEXT,
+    ch.secret_encrypted,
+    ch.secret_key_id
+  FROM dashboard.alert_channels ch
+  WHERE ch.secret_encrypted IS NOT NULL
+    AND ch.secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR ch.account_id = p_account_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Recreate update_rotated_secret with the alert channel secrets
+CREATE OR REPLACE FUNCTION public.update_rotated_secret(
+  p_source TEXT,
+  p_account_id UUID,
+  p_field TEXT,
+  p_old_ciphertext TEXT,
+  p_ciphertext TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_source = 'boltx_configurations' AND p_field = 'openai_api_key' THEN
+    UPDATE analytics.boltx_configurations
+    SET openai_api_key_encrypted = p_ciphertext
+    WHERE customer_id = p_account_id
+      AND openai_api_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_key' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_key_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_token' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_token_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_token_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'sso_connections' AND p_field = 'oidc_client_secret' THEN
+    UPDATE dashboard.sso_connections
+    SET oidc_client_secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND oidc_client_secret_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'mfa_factors' AND p_field = 'totp_secret' THEN
+    UPDATE dashboard.mfa_factors f
+    SET totp_secret_encrypted = p_ciphertext
+    FROM dashboard.users u
+    WHERE u.id = f.user_id
+      AND u.account_id = p_account_id
+      AND f.totp_secret_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'alert_channels' AND p_field = 'channel_secret' THEN
+    UPDATE dashboard.alert_channels
+    SET secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND secret_encrypted = p_old_ciphertext;
+  ELSE
+    RAISE EXCEPTION 'Unknown secret %.%', p_source, p_field;
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_alert_channels(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.save_alert_channel(UUID, UUID, TEXT, TEXT, BOOLEAN, TEXT[], TEXT, TEXT, TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_alert_channel(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.record_alert_channel_delivery(UUID, TEXT)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_alert_rules(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.save_alert_rule(UUID, UUID, TEXT, TEXT, TEXT, TEXT, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, UUID[], BOOLEAN, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_alert_rule(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_alerts(UUID, TEXT, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.acknowledge_alert(UUID, UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.resolve_alert(UUID, UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.claim_alert_rules(TIMESTAMPTZ, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.record_alert_evaluation(UUID, BOOLEAN, NUMERIC, NUMERIC, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_secrets_for_rotation(TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.update_rotated_secret(TEXT, UUID, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.alert_channels IS
+  'Where the metric alerts of an account are delivered: email, signed webhook or Slack.';
+
+COMMENT ON COLUMN dashboard.alert_channels.secret_encrypted IS
+  'Webhook signing secret or Slack incoming webhook URL, envelope encrypted (enc:v1 payload).';
+
+COMMENT ON TABLE dashboard.alert_rules IS
+  'Threshold and anomaly rules on dashboard metrics, evaluated by the metric alerts job.';
+
+COMMENT ON TABLE dashboard.alerts IS
+  'Alerts of metric rules: firing, acknowledged or resolved; one open alert per rule.';
+
+COMMENT ON FUNCTION public.claim_alert_rules(TIMESTAMPTZ, INTEGER) IS
+  'Claims the enabled rules due for evaluation and marks them evaluated.';
+
+COMMENT ON FUNCTION public.record_alert_evaluation(UUID, BOOLEAN, NUMERIC, NUMERIC, TIMESTAMPTZ) IS
+  'Fires, keeps or resolves the alert of a rule from an evaluation result.';
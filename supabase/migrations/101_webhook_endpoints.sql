@@ -0,0 +1,651 @@
+-- ============================================================================
+-- Migration: Outbound webhooks for account events
+-- ============================================================================
+-- Problem: Customers cannot react in their own systems when a BoltX
+--          intervention fires, a high-risk transaction is flagged, a purchase
+--          order needs approval, a theme is activated or a subscription
+--          changes; they have to poll the dashboard.
+-- Solution: - dashboard.webhook_endpoints: HTTPS endpoints of an account with
+--             the event types they subscribe to. Each endpoint has its own
+--             signing secret (envelope encrypted, included in key rotation);
+--             requests are signed like the alert webhooks
+--             (src/lib/webhooks/signature.ts).
+--           - dashboard.webhook_deliveries: one delivery per event and
+--             subscribed endpoint, retried with exponential backoff by the
+--             webhook deliveries job until it succeeds or runs out of
+--             attempts (dead).
+--           - dashboard.webhook_delivery_attempts: the delivery log, with the
+--             request headers and the response of every attempt.
+-- ============================================================================
+
+-- ============================================================================
+-- WEBHOOK ENDPOINTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  secret_encrypted TEXT NOT NULL,
+  secret_key_id TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT webhook_endpoints_event_types CHECK (cardinality(event_types) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_account
+ON dashboard.webhook_endpoints (account_id);
+
+GRANT ALL ON dashboard.webhook_endpoints TO service_role, postgres;
+
+ALTER TABLE dashboard.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- WEBHOOK DELIVERIES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES dashboard.webhook_endpoints(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES customer.accounts(id) ON DELETE CASCADE,
+  -- id of the event in the payload (the same for every endpoint)
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  -- Request body sent on every attempt
+  payload JSONB NOT NULL,
+  -- pending: waiting for its next attempt
+  -- succeeded: an attempt got a 2xx response
+  -- dead: failed on its last attempt
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ,
+  last_response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT webhook_deliveries_status CHECK (status IN ('pending', 'succeeded', 'dead')),
+  CONSTRAINT webhook_deliveries_event UNIQUE (endpoint_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+ON dashboard.webhook_deliveries (next_attempt_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created
+ON dashboard.webhook_deliveries (endpoint_id, created_at DESC);
+
+GRANT ALL ON dashboard.webhook_deliveries TO service_role, postgres;
+
+ALTER TABLE dashboard.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- WEBHOOK DELIVERY ATTEMPTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dashboard.webhook_delivery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES dashboard.webhook_deliveries(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  request_headers JSONB NOT NULL DEFAULT '{}',
+  -- NULL when no response was received (timeout, DNS, TLS, ...)
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery
+ON dashboard.webhook_delivery_attempts (delivery_id, attempt);
+
+GRANT ALL ON dashboard.webhook_delivery_attempts TO service_role, postgres;
+
+ALTER TABLE dashboard.webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- SECRET KEY ID
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dashboard.set_webhook_endpoint_key_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.secret_key_id := public.secret_key_id(NEW.secret_encrypted);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS set_webhook_endpoint_key_id ON dashboard.webhook_endpoints;
+CREATE TRIGGER set_webhook_endpoint_key_id
+  BEFORE INSERT OR UPDATE ON dashboard.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION dashboard.set_webhook_endpoint_key_id();
+
+-- ============================================================================
+-- ENDPOINT FUNCTIONS
+-- ============================================================================
+
+-- Webhook endpoints of an account
+CREATE OR REPLACE FUNCTION public.get_webhook_endpoints(p_account_id UUID)
+RETURNS SETOF dashboard.webhook_endpoints AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM dashboard.webhook_endpoints e
+  WHERE e.account_id = p_account_id
+  ORDER BY e.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create an endpoint, or update it when p_endpoint_id is given
+-- A NULL p_secret_encrypted keeps the stored secret
+CREATE OR REPLACE FUNCTION public.save_webhook_endpoint(
+  p_account_id UUID,
+  p_endpoint_id UUID,
+  p_url TEXT,
+  p_description TEXT,
+  p_event_types TEXT[],
+  p_enabled BOOLEAN,
+  p_secret_encrypted TEXT,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS SETOF dashboard.webhook_endpoints AS $$
+BEGIN
+  IF p_endpoint_id IS NULL THEN
+    RETURN QUERY
+    INSERT INTO dashboard.webhook_endpoints (
+      account_id, url, description, event_types, enabled, secret_encrypted, created_by
+    )
+    VALUES (
+      p_account_id, p_url, COALESCE(p_description, ''), p_event_types, p_enabled,
+      p_secret_encrypted, p_created_by
+    )
+    RETURNING *;
+  ELSE
+    RETURN QUERY
+    UPDATE dashboard.webhook_endpoints e
+    SET url = p_url,
+        description = COALESCE(p_description, ''),
+        event_types = p_event_types,
+        enabled = p_enabled,
+        secret_encrypted = COALESCE(p_secret_encrypted, e.secret_encrypted),
+        updated_at = NOW()
+    WHERE e.id = p_endpoint_id
+      AND e.account_id = p_account_id
+    RETURNING e.*;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Delete an endpoint (its deliveries go with it)
+CREATE OR REPLACE FUNCTION public.delete_webhook_endpoint(
+  p_account_id UUID,
+  p_endpoint_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM dashboard.webhook_endpoints
+  WHERE id = p_endpoint_id
+    AND account_id = p_account_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- DELIVERY FUNCTIONS
+-- ============================================================================
+
+-- Queue an event for the enabled endpoints of the account subscribed to its
+-- type; returns the number of deliveries created
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  p_account_id UUID,
+  p_event_id UUID,
+  p_event_type TEXT,
+  p_payload JSONB,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_queued INTEGER;
+BEGIN
+  INSERT INTO dashboard.webhook_deliveries (
+    endpoint_id, account_id, event_id, event_type, payload, next_attempt_at
+  )
+  SELECT e.id, e.account_id, p_event_id, p_event_type, p_payload, p_now
+  FROM dashboard.webhook_endpoints e
+  WHERE e.account_id = p_account_id
+    AND e.enabled
+    AND p_event_type = ANY(e.event_types)
+  ON CONFLICT (endpoint_id, event_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_queued = ROW_COUNT;
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create a delivery of an event to one endpoint (test events), leased until
+-- p_lease_until so the job does not attempt it meanwhile
+CREATE OR REPLACE FUNCTION public.create_webhook_delivery(
+  p_account_id UUID,
+  p_endpoint_id UUID,
+  p_event_id UUID,
+  p_event_type TEXT,
+  p_payload JSONB,
+  p_lease_until TIMESTAMPTZ
+)
+RETURNS TABLE (
+  id UUID,
+  endpoint_id UUID,
+  account_id UUID,
+  event_id UUID,
+  event_type TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  url TEXT,
+  secret_encrypted TEXT
+) AS $$
+DECLARE
+  v_delivery_id UUID;
+BEGIN
+  INSERT INTO dashboard.webhook_deliveries (
+    endpoint_id, account_id, event_id, event_type, payload, next_attempt_at
+  )
+  SELECT e.id, e.account_id, p_event_id, p_event_type, p_payload, p_lease_until
+  FROM dashboard.webhook_endpoints e
+  WHERE e.id = p_endpoint_id
+    AND e.account_id = p_account_id
+  RETURNING dashboard.webhook_deliveries.id INTO v_delivery_id;
+
+  IF v_delivery_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT d.id, d.endpoint_id, d.account_id, d.event_id, d.event_type, d.payload, d.attempts,
+         e.url, e.secret_encrypted
+  FROM dashboard.webhook_deliveries d
+  JOIN dashboard.webhook_endpoints e ON e.id = d.endpoint_id
+  WHERE d.id = v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Claim the pending deliveries due at p_now (at most p_limit) to enabled
+-- endpoints of active accounts, leasing them until p_lease_until so a crashed
+-- run is retried later. Rows locked by a concurrent run are skipped.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(
+  p_now TIMESTAMPTZ DEFAULT NOW(),
+  p_lease_until TIMESTAMPTZ DEFAULT NOW() + INTERVAL '5 minutes',
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  endpoint_id UUID,
+  account_id UUID,
+  event_id UUID,
+  event_type TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  url TEXT,
+  secret_encrypted TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM dashboard.webhook_deliveries d
+    JOIN dashboard.webhook_endpoints e ON e.id = d.endpoint_id
+    JOIN customer.accounts a ON a.id = d.account_id
+    WHERE d.status = 'pending'
+      AND d.next_attempt_at <= p_now
+      AND e.enabled
+      AND a.status = 'active'
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE dashboard.webhook_deliveries d
+    SET next_attempt_at = p_lease_until
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.*
+  )
+  SELECT c.id, c.endpoint_id, c.account_id, c.event_id, c.event_type, c.payload, c.attempts,
+         e.url, e.secret_encrypted
+  FROM claimed c
+  JOIN dashboard.webhook_endpoints e ON e.id = c.endpoint_id
+  ORDER BY c.next_attempt_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Record an attempt of a delivery:
+-- - succeeded: the delivery is done
+-- - failed with p_next_attempt_at: retried at that time
+-- - failed without p_next_attempt_at: the delivery is dead
+CREATE OR REPLACE FUNCTION public.record_webhook_attempt(
+  p_delivery_id UUID,
+  p_request_headers JSONB,
+  p_response_status INTEGER,
+  p_response_body TEXT,
+  p_error TEXT,
+  p_duration_ms INTEGER,
+  p_succeeded BOOLEAN,
+  p_next_attempt_at TIMESTAMPTZ,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_delivery dashboard.webhook_deliveries%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_delivery
+  FROM dashboard.webhook_deliveries d
+  WHERE d.id = p_delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook delivery not found';
+  END IF;
+
+  v_status := CASE
+    WHEN p_succeeded THEN 'succeeded'
+    WHEN p_next_attempt_at IS NOT NULL THEN 'pending'
+    ELSE 'dead'
+  END;
+
+  INSERT INTO dashboard.webhook_delivery_attempts (
+    delivery_id, attempt, request_headers, response_status, response_body, error, duration_ms,
+    attempted_at
+  )
+  VALUES (
+    p_delivery_id, v_delivery.attempts + 1, COALESCE(p_request_headers, '{}'), p_response_status,
+    p_response_body, p_error, p_duration_ms, p_now
+  );
+
+  UPDATE dashboard.webhook_deliveries
+  SET status = v_status,
+      attempts = v_delivery.attempts + 1,
+      next_attempt_at = CASE WHEN v_status = 'pending' THEN p_next_attempt_at END,
+      last_attempt_at = p_now,
+      last_response_status = p_response_status,
+      last_error = p_error,
+      delivered_at = CASE WHEN p_succeeded THEN p_now END
+  WHERE id = p_delivery_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Deliveries of an endpoint, newest first
+CREATE OR REPLACE FUNCTION public.get_webhook_deliveries(
+  p_account_id UUID,
+  p_endpoint_id UUID,
+  p_status TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF dashboard.webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM dashboard.webhook_deliveries d
+  WHERE d.account_id = p_account_id
+    AND d.endpoint_id = p_endpoint_id
+    AND (p_status IS NULL OR d.status = p_status)
+  ORDER BY d.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Attempts of a delivery of an account, in order
+CREATE OR REPLACE FUNCTION public.get_webhook_delivery_attempts(
+  p_account_id UUID,
+  p_delivery_id UUID
+)
+RETURNS SETOF dashboard.webhook_delivery_attempts AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.*
+  FROM dashboard.webhook_delivery_attempts t
+  JOIN dashboard.webhook_deliveries d ON d.id = t.delivery_id
+  WHERE d.account_id = p_account_id
+    AND t.delivery_id = p_delivery_id
+  ORDER BY t.attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Queue a delivery again (succeeded or dead); the job attempts it on its next run
+CREATE OR REPLACE FUNCTION public.redeliver_webhook_delivery(
+  p_account_id UUID,
+  p_delivery_id UUID,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE dashboard.webhook_deliveries
+  SET status = 'pending',
+      next_attempt_at = p_now
+  WHERE id = p_delivery_id
+    AND account_id = p_account_id
+    AND status <> 'pending';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- SECRET ROTATION
+-- ============================================================================
+
+-- Recreate get_secrets_for_rotation with the webhook endpoint secrets
+CREATE OR REPLACE FUNCTION public.get_secrets_for_rotation(
+  p_active_key_id TEXT,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  source TEXT,
+  account_id UUID,
+  field TEXT,
+  ciphertext TEXT,
+  key_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'boltx_configurations'::TEXT,
+    c.customer_id,
+    'openai_api_key'::TEXT,
+    c.openai_api_key_encrypted,
+    c.openai_api_key_key_id
+  FROM analytics.boltx_configurations c
+  WHERE c.openai_api_key_encrypted IS NOT NULL
+    AND c.openai_api_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR c.customer_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_key'::TEXT,
+    v.app_key_encrypted,
+    v.app_key_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_key_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'vtex_credentials'::TEXT,
+    v.account_id,
+    'app_token'::TEXT,
+    v.app_token_encrypted,
+    v.app_token_key_id
+  FROM dashboard.vtex_credentials v
+  WHERE v.app_token_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR v.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'sso_connections'::TEXT,
+    s.account_id,
+    'oidc_client_secret'::TEXT,
+    s.oidc_client_secret_encrypted,
+    s.oidc_client_secret_key_id
+  FROM dashboard.sso_connections s
+  WHERE s.oidc_client_secret_encrypted IS NOT NULL
+    AND s.oidc_client_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR s.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'mfa_factors'::TEXT,
+    u.account_id,
+    'totp_secret'::TEXT,
+    f.totp_secret_encrypted,
+    f.totp_secret_key_id
+  FROM dashboard.mfa_factors f
+  JOIN dashboard.users u ON u.id = f.user_id
+  WHERE f.totp_secret_encrypted IS NOT NULL
+    AND u.account_id IS NOT NULL
+    AND f.totp_secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR u.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'alert_channels'::TEXT,
+    ch.account_id,
+    'channel_secret'::TEXT,
+    ch.secret_encrypted,
+    ch.secret_key_id
+  FROM dashboard.alert_channels ch
+  WHERE ch.secret_encrypted IS NOT NULL
+    AND ch.secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR ch.account_id = p_account_id);
+
+  RETURN QUERY
+  SELECT
+    'webhook_endpoints'::TEXT,
+    we.account_id,
+    'endpoint_secret'::TEXT,
+    we.secret_encrypted,
+    we.secret_key_id
+  FROM dashboard.webhook_endpoints we
+  WHERE we.secret_key_id IS DISTINCT FROM p_active_key_id
+    AND (p_account_id IS NULL OR we.account_id = p_account_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Recreate update_rotated_secret with the webhook endpoint secrets
+CREATE OR REPLACE FUNCTION public.update_rotated_secret(
+  p_source TEXT,
+  p_account_id UUID,
+  p_field TEXT,
+  p_old_ciphertext TEXT,
+  p_ciphertext TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_source = 'boltx_configurations' AND p_field = 'openai_api_key' THEN
+    UPDATE analytics.boltx_configurations
+    SET openai_api_key_encrypted = p_ciphertext
+    WHERE customer_id = p_account_id
+      AND openai_api_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_key' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_key_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_key_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'vtex_credentials' AND p_field = 'app_token' THEN
+    UPDATE dashboard.vtex_credentials
+    SET app_token_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND app_token_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'sso_connections' AND p_field = 'oidc_client_secret' THEN
+    UPDATE dashboard.sso_connections
+    SET oidc_client_secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND oidc_client_secret_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'mfa_factors' AND p_field = 'totp_secret' THEN
+    UPDATE dashboard.mfa_factors f
+    SET totp_secret_encrypted = p_ciphertext
+    FROM dashboard.users u
+    WHERE u.id = f.user_id
+      AND u.account_id = p_account_id
+      AND f.totp_secret_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'alert_channels' AND p_field = 'channel_secret' THEN
+    UPDATE dashboard.alert_channels
+    SET secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND secret_encrypted = p_old_ciphertext;
+  ELSIF p_source = 'webhook_endpoints' AND p_field = 'endpoint_secret' THEN
+    UPDATE dashboard.webhook_endpoints
+    SET secret_encrypted = p_ciphertext
+    WHERE account_id = p_account_id
+      AND secret_encrypted = p_old_ciphertext;
+  ELSE
+    RAISE EXCEPTION 'Unknown secret %.%', p_source, p_field;
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_webhook_endpoints(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.save_webhook_endpoint(UUID, UUID, TEXT, TEXT, TEXT[], BOOLEAN, TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.delete_webhook_endpoint(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.enqueue_webhook_event(UUID, UUID, TEXT, JSONB, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.create_webhook_delivery(UUID, UUID, UUID, TEXT, JSONB, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_deliveries(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.record_webhook_attempt(UUID, JSONB, INTEGER, TEXT, TEXT, INTEGER, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_webhook_deliveries(UUID, UUID, TEXT, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_webhook_delivery_attempts(UUID, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.redeliver_webhook_delivery(UUID, UUID, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_secrets_for_rotation(TEXT, UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.update_rotated_secret(TEXT, UUID, TEXT, TEXT, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE dashboard.webhook_endpoints IS
+  'HTTPS endpoints of an account receiving signed webhook events of the subscribed types.';
+
+COMMENT ON COLUMN dashboard.webhook_endpoints.secret_encrypted IS
+  'Signing secret of the endpoint, envelope encrypted (enc:v1 payload).';
+
+COMMENT ON TABLE dashboard.webhook_deliveries IS
+  'Deliveries of webhook events to endpoints: pending (with retries), succeeded or dead.';
+
+COMMENT ON TABLE dashboard.webhook_delivery_attempts IS
+  'Delivery log: request headers and response of every attempt of a webhook delivery.';
+
+COMMENT ON FUNCTION public.claim_webhook_deliveries(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) IS
+  'Claims the pending webhook deliveries due for an attempt and leases them.';
+
+COMMENT ON FUNCTION public.record_webhook_attempt(UUID, JSONB, INTEGER, TEXT, TEXT, INTEGER, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ) IS
+  'Logs an attempt of a webhook delivery and marks it succeeded, retried or dead.';
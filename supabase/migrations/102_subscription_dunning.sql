@@ -0,0 +1,337 @@
+-- ============================================================================
+-- Migration: Dunning for failed subscription payments
+-- ============================================================================
+-- Problem: A failed renewal payment is only recorded as a failed transaction.
+--          The subscription stays active forever, nobody is told, and the
+--          payment is never collected again.
+-- Solution: A dunning state machine on dashboard.subscriptions:
+--           - past_due: the renewal payment failed. The dunning job retries
+--             the open invoice on a configurable schedule (days after the
+--             first failure).
+--           - grace: every retry failed. Access is kept for a grace period.
+--           - suspended: the grace period ended. Access to the dashboard is
+--             reduced to plans and settings until the invoice is paid.
+--           Owners and admins get a reminder email at each stage. A later
+--           successful payment (webhook, retry or new payment method) clears
+--           the dunning state and restores access. The subscription status
+--           stays 'active' throughout: dunning is a billing concern layered
+--           on top of the subscription lifecycle.
+-- ============================================================================
+
+-- ============================================================================
+-- SUBSCRIPTION DUNNING COLUMNS
+-- ============================================================================
+
+ALTER TABLE dashboard.subscriptions
+  ADD COLUMN IF NOT EXISTS dunning_state TEXT,
+  ADD COLUMN IF NOT EXISTS dunning_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dunning_state_changed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dunning_retries INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dunning_invoice_id TEXT,
+  ADD COLUMN IF NOT EXISTS dunning_last_error TEXT,
+  ADD COLUMN IF NOT EXISTS next_dunning_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dunning_lease_until TIMESTAMPTZ;
+
+ALTER TABLE dashboard.subscriptions
+  DROP CONSTRAINT IF EXISTS check_subscription_dunning_state;
+
+ALTER TABLE dashboard.subscriptions
+  ADD CONSTRAINT check_subscription_dunning_state
+  CHECK (dunning_state IS NULL OR dunning_state IN ('past_due', 'grace', 'suspended'));
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_next_dunning_at
+  ON dashboard.subscriptions (next_dunning_at)
+  WHERE dunning_state IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Subscriptions of an account, now with the payment gateway fields and the
+-- dunning state (same columns as migration 070 otherwise)
+DROP FUNCTION IF EXISTS public.get_subscriptions_by_account(UUID);
+
+CREATE FUNCTION public.get_subscriptions_by_account(p_account_id UUID)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  plan_id UUID,
+  status TEXT,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  billing_cycle TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  payment_provider TEXT,
+  gateway_subscription_id TEXT,
+  gateway_customer_id TEXT,
+  dunning_state TEXT,
+  dunning_started_at TIMESTAMPTZ,
+  dunning_state_changed_at TIMESTAMPTZ,
+  dunning_invoice_id TEXT,
+  next_dunning_at TIMESTAMPTZ,
+  plan JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.account_id,
+    s.plan_id,
+    s.status,
+    s.started_at,
+    s.ended_at,
+    s.cancelled_at,
+    s.billing_cycle,
+    s.created_at,
+    s.updated_at,
+    s.payment_provider,
+    s.gateway_subscription_id,
+    s.gateway_customer_id,
+    s.dunning_state,
+    s.dunning_started_at,
+    s.dunning_state_changed_at,
+    s.dunning_invoice_id,
+    s.next_dunning_at,
+    to_jsonb(p.*) AS plan
+  FROM dashboard.subscriptions s
+  JOIN dashboard.plans p ON s.plan_id = p.id
+  WHERE s.account_id = p_account_id
+  ORDER BY s.started_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Record a failed renewal payment. A subscription not in dunning enters
+-- past_due (started = true) with its first retry at p_next_dunning_at; one
+-- already in dunning only keeps the latest invoice and error.
+CREATE OR REPLACE FUNCTION public.start_subscription_dunning(
+  p_subscription_id UUID,
+  p_invoice_id TEXT,
+  p_error TEXT,
+  p_next_dunning_at TIMESTAMPTZ,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+  dunning_state TEXT,
+  started BOOLEAN
+) AS $$
+DECLARE
+  v_subscription dashboard.subscriptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_subscription
+  FROM dashboard.subscriptions s
+  WHERE s.id = p_subscription_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_subscription.dunning_state IS NULL THEN
+    UPDATE dashboard.subscriptions s
+    SET dunning_state = 'past_due',
+        dunning_started_at = p_now,
+        dunning_state_changed_at = p_now,
+        dunning_retries = 0,
+        dunning_invoice_id = p_invoice_id,
+        dunning_last_error = p_error,
+        next_dunning_at = p_next_dunning_at,
+        dunning_lease_until = NULL,
+        updated_at = p_now
+    WHERE s.id = p_subscription_id;
+
+    RETURN QUERY SELECT 'past_due'::TEXT, true;
+  ELSE
+    UPDATE dashboard.subscriptions s
+    SET dunning_invoice_id = COALESCE(p_invoice_id, s.dunning_invoice_id),
+        dunning_last_error = p_error,
+        updated_at = p_now
+    WHERE s.id = p_subscription_id;
+
+    RETURN QUERY SELECT v_subscription.dunning_state, false;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Claim the subscriptions whose next dunning step is due (past_due: retry
+-- the payment, grace: suspend) and lease them to the run
+CREATE OR REPLACE FUNCTION public.claim_subscription_dunning(
+  p_now TIMESTAMPTZ DEFAULT NOW(),
+  p_lease_until TIMESTAMPTZ DEFAULT NOW() + INTERVAL '15 minutes',
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  plan_id UUID,
+  gateway_subscription_id TEXT,
+  dunning_state TEXT,
+  dunning_started_at TIMESTAMPTZ,
+  dunning_retries INTEGER,
+  dunning_invoice_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT s.id
+    FROM dashboard.subscriptions s
+    WHERE s.status = 'active'
+      AND s.dunning_state IN ('past_due', 'grace')
+      AND s.next_dunning_at <= p_now
+      AND (s.dunning_lease_until IS NULL OR s.dunning_lease_until <= p_now)
+    ORDER BY s.next_dunning_at
+    LIMIT p_limit
+    FOR UPDATE OF s SKIP LOCKED
+  )
+  UPDATE dashboard.subscriptions s
+  SET dunning_lease_until = p_lease_until
+  FROM due
+  WHERE s.id = due.id
+  RETURNING
+    s.id,
+    s.account_id,
+    s.plan_id,
+    s.gateway_subscription_id,
+    s.dunning_state,
+    s.dunning_started_at,
+    s.dunning_retries,
+    s.dunning_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Move a subscription in dunning to its next step and release its lease.
+-- Returns the previous state, or NULL when the subscription left dunning in
+-- the meantime (e.g. paid while the job ran): nothing is changed then.
+CREATE OR REPLACE FUNCTION public.advance_subscription_dunning(
+  p_subscription_id UUID,
+  p_state TEXT,
+  p_retries INTEGER,
+  p_next_dunning_at TIMESTAMPTZ,
+  p_error TEXT,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_previous TEXT;
+BEGIN
+  SELECT s.dunning_state INTO v_previous
+  FROM dashboard.subscriptions s
+  WHERE s.id = p_subscription_id
+  FOR UPDATE;
+
+  IF v_previous IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE dashboard.subscriptions s
+  SET dunning_state = p_state,
+      dunning_state_changed_at = CASE
+        WHEN p_state <> v_previous THEN p_now
+        ELSE s.dunning_state_changed_at
+      END,
+      dunning_retries = p_retries,
+      dunning_last_error = COALESCE(p_error, s.dunning_last_error),
+      next_dunning_at = p_next_dunning_at,
+      dunning_lease_until = NULL,
+      updated_at = p_now
+  WHERE s.id = p_subscription_id;
+
+  RETURN v_previous;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Clear the dunning state after a successful payment. Returns the state the
+-- subscription was in, or NULL when it was not in dunning.
+CREATE OR REPLACE FUNCTION public.clear_subscription_dunning(
+  p_subscription_id UUID,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_previous TEXT;
+BEGIN
+  SELECT s.dunning_state INTO v_previous
+  FROM dashboard.subscriptions s
+  WHERE s.id = p_subscription_id
+  FOR UPDATE;
+
+  IF v_previous IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE dashboard.subscriptions s
+  SET dunning_state = NULL,
+      dunning_started_at = NULL,
+      dunning_state_changed_at = NULL,
+      dunning_retries = 0,
+      dunning_invoice_id = NULL,
+      dunning_last_error = NULL,
+      next_dunning_at = NULL,
+      dunning_lease_until = NULL,
+      updated_at = p_now
+  WHERE s.id = p_subscription_id;
+
+  RETURN v_previous;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Who receives the dunning reminders of an account: its owners and admins,
+-- in the language of their settings
+CREATE OR REPLACE FUNCTION public.get_dunning_recipients(p_account_id UUID)
+RETURNS TABLE (
+  email TEXT,
+  first_name TEXT,
+  locale TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.email,
+    u.first_name,
+    COALESCE(u.settings->'general'->>'language', 'en')
+  FROM dashboard.users u
+  WHERE u.account_id = p_account_id
+    AND u.role IN ('owner', 'admin')
+  ORDER BY u.role = 'owner' DESC, u.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_subscriptions_by_account(UUID)
+  TO service_role, postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_subscription_dunning(UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.claim_subscription_dunning(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.advance_subscription_dunning(UUID, TEXT, INTEGER, TIMESTAMPTZ, TEXT, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.clear_subscription_dunning(UUID, TIMESTAMPTZ)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.get_dunning_recipients(UUID)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN dashboard.subscriptions.dunning_state IS
+  'Dunning after a failed renewal payment: past_due (retrying), grace (retries exhausted) or suspended (access reduced). NULL when paid up.';
+
+COMMENT ON COLUMN dashboard.subscriptions.next_dunning_at IS
+  'When the dunning job takes the next step: the next payment retry (past_due) or the suspension (grace).';
+
+COMMENT ON FUNCTION public.start_subscription_dunning(UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) IS
+  'Records a failed renewal payment; starts dunning (past_due) unless the subscription is already in dunning.';
+
+COMMENT ON FUNCTION public.claim_subscription_dunning(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) IS
+  'Claims the subscriptions whose next dunning step is due and leases them to the run.';
+
+COMMENT ON FUNCTION public.advance_subscription_dunning(UUID, TEXT, INTEGER, TIMESTAMPTZ, TEXT, TIMESTAMPTZ) IS
+  'Moves a subscription in dunning to its next step; returns the previous state (NULL if no longer in dunning).';
+
+COMMENT ON FUNCTION public.clear_subscription_dunning(UUID, TIMESTAMPTZ) IS
+  'Clears the dunning state after a successful payment; returns the previous state (NULL if not in dunning).';
@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Migration: Running minimum p-value of checkout experiments
+-- ============================================================================
+-- Problem: The results of an experiment show the mSPRT p-value of the current
+--          look only. The sequential test is only always valid when the
+--          lowest p-value seen so far is kept: a p-value that dipped below
+--          the significance level and came back up still counts.
+-- Solution: dashboard.experiments.min_p_values keeps the lowest p-value of
+--           each treatment ({ "<variant key>": <p-value> }). Every look at
+--           the results merges its p-values into it
+--           (record_experiment_p_values) and shows the running minimum
+--           (src/lib/experiments/statistics.ts).
+-- ============================================================================
+
+ALTER TABLE dashboard.experiments
+  ADD COLUMN IF NOT EXISTS min_p_values JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+ALTER TABLE dashboard.experiments
+  DROP CONSTRAINT IF EXISTS experiments_min_p_values_object;
+
+ALTER TABLE dashboard.experiments
+  ADD CONSTRAINT experiments_min_p_values_object CHECK (jsonb_typeof(min_p_values) = 'object');
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- Merge the p-values of a look into the running minimum and return it.
+-- The row lock of the update serializes concurrent looks.
+CREATE OR REPLACE FUNCTION public.record_experiment_p_values(
+  p_account_id UUID,
+  p_experiment_id UUID,
+  p_p_values JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_min_p_values JSONB;
+BEGIN
+  UPDATE dashboard.experiments AS x
+  SET min_p_values = (
+    SELECT COALESCE(jsonb_object_agg(p.key, p.p_value), '{}'::JSONB)
+    FROM (
+      SELECT e.key, MIN((e.value #>> '{}')::DOUBLE PRECISION) AS p_value
+      FROM (
+        SELECT * FROM jsonb_each(x.min_p_values)
+        UNION ALL
+        SELECT * FROM jsonb_each(COALESCE(p_p_values, '{}'::JSONB))
+      ) e
+      WHERE jsonb_typeof(e.value) = 'number'
+      GROUP BY e.key
+    ) p
+  )
+  WHERE x.id = p_experiment_id
+    AND x.account_id = p_account_id
+  RETURNING x.min_p_values INTO v_min_p_values;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Experiment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_min_p_values;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.record_experiment_p_values(UUID, UUID, JSONB)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN dashboard.experiments.min_p_values IS
+  'Lowest sequential test p-value of each treatment over every look at the results';
+COMMENT ON FUNCTION public.record_experiment_p_values(UUID, UUID, JSONB) IS
+  'Merges the p-values of a look at the results into the running minimum and returns it';
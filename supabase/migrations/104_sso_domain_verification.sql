@@ -0,0 +1,255 @@
+-- ============================================================================
+-- Migration: SSO domain ownership verification
+-- ============================================================================
+-- Problem: SSO domains were claimed first-come (migration 095): any account
+--          could add somecorp.com to its connection, send every
+--          @somecorp.com user to its own identity provider through domain
+--          discovery and, with enforce_sso, block their email codes.
+-- Solution: - A domain is only used for discovery, enforcement and
+--             provisioning once the account proved it owns it: a DNS TXT
+--             record "bolt-sso-verification=<token>" on the domain, checked
+--             by the dashboard (src/lib/sso/connections.ts), marks it
+--             verified (verify_sso_domain).
+--           - Several accounts can claim an unverified domain; a verified
+--             domain belongs to one account.
+--           - Domains saved before this migration are unverified until
+--             verified again.
+-- ============================================================================
+
+-- Token of the TXT record proving ownership of the connection's domains
+ALTER TABLE dashboard.sso_connections
+  ADD COLUMN IF NOT EXISTS domain_verification_token TEXT NOT NULL
+  DEFAULT replace(gen_random_uuid()::TEXT, '-', '');
+
+ALTER TABLE dashboard.sso_domains
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+-- A domain can be claimed by several connections, and verified by one
+ALTER TABLE dashboard.sso_domains
+  DROP CONSTRAINT IF EXISTS sso_domains_pkey;
+
+ALTER TABLE dashboard.sso_domains
+  ADD CONSTRAINT sso_domains_pkey PRIMARY KEY (domain, connection_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sso_domains_verified_domain
+  ON dashboard.sso_domains(domain)
+  WHERE verified_at IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- The return type changes (verified domains, verification token)
+DROP FUNCTION IF EXISTS public.get_sso_connection(UUID);
+
+-- SSO connection of an account, with its domains
+CREATE OR REPLACE FUNCTION public.get_sso_connection(
+  p_account_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  protocol TEXT,
+  enabled BOOLEAN,
+  enforce_sso BOOLEAN,
+  default_role TEXT,
+  domains TEXT[],
+  verified_domains TEXT[],
+  domain_verification_token TEXT,
+  oidc_issuer TEXT,
+  oidc_client_id TEXT,
+  oidc_client_secret_encrypted TEXT,
+  saml_entry_point TEXT,
+  saml_idp_issuer TEXT,
+  saml_idp_certificate TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.account_id,
+    c.protocol,
+    c.enabled,
+    c.enforce_sso,
+    c.default_role,
+    COALESCE(
+      (SELECT array_agg(d.domain ORDER BY d.domain) FROM dashboard.sso_domains d WHERE d.connection_id = c.id),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      (
+        SELECT array_agg(d.domain ORDER BY d.domain)
+        FROM dashboard.sso_domains d
+        WHERE d.connection_id = c.id AND d.verified_at IS NOT NULL
+      ),
+      ARRAY[]::TEXT[]
+    ),
+    c.domain_verification_token,
+    c.oidc_issuer,
+    c.oidc_client_id,
+    c.oidc_client_secret_encrypted,
+    c.saml_entry_point,
+    c.saml_idp_issuer,
+    c.saml_idp_certificate,
+    c.created_at,
+    c.updated_at
+  FROM dashboard.sso_connections c
+  WHERE c.account_id = p_account_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Account of the SSO connection that verified an email domain (domain discovery)
+CREATE OR REPLACE FUNCTION public.get_sso_account_by_domain(
+  p_domain TEXT
+)
+RETURNS UUID AS $$
+BEGIN
+  RETURN (
+    SELECT c.account_id
+    FROM dashboard.sso_domains d
+    JOIN dashboard.sso_connections c ON c.id = d.connection_id
+    WHERE d.domain = lower(btrim(p_domain))
+      AND d.verified_at IS NOT NULL
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Create or replace the SSO connection of an account. A NULL client secret
+-- keeps the stored one; domains kept from the previous connection stay
+-- verified, new ones start unverified. Raises unique_violation when a domain
+-- is verified by another account.
+CREATE OR REPLACE FUNCTION public.upsert_sso_connection(
+  p_account_id UUID,
+  p_protocol TEXT,
+  p_enabled BOOLEAN,
+  p_enforce_sso BOOLEAN,
+  p_default_role TEXT,
+  p_domains TEXT[],
+  p_oidc_issuer TEXT DEFAULT NULL,
+  p_oidc_client_id TEXT DEFAULT NULL,
+  p_oidc_client_secret_encrypted TEXT DEFAULT NULL,
+  p_saml_entry_point TEXT DEFAULT NULL,
+  p_saml_idp_issuer TEXT DEFAULT NULL,
+  p_saml_idp_certificate TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+  v_domains TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT lower(btrim(d))), ARRAY[]::TEXT[])
+  INTO v_domains
+  FROM unnest(p_domains) AS d
+  WHERE btrim(d) <> '';
+
+  INSERT INTO dashboard.sso_connections (
+    account_id, protocol, enabled, enforce_sso, default_role,
+    oidc_issuer, oidc_client_id, oidc_client_secret_encrypted,
+    saml_entry_point, saml_idp_issuer, saml_idp_certificate, created_by
+  )
+  VALUES (
+    p_account_id, p_protocol, p_enabled, p_enforce_sso, p_default_role,
+    p_oidc_issuer, p_oidc_client_id, p_oidc_client_secret_encrypted,
+    p_saml_entry_point, p_saml_idp_issuer, p_saml_idp_certificate, p_created_by
+  )
+  ON CONFLICT ON CONSTRAINT sso_connections_account_id_key DO UPDATE
+  SET
+    protocol = EXCLUDED.protocol,
+    enabled = EXCLUDED.enabled,
+    enforce_sso = EXCLUDED.enforce_sso,
+    default_role = EXCLUDED.default_role,
+    oidc_issuer = EXCLUDED.oidc_issuer,
+    oidc_client_id = EXCLUDED.oidc_client_id,
+    oidc_client_secret_encrypted = CASE
+      WHEN EXCLUDED.protocol <> 'oidc' THEN NULL
+      ELSE COALESCE(EXCLUDED.oidc_client_secret_encrypted, dashboard.sso_connections.oidc_client_secret_encrypted)
+    END,
+    saml_entry_point = EXCLUDED.saml_entry_point,
+    saml_idp_issuer = EXCLUDED.saml_idp_issuer,
+    saml_idp_certificate = EXCLUDED.saml_idp_certificate,
+    updated_at = NOW()
+  RETURNING id INTO v_id;
+
+  IF EXISTS (
+    SELECT 1
+    FROM dashboard.sso_domains d
+    WHERE d.domain = ANY (v_domains)
+      AND d.connection_id <> v_id
+      AND d.verified_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Domain is verified by another account' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  DELETE FROM dashboard.sso_domains d
+  WHERE d.connection_id = v_id
+    AND NOT (d.domain = ANY (v_domains));
+
+  INSERT INTO dashboard.sso_domains (domain, connection_id)
+  SELECT d, v_id
+  FROM unnest(v_domains) AS d
+  ON CONFLICT ON CONSTRAINT sso_domains_pkey DO NOTHING;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Mark a domain of an account's SSO connection as verified, once its TXT
+-- record was found. Raises no_data_found when the connection has no such
+-- domain, unique_violation when another account verified it first.
+CREATE OR REPLACE FUNCTION public.verify_sso_domain(
+  p_account_id UUID,
+  p_domain TEXT
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_verified_at TIMESTAMPTZ;
+BEGIN
+  UPDATE dashboard.sso_domains AS d
+  SET verified_at = COALESCE(d.verified_at, NOW())
+  FROM dashboard.sso_connections c
+  WHERE c.id = d.connection_id
+    AND c.account_id = p_account_id
+    AND d.domain = lower(btrim(p_domain))
+  RETURNING d.verified_at INTO v_verified_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SSO domain not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_verified_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_sso_connection(UUID)
+  TO service_role, postgres;
+GRANT EXECUTE ON FUNCTION public.verify_sso_domain(UUID, TEXT)
+  TO service_role, postgres;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN dashboard.sso_connections.domain_verification_token IS
+  'Token of the DNS TXT record (bolt-sso-verification=<token>) proving ownership of the connection domains.';
+
+COMMENT ON COLUMN dashboard.sso_domains.verified_at IS
+  'When ownership of the domain was verified; unverified domains are not used for discovery, enforcement or provisioning.';
+
+COMMENT ON TABLE dashboard.sso_domains IS
+  'Email domains of SSO connections, used for domain discovery on the login page once verified. A verified domain belongs to one account.';
+
+COMMENT ON FUNCTION public.get_sso_connection(UUID) IS
+  'Returns the SSO connection of an account with its domains and verified domains.';
+
+COMMENT ON FUNCTION public.get_sso_account_by_domain(TEXT) IS
+  'Returns the account whose SSO connection verified an email domain.';
+
+COMMENT ON FUNCTION public.verify_sso_domain(UUID, TEXT) IS
+  'Marks a domain of the SSO connection of an account as verified.';
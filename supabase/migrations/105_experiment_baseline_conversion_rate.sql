@@ -0,0 +1,162 @@
+-- ============================================================================
+-- Migration: Baseline conversion rate of checkout experiments
+-- ============================================================================
+-- Problem: The mixture variance of the sequential test (mSPRT) was derived
+--          from the pooled conversion rate of the experiment at each look,
+--          so the prior changed with the data it is tested on. The running
+--          minimum p-value (migration 103) is only always valid when the
+--          mixture is fixed before the data comes in.
+-- Solution: dashboard.experiments.baseline_conversion_rate is the account's
+--           conversion rate over the 30 days before the experiment started,
+--           set when it starts (set_experiment_status) and never changed.
+--           The mixture variance is derived from it at every look
+--           (src/lib/experiments/statistics.ts). Experiments started before
+--           this migration are backfilled from the 30 days before their start.
+-- ============================================================================
+
+ALTER TABLE dashboard.experiments
+  ADD COLUMN IF NOT EXISTS baseline_conversion_rate DOUBLE PRECISION;
+
+-- ============================================================================
+-- INTERNAL FUNCTIONS
+-- ============================================================================
+
+-- Share of the account's sessions that converted in the 30 days before a
+-- time (NULL without sessions)
+CREATE OR REPLACE FUNCTION dashboard.get_baseline_conversion_rate(
+  p_account_id UUID,
+  p_before TIMESTAMPTZ
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT
+    (COUNT(DISTINCT e.session_id) FILTER (
+      WHERE e.event_type IN ('checkout_complete', 'order_confirmed')
+    ))::DOUBLE PRECISION / NULLIF(COUNT(DISTINCT e.session_id), 0)
+  FROM analytics.events e
+  WHERE e.customer_id = p_account_id
+    AND e.timestamp >= p_before - INTERVAL '30 days'
+    AND e.timestamp < p_before
+    AND e.session_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SET search_path = public, pg_catalog;
+
+UPDATE dashboard.experiments AS x
+SET baseline_conversion_rate = dashboard.get_baseline_conversion_rate(x.account_id, x.started_at)
+WHERE x.started_at IS NOT NULL
+  AND x.baseline_conversion_rate IS NULL;
+
+-- ============================================================================
+-- PUBLIC FUNCTIONS
+-- ============================================================================
+
+-- The return type changes (baseline conversion rate)
+DROP FUNCTION IF EXISTS public.get_experiments(UUID, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_experiments(
+  p_account_id UUID,
+  p_experiment_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  account_id UUID,
+  name TEXT,
+  description TEXT,
+  experiment_type TEXT,
+  status TEXT,
+  variants JSONB,
+  significance_level NUMERIC,
+  min_sessions_per_variant INTEGER,
+  winner_variant_key TEXT,
+  baseline_conversion_rate DOUBLE PRECISION,
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    x.id,
+    x.account_id,
+    x.name,
+    x.description,
+    x.experiment_type,
+    x.status,
+    x.variants,
+    x.significance_level,
+    x.min_sessions_per_variant,
+    x.winner_variant_key,
+    x.baseline_conversion_rate,
+    x.started_at,
+    x.stopped_at,
+    x.created_at,
+    x.updated_at
+  FROM dashboard.experiments x
+  WHERE x.account_id = p_account_id
+    AND (p_experiment_id IS NULL OR x.id = p_experiment_id)
+    AND (p_status IS NULL OR x.status = p_status)
+  ORDER BY x.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- Status transitions:
+--   running:   from draft (sets started_at and the baseline conversion rate)
+--   stopped:   from running (sets stopped_at, the results period ends)
+--   completed: from running or stopped, with the promoted winner
+CREATE OR REPLACE FUNCTION public.set_experiment_status(
+  p_account_id UUID,
+  p_experiment_id UUID,
+  p_status TEXT,
+  p_winner_variant_key TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT x.status INTO v_status
+  FROM dashboard.experiments x
+  WHERE x.id = p_experiment_id
+    AND x.account_id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Experiment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT (
+    (p_status = 'running' AND v_status = 'draft')
+    OR (p_status = 'stopped' AND v_status = 'running')
+    OR (p_status = 'completed' AND v_status IN ('running', 'stopped'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change experiment from % to %', v_status, p_status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE dashboard.experiments AS x
+  SET
+    status = p_status,
+    started_at = CASE WHEN p_status = 'running' THEN NOW() ELSE x.started_at END,
+    stopped_at = CASE WHEN p_status <> 'running' THEN COALESCE(x.stopped_at, NOW()) ELSE NULL END,
+    baseline_conversion_rate = CASE
+      WHEN p_status = 'running' THEN dashboard.get_baseline_conversion_rate(p_account_id, NOW())
+      ELSE x.baseline_conversion_rate
+    END,
+    winner_variant_key = CASE WHEN p_status = 'completed' THEN p_winner_variant_key ELSE NULL END,
+    updated_at = NOW()
+  WHERE x.id = p_experiment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_catalog;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_experiments(UUID, UUID, TEXT)
+  TO service_role, postgres, authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN dashboard.experiments.baseline_conversion_rate IS
+  'Account conversion rate over the 30 days before the start, fixing the mixture variance of the sequential test';